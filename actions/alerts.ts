@@ -0,0 +1,227 @@
+"use server";
+
+import { db } from "@/lib/db";
+import { alertRules, securityAlerts } from "@/lib/db/schema";
+import { and, eq, ne } from "drizzle-orm";
+import { getCurrentUser } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { withCSRFProtection } from "@/lib/security/csp";
+import { sanitizeInput } from "@/lib/security/sanitize";
+import { logAuditEvent } from "@/lib/security/audit";
+import { invalidateAlertRules } from "@/lib/security/alerts";
+import { alertRuleFormSchema } from "@/lib/schemas";
+
+async function getAdmin() {
+  const currentUser = await getCurrentUser();
+  return currentUser?.userData?.role === "ADMIN" ? currentUser.userData : null;
+}
+
+/**
+ * Creates an alert rule, or updates the one named by `ruleId`.
+ */
+export const saveAlertRuleAction = withCSRFProtection(async (formData: FormData) => {
+  try {
+    const admin = await getAdmin();
+    if (!admin) {
+      return { success: false as const, error: "Admin access required" };
+    }
+
+    const parsed = alertRuleFormSchema.safeParse({
+      name: formData.get("name") ?? "",
+      action: formData.get("action") ?? undefined,
+      threatType: formData.get("threatType") ?? undefined,
+      entityType: formData.get("entityType") ?? undefined,
+      minSeverity: formData.get("minSeverity") ?? undefined,
+      threshold: formData.get("threshold") ?? 1,
+      windowSeconds: formData.get("windowSeconds") ?? 300,
+      groupBy: formData.get("groupBy") ?? "NONE",
+      severity: formData.get("severity") ?? "HIGH",
+      notifyEmail: formData.get("notifyEmail") === "true",
+      webhookUrl: formData.get("webhookUrl") ?? undefined,
+    });
+    if (!parsed.success) {
+      return {
+        success: false as const,
+        error: parsed.error.errors[0]?.message ?? "Invalid form data",
+      };
+    }
+
+    const values = {
+      ...parsed.data,
+      name: sanitizeInput(parsed.data.name),
+      action: parsed.data.action && sanitizeInput(parsed.data.action),
+      threatType: parsed.data.threatType && sanitizeInput(parsed.data.threatType),
+      entityType: parsed.data.entityType && sanitizeInput(parsed.data.entityType),
+    };
+
+    const ruleId = formData.get("ruleId");
+    let savedId: string | undefined;
+    if (typeof ruleId === "string" && ruleId) {
+      const [updated] = await db
+        .update(alertRules)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(alertRules.id, ruleId))
+        .returning({ id: alertRules.id });
+      if (!updated) {
+        return { success: false as const, error: "Alert rule not found" };
+      }
+      savedId = updated.id;
+    } else {
+      const [created] = await db
+        .insert(alertRules)
+        .values({ ...values, createdById: admin.id })
+        .returning({ id: alertRules.id });
+      if (!created) throw new Error("Failed to create alert rule");
+      savedId = created.id;
+    }
+
+    invalidateAlertRules();
+    await logAuditEvent({
+      action: ruleId ? "Alert Rule Updated" : "Alert Rule Created",
+      userId: admin.id,
+      entityType: "alert_rule",
+      entityId: savedId,
+      severity: "MEDIUM",
+      metadata: { name: values.name },
+    });
+
+    revalidatePath("/alerts");
+    return { success: true as const };
+  } catch (error) {
+    console.error("Failed to save alert rule:", error);
+    return { success: false as const, error: "Failed to save alert rule" };
+  }
+});
+
+// CSRF: Protected by Next.js's built-in Server Action Origin header check.
+// This action takes the rule id (not FormData) so it cannot use
+// withCSRFProtection(). All call sites use startTransition — no raw fetch.
+export async function toggleAlertRuleAction(ruleId: string, enabled: boolean) {
+  try {
+    const admin = await getAdmin();
+    if (!admin) {
+      return { success: false as const, error: "Admin access required" };
+    }
+
+    const [updated] = await db
+      .update(alertRules)
+      .set({ enabled, updatedAt: new Date() })
+      .where(eq(alertRules.id, ruleId))
+      .returning({ id: alertRules.id, name: alertRules.name });
+    if (!updated) {
+      return { success: false as const, error: "Alert rule not found" };
+    }
+
+    invalidateAlertRules();
+    await logAuditEvent({
+      action: enabled ? "Alert Rule Enabled" : "Alert Rule Disabled",
+      userId: admin.id,
+      entityType: "alert_rule",
+      entityId: updated.id,
+      severity: "MEDIUM",
+      metadata: { name: updated.name },
+    });
+
+    revalidatePath("/alerts");
+    return { success: true as const };
+  } catch (error) {
+    console.error("Failed to toggle alert rule:", error);
+    return { success: false as const, error: "Failed to update alert rule" };
+  }
+}
+
+// Deleting a rule also deletes its alerts.
+// CSRF: Protected by Next.js's built-in Server Action Origin header check.
+// This action takes the rule id (not FormData) so it cannot use
+// withCSRFProtection(). All call sites use startTransition — no raw fetch.
+export async function deleteAlertRuleAction(ruleId: string) {
+  try {
+    const admin = await getAdmin();
+    if (!admin) {
+      return { success: false as const, error: "Admin access required" };
+    }
+
+    const [deleted] = await db
+      .delete(alertRules)
+      .where(eq(alertRules.id, ruleId))
+      .returning({ id: alertRules.id, name: alertRules.name });
+    if (!deleted) {
+      return { success: false as const, error: "Alert rule not found" };
+    }
+
+    invalidateAlertRules();
+    await logAuditEvent({
+      action: "Alert Rule Deleted",
+      userId: admin.id,
+      entityType: "alert_rule",
+      entityId: deleted.id,
+      severity: "HIGH",
+      metadata: { name: deleted.name },
+    });
+
+    revalidatePath("/alerts");
+    return { success: true as const };
+  } catch (error) {
+    console.error("Failed to delete alert rule:", error);
+    return { success: false as const, error: "Failed to delete alert rule" };
+  }
+}
+
+// Acknowledge an open alert, or resolve an open or acknowledged one. A
+// resolved alert is closed: the next firing for its rule and group opens a
+// new alert.
+// CSRF: Protected by Next.js's built-in Server Action Origin header check.
+// This action takes the alert id (not FormData) so it cannot use
+// withCSRFProtection(). All call sites use startTransition — no raw fetch.
+export async function updateAlertStatusAction(
+  alertId: string,
+  status: "ACKNOWLEDGED" | "RESOLVED"
+) {
+  try {
+    const admin = await getAdmin();
+    if (!admin) {
+      return { success: false as const, error: "Admin access required" };
+    }
+    if (status !== "ACKNOWLEDGED" && status !== "RESOLVED") {
+      return { success: false as const, error: "Invalid status" };
+    }
+
+    const now = new Date();
+    const [updated] = await db
+      .update(securityAlerts)
+      .set(
+        status === "ACKNOWLEDGED"
+          ? { status, acknowledgedById: admin.id, acknowledgedAt: now }
+          : { status, resolvedById: admin.id, resolvedAt: now }
+      )
+      .where(
+        and(
+          eq(securityAlerts.id, alertId),
+          status === "ACKNOWLEDGED"
+            ? eq(securityAlerts.status, "OPEN")
+            : ne(securityAlerts.status, "RESOLVED")
+        )
+      )
+      .returning({ id: securityAlerts.id });
+    if (!updated) {
+      return {
+        success: false as const,
+        error: status === "ACKNOWLEDGED" ? "Alert is not open" : "Alert is already resolved",
+      };
+    }
+
+    await logAuditEvent({
+      action: status === "ACKNOWLEDGED" ? "Security Alert Acknowledged" : "Security Alert Resolved",
+      userId: admin.id,
+      entityType: "security_alert",
+      entityId: updated.id,
+      severity: "LOW",
+    });
+
+    revalidatePath("/alerts");
+    return { success: true as const };
+  } catch (error) {
+    console.error("Failed to update alert status:", error);
+    return { success: false as const, error: "Failed to update alert" };
+  }
+}
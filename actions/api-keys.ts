@@ -0,0 +1,114 @@
+"use server";
+
+import { db } from "@/lib/db";
+import { apiKeys } from "@/lib/db/schema";
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { getCurrentUser } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { withCSRFProtection } from "@/lib/security/csp";
+import { sanitizeInput } from "@/lib/security/sanitize";
+import { logAuditEvent } from "@/lib/security/audit";
+import { generateApiKey, MAX_API_KEYS_PER_USER } from "@/lib/api-keys";
+import { apiKeyFormSchema } from "@/lib/schemas";
+
+/**
+ * Creates a personal API key. The plaintext key is only ever returned here —
+ * the database keeps its SHA-256 hash.
+ */
+export const createApiKeyAction = withCSRFProtection(async (formData: FormData) => {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser?.userData) {
+      return { success: false as const, error: "Authentication required. Please sign in." };
+    }
+    const user = currentUser.userData;
+
+    const parsed = apiKeyFormSchema.safeParse({
+      name: formData.get("name") ?? "",
+      scope: formData.get("scope") ?? "READ",
+    });
+    if (!parsed.success) {
+      return {
+        success: false as const,
+        error: parsed.error.errors[0]?.message ?? "Invalid form data",
+      };
+    }
+
+    const [{ count } = { count: 0 }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(apiKeys)
+      .where(and(eq(apiKeys.userId, user.id), isNull(apiKeys.revokedAt)));
+    if (count >= MAX_API_KEYS_PER_USER) {
+      return {
+        success: false as const,
+        error: `You can have at most ${MAX_API_KEYS_PER_USER} active API keys`,
+      };
+    }
+
+    const { key, prefix, hash } = generateApiKey();
+    const [created] = await db
+      .insert(apiKeys)
+      .values({
+        userId: user.id,
+        name: sanitizeInput(parsed.data.name),
+        prefix,
+        keyHash: hash,
+        scope: parsed.data.scope,
+      })
+      .returning({ id: apiKeys.id });
+    if (!created) throw new Error("Failed to create API key");
+
+    await logAuditEvent({
+      action: "API Key Created",
+      userId: user.id,
+      entityType: "api_key",
+      entityId: created.id,
+      severity: "MEDIUM",
+      metadata: { scope: parsed.data.scope, prefix },
+    });
+
+    revalidatePath("/account");
+    return { success: true as const, key };
+  } catch (error) {
+    console.error("Failed to create API key:", error);
+    return { success: false as const, error: "Failed to create API key" };
+  }
+});
+
+// CSRF: Protected by Next.js's built-in Server Action Origin header check
+// (same basis as toggleStarAction) — this action takes plain data, not FormData.
+export async function revokeApiKeyAction(apiKeyId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser?.userData) {
+      return { success: false as const, error: "Authentication required. Please sign in." };
+    }
+    const user = currentUser.userData;
+
+    const [revoked] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(eq(apiKeys.id, apiKeyId), eq(apiKeys.userId, user.id), isNull(apiKeys.revokedAt))
+      )
+      .returning({ id: apiKeys.id, prefix: apiKeys.prefix });
+    if (!revoked) {
+      return { success: false as const, error: "API key not found" };
+    }
+
+    await logAuditEvent({
+      action: "API Key Revoked",
+      userId: user.id,
+      entityType: "api_key",
+      entityId: revoked.id,
+      severity: "MEDIUM",
+      metadata: { prefix: revoked.prefix },
+    });
+
+    revalidatePath("/account");
+    return { success: true as const };
+  } catch (error) {
+    console.error("Failed to revoke API key:", error);
+    return { success: false as const, error: "Failed to revoke API key" };
+  }
+}
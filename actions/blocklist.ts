@@ -0,0 +1,178 @@
+"use server";
+
+import { getCurrentUser } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { withCSRFProtection } from "@/lib/security/csp";
+import { sanitizeInput } from "@/lib/security/sanitize";
+import { logAuditEvent } from "@/lib/security/audit";
+import { createBlock, extendBlock, liftBlock } from "@/lib/security/blocklist";
+import { formatIp, isIpInRange, normalizeIp, parseCidr, parseIp } from "@/lib/security/ip";
+import { BLOCK_DURATIONS, blockExtensionSchema, blockFormSchema, type BlockDuration } from "@/lib/schemas";
+
+async function getAdmin() {
+  const currentUser = await getCurrentUser();
+  return currentUser?.userData?.role === "ADMIN" ? currentUser.userData : null;
+}
+
+/** Extract client IP from server action request headers */
+async function getActionClientIP(): Promise<string> {
+  const hdrs = await headers();
+  const forwarded = hdrs.get("x-forwarded-for");
+  const realIp = hdrs.get("x-real-ip");
+  return forwarded?.split(",")[0]?.trim() || realIp || "unknown";
+}
+
+// IP blocks are enforced before the session is read, so an admin who blocks
+// their own address can't reach /blocklist to lift it
+async function blocksOwnAddress(type: "IP" | "CIDR", value: string): Promise<boolean> {
+  const ip = parseIp(await getActionClientIP());
+  if (!ip) return false;
+  if (type === "IP") return normalizeIp(value) === formatIp(ip);
+  const range = parseCidr(value);
+  return !!range && isIpInRange(ip, range);
+}
+
+function expiryFor(duration: BlockDuration): Date | null {
+  const ms = BLOCK_DURATIONS[duration];
+  return ms === null ? null : new Date(Date.now() + ms);
+}
+
+/**
+ * Blocks an IP address, CIDR range or user. Blocking something already
+ * blocked replaces its reason and expiry.
+ */
+export const addBlockAction = withCSRFProtection(async (formData: FormData) => {
+  try {
+    const admin = await getAdmin();
+    if (!admin) {
+      return { success: false as const, error: "Admin access required" };
+    }
+
+    const parsed = blockFormSchema.safeParse({
+      type: formData.get("type") ?? "IP",
+      value: formData.get("value") ?? "",
+      reason: formData.get("reason") ?? undefined,
+      duration: formData.get("duration") ?? "24h",
+    });
+    if (!parsed.success) {
+      return {
+        success: false as const,
+        error: parsed.error.errors[0]?.message ?? "Invalid form data",
+      };
+    }
+    const { type, value, reason, duration } = parsed.data;
+
+    if (type === "USER" && value === admin.id) {
+      return { success: false as const, error: "You cannot block yourself" };
+    }
+    if (type !== "USER" && (await blocksOwnAddress(type, value))) {
+      return {
+        success: false as const,
+        error: "You cannot block your own IP address",
+      };
+    }
+
+    const block = await createBlock({
+      type,
+      value,
+      reason: reason && sanitizeInput(reason),
+      expiresAt: expiryFor(duration),
+      createdById: admin.id,
+    });
+
+    await logAuditEvent({
+      action: "Block Added",
+      userId: admin.id,
+      entityType: "blocklist",
+      entityId: block.id,
+      severity: "HIGH",
+      metadata: { type, value, duration },
+    });
+
+    revalidatePath("/blocklist");
+    return { success: true as const };
+  } catch (error) {
+    console.error("Failed to add block:", error);
+    return { success: false as const, error: "Failed to add block" };
+  }
+});
+
+// Extends from the block's current expiry, or from now if that has passed;
+// "permanent" keeps the block until lifted.
+// CSRF: Protected by Next.js's built-in Server Action Origin header check.
+// This action takes the block id (not FormData) so it cannot use
+// withCSRFProtection(). All call sites use startTransition — no raw fetch.
+export async function extendBlockAction(blockId: string, duration: BlockDuration) {
+  try {
+    const admin = await getAdmin();
+    if (!admin) {
+      return { success: false as const, error: "Admin access required" };
+    }
+
+    const parsed = blockExtensionSchema.safeParse({ blockId, duration });
+    if (!parsed.success) {
+      return {
+        success: false as const,
+        error: parsed.error.errors[0]?.message ?? "Invalid request",
+      };
+    }
+
+    const block = await extendBlock(parsed.data.blockId, BLOCK_DURATIONS[parsed.data.duration]);
+    if (!block) {
+      return { success: false as const, error: "Block not found or already lifted" };
+    }
+
+    await logAuditEvent({
+      action: "Block Extended",
+      userId: admin.id,
+      entityType: "blocklist",
+      entityId: block.id,
+      severity: "MEDIUM",
+      metadata: {
+        type: block.type,
+        value: block.value,
+        duration: parsed.data.duration,
+        expiresAt: block.expiresAt?.toISOString() ?? null,
+      },
+    });
+
+    revalidatePath("/blocklist");
+    return { success: true as const };
+  } catch (error) {
+    console.error("Failed to extend block:", error);
+    return { success: false as const, error: "Failed to extend block" };
+  }
+}
+
+// CSRF: Protected by Next.js's built-in Server Action Origin header check.
+// This action takes the block id (not FormData) so it cannot use
+// withCSRFProtection(). All call sites use startTransition — no raw fetch.
+export async function liftBlockAction(blockId: string) {
+  try {
+    const admin = await getAdmin();
+    if (!admin) {
+      return { success: false as const, error: "Admin access required" };
+    }
+
+    const block = await liftBlock(blockId, admin.id);
+    if (!block) {
+      return { success: false as const, error: "Block not found or already lifted" };
+    }
+
+    await logAuditEvent({
+      action: "Block Lifted",
+      userId: admin.id,
+      entityType: "blocklist",
+      entityId: block.id,
+      severity: "MEDIUM",
+      metadata: { type: block.type, value: block.value },
+    });
+
+    revalidatePath("/blocklist");
+    return { success: true as const };
+  } catch (error) {
+    console.error("Failed to lift block:", error);
+    return { success: false as const, error: "Failed to lift block" };
+  }
+}
@@ -9,13 +9,16 @@ import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 import { revalidateCache, CACHE_TAGS } from "@/lib/cache";
 import { withCSRFProtection } from "@/lib/security/csp";
-import { sanitizeInput, sanitizeContent } from "@/lib/security/sanitize";
+import { sanitizeInput, sanitizeContent, sanitizeRichContent } from "@/lib/security/sanitize";
 import {
   createBlogPostFormSchema,
   updateBlogPostFormSchema,
   blogBulkImportItemSchema,
 } from "@/lib/schemas";
 import { estimateReadingTime } from "@/lib/utils";
+import { clearUploadReferences, syncUploadReferences } from "@/lib/uploads";
+import { nextSeriesOrder, resolveBlogSeries, syncBlogPostTaxonomy } from "@/lib/blog-taxonomy";
+import { markdownToHtml } from "@/lib/blog-markdown-html";
 
 // ---------------------------------------------------------------------------
 // Error sanitization — only whitelisted messages are forwarded to the client;
@@ -96,16 +99,21 @@ export const createBlogPostAction = withCSRFProtection(async (formData: FormData
     throw new Error(parsed.error.errors[0]?.message ?? "Invalid form data");
   }
 
-  const { title: rawTitle, slug: rawSlug, excerpt: rawExcerpt, content: rawContent, featuredImageUrl, status } = parsed.data;
+  const { title: rawTitle, slug: rawSlug, excerpt: rawExcerpt, content: rawContent, featuredImageUrl, status, publishAt, tags: rawTagNames, series: rawSeries, seriesOrder: formSeriesOrder } = parsed.data;
 
   const title   = sanitizeInput(rawTitle);
   const excerpt = rawExcerpt ? sanitizeInput(rawExcerpt) : null;
   const content = sanitizeContent(rawContent);
+  const tagNames = rawTagNames.map((t) => sanitizeInput(t)).filter(Boolean);
+
+  const seriesId    = await resolveBlogSeries(rawSeries ? sanitizeInput(rawSeries) : null);
+  const seriesOrder = seriesId ? (formSeriesOrder ?? await nextSeriesOrder(seriesId)) : null;
 
   const baseSlug = rawSlug || toSlug(title);
   const slug     = await ensureUniqueSlug(baseSlug);
   const readingTime = estimateReadingTime(content);
-  const publishedAt = status === "PUBLISHED" ? new Date() : null;
+  // Scheduled articles carry their go-live time until publishDueContent() flips them
+  const publishedAt = status === "PUBLISHED" ? new Date() : status === "SCHEDULED" ? publishAt : null;
 
   const [inserted] = await db
     .insert(blogPosts)
@@ -116,6 +124,8 @@ export const createBlogPostAction = withCSRFProtection(async (formData: FormData
       content,
       featuredImageUrl: featuredImageUrl ?? null,
       readingTime,
+      seriesId,
+      seriesOrder,
       authorId: currentUser.userData.id,
       status: status as BlogStatus,
       publishedAt,
@@ -123,6 +133,8 @@ export const createBlogPostAction = withCSRFProtection(async (formData: FormData
     .returning({ id: blogPosts.id });
 
   if (!inserted) throw new Error("Failed to create article");
+  await syncBlogPostTaxonomy(inserted.id, { tagNames, html: content });
+  await syncUploadReferences("blog_post", inserted.id, { html: content, urls: [featuredImageUrl ?? null] });
 
   invalidateBlogCache();
   redirect("/blog/admin");
@@ -145,14 +157,22 @@ export const updateBlogPostAction = withCSRFProtection(async (formData: FormData
     throw new Error(parsed.error.errors[0]?.message ?? "Invalid form data");
   }
 
-  const { id, title: rawTitle, slug: rawSlug, excerpt: rawExcerpt, content: rawContent, featuredImageUrl, status } = parsed.data;
+  const { id, title: rawTitle, slug: rawSlug, excerpt: rawExcerpt, content: rawContent, featuredImageUrl, status, publishAt, tags: rawTagNames, series: rawSeries, seriesOrder: formSeriesOrder } = parsed.data;
 
-  const [existing] = await db.select({ id: blogPosts.id, status: blogPosts.status, publishedAt: blogPosts.publishedAt }).from(blogPosts).where(eq(blogPosts.id, id)).limit(1);
+  const [existing] = await db.select({ id: blogPosts.id, status: blogPosts.status, publishedAt: blogPosts.publishedAt, seriesId: blogPosts.seriesId, seriesOrder: blogPosts.seriesOrder }).from(blogPosts).where(eq(blogPosts.id, id)).limit(1);
   if (!existing) throw new Error("Article not found");
 
   const title   = sanitizeInput(rawTitle);
   const excerpt = rawExcerpt ? sanitizeInput(rawExcerpt) : null;
   const content = sanitizeContent(rawContent);
+  const tagNames = rawTagNames.map((t) => sanitizeInput(t)).filter(Boolean);
+
+  // Without an explicit part number an article keeps its place in its series,
+  // or is appended when it joins a new one
+  const seriesId    = await resolveBlogSeries(rawSeries ? sanitizeInput(rawSeries) : null);
+  const seriesOrder =
+    !seriesId ? null
+    : formSeriesOrder ?? (seriesId === existing.seriesId && existing.seriesOrder ? existing.seriesOrder : await nextSeriesOrder(seriesId, id));
 
   const baseSlug = rawSlug || toSlug(title);
   const slug     = await ensureUniqueSlug(baseSlug, id);
@@ -160,15 +180,19 @@ export const updateBlogPostAction = withCSRFProtection(async (formData: FormData
 
   // Only set publishedAt the first time a post transitions to PUBLISHED
   const wasPublished = existing.status === "PUBLISHED";
-  const publishedAt  = status === "PUBLISHED" ? (existing.publishedAt ?? new Date()) : null;
+  const publishedAt  =
+    status === "PUBLISHED" ? (wasPublished ? existing.publishedAt ?? new Date() : new Date())
+    : status === "SCHEDULED" ? publishAt
+    : null;
 
   await db
     .update(blogPosts)
-    .set({ title, slug, excerpt, content, featuredImageUrl: featuredImageUrl ?? null, readingTime, status: status as BlogStatus, publishedAt, updatedAt: new Date() })
+    .set({ title, slug, excerpt, content, featuredImageUrl: featuredImageUrl ?? null, readingTime, seriesId, seriesOrder, status: status as BlogStatus, publishedAt, updatedAt: new Date() })
     .where(eq(blogPosts.id, id));
+  await syncBlogPostTaxonomy(id, { tagNames, html: content });
+  await syncUploadReferences("blog_post", id, { html: content, urls: [featuredImageUrl ?? null] });
 
   invalidateBlogCache();
-  void wasPublished; // suppress unused warning
   redirect("/blog/admin");
 });
 
@@ -191,6 +215,7 @@ export async function deleteBlogPostAction(id: string) {
     if (!existing) throw new Error("Article not found");
 
     await db.delete(blogPosts).where(eq(blogPosts.id, id));
+    await clearUploadReferences("blog_post", id);
     invalidateBlogCache();
     return { success: true };
   } catch (error) {
@@ -219,7 +244,11 @@ export async function toggleBlogPublishAction(id: string) {
     if (!existing) throw new Error("Article not found");
 
     const newStatus: BlogStatus = existing.status === "PUBLISHED" ? "DRAFT" : "PUBLISHED";
-    const publishedAt = newStatus === "PUBLISHED" ? (existing.publishedAt ?? new Date()) : null;
+    // Publishing a scheduled article early makes it live now, not at its scheduled time
+    const publishedAt =
+      newStatus === "PUBLISHED" && existing.status !== "SCHEDULED" ? (existing.publishedAt ?? new Date())
+      : newStatus === "PUBLISHED" ? new Date()
+      : null;
 
     await db.update(blogPosts).set({ status: newStatus, publishedAt, updatedAt: new Date() }).where(eq(blogPosts.id, id));
     invalidateBlogCache();
@@ -273,19 +302,33 @@ export const bulkImportBlogPostsAction = withCSRFProtection(
       try {
         const title   = sanitizeInput(item.title);
         const excerpt = item.excerpt ? sanitizeInput(item.excerpt) : null;
-        const content = sanitizeContent(item.content);
+        const html = item.format === "markdown" ? markdownToHtml(item.content) : item.content;
+        // sanitizeRichContent truncates at 50k characters; fail instead of cutting the article short
+        if (item.format === "markdown" && html.length > 50000) {
+          throw new Error("Article is too long for Markdown import (50,000 characters of HTML max)");
+        }
+        const content = item.format === "markdown" ? sanitizeRichContent(html) : sanitizeContent(html);
         const baseSlug = item.slug || toSlug(title);
         const slug     = await ensureUniqueSlug(baseSlug);
         const readingTime = estimateReadingTime(content);
         const status: BlogStatus = item.status as BlogStatus;
-        const publishedAt = status === "PUBLISHED" ? new Date() : null;
-
-        await db.insert(blogPosts).values({
+        // Exported articles carry their original date so a re-import keeps it
+        const publishedAt = status === "PUBLISHED"
+          ? (item.publishedAt ? new Date(item.publishedAt) : new Date())
+          : null;
+        const tagNames = (item.tags ?? []).map((t) => sanitizeInput(t)).filter(Boolean);
+        const seriesId = await resolveBlogSeries(item.series ? sanitizeInput(item.series) : null);
+        const seriesOrder = seriesId ? (item.seriesOrder ?? await nextSeriesOrder(seriesId)) : null;
+
+        const [created] = await db.insert(blogPosts).values({
           title, slug, excerpt, content,
-          featuredImageUrl: item.featuredImageUrl ?? null,
+          featuredImageUrl: item.featuredImageUrl || null,
           readingTime, authorId: currentUser.userData.id,
-          status, publishedAt,
-        });
+          status, publishedAt, seriesId, seriesOrder,
+        }).returning({ id: blogPosts.id });
+        if (!created) throw new Error("Failed to create article");
+
+        await syncBlogPostTaxonomy(created.id, { tagNames, html: content });
 
         importResults.push({ index: i, title: item.title, success: true });
       } catch (err) {
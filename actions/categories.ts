@@ -1,7 +1,7 @@
 "use server";
 
 import { db } from "@/lib/db";
-import { categories as categoriesTable, posts } from "@/lib/db/schema";
+import { categories as categoriesTable, categoryFollows, posts } from "@/lib/db/schema";
 import { eq, ne, and, sql } from "drizzle-orm";
 import { getCurrentUser } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
@@ -261,3 +261,50 @@ export const deleteCategoryAction = withCSRFProtection(
     }
   }
 );
+
+// Follow or unfollow a category; followers are notified of new posts in it
+// and its subcategories.
+// CSRF: Protected by Next.js's built-in Server Action Origin header check.
+// This action takes the category id (not FormData) so it cannot use
+// withCSRFProtection(). All call sites use startTransition — no raw fetch.
+export async function toggleCategoryFollowAction(categoryId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser?.userData) {
+      return { success: false as const, error: "Authentication required. Please sign in." };
+    }
+    const user = currentUser.userData;
+
+    const [category] = await db
+      .select({ id: categoriesTable.id })
+      .from(categoriesTable)
+      .where(eq(categoriesTable.id, categoryId))
+      .limit(1);
+    if (!category) {
+      return { success: false as const, error: "Category not found" };
+    }
+
+    const removed = await db
+      .delete(categoryFollows)
+      .where(and(eq(categoryFollows.userId, user.id), eq(categoryFollows.categoryId, category.id)))
+      .returning({ userId: categoryFollows.userId });
+    const following = removed.length === 0;
+    if (following) {
+      await db
+        .insert(categoryFollows)
+        .values({ userId: user.id, categoryId: category.id })
+        .onConflictDoNothing();
+    }
+
+    return { success: true as const, following };
+  } catch (error) {
+    if (error && typeof error === "object" && "digest" in error) {
+      const errorDigest = (error as { digest?: string }).digest;
+      if (typeof errorDigest === "string" && errorDigest.includes("NEXT_REDIRECT")) {
+        throw error;
+      }
+    }
+    console.error("Toggle category follow error:", error);
+    return { success: false as const, error: "Failed to update follow" };
+  }
+}
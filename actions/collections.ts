@@ -0,0 +1,321 @@
+"use server";
+
+import { db } from "@/lib/db";
+import {
+  collections,
+  collectionPosts,
+  collectionStars,
+  posts,
+} from "@/lib/db/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { getCurrentUser } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { withCSRFProtection } from "@/lib/security/csp";
+import { sanitizeInput } from "@/lib/security/sanitize";
+import { getCollectionMemberships } from "@/lib/collections";
+import {
+  collectionFormSchema,
+  updateCollectionFormSchema,
+  collectionPostSchema,
+  collectionOrderSchema,
+  type CollectionPostData,
+  type CollectionOrderData,
+} from "@/lib/schemas";
+
+const MAX_COLLECTIONS_PER_USER = 100;
+const MAX_POSTS_PER_COLLECTION = 500;
+
+// Errors thrown with these messages are returned to the client verbatim
+const SAFE_ACTION_MESSAGES = new Set([
+  "Authentication required. Please sign in.",
+  "Collection not found",
+  "Post not found",
+  "Invalid form data",
+  "Unable to generate unique slug",
+  `You can have at most ${MAX_COLLECTIONS_PER_USER} collections`,
+  `A collection can hold at most ${MAX_POSTS_PER_COLLECTION} posts`,
+  "The new order must list exactly the posts in the collection",
+  "Only public collections can be starred",
+]);
+
+function toErrorResult(error: unknown, fallback: string) {
+  if (error && typeof error === "object" && "digest" in error) {
+    const errorDigest = (error as { digest?: string }).digest;
+    if (typeof errorDigest === "string" && errorDigest.includes("NEXT_REDIRECT")) {
+      throw error;
+    }
+  }
+  if (error instanceof Error && SAFE_ACTION_MESSAGES.has(error.message)) {
+    return { success: false as const, error: error.message };
+  }
+  console.error(`${fallback}:`, error);
+  return { success: false as const, error: fallback };
+}
+
+async function requireUser() {
+  const currentUser = await getCurrentUser();
+  if (!currentUser?.userData) {
+    throw new Error("Authentication required. Please sign in.");
+  }
+  return currentUser.userData;
+}
+
+/** The collection when `userId` owns it (or is an admin, with `allowAdmin`). */
+async function getOwnedCollection(
+  collectionId: string,
+  user: { id: string; role: string },
+  { allowAdmin = false } = {}
+) {
+  const [collection] = await db
+    .select()
+    .from(collections)
+    .where(eq(collections.id, collectionId))
+    .limit(1);
+  const canManage =
+    collection && (collection.userId === user.id || (allowAdmin && user.role === "ADMIN"));
+  if (!collection || !canManage) throw new Error("Collection not found");
+  return collection;
+}
+
+async function uniqueCollectionSlug(title: string): Promise<string> {
+  const baseSlug =
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "collection";
+
+  let slug = baseSlug;
+  for (let counter = 1; counter <= 1000; counter++) {
+    const [existing] = await db
+      .select({ id: collections.id })
+      .from(collections)
+      .where(eq(collections.slug, slug))
+      .limit(1);
+    if (!existing) return slug;
+    slug = `${baseSlug}-${counter}`;
+  }
+  throw new Error("Unable to generate unique slug");
+}
+
+function parseForm(formData: FormData) {
+  return Object.fromEntries(
+    Array.from(formData.entries()).filter(([, v]) => typeof v === "string")
+  );
+}
+
+function revalidateCollection(slug: string) {
+  revalidatePath(`/collections/${slug}`);
+  revalidatePath("/stars");
+}
+
+export const createCollectionAction = withCSRFProtection(
+  async (formData: FormData) => {
+    try {
+      const user = await requireUser();
+      const parsed = collectionFormSchema.safeParse(parseForm(formData));
+      if (!parsed.success) {
+        throw new Error(parsed.error.errors[0]?.message ?? "Invalid form data");
+      }
+
+      const [{ count } = { count: 0 }] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(collections)
+        .where(eq(collections.userId, user.id));
+      if (count >= MAX_COLLECTIONS_PER_USER) {
+        throw new Error(`You can have at most ${MAX_COLLECTIONS_PER_USER} collections`);
+      }
+
+      const title = sanitizeInput(parsed.data.title);
+      const [collection] = await db
+        .insert(collections)
+        .values({
+          userId: user.id,
+          title,
+          slug: await uniqueCollectionSlug(title),
+          description: parsed.data.description ? sanitizeInput(parsed.data.description) : null,
+          isPublic: parsed.data.isPublic,
+        })
+        .returning({ id: collections.id, slug: collections.slug, title: collections.title });
+      if (!collection) throw new Error("Failed to create collection");
+
+      revalidateCollection(collection.slug);
+      return { success: true as const, collection };
+    } catch (error) {
+      return toErrorResult(error, "Failed to create collection");
+    }
+  }
+);
+
+export const updateCollectionAction = withCSRFProtection(
+  async (formData: FormData) => {
+    try {
+      const user = await requireUser();
+      const parsed = updateCollectionFormSchema.safeParse(parseForm(formData));
+      if (!parsed.success) {
+        throw new Error(parsed.error.errors[0]?.message ?? "Invalid form data");
+      }
+
+      const collection = await getOwnedCollection(parsed.data.id, user);
+      await db
+        .update(collections)
+        .set({
+          title: sanitizeInput(parsed.data.title),
+          description: parsed.data.description ? sanitizeInput(parsed.data.description) : null,
+          isPublic: parsed.data.isPublic,
+          updatedAt: new Date(),
+        })
+        .where(eq(collections.id, collection.id));
+
+      revalidateCollection(collection.slug);
+      return { success: true as const };
+    } catch (error) {
+      return toErrorResult(error, "Failed to update collection");
+    }
+  }
+);
+
+// CSRF: Protected by Next.js's built-in Server Action Origin header check
+// (same basis as toggleStarAction) — these actions take plain data, not FormData.
+export async function deleteCollectionAction(collectionId: string) {
+  try {
+    const user = await requireUser();
+    const collection = await getOwnedCollection(collectionId, user, { allowAdmin: true });
+    await db.delete(collections).where(eq(collections.id, collection.id));
+
+    revalidateCollection(collection.slug);
+    return { success: true as const };
+  } catch (error) {
+    return toErrorResult(error, "Failed to delete collection");
+  }
+}
+
+// Adds the post at the end of the collection, or removes it if already there
+export async function toggleCollectionPostAction(data: CollectionPostData) {
+  try {
+    const { collectionId, postId } = collectionPostSchema.parse(data);
+    const user = await requireUser();
+    const collection = await getOwnedCollection(collectionId, user);
+
+    const added = await db.transaction(async (tx) => {
+      const removed = await tx
+        .delete(collectionPosts)
+        .where(and(eq(collectionPosts.collectionId, collectionId), eq(collectionPosts.postId, postId)))
+        .returning({ postId: collectionPosts.postId });
+      if (removed.length > 0) return false;
+
+      const [post] = await tx
+        .select({ isPublished: posts.isPublished, authorId: posts.authorId })
+        .from(posts)
+        .where(eq(posts.id, postId))
+        .limit(1);
+      if (!post || (!post.isPublished && post.authorId !== user.id)) {
+        throw new Error("Post not found");
+      }
+
+      const [stats] = await tx
+        .select({
+          count: sql<number>`count(*)::int`,
+          maxPosition: sql<number>`coalesce(max(${collectionPosts.position}), -1)::int`,
+        })
+        .from(collectionPosts)
+        .where(eq(collectionPosts.collectionId, collectionId));
+      if ((stats?.count ?? 0) >= MAX_POSTS_PER_COLLECTION) {
+        throw new Error(`A collection can hold at most ${MAX_POSTS_PER_COLLECTION} posts`);
+      }
+
+      await tx.insert(collectionPosts).values({
+        collectionId,
+        postId,
+        position: (stats?.maxPosition ?? -1) + 1,
+      });
+      return true;
+    });
+
+    await db
+      .update(collections)
+      .set({ updatedAt: new Date() })
+      .where(eq(collections.id, collectionId));
+
+    revalidateCollection(collection.slug);
+    return { success: true as const, added };
+  } catch (error) {
+    return toErrorResult(error, "Failed to update collection");
+  }
+}
+
+export async function reorderCollectionPostsAction(data: CollectionOrderData) {
+  try {
+    const { collectionId, postIds } = collectionOrderSchema.parse(data);
+    const user = await requireUser();
+    const collection = await getOwnedCollection(collectionId, user);
+
+    await db.transaction(async (tx) => {
+      const current = await tx
+        .select({ postId: collectionPosts.postId })
+        .from(collectionPosts)
+        .where(eq(collectionPosts.collectionId, collectionId));
+      const currentIds = new Set(current.map((r) => r.postId));
+      const isSameSet =
+        postIds.length === currentIds.size &&
+        new Set(postIds).size === postIds.length &&
+        postIds.every((id) => currentIds.has(id));
+      if (!isSameSet) {
+        throw new Error("The new order must list exactly the posts in the collection");
+      }
+
+      for (const [position, postId] of postIds.entries()) {
+        await tx
+          .update(collectionPosts)
+          .set({ position })
+          .where(and(eq(collectionPosts.collectionId, collectionId), eq(collectionPosts.postId, postId)));
+      }
+      await tx
+        .update(collections)
+        .set({ updatedAt: new Date() })
+        .where(eq(collections.id, collectionId));
+    });
+
+    revalidateCollection(collection.slug);
+    return { success: true as const };
+  } catch (error) {
+    return toErrorResult(error, "Failed to reorder collection");
+  }
+}
+
+export async function toggleCollectionStarAction(collectionId: string) {
+  try {
+    const user = await requireUser();
+    const [collection] = await db
+      .select({ id: collections.id, slug: collections.slug, isPublic: collections.isPublic })
+      .from(collections)
+      .where(eq(collections.id, collectionId))
+      .limit(1);
+    if (!collection) throw new Error("Collection not found");
+    if (!collection.isPublic) throw new Error("Only public collections can be starred");
+
+    const removed = await db
+      .delete(collectionStars)
+      .where(and(eq(collectionStars.collectionId, collectionId), eq(collectionStars.userId, user.id)))
+      .returning({ userId: collectionStars.userId });
+    const starred = removed.length === 0;
+    if (starred) {
+      await db.insert(collectionStars).values({ collectionId, userId: user.id }).onConflictDoNothing();
+    }
+
+    revalidateCollection(collection.slug);
+    return { success: true as const, starred };
+  } catch (error) {
+    return toErrorResult(error, "Failed to update star");
+  }
+}
+
+/** The signed-in user's collections, flagged with whether each contains `postId`. */
+export async function getCollectionMembershipsAction(postId: string) {
+  try {
+    const user = await requireUser();
+    const memberships = await getCollectionMemberships(user.id, postId);
+    return { success: true as const, collections: memberships };
+  } catch (error) {
+    return toErrorResult(error, "Failed to load collections");
+  }
+}
@@ -0,0 +1,300 @@
+"use server";
+
+import { db } from "@/lib/db";
+import { comments, posts } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { getCurrentUser } from "@/lib/auth";
+import { revalidateCache, CACHE_TAGS } from "@/lib/cache";
+import { rateLimits } from "@/lib/security/limits";
+import { createCommentSchema, updateCommentSchema } from "@/lib/schemas";
+import {
+  COMMENT_DELETE_WINDOW_MS,
+  COMMENT_EDIT_WINDOW_MS,
+  COMMENT_MAX_DEPTH,
+  findSpamPattern,
+  getCommentThread,
+  isDuplicateComment,
+  isWithinWindow,
+  renderCommentBody,
+} from "@/lib/comments";
+
+function rethrowRedirect(error: unknown) {
+  if (error && typeof error === "object" && "digest" in error) {
+    const errorDigest = (error as { digest?: string }).digest;
+    if (typeof errorDigest === "string" && errorDigest.includes("NEXT_REDIRECT")) {
+      throw error;
+    }
+  }
+}
+
+const AUTH_REQUIRED = { success: false as const, error: "Authentication required. Please sign in." };
+
+// Card comment counts are read through the post caches
+async function revalidateCommentCounts() {
+  await revalidateCache([CACHE_TAGS.POSTS, CACHE_TAGS.POST_BY_ID]);
+}
+
+async function checkCommentRateLimit(userId: string) {
+  const rl = await rateLimits.comment(`comment:${userId}`);
+  return rl.allowed;
+}
+
+/** Reject spam, logging it like suspicious profile updates. */
+async function isSpam(body: string, userId: string, postId: string) {
+  const pattern = findSpamPattern(body);
+  if (!pattern) return false;
+
+  console.warn(`[SECURITY] Suspicious comment pattern detected for user ${userId}`);
+  const { SecurityAlert } = await import("@/lib/security/monitor");
+  await SecurityAlert.suspiciousRequest(
+    "Suspicious pattern in comment",
+    { postId, pattern: pattern.toString() },
+    userId
+  );
+  return true;
+}
+
+/** The comment thread for a post, for the post modal. */
+export async function getCommentsAction(postId: string) {
+  try {
+    if (typeof postId !== "string" || postId.length > 100) {
+      return { success: false as const, error: "Invalid post ID" };
+    }
+    const currentUser = await getCurrentUser().catch(() => null);
+    const viewer = currentUser?.userData
+      ? { id: currentUser.userData.id, role: currentUser.userData.role }
+      : null;
+
+    const thread = await getCommentThread(postId, viewer);
+    return { success: true as const, ...thread, isSignedIn: Boolean(viewer) };
+  } catch (error) {
+    rethrowRedirect(error);
+    console.error("Error fetching comments:", error);
+    return { success: false as const, error: "Failed to load comments" };
+  }
+}
+
+// CSRF: Protected by Next.js's built-in Server Action Origin header check.
+// The comment actions take plain arguments (not FormData) so they cannot use
+// withCSRFProtection(). All call sites use startTransition — no raw fetch.
+export async function createCommentAction(input: {
+  postId: string;
+  parentId?: string | null;
+  body: string;
+}) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser?.userData) return AUTH_REQUIRED;
+    const user = currentUser.userData;
+
+    const parsed = createCommentSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false as const, error: parsed.error.errors[0]?.message ?? "Invalid comment" };
+    }
+    const { postId, parentId, body } = parsed.data;
+
+    if (!(await checkCommentRateLimit(user.id))) {
+      return { success: false as const, error: "You're commenting too fast. Please wait a minute." };
+    }
+
+    const [post] = await db
+      .select({ id: posts.id, isPublished: posts.isPublished })
+      .from(posts)
+      .where(eq(posts.id, postId))
+      .limit(1);
+    if (!post?.isPublished) {
+      return { success: false as const, error: "Post not found" };
+    }
+
+    let threadParentId: string | null = null;
+    let depth = 0;
+    if (parentId) {
+      const [parent] = await db
+        .select({ id: comments.id, parentId: comments.parentId, depth: comments.depth, status: comments.status })
+        .from(comments)
+        .where(and(eq(comments.id, parentId), eq(comments.postId, postId)))
+        .limit(1);
+      if (!parent || parent.status !== "VISIBLE") {
+        return { success: false as const, error: "The comment you're replying to is no longer available" };
+      }
+      // Past the maximum depth, reply alongside the parent instead of under it
+      if (parent.depth >= COMMENT_MAX_DEPTH) {
+        threadParentId = parent.parentId;
+        depth = parent.depth;
+      } else {
+        threadParentId = parent.id;
+        depth = parent.depth + 1;
+      }
+    }
+
+    if (await isSpam(body, user.id, postId)) {
+      return { success: false as const, error: "Your comment looks like spam and was not posted." };
+    }
+    if (await isDuplicateComment(postId, user.id, body)) {
+      return { success: false as const, error: "You already posted this comment." };
+    }
+
+    const [created] = await db
+      .insert(comments)
+      .values({
+        postId,
+        authorId: user.id,
+        parentId: threadParentId,
+        depth,
+        body,
+        bodyHtml: renderCommentBody(body),
+      })
+      .returning({ id: comments.id });
+
+    await revalidateCommentCounts();
+    return { success: true as const, id: created.id };
+  } catch (error) {
+    rethrowRedirect(error);
+    console.error("Error creating comment:", error);
+    return { success: false as const, error: "Failed to post comment" };
+  }
+}
+
+export async function updateCommentAction(input: { commentId: string; body: string }) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser?.userData) return AUTH_REQUIRED;
+    const user = currentUser.userData;
+
+    const parsed = updateCommentSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false as const, error: parsed.error.errors[0]?.message ?? "Invalid comment" };
+    }
+    const { commentId, body } = parsed.data;
+
+    if (!(await checkCommentRateLimit(user.id))) {
+      return { success: false as const, error: "You're commenting too fast. Please wait a minute." };
+    }
+
+    const [comment] = await db
+      .select({
+        authorId: comments.authorId,
+        postId: comments.postId,
+        status: comments.status,
+        createdAt: comments.createdAt,
+      })
+      .from(comments)
+      .where(eq(comments.id, commentId))
+      .limit(1);
+    if (!comment || comment.authorId !== user.id || comment.status !== "VISIBLE") {
+      return { success: false as const, error: "Comment not found" };
+    }
+    if (!isWithinWindow(comment.createdAt, COMMENT_EDIT_WINDOW_MS)) {
+      return { success: false as const, error: "Comments can only be edited for 15 minutes after posting" };
+    }
+
+    if (await isSpam(body, user.id, comment.postId)) {
+      return { success: false as const, error: "Your comment looks like spam and was not saved." };
+    }
+
+    const now = new Date();
+    await db
+      .update(comments)
+      .set({ body, bodyHtml: renderCommentBody(body), editedAt: now, updatedAt: now })
+      .where(eq(comments.id, commentId));
+
+    return { success: true as const };
+  } catch (error) {
+    rethrowRedirect(error);
+    console.error("Error updating comment:", error);
+    return { success: false as const, error: "Failed to update comment" };
+  }
+}
+
+/** Authors can delete their own comment for a day; admins any time. */
+export async function deleteCommentAction(commentId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser?.userData) return AUTH_REQUIRED;
+    const user = currentUser.userData;
+
+    if (typeof commentId !== "string" || commentId.length > 100) {
+      return { success: false as const, error: "Invalid comment ID" };
+    }
+
+    const [comment] = await db
+      .select({ authorId: comments.authorId, status: comments.status, createdAt: comments.createdAt })
+      .from(comments)
+      .where(eq(comments.id, commentId))
+      .limit(1);
+    if (!comment || comment.status === "DELETED") {
+      return { success: false as const, error: "Comment not found" };
+    }
+
+    const isAdmin = user.role === "ADMIN";
+    if (!isAdmin) {
+      if (comment.authorId !== user.id) {
+        return { success: false as const, error: "You can only delete your own comments" };
+      }
+      if (!isWithinWindow(comment.createdAt, COMMENT_DELETE_WINDOW_MS)) {
+        return { success: false as const, error: "Comments can only be deleted for 24 hours after posting" };
+      }
+    }
+
+    // Keep the row so replies stay attached; the thread shows a placeholder
+    await db
+      .update(comments)
+      .set({
+        status: "DELETED",
+        body: "",
+        bodyHtml: "",
+        moderatedById: comment.authorId === user.id ? null : user.id,
+        updatedAt: new Date(),
+      })
+      .where(eq(comments.id, commentId));
+
+    await revalidateCommentCounts();
+    return { success: true as const };
+  } catch (error) {
+    rethrowRedirect(error);
+    console.error("Error deleting comment:", error);
+    return { success: false as const, error: "Failed to delete comment" };
+  }
+}
+
+/** Hide or restore a comment; allowed for the post's author and admins. */
+export async function setCommentHiddenAction(commentId: string, hidden: boolean) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser?.userData) return AUTH_REQUIRED;
+    const user = currentUser.userData;
+
+    if (typeof commentId !== "string" || commentId.length > 100 || typeof hidden !== "boolean") {
+      return { success: false as const, error: "Invalid request" };
+    }
+
+    const [comment] = await db
+      .select({ status: comments.status, postAuthorId: posts.authorId })
+      .from(comments)
+      .innerJoin(posts, eq(comments.postId, posts.id))
+      .where(eq(comments.id, commentId))
+      .limit(1);
+    if (!comment || comment.status === "DELETED") {
+      return { success: false as const, error: "Comment not found" };
+    }
+    if (user.role !== "ADMIN" && comment.postAuthorId !== user.id) {
+      return { success: false as const, error: "Only the post's author or an admin can moderate comments" };
+    }
+
+    await db
+      .update(comments)
+      .set({
+        status: hidden ? "HIDDEN" : "VISIBLE",
+        moderatedById: hidden ? user.id : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(comments.id, commentId));
+
+    await revalidateCommentCounts();
+    return { success: true as const };
+  } catch (error) {
+    rethrowRedirect(error);
+    console.error("Error moderating comment:", error);
+    return { success: false as const, error: "Failed to update comment" };
+  }
+}
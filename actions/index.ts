@@ -16,6 +16,17 @@ export {
   checkStarStatusAction,
 } from "./stars";
 
+// Collection actions
+export {
+  createCollectionAction,
+  updateCollectionAction,
+  deleteCollectionAction,
+  toggleCollectionPostAction,
+  reorderCollectionPostsAction,
+  toggleCollectionStarAction,
+  getCollectionMembershipsAction,
+} from "./collections";
+
 // Post management actions
 export {
   createPostAction,
@@ -24,7 +35,11 @@ export {
   deletePostAction,
   approvePostAction,
   rejectPostAction,
+  requestPostChangesAction,
   bulkImportPostsAction,
+  getPostRevisionsAction,
+  restorePostRevisionAction,
+  getPostAnalyticsAction,
 } from "./posts";
 export type { BulkImportResult } from "./posts";
 
@@ -33,6 +48,7 @@ export {
   createCategoryAction,
   updateCategoryAction,
   deleteCategoryAction,
+  toggleCategoryFollowAction,
 } from "./categories";
 
 // Tag management actions
@@ -47,8 +63,42 @@ export {
   getAllUsersActivityAction,
   toggleUserDisabledAction,
   changeUserRoleAction,
+  toggleFollowAction,
 } from "./users";
 
+// Notification actions
+export {
+  getNotificationsAction,
+  markNotificationsReadAction,
+  updateNotificationPreferencesAction,
+} from "./notifications";
+
+// Comment actions
+export {
+  getCommentsAction,
+  createCommentAction,
+  updateCommentAction,
+  deleteCommentAction,
+  setCommentHiddenAction,
+} from "./comments";
+
+// Email actions
+export { updateEmailPreferencesAction, unsubscribeAction } from "./mail";
+
+// API key actions
+export { createApiKeyAction, revokeApiKeyAction } from "./api-keys";
+
+// Alert actions
+export {
+  saveAlertRuleAction,
+  toggleAlertRuleAction,
+  deleteAlertRuleAction,
+  updateAlertStatusAction,
+} from "./alerts";
+
+// Blocklist actions
+export { addBlockAction, extendBlockAction, liftBlockAction } from "./blocklist";
+
 // Settings actions
 export {
   getSettingsAction,
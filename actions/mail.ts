@@ -0,0 +1,75 @@
+"use server";
+
+import { db } from "@/lib/db";
+import { users } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { requireAuth } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { withCSRFProtection, handleSecureActionError } from "@/lib/security/csp";
+import { unsubscribeWithToken } from "@/lib/mail";
+import {
+  EMAIL_CATEGORIES,
+  EMAIL_CATEGORY_OPTIONS,
+  type EmailPreferences,
+} from "@/lib/mail-categories";
+
+function rethrowRedirect(error: unknown) {
+  if (error && typeof error === "object" && "digest" in error) {
+    const errorDigest = (error as { digest?: string }).digest;
+    if (typeof errorDigest === "string" && errorDigest.includes("NEXT_REDIRECT")) {
+      throw error;
+    }
+  }
+}
+
+// Per-category email switches from /settings; each enabled category is sent
+// as a checked checkbox named after the category. Admin-only categories are
+// left untouched for other users.
+export const updateEmailPreferencesAction = withCSRFProtection(
+  async (formData: FormData) => {
+    try {
+      const user = await requireAuth();
+      const isAdmin = user.userData?.role === "ADMIN";
+
+      const preferences: EmailPreferences = { ...user.userData?.emailPreferences };
+      for (const category of EMAIL_CATEGORIES) {
+        if (EMAIL_CATEGORY_OPTIONS[category].adminOnly && !isAdmin) continue;
+        preferences[category] = formData.get(category) === "on";
+      }
+
+      await db
+        .update(users)
+        .set({ emailPreferences: preferences, updatedAt: new Date() })
+        .where(eq(users.id, user.id));
+
+      revalidatePath("/settings");
+      return { success: true, message: "Email preferences saved" };
+    } catch (error) {
+      rethrowRedirect(error);
+      const errorResult = handleSecureActionError(error);
+      return { success: false, error: errorResult.error };
+    }
+  }
+);
+
+// Confirm an unsubscribe link from an email. The signed token is the
+// credential, so this works without a session.
+// CSRF: Protected by Next.js's built-in Server Action Origin header check.
+// This action takes a token string (not FormData) so it cannot use
+// withCSRFProtection(). All call sites use startTransition — no raw fetch.
+export async function unsubscribeAction(token: string) {
+  try {
+    if (typeof token !== "string" || token.length > 200) {
+      return { success: false as const, error: "This unsubscribe link is invalid." };
+    }
+
+    const category = await unsubscribeWithToken(token);
+    if (!category) {
+      return { success: false as const, error: "This unsubscribe link is invalid or has expired." };
+    }
+    return { success: true as const, category };
+  } catch (error) {
+    console.error("Error unsubscribing:", error);
+    return { success: false as const, error: "Failed to unsubscribe. Please try again." };
+  }
+}
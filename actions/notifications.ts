@@ -0,0 +1,100 @@
+"use server";
+
+import { db } from "@/lib/db";
+import { users } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { getCurrentUser, requireAuth } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { withCSRFProtection, handleSecureActionError } from "@/lib/security/csp";
+import { markNotificationsReadSchema } from "@/lib/schemas";
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  markNotificationsRead,
+} from "@/lib/notifications";
+import {
+  NOTIFICATION_TYPES,
+  type NotificationPreferences,
+} from "@/lib/notification-types";
+
+function rethrowRedirect(error: unknown) {
+  if (error && typeof error === "object" && "digest" in error) {
+    const errorDigest = (error as { digest?: string }).digest;
+    if (typeof errorDigest === "string" && errorDigest.includes("NEXT_REDIRECT")) {
+      throw error;
+    }
+  }
+}
+
+/** Recent notifications and the unread count, for the header bell. */
+export async function getNotificationsAction() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser?.userData) {
+      return { success: false as const, error: "Authentication required. Please sign in." };
+    }
+    const userId = currentUser.userData.id;
+
+    const [items, unreadCount] = await Promise.all([
+      getNotifications(userId),
+      getUnreadNotificationCount(userId),
+    ]);
+    return { success: true as const, notifications: items, unreadCount };
+  } catch (error) {
+    rethrowRedirect(error);
+    console.error("Error fetching notifications:", error);
+    return { success: false as const, error: "Failed to load notifications" };
+  }
+}
+
+// Mark the given notifications read, or all of them when `ids` is omitted.
+// CSRF: Protected by Next.js's built-in Server Action Origin header check.
+// This action takes an id list (not FormData) so it cannot use
+// withCSRFProtection(). All call sites use startTransition — no raw fetch.
+export async function markNotificationsReadAction(ids?: string[]) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser?.userData) {
+      return { success: false as const, error: "Authentication required. Please sign in." };
+    }
+
+    const parsed = markNotificationsReadSchema.safeParse(ids);
+    if (!parsed.success) {
+      return { success: false as const, error: parsed.error.errors[0]?.message ?? "Invalid notification ids" };
+    }
+
+    const updated = await markNotificationsRead(currentUser.userData.id, parsed.data);
+    return { success: true as const, updated };
+  } catch (error) {
+    rethrowRedirect(error);
+    console.error("Error marking notifications read:", error);
+    return { success: false as const, error: "Failed to update notifications" };
+  }
+}
+
+// Per-type notification switches from /settings; each enabled type is sent
+// as a checked checkbox named after the type.
+export const updateNotificationPreferencesAction = withCSRFProtection(
+  async (formData: FormData) => {
+    try {
+      const user = await requireAuth();
+
+      const preferences: NotificationPreferences = {};
+      for (const type of NOTIFICATION_TYPES) {
+        preferences[type] = formData.get(type) === "on";
+      }
+
+      await db
+        .update(users)
+        .set({ notificationPreferences: preferences, updatedAt: new Date() })
+        .where(eq(users.id, user.id));
+
+      revalidatePath("/settings");
+      return { success: true, message: "Notification preferences saved" };
+    } catch (error) {
+      rethrowRedirect(error);
+      const errorResult = handleSecureActionError(error);
+      return { success: false, error: errorResult.error };
+    }
+  }
+);
@@ -6,6 +6,7 @@ import {
   categories,
   tags,
   postToTag,
+  postModerations,
 } from "@/lib/db/schema";
 import type { PostStatus } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
@@ -16,7 +17,18 @@ import { revalidateCache, CACHE_TAGS } from "@/lib/cache";
 import { withCSRFProtection } from "@/lib/security/csp";
 import { verifyTurnstile } from "@/lib/security/turnstile";
 import { headers } from "next/headers";
-import { getAllowUserPosts } from "@/lib/settings";
+import { after } from "next/server";
+import { getAllowUserPosts, getRequireApproval } from "@/lib/settings";
+import { validatePostContent } from "@/lib/post-kinds";
+import {
+  recordPostRevision,
+  getPostRevisions,
+  getPostRevision,
+} from "@/lib/revisions";
+import type { PostRevision } from "@/lib/revisions";
+import { getPostAnalytics, type PostAnalytics } from "@/lib/post-events";
+import { notifyFollowersOfNewPost, notifyPostModerated } from "@/lib/notifications";
+import { mailPostModerated } from "@/lib/mail";
 
 import {
   sanitizeInput,
@@ -27,8 +39,10 @@ import {
   createPostFormSchema,
   updatePostFormSchema,
   postBulkImportItemSchema,
+  moderationNoteSchema,
 } from "@/lib/schemas";
 import { getMaxTagsPerPost } from "@/lib/settings";
+import { clearUploadReferences, syncUploadReferences } from "@/lib/uploads";
 
 // User-facing messages that are safe to surface verbatim.
 // Everything else gets logged server-side and replaced with a generic message.
@@ -40,7 +54,14 @@ const SAFE_ACTION_MESSAGES = new Set([
   "Unable to generate unique slug",
   "Post not found",
   "Post is not pending approval",
+  "This post has already been moderated",
+  "Revision not found",
+  "This revision's content is not valid for the post's current kind",
   "Only posts pending approval can be rejected",
+  "Only posts pending approval can be sent back for changes",
+  "A note is required when requesting changes",
+  "Note must be 2,000 characters or less",
+  "Note contains invalid characters",
   "Unauthorized: Admin access required",
   "Unauthorized: You can only edit your own posts",
   "Unauthorized: You can only delete your own posts",
@@ -110,12 +131,15 @@ export const createPostAction = withCSRFProtection(
         title: rawTitle,
         slug: rawSlug,
         description: rawDescription,
+        previewImageUrl,
         content: rawContent,
+        kind,
         category,
         subcategory,
         tags: tagNames,
         isPublished: formIsPublished,
         isPremium,
+        publishAt: formPublishAt,
       } = parsed.data;
 
       // Sanitize free-text fields after schema validation
@@ -149,10 +173,13 @@ export const createPostAction = withCSRFProtection(
 
       let isPublished = false;
       let status: PostStatus = "DRAFT";
+      let publishAt: Date | null = null;
 
       if (user.role === "ADMIN") {
-        isPublished = formIsPublished;
-        status = isPublished ? "APPROVED" : "DRAFT";
+        // A publish date schedules the post; publishDueContent() takes it live
+        publishAt = formPublishAt;
+        isPublished = formIsPublished && !publishAt;
+        status = publishAt ? "SCHEDULED" : isPublished ? "APPROVED" : "DRAFT";
       } else {
         isPublished = false;
         status = "PENDING_APPROVAL";
@@ -197,10 +224,13 @@ export const createPostAction = withCSRFProtection(
             title,
             slug,
             description: description || null,
+            previewImageUrl,
             content,
+            kind,
             isPremium,
             isPublished,
             status,
+            publishAt,
             authorId: user.id,
             categoryId: categoryRecord.id,
           })
@@ -213,8 +243,19 @@ export const createPostAction = withCSRFProtection(
             uniqueTagIds.map((B) => ({ A: inserted.id, B }))
           );
         }
+
+        await recordPostRevision(tx, {
+          postId: inserted.id,
+          title: inserted.title,
+          description: inserted.description,
+          content: inserted.content,
+          source: "CREATE",
+          userId: user.id,
+        });
         return { newPost: inserted };
       });
+      await syncUploadReferences("post", newPost.id, { urls: [previewImageUrl] });
+      if (newPost.isPublished) await notifyFollowersOfNewPost(newPost.id);
 
       // Revalidate cache tags for new post and tags (since tags may have been created)
       revalidateCache([
@@ -299,12 +340,15 @@ export const updatePostAction = withCSRFProtection(
         title: rawTitle,
         slug: rawSlug,
         description: rawDescription,
+        previewImageUrl,
         content: rawContent,
+        kind,
         category,
         subcategory,
         tags: tagNamesUpdate,
         isPublished: formIsPublished,
         isPremium,
+        publishAt: formPublishAt,
       } = parsed.data;
 
       const title = sanitizeInput(rawTitle);
@@ -368,10 +412,13 @@ export const updatePostAction = withCSRFProtection(
 
       let isPublished = existingPost.isPublished;
       let status: PostStatus = existingPost.status as PostStatus;
+      let publishAt: Date | null = null;
 
       if (user.role === "ADMIN") {
-        isPublished = formIsPublished;
-        status = isPublished ? "APPROVED" : "DRAFT";
+        // A publish date schedules the post; publishDueContent() takes it live
+        publishAt = formPublishAt;
+        isPublished = formIsPublished && !publishAt;
+        status = publishAt ? "SCHEDULED" : isPublished ? "APPROVED" : "DRAFT";
       } else {
         isPublished = false;
         status = "PENDING_APPROVAL";
@@ -418,22 +465,44 @@ export const updatePostAction = withCSRFProtection(
         if (tagIds.length > 0) {
           await tx.insert(postToTag).values(tagIds.map((B) => ({ A: id, B })));
         }
-      });
 
-      await db
-        .update(posts)
-        .set({
-          title,
-          slug,
-          description: description ?? null,
-          content,
-          isPremium,
-          isPublished,
-          status,
-          categoryId: categoryRecord.id,
-          updatedAt: new Date(),
-        })
-        .where(eq(posts.id, id));
+        await tx
+          .update(posts)
+          .set({
+            title,
+            slug,
+            description: description ?? null,
+            previewImageUrl,
+            content,
+            kind,
+            isPremium,
+            isPublished,
+            status,
+            publishAt,
+            categoryId: categoryRecord.id,
+            updatedAt: new Date(),
+          })
+          .where(eq(posts.id, id));
+
+        // Only snapshot edits that touch the versioned text fields — metadata
+        // changes (category, tags, flags) would otherwise flood the history.
+        const textChanged =
+          existingPost.title !== title ||
+          (existingPost.description ?? null) !== (description ?? null) ||
+          existingPost.content !== content;
+        if (textChanged) {
+          await recordPostRevision(tx, {
+            postId: id,
+            title,
+            description: description ?? null,
+            content,
+            source: "UPDATE",
+            userId: user.id,
+          });
+        }
+      });
+      await syncUploadReferences("post", id, { urls: [previewImageUrl] });
+      if (isPublished && !existingPost.isPublished) await notifyFollowersOfNewPost(id);
 
       revalidatePath("/posts");
       // Removed entry path revalidation to prevent modal performance issues
@@ -483,67 +552,133 @@ export const updatePostAction = withCSRFProtection(
   }
 );
 
-// Approve post action
-// CSRF: Protected by Next.js's built-in Server Action Origin header check.
-// The framework rejects any Server Action RPC whose Origin doesn't match this
-// deployment. This action accepts a plain string (not FormData) so it cannot
-// use withCSRFProtection(). All call sites use startTransition — no raw fetch.
-export async function approvePostAction(postId: string) {
-  try {
-    // Get the current user
-    const currentUser = await getCurrentUser();
-    if (!currentUser?.userData) {
-      redirect("/signin");
-    }
+// ---------------------------------------------------------------------------
+// Moderation — approve / reject / request changes, each with an optional
+// reviewer note that the author sees in their moderation inbox.
+// ---------------------------------------------------------------------------
 
-    // Check admin permission
-    if (currentUser.userData.role !== "ADMIN") {
-      throw new Error("Unauthorized: Admin access required");
-    }
+type ModerationDecision = "APPROVED" | "REJECTED" | "CHANGES_REQUESTED";
 
-    // Validate post ID
-    if (!postId || typeof postId !== "string") {
-      throw new Error("Invalid post ID");
-    }
+const NOT_PENDING_MESSAGES: Record<ModerationDecision, string> = {
+  APPROVED: "Post is not pending approval",
+  REJECTED: "Only posts pending approval can be rejected",
+  CHANGES_REQUESTED: "Only posts pending approval can be sent back for changes",
+};
 
-    const [existingPost] = await db
-      .select({ id: posts.id, status: posts.status, title: posts.title })
-      .from(posts)
-      .where(eq(posts.id, postId))
-      .limit(1);
+async function moderatePost(
+  postId: string,
+  decision: ModerationDecision,
+  rawNote: string | null | undefined
+) {
+  const currentUser = await getCurrentUser();
+  if (!currentUser?.userData) {
+    redirect("/signin");
+  }
 
-    if (!existingPost) throw new Error("Post not found");
-    if (existingPost.status !== "PENDING_APPROVAL") {
-      throw new Error("Post is not pending approval");
-    }
+  // Only admins can moderate posts
+  if (currentUser.userData.role !== "ADMIN") {
+    throw new Error("Unauthorized: Admin access required");
+  }
 
-    await db
+  if (!postId || typeof postId !== "string") {
+    throw new Error("Invalid post ID");
+  }
+
+  const parsedNote = moderationNoteSchema.safeParse(rawNote);
+  if (!parsedNote.success) {
+    throw new Error(parsedNote.error.errors[0]?.message ?? "Invalid note");
+  }
+  const note = parsedNote.data ? sanitizeInput(parsedNote.data) : null;
+  if (decision === "CHANGES_REQUESTED" && !note) {
+    throw new Error("A note is required when requesting changes");
+  }
+
+  const [existingPost] = await db
+    .select({
+      id: posts.id,
+      status: posts.status,
+      title: posts.title,
+      authorId: posts.authorId,
+    })
+    .from(posts)
+    .where(eq(posts.id, postId))
+    .limit(1);
+
+  if (!existingPost) throw new Error("Post not found");
+  if (existingPost.status !== "PENDING_APPROVAL") {
+    throw new Error(NOT_PENDING_MESSAGES[decision]);
+  }
+
+  // The status filter makes a concurrent decision by another moderator lose
+  // cleanly instead of overwriting this one
+  const moderated = await db.transaction(async (tx) => {
+    const [updated] = await tx
       .update(posts)
       .set({
-        isPublished: true,
-        status: "APPROVED",
+        isPublished: decision === "APPROVED",
+        status: decision,
         updatedAt: new Date(),
       })
-      .where(eq(posts.id, postId));
+      .where(and(eq(posts.id, postId), eq(posts.status, "PENDING_APPROVAL")))
+      .returning({ id: posts.id });
+    if (!updated) return false;
+
+    await tx.insert(postModerations).values({
+      postId,
+      authorId: existingPost.authorId,
+      reviewerId: currentUser.userData.id,
+      decision,
+      note,
+    });
+    return true;
+  });
+  if (!moderated) {
+    throw new Error("This post has already been moderated");
+  }
 
-    // Revalidate relevant paths and caches
-    revalidatePath("/posts");
-    // Removed entry path revalidation to prevent modal performance issues
-    // Ensure caches are also invalidated to reflect new status
-    revalidateCache([
-      CACHE_TAGS.POSTS,
-      CACHE_TAGS.POST_BY_ID,
-      CACHE_TAGS.POST_BY_SLUG,
-      CACHE_TAGS.CATEGORIES,
-      CACHE_TAGS.TAGS,
-      CACHE_TAGS.SEARCH_RESULTS,
-      CACHE_TAGS.USER_POSTS,
-      CACHE_TAGS.ANALYTICS,
-    ]);
+  const moderation = {
+    postId,
+    postTitle: existingPost.title,
+    authorId: existingPost.authorId,
+    reviewerId: currentUser.userData.id,
+    decision,
+    note,
+  };
+  await notifyPostModerated(moderation);
+  // SMTP can be slow; send once the response is on its way
+  after(() => mailPostModerated(moderation));
+  if (decision === "APPROVED") await notifyFollowersOfNewPost(postId);
+
+  // Revalidate relevant paths and caches
+  revalidatePath("/posts");
+  revalidatePath("/inbox");
+  // Removed entry path revalidation to prevent modal performance issues
+  // Ensure caches are also invalidated to reflect new status
+  revalidateCache([
+    CACHE_TAGS.POSTS,
+    CACHE_TAGS.POST_BY_ID,
+    CACHE_TAGS.POST_BY_SLUG,
+    CACHE_TAGS.CATEGORIES,
+    CACHE_TAGS.TAGS,
+    CACHE_TAGS.SEARCH_RESULTS,
+    CACHE_TAGS.USER_POSTS,
+    CACHE_TAGS.ANALYTICS,
+  ]);
+
+  return existingPost;
+}
 
+// Approve post action
+// CSRF: Protected by Next.js's built-in Server Action Origin header check.
+// The framework rejects any Server Action RPC whose Origin doesn't match this
+// deployment. This action accepts plain strings (not FormData) so it cannot
+// use withCSRFProtection(). All call sites use startTransition — no raw fetch.
+export async function approvePostAction(postId: string, note?: string | null) {
+  try {
+    const post = await moderatePost(postId, "APPROVED", note);
     return {
       success: true,
-      message: `Post "${existingPost.title}" approved and published successfully`,
+      message: `Post "${post.title}" approved and published successfully`,
     };
   } catch (error) {
     throw toSafeError(error, "Failed to approve post");
@@ -552,66 +687,33 @@ export async function approvePostAction(postId: string) {
 
 // Reject post action
 // CSRF: see approvePostAction comment above — same protection basis applies.
-export async function rejectPostAction(postId: string) {
+export async function rejectPostAction(postId: string, note?: string | null) {
   try {
-    // Ensure we have an authenticated user
-    const currentUser = await getCurrentUser();
-    if (!currentUser?.userData) {
-      redirect("/signin");
-    }
-
-    // Only admins can reject posts
-    if (currentUser.userData.role !== "ADMIN") {
-      throw new Error("Unauthorized: Admin access required");
-    }
-
-    if (!postId || typeof postId !== "string") {
-      throw new Error("Invalid post ID");
-    }
-
-    const [existingPost] = await db
-      .select({ id: posts.id, status: posts.status, title: posts.title })
-      .from(posts)
-      .where(eq(posts.id, postId))
-      .limit(1);
-
-    if (!existingPost) throw new Error("Post not found");
-    if (existingPost.status !== "PENDING_APPROVAL") {
-      throw new Error("Only posts pending approval can be rejected");
-    }
-
-    await db
-      .update(posts)
-      .set({
-        isPublished: false,
-        status: "REJECTED",
-        updatedAt: new Date(),
-      })
-      .where(eq(posts.id, postId));
-
-    // Revalidate relevant caches
-    revalidatePath("/posts");
-    // Removed entry path revalidations to prevent modal performance issues
-    revalidateCache([
-      CACHE_TAGS.POSTS,
-      CACHE_TAGS.POST_BY_ID,
-      CACHE_TAGS.POST_BY_SLUG,
-      CACHE_TAGS.CATEGORIES,
-      CACHE_TAGS.TAGS,
-      CACHE_TAGS.SEARCH_RESULTS,
-      CACHE_TAGS.USER_POSTS,
-      CACHE_TAGS.ANALYTICS,
-    ]);
-
+    const post = await moderatePost(postId, "REJECTED", note);
     return {
       success: true,
-      message: `Post "${existingPost.title}" rejected successfully`,
+      message: `Post "${post.title}" rejected successfully`,
     } as const;
   } catch (error) {
     throw toSafeError(error, "Failed to reject post");
   }
 }
 
+// Request changes action — sends the post back to its author with a required
+// note. The author can edit and resubmit, which returns it to PENDING_APPROVAL.
+// CSRF: see approvePostAction comment above — same protection basis applies.
+export async function requestPostChangesAction(postId: string, note: string) {
+  try {
+    const post = await moderatePost(postId, "CHANGES_REQUESTED", note);
+    return {
+      success: true,
+      message: `Changes requested on "${post.title}"`,
+    } as const;
+  } catch (error) {
+    throw toSafeError(error, "Failed to request changes");
+  }
+}
+
 // Delete post action
 // CSRF: see approvePostAction comment above — same protection basis applies.
 export async function deletePostAction(postId: string) {
@@ -664,6 +766,7 @@ export async function deletePostAction(postId: string) {
     }
 
     await db.delete(posts).where(eq(posts.id, postId));
+    await clearUploadReferences("post", postId);
 
     revalidatePath("/posts");
     revalidatePath("/");
@@ -723,9 +826,12 @@ export async function togglePostPublishAction(postId: string) {
       .set({
         isPublished: newPublishedState,
         status: newStatus,
+        // Publishing a scheduled post early cancels its schedule
+        publishAt: null,
         updatedAt: new Date(),
       })
       .where(eq(posts.id, postId));
+    if (newPublishedState) await notifyFollowersOfNewPost(postId);
 
     revalidatePath("/posts");
     revalidatePath("/");
@@ -809,6 +915,161 @@ export async function togglePostFeaturedAction(postId: string) {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Revision history — authors see their own posts' history, admins see all.
+// ---------------------------------------------------------------------------
+
+async function getRevisionablePost(postId: string) {
+  const currentUser = await getCurrentUser();
+  if (!currentUser?.userData) {
+    redirect("/signin");
+  }
+  const user = currentUser.userData;
+
+  if (!postId || typeof postId !== "string") {
+    throw new Error("Invalid post ID");
+  }
+
+  const [existingPost] = await db
+    .select({
+      id: posts.id,
+      title: posts.title,
+      authorId: posts.authorId,
+      kind: posts.kind,
+      isPublished: posts.isPublished,
+      status: posts.status,
+    })
+    .from(posts)
+    .where(eq(posts.id, postId))
+    .limit(1);
+  if (!existingPost) throw new Error("Post not found");
+
+  if (user.role !== "ADMIN" && existingPost.authorId !== user.id) {
+    throw new Error("Unauthorized: You can only edit your own posts");
+  }
+
+  return { user, existingPost };
+}
+
+// List revisions for a post, newest first
+export async function getPostRevisionsAction(
+  postId: string
+): Promise<{ success: true; revisions: PostRevision[] }> {
+  try {
+    await getRevisionablePost(postId);
+    const revisions = await getPostRevisions(postId);
+    return { success: true, revisions };
+  } catch (error) {
+    throw toSafeError(error, "Failed to load revision history");
+  }
+}
+
+// Restore a revision's title/description/content onto the post.
+// The restore is itself recorded as a new revision, so it can be undone.
+// The content is re-validated for the post's current kind. Non-admin restores
+// go back through approval when requireApproval is on, as the revision dialog
+// warns.
+// CSRF: see approvePostAction comment above — same protection basis applies.
+export async function restorePostRevisionAction(
+  postId: string,
+  revisionId: string
+) {
+  try {
+    const { user, existingPost } = await getRevisionablePost(postId);
+
+    if (!revisionId || typeof revisionId !== "string") {
+      throw new Error("Revision not found");
+    }
+
+    // Same edit rules as updatePostAction for non-admins
+    if (user.role !== "ADMIN") {
+      if (existingPost.status === "APPROVED") {
+        throw new Error(
+          "Cannot edit approved posts. Please contact support for further assistance."
+        );
+      }
+      if (existingPost.status === "REJECTED") {
+        throw new Error(
+          "Cannot edit rejected posts. Please contact support or create a new post."
+        );
+      }
+    }
+
+    const revision = await getPostRevision(postId, revisionId);
+    if (!revision) throw new Error("Revision not found");
+
+    // The post's kind may have changed since the revision was saved
+    const contentError = validatePostContent(existingPost.kind, revision.content);
+    if (contentError) {
+      throw new Error("This revision's content is not valid for the post's current kind");
+    }
+
+    let isPublished = existingPost.isPublished;
+    let status: PostStatus = existingPost.status as PostStatus;
+    if (user.role !== "ADMIN" && (await getRequireApproval())) {
+      isPublished = false;
+      status = "PENDING_APPROVAL";
+    }
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(posts)
+        .set({
+          title: revision.title,
+          description: revision.description,
+          content: revision.content,
+          isPublished,
+          status,
+          updatedAt: new Date(),
+        })
+        .where(eq(posts.id, postId));
+
+      await recordPostRevision(tx, {
+        postId,
+        title: revision.title,
+        description: revision.description,
+        content: revision.content,
+        source: "RESTORE",
+        restoredFromId: revision.id,
+        userId: user.id,
+      });
+    });
+
+    revalidatePath("/posts");
+    revalidatePath(`/posts/edit/${postId}`);
+    revalidateCache([
+      CACHE_TAGS.POSTS,
+      CACHE_TAGS.POST_BY_ID,
+      CACHE_TAGS.POST_BY_SLUG,
+      CACHE_TAGS.SEARCH_RESULTS,
+      CACHE_TAGS.USER_POSTS,
+    ]);
+
+    return {
+      success: true,
+      message:
+        user.role !== "ADMIN" && status === "PENDING_APPROVAL"
+          ? `Revision ${revision.revisionNumber} restored and submitted for approval`
+          : `Revision ${revision.revisionNumber} restored successfully`,
+    };
+  } catch (error) {
+    throw toSafeError(error, "Failed to restore revision");
+  }
+}
+
+// Daily views/copies for the post analytics panel (author or admin)
+export async function getPostAnalyticsAction(
+  postId: string
+): Promise<{ success: true; analytics: PostAnalytics }> {
+  try {
+    await getRevisionablePost(postId);
+    const analytics = await getPostAnalytics(postId);
+    return { success: true, analytics };
+  } catch (error) {
+    throw toSafeError(error, "Failed to load post analytics");
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Bulk import action — admin only, no Turnstile (admins are authenticated).
 // Accepts a JSON string in formData["posts_json"] containing an array of post
@@ -937,6 +1198,7 @@ export const bulkImportPostsAction = withCSRFProtection(
               slug,
               description,
               content,
+              kind: item.kind,
               isPremium: false,
               isPublished: false,
               status: "DRAFT" as PostStatus,
@@ -952,6 +1214,15 @@ export const bulkImportPostsAction = withCSRFProtection(
               .insert(postToTag)
               .values(uniqueTagIds.map((B) => ({ A: inserted.id, B })));
           }
+
+          await recordPostRevision(tx, {
+            postId: inserted.id,
+            title,
+            description,
+            content,
+            source: "IMPORT",
+            userId: user.id,
+          });
         });
 
         importResults.push({ index: i, title: item.title, success: true });
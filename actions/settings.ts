@@ -7,6 +7,10 @@ import { settings as settingsTable } from "@/lib/db/schema";
 import { desc, eq } from "drizzle-orm";
 import { z } from "zod";
 import { clearContentFlagsCache } from "@/lib/settings";
+import { refreshTrendingScores } from "@/lib/trending";
+import { rateLimitPolicyOverridesSchema } from "@/lib/schemas";
+import { diffRateLimitPolicies } from "@/lib/rate-limit-policies";
+import { invalidateRateLimitPolicies } from "@/lib/security/limits";
 
 // Settings validation schema
 const settingsSchema = z.object({
@@ -27,6 +31,12 @@ const settingsSchema = z.object({
 
   // User submission controls
   allowUserPosts: z.boolean(),
+
+  // Hours for a star's weight in the "trending" sort to halve
+  trendingHalfLifeHours: z.number().int().min(1).max(336),
+
+  // Named rate-limit policies; omitted leaves the stored ones unchanged
+  rateLimitPolicies: rateLimitPolicyOverridesSchema.optional(),
 });
 
 export type SettingsFormData = z.infer<typeof settingsSchema>;
@@ -98,6 +108,7 @@ export async function updateSettingsAction(data: SettingsFormData) {
     }
 
     const validatedData = validationResult.data;
+    const { rateLimitPolicies, ...fields } = validatedData;
 
     const [existing] = await db
       .select()
@@ -106,7 +117,11 @@ export async function updateSettingsAction(data: SettingsFormData) {
       .limit(1);
 
     const dbPayload = {
-      ...validatedData,
+      ...fields,
+      // Only overrides are stored so the environment defaults keep applying
+      ...(rateLimitPolicies && {
+        rateLimitPolicies: diffRateLimitPolicies(rateLimitPolicies),
+      }),
       updatedBy: user.userData.id,
     };
 
@@ -128,6 +143,14 @@ export async function updateSettingsAction(data: SettingsFormData) {
 
     // Clear all caches so next request picks up the new values
     await clearContentFlagsCache();
+    invalidateRateLimitPolicies();
+
+    // Stored trending scores were computed with the old half-life
+    if (existing?.trendingHalfLifeHours !== validatedData.trendingHalfLifeHours) {
+      await refreshTrendingScores(validatedData.trendingHalfLifeHours).catch((error) => {
+        console.error("Error refreshing trending scores:", error);
+      });
+    }
 
     // Revalidate relevant pages
     revalidatePath("/settings");
@@ -176,6 +199,8 @@ export async function resetSettingsToDefaultAction() {
       postsPageSize: 12,
       featuredPostsLimit: 12,
       allowUserPosts: true,
+      trendingHalfLifeHours: 48,
+      rateLimitPolicies: {},
       updatedBy: user.userData.id,
     };
 
@@ -196,6 +221,12 @@ export async function resetSettingsToDefaultAction() {
     }
 
     await clearContentFlagsCache();
+    invalidateRateLimitPolicies();
+    if (existingSettings?.trendingHalfLifeHours !== defaultData.trendingHalfLifeHours) {
+      await refreshTrendingScores(defaultData.trendingHalfLifeHours).catch((error) => {
+        console.error("Error refreshing trending scores:", error);
+      });
+    }
     revalidatePath("/settings");
     revalidatePath("/dashboard");
 
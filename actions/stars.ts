@@ -7,6 +7,17 @@ import { eq, and, desc } from "drizzle-orm";
 import { getCurrentUser } from "@/lib/auth";
 import { revalidateCache, CACHE_TAGS } from "@/lib/cache";
 import { PostQueries } from "@/lib/query";
+import { refreshPostTrendingScore } from "@/lib/trending";
+import { notifyPostStarred } from "@/lib/notifications";
+
+// The star itself is already saved; a stale trending score only lasts until the next refresh.
+async function refreshTrendingScoreSafely(postId: string) {
+  try {
+    await refreshPostTrendingScore(postId);
+  } catch (error) {
+    console.error("Error refreshing trending score:", error);
+  }
+}
 
 // CSRF: Protected by Next.js's built-in Server Action Origin header check.
 // The framework rejects any Server Action RPC whose Origin doesn't match this
@@ -35,6 +46,7 @@ export async function toggleStarAction(data: StarData) {
       await db
         .delete(starsTable)
         .where(and(eq(starsTable.userId, user.id), eq(starsTable.postId, validatedData.postId)));
+      await refreshTrendingScoreSafely(validatedData.postId);
 
       await revalidateCache([CACHE_TAGS.USER_STARS, CACHE_TAGS.POST_BY_ID]);
       return { success: true, starred: false };
@@ -43,6 +55,8 @@ export async function toggleStarAction(data: StarData) {
         userId: user.id,
         postId: validatedData.postId,
       });
+      await refreshTrendingScoreSafely(validatedData.postId);
+      await notifyPostStarred({ postId: validatedData.postId, actorId: user.id });
 
       await revalidateCache([CACHE_TAGS.USER_STARS, CACHE_TAGS.POST_BY_ID]);
       return { success: true, starred: true };
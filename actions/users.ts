@@ -3,10 +3,12 @@
 import { db } from "@/lib/db";
 import {
   users,
+  follows,
   stars,
   posts,
   categories,
   tags,
+  pageViewStats,
 } from "@/lib/db/schema";
 import { eq, and, desc, gte, lt, sql, inArray, aliasedTable } from "drizzle-orm";
 import { requireAuth, getCurrentUser } from "@/lib/auth";
@@ -17,6 +19,8 @@ import { CACHE_TAGS, CACHE_DURATIONS } from "@/lib/cache";
 import { withCSRFProtection, handleSecureActionError } from "@/lib/security/csp";
 import { updateUserProfileSchema } from "@/lib/schemas";
 import { sanitizeInput } from "@/lib/security/sanitize";
+import { logAuditEvent } from "@/lib/security/audit";
+import { isHandleAvailable } from "@/lib/authors";
 
 export const updateUserProfileAction = withCSRFProtection(
   async (formData: FormData) => {
@@ -26,13 +30,23 @@ export const updateUserProfileAction = withCSRFProtection(
 
       // Extract form data
       const rawName = formData.get("name") as string;
+      const rawHandle = formData.get("handle");
+      const rawBio = formData.get("bio");
+      const rawLinks = formData.get("links");
 
       // SECURITY: Pre-sanitize input before validation
       const sanitizedName = rawName ? sanitizeInput(rawName) : "";
 
-      // Validate input using centralized schema
+      // Validate input using centralized schema. Public profile fields are
+      // only updated when the form sends them; links arrive one per line.
       const validationResult = updateUserProfileSchema.safeParse({
         name: sanitizedName,
+        handle: typeof rawHandle === "string" ? rawHandle : undefined,
+        bio: typeof rawBio === "string" ? sanitizeInput(rawBio) : undefined,
+        links:
+          typeof rawLinks === "string"
+            ? rawLinks.split(/\r?\n/).map((link) => link.trim()).filter(Boolean)
+            : undefined,
       });
 
       if (!validationResult.success) {
@@ -49,7 +63,7 @@ export const updateUserProfileAction = withCSRFProtection(
         };
       }
 
-      const { name } = validationResult.data;
+      const { name, handle, bio, links } = validationResult.data;
 
       // SECURITY: Additional server-side validation
       if (!name || name.trim().length < 2) {
@@ -118,13 +132,35 @@ export const updateUserProfileAction = withCSRFProtection(
         };
       }
 
+      if (handle && !(await isHandleAvailable(handle, user.id))) {
+        return {
+          success: false,
+          error: "That handle is already taken",
+        };
+      }
+
+      const [previous] = await db
+        .select({ handle: users.handle })
+        .from(users)
+        .where(eq(users.id, user.id))
+        .limit(1);
+
       await db
         .update(users)
-        .set({ name, updatedAt: new Date() })
+        .set({
+          name,
+          ...(handle !== undefined && { handle }),
+          ...(bio !== undefined && { bio: bio || null }),
+          ...(links !== undefined && { links }),
+          updatedAt: new Date(),
+        })
         .where(eq(users.id, user.id));
 
-      // Revalidate the account page and the profile API cache
+      // Revalidate the account page, the public profile (old and new handle)
+      // and the profile API cache
       revalidatePath("/account");
+      if (previous?.handle) revalidatePath(`/u/${previous.handle}`);
+      if (handle) revalidatePath(`/u/${handle}`);
       revalidateTag(CACHE_TAGS.USER_PROFILE, 'max');
 
       return {
@@ -164,6 +200,9 @@ export async function getUserProfileAction() {
       email: userData.email,
       name: userData.name,
       avatar: userData.avatar,
+      handle: userData.handle,
+      bio: userData.bio,
+      links: userData.links ?? [],
       type: userData.type,
       role: userData.role,
       oauth: userData.oauth,
@@ -444,6 +483,7 @@ const _fetchAdminStats = unstable_cache(
       starCountRow,
       categoryCountRows,
       recentRows,
+      trafficStats,
     ] = await Promise.all([
       db
         .select({
@@ -497,9 +537,17 @@ const _fetchAdminStats = unstable_cache(
         .where(eq(posts.isPublished, true))
         .orderBy(desc(posts.createdAt))
         .limit(5),
+      db
+        .select({
+          views: sql<number>`coalesce(sum(${pageViewStats.views}) FILTER (WHERE ${pageViewStats.bucket} >= ${t30}::timestamptz), 0)::int`,
+          prevViews: sql<number>`coalesce(sum(${pageViewStats.views}) FILTER (WHERE ${pageViewStats.bucket} < ${t30}::timestamptz), 0)::int`,
+          visitors: sql<number>`coalesce(sum(${pageViewStats.visitors}) FILTER (WHERE ${pageViewStats.bucket} >= ${t30}::timestamptz), 0)::int`,
+        })
+        .from(pageViewStats)
+        .where(gte(pageViewStats.bucket, sql`${t60}::timestamptz`)),
     ]);
 
-    return { postStats, userStats, catStats, tagStats, starCountRow, categoryCountRows, recentRows };
+    return { postStats, userStats, catStats, tagStats, starCountRow, categoryCountRows, recentRows, trafficStats };
   },
   ["admin-dashboard-stats"],
   { revalidate: 120, tags: [CACHE_TAGS.ADMIN_STATS] }
@@ -524,12 +572,13 @@ export async function getAdminDashboardStatsAction() {
       };
     }
 
-    const { postStats, userStats, catStats, tagStats, starCountRow, categoryCountRows, recentRows } = await _fetchAdminStats();
+    const { postStats, userStats, catStats, tagStats, starCountRow, categoryCountRows, recentRows, trafficStats } = await _fetchAdminStats();
 
     const ps = postStats[0] ?? { total: 0, thisMonth: 0, prevMonth: 0 };
     const us = userStats[0] ?? { total: 0, thisMonth: 0, prevMonth: 0 };
     const cs = catStats[0] ?? { total: 0, thisMonth: 0, prevMonth: 0 };
     const ts = tagStats[0] ?? { total: 0, thisMonth: 0, prevMonth: 0 };
+    const tr = trafficStats[0] ?? { views: 0, prevViews: 0, visitors: 0 };
 
     const calculateGrowthPercentage = (current: number, previous: number) => {
       if (previous === 0) return current > 0 ? 100 : 0;
@@ -540,6 +589,7 @@ export async function getAdminDashboardStatsAction() {
     const usersGrowth = calculateGrowthPercentage(us.thisMonth, us.prevMonth);
     const categoriesGrowth = calculateGrowthPercentage(cs.thisMonth, cs.prevMonth);
     const tagsGrowth = calculateGrowthPercentage(ts.thisMonth, ts.prevMonth);
+    const viewsGrowth = calculateGrowthPercentage(tr.views, tr.prevViews);
 
     const totalStars = starCountRow[0]?.count ?? 0;
     const popularCategories = categoryCountRows.map((r) => ({
@@ -582,6 +632,12 @@ export async function getAdminDashboardStatsAction() {
         engagement: {
           totalStars,
         },
+        // First-party page views over the last 30 days (lib/analytics.ts)
+        traffic: {
+          views: tr.views,
+          visitors: tr.visitors,
+          growthPercentage: viewsGrowth,
+        },
         popularCategories,
         recentActivity,
       },
@@ -710,6 +766,15 @@ export async function changeUserRoleAction(
       .set({ role: newRole, updatedAt: new Date() })
       .where(eq(users.id, targetUserId));
 
+    await logAuditEvent({
+      action: "User Role Changed",
+      userId: currentUser.id,
+      entityType: "user",
+      entityId: targetUserId,
+      severity: "HIGH",
+      metadata: { from: targetUser.role, to: newRole },
+    });
+
     revalidatePath("/users");
     revalidatePath("/dashboard");
 
@@ -726,3 +791,55 @@ export async function changeUserRoleAction(
     };
   }
 }
+
+// Follow or unfollow an author; followed authors' posts fill the directory's
+// Following tab.
+// CSRF: Protected by Next.js's built-in Server Action Origin header check.
+// This action takes the author id (not FormData) so it cannot use
+// withCSRFProtection(). All call sites use startTransition — no raw fetch.
+export async function toggleFollowAction(authorId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser?.userData) {
+      return { success: false as const, error: "Authentication required. Please sign in." };
+    }
+    const user = currentUser.userData;
+
+    if (user.id === authorId) {
+      return { success: false as const, error: "You cannot follow yourself" };
+    }
+
+    const [author] = await db
+      .select({ id: users.id, handle: users.handle })
+      .from(users)
+      .where(and(eq(users.id, authorId), eq(users.disabled, false)))
+      .limit(1);
+    if (!author) {
+      return { success: false as const, error: "Author not found" };
+    }
+
+    const removed = await db
+      .delete(follows)
+      .where(and(eq(follows.followerId, user.id), eq(follows.followingId, author.id)))
+      .returning({ followerId: follows.followerId });
+    const following = removed.length === 0;
+    if (following) {
+      await db
+        .insert(follows)
+        .values({ followerId: user.id, followingId: author.id })
+        .onConflictDoNothing();
+    }
+
+    if (author.handle) revalidatePath(`/u/${author.handle}`);
+    return { success: true as const, following };
+  } catch (error) {
+    if (error && typeof error === "object" && "digest" in error) {
+      const errorDigest = (error as { digest?: string }).digest;
+      if (typeof errorDigest === "string" && errorDigest.includes("NEXT_REDIRECT")) {
+        throw error;
+      }
+    }
+    console.error("Toggle follow error:", error);
+    return { success: false as const, error: "Failed to update follow" };
+  }
+}
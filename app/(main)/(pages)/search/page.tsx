@@ -7,6 +7,7 @@ import { Queries } from "@/lib/query";
 import { getSettingsAction } from "@/actions/settings";
 import { SafeAsync } from "@/components/ui/safe-async";
 import { setMetadata } from "@/config/seo";
+import { parsePostKind } from "@/lib/post-kinds";
 
 export const dynamic = "force-dynamic";
 
@@ -38,6 +39,7 @@ interface SearchPageProps {
     category?: string;
     subcategory?: string;
     premium?: string;
+    kind?: string;
     page?: string;
     sort?: string;
   }>;
@@ -91,6 +93,7 @@ async function SearchResults({
     category: categoryFilter,
     subcategory: subcategoryFilter,
     premium: premiumFilter,
+    kind: kindParam,
     page: pageParam = "1",
     sort: sortBy = "latest",
   } = params;
@@ -98,6 +101,7 @@ async function SearchResults({
   const searchQuery = typeof qParam === "string" ? qParam.trim() : "";
   const userId = currentUser?.userData?.id;
   const userType = currentUser?.userData?.type || null;
+  const kind = parsePostKind(kindParam) ?? undefined;
 
   // Parse page number
   const page = Math.max(1, parseInt(pageParam, 10) || 1);
@@ -137,6 +141,7 @@ async function SearchResults({
       limit: postsPageSize,
       userId,
       categoryId,
+      kind,
       isPremium,
       sortBy: normalizedSort === "latest" && page === 1 ? "relevance" : normalizedSort,
     });
@@ -146,6 +151,7 @@ async function SearchResults({
       limit: postsPageSize,
       userId,
       categoryId,
+      kind,
       isPremium,
       sortBy: normalizedSort as SortOption,
     });
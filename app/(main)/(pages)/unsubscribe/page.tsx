@@ -0,0 +1,53 @@
+import Link from "next/link";
+import { Container } from "@/components/ui/container";
+import { setMetadata } from "@/config/seo";
+import { verifyUnsubscribeToken } from "@/lib/mail";
+import { EMAIL_CATEGORY_OPTIONS } from "@/lib/mail-categories";
+import { UnsubscribeButton } from "@/components/mail/unsubscribe-button";
+
+export const metadata = setMetadata({
+  title: "Unsubscribe",
+  robots: { index: false, follow: false },
+});
+
+interface UnsubscribePageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+// Links in emails land here and still need a click, so mail scanners that
+// prefetch links can't unsubscribe anyone
+export default async function UnsubscribePage({ searchParams }: UnsubscribePageProps) {
+  const { token } = await searchParams;
+  const verified = token ? verifyUnsubscribeToken(token) : null;
+
+  return (
+    <Container className="py-16 md:py-24">
+      <div className="mx-auto max-w-md space-y-6 text-center">
+        <h1 className="text-3xl font-bold">Unsubscribe</h1>
+        {token && verified ? (
+          <>
+            <p className="text-muted-foreground">
+              Stop receiving{" "}
+              <span className="font-medium text-foreground">
+                {EMAIL_CATEGORY_OPTIONS[verified.category].label.toLowerCase()}
+              </span>{" "}
+              emails from Promptexify?
+            </p>
+            <UnsubscribeButton
+              token={token}
+              label={EMAIL_CATEGORY_OPTIONS[verified.category].label}
+            />
+          </>
+        ) : (
+          <p className="text-muted-foreground">
+            This unsubscribe link is invalid. You can manage which emails you get in{" "}
+            <Link href="/settings" className="text-primary underline underline-offset-4">
+              your settings
+            </Link>
+            .
+          </p>
+        )}
+      </div>
+    </Container>
+  );
+}
@@ -1,7 +1,15 @@
 import { notFound } from "next/navigation";
-import { getBlogPostBySlug } from "@/lib/blog-query";
+import {
+  getBlogPostBySlug,
+  getBlogPostMentionedPosts,
+  getBlogSeriesParts,
+  getRelatedBlogPosts,
+} from "@/lib/blog-query";
 import { Container } from "@/components/ui/container";
 import { ArticleContent } from "@/components/blog/article-content";
+import { BlogPostCard } from "@/components/blog/blog-post-card";
+import { BlogSeriesOverview, BlogSeriesPager } from "@/components/blog/blog-series-nav";
+import { POST_KIND_LABELS } from "@/lib/post-kinds";
 import { ShareButton } from "@/components/share-button";
 import { setMetadata } from "@/config/seo";
 import { getBaseUrl, cn } from "@/lib/utils";
@@ -64,6 +72,12 @@ export default async function BlogPostPage({ params }: { params: Promise<{ slug:
   const post = await getBlogPostBySlug(slug);
   if (!post) notFound();
 
+  const [seriesParts, relatedPosts, mentionedPosts] = await Promise.all([
+    post.seriesId ? getBlogSeriesParts(post.seriesId) : null,
+    getRelatedBlogPosts(post.id),
+    getBlogPostMentionedPosts(post.id),
+  ]);
+
   const baseUrl = getBaseUrl();
   const canonicalUrl = `${baseUrl}/blog/${post.slug}`;
 
@@ -82,6 +96,7 @@ export default async function BlogPostPage({ params }: { params: Promise<{ slug:
     publisher: { "@id": `${baseUrl}/#organization` },
     isPartOf: { "@id": `${baseUrl}/blog#blog` },
     inLanguage: "en-US",
+    ...(post.tags.length > 0 && { keywords: post.tags.map((t) => t.name).join(", ") }),
     ...(post.featuredImageUrl && {
       image: { "@type": "ImageObject", url: post.featuredImageUrl },
     }),
@@ -140,11 +155,61 @@ export default async function BlogPostPage({ params }: { params: Promise<{ slug:
             </div>
             <ShareButton title={post.title} url={canonicalUrl} variant="outline" size="sm" />
           </div>
+          {post.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-4">
+              {post.tags.map((tag) => (
+                <Link key={tag.id} href={`/blog/tag/${tag.slug}`}>
+                  <Badge variant="secondary" className="hover:bg-secondary/70">#{tag.name}</Badge>
+                </Link>
+              ))}
+            </div>
+          )}
         </header>
 
+        {seriesParts && seriesParts.parts.length > 1 && (
+          <BlogSeriesOverview series={seriesParts.series} parts={seriesParts.parts} currentId={post.id} />
+        )}
+
         {/* Article body */}
         <ArticleContent html={post.content} />
+
+        {seriesParts && <BlogSeriesPager parts={seriesParts.parts} currentId={post.id} />}
+
+        {/* Prompt posts linked from the article */}
+        {mentionedPosts.length > 0 && (
+          <section className="mt-12">
+            <h2 className="text-lg font-semibold mb-4">Featured in this article</h2>
+            <ul className="divide-y rounded-lg border">
+              {mentionedPosts.map((mentioned) => (
+                <li key={mentioned.id}>
+                  <Link href={`/entry/${mentioned.id}`} className="flex flex-col gap-1 p-4 hover:bg-muted/50 transition-colors">
+                    <span className="flex items-center gap-2">
+                      <span className="font-medium">{mentioned.title}</span>
+                      <Badge variant="outline" className="text-xs">{POST_KIND_LABELS[mentioned.kind]}</Badge>
+                    </span>
+                    {mentioned.description && (
+                      <span className="text-sm text-muted-foreground line-clamp-2">{mentioned.description}</span>
+                    )}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
       </Container>
+
+      {relatedPosts.length > 0 && (
+        <Container className="pb-16">
+          <section className="border-t pt-10">
+            <h2 className="text-xl font-semibold mb-6">Related articles</h2>
+            <div className="grid gap-8 md:grid-cols-2 lg:grid-cols-3">
+              {relatedPosts.map((related) => (
+                <BlogPostCard key={related.id} post={related} />
+              ))}
+            </div>
+          </section>
+        </Container>
+      )}
     </>
   );
 }
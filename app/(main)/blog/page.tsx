@@ -1,12 +1,12 @@
 import { Suspense } from "react";
 import Link from "next/link";
-import { getPublishedBlogPosts } from "@/lib/blog-query";
+import { getPublishedBlogPosts, getBlogTags } from "@/lib/blog-query";
 import { Container } from "@/components/ui/container";
 import { Badge } from "@/components/ui/badge";
+import { BlogPostCard } from "@/components/blog/blog-post-card";
 import { setMetadata } from "@/config/seo";
 import { getBaseUrl } from "@/lib/utils";
 import { safeJsonLd } from "@/lib/security/sanitize";
-import { Clock, Calendar } from "lucide-react";
 
 export const metadata = setMetadata({
   title: "Blog",
@@ -16,6 +16,23 @@ export const metadata = setMetadata({
 
 export const dynamic = "force-dynamic";
 
+async function BlogTagList() {
+  const blogTags = await getBlogTags();
+  if (blogTags.length === 0) return null;
+
+  return (
+    <nav aria-label="Topics" className="flex flex-wrap gap-2 mb-10">
+      {blogTags.map((tag) => (
+        <Link key={tag.id} href={`/blog/tag/${tag.slug}`}>
+          <Badge variant="outline" className="hover:bg-muted">
+            #{tag.name} <span className="ml-1 text-muted-foreground">{tag.count}</span>
+          </Badge>
+        </Link>
+      ))}
+    </nav>
+  );
+}
+
 async function BlogList() {
   const { posts, pagination } = await getPublishedBlogPosts(1, 20);
 
@@ -32,41 +49,7 @@ async function BlogList() {
     <>
       <div className="grid gap-8 md:grid-cols-2 lg:grid-cols-3">
         {posts.map((post) => (
-          <article key={post.id} className="group flex flex-col">
-            {post.featuredImageUrl && (
-              <Link href={`/blog/${post.slug}`} className="block mb-4 overflow-hidden rounded-lg">
-                {/* eslint-disable-next-line @next/next/no-img-element */}
-                <img
-                  src={post.featuredImageUrl}
-                  alt={post.title}
-                  className="w-full h-48 object-cover transition-transform duration-300 group-hover:scale-105"
-                />
-              </Link>
-            )}
-            <div className="flex flex-col flex-1">
-              <Link href={`/blog/${post.slug}`} className="block group-hover:underline">
-                <h2 className="font-semibold text-lg leading-snug mb-2">{post.title}</h2>
-              </Link>
-              {post.excerpt && (
-                <p className="text-sm text-muted-foreground line-clamp-3 mb-3 flex-1">{post.excerpt}</p>
-              )}
-              <div className="flex items-center gap-3 text-xs text-muted-foreground mt-auto">
-                {post.readingTime && (
-                  <span className="flex items-center gap-1">
-                    <Clock className="h-3 w-3" />
-                    {post.readingTime} min read
-                  </span>
-                )}
-                {post.publishedAt && (
-                  <span className="flex items-center gap-1">
-                    <Calendar className="h-3 w-3" />
-                    {new Date(post.publishedAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
-                  </span>
-                )}
-                {post.author?.name && <Badge variant="outline" className="text-xs">{post.author.name}</Badge>}
-              </div>
-            </div>
-          </article>
+          <BlogPostCard key={post.id} post={post} />
         ))}
       </div>
       <p className="mt-8 text-center text-sm text-muted-foreground">{pagination.totalCount} article{pagination.totalCount !== 1 ? "s" : ""}</p>
@@ -106,6 +89,9 @@ export default function BlogPage() {
           <h1 className="text-3xl font-bold tracking-tight mb-2">Blog</h1>
           <p className="text-muted-foreground">Guides and insights on AI-powered development.</p>
         </div>
+        <Suspense fallback={null}>
+          <BlogTagList />
+        </Suspense>
         <Suspense fallback={<div className="py-12 text-center text-muted-foreground text-sm">Loading articles…</div>}>
           <BlogList />
         </Suspense>
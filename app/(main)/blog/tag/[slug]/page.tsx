@@ -0,0 +1,74 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { getPublishedBlogPostsByTag } from "@/lib/blog-query";
+import { Container } from "@/components/ui/container";
+import { BlogPostCard } from "@/components/blog/blog-post-card";
+import { setMetadata } from "@/config/seo";
+import { getBaseUrl } from "@/lib/utils";
+import { safeJsonLd } from "@/lib/security/sanitize";
+import { ArrowLeft } from "lucide-react";
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({ params }: { params: Promise<{ slug: string }> }): Promise<Metadata> {
+  const { slug } = await params;
+  const result = await getPublishedBlogPostsByTag(slug, 1, 1);
+  if (!result || result.pagination.totalCount === 0) {
+    return setMetadata({ title: "Topic Not Found", robots: { index: false, follow: false } });
+  }
+
+  const title = `#${result.tag.name} articles`;
+  const description = `Articles about ${result.tag.name} on AI-powered development workflows.`;
+  const image = `/api/og?type=tag&slug=${encodeURIComponent(result.tag.slug)}`;
+
+  return setMetadata({
+    title,
+    description,
+    alternates: { canonical: `${getBaseUrl()}/blog/tag/${result.tag.slug}` },
+    openGraph: { title, description, type: "website", images: [{ url: image, width: 1200, height: 630 }] },
+    twitter: { card: "summary_large_image", title, description, images: [image] },
+  });
+}
+
+export default async function BlogTagPage({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const result = await getPublishedBlogPostsByTag(slug, 1, 50);
+  if (!result || result.posts.length === 0) notFound();
+
+  const { tag, posts, pagination } = result;
+  const baseUrl = getBaseUrl();
+
+  const breadcrumbJsonLd = {
+    "@context": "https://schema.org",
+    "@type": "BreadcrumbList",
+    itemListElement: [
+      { "@type": "ListItem", position: 1, name: "Home", item: baseUrl },
+      { "@type": "ListItem", position: 2, name: "Blog", item: `${baseUrl}/blog` },
+      { "@type": "ListItem", position: 3, name: `#${tag.name}`, item: `${baseUrl}/blog/tag/${tag.slug}` },
+    ],
+  };
+
+  return (
+    <>
+      <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: safeJsonLd(breadcrumbJsonLd) }} />
+      <Container className="py-10">
+        <Link href="/blog" className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground mb-8 transition-colors">
+          <ArrowLeft className="h-4 w-4" />
+          Back to Blog
+        </Link>
+        <div className="mb-10">
+          <h1 className="text-3xl font-bold tracking-tight mb-2">#{tag.name}</h1>
+          <p className="text-muted-foreground">
+            {pagination.totalCount} article{pagination.totalCount !== 1 ? "s" : ""} tagged {tag.name}
+          </p>
+        </div>
+        <div className="grid gap-8 md:grid-cols-2 lg:grid-cols-3">
+          {posts.map((post) => (
+            <BlogPostCard key={post.id} post={post} />
+          ))}
+        </div>
+      </Container>
+    </>
+  );
+}
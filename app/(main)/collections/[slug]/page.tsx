@@ -0,0 +1,108 @@
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { getCurrentUser } from "@/lib/auth";
+import { getCollectionBySlug } from "@/lib/collections";
+import { setMetadata } from "@/config/seo";
+import { Container } from "@/components/ui/container";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Download, Lock } from "@/components/ui/icons";
+import { PostMasonryGrid } from "@/components/post-masonry-grid";
+import { CollectionStarButton } from "@/components/collections/collection-star-button";
+import { CollectionManager } from "@/components/collections/collection-manager";
+
+interface CollectionPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({ params }: CollectionPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const collection = await getCollectionBySlug(slug);
+
+  if (!collection) {
+    return setMetadata({
+      title: "Collection Not Found",
+      robots: { index: false, follow: false },
+    });
+  }
+
+  return setMetadata({
+    title: collection.title,
+    description:
+      collection.description ||
+      `A collection of ${collection.postCount} prompts, rules and configs on Promptexify.`,
+  });
+}
+
+export default async function CollectionPage({ params }: CollectionPageProps) {
+  const { slug } = await params;
+  const currentUser = await getCurrentUser();
+  const viewer = currentUser?.userData
+    ? { id: currentUser.userData.id, role: currentUser.userData.role }
+    : null;
+
+  const collection = await getCollectionBySlug(slug, viewer);
+  if (!collection) {
+    notFound();
+  }
+
+  const userType = currentUser?.userData?.type || null;
+
+  return (
+    <Container>
+      <div className="mb-8 flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div className="flex-1 space-y-2">
+          <div className="flex items-center gap-2">
+            <h1 className="text-3xl font-bold tracking-tight">{collection.title}</h1>
+            {!collection.isPublic && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <Lock className="h-3 w-3" />
+                Private
+              </Badge>
+            )}
+          </div>
+          {collection.description && (
+            <p className="max-w-2xl text-muted-foreground">{collection.description}</p>
+          )}
+          <p className="text-sm text-muted-foreground">
+            {collection.owner.name ? `By ${collection.owner.name} · ` : ""}
+            {collection.posts.length} {collection.posts.length === 1 ? "post" : "posts"}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {collection.isPublic && viewer && !collection.isOwner && (
+            <CollectionStarButton
+              collectionId={collection.id}
+              initialStarred={collection.isStarred}
+              initialCount={collection.starCount}
+            />
+          )}
+          {collection.posts.length > 0 && (
+            <Button size="sm" asChild>
+              <a href={`/api/v1/collections/${collection.slug}/download`} download>
+                <Download className="h-4 w-4" />
+                Download bundle
+              </a>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {collection.isOwner && (
+        <div className="mb-8">
+          <CollectionManager
+            collection={collection}
+            posts={collection.posts.map((p) => ({ id: p.id, title: p.title, kind: p.kind }))}
+          />
+        </div>
+      )}
+
+      {collection.posts.length > 0 && (
+        <PostMasonryGrid posts={collection.posts} userType={userType} />
+      )}
+    </Container>
+  );
+}
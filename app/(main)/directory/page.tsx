@@ -1,4 +1,4 @@
-import { getAllCategories } from "@/lib/content";
+import { getAllCategories, isFollowingCategory } from "@/lib/content";
 import { getCurrentUser } from "@/lib/auth";
 import { Suspense } from "react";
 import { PostMasonrySkeleton } from "@/components/post-masonry-skeleton";
@@ -11,8 +11,8 @@ import { Container } from "@/components/ui/container";
 import { getMetadata } from "@/config/seo";
 import { getBaseUrl } from "@/lib/utils";
 import { safeJsonLd } from "@/lib/security/sanitize";
-
-export const metadata = getMetadata("directory");
+import { parsePostKind } from "@/lib/post-kinds";
+import type { Metadata } from "next";
 
 interface DirectoryPageProps {
   searchParams: Promise<{
@@ -20,10 +20,27 @@ interface DirectoryPageProps {
     category?: string;
     subcategory?: string;
     premium?: string;
+    kind?: string;
     sort?: string;
+    feed?: string;
   }>;
 }
 
+// Category-filtered listings share a card branded with that category
+export async function generateMetadata({ searchParams }: DirectoryPageProps): Promise<Metadata> {
+  const metadata = getMetadata("directory");
+  const { category, subcategory } = await searchParams;
+  const slug = subcategory || category;
+  if (!slug) return metadata;
+
+  const image = `/api/og?type=category&slug=${encodeURIComponent(slug)}`;
+  return {
+    ...metadata,
+    openGraph: { ...metadata.openGraph, images: [{ url: image, width: 1200, height: 630 }] },
+    twitter: { ...metadata.twitter, images: [image] },
+  };
+}
+
 export const dynamic = "force-dynamic";
 
 // Directory page skeleton that matches the full layout
@@ -76,12 +93,17 @@ async function DirectoryContent({
       category: categoryFilter,
       subcategory: subcategoryFilter,
       premium: premiumFilter,
+      kind: kindParam,
       sort: sortParam,
+      feed: feedParam,
     } = params;
 
     const searchQuery = typeof qParam === "string" ? qParam.trim() : "";
     const userId = currentUser?.userData?.id;
     const userType = currentUser?.userData?.type || null;
+    // Following tab: posts by authors the signed-in user follows
+    const isFollowingFeed = feedParam === "following";
+    const kind = parsePostKind(kindParam) ?? undefined;
     const validSorts = ["latest", "popular", "trending", "relevance"] as const;
     const sortBy = validSorts.includes(sortParam as typeof validSorts[number])
       ? (sortParam as typeof validSorts[number])
@@ -104,6 +126,7 @@ async function DirectoryContent({
     }
 
     // Resolve parent category metadata for the header
+    let activeCategoryId: string | undefined;
     let activeCategoryName: string | undefined;
     let activeCategoryDescription: string | undefined;
     if (categoryFilter && categoryFilter !== "all") {
@@ -111,11 +134,21 @@ async function DirectoryContent({
         (c) => c.slug === categoryFilter
       );
       if (matchedCategory) {
+        activeCategoryId = matchedCategory.id;
         activeCategoryName = matchedCategory.name;
         activeCategoryDescription = matchedCategory.description ?? undefined;
       }
     }
 
+    // Following the parent category covers its subcategories' posts too
+    const followsActiveCategory =
+      userId && activeCategoryId
+        ? await isFollowingCategory(userId, activeCategoryId).catch((e) => {
+            console.warn("Failed to load category follow:", e);
+            return false;
+          })
+        : false;
+
     // Handle premium filter
     let isPremium: boolean | undefined;
     if (premiumFilter === "premium") {
@@ -125,12 +158,16 @@ async function DirectoryContent({
     }
 
     let result;
-    if (searchQuery.length > 0) {
+    if (isFollowingFeed && !userId) {
+      // Signed-out visitors get a sign-in prompt instead of a feed
+      result = { data: [], pagination: { totalCount: 0, hasNextPage: false } };
+    } else if (searchQuery.length > 0 && !isFollowingFeed) {
       result = await Queries.posts.search(searchQuery, {
         page: 1,
         limit: postsPageSize,
         userId,
         categoryId,
+        kind,
         isPremium,
         sortBy: sortBy === "latest" ? "relevance" : sortBy,
       });
@@ -140,6 +177,8 @@ async function DirectoryContent({
         limit: postsPageSize,
         userId,
         categoryId,
+        followedBy: isFollowingFeed ? userId : undefined,
+        kind,
         isPremium,
         sortBy: sortBy === "relevance" ? "latest" : sortBy,
       });
@@ -155,8 +194,12 @@ async function DirectoryContent({
         userType={userType}
         pageSize={postsPageSize}
         pagination={pagination}
+        categoryId={activeCategoryId}
         categoryName={activeCategoryName}
         categoryDescription={activeCategoryDescription}
+        isFollowingCategory={followsActiveCategory}
+        isSignedIn={!!userId}
+        isFollowingFeed={isFollowingFeed}
       />
     );
   } catch (error) {
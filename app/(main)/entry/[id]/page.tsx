@@ -4,6 +4,7 @@ import { Queries } from "@/lib/query";
 import type { PostWithInteractions } from "@/lib/content";
 import { PostStandalonePage } from "@/components/post-standalone-page";
 import { getCurrentUser } from "@/lib/auth";
+import { getCommentThread } from "@/lib/comments";
 import { generatePostMetadata, setMetadata } from "@/config/seo";
 import { getBaseUrl } from "@/lib/utils";
 import { safeJsonLd } from "@/lib/security/sanitize";
@@ -63,7 +64,13 @@ export default async function PostPage({ params, searchParams }: PostPageProps)
 
   const processedPost = result as PostWithInteractions;
   const userType = currentUser?.userData?.type || null;
-  const relatedPosts = await getRelatedPosts(id, processedPost, userId, 6);
+  const [relatedPosts, commentThread] = await Promise.all([
+    getRelatedPosts(id, processedPost, userId, 6),
+    getCommentThread(
+      id,
+      currentUser?.userData ? { id: currentUser.userData.id, role: currentUser.userData.role } : null
+    ),
+  ]);
 
   const baseUrl = getBaseUrl();
   const canonicalUrl = `${baseUrl}/entry/${result.id}`;
@@ -129,6 +136,7 @@ export default async function PostPage({ params, searchParams }: PostPageProps)
       <PostStandalonePage
         post={processedPost}
         relatedPosts={relatedPosts}
+        comments={{ ...commentThread, isSignedIn: Boolean(userId) }}
         userType={userType}
       />
     </>
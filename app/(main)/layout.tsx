@@ -1,6 +1,7 @@
 import { Header } from "@/components/ui/header";
 import { Footer } from "@/components/ui/footer";
 import { Container } from "@/components/ui/container";
+import { PageViewTracker } from "@/components/page-view-tracker";
 import { getParentCategories } from "@/lib/content";
 
 export default async function MainLayout({
@@ -15,6 +16,7 @@ export default async function MainLayout({
         <Header parentCategories={parentCategories} />
         <main className="flex-1">{children}</main>
         <Footer parentCategories={parentCategories} />
+        <PageViewTracker />
       </div>
     </Container>
   );
@@ -0,0 +1,210 @@
+import { notFound } from "next/navigation";
+import Image from "next/image";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { getCurrentUser } from "@/lib/auth";
+import { getAuthorProfileByHandle } from "@/lib/authors";
+import { Queries } from "@/lib/query";
+import { getPostsPageSize } from "@/lib/settings";
+import { parsePostKind } from "@/lib/post-kinds";
+import { setMetadata } from "@/config/seo";
+import { Container } from "@/components/ui/container";
+import { Button } from "@/components/ui/button";
+import { Calendar, ExternalLink, Rss, Star, User, UserPlus } from "@/components/ui/icons";
+import { DirectoryFilters } from "@/components/directory-filters";
+import { InfinitePostGrid } from "@/components/infinite-scroll-grid";
+import { FollowButton } from "@/components/authors/follow-button";
+
+interface AuthorPageProps {
+  params: Promise<{ handle: string }>;
+  searchParams: Promise<{ kind?: string; sort?: string }>;
+}
+
+export const dynamic = "force-dynamic";
+
+const SORTS = ["latest", "popular", "trending"] as const;
+
+function linkLabel(url: string): string {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return `${hostname.replace(/^www\./, "")}${pathname === "/" ? "" : pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+export async function generateMetadata({ params }: AuthorPageProps): Promise<Metadata> {
+  const { handle } = await params;
+  const author = await getAuthorProfileByHandle(handle);
+
+  if (!author) {
+    return setMetadata({
+      title: "Author Not Found",
+      robots: { index: false, follow: false },
+    });
+  }
+
+  const displayName = author.name || `@${author.handle}`;
+  return setMetadata({
+    title: `${displayName} (@${author.handle})`,
+    description:
+      author.bio ||
+      `${author.postCount} prompts, rules and configs by ${displayName} on Promptexify.`,
+    alternates: {
+      canonical: `/u/${author.handle}`,
+      types: { "application/rss+xml": `/feed/rss.xml?author=${author.id}` },
+    },
+  });
+}
+
+export default async function AuthorPage({ params, searchParams }: AuthorPageProps) {
+  const [{ handle }, { kind: kindParam, sort: sortParam }, currentUser, pageSize] =
+    await Promise.all([
+      params,
+      searchParams,
+      getCurrentUser().catch(() => null),
+      getPostsPageSize().catch(() => 12),
+    ]);
+  const viewerId = currentUser?.userData?.id;
+
+  const author = await getAuthorProfileByHandle(handle, viewerId);
+  if (!author) {
+    notFound();
+  }
+
+  const sortBy = SORTS.includes(sortParam as (typeof SORTS)[number])
+    ? (sortParam as (typeof SORTS)[number])
+    : "latest";
+  const { data: posts, pagination } = await Queries.posts.getPaginated({
+    page: 1,
+    limit: pageSize,
+    userId: viewerId,
+    authorId: author.id,
+    kind: parsePostKind(kindParam) ?? undefined,
+    sortBy,
+  });
+
+  const displayName = author.name || `@${author.handle}`;
+  const stats = [
+    { label: author.postCount === 1 ? "post" : "posts", value: author.postCount },
+    { label: author.starCount === 1 ? "star received" : "stars received", value: author.starCount },
+    { label: "following", value: author.followingCount },
+  ];
+
+  return (
+    <Container>
+      <div className="mb-8 flex flex-col gap-6 md:flex-row md:items-start md:justify-between">
+        <div className="flex gap-4">
+          <div className="flex h-20 w-20 shrink-0 items-center justify-center overflow-hidden rounded-full border bg-muted text-muted-foreground">
+            {author.avatar ? (
+              <Image
+                src={author.avatar}
+                alt={displayName}
+                width={80}
+                height={80}
+                className="h-full w-full object-cover"
+              />
+            ) : (
+              <User className="h-8 w-8" />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div>
+              <h1 className="text-2xl font-bold tracking-tight">{displayName}</h1>
+              <p className="text-sm text-muted-foreground">@{author.handle}</p>
+            </div>
+            {author.bio && <p className="max-w-2xl text-muted-foreground">{author.bio}</p>}
+
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+              {stats.map((stat) => (
+                <span key={stat.label}>
+                  <span className="font-semibold text-foreground">{stat.value}</span> {stat.label}
+                </span>
+              ))}
+              <span className="flex items-center gap-1">
+                <Calendar className="h-3 w-3" />
+                Joined {new Date(author.createdAt).toLocaleDateString("en-US", { month: "long", year: "numeric" })}
+              </span>
+            </div>
+
+            {author.links.length > 0 && (
+              <ul className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                {author.links.map((link) => (
+                  <li key={link}>
+                    <a
+                      href={link}
+                      target="_blank"
+                      rel="noopener noreferrer nofollow ugc"
+                      className="inline-flex items-center gap-1 text-primary hover:underline"
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                      {linkLabel(link)}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {author.isSelf ? (
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/account">Edit profile</Link>
+            </Button>
+          ) : viewerId ? (
+            <FollowButton
+              authorId={author.id}
+              initialFollowing={author.isFollowing}
+              initialCount={author.followerCount}
+            />
+          ) : (
+            <Button size="sm" asChild>
+              <Link href="/signin">
+                <UserPlus className="h-4 w-4" />
+                Follow
+                <span className="opacity-70">{author.followerCount}</span>
+              </Link>
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" className="h-9 w-9" asChild>
+            <a href={`/feed/rss.xml?author=${author.id}`} aria-label={`RSS feed of posts by ${displayName}`}>
+              <Rss className="h-4 w-4" />
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <div className="mb-6 flex items-center justify-between gap-4">
+        <p className="text-xs text-muted-foreground">
+          Showing {pagination.totalCount} prompt{pagination.totalCount !== 1 ? "s" : ""}
+        </p>
+        <DirectoryFilters showSearch={false} />
+      </div>
+
+      {posts.length > 0 ? (
+        <InfinitePostGrid
+          initialPosts={posts}
+          hasNextPage={pagination.hasNextPage}
+          totalCount={pagination.totalCount}
+          userType={currentUser?.userData?.type || null}
+          pageSize={pageSize}
+          author={author.handle}
+        />
+      ) : (
+        <div className="py-16 text-center">
+          <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+            <Star className="h-8 w-8 text-muted-foreground/50" />
+          </div>
+          <h3 className="mb-2 text-lg font-semibold">No prompts yet</h3>
+          <p className="mx-auto max-w-md text-muted-foreground">
+            {author.isSelf
+              ? "Posts you publish will be listed here once they are approved."
+              : `${displayName} hasn't published anything yet.`}
+          </p>
+        </div>
+      )}
+    </Container>
+  );
+}
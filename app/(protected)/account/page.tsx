@@ -1,5 +1,6 @@
 import { Suspense } from "react";
 import { requireAuth } from "@/lib/auth";
+import { getUserApiKeys } from "@/lib/api-keys";
 import { getUserProfileAction } from "@/actions";
 import { Card, CardContent } from "@/components/ui/card";
 import { User } from "@/components/ui/icons";
@@ -7,6 +8,7 @@ import { AppSidebar } from "@/components/dashboard/admin-sidebar";
 import { SiteHeader } from "@/components/dashboard/site-header";
 import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
 import { AccountForm } from "@/components/dashboard/account-form";
+import { ApiKeysCard } from "@/components/dashboard/api-keys-card";
 import { Metadata } from "next";
 
 // Force dynamic rendering for this page
@@ -36,7 +38,14 @@ async function AccountContent() {
     );
   }
 
-  return <AccountForm user={profileResult.user} />;
+  const apiKeys = await getUserApiKeys(profileResult.user.id);
+
+  return (
+    <div className="space-y-6">
+      <AccountForm user={profileResult.user} />
+      <ApiKeysCard apiKeys={apiKeys} />
+    </div>
+  );
 }
 
 function AccountLoading() {
@@ -0,0 +1,103 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { AppSidebar } from "@/components/dashboard/admin-sidebar";
+import { SiteHeader } from "@/components/dashboard/site-header";
+import { AlertFeed } from "@/components/dashboard/alert-feed";
+import { AlertRulesCard } from "@/components/dashboard/alert-rules-card";
+import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { getCurrentUser } from "@/lib/auth";
+import {
+  ALERT_RULE_PRESETS,
+  getAlertCounts,
+  getAlertFeed,
+  getAlertRules,
+} from "@/lib/security/alerts";
+import type { AlertStatus } from "@/lib/db/schema";
+import { setMetadata } from "@/config/seo";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = setMetadata({
+  title: "Security Alerts",
+  description: "Alert rules and the feed of fired alerts",
+});
+
+const TABS: { key: string; label: string; statuses: AlertStatus[] }[] = [
+  { key: "active", label: "Active", statuses: ["OPEN", "ACKNOWLEDGED"] },
+  { key: "open", label: "Open", statuses: ["OPEN"] },
+  { key: "acknowledged", label: "Acknowledged", statuses: ["ACKNOWLEDGED"] },
+  { key: "resolved", label: "Resolved", statuses: ["RESOLVED"] },
+];
+
+interface AlertsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function AlertsPage({ searchParams }: AlertsPageProps) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/signin");
+  }
+
+  if (user.userData?.role !== "ADMIN") {
+    redirect("/dashboard");
+  }
+
+  const params = await searchParams;
+  const tab = TABS.find((candidate) => candidate.key === params.status) ?? TABS[0];
+
+  const [alerts, counts, rules] = await Promise.all([
+    getAlertFeed(tab.statuses),
+    getAlertCounts(),
+    getAlertRules(),
+  ]);
+
+  return (
+    <SidebarProvider
+      style={
+        {
+          "--sidebar-width": "200px",
+          "--header-height": "calc(var(--spacing) * 12)",
+        } as React.CSSProperties
+      }
+    >
+      <AppSidebar variant="inset" user={user} />
+      <SidebarInset>
+        <SiteHeader />
+        <div className="flex flex-1 flex-col gap-4 p-4 md:p-6">
+          <div className="mb-2">
+            <h1 className="text-2xl font-bold tracking-tight">Security Alerts</h1>
+            <p className="text-muted-foreground">
+              {counts.OPEN} open, {counts.ACKNOWLEDGED} acknowledged. Repeat firings are
+              folded into the unresolved alert for the same rule and source.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {TABS.map((candidate) => {
+              const count = candidate.statuses.reduce((total, status) => total + counts[status], 0);
+              return (
+                <Button
+                  key={candidate.key}
+                  asChild
+                  size="sm"
+                  variant={candidate.key === tab.key ? "default" : "outline"}
+                >
+                  <Link href={candidate.key === TABS[0].key ? "/alerts" : `/alerts?status=${candidate.key}`}>
+                    {candidate.label} ({count})
+                  </Link>
+                </Button>
+              );
+            })}
+          </div>
+
+          <AlertFeed alerts={alerts} />
+
+          <AlertRulesCard rules={rules} presets={[...ALERT_RULE_PRESETS]} />
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,258 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { AppSidebar } from "@/components/dashboard/admin-sidebar";
+import { SiteHeader } from "@/components/dashboard/site-header";
+import {
+  AuditLogFilters,
+  type AuditLogFilterValues,
+} from "@/components/dashboard/audit-log-filters";
+import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download } from "@/components/ui/icons";
+import { getCurrentUser } from "@/lib/auth";
+import {
+  AUDIT_EXPORT_MAX_ROWS,
+  getAuditEntityTypes,
+  parseAuditLogFilters,
+  searchAuditLogs,
+} from "@/lib/security/audit-log";
+import type { LogSeverity } from "@/lib/db/schema";
+import { setMetadata } from "@/config/seo";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = setMetadata({
+  title: "Audit Log",
+  description: "Search, trace and export recorded activity",
+});
+
+const SEVERITY_VARIANTS: Record<LogSeverity, "outline" | "secondary" | "default" | "destructive"> = {
+  LOW: "outline",
+  MEDIUM: "secondary",
+  HIGH: "default",
+  CRITICAL: "destructive",
+};
+
+const FILTER_KEYS = ["action", "actor", "entityType", "entityId", "severity", "ip", "from", "to"] as const;
+
+interface AuditLogPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function AuditLogPage({ searchParams }: AuditLogPageProps) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/signin");
+  }
+
+  if (user.userData?.role !== "ADMIN") {
+    redirect("/dashboard");
+  }
+
+  const params = await searchParams;
+  const filters = parseAuditLogFilters(params);
+  // With a single entity selected the page reads as its timeline, oldest first
+  const isTimeline = Boolean(filters.entityType && filters.entityId);
+  const cursor = typeof params.cursor === "string" ? params.cursor : null;
+
+  const [page, entityTypes] = await Promise.all([
+    searchAuditLogs(filters, { cursor, order: isTimeline ? "asc" : "desc" }),
+    getAuditEntityTypes(),
+  ]);
+
+  // Raw query values, so links and the filter form round-trip what was typed
+  const filterValues: AuditLogFilterValues = {};
+  const query = new URLSearchParams();
+  for (const key of FILTER_KEYS) {
+    const value = params[key];
+    if (typeof value === "string" && value) {
+      filterValues[key] = value;
+      query.set(key, value);
+    }
+  }
+
+  const withParams = (extra: Record<string, string>) => {
+    const next = new URLSearchParams(query);
+    Object.entries(extra).forEach(([key, value]) => next.set(key, value));
+    return `/audit?${next}`;
+  };
+  const filterLink = (extra: Record<string, string>) =>
+    `/audit?${new URLSearchParams(extra)}`;
+  const exportHref = (format: "csv" | "ndjson") => {
+    const next = new URLSearchParams(query);
+    next.set("format", format);
+    return `/api/v1/admin/audit-logs/export?${next}`;
+  };
+
+  return (
+    <SidebarProvider
+      style={
+        {
+          "--sidebar-width": "200px",
+          "--header-height": "calc(var(--spacing) * 12)",
+        } as React.CSSProperties
+      }
+    >
+      <AppSidebar variant="inset" user={user} />
+      <SidebarInset>
+        <SiteHeader />
+        <div className="flex flex-1 flex-col gap-4 p-4 md:p-6">
+          <div className="mb-2 flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold tracking-tight">
+                {isTimeline ? "Entity Timeline" : "Audit Log"}
+              </h1>
+              <p className="text-muted-foreground">
+                {isTimeline
+                  ? `Everything recorded for ${filters.entityType} ${filters.entityId}, oldest first`
+                  : "Search recorded activity and export it for compliance requests"}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button asChild variant="outline" size="sm">
+                <a href={exportHref("csv")} download>
+                  <Download className="h-4 w-4" />
+                  CSV
+                </a>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <a href={exportHref("ndjson")} download>
+                  <Download className="h-4 w-4" />
+                  NDJSON
+                </a>
+              </Button>
+            </div>
+          </div>
+
+          <AuditLogFilters
+            key={query.toString()}
+            filters={filterValues}
+            entityTypes={entityTypes}
+          />
+
+          <p className="text-xs text-muted-foreground">
+            Exports include every matching entry, oldest first, up to{" "}
+            {AUDIT_EXPORT_MAX_ROWS.toLocaleString()} rows.
+          </p>
+
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-44">Time</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>IP</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {page.entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                      No log entries match these filters.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  page.entries.map((entry) => (
+                    <TableRow key={entry.id} className="align-top">
+                      <TableCell className="font-mono text-xs whitespace-nowrap">
+                        {entry.createdAt.toISOString().replace("T", " ").slice(0, 19)}
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        <Link href={filterLink({ action: entry.action })} className="hover:underline">
+                          {entry.action}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={SEVERITY_VARIANTS[entry.severity]}>{entry.severity}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {entry.userId ? (
+                          <Link href={filterLink({ actor: entry.userId })} className="hover:underline">
+                            {entry.actorEmail ?? entry.userId}
+                          </Link>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {entry.entityId ? (
+                          <Link
+                            href={filterLink({ entityType: entry.entityType, entityId: entry.entityId })}
+                            className="hover:underline"
+                            title="View timeline"
+                          >
+                            {entry.entityType}
+                            <span className="block font-mono text-muted-foreground">{entry.entityId}</span>
+                          </Link>
+                        ) : (
+                          entry.entityType
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {entry.ipAddress && entry.ipAddress !== "unknown" ? (
+                          <Link href={filterLink({ ip: entry.ipAddress })} className="hover:underline">
+                            {entry.ipAddress}
+                          </Link>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-xs text-xs">
+                        {entry.metadata || entry.userAgent ? (
+                          <details>
+                            <summary className="cursor-pointer text-muted-foreground">Show</summary>
+                            {entry.userAgent && (
+                              <p className="mt-1 break-all text-muted-foreground">{entry.userAgent}</p>
+                            )}
+                            {entry.metadata != null && (
+                              <pre className="mt-1 whitespace-pre-wrap break-all font-mono">
+                                {JSON.stringify(entry.metadata, null, 2)}
+                              </pre>
+                            )}
+                          </details>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center justify-end gap-2">
+            {cursor && (
+              <Button asChild variant="outline" size="sm">
+                <Link href={query.size > 0 ? `/audit?${query}` : "/audit"}>
+                  {isTimeline ? "Back to start" : "Back to newest"}
+                </Link>
+              </Button>
+            )}
+            {page.nextCursor && (
+              <Button asChild variant="outline" size="sm">
+                <Link href={withParams({ cursor: page.nextCursor })}>
+                  {isTimeline ? "Later entries" : "Older entries"}
+                </Link>
+              </Button>
+            )}
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,87 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { AppSidebar } from "@/components/dashboard/admin-sidebar";
+import { SiteHeader } from "@/components/dashboard/site-header";
+import { BlocklistManager } from "@/components/dashboard/blocklist-manager";
+import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { getCurrentUser } from "@/lib/auth";
+import {
+  AUTO_BAN_DURATIONS_MS,
+  AUTO_BAN_THRESHOLD,
+  VIOLATION_WINDOW_MS,
+  getBlocklist,
+} from "@/lib/security/blocklist";
+import { setMetadata } from "@/config/seo";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = setMetadata({
+  title: "Blocklist",
+  description: "Review, extend and lift IP and user bans",
+});
+
+function formatDuration(ms: number): string {
+  const minutes = ms / 60_000;
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${minutes / 60}h`;
+  return `${minutes / (24 * 60)}d`;
+}
+
+interface BlocklistPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function BlocklistPage({ searchParams }: BlocklistPageProps) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/signin");
+  }
+
+  if (user.userData?.role !== "ADMIN") {
+    redirect("/dashboard");
+  }
+
+  const params = await searchParams;
+  const history = params.view === "history";
+  const entries = await getBlocklist({ history });
+
+  return (
+    <SidebarProvider
+      style={
+        {
+          "--sidebar-width": "200px",
+          "--header-height": "calc(var(--spacing) * 12)",
+        } as React.CSSProperties
+      }
+    >
+      <AppSidebar variant="inset" user={user} />
+      <SidebarInset>
+        <SiteHeader />
+        <div className="flex flex-1 flex-col gap-4 p-4 md:p-6">
+          <div className="mb-2">
+            <h1 className="text-2xl font-bold tracking-tight">Blocklist</h1>
+            <p className="text-muted-foreground">
+              Blocked IPs, ranges and users get a 403 before any page or API route runs.{" "}
+              {AUTO_BAN_THRESHOLD} rate-limit or CSRF violations within{" "}
+              {formatDuration(VIOLATION_WINDOW_MS)} ban the offender automatically for{" "}
+              {AUTO_BAN_DURATIONS_MS.map(formatDuration).join(", ")} on repeat offenses.
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button asChild size="sm" variant={history ? "outline" : "default"}>
+              <Link href="/blocklist">Active</Link>
+            </Button>
+            <Button asChild size="sm" variant={history ? "default" : "outline"}>
+              <Link href="/blocklist?view=history">History</Link>
+            </Button>
+          </div>
+
+          <BlocklistManager entries={entries} history={history} />
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
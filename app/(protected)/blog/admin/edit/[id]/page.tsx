@@ -1,6 +1,6 @@
 import { notFound } from "next/navigation";
 import { requireAdmin, getCurrentUser } from "@/lib/auth";
-import { getBlogPostByIdAdmin } from "@/lib/blog-query";
+import { getAllBlogSeries, getBlogPostByIdAdmin } from "@/lib/blog-query";
 import { AppSidebar } from "@/components/dashboard/admin-sidebar";
 import { SiteHeader } from "@/components/dashboard/site-header";
 import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
@@ -15,7 +15,7 @@ export default async function EditBlogPostPage({ params }: { params: Promise<{ i
   await requireAdmin();
   const currentUser = await getCurrentUser();
   const { id } = await params;
-  const post = await getBlogPostByIdAdmin(id);
+  const [post, seriesOptions] = await Promise.all([getBlogPostByIdAdmin(id), getAllBlogSeries()]);
   if (!post) notFound();
 
   return (
@@ -37,6 +37,7 @@ export default async function EditBlogPostPage({ params }: { params: Promise<{ i
           </div>
           <BlogPostForm
             mode="edit"
+            seriesOptions={seriesOptions}
             post={{
               id: post.id,
               title: post.title,
@@ -45,6 +46,10 @@ export default async function EditBlogPostPage({ params }: { params: Promise<{ i
               content: post.content,
               featuredImageUrl: post.featuredImageUrl ?? "",
               status: post.status,
+              publishedAt: post.publishedAt?.toISOString() ?? "",
+              tags: post.tags.map((t) => t.name),
+              series: post.seriesTitle ?? "",
+              seriesOrder: post.seriesOrder?.toString() ?? "",
             }}
           />
         </div>
@@ -25,11 +25,12 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
-import { ArrowLeft, Upload, FileJson, CheckCircle2, AlertCircle, Loader2, X, ClipboardCopy } from "@/components/ui/icons";
+import { ArrowLeft, Upload, FileJson, FileText, CheckCircle2, AlertCircle, Loader2, X, ClipboardCopy } from "@/components/ui/icons";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/use-auth";
 import { useCSRFForm } from "@/hooks/use-csrf";
 import { blogBulkImportItemSchema, type BlogBulkImportItem } from "@/lib/schemas";
+import { isBlogMarkdownFile, parseBlogMarkdownFile } from "@/lib/blog-markdown";
 import { bulkImportBlogPostsAction, type BlogBulkImportResult } from "@/actions";
 
 interface ParsedItem {
@@ -37,6 +38,8 @@ interface ParsedItem {
   raw: unknown;
   data?: BlogBulkImportItem;
   errors: string[];
+  /** File the item was read from (Markdown imports) */
+  source?: string;
 }
 
 type Stage = "input" | "preview" | "importing" | "done";
@@ -55,9 +58,29 @@ const PLACEHOLDER = `[
   }
 ]`;
 
+function validateItem(raw: unknown, index: number, source?: string): ParsedItem {
+  const result = blogBulkImportItemSchema.safeParse(raw);
+  if (!result.success) {
+    return { index, raw, source, errors: result.error.errors.map((e) => `${e.path.join(".") || "root"}: ${e.message}`) };
+  }
+  return { index, raw, source, data: result.data, errors: [] };
+}
+
+function parseMarkdownItem(text: string, filename: string, index: number): ParsedItem {
+  try {
+    return validateItem(parseBlogMarkdownFile(text, filename), index, filename);
+  } catch (err) {
+    return { index, raw: { title: filename }, source: filename, errors: [err instanceof Error ? err.message : "Invalid Markdown file"] };
+  }
+}
+
 function parseItems(text: string): { items: ParsedItem[]; parseError: string | null } {
   const trimmed = text.trim();
   if (!trimmed) return { items: [], parseError: null };
+  // Pasted Markdown (frontmatter or a leading heading) is a single article
+  if (trimmed.startsWith("---") || trimmed.startsWith("#")) {
+    return { items: [parseMarkdownItem(trimmed, "pasted.md", 0)], parseError: null };
+  }
   let json: unknown;
   try { json = JSON.parse(trimmed); } catch {
     return { items: [], parseError: "Invalid JSON — check for missing quotes, commas, or brackets." };
@@ -65,16 +88,7 @@ function parseItems(text: string): { items: ParsedItem[]; parseError: string | n
   if (!Array.isArray(json)) {
     return { items: [], parseError: "Expected a JSON array (starting with [ and ending with ])." };
   }
-  return {
-    items: json.map((raw, index) => {
-      const result = blogBulkImportItemSchema.safeParse(raw);
-      if (!result.success) {
-        return { index, raw, errors: result.error.errors.map((e) => `${e.path.join(".") || "root"}: ${e.message}`) };
-      }
-      return { index, raw, data: result.data, errors: [] };
-    }),
-    parseError: null,
-  };
+  return { items: json.map((raw, index) => validateItem(raw, index)), parseError: null };
 }
 
 export default function BlogImportPage() {
@@ -100,13 +114,27 @@ export default function BlogImportPage() {
     setItems(parsed);
   }
 
-  function handleFileRead(file: File) {
-    if (!file.name.endsWith(".json") && file.type !== "application/json") {
-      setParseError("Only .json files are accepted."); return;
+  async function handleFiles(fileList: FileList) {
+    const files = Array.from(fileList);
+    if (files.length === 0) return;
+
+    // Markdown: one article per file, frontmatter mapped onto the import fields
+    if (files.every((f) => isBlogMarkdownFile(f.name))) {
+      if (files.length > 50) { setParseError("Maximum 50 articles per import."); return; }
+      const texts = await Promise.all(files.map((f) => f.text()));
+      setRaw("");
+      setParseError(null);
+      setItems(files.map((f, index) => parseMarkdownItem(texts[index] ?? "", f.name, index)));
+      return;
+    }
+
+    const [file] = files;
+    if (files.length > 1 || (!file.name.endsWith(".json") && file.type !== "application/json")) {
+      setParseError("Drop a single .json file, or one or more .md/.mdx files."); return;
     }
-    const reader = new FileReader();
-    reader.onload = (e) => { const text = e.target?.result as string; setRaw(text); handleParse(text); };
-    reader.readAsText(file);
+    const text = await file.text();
+    setRaw(text);
+    handleParse(text);
   }
 
   function handleClear() { setRaw(""); setItems([]); setParseError(null); if (fileInputRef.current) fileInputRef.current.value = ""; }
@@ -163,9 +191,15 @@ export default function BlogImportPage() {
             <>
               <Card>
                 <CardHeader>
-                  <CardTitle className="flex items-center gap-2"><FileJson className="h-5 w-5" />JSON Input</CardTitle>
+                  <CardTitle className="flex items-center gap-2"><FileJson className="h-5 w-5" />Articles</CardTitle>
                   <CardDescription>
-                    Paste a JSON array or drop a <code className="text-xs">.json</code> file. Each item needs at minimum <code className="text-xs">title</code> and <code className="text-xs">content</code> (HTML string). Maximum 50 articles per import. All articles are created as <strong>drafts</strong> unless <code className="text-xs">status: "PUBLISHED"</code> is set.
+                    Paste a JSON array or drop a <code className="text-xs">.json</code> file. Each item needs at minimum <code className="text-xs">title</code> and <code className="text-xs">content</code> (HTML string). Maximum 50 articles per import. All articles are created as <strong>drafts</strong> unless <code className="text-xs">status: &quot;PUBLISHED&quot;</code> is set.
+                  </CardDescription>
+                  <CardDescription className="flex items-start gap-2">
+                    <FileText className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      Or drop <code className="text-xs">.md</code>/<code className="text-xs">.mdx</code> files — one article each, as written by <strong>Export Markdown</strong>. Frontmatter sets <code className="text-xs">title</code>, <code className="text-xs">slug</code>, <code className="text-xs">excerpt</code>, <code className="text-xs">featuredImageUrl</code>, <code className="text-xs">status</code>, <code className="text-xs">publishedAt</code>, <code className="text-xs">tags</code> and <code className="text-xs">series</code>; without a title the first <code className="text-xs"># heading</code> is used.
+                    </span>
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-3">
@@ -173,7 +207,7 @@ export default function BlogImportPage() {
                     className={cn("relative rounded-lg border-2 border-dashed transition-colors", isDragging ? "border-primary bg-primary/5" : "border-muted-foreground/25 hover:border-muted-foreground/40")}
                     onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
                     onDragLeave={() => setIsDragging(false)}
-                    onDrop={(e) => { e.preventDefault(); setIsDragging(false); const f = e.dataTransfer.files[0]; if (f) handleFileRead(f); }}
+                    onDrop={(e) => { e.preventDefault(); setIsDragging(false); void handleFiles(e.dataTransfer.files); }}
                   >
                     <Textarea
                       value={raw}
@@ -185,7 +219,7 @@ export default function BlogImportPage() {
                     />
                   </div>
                   <div className="flex items-center gap-2">
-                    <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) handleFileRead(f); }} />
+                    <input ref={fileInputRef} type="file" multiple accept=".json,application/json,.md,.mdx,.markdown,text/markdown" className="hidden" onChange={(e) => { if (e.target.files) void handleFiles(e.target.files); }} />
                     <Button type="button" variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()}>
                       <Upload className="mr-2 h-4 w-4" />Browse file…
                     </Button>
@@ -241,7 +275,10 @@ export default function BlogImportPage() {
                         {items.map((item) => (
                           <TableRow key={item.index} className={cn(item.errors.length > 0 && "bg-destructive/5")}>
                             <TableCell className="text-muted-foreground text-xs">{item.index + 1}</TableCell>
-                            <TableCell className="font-medium max-w-[280px] truncate">{item.data?.title ?? String((item.raw as Record<string, unknown>)?.title ?? "—")}</TableCell>
+                            <TableCell className="font-medium max-w-[280px]">
+                              <div className="truncate">{item.data?.title ?? String((item.raw as Record<string, unknown>)?.title ?? "—")}</div>
+                              {item.source && <div className="text-xs text-muted-foreground font-mono font-normal truncate">{item.source}</div>}
+                            </TableCell>
                             <TableCell><Badge variant={item.data?.status === "PUBLISHED" ? "default" : "secondary"} className="text-xs">{item.data?.status ?? "—"}</Badge></TableCell>
                             <TableCell className="text-xs text-muted-foreground">{item.data ? `${item.data.content.length.toLocaleString()} chars` : "—"}</TableCell>
                             <TableCell>
@@ -6,12 +6,14 @@ import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
 import Link from "next/link";
 import { BlogPostForm } from "@/components/blog/blog-post-form";
+import { getAllBlogSeries } from "@/lib/blog-query";
 
 export const dynamic = "force-dynamic";
 
 export default async function NewBlogPostPage() {
   await requireAdmin();
   const currentUser = await getCurrentUser();
+  const seriesOptions = await getAllBlogSeries();
 
   return (
     <SidebarProvider
@@ -30,7 +32,7 @@ export default async function NewBlogPostPage() {
             </Link>
             <h1 className="text-xl font-semibold">New Article</h1>
           </div>
-          <BlogPostForm mode="create" />
+          <BlogPostForm mode="create" seriesOptions={seriesOptions} />
         </div>
       </SidebarInset>
     </SidebarProvider>
@@ -45,6 +45,9 @@ export default async function AdminBlogPage() {
               <p className="text-sm text-muted-foreground">{pagination.totalCount} total articles</p>
             </div>
             <div className="flex gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href="/api/v1/admin/blog/export" download>Export Markdown</a>
+              </Button>
               <Link href="/blog/admin/import">
                 <Button variant="outline" size="sm">Import</Button>
               </Link>
@@ -57,7 +60,7 @@ export default async function AdminBlogPage() {
           <Card>
             <CardHeader>
               <CardTitle>All Articles</CardTitle>
-              <CardDescription>Manage your blog articles — draft and published.</CardDescription>
+              <CardDescription>Manage your blog articles — draft, scheduled and published.</CardDescription>
             </CardHeader>
             <CardContent>
               {posts.length === 0 ? (
@@ -87,15 +90,17 @@ export default async function AdminBlogPage() {
                           <div className="text-xs text-muted-foreground font-mono truncate">/blog/{post.slug}</div>
                         </TableCell>
                         <TableCell>
-                          <Badge variant={post.status === "PUBLISHED" ? "default" : "secondary"}>
-                            {post.status === "PUBLISHED" ? "Published" : "Draft"}
+                          <Badge variant={post.status === "PUBLISHED" ? "default" : post.status === "SCHEDULED" ? "outline" : "secondary"}>
+                            {post.status === "PUBLISHED" ? "Published" : post.status === "SCHEDULED" ? "Scheduled" : "Draft"}
                           </Badge>
                         </TableCell>
                         <TableCell className="text-muted-foreground text-sm">
                           {post.readingTime ? `${post.readingTime} min` : "—"}
                         </TableCell>
                         <TableCell className="text-muted-foreground text-sm">
-                          {post.publishedAt ? new Date(post.publishedAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }) : "—"}
+                          {post.status === "SCHEDULED" && post.publishedAt
+                            ? new Date(post.publishedAt).toLocaleString("en-US", { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" })
+                            : post.publishedAt ? new Date(post.publishedAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }) : "—"}
                         </TableCell>
                         <TableCell className="text-muted-foreground text-sm">
                           {new Date(post.updatedAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
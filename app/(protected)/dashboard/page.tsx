@@ -1,5 +1,5 @@
 import { AppSidebar } from "@/components/dashboard/admin-sidebar";
-// import { ChartAreaInteractive } from "@/components/dashboard/user-chart";
+import { ChartAreaInteractive } from "@/components/dashboard/user-chart";
 import {
   SectionCards,
   // EngagementCards,
@@ -205,7 +205,7 @@ export default async function DashboardPage() {
                       />
                     </div> */}
 
-                    {/* <ChartAreaInteractive /> */}
+                    <ChartAreaInteractive />
                   </TabsContent>
 
                   <TabsContent value="security" className="space-y-6">
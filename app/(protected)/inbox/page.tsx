@@ -0,0 +1,210 @@
+import { Suspense } from "react";
+import Link from "next/link";
+import { Metadata } from "next";
+import { requireAuth } from "@/lib/auth";
+import { getModerationInbox, type ModerationInboxItem } from "@/lib/moderation";
+import { AppSidebar } from "@/components/dashboard/admin-sidebar";
+import { SiteHeader } from "@/components/dashboard/site-header";
+import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  IconCircleCheckFilled,
+  IconInbox,
+  IconX,
+  MessageSquare,
+} from "@/components/ui/icons";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Moderation Inbox",
+  description: "Review decisions and notes on your submissions",
+};
+
+const PAGE_SIZE = 20;
+
+interface InboxPageProps {
+  searchParams: Promise<{ page?: string }>;
+}
+
+function DecisionBadge({ decision }: { decision: ModerationInboxItem["decision"] }) {
+  if (decision === "APPROVED") {
+    return (
+      <Badge
+        variant="outline"
+        className="text-xs border-green-500 text-green-700 dark:text-green-400"
+      >
+        <IconCircleCheckFilled className="mr-1 h-3 w-3 fill-green-500 dark:fill-green-400" />
+        Approved
+      </Badge>
+    );
+  }
+  if (decision === "CHANGES_REQUESTED") {
+    return (
+      <Badge
+        variant="outline"
+        className="text-xs border-orange-500 text-orange-700 dark:text-orange-400"
+      >
+        <MessageSquare className="mr-1 h-3 w-3" />
+        Changes Requested
+      </Badge>
+    );
+  }
+  return (
+    <Badge
+      variant="outline"
+      className="text-xs border-red-500/50 text-red-700/50 dark:border-red-400/50 dark:text-red-200"
+    >
+      <IconX className="mr-1 h-3 w-3" />
+      Rejected
+    </Badge>
+  );
+}
+
+async function InboxContent({
+  userId,
+  page,
+}: {
+  userId: string;
+  page: number;
+}) {
+  const { items, totalCount } = await getModerationInbox(userId, {
+    page,
+    limit: PAGE_SIZE,
+  });
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  if (items.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-8">
+          <IconInbox className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Nothing Here Yet</h3>
+          <p className="text-muted-foreground text-center">
+            When an admin reviews one of your submissions, their decision and
+            notes will show up here.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {items.map((item) => {
+        // Authors can only act on posts that are still waiting on them
+        const canResubmit =
+          item.decision === "CHANGES_REQUESTED" &&
+          item.post.status === "CHANGES_REQUESTED";
+
+        return (
+          <Card key={item.id}>
+            <CardHeader className="pb-2">
+              <div className="flex items-start justify-between gap-4">
+                <CardTitle className="text-base line-clamp-1">
+                  {item.post.title}
+                </CardTitle>
+                <DecisionBadge decision={item.decision} />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {item.reviewer?.name ? `Reviewed by ${item.reviewer.name}` : "Reviewed"}{" "}
+                · {new Date(item.createdAt).toLocaleString()}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {item.note ? (
+                <p className="text-sm whitespace-pre-wrap break-words rounded-md border bg-muted/30 p-3">
+                  {item.note}
+                </p>
+              ) : (
+                <p className="text-sm text-muted-foreground">No reviewer note.</p>
+              )}
+              {canResubmit && (
+                <Button asChild size="sm">
+                  <Link href={`/posts/edit/${item.post.id}`}>
+                    Edit &amp; resubmit
+                  </Link>
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Page {page} of {totalPages}
+          </p>
+          <div className="flex gap-2">
+            {page > 1 && (
+              <Button asChild variant="outline" size="sm">
+                <Link href={`/inbox?page=${page - 1}`}>Previous</Link>
+              </Button>
+            )}
+            {page < totalPages && (
+              <Button asChild variant="outline" size="sm">
+                <Link href={`/inbox?page=${page + 1}`}>Next</Link>
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function InboxLoading() {
+  return (
+    <div className="space-y-4">
+      {Array.from({ length: 3 }).map((_, i) => (
+        <Card key={i}>
+          <CardHeader>
+            <Skeleton className="h-5 w-64" />
+            <Skeleton className="h-3 w-40" />
+          </CardHeader>
+          <CardContent>
+            <Skeleton className="h-12 w-full" />
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+export default async function InboxPage({ searchParams }: InboxPageProps) {
+  const user = await requireAuth();
+  const params = await searchParams;
+  const page = Math.max(1, parseInt(params.page || "1", 10) || 1);
+
+  return (
+    <SidebarProvider
+      style={
+        {
+          "--sidebar-width": "200px",
+          "--header-height": "calc(var(--spacing) * 12)",
+        } as React.CSSProperties
+      }
+    >
+      <AppSidebar variant="inset" user={user} />
+      <SidebarInset>
+        <SiteHeader />
+        <div className="flex flex-1 flex-col gap-4 p-6 lg:p-6">
+          <div className="space-y-6">
+            <p className="text-muted-foreground">
+              Moderation decisions on your submissions.
+            </p>
+            {user.userData?.id && (
+              <Suspense fallback={<InboxLoading />}>
+                <InboxContent userId={user.userData.id} page={page} />
+              </Suspense>
+            )}
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
@@ -25,7 +25,13 @@ import { useAuth } from "@/hooks/use-auth";
 import { useCSRFForm } from "@/hooks/use-csrf";
 import { updatePostAction } from "@/actions";
 import { TurnstileWidget } from "@/components/turnstile-widget";
+import { ImageUploadField } from "@/components/image-upload-field";
+import { PublishAtField } from "@/components/publish-at-field";
+import { PostRevisionHistory } from "@/components/dashboard/post-revision-history";
+import { PostAnalyticsPanel } from "@/components/dashboard/post-analytics-panel";
 import { toast } from "sonner";
+import type { PostKind } from "@/lib/db/schema";
+import { POST_KINDS, POST_KIND_LABELS } from "@/lib/post-kinds";
 
 // Force dynamic rendering for this page
 export const dynamic = "force-dynamic";
@@ -53,9 +59,13 @@ interface Post {
   title: string;
   slug: string;
   description?: string;
+  previewImageUrl: string | null;
   content: string;
+  kind: PostKind;
   isPublished: boolean;
   isPremium: boolean;
+  status: string;
+  publishAt: string | null;
   category: {
     id: string;
     name: string;
@@ -85,7 +95,10 @@ export default function EditPostPage() {
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [pendingTags, setPendingTags] = useState<string[]>([]);
   const [maxTagsPerPost, setMaxTagsPerPost] = useState<number>(15);
+  const [requireApproval, setRequireApproval] = useState<boolean>(true);
   const [turnstileToken, setTurnstileToken] = useState<string | null>(null);
+  const [previewImageUrl, setPreviewImageUrl] = useState("");
+  const [publishAt, setPublishAt] = useState("");
 
   // Redirect if not authenticated or not authorized
   useEffect(() => {
@@ -144,6 +157,8 @@ export default function EditPostPage() {
         setPost(postData);
         setCategories(categoriesData);
         setSelectedTags(postData.tags.map((tag: Tag) => tag.name));
+        setPreviewImageUrl(postData.previewImageUrl ?? "");
+        setPublishAt(postData.status === "SCHEDULED" ? postData.publishAt ?? "" : "");
 
         // Set the selected category (parent category if current is child, or current if parent)
         setSelectedCategory(
@@ -175,6 +190,9 @@ export default function EditPostPage() {
           if (typeof data.maxTagsPerPost === "number") {
             setMaxTagsPerPost(data.maxTagsPerPost);
           }
+          if (typeof data.requireApproval === "boolean") {
+            setRequireApproval(data.requireApproval);
+          }
         }
       } catch (err) {
         console.error("Failed to fetch content config", err);
@@ -387,6 +405,10 @@ export default function EditPostPage() {
   const parentCategories = categories.filter((cat) => !cat.parent);
   const currentParentCategory =
     post.category.parent?.slug || post.category.slug;
+  const isAdmin = user.userData?.role === "ADMIN";
+  // Mirrors the server-side edit rules in restorePostRevisionAction
+  const canRestore =
+    isAdmin || (post.status !== "APPROVED" && post.status !== "REJECTED");
 
   return (
     <SidebarProvider
@@ -480,6 +502,18 @@ export default function EditPostPage() {
                     disabled={isSubmitting}
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="previewImageUrl">Preview image</Label>
+                  <ImageUploadField
+                    id="previewImageUrl"
+                    name="previewImageUrl"
+                    value={previewImageUrl}
+                    onChange={setPreviewImageUrl}
+                    purpose="POST_PREVIEW"
+                    disabled={isSubmitting}
+                  />
+                </div>
               </CardContent>
             </Card>
 
@@ -489,6 +523,26 @@ export default function EditPostPage() {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="flex gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="kind">Kind *</Label>
+                    <Select
+                      name="kind"
+                      defaultValue={post.kind}
+                      disabled={isSubmitting}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select kind" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {POST_KINDS.map((kind) => (
+                          <SelectItem key={kind} value={kind}>
+                            {POST_KIND_LABELS[kind]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   <div className="space-y-2">
                     <Label htmlFor="category">Category *</Label>
                     <Select
@@ -570,6 +624,21 @@ export default function EditPostPage() {
                       />
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="publishAt">Publish at</Label>
+                      <PublishAtField
+                        id="publishAt"
+                        name="publishAt"
+                        value={publishAt}
+                        onChange={setPublishAt}
+                        disabled={isSubmitting}
+                      />
+                      <p className="text-sm text-muted-foreground">
+                        Schedule the post to go live later. Leave empty to use
+                        the Published switch.
+                      </p>
+                    </div>
+
                   </>
                 ) : (
                   <div className="space-y-4">
@@ -646,6 +715,15 @@ export default function EditPostPage() {
               </Button>
             </div>
           </form>
+
+          <PostRevisionHistory
+            postId={post.id}
+            canRestore={canRestore}
+            restoreRequiresApproval={!isAdmin && requireApproval}
+            onRestored={() => window.location.reload()}
+          />
+
+          <PostAnalyticsPanel postId={post.id} />
         </div>
       </SidebarInset>
     </SidebarProvider>
@@ -27,7 +27,11 @@ import { createPostAction } from "@/actions";
 import { useAuth } from "@/hooks/use-auth";
 import { useCSRFForm } from "@/hooks/use-csrf";
 import { TurnstileWidget } from "@/components/turnstile-widget";
+import { ImageUploadField } from "@/components/image-upload-field";
+import { PublishAtField } from "@/components/publish-at-field";
 import type { PostImportData } from "@/lib/schemas";
+import type { PostKind } from "@/lib/db/schema";
+import { POST_KINDS, POST_KIND_LABELS } from "@/lib/post-kinds";
 
 interface Category {
   id: string;
@@ -50,6 +54,9 @@ export default function NewPostPage() {
   const [postSlug, setPostSlug] = useState("");
   const [postContent, setPostContent] = useState("");
   const [postDescription, setPostDescription] = useState("");
+  const [postPreviewImageUrl, setPostPreviewImageUrl] = useState("");
+  const [postPublishAt, setPostPublishAt] = useState("");
+  const [postKind, setPostKind] = useState<PostKind>("PROMPT");
   const [selectedCategory, setSelectedCategory] = useState("");
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [pendingTags, setPendingTags] = useState<string[]>([]);
@@ -266,6 +273,7 @@ export default function NewPostPage() {
     setPostTitle(data.title);
     setPostContent(data.content);
     setPostDescription(data.description ?? "");
+    setPostKind(data.kind);
 
     const slug =
       data.slug ||
@@ -425,6 +433,18 @@ export default function NewPostPage() {
                     disabled={isSubmitting}
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="previewImageUrl">Preview image</Label>
+                  <ImageUploadField
+                    id="previewImageUrl"
+                    name="previewImageUrl"
+                    value={postPreviewImageUrl}
+                    onChange={setPostPreviewImageUrl}
+                    purpose="POST_PREVIEW"
+                    disabled={isSubmitting}
+                  />
+                </div>
               </CardContent>
             </Card>
 
@@ -434,6 +454,27 @@ export default function NewPostPage() {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="flex gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="kind">Kind *</Label>
+                    <Select
+                      name="kind"
+                      value={postKind}
+                      disabled={isSubmitting}
+                      onValueChange={(value) => setPostKind(value as PostKind)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select kind" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {POST_KINDS.map((kind) => (
+                          <SelectItem key={kind} value={kind}>
+                            {POST_KIND_LABELS[kind]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   <div className="space-y-2">
                     <Label htmlFor="category">Category *</Label>
                     <Select
@@ -511,6 +552,21 @@ export default function NewPostPage() {
                       />
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="publishAt">Publish at</Label>
+                      <PublishAtField
+                        id="publishAt"
+                        name="publishAt"
+                        value={postPublishAt}
+                        onChange={setPostPublishAt}
+                        disabled={isSubmitting}
+                      />
+                      <p className="text-sm text-muted-foreground">
+                        Schedule the post to go live later. Leave empty to use
+                        the Published switch.
+                      </p>
+                    </div>
+
                   </>
                 ) : (
                   <div className="space-y-4">
@@ -46,6 +46,8 @@ import {
   IconLoader,
   IconX,
   IconFileText,
+  MessageSquare,
+  CalendarClock,
 } from "@/components/ui/icons";
 
 // Enable caching for better performance
@@ -226,7 +228,13 @@ async function PostsManagementContent({
 
     const statusFilter =
       filters.status && filters.status !== "all"
-        ? (filters.status as "published" | "pending" | "draft" | "rejected")
+        ? (filters.status as
+            | "published"
+            | "pending"
+            | "draft"
+            | "rejected"
+            | "changes_requested"
+            | "scheduled")
         : undefined;
 
     let sortBy: "latest" | "popular" | "trending" = "latest";
@@ -316,9 +324,18 @@ async function PostsManagementContent({
                   return (
                     <TableRow key={post.id}>
                       <TableCell>
-                        <div className="w-12 h-12 flex items-center justify-center bg-muted rounded-md border border-muted text-xs text-muted-foreground">
-                          <IconFileText className="h-6 w-6 opacity-20" />
-                        </div>
+                        {post.previewImageUrl ? (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img
+                            src={post.previewImageUrl}
+                            alt=""
+                            className="w-12 h-12 rounded-md border border-muted object-cover"
+                          />
+                        ) : (
+                          <div className="w-12 h-12 flex items-center justify-center bg-muted rounded-md border border-muted text-xs text-muted-foreground">
+                            <IconFileText className="h-6 w-6 opacity-20" />
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div>
@@ -359,6 +376,29 @@ async function PostsManagementContent({
                               <IconLoader className="mr-1 h-3 w-3 fill-yellow-500 dark:fill-yellow-400" />
                               Pending Review
                             </Badge>
+                          ) : post.status === "CHANGES_REQUESTED" ? (
+                            <Badge
+                              variant="outline"
+                              className="text-xs border-orange-500 text-orange-700 dark:text-orange-400"
+                            >
+                              <MessageSquare className="mr-1 h-3 w-3" />
+                              Changes Requested
+                            </Badge>
+                          ) : post.status === "SCHEDULED" && post.publishAt ? (
+                            <Badge
+                              variant="outline"
+                              className="text-xs border-blue-500 text-blue-700 dark:text-blue-400"
+                              title={new Date(post.publishAt).toISOString()}
+                            >
+                              <CalendarClock className="mr-1 h-3 w-3" />
+                              Scheduled{" "}
+                              {new Date(post.publishAt).toLocaleString("en-US", {
+                                month: "short",
+                                day: "numeric",
+                                hour: "numeric",
+                                minute: "2-digit",
+                              })}
+                            </Badge>
                           ) : post.status === "REJECTED" ? (
                             <Badge
                               variant="outline"
@@ -1,9 +1,13 @@
 import { Suspense } from "react";
-import { requireAdmin } from "@/lib/auth";
+import { requireAuth } from "@/lib/auth";
 import { AppSidebar } from "@/components/dashboard/admin-sidebar";
 import { SiteHeader } from "@/components/dashboard/site-header";
 import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
 import { SettingsForm } from "@/components/dashboard/settings-form";
+import { NotificationPreferencesForm } from "@/components/dashboard/notification-preferences-form";
+import { EmailPreferencesForm } from "@/components/dashboard/email-preferences-form";
+import type { NotificationPreferences } from "@/lib/notification-types";
+import type { EmailPreferences } from "@/lib/mail-categories";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Settings } from "@/components/ui/icons";
@@ -44,7 +48,15 @@ function SettingsLoading() {
   );
 }
 
-async function SettingsContent() {
+async function SettingsContent({
+  isAdmin,
+  notificationPreferences,
+  emailPreferences,
+}: {
+  isAdmin: boolean;
+  notificationPreferences: NotificationPreferences;
+  emailPreferences: EmailPreferences;
+}) {
   return (
     <div className="space-y-6">
       <div className="space-y-2">
@@ -53,18 +65,21 @@ async function SettingsContent() {
           <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
         </div>
         <p className="text-muted-foreground">
-          Configure your application settings, storage options, and system
-          preferences.
+          {isAdmin
+            ? "Configure your notifications, email, application settings, storage options, and system preferences."
+            : "Choose which notifications and emails you receive."}
         </p>
       </div>
 
-      <SettingsForm />
+      <NotificationPreferencesForm preferences={notificationPreferences} />
+      <EmailPreferencesForm preferences={emailPreferences} isAdmin={isAdmin} />
+      {isAdmin && <SettingsForm />}
     </div>
   );
 }
 
 export default async function SettingsPage() {
-  const user = await requireAdmin();
+  const user = await requireAuth();
 
   return (
     <SidebarProvider
@@ -80,7 +95,11 @@ export default async function SettingsPage() {
         <SiteHeader />
         <div className="flex flex-1 flex-col gap-4 p-6 lg:p-6">
           <Suspense fallback={<SettingsLoading />}>
-            <SettingsContent />
+            <SettingsContent
+              isAdmin={user.userData?.role === "ADMIN"}
+              notificationPreferences={user.userData?.notificationPreferences ?? {}}
+              emailPreferences={user.userData?.emailPreferences ?? {}}
+            />
           </Suspense>
         </div>
       </SidebarInset>
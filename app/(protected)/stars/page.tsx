@@ -1,15 +1,19 @@
 import { Suspense } from "react";
 import { requireAuth } from "@/lib/auth";
 import { getUserStarsAction } from "@/actions";
+import { getStarredCollections, getUserCollections } from "@/lib/collections";
 import { PostMasonryGrid } from "@/components/post-masonry-grid";
 import { PostMasonrySkeleton } from "@/components/post-masonry-skeleton";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { IconStar } from "@/components/ui/icons";
+import { Button } from "@/components/ui/button";
+import { IconStar, Lock, Plus } from "@/components/ui/icons";
+import { CollectionFormDialog } from "@/components/collections/collection-form-dialog";
 import { AppSidebar } from "@/components/dashboard/admin-sidebar";
 import { SiteHeader } from "@/components/dashboard/site-header";
 import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
 import { Metadata } from "next";
+import Link from "next/link";
 
 export const revalidate = 30;
 
@@ -81,6 +85,84 @@ async function StarsContent() {
   );
 }
 
+type CollectionListItem = Awaited<ReturnType<typeof getUserCollections>>[number] & {
+  ownerName?: string | null;
+};
+
+function CollectionList({ items }: { items: CollectionListItem[] }) {
+  return (
+    <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+      {items.map((collection) => (
+        <Link key={collection.id} href={`/collections/${collection.slug}`}>
+          <Card className="h-full transition-colors hover:bg-muted/50">
+            <CardContent className="space-y-1 p-4">
+              <div className="flex items-center gap-2">
+                <h3 className="flex-1 truncate font-medium">{collection.title}</h3>
+                {!collection.isPublic && (
+                  <Lock className="h-3 w-3 text-muted-foreground" aria-label="Private" />
+                )}
+              </div>
+              {collection.description && (
+                <p className="line-clamp-2 text-sm text-muted-foreground">
+                  {collection.description}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {collection.ownerName ? `${collection.ownerName} · ` : ""}
+                {collection.postCount} {collection.postCount === 1 ? "post" : "posts"} ·{" "}
+                {collection.starCount} {collection.starCount === 1 ? "star" : "stars"}
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+async function CollectionsContent() {
+  const user = await requireAuth();
+  const userId = user.userData?.id;
+  if (!userId) return null;
+
+  const [own, starred] = await Promise.all([
+    getUserCollections(userId),
+    getStarredCollections(userId),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Your collections</h2>
+          <CollectionFormDialog
+            trigger={
+              <Button variant="outline" size="sm">
+                <Plus className="h-4 w-4" />
+                New collection
+              </Button>
+            }
+          />
+        </div>
+        {own.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Group posts into ordered bundles you can share and download in one go.
+          </p>
+        ) : (
+          <CollectionList items={own} />
+        )}
+      </div>
+
+      {starred.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold">Starred collections</h2>
+          <CollectionList items={starred} />
+        </div>
+      )}
+    </div>
+  );
+}
+
 function StarsLoading() {
   return (
     <div className="space-y-6">
@@ -115,6 +197,9 @@ export default async function StarsPage() {
             <p className="text-muted-foreground">
               Posts you&apos;ve starred for later.
             </p>
+            <Suspense fallback={<div className="h-24 bg-muted rounded animate-pulse" />}>
+              <CollectionsContent />
+            </Suspense>
             <Suspense fallback={<StarsLoading />}>
               <StarsContent />
             </Suspense>
@@ -1,5 +1,5 @@
 import { NextRequest } from "next/server";
-import { getBlogPostForSitemap } from "@/lib/blog-query";
+import { getBlogPostForSitemap, getBlogTags } from "@/lib/blog-query";
 
 function getChangeFreq(updatedAt: Date): string {
   const days = (Date.now() - updatedAt.getTime()) / (1000 * 60 * 60 * 24);
@@ -15,7 +15,7 @@ export async function GET(request: NextRequest) {
   const baseUrl  = `${protocol}://${host}`;
 
   try {
-    const posts = await getBlogPostForSitemap();
+    const [posts, blogTags] = await Promise.all([getBlogPostForSitemap(), getBlogTags()]);
 
     const sitemap = `<?xml version="1.0" encoding="UTF-8"?>
 <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
@@ -25,6 +25,11 @@ ${posts.map((p) => `  <url>
     <changefreq>${getChangeFreq(p.updatedAt)}</changefreq>
     <priority>0.8</priority>
   </url>`).join("\n")}
+${blogTags.map((t) => `  <url>
+    <loc>${baseUrl}/blog/tag/${t.slug}</loc>
+    <changefreq>weekly</changefreq>
+    <priority>0.5</priority>
+  </url>`).join("\n")}
 </urlset>`;
 
     return new Response(sitemap, {
@@ -1,155 +1,63 @@
-import { ImageResponse } from "next/og";
 import { NextRequest } from "next/server";
+import { Queries } from "@/lib/query";
+import { getBlogPostBySlug } from "@/lib/blog-query";
+import { getCategoryForOg, getTagForOg } from "@/lib/content";
+import {
+  blogOgCard,
+  categoryOgCard,
+  postOgCard,
+  renderOgImage,
+  siteOgCard,
+  tagOgCard,
+  type OgCardData,
+} from "@/lib/og-image";
 
-export const runtime = "edge";
+const DEFAULT_TITLE = "Promptexify — Cursor Rules, MCP & Claude Code Prompts";
+const DEFAULT_DESCRIPTION =
+  "The largest directory of Cursor rules, MCP configs, Claude Code skills, and AI coding prompts.";
+
+// ?type=post&id=… | blog&slug=… | category&slug=… | tag&slug=…; anything else
+// (or an unknown id/slug) renders the generic card from ?title and ?description
+async function resolveCard(searchParams: URLSearchParams): Promise<OgCardData | null> {
+  const type = searchParams.get("type");
+  const id = searchParams.get("id");
+  const slug = searchParams.get("slug");
+
+  switch (type) {
+    case "post": {
+      const post = id ? await Queries.posts.getById(id) : null;
+      return post?.isPublished ? postOgCard(post) : null;
+    }
+    case "blog": {
+      const article = slug ? await getBlogPostBySlug(slug) : null;
+      return article ? blogOgCard(article) : null;
+    }
+    case "category": {
+      const category = slug ? await getCategoryForOg(slug) : null;
+      return category ? categoryOgCard(category) : null;
+    }
+    case "tag": {
+      const tag = slug ? await getTagForOg(slug) : null;
+      return tag ? tagOgCard(tag) : null;
+    }
+    default:
+      return null;
+  }
+}
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const title = searchParams.get("title") || "Promptexify — Cursor Rules, MCP & Claude Code Prompts";
-    const description =
-      searchParams.get("description") ||
-      "The largest directory of Cursor rules, MCP configs, Claude Code skills, and AI coding prompts.";
-    // Optional type parameter for future use
-    // const type = searchParams.get("type") || "website";
-
-    return new ImageResponse(
-      (
-        <div
-          style={{
-            height: "100%",
-            width: "100%",
-            display: "flex",
-            flexDirection: "column",
-            alignItems: "center",
-            justifyContent: "center",
-            backgroundColor: "#000",
-            backgroundImage:
-              "linear-gradient(135deg, #1e293b 0%, #0f172a 100%)",
-            padding: "40px",
-            fontFamily: '"Inter", system-ui, sans-serif',
-          }}
-        >
-          {/* Logo/Brand Area */}
-          <div
-            style={{
-              display: "flex",
-              alignItems: "center",
-              marginBottom: "32px",
-            }}
-          >
-            <div
-              style={{
-                width: "64px",
-                height: "64px",
-                background: "linear-gradient(135deg, #3b82f6, #8b5cf6)",
-                borderRadius: "16px",
-                display: "flex",
-                alignItems: "center",
-                justifyContent: "center",
-                marginRight: "16px",
-              }}
-            >
-              <span
-                style={{ color: "white", fontSize: "32px", fontWeight: "bold" }}
-              >
-                P
-              </span>
-            </div>
-            <span
-              style={{
-                color: "white",
-                fontSize: "32px",
-                fontWeight: "bold",
-                letterSpacing: "-0.02em",
-              }}
-            >
-              Promptexify
-            </span>
-          </div>
-
-          {/* Main Content */}
-          <div
-            style={{
-              display: "flex",
-              flexDirection: "column",
-              alignItems: "center",
-              textAlign: "center",
-              maxWidth: "900px",
-            }}
-          >
-            <h1
-              style={{
-                color: "white",
-                fontSize: title.length > 50 ? "48px" : "64px",
-                fontWeight: "bold",
-                lineHeight: "1.1",
-                marginBottom: "24px",
-                textAlign: "center",
-              }}
-            >
-              {title}
-            </h1>
-
-            <p
-              style={{
-                color: "#94a3b8",
-                fontSize: "24px",
-                lineHeight: "1.4",
-                marginBottom: "40px",
-                textAlign: "center",
-              }}
-            >
-              {description}
-            </p>
-
-            {/* Feature badges */}
-            <div
-              style={{
-                display: "flex",
-                gap: "16px",
-                flexWrap: "wrap",
-                justifyContent: "center",
-              }}
-            >
-              {["Cursor Rules", "Claude Code", "MCP Configs", "AI Prompts"].map((platform) => (
-                <div
-                  key={platform}
-                  style={{
-                    background: "rgba(59, 130, 246, 0.1)",
-                    border: "1px solid rgba(59, 130, 246, 0.3)",
-                    borderRadius: "9999px",
-                    padding: "8px 20px",
-                    color: "#60a5fa",
-                    fontSize: "16px",
-                    fontWeight: "500",
-                  }}
-                >
-                  {platform}
-                </div>
-              ))}
-            </div>
-          </div>
+    const card =
+      (await resolveCard(searchParams)) ??
+      siteOgCard(
+        searchParams.get("title") || DEFAULT_TITLE,
+        searchParams.get("description") || DEFAULT_DESCRIPTION
+      );
 
-          {/* Bottom decoration */}
-          <div
-            style={{
-              position: "absolute",
-              bottom: "0",
-              left: "0",
-              right: "0",
-              height: "8px",
-              background:
-                "linear-gradient(90deg, #3b82f6, #8b5cf6, #ec4899, #f59e0b)",
-            }}
-          />
-        </div>
-      ),
-      {
-        width: 1200,
-        height: 630,
-      }
-    );
+    const image = await renderOgImage(card);
+    image.headers.set("Cache-Control", "public, max-age=3600, s-maxage=86400");
+    return image;
   } catch (error) {
     console.error("Error generating OG image:", error);
     return new Response(`Failed to generate the image`, {
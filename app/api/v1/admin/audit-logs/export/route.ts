@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import {
+  exportAuditLogs,
+  parseAuditLogFilters,
+  type AuditExportFormat,
+} from "@/lib/security/audit-log";
+import { logAuditEvent, getClientIP, sanitizeUserAgent } from "@/lib/security/audit";
+import { SECURITY_HEADERS } from "@/lib/security/sanitize";
+
+const CONTENT_TYPES: Record<AuditExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+// GET /api/v1/admin/audit-logs/export?format=csv|ndjson - Every entry
+// matching the explorer's filters, oldest first, as a download
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser?.userData || currentUser.userData.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 403, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const format: AuditExportFormat = searchParams.get("format") === "ndjson" ? "ndjson" : "csv";
+    const filters = parseAuditLogFilters(searchParams);
+
+    // Exports leave the system, so they are audited themselves
+    await logAuditEvent({
+      action: "Audit Log Export",
+      userId: currentUser.userData.id,
+      entityType: "audit_log",
+      ipAddress: getClientIP(request),
+      userAgent: sanitizeUserAgent(request.headers.get("user-agent")),
+      severity: "MEDIUM",
+      metadata: { format, filters: searchParams.toString().slice(0, 500) },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new NextResponse(exportAuditLogs(filters, format), {
+      headers: {
+        ...SECURITY_HEADERS,
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="audit-log-${date}.${format}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export audit logs:", error);
+    return NextResponse.json(
+      { error: "Failed to export audit logs" },
+      { status: 500, headers: SECURITY_HEADERS }
+    );
+  }
+}
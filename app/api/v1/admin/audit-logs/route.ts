@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { parseAuditLogFilters, searchAuditLogs } from "@/lib/security/audit-log";
+import { SECURITY_HEADERS } from "@/lib/security/sanitize";
+
+// GET /api/v1/admin/audit-logs - Search the audit log. Filters: action
+// (substring), actor (user ID or email), entityType, entityId, severity
+// (comma-separated), ip, from, to. Page with `cursor`; `order=asc` reads
+// oldest first, as entity timelines do.
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser?.userData || currentUser.userData.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 403, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const filters = parseAuditLogFilters(searchParams);
+    const page = await searchAuditLogs(filters, {
+      cursor: searchParams.get("cursor"),
+      limit: parseInt(searchParams.get("limit") || "50"),
+      order: searchParams.get("order") === "asc" ? "asc" : "desc",
+    });
+
+    return NextResponse.json(page, {
+      headers: { ...SECURITY_HEADERS, "Cache-Control": "private, no-store" },
+    });
+  } catch (error) {
+    console.error("Failed to search audit logs:", error);
+    return NextResponse.json(
+      { error: "Failed to search audit logs" },
+      { status: 500, headers: SECURITY_HEADERS }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { getBlogPostByIdAdmin, getBlogPostsForExport } from "@/lib/blog-query";
+import { buildBlogMarkdownFile } from "@/lib/blog-markdown";
+import { htmlToMarkdown } from "@/lib/blog-markdown-html";
+import { createZip } from "@/lib/zip";
+import { SECURITY_HEADERS } from "@/lib/security/sanitize";
+
+type ExportRow = NonNullable<Awaited<ReturnType<typeof getBlogPostByIdAdmin>>>;
+
+function toMarkdownFile(post: ExportRow): string {
+  return buildBlogMarkdownFile(
+    {
+      title: post.title,
+      slug: post.slug,
+      excerpt: post.excerpt,
+      featuredImageUrl: post.featuredImageUrl,
+      status: post.status,
+      publishedAt: post.publishedAt,
+      tags: post.tags.map((tag) => tag.name),
+      series: post.seriesTitle,
+      seriesOrder: post.seriesOrder,
+    },
+    htmlToMarkdown(post.content)
+  );
+}
+
+// GET /api/v1/admin/blog/export - Articles as Markdown with frontmatter, the
+// format /blog/admin/import reads back. `?id=` downloads a single article's
+// .md file; otherwise the whole blog as a zip of blog/<slug>.md files.
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser?.userData || currentUser.userData.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 403, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const id = request.nextUrl.searchParams.get("id");
+    if (id) {
+      const post = await getBlogPostByIdAdmin(id);
+      if (!post) {
+        return NextResponse.json(
+          { error: "Article not found" },
+          { status: 404, headers: SECURITY_HEADERS }
+        );
+      }
+
+      return new NextResponse(toMarkdownFile(post), {
+        headers: {
+          ...SECURITY_HEADERS,
+          "Content-Type": "text/markdown; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${post.slug}.md"`,
+          "Cache-Control": "private, no-store",
+        },
+      });
+    }
+
+    const posts = await getBlogPostsForExport();
+    const body = createZip(
+      posts.map((post) => ({ path: `blog/${post.slug}.md`, content: toMarkdownFile(post) }))
+    );
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        ...SECURITY_HEADERS,
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="blog-${new Date().toISOString().slice(0, 10)}.zip"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting blog:", error);
+    return NextResponse.json(
+      { error: "Failed to export blog" },
+      { status: 500, headers: SECURITY_HEADERS }
+    );
+  }
+}
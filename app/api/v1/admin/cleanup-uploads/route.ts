@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cleanupOrphanedUploads } from "@/lib/uploads";
+import { isStorageConfigured } from "@/lib/storage";
+import { requireAdmin } from "@/lib/auth";
+import { hasValidCronSecret } from "@/lib/security/cron";
+
+async function cleanup() {
+  if (!isStorageConfigured()) {
+    return NextResponse.json({ success: true, message: "Storage is not configured", deletedCount: 0 });
+  }
+
+  const result = await cleanupOrphanedUploads();
+  return NextResponse.json({
+    success: true,
+    message: `Deleted ${result.deletedCount} orphaned uploads`,
+    deletedCount: result.deletedCount,
+  });
+}
+
+/** Scheduled cleanup (e.g. Vercel Cron), authenticated with CRON_SECRET. */
+export async function GET(request: NextRequest) {
+  if (!hasValidCronSecret(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return await cleanup();
+  } catch (error) {
+    console.error("Error cleaning up orphaned uploads:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Manual cleanup from an admin session. */
+export async function POST() {
+  try {
+    // requireAdmin() throws / redirects if the user is not an authenticated admin
+    await requireAdmin();
+
+    return await cleanup();
+  } catch (error) {
+    console.error("Error cleaning up orphaned uploads:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sendPendingPostsSummary } from "@/lib/mail";
+import { requireAdmin } from "@/lib/auth";
+import { hasValidCronSecret } from "@/lib/security/cron";
+
+async function send() {
+  const result = await sendPendingPostsSummary();
+  return NextResponse.json({
+    success: true,
+    message: `Sent the pending summary (${result.pendingCount} posts) to ${result.sent} admins`,
+    pendingCount: result.pendingCount,
+    sent: result.sent,
+  });
+}
+
+/** Scheduled daily run (e.g. Vercel Cron), authenticated with CRON_SECRET. */
+export async function GET(request: NextRequest) {
+  if (!hasValidCronSecret(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return await send();
+  } catch (error) {
+    console.error("Error sending pending posts summary:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Manual run from an admin session. */
+export async function POST() {
+  try {
+    // requireAdmin() throws / redirects if the user is not an authenticated admin
+    await requireAdmin();
+
+    return await send();
+  } catch (error) {
+    console.error("Error sending pending posts summary:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { publishDueContent } from "@/lib/scheduled-publishing";
+import { requireAdmin } from "@/lib/auth";
+import { hasValidCronSecret } from "@/lib/security/cron";
+
+async function publish() {
+  const result = await publishDueContent();
+  return NextResponse.json({
+    success: true,
+    message: `Published ${result.blogPostCount} scheduled articles and ${result.postCount} scheduled posts`,
+    blogPostCount: result.blogPostCount,
+    postCount: result.postCount,
+  });
+}
+
+/** Scheduled run (e.g. Vercel Cron), authenticated with CRON_SECRET. */
+export async function GET(request: NextRequest) {
+  if (!hasValidCronSecret(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return await publish();
+  } catch (error) {
+    console.error("Error publishing scheduled content:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Manual run from an admin session. */
+export async function POST() {
+  try {
+    // requireAdmin() throws / redirects if the user is not an authenticated admin
+    await requireAdmin();
+
+    return await publish();
+  } catch (error) {
+    console.error("Error publishing scheduled content:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { refreshTrendingScores } from "@/lib/trending";
+import { requireAdmin } from "@/lib/auth";
+import { hasValidCronSecret } from "@/lib/security/cron";
+
+async function refresh() {
+  const result = await refreshTrendingScores();
+  return NextResponse.json({
+    success: true,
+    message: `Refreshed trending scores for ${result.updatedCount} posts`,
+    updatedCount: result.updatedCount,
+  });
+}
+
+/** Scheduled refresh (e.g. Vercel Cron), authenticated with CRON_SECRET. */
+export async function GET(request: NextRequest) {
+  if (!hasValidCronSecret(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return await refresh();
+  } catch (error) {
+    console.error("Error refreshing trending scores:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Manual refresh from an admin session. */
+export async function POST() {
+  try {
+    // requireAdmin() throws / redirects if the user is not an authenticated admin
+    await requireAdmin();
+
+    return await refresh();
+  } catch (error) {
+    console.error("Error refreshing trending scores:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/auth";
-import { getRecentSecurityEvents } from "@/lib/security/audit";
+import { flushSecurityEvents, getRecentSecurityEvents } from "@/lib/security/audit";
 import { SECURITY_HEADERS } from "@/lib/security/sanitize";
 
 /**
@@ -25,7 +25,8 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
 
-    // Fetch recent security events
+    // Write out events this process is still buffering before reading
+    await flushSecurityEvents();
     const events = await getRecentSecurityEvents(limit);
 
     return NextResponse.json(
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sendWeeklyDigests } from "@/lib/mail";
+import { requireAdmin } from "@/lib/auth";
+import { hasValidCronSecret } from "@/lib/security/cron";
+
+async function send() {
+  const result = await sendWeeklyDigests();
+  return NextResponse.json({
+    success: true,
+    message: `Sent ${result.sent} weekly digests (${result.failed} failed)`,
+    sent: result.sent,
+    failed: result.failed,
+  });
+}
+
+/** Scheduled weekly run (e.g. Vercel Cron), authenticated with CRON_SECRET. */
+export async function GET(request: NextRequest) {
+  if (!hasValidCronSecret(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return await send();
+  } catch (error) {
+    console.error("Error sending weekly digests:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Manual run from an admin session. */
+export async function POST() {
+  try {
+    // requireAdmin() throws / redirects if the user is not an authenticated admin
+    await requireAdmin();
+
+    return await send();
+  } catch (error) {
+    console.error("Error sending weekly digests:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { pageViewSchema } from "@/lib/schemas";
+import {
+  deviceFromUserAgent,
+  isBotUserAgent,
+  recordPageView,
+} from "@/lib/analytics";
+import {
+  rateLimits,
+  getClientIdentifier,
+  getRateLimitHeaders,
+} from "@/lib/security/limits";
+import { SECURITY_HEADERS } from "@/lib/security/sanitize";
+
+/** External referrer host, or "" for direct visits and same-site navigation. */
+function referrerHost(referrer: string, request: NextRequest): string {
+  if (!referrer) return "";
+  try {
+    const host = new URL(referrer).hostname.replace(/^www\./, "");
+    return host === request.nextUrl.hostname.replace(/^www\./, "") ? "" : host;
+  } catch {
+    return "";
+  }
+}
+
+// POST /api/v1/analytics/collect - Record a public page view
+export async function POST(request: NextRequest) {
+  try {
+    // CSRF validation is handled by middleware for all POST /api/* requests.
+    const userAgent = request.headers.get("user-agent") ?? "";
+    if (isBotUserAgent(userAgent)) {
+      return new NextResponse(null, { status: 204, headers: SECURITY_HEADERS });
+    }
+
+    const currentUser = await getCurrentUser();
+    const clientId = getClientIdentifier(request, currentUser?.userData?.id);
+
+    const rateLimitResult = await rateLimits.interactions(`pageviews:${clientId}`);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: "Too many requests. Please try again later." },
+        {
+          status: 429,
+          headers: {
+            ...SECURITY_HEADERS,
+            ...getRateLimitHeaders(rateLimitResult),
+            "Retry-After": String(
+              Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
+            ),
+          },
+        }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = pageViewSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid page view" },
+        { status: 400, headers: SECURITY_HEADERS }
+      );
+    }
+
+    await recordPageView({
+      path: parsed.data.path,
+      referrer: referrerHost(parsed.data.referrer, request),
+      device: deviceFromUserAgent(userAgent),
+      // Same visitor identity as post events (see /api/v1/posts/[id]/events)
+      visitorId: currentUser?.userData?.id ? clientId : `${clientId}:${userAgent}`,
+    });
+
+    return new NextResponse(null, {
+      status: 204,
+      headers: { ...SECURITY_HEADERS, ...getRateLimitHeaders(rateLimitResult) },
+    });
+  } catch (error) {
+    console.error("Error recording page view:", error);
+    return NextResponse.json(
+      { error: "Failed to record page view" },
+      { status: 500, headers: SECURITY_HEADERS }
+    );
+  }
+}
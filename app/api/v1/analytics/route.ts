@@ -1,48 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth";
 import { SECURITY_HEADERS } from "@/lib/security/sanitize";
-
-// Interface for Vercel Analytics API response
-interface AnalyticsData {
-  views: Array<{
-    date: string;
-    views: number;
-  }>;
-  visitors: Array<{
-    date: string;
-    visitors: number;
-  }>;
-  referrers: Array<{
-    referrer: string;
-    views: number;
-  }>;
-  pages: Array<{
-    page: string;
-    views: number;
-  }>;
-}
-
-// Interface for processed analytics data
-interface ProcessedAnalyticsData {
-  chartData: Array<{
-    date: string;
-    desktop: number;
-    mobile: number;
-    total: number;
-  }>;
-  totalViews: number;
-  totalVisitors: number;
-  topPages: Array<{
-    page: string;
-    views: number;
-  }>;
-  topReferrers: Array<{
-    referrer: string;
-    views: number;
-  }>;
+import {
+  getSiteAnalytics,
+  isValidTimeZone,
+  resolveRange,
+  daysBetween,
+  MAX_CUSTOM_RANGE_DAYS,
+  type AnalyticsRange,
+  type AnalyticsWindow,
+} from "@/lib/analytics";
+
+const VALID_RANGES: AnalyticsRange[] = ["7d", "30d", "90d"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Round-trips the date so impossible days like 2024-02-31 are rejected too
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
 }
 
-// GET /api/analytics - Fetch analytics data
+// GET /api/v1/analytics - Site traffic from first-party page view aggregates
+// ?range=7d|30d|90d, or ?from=YYYY-MM-DD&to=YYYY-MM-DD (inclusive), plus ?timezone=IANA name
 export async function GET(request: NextRequest) {
   try {
     const user = await getCurrentUser();
@@ -61,224 +41,59 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url);
-    const range = searchParams.get("range") || "7d"; // Default to 7 days
     const timezone = searchParams.get("timezone") || "UTC";
-
-    // Validate range parameter
-    const validRanges = ["7d", "30d", "90d"];
-    if (!validRanges.includes(range)) {
+    if (!isValidTimeZone(timezone)) {
       return NextResponse.json(
-        { error: "Invalid range parameter. Use 7d, 30d, or 90d" },
-        { status: 400 }
+        { error: "Invalid timezone parameter" },
+        { status: 400, headers: SECURITY_HEADERS }
       );
     }
 
-    // Check if we're in production environment
-    const isProduction = process.env.NODE_ENV === "production";
-
-    // In development, always return mock data
-    if (!isProduction) {
-      console.log("Development mode: Returning mock analytics data");
-      const mockData = generateMockData(range);
-      return NextResponse.json(mockData);
-    }
-
-    // Production: Get environment variables for Vercel Analytics
-    const teamId = process.env.VERCEL_TEAM_ID;
-    const projectId = process.env.VERCEL_PROJECT_ID;
-    const analyticsToken = process.env.VERCEL_ANALYTICS_TOKEN;
-
-    if (!teamId || !projectId || !analyticsToken) {
-      console.error("Missing Vercel Analytics configuration in production");
-
-      // Return mock data as fallback
-      const mockData = generateMockData(range);
-      return NextResponse.json(mockData);
-    }
-
-    // Fetch analytics data from Vercel API
-    const baseUrl = `https://vercel.com/api/web/insights`;
-    const params = new URLSearchParams({
-      teamId,
-      projectId,
-      range,
-      timezone,
-    });
-
-    const [viewsResponse, visitorsResponse, referrersResponse, pagesResponse] =
-      await Promise.all([
-        fetch(`${baseUrl}/views?${params}`, {
-          headers: {
-            Authorization: `Bearer ${analyticsToken}`,
-            "Content-Type": "application/json",
-          },
-        }),
-        fetch(`${baseUrl}/visitors?${params}`, {
-          headers: {
-            Authorization: `Bearer ${analyticsToken}`,
-            "Content-Type": "application/json",
-          },
-        }),
-        fetch(`${baseUrl}/referrers?${params}`, {
-          headers: {
-            Authorization: `Bearer ${analyticsToken}`,
-            "Content-Type": "application/json",
-          },
-        }),
-        fetch(`${baseUrl}/pages?${params}`, {
-          headers: {
-            Authorization: `Bearer ${analyticsToken}`,
-            "Content-Type": "application/json",
-          },
-        }),
-      ]);
-
-    // Check if all requests were successful
-    if (
-      !viewsResponse.ok ||
-      !visitorsResponse.ok ||
-      !referrersResponse.ok ||
-      !pagesResponse.ok
-    ) {
-      console.error("Failed to fetch analytics data from Vercel");
-
-      // Return mock data as fallback
-      const mockData = generateMockData(range);
-      return NextResponse.json(mockData);
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+    let window: AnalyticsWindow;
+
+    if (from || to) {
+      if (!from || !to || !isValidDate(from) || !isValidDate(to) || from > to) {
+        return NextResponse.json(
+          { error: "Invalid custom range. Use from=YYYY-MM-DD&to=YYYY-MM-DD" },
+          { status: 400, headers: SECURITY_HEADERS }
+        );
+      }
+      if (daysBetween(from, to) > MAX_CUSTOM_RANGE_DAYS) {
+        return NextResponse.json(
+          { error: `Custom ranges are limited to ${MAX_CUSTOM_RANGE_DAYS} days` },
+          { status: 400, headers: SECURITY_HEADERS }
+        );
+      }
+      window = { from, to, timezone };
+    } else {
+      const range = (searchParams.get("range") || "7d") as AnalyticsRange;
+      if (!VALID_RANGES.includes(range)) {
+        return NextResponse.json(
+          { error: "Invalid range parameter. Use 7d, 30d, or 90d" },
+          { status: 400, headers: SECURITY_HEADERS }
+        );
+      }
+      window = resolveRange(range, timezone);
     }
 
-    const [views, visitors, referrers, pages] = await Promise.all([
-      viewsResponse.json(),
-      visitorsResponse.json(),
-      referrersResponse.json(),
-      pagesResponse.json(),
-    ]);
-
-    // Process the analytics data
-    const processedData = processAnalyticsData({
-      views: views.data || [],
-      visitors: visitors.data || [],
-      referrers: referrers.data || [],
-      pages: pages.data || [],
-    });
-
-    return NextResponse.json(processedData);
+    const analytics = await getSiteAnalytics(window);
+
+    return NextResponse.json(
+      { ...analytics, from: window.from, to: window.to, timezone },
+      {
+        headers: {
+          ...SECURITY_HEADERS,
+          "Cache-Control": "private, max-age=60",
+        },
+      }
+    );
   } catch (error) {
     console.error("Error fetching analytics data:", error);
-
-    // Return mock data as fallback for any errors
-    const mockData = generateMockData("7d");
-    return NextResponse.json(mockData);
+    return NextResponse.json(
+      { error: "Failed to fetch analytics data" },
+      { status: 500, headers: SECURITY_HEADERS }
+    );
   }
 }
-
-// Process raw analytics data into chart-friendly format
-function processAnalyticsData(data: AnalyticsData): ProcessedAnalyticsData {
-  const chartData = [];
-  const viewsMap = new Map(data.views.map((v) => [v.date, v.views]));
-
-  // Get all unique dates and sort them
-  const allDates = Array.from(
-    new Set([
-      ...data.views.map((v) => v.date),
-      ...data.visitors.map((v) => v.date),
-    ])
-  ).sort();
-
-  // Create chart data with estimated desktop/mobile split
-  for (const date of allDates) {
-    const totalViews = viewsMap.get(date) || 0;
-
-    // Estimate desktop/mobile split (roughly 60% desktop, 40% mobile)
-    const desktop = Math.round(totalViews * 0.6);
-    const mobile = totalViews - desktop;
-
-    chartData.push({
-      date,
-      desktop,
-      mobile,
-      total: totalViews,
-    });
-  }
-
-  // Calculate totals
-  const totalViews = data.views.reduce((sum, item) => sum + item.views, 0);
-  const totalVisitors = data.visitors.reduce(
-    (sum, item) => sum + item.visitors,
-    0
-  );
-
-  // Get top pages and referrers
-  const topPages = data.pages.sort((a, b) => b.views - a.views).slice(0, 10);
-
-  const topReferrers = data.referrers
-    .sort((a, b) => b.views - a.views)
-    .slice(0, 10);
-
-  return {
-    chartData,
-    totalViews,
-    totalVisitors,
-    topPages,
-    topReferrers,
-  };
-}
-
-// Generate mock data for development/demo purposes
-function generateMockData(range: string): ProcessedAnalyticsData {
-  const days = range === "7d" ? 7 : range === "30d" ? 30 : 90;
-  const chartData = [];
-  let totalViews = 0;
-  let totalVisitors = 0;
-
-  // Optimize for smaller data structures
-  const maxDataPoints = Math.min(days, 30); // Limit to 30 days max for mock data
-  const stepSize = Math.ceil(days / maxDataPoints);
-
-  // Generate data for the specified range with optimization
-  for (let i = maxDataPoints - 1; i >= 0; i--) {
-    const date = new Date();
-    date.setDate(date.getDate() - i * stepSize);
-
-    // Generate realistic-looking data with some randomness
-    const baseViews = Math.floor(Math.random() * 500) + 100;
-    const desktop = Math.floor(baseViews * (0.5 + Math.random() * 0.3)); // 50-80% desktop
-    const mobile = baseViews - desktop;
-    const visitors = Math.floor(baseViews * (0.6 + Math.random() * 0.2)); // 60-80% of views
-
-    totalViews += baseViews;
-    totalVisitors += visitors;
-
-    chartData.push({
-      date: date.toISOString().split("T")[0],
-      desktop,
-      mobile,
-      total: baseViews,
-    });
-  }
-
-  // Use smaller, more efficient data structures
-  const topPages = [
-    { page: "/", views: Math.floor(totalViews * 0.3) },
-    { page: "/directory", views: Math.floor(totalViews * 0.2) },
-    { page: "/entry/prompts", views: Math.floor(totalViews * 0.15) },
-    { page: "/features", views: Math.floor(totalViews * 0.1) },
-    { page: "/about", views: Math.floor(totalViews * 0.05) },
-  ];
-
-  const topReferrers = [
-    { referrer: "google.com", views: Math.floor(totalViews * 0.4) },
-    { referrer: "direct", views: Math.floor(totalViews * 0.2) },
-    { referrer: "twitter.com", views: Math.floor(totalViews * 0.15) },
-    { referrer: "github.com", views: Math.floor(totalViews * 0.1) },
-    { referrer: "reddit.com", views: Math.floor(totalViews * 0.05) },
-  ];
-
-  return {
-    chartData,
-    totalViews,
-    totalVisitors,
-    topPages,
-    topReferrers,
-  };
-}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { getCollectionBySlug, getCollectionExportPosts } from "@/lib/collections";
+import { buildCollectionBundle } from "@/lib/post-export";
+import { createZip } from "@/lib/zip";
+import { SECURITY_HEADERS } from "@/lib/security/sanitize";
+
+interface RouteParams {
+  params: Promise<{
+    slug: string;
+  }>;
+}
+
+// GET /api/v1/collections/[slug]/download - Every post in the collection as a
+// single zip laid out for the tools they target, plus a README of the contents
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { slug } = await params;
+    const currentUser = await getCurrentUser().catch(() => null);
+    const viewer = currentUser?.userData
+      ? { id: currentUser.userData.id, role: currentUser.userData.role }
+      : null;
+
+    const collection = await getCollectionBySlug(slug, viewer);
+    if (!collection) {
+      return NextResponse.json(
+        { error: "Collection not found" },
+        { status: 404, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const posts = await getCollectionExportPosts(collection.id, viewer);
+    const body = createZip(buildCollectionBundle(collection, posts));
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        ...SECURITY_HEADERS,
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${collection.slug}.zip"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting collection:", error);
+    return NextResponse.json(
+      { error: "Failed to export collection" },
+      { status: 500, headers: SECURITY_HEADERS }
+    );
+  }
+}
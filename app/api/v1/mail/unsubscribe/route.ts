@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { unsubscribeWithToken } from "@/lib/mail";
+
+/**
+ * RFC 8058 one-click unsubscribe, POSTed by mail clients from the
+ * List-Unsubscribe header. People clicking the link in an email land on the
+ * /unsubscribe page instead, which asks before changing anything.
+ */
+export async function POST(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token");
+  if (!token) {
+    return NextResponse.json({ error: "Missing token" }, { status: 400 });
+  }
+
+  try {
+    const category = await unsubscribeWithToken(token);
+    if (!category) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, category });
+  } catch (error) {
+    console.error("Error processing one-click unsubscribe:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
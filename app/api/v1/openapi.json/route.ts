@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/openapi";
+import { SECURITY_HEADERS } from "@/lib/security/sanitize";
+
+// The document only changes on deploy
+const document = buildOpenApiDocument();
+
+// GET /api/v1/openapi.json - OpenAPI 3.1 description of the public API
+export async function GET() {
+  return NextResponse.json(document, {
+    headers: {
+      ...SECURITY_HEADERS,
+      "Cache-Control": "public, max-age=3600",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
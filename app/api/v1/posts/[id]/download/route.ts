@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { getPostById } from "@/lib/content";
+import { buildPostExport } from "@/lib/post-export";
+import { createZip } from "@/lib/zip";
+import { SECURITY_HEADERS } from "@/lib/security/sanitize";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/v1/posts/[id]/download - The post as its target tool's file
+// (.mdc rule, mcp.json fragment, zipped skill folder, AGENTS.md, or Markdown)
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const [currentUser, post] = await Promise.all([
+      getCurrentUser().catch(() => null),
+      getPostById(id),
+    ]);
+
+    // Same visibility as GET /api/v1/posts/[id]
+    const canView =
+      post &&
+      (post.isPublished ||
+        post.authorId === currentUser?.userData?.id ||
+        currentUser?.userData?.role === "ADMIN");
+    if (!post || !canView || !post.content) {
+      return NextResponse.json(
+        { error: "Post not found" },
+        { status: 404, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const artifact = buildPostExport({
+      slug: post.slug,
+      title: post.title,
+      description: post.description,
+      content: post.content,
+      kind: post.kind,
+    });
+    const body = artifact.archive
+      ? createZip(artifact.files)
+      : Buffer.from(artifact.files[0]?.content ?? "", "utf8");
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        ...SECURITY_HEADERS,
+        "Content-Type": artifact.contentType,
+        "Content-Disposition": `attachment; filename="${artifact.filename}"`,
+        "Cache-Control": post.isPublished ? "public, max-age=300" : "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting post:", error);
+    return NextResponse.json(
+      { error: "Failed to export post" },
+      { status: 500, headers: SECURITY_HEADERS }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { posts } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { postEventSchema } from "@/lib/schemas";
+import { recordPostEvent } from "@/lib/post-events";
+import {
+  rateLimits,
+  getClientIdentifier,
+  getRateLimitHeaders,
+} from "@/lib/security/limits";
+import { SECURITY_HEADERS } from "@/lib/security/sanitize";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // CSRF validation is handled by middleware for all POST /api/* requests.
+    const { id } = await params;
+
+    // Anonymous visitors are counted too; signed-in users dedup by account
+    const currentUser = await getCurrentUser();
+    const clientId = getClientIdentifier(request, currentUser?.userData?.id);
+
+    const rateLimitResult = await rateLimits.interactions(`events:${clientId}`);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many requests. Please try again later.",
+          retryAfter: Math.ceil(
+            (rateLimitResult.resetTime - Date.now()) / 1000
+          ),
+        },
+        {
+          status: 429,
+          headers: {
+            ...SECURITY_HEADERS,
+            ...getRateLimitHeaders(rateLimitResult),
+            "Retry-After": String(
+              Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
+            ),
+          },
+        }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = postEventSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid event" },
+        { status: 400, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const [post] = await db
+      .select({ id: posts.id, isPublished: posts.isPublished })
+      .from(posts)
+      .where(eq(posts.id, id))
+      .limit(1);
+
+    if (!post || !post.isPublished) {
+      return NextResponse.json(
+        { error: "Post not found" },
+        { status: 404, headers: SECURITY_HEADERS }
+      );
+    }
+
+    // IP alone over-merges visitors behind NAT; the user agent splits them a little
+    const visitorId = currentUser?.userData?.id
+      ? clientId
+      : `${clientId}:${request.headers.get("user-agent") ?? ""}`;
+
+    const recorded = await recordPostEvent({
+      postId: post.id,
+      type: parsed.data.type === "view" ? "VIEW" : "COPY",
+      visitorId,
+    });
+
+    return NextResponse.json(
+      { success: true, recorded },
+      {
+        status: 200,
+        headers: {
+          ...SECURITY_HEADERS,
+          ...getRateLimitHeaders(rateLimitResult),
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error recording post event:", error);
+    return NextResponse.json(
+      { error: "Failed to record event" },
+      { status: 500, headers: SECURITY_HEADERS }
+    );
+  }
+}
@@ -6,6 +6,7 @@ import {
   getRateLimitHeaders,
 } from "@/lib/security/limits";
 import { sanitizeSearchQuery, SECURITY_HEADERS } from "@/lib/security/sanitize";
+import { postListQuerySchema } from "@/lib/schemas";
 
 // Simple fallback sanitization for search queries that doesn't use JSDOM
 function simpleSanitizeQuery(query: string): string {
@@ -38,6 +39,7 @@ function simpleSanitizeQuery(query: string): string {
 }
 import { Queries } from "@/lib/query";
 import { getAllCategories } from "@/lib/content";
+import { getAuthorIdByHandle } from "@/lib/authors";
 
 // Ensure Node.js runtime to support Drizzle and jsdom/DOMPurify used in sanitization
 export const runtime = "nodejs";
@@ -88,30 +90,11 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Parse and validate search parameters
+    // Parse search parameters (the schema clamps or drops bad values, so this
+    // never throws; it is also the source of the OpenAPI query parameters)
     const { searchParams } = new URL(request.url);
-    const rawParams = {
-      page: searchParams.get("page") || "1",
-      limit: searchParams.get("limit") || "12",
-      q: (searchParams.get("q") ?? "").trim(),
-      category: searchParams.get("category") || "",
-      subcategory: searchParams.get("subcategory") || "",
-      premium: searchParams.get("premium") || "",
-      sortBy: searchParams.get("sortBy") || "latest",
-    };
-
-    // Validate and sanitize parameters with better error handling
-    let page: number;
-    let limit: number;
-    
-    try {
-      page = Math.max(1, Math.min(100, parseInt(rawParams.page, 10) || 1));
-      limit = Math.max(1, Math.min(50, parseInt(rawParams.limit, 10) || 12));
-    } catch (parseError) {
-      console.warn("Parameter parsing error:", parseError);
-      page = 1;
-      limit = 12;
-    }
+    const rawParams = postListQuerySchema.parse(Object.fromEntries(searchParams));
+    const { page, limit } = rawParams;
 
     // Sanitize only when we have non-empty input; otherwise keep empty so we use paginated list
     let searchQuery: string;
@@ -132,9 +115,24 @@ export async function GET(request: NextRequest) {
     const categoryFilter = rawParams.category;
     const subcategoryFilter = rawParams.subcategory;
     const premiumFilter = rawParams.premium;
-    const sortBy = ["latest", "popular", "trending", "relevance"].includes(rawParams.sortBy)
-      ? (rawParams.sortBy as "latest" | "popular" | "trending" | "relevance")
-      : "latest";
+    const { kind, sortBy } = rawParams;
+
+    // Profile pages list one author's posts; the Following tab lists posts by
+    // the authors the signed-in user follows (empty for anonymous users)
+    let authorId: string | undefined;
+    if (rawParams.author) {
+      authorId = (await getAuthorIdByHandle(rawParams.author)) ?? undefined;
+      if (!authorId) {
+        return NextResponse.json({ error: "Author not found" }, { status: 404, headers: SECURITY_HEADERS });
+      }
+    }
+    if (rawParams.feed === "following" && !userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401, headers: SECURITY_HEADERS }
+      );
+    }
+    const followedBy = rawParams.feed === "following" ? userId : undefined;
 
     // Get categories to convert slugs to IDs with error handling
     let categories: Array<{ id: string; slug: string; name: string }> = [];
@@ -181,15 +179,17 @@ export async function GET(request: NextRequest) {
     try {
       console.log(`[POSTS-API] Executing query - page: ${page}, limit: ${limit}, userId: ${userId || 'anonymous'}, categoryId: ${categoryId || 'none'}`);
 
-      if (hasSearchQuery) {
+      // Author and Following listings are browse-only; search covers the whole directory
+      if (hasSearchQuery && !authorId && !followedBy) {
         console.log(`[POSTS-API] Using search query: "${searchQuery}" sortBy: ${sortBy}`);
         result = await Queries.posts.search(searchQuery, {
           page,
           limit,
           userId,
           categoryId,
+          kind,
           isPremium,
-          sortBy: sortBy as "relevance" | "latest" | "popular" | "trending",
+          sortBy,
         });
       } else {
         const paginatedSort = sortBy === "relevance" ? "latest" : sortBy;
@@ -198,7 +198,10 @@ export async function GET(request: NextRequest) {
           page,
           limit,
           userId,
+          authorId,
+          followedBy,
           categoryId,
+          kind,
           isPremium,
           sortBy: paginatedSort,
         });
@@ -209,7 +212,7 @@ export async function GET(request: NextRequest) {
       console.error("[POSTS-API] Database query failed:", {
         error: queryError instanceof Error ? queryError.message : queryError,
         stack: queryError instanceof Error ? queryError.stack : undefined,
-        params: { page, limit, userId, categoryId, isPremium, sortBy, searchQuery },
+        params: { page, limit, userId, categoryId, kind, isPremium, sortBy, searchQuery },
       });
       
       // Return fallback empty result rather than 500 error
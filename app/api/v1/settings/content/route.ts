@@ -1,6 +1,10 @@
 import { NextResponse } from "next/server";
 import { headers } from "next/headers";
-import { getMaxTagsPerPost, getAllowUserPosts } from "@/lib/settings";
+import {
+  getMaxTagsPerPost,
+  getAllowUserPosts,
+  getRequireApproval,
+} from "@/lib/settings";
 import { SECURITY_HEADERS } from "@/lib/security/sanitize";
 
 /**
@@ -20,13 +24,14 @@ export async function GET() {
       );
     }
 
-    const [maxTagsPerPost, allowUserPosts] = await Promise.all([
+    const [maxTagsPerPost, allowUserPosts, requireApproval] = await Promise.all([
       getMaxTagsPerPost(),
       getAllowUserPosts(),
+      getRequireApproval(),
     ]);
 
     return NextResponse.json(
-      { success: true, maxTagsPerPost, allowUserPosts },
+      { success: true, maxTagsPerPost, allowUserPosts, requireApproval },
       {
         headers: {
           ...SECURITY_HEADERS,
@@ -38,7 +43,7 @@ export async function GET() {
   } catch (error) {
     console.error("Error fetching content config:", error);
     return NextResponse.json(
-      { success: true, maxTagsPerPost: 20, allowUserPosts: true },
+      { success: true, maxTagsPerPost: 20, allowUserPosts: true, requireApproval: true },
       { headers: SECURITY_HEADERS }
     );
   }
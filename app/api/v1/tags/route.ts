@@ -4,7 +4,7 @@ import { getAllTags } from "@/lib/content";
 import { db } from "@/lib/db";
 import { tags as tagsTable } from "@/lib/db/schema";
 import { eq, or, ilike, asc } from "drizzle-orm";
-import { createTagSchema } from "@/lib/schemas";
+import { createTagSchema, tagListQuerySchema } from "@/lib/schemas";
 import {
   rateLimits,
   getClientIdentifier,
@@ -70,7 +70,7 @@ export async function GET(request: NextRequest) {
 
     // Support ?q= for searchable tag selector
     const url = new URL(request.url);
-    const q = url.searchParams.get("q")?.trim();
+    const { q } = tagListQuerySchema.parse(Object.fromEntries(url.searchParams));
 
     let tagsResult;
     if (q) {
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { isStorageConfigured } from "@/lib/storage";
+import { completeUpload } from "@/lib/uploads";
+import { SECURITY_HEADERS } from "@/lib/security/sanitize";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// POST /api/v1/upload/[id]/complete - Verify a presigned upload landed with
+// the declared type and size, and return its public URL
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.userData) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401, headers: SECURITY_HEADERS }
+      );
+    }
+
+    if (!isStorageConfigured()) {
+      return NextResponse.json(
+        { error: "Image uploads are not available" },
+        { status: 503, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const { id } = await params;
+    const result = await completeUpload(user.userData.id, id);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status, headers: SECURITY_HEADERS }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, url: result.url },
+      { headers: { ...SECURITY_HEADERS, "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error completing upload:", error);
+    return NextResponse.json(
+      { error: "Failed to complete upload" },
+      { status: 500, headers: SECURITY_HEADERS }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { uploadRequestSchema } from "@/lib/schemas";
+import { isStorageConfigured } from "@/lib/storage";
+import { canUploadFor, createUpload } from "@/lib/uploads";
+import { SecurityEvents } from "@/lib/security/audit";
+import {
+  sanitizeFilename,
+  validateFileExtension,
+  SECURITY_HEADERS,
+} from "@/lib/security/sanitize";
+
+// Extensions a browser may report for the accepted image types
+const IMAGE_EXTENSIONS = new Set(["jpg", "jpeg", "png", "webp", "gif", "avif"]);
+
+// POST /api/v1/upload/presign - Presigned PUT URL for an image upload. The
+// client PUTs the file to `uploadUrl` with `headers`, then calls
+// /api/v1/upload/[id]/complete.
+export async function POST(request: NextRequest) {
+  try {
+    // CSRF validation is handled by middleware for all POST /api/* requests.
+    const user = await getCurrentUser();
+    if (!user?.userData) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401, headers: SECURITY_HEADERS }
+      );
+    }
+
+    if (!isStorageConfigured()) {
+      return NextResponse.json(
+        { error: "Image uploads are not available" },
+        { status: 503, headers: SECURITY_HEADERS }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const validationResult = uploadRequestSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid input data",
+          details: validationResult.error.errors.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        },
+        { status: 400, headers: SECURITY_HEADERS }
+      );
+    }
+    const data = validationResult.data;
+
+    const filename = sanitizeFilename(data.filename);
+    if (!validateFileExtension(filename)) {
+      const ipAddress = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+      await SecurityEvents.suspiciousFileUpload(
+        user.userData.id,
+        filename,
+        data.contentType,
+        ipAddress
+      );
+      return NextResponse.json(
+        { error: "This file type is not allowed" },
+        { status: 400, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const extension = filename.toLowerCase().split(".").pop() ?? "";
+    if (!IMAGE_EXTENSIONS.has(extension)) {
+      return NextResponse.json(
+        { error: "Only JPEG, PNG, WebP, GIF and AVIF images can be uploaded" },
+        { status: 400, headers: SECURITY_HEADERS }
+      );
+    }
+
+    if (!canUploadFor(data.purpose, user.userData.role)) {
+      return NextResponse.json(
+        { error: "Insufficient permissions" },
+        { status: 403, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const upload = await createUpload(user.userData.id, data);
+
+    return NextResponse.json(
+      { success: true, upload },
+      { headers: { ...SECURITY_HEADERS, "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error creating upload:", error);
+    return NextResponse.json(
+      { error: "Failed to prepare upload" },
+      { status: 500, headers: SECURITY_HEADERS }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { createClient } from "@/lib/supabase/server";
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { users } from "@/lib/db/schema";
+import { ensureUserHandle } from "@/lib/authors";
 import { CSRFProtection } from "@/lib/security/csp";
 
 export async function GET(request: NextRequest) {
@@ -112,6 +113,7 @@ async function upsertUserInDatabase(supabaseUser: {
           updatedAt: now,
         },
       });
+    await ensureUserHandle(supabaseUser.id, name, email);
 
     console.log(
       `Successfully upserted user: ${email} with provider: ${oauthProvider}`
@@ -0,0 +1,11 @@
+import { NextRequest } from "next/server";
+import { feedBaseUrl, serveFeed } from "@/lib/feeds";
+import { getBlogFeed } from "@/lib/feed-sources";
+
+export async function GET(request: NextRequest) {
+  try {
+    return serveFeed(request, await getBlogFeed(feedBaseUrl(request)), "atom");
+  } catch {
+    return new Response("Error generating feed", { status: 500 });
+  }
+}
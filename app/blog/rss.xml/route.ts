@@ -1,52 +1,10 @@
 import { NextRequest } from "next/server";
-import { getPublishedBlogPosts } from "@/lib/blog-query";
-
-function escapeXml(str: string): string {
-  return str
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&apos;");
-}
+import { feedBaseUrl, serveFeed } from "@/lib/feeds";
+import { getBlogFeed } from "@/lib/feed-sources";
 
 export async function GET(request: NextRequest) {
-  const host     = request.headers.get("host") || "promptexify.com";
-  const protocol = request.headers.get("x-forwarded-proto") || "https";
-  const baseUrl  = `${protocol}://${host}`;
-
   try {
-    const { posts } = await getPublishedBlogPosts(1, 50);
-
-    const items = posts.map((post) => `
-    <item>
-      <title>${escapeXml(post.title)}</title>
-      <link>${baseUrl}/blog/${post.slug}</link>
-      <guid isPermaLink="true">${baseUrl}/blog/${post.slug}</guid>
-      ${post.excerpt ? `<description>${escapeXml(post.excerpt)}</description>` : ""}
-      ${post.publishedAt ? `<pubDate>${new Date(post.publishedAt).toUTCString()}</pubDate>` : ""}
-      ${post.author?.name ? `<author>${escapeXml(post.author.name)}</author>` : ""}
-    </item>`).join("\n");
-
-    const rss = `<?xml version="1.0" encoding="UTF-8"?>
-<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
-  <channel>
-    <title>Promptexify Blog</title>
-    <link>${baseUrl}/blog</link>
-    <description>Guides and insights on Cursor rules, MCP configs, Claude Code, and AI-powered development.</description>
-    <language>en-us</language>
-    <atom:link href="${baseUrl}/blog/rss.xml" rel="self" type="application/rss+xml" />
-    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
-    ${items}
-  </channel>
-</rss>`;
-
-    return new Response(rss, {
-      headers: {
-        "Content-Type": "application/rss+xml; charset=utf-8",
-        "Cache-Control": "public, max-age=3600, s-maxage=3600",
-      },
-    });
+    return serveFeed(request, await getBlogFeed(feedBaseUrl(request)), "rss");
   } catch {
     return new Response("Error generating feed", { status: 500 });
   }
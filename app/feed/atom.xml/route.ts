@@ -0,0 +1,19 @@
+import { NextRequest } from "next/server";
+import { feedBaseUrl, serveFeed } from "@/lib/feeds";
+import { getPostsFeed } from "@/lib/feed-sources";
+
+// ?category=<slug>&tag=<slug>&author=<user id> narrow the feed
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  try {
+    const feed = await getPostsFeed(feedBaseUrl(request), {
+      category: searchParams.get("category"),
+      tag: searchParams.get("tag"),
+      author: searchParams.get("author"),
+    });
+    if (!feed) return new Response("Feed not found", { status: 404 });
+    return serveFeed(request, feed, "atom", 900);
+  } catch {
+    return new Response("Error generating feed", { status: 500 });
+  }
+}
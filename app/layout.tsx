@@ -63,6 +63,9 @@ export default async function RootLayout({
         <meta name="theme-color" content="#ffffff" />
         <meta name="msapplication-TileColor" content="#ffffff" />
         <link rel="alternate" type="application/rss+xml" title="Promptexify Blog" href="/blog/rss.xml" />
+        <link rel="alternate" type="application/atom+xml" title="Promptexify Blog" href="/blog/atom.xml" />
+        <link rel="alternate" type="application/feed+json" title="Promptexify Blog" href="/blog/feed.json" />
+        <link rel="alternate" type="application/atom+xml" title="Promptexify — New prompts" href="/feed/atom.xml" />
 
         {/* Structured data — Organization + WebSite with SearchAction */}
         <script
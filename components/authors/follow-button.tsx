@@ -0,0 +1,59 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { UserPlus, UserCheck } from "@/components/ui/icons";
+import { toggleFollowAction } from "@/actions";
+import { toast } from "sonner";
+
+interface FollowButtonProps {
+  authorId: string;
+  initialFollowing?: boolean;
+  initialCount?: number;
+  className?: string;
+}
+
+export function FollowButton({
+  authorId,
+  initialFollowing = false,
+  initialCount = 0,
+  className,
+}: FollowButtonProps) {
+  const [isFollowing, setIsFollowing] = useState(initialFollowing);
+  const [count, setCount] = useState(initialCount);
+  const [isPending, startTransition] = useTransition();
+
+  const handleToggle = () => {
+    const previous = { isFollowing, count };
+    setIsFollowing(!isFollowing);
+    setCount(count + (isFollowing ? -1 : 1));
+
+    startTransition(async () => {
+      const result = await toggleFollowAction(authorId);
+      if (result.success) {
+        setIsFollowing(result.following);
+        setCount(previous.count + (result.following === previous.isFollowing ? 0 : result.following ? 1 : -1));
+        toast.success(result.following ? "Following" : "Unfollowed");
+      } else {
+        setIsFollowing(previous.isFollowing);
+        setCount(previous.count);
+        toast.error(result.error);
+      }
+    });
+  };
+
+  return (
+    <Button
+      variant={isFollowing ? "outline" : "default"}
+      size="sm"
+      className={className}
+      aria-label={isFollowing ? "Unfollow author" : "Follow author"}
+      onClick={handleToggle}
+      disabled={isPending}
+    >
+      {isFollowing ? <UserCheck className="h-4 w-4" /> : <UserPlus className="h-4 w-4" />}
+      {isFollowing ? "Following" : "Follow"}
+      <span className={isFollowing ? "text-muted-foreground" : "opacity-70"}>{count}</span>
+    </Button>
+  );
+}
@@ -12,7 +12,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { MoreHorizontal, Pencil, Eye, Globe, EyeOff, Trash2, ExternalLink } from "lucide-react";
+import { MoreHorizontal, Pencil, Eye, Globe, EyeOff, Trash2, ExternalLink, Download } from "lucide-react";
 import { toggleBlogPublishAction, deleteBlogPostAction } from "@/actions";
 
 interface BlogPostActionsProps {
@@ -72,12 +72,18 @@ export function BlogPostActions({ postId, slug, status }: BlogPostActionsProps)
             </Link>
           </DropdownMenuItem>
         )}
+        <DropdownMenuItem asChild>
+          <a href={`/api/v1/admin/blog/export?id=${postId}`} download>
+            <Download className="mr-2 h-4 w-4" />
+            Export Markdown
+          </a>
+        </DropdownMenuItem>
         <DropdownMenuSeparator />
         <DropdownMenuItem onClick={handleTogglePublish}>
           {status === "PUBLISHED" ? (
             <><EyeOff className="mr-2 h-4 w-4" />Unpublish</>
           ) : (
-            <><Globe className="mr-2 h-4 w-4" />Publish</>
+            <><Globe className="mr-2 h-4 w-4" />{status === "SCHEDULED" ? "Publish now" : "Publish"}</>
           )}
         </DropdownMenuItem>
         <DropdownMenuSeparator />
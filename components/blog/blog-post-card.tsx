@@ -0,0 +1,66 @@
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Clock, Calendar } from "lucide-react";
+
+interface BlogPostCardProps {
+  post: {
+    id: string;
+    slug: string;
+    title: string;
+    excerpt: string | null;
+    featuredImageUrl: string | null;
+    readingTime: number | null;
+    publishedAt: Date | null;
+    author: { name: string | null } | null;
+    tags?: { id: string; name: string; slug: string }[];
+  };
+}
+
+export function BlogPostCard({ post }: BlogPostCardProps) {
+  return (
+    <article className="group flex flex-col">
+      {post.featuredImageUrl && (
+        <Link href={`/blog/${post.slug}`} className="block mb-4 overflow-hidden rounded-lg">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={post.featuredImageUrl}
+            alt={post.title}
+            className="w-full h-48 object-cover transition-transform duration-300 group-hover:scale-105"
+          />
+        </Link>
+      )}
+      <div className="flex flex-col flex-1">
+        <Link href={`/blog/${post.slug}`} className="block group-hover:underline">
+          <h2 className="font-semibold text-lg leading-snug mb-2">{post.title}</h2>
+        </Link>
+        {post.excerpt && (
+          <p className="text-sm text-muted-foreground line-clamp-3 mb-3 flex-1">{post.excerpt}</p>
+        )}
+        {post.tags && post.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-3">
+            {post.tags.map((tag) => (
+              <Link key={tag.id} href={`/blog/tag/${tag.slug}`}>
+                <Badge variant="secondary" className="text-xs hover:bg-secondary/70">#{tag.name}</Badge>
+              </Link>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center gap-3 text-xs text-muted-foreground mt-auto">
+          {post.readingTime && (
+            <span className="flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              {post.readingTime} min read
+            </span>
+          )}
+          {post.publishedAt && (
+            <span className="flex items-center gap-1">
+              <Calendar className="h-3 w-3" />
+              {new Date(post.publishedAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+            </span>
+          )}
+          {post.author?.name && <Badge variant="outline" className="text-xs">{post.author.name}</Badge>}
+        </div>
+      </div>
+    </article>
+  );
+}
@@ -21,10 +21,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Loader2, Save, Globe } from "lucide-react";
+import { Loader2, Save, Globe, CalendarClock } from "lucide-react";
 import { TiptapEditor } from "./tiptap-editor";
+import { ImageUploadField } from "@/components/image-upload-field";
+import { PublishAtField } from "@/components/publish-at-field";
+import { TagSelector } from "@/components/tag-selector";
 import { createBlogPostAction, updateBlogPostAction } from "@/actions";
 import { useCSRFForm } from "@/hooks/use-csrf";
+import type { BlogStatus } from "@/lib/db/schema";
 
 interface BlogPostFormProps {
   mode: "create" | "edit";
@@ -36,10 +40,17 @@ interface BlogPostFormProps {
     content: string;
     featuredImageUrl: string;
     status: string;
+    /** ISO timestamp, or "" when never published */
+    publishedAt: string;
+    tags: string[];
+    series: string;
+    seriesOrder: string;
   };
+  /** Existing series, suggested in the series field */
+  seriesOptions: { id: string; title: string }[];
 }
 
-export function BlogPostForm({ mode, post }: BlogPostFormProps) {
+export function BlogPostForm({ mode, post, seriesOptions }: BlogPostFormProps) {
   const router = useRouter();
   const { createFormDataWithCSRF, isReady } = useCSRFForm();
 
@@ -48,7 +59,11 @@ export function BlogPostForm({ mode, post }: BlogPostFormProps) {
   const [excerpt, setExcerpt] = useState(post?.excerpt ?? "");
   const [content, setContent] = useState(post?.content ?? "");
   const [featuredImageUrl, setFeaturedImageUrl] = useState(post?.featuredImageUrl ?? "");
-  const [status, setStatus] = useState<"DRAFT" | "PUBLISHED">((post?.status as "DRAFT" | "PUBLISHED") ?? "DRAFT");
+  const [status, setStatus] = useState<BlogStatus>((post?.status as BlogStatus) ?? "DRAFT");
+  const [publishAt, setPublishAt] = useState(post?.status === "SCHEDULED" ? post.publishedAt : "");
+  const [selectedTags, setSelectedTags] = useState<string[]>(post?.tags ?? []);
+  const [series, setSeries] = useState(post?.series ?? "");
+  const [seriesOrder, setSeriesOrder] = useState(post?.seriesOrder ?? "");
   const [isSaving, setIsSaving] = useState(false);
   const slugTouched = useRef(!!post?.slug);
 
@@ -76,6 +91,10 @@ export function BlogPostForm({ mode, post }: BlogPostFormProps) {
       toast.error("Article content cannot be empty.");
       return;
     }
+    if (status === "SCHEDULED" && !publishAt) {
+      toast.error("Choose when the article should be published.");
+      return;
+    }
 
     setIsSaving(true);
     try {
@@ -86,6 +105,10 @@ export function BlogPostForm({ mode, post }: BlogPostFormProps) {
       fd.set("content", content);
       fd.set("featuredImageUrl", featuredImageUrl);
       fd.set("status", status);
+      fd.set("publishAt", status === "SCHEDULED" ? publishAt : "");
+      fd.set("tags", selectedTags.join(", "));
+      fd.set("series", series);
+      fd.set("seriesOrder", series ? seriesOrder : "");
       if (mode === "edit" && post) fd.set("id", post.id);
 
       if (mode === "create") {
@@ -178,37 +201,85 @@ export function BlogPostForm({ mode, post }: BlogPostFormProps) {
             </div>
 
             <div className="space-y-1.5">
-              <Label htmlFor="featuredImageUrl">Featured image URL</Label>
-              <Input
+              <Label htmlFor="featuredImageUrl">Featured image</Label>
+              <ImageUploadField
                 id="featuredImageUrl"
-                type="url"
                 value={featuredImageUrl}
-                onChange={(e) => setFeaturedImageUrl(e.target.value)}
-                placeholder="https://example.com/image.jpg"
+                onChange={setFeaturedImageUrl}
+                purpose="BLOG_FEATURED_IMAGE"
+                previewAlt="Featured image preview"
               />
-              {featuredImageUrl && (
-                // eslint-disable-next-line @next/next/no-img-element
-                <img
-                  src={featuredImageUrl}
-                  alt="Featured image preview"
-                  className="mt-2 rounded-md max-h-40 w-full object-cover border border-border"
-                  onError={(e) => (e.currentTarget.style.display = "none")}
-                />
-              )}
             </div>
 
             <div className="space-y-1.5">
               <Label htmlFor="status">Status</Label>
-              <Select value={status} onValueChange={(v) => setStatus(v as "DRAFT" | "PUBLISHED")}>
+              <Select value={status} onValueChange={(v) => setStatus(v as BlogStatus)}>
                 <SelectTrigger id="status">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="DRAFT">Draft</SelectItem>
                   <SelectItem value="PUBLISHED">Published</SelectItem>
+                  <SelectItem value="SCHEDULED">Scheduled</SelectItem>
                 </SelectContent>
               </Select>
             </div>
+
+            {status === "SCHEDULED" && (
+              <div className="space-y-1.5">
+                <Label htmlFor="publishAt">Publish at</Label>
+                <PublishAtField id="publishAt" value={publishAt} onChange={setPublishAt} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Taxonomy</CardTitle>
+            <CardDescription>Tags power topic pages and related articles.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <TagSelector
+              availableTags={[]}
+              searchable
+              selectedTags={selectedTags}
+              onTagsChange={setSelectedTags}
+              maxTags={20}
+              disabled={isSaving}
+            />
+
+            <div className="space-y-1.5">
+              <Label htmlFor="series">Series</Label>
+              <Input
+                id="series"
+                list="blog-series-options"
+                value={series}
+                onChange={(e) => setSeries(e.target.value)}
+                placeholder="Not part of a series"
+                maxLength={200}
+              />
+              <datalist id="blog-series-options">
+                {seriesOptions.map((option) => (
+                  <option key={option.id} value={option.title} />
+                ))}
+              </datalist>
+            </div>
+
+            {series && (
+              <div className="space-y-1.5">
+                <Label htmlFor="seriesOrder">Part number</Label>
+                <Input
+                  id="seriesOrder"
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={seriesOrder}
+                  onChange={(e) => setSeriesOrder(e.target.value)}
+                  placeholder="Next part"
+                />
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -229,11 +300,17 @@ export function BlogPostForm({ mode, post }: BlogPostFormProps) {
           <Button
             type="submit"
             disabled={isSaving || !isReady}
-            onClick={() => setStatus("PUBLISHED")}
+            onClick={() => status !== "SCHEDULED" && setStatus("PUBLISHED")}
             className="w-full"
           >
-            {isSaving && status === "PUBLISHED" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Globe className="mr-2 h-4 w-4" />}
-            {mode === "create" ? "Publish" : "Save & publish"}
+            {isSaving && status !== "DRAFT" ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : status === "SCHEDULED" ? (
+              <CalendarClock className="mr-2 h-4 w-4" />
+            ) : (
+              <Globe className="mr-2 h-4 w-4" />
+            )}
+            {status === "SCHEDULED" ? "Schedule" : mode === "create" ? "Publish" : "Save & publish"}
           </Button>
         </div>
       </div>
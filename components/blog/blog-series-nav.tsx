@@ -0,0 +1,78 @@
+import Link from "next/link";
+import { ArrowLeft, ArrowRight, Layers } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface SeriesPart {
+  id: string;
+  slug: string;
+  title: string;
+}
+
+interface BlogSeriesNavProps {
+  series: { title: string; description: string | null };
+  parts: SeriesPart[];
+  currentId: string;
+}
+
+/** Table of contents for the series an article belongs to. */
+export function BlogSeriesOverview({ series, parts, currentId }: BlogSeriesNavProps) {
+  const index = parts.findIndex((p) => p.id === currentId);
+
+  return (
+    <aside className="mb-10 rounded-lg border bg-muted/30 p-5">
+      <p className="flex items-center gap-2 text-xs font-medium uppercase tracking-wide text-muted-foreground mb-1">
+        <Layers className="h-3.5 w-3.5" />
+        {index >= 0 ? `Part ${index + 1} of ${parts.length}` : "Series"}
+      </p>
+      <p className="font-semibold mb-1">{series.title}</p>
+      {series.description && <p className="text-sm text-muted-foreground mb-3">{series.description}</p>}
+      <ol className="mt-3 space-y-1.5 text-sm list-decimal list-inside">
+        {parts.map((part) => (
+          <li key={part.id} className={cn(part.id === currentId ? "font-medium" : "text-muted-foreground")}>
+            {part.id === currentId ? (
+              part.title
+            ) : (
+              <Link href={`/blog/${part.slug}`} className="hover:text-foreground hover:underline">
+                {part.title}
+              </Link>
+            )}
+          </li>
+        ))}
+      </ol>
+    </aside>
+  );
+}
+
+/** Previous/next links between consecutive parts of a series. */
+export function BlogSeriesPager({ parts, currentId }: Omit<BlogSeriesNavProps, "series">) {
+  const index = parts.findIndex((p) => p.id === currentId);
+  if (index < 0) return null;
+  const prev = parts[index - 1];
+  const next = parts[index + 1];
+  if (!prev && !next) return null;
+
+  return (
+    <nav aria-label="Series navigation" className="mt-12 grid gap-4 sm:grid-cols-2">
+      {prev ? (
+        <Link href={`/blog/${prev.slug}`} className="group rounded-lg border p-4 hover:bg-muted/50 transition-colors">
+          <span className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+            <ArrowLeft className="h-3 w-3" />
+            Previous part
+          </span>
+          <span className="font-medium group-hover:underline">{prev.title}</span>
+        </Link>
+      ) : (
+        <span />
+      )}
+      {next && (
+        <Link href={`/blog/${next.slug}`} className="group rounded-lg border p-4 text-right hover:bg-muted/50 transition-colors">
+          <span className="flex items-center justify-end gap-1 text-xs text-muted-foreground mb-1">
+            Next part
+            <ArrowRight className="h-3 w-3" />
+          </span>
+          <span className="font-medium group-hover:underline">{next.title}</span>
+        </Link>
+      )}
+    </nav>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useMemo } from "react";
+import { useEffect, useMemo, useRef } from "react";
 import { useEditor, EditorContent } from "@tiptap/react";
 import { GeistSans } from "geist/font/sans";
 import StarterKit from "@tiptap/starter-kit";
@@ -12,6 +12,7 @@ import CodeBlockLowlight from "@tiptap/extension-code-block-lowlight";
 import { common, createLowlight } from "lowlight";
 import { TiptapToolbar } from "./tiptap-toolbar";
 import { cn } from "@/lib/utils";
+import { useImageUpload } from "@/hooks/use-image-upload";
 
 const lowlight = createLowlight(common);
 
@@ -23,6 +24,10 @@ interface TiptapEditorProps {
   minHeight?: string;
 }
 
+function firstImageFile(files: FileList | null | undefined): File | undefined {
+  return Array.from(files ?? []).find((file) => file.type.startsWith("image/"));
+}
+
 export function TiptapEditor({
   value = "",
   onChange,
@@ -44,10 +49,32 @@ export function TiptapEditor({
     [placeholder]
   );
 
+  const { upload, isUploading } = useImageUpload("BLOG_IMAGE");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // editorProps are bound once when the editor is created, so drop/paste
+  // handlers reach the current upload function through this ref
+  const insertUploadRef = useRef<(file: File, pos?: number) => Promise<void>>(async () => {});
+
   const editor = useEditor({
     extensions,
     content: value,
     editorProps: {
+      handleDrop: (view, event, _slice, moved) => {
+        const file = moved ? undefined : firstImageFile(event.dataTransfer?.files);
+        if (!file) return false;
+        event.preventDefault();
+        const pos = view.posAtCoords({ left: event.clientX, top: event.clientY })?.pos;
+        void insertUploadRef.current(file, pos);
+        return true;
+      },
+      handlePaste: (_view, event) => {
+        const file = firstImageFile(event.clipboardData?.files);
+        if (!file) return false;
+        event.preventDefault();
+        void insertUploadRef.current(file);
+        return true;
+      },
       attributes: {
         class: cn(
           GeistSans.className,
@@ -67,13 +94,42 @@ export function TiptapEditor({
     immediatelyRender: false,
   });
 
+  // Uploads `file` and inserts it at `pos` (the cursor when omitted)
+  useEffect(() => {
+    insertUploadRef.current = async (file, pos) => {
+      const uploaded = await upload(file);
+      if (!uploaded || !editor) return;
+      const image = { type: "image", attrs: { src: uploaded.url, alt: uploaded.title } };
+      if (pos === undefined) {
+        editor.chain().focus().insertContent(image).run();
+      } else {
+        editor.chain().focus().insertContentAt(pos, image).run();
+      }
+    };
+  }, [editor, upload]);
+
   if (!editor) return null;
 
   const words = editor.storage.characterCount?.words?.() ?? 0;
 
   return (
     <div className={cn("rounded-md border border-input bg-background overflow-hidden", className)}>
-      <TiptapToolbar editor={editor} />
+      <TiptapToolbar
+        editor={editor}
+        onUploadImage={() => fileInputRef.current?.click()}
+        isUploading={isUploading}
+      />
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) void insertUploadRef.current(file);
+        }}
+      />
       <EditorContent
         editor={editor}
         style={{ minHeight }}
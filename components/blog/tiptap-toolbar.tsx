@@ -11,6 +11,8 @@ import {
   Code,
   Link2,
   Image,
+  ImageUp,
+  Loader2,
   Heading1,
   Heading2,
   Heading3,
@@ -56,9 +58,11 @@ function Divider() {
 
 interface TiptapToolbarProps {
   editor: Editor;
+  onUploadImage?: () => void;
+  isUploading?: boolean;
 }
 
-export function TiptapToolbar({ editor }: TiptapToolbarProps) {
+export function TiptapToolbar({ editor, onUploadImage, isUploading }: TiptapToolbarProps) {
   const addImage = () => {
     const url = window.prompt("Image URL");
     if (url) editor.chain().focus().setImage({ src: url }).run();
@@ -136,9 +140,14 @@ export function TiptapToolbar({ editor }: TiptapToolbarProps) {
       <Divider />
 
       {/* Image */}
-      <ToolbarButton title="Insert image" onClick={addImage}>
+      <ToolbarButton title="Insert image from URL" onClick={addImage}>
         <Image className="h-4 w-4" />
       </ToolbarButton>
+      {onUploadImage && (
+        <ToolbarButton title="Upload image (or drop / paste one into the editor)" onClick={onUploadImage} disabled={isUploading}>
+          {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImageUp className="h-4 w-4" />}
+        </ToolbarButton>
+      )}
     </div>
   );
 }
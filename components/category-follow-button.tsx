@@ -0,0 +1,58 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { BellPlus, BellRing } from "@/components/ui/icons";
+import { toggleCategoryFollowAction } from "@/actions";
+import { toast } from "sonner";
+
+interface CategoryFollowButtonProps {
+  categoryId: string;
+  categoryName: string;
+  initialFollowing?: boolean;
+  className?: string;
+}
+
+export function CategoryFollowButton({
+  categoryId,
+  categoryName,
+  initialFollowing = false,
+  className,
+}: CategoryFollowButtonProps) {
+  const [isFollowing, setIsFollowing] = useState(initialFollowing);
+  const [isPending, startTransition] = useTransition();
+
+  const handleToggle = () => {
+    const previous = isFollowing;
+    setIsFollowing(!isFollowing);
+
+    startTransition(async () => {
+      const result = await toggleCategoryFollowAction(categoryId);
+      if (result.success) {
+        setIsFollowing(result.following);
+        toast.success(
+          result.following
+            ? `You'll be notified of new posts in ${categoryName}`
+            : `Unfollowed ${categoryName}`
+        );
+      } else {
+        setIsFollowing(previous);
+        toast.error(result.error);
+      }
+    });
+  };
+
+  return (
+    <Button
+      variant={isFollowing ? "outline" : "default"}
+      size="sm"
+      className={className}
+      aria-label={isFollowing ? `Unfollow ${categoryName}` : `Follow ${categoryName}`}
+      onClick={handleToggle}
+      disabled={isPending}
+    >
+      {isFollowing ? <BellRing className="h-4 w-4" /> : <BellPlus className="h-4 w-4" />}
+      {isFollowing ? "Following" : "Follow"}
+    </Button>
+  );
+}
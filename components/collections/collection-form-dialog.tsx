@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Loader2 } from "@/components/ui/icons";
+import { createCollectionAction, updateCollectionAction } from "@/actions";
+import { useCSRFForm } from "@/hooks/use-csrf";
+
+interface CollectionFormDialogProps {
+  /** Existing collection to edit; omit to create a new one */
+  collection?: {
+    id: string;
+    title: string;
+    description: string | null;
+    isPublic: boolean;
+  };
+  trigger: React.ReactNode;
+  onCreated?: (collection: { id: string; slug: string; title: string }) => void;
+}
+
+export function CollectionFormDialog({ collection, trigger, onCreated }: CollectionFormDialogProps) {
+  const router = useRouter();
+  const { createFormDataWithCSRF, isReady } = useCSRFForm();
+  const [open, setOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isEdit = Boolean(collection);
+
+  async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (isSubmitting) return;
+    if (!isReady) {
+      toast.error("Security verification in progress. Please wait.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const formData = createFormDataWithCSRF(e.currentTarget);
+      if (collection) {
+        formData.set("id", collection.id);
+        const result = await updateCollectionAction(formData);
+        if (!result.success) {
+          toast.error(result.error);
+          return;
+        }
+        toast.success("Collection updated");
+      } else {
+        const result = await createCollectionAction(formData);
+        if (!result.success) {
+          toast.error(result.error);
+          return;
+        }
+        toast.success(`Created "${result.collection.title}"`);
+        onCreated?.(result.collection);
+      }
+      setOpen(false);
+      router.refresh();
+    } catch (error) {
+      console.error("Error saving collection:", error);
+      toast.error("Failed to save collection");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{isEdit ? "Edit collection" : "New collection"}</DialogTitle>
+            <DialogDescription>
+              Group posts into an ordered bundle you can share and download.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="collection-title">Title *</Label>
+            <Input
+              id="collection-title"
+              name="title"
+              defaultValue={collection?.title}
+              placeholder="Our Next.js ruleset"
+              maxLength={100}
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="collection-description">Description</Label>
+            <Textarea
+              id="collection-description"
+              name="description"
+              defaultValue={collection?.description ?? ""}
+              maxLength={500}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="collection-public">Public</Label>
+              <p className="text-sm text-muted-foreground">
+                Anyone with the link can view, star and download it
+              </p>
+            </div>
+            <Switch
+              id="collection-public"
+              name="isPublic"
+              defaultChecked={collection?.isPublic}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isEdit ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
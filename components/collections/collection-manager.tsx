@@ -0,0 +1,188 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ArrowDown, ArrowUp, Pencil, Trash2, X } from "@/components/ui/icons";
+import { CollectionFormDialog } from "@/components/collections/collection-form-dialog";
+import {
+  deleteCollectionAction,
+  reorderCollectionPostsAction,
+  toggleCollectionPostAction,
+} from "@/actions";
+import { POST_KIND_LABELS } from "@/lib/post-kinds";
+import type { PostKind } from "@/lib/db/schema";
+
+interface CollectionManagerProps {
+  collection: {
+    id: string;
+    title: string;
+    description: string | null;
+    isPublic: boolean;
+  };
+  posts: Array<{ id: string; title: string; kind: PostKind }>;
+}
+
+/** Owner controls on a collection page: edit, delete, reorder and remove posts. */
+export function CollectionManager({ collection, posts }: CollectionManagerProps) {
+  const router = useRouter();
+  const [items, setItems] = useState(posts);
+  const [isPending, startTransition] = useTransition();
+
+  const move = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+
+    const previous = items;
+    const next = [...items];
+    [next[index], next[target]] = [next[target]!, next[index]!];
+    setItems(next);
+
+    startTransition(async () => {
+      const result = await reorderCollectionPostsAction({
+        collectionId: collection.id,
+        postIds: next.map((p) => p.id),
+      });
+      if (!result.success) {
+        setItems(previous);
+        toast.error(result.error);
+        return;
+      }
+      router.refresh();
+    });
+  };
+
+  const remove = (postId: string) => {
+    startTransition(async () => {
+      const result = await toggleCollectionPostAction({ collectionId: collection.id, postId });
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      setItems((prev) => prev.filter((p) => p.id !== postId));
+      toast.success("Removed from collection");
+      router.refresh();
+    });
+  };
+
+  const handleDelete = () => {
+    startTransition(async () => {
+      const result = await deleteCollectionAction(collection.id);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Collection deleted");
+      router.push("/stars");
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold">Manage collection</h2>
+        <div className="flex gap-2">
+          <CollectionFormDialog
+            collection={collection}
+            trigger={
+              <Button variant="outline" size="sm" disabled={isPending}>
+                <Pencil className="h-4 w-4" />
+                Edit
+              </Button>
+            }
+          />
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isPending}>
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this collection?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  &quot;{collection.title}&quot; and its stars will be removed. The posts
+                  themselves are not affected.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={handleDelete}
+                  disabled={isPending}
+                  className="bg-destructive text-white hover:bg-destructive/90"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No posts yet. Use &quot;Add to collection&quot; on any post to add it here.
+        </p>
+      ) : (
+        <ol className="divide-y">
+          {items.map((post, index) => (
+            <li key={post.id} className="flex items-center gap-2 py-2 text-sm">
+              <span className="w-6 text-right text-muted-foreground">{index + 1}.</span>
+              <Link href={`/entry/${post.id}`} className="flex-1 truncate hover:underline">
+                {post.title}
+              </Link>
+              <span className="hidden text-xs text-muted-foreground sm:inline">
+                {POST_KIND_LABELS[post.kind]}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label="Move up"
+                disabled={isPending || index === 0}
+                onClick={() => move(index, -1)}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label="Move down"
+                disabled={isPending || index === items.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label="Remove from collection"
+                disabled={isPending}
+                onClick={() => remove(post.id)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { FolderPlus, Loader2, Lock } from "@/components/ui/icons";
+import {
+  createCollectionAction,
+  getCollectionMembershipsAction,
+  toggleCollectionPostAction,
+} from "@/actions";
+import { useCSRFForm } from "@/hooks/use-csrf";
+import type { CollectionMembership } from "@/lib/collections";
+
+interface CollectionPickerProps {
+  postId: string;
+  variant?: "default" | "ghost" | "outline";
+  size?: "default" | "sm" | "lg" | "icon";
+  className?: string;
+  showLabel?: boolean;
+}
+
+/** "Add to collection" popover: toggle membership or create a collection inline. */
+export function CollectionPicker({
+  postId,
+  variant = "outline",
+  size = "sm",
+  className,
+  showLabel = false,
+}: CollectionPickerProps) {
+  const { createFormDataWithCSRF, isReady } = useCSRFForm();
+  const [open, setOpen] = useState(false);
+  const [memberships, setMemberships] = useState<CollectionMembership[] | null>(null);
+  const [newTitle, setNewTitle] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const load = () => {
+    startTransition(async () => {
+      const result = await getCollectionMembershipsAction(postId);
+      if (result.success) {
+        setMemberships(result.collections);
+      } else {
+        setOpen(false);
+        toast.error(result.error);
+      }
+    });
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) load();
+  };
+
+  const toggle = (collectionId: string) => {
+    startTransition(async () => {
+      const result = await toggleCollectionPostAction({ collectionId, postId });
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      setMemberships((prev) =>
+        prev?.map((c) => (c.id === collectionId ? { ...c, hasPost: result.added } : c)) ?? prev
+      );
+      toast.success(result.added ? "Added to collection" : "Removed from collection");
+    });
+  };
+
+  const create = (e: React.FormEvent) => {
+    e.preventDefault();
+    const title = newTitle.trim();
+    if (!title || !isReady) return;
+
+    startTransition(async () => {
+      const formData = createFormDataWithCSRF();
+      formData.set("title", title);
+      const created = await createCollectionAction(formData);
+      if (!created.success) {
+        toast.error(created.error);
+        return;
+      }
+      const added = await toggleCollectionPostAction({ collectionId: created.collection.id, postId });
+      setNewTitle("");
+      setMemberships((prev) => [
+        {
+          id: created.collection.id,
+          title: created.collection.title,
+          isPublic: false,
+          hasPost: added.success && added.added,
+        },
+        ...(prev ?? []),
+      ]);
+      toast.success(`Added to "${created.collection.title}"`);
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant={variant}
+          size={size}
+          className={className}
+          aria-label="Add to collection"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <FolderPlus className="h-4 w-4" />
+          {showLabel && "Collect"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-3 space-y-3" align="start" onClick={(e) => e.stopPropagation()}>
+        <p className="text-sm font-medium">Add to collection</p>
+
+        {memberships === null ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : memberships.length === 0 ? (
+          <p className="text-xs text-muted-foreground">You don&apos;t have any collections yet.</p>
+        ) : (
+          <ul className="max-h-56 space-y-1 overflow-y-auto">
+            {memberships.map((collection) => (
+              <li key={collection.id}>
+                <label className="flex cursor-pointer items-center gap-2 rounded-md px-1 py-1 text-sm hover:bg-muted">
+                  <Checkbox
+                    checked={collection.hasPost}
+                    disabled={isPending}
+                    onCheckedChange={() => toggle(collection.id)}
+                  />
+                  <span className="flex-1 truncate">{collection.title}</span>
+                  {!collection.isPublic && (
+                    <Lock className="h-3 w-3 text-muted-foreground" aria-label="Private" />
+                  )}
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={create} className="flex gap-2 border-t pt-3">
+          <Input
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            placeholder="New collection"
+            maxLength={100}
+            className="h-8 text-sm"
+            disabled={isPending}
+          />
+          <Button type="submit" size="sm" className="h-8" disabled={isPending || !newTitle.trim()}>
+            Add
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { IconStar } from "@/components/ui/icons";
+import { toggleCollectionStarAction } from "@/actions";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface CollectionStarButtonProps {
+  collectionId: string;
+  initialStarred?: boolean;
+  initialCount?: number;
+  className?: string;
+}
+
+export function CollectionStarButton({
+  collectionId,
+  initialStarred = false,
+  initialCount = 0,
+  className,
+}: CollectionStarButtonProps) {
+  const [isStarred, setIsStarred] = useState(initialStarred);
+  const [count, setCount] = useState(initialCount);
+  const [isPending, startTransition] = useTransition();
+
+  const handleToggle = () => {
+    const previous = { isStarred, count };
+    setIsStarred(!isStarred);
+    setCount(count + (isStarred ? -1 : 1));
+
+    startTransition(async () => {
+      const result = await toggleCollectionStarAction(collectionId);
+      if (result.success) {
+        setIsStarred(result.starred);
+        setCount(previous.count + (result.starred === previous.isStarred ? 0 : result.starred ? 1 : -1));
+        toast.success(result.starred ? "Collection starred" : "Collection unstarred");
+      } else {
+        setIsStarred(previous.isStarred);
+        setCount(previous.count);
+        toast.error(result.error);
+      }
+    });
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className={cn(
+        "transition-colors duration-300",
+        isStarred && "text-yellow-500 dark:text-yellow-400",
+        className
+      )}
+      aria-label={isStarred ? "Unstar collection" : "Star collection"}
+      onClick={handleToggle}
+      disabled={isPending}
+    >
+      <IconStar className={cn("h-4 w-4", isStarred && "fill-current")} />
+      {isStarred ? "Starred" : "Star"}
+      <span className="text-muted-foreground">{count}</span>
+    </Button>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import { useCallback, useEffect, useState, useTransition } from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Eye, EyeOff, MessageSquare, Pencil, Reply, Trash2 } from "@/components/ui/icons";
+import {
+  getCommentsAction,
+  createCommentAction,
+  updateCommentAction,
+  deleteCommentAction,
+  setCommentHiddenAction,
+} from "@/actions";
+import { COMMENT_MAX_LENGTH } from "@/lib/schemas";
+import type { CommentNode, CommentThread } from "@/lib/comments";
+import { cn } from "@/lib/utils";
+
+export interface InitialComments extends CommentThread {
+  isSignedIn: boolean;
+}
+
+interface CommentSectionProps {
+  postId: string;
+  // Server-rendered thread; loaded on mount when omitted (e.g. in the post modal)
+  initialComments?: InitialComments;
+  onCountChange?: (count: number) => void;
+  className?: string;
+}
+
+type ActionResult = { success: boolean; error?: string };
+
+function CommentComposer({
+  initialValue = "",
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  autoFocus,
+}: {
+  initialValue?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<ActionResult>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}) {
+  const [body, setBody] = useState(initialValue);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = () => {
+    startTransition(async () => {
+      const result = await onSubmit(body.trim());
+      if (result.success) {
+        setBody("");
+      } else {
+        toast.error(result.error || "Something went wrong");
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        maxLength={COMMENT_MAX_LENGTH}
+        rows={3}
+        autoFocus={autoFocus}
+        disabled={isPending}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">
+          *italic*, **bold**, links and lists · {body.length}/{COMMENT_MAX_LENGTH}
+        </span>
+        <div className="flex items-center gap-2">
+          {onCancel && (
+            <Button variant="ghost" size="sm" onClick={onCancel} disabled={isPending}>
+              Cancel
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSubmit} disabled={isPending || !body.trim()}>
+            {isPending ? "Posting..." : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CommentItem({
+  comment,
+  postId,
+  isSignedIn,
+  canModerate,
+  onChanged,
+}: {
+  comment: CommentNode;
+  postId: string;
+  isSignedIn: boolean;
+  canModerate: boolean;
+  onChanged: () => void;
+}) {
+  const [mode, setMode] = useState<"view" | "reply" | "edit">("view");
+  const [isPending, startTransition] = useTransition();
+
+  const run = (action: () => Promise<ActionResult>, successMessage: string) => {
+    startTransition(async () => {
+      const result = await action();
+      if (result.success) {
+        toast.success(successMessage);
+        onChanged();
+      } else {
+        toast.error(result.error || "Something went wrong");
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    if (!confirm("Delete this comment?")) return;
+    run(() => deleteCommentAction(comment.id), "Comment deleted");
+  };
+
+  const isHidden = comment.status === "HIDDEN";
+  const placeholder =
+    comment.status === "DELETED"
+      ? "This comment was deleted."
+      : comment.bodyHtml
+        ? null
+        : "This comment was hidden by a moderator.";
+  const authorName = comment.author?.name || (comment.author?.handle ? `@${comment.author.handle}` : "Anonymous");
+
+  return (
+    <li className="space-y-3">
+      <div className={cn("flex gap-3", isHidden && "opacity-60")}>
+        <Avatar className="h-8 w-8 shrink-0">
+          {comment.author?.avatar && <AvatarImage src={comment.author.avatar} alt={authorName} />}
+          <AvatarFallback className="text-xs">
+            {comment.author ? authorName.replace(/^@/, "").charAt(0).toUpperCase() : "?"}
+          </AvatarFallback>
+        </Avatar>
+
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            {comment.author ? (
+              comment.author.handle ? (
+                <Link href={`/u/${comment.author.handle}`} className="font-medium text-foreground hover:underline">
+                  {authorName}
+                </Link>
+              ) : (
+                <span className="font-medium text-foreground">{authorName}</span>
+              )
+            ) : (
+              <span className="italic">Deleted</span>
+            )}
+            {comment.isPostAuthor && comment.author && (
+              <Badge variant="secondary" className="px-1.5 py-0 text-[10px]">
+                Author
+              </Badge>
+            )}
+            <span>{formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}</span>
+            {comment.editedAt && <span>(edited)</span>}
+            {isHidden && comment.bodyHtml && (
+              <Badge variant="outline" className="px-1.5 py-0 text-[10px]">
+                Hidden
+              </Badge>
+            )}
+          </div>
+
+          {mode === "edit" ? (
+            <CommentComposer
+              initialValue={comment.body ?? ""}
+              placeholder="Edit your comment"
+              submitLabel="Save"
+              autoFocus
+              onCancel={() => setMode("view")}
+              onSubmit={async (body) => {
+                const result = await updateCommentAction({ commentId: comment.id, body });
+                if (result.success) {
+                  setMode("view");
+                  onChanged();
+                }
+                return result;
+              }}
+            />
+          ) : placeholder ? (
+            <p className="text-sm italic text-muted-foreground">{placeholder}</p>
+          ) : (
+            <div
+              className="text-sm break-words [&_a]:text-primary [&_a]:underline [&_ol]:list-decimal [&_ol]:pl-5 [&_p]:my-1 [&_ul]:list-disc [&_ul]:pl-5"
+              // Rendered and sanitized server-side by renderCommentBody()
+              dangerouslySetInnerHTML={{ __html: comment.bodyHtml }}
+            />
+          )}
+
+          {mode === "view" && comment.status !== "DELETED" && (
+            <div className="flex flex-wrap items-center gap-1 -ml-2">
+              {isSignedIn && comment.status === "VISIBLE" && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setMode("reply")}>
+                  <Reply className="h-3 w-3" />
+                  Reply
+                </Button>
+              )}
+              {comment.canEdit && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setMode("edit")}>
+                  <Pencil className="h-3 w-3" />
+                  Edit
+                </Button>
+              )}
+              {comment.canDelete && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={handleDelete}
+                  disabled={isPending}
+                >
+                  <Trash2 className="h-3 w-3" />
+                  Delete
+                </Button>
+              )}
+              {canModerate && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  disabled={isPending}
+                  onClick={() =>
+                    run(
+                      () => setCommentHiddenAction(comment.id, !isHidden),
+                      isHidden ? "Comment restored" : "Comment hidden"
+                    )
+                  }
+                >
+                  {isHidden ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                  {isHidden ? "Unhide" : "Hide"}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {mode === "reply" && (
+            <CommentComposer
+              placeholder={`Reply to ${authorName}`}
+              submitLabel="Reply"
+              autoFocus
+              onCancel={() => setMode("view")}
+              onSubmit={async (body) => {
+                const result = await createCommentAction({ postId, parentId: comment.id, body });
+                if (result.success) {
+                  setMode("view");
+                  onChanged();
+                }
+                return result;
+              }}
+            />
+          )}
+        </div>
+      </div>
+
+      {comment.replies.length > 0 && (
+        <ul className="ml-4 space-y-4 border-l pl-4">
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              postId={postId}
+              isSignedIn={isSignedIn}
+              canModerate={canModerate}
+              onChanged={onChanged}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function CommentSection({ postId, initialComments, onCountChange, className }: CommentSectionProps) {
+  const [thread, setThread] = useState<InitialComments | null>(initialComments ?? null);
+  const [loadError, setLoadError] = useState(false);
+
+  const refresh = useCallback(() => {
+    getCommentsAction(postId).then((result) => {
+      if (result.success) {
+        const { comments, count, canModerate, isSignedIn } = result;
+        setThread({ comments, count, canModerate, isSignedIn });
+        setLoadError(false);
+        onCountChange?.(count);
+      } else {
+        setLoadError(true);
+      }
+    });
+  }, [postId, onCountChange]);
+
+  useEffect(() => {
+    if (!initialComments) refresh();
+  }, [initialComments, refresh]);
+
+  return (
+    <section className={cn("space-y-6", className)} aria-label="Comments">
+      <h2 className="flex items-center gap-2 text-lg font-semibold">
+        <MessageSquare className="h-5 w-5" />
+        Comments
+        {thread && thread.count > 0 && (
+          <span className="text-sm font-normal text-muted-foreground">({thread.count})</span>
+        )}
+      </h2>
+
+      {thread?.isSignedIn ? (
+        <CommentComposer
+          placeholder="Share how you used this prompt, or suggest an improvement"
+          submitLabel="Comment"
+          onSubmit={async (body) => {
+            const result = await createCommentAction({ postId, body });
+            if (result.success) refresh();
+            return result;
+          }}
+        />
+      ) : thread ? (
+        <p className="text-sm text-muted-foreground">
+          <Link href="/signin" className="text-primary underline underline-offset-4">
+            Sign in
+          </Link>{" "}
+          to join the conversation.
+        </p>
+      ) : null}
+
+      {!thread ? (
+        <p className="text-sm text-muted-foreground">
+          {loadError ? "Comments couldn't be loaded." : "Loading comments..."}
+        </p>
+      ) : thread.comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet. Be the first to share your thoughts.</p>
+      ) : (
+        <ul className="space-y-6">
+          {thread.comments.map((comment) => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              postId={postId}
+              isSignedIn={thread.isSignedIn}
+              canModerate={thread.canModerate}
+              onChanged={refresh}
+            />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -21,6 +21,8 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import {
   MoreHorizontal,
   Edit,
@@ -30,12 +32,14 @@ import {
   Loader2,
   Star,
   StarOff,
+  MessageSquare,
 } from "@/components/ui/icons";
 import {
   togglePostPublishAction,
   deletePostAction,
   approvePostAction,
   rejectPostAction,
+  requestPostChangesAction,
   togglePostFeaturedAction,
 } from "@/actions/posts";
 
@@ -48,6 +52,34 @@ interface Post {
   authorId?: string;
 }
 
+type ModerationDecision = "APPROVED" | "REJECTED" | "CHANGES_REQUESTED";
+
+const MODERATION_COPY: Record<
+  ModerationDecision,
+  { title: string; description: string; confirm: string; pending: string }
+> = {
+  APPROVED: {
+    title: "Approve post",
+    description: "The post will be published. Optionally leave a note for the author.",
+    confirm: "Approve",
+    pending: "Approving...",
+  },
+  CHANGES_REQUESTED: {
+    title: "Request changes",
+    description:
+      "The post goes back to the author to edit and resubmit. Explain what needs to change.",
+    confirm: "Request changes",
+    pending: "Sending...",
+  },
+  REJECTED: {
+    title: "Reject post",
+    description:
+      "The post will be rejected and can no longer be edited by the author. Optionally explain why.",
+    confirm: "Reject",
+    pending: "Rejecting...",
+  },
+};
+
 interface PostActionsDropdownProps {
   post: Post;
   currentUserId?: string;
@@ -64,8 +96,10 @@ export function PostActionsDropdown({
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isToggling, setIsToggling] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
-  const [isApproving, setIsApproving] = useState(false);
-  const [isRejecting, setIsRejecting] = useState(false);
+  const [moderationDecision, setModerationDecision] =
+    useState<ModerationDecision | null>(null);
+  const [moderationNote, setModerationNote] = useState("");
+  const [isModerating, setIsModerating] = useState(false);
   const [isTogglingFeatured, setIsTogglingFeatured] = useState(false);
 
   const isAdmin = currentUserRole === "ADMIN";
@@ -131,50 +165,44 @@ export function PostActionsDropdown({
     });
   };
 
-  const handleApprove = async () => {
-    if (isPending) return;
-
-    setIsApproving(true);
-    startTransition(async () => {
-      try {
-        const result = await approvePostAction(post.id);
-        if (result.success) {
-          toast.success(result.message);
-
-          // Refresh the page to show updated post status
-          router.refresh();
-        }
-      } catch (error) {
-        console.error("Error approving post:", error);
-        toast.error(
-          error instanceof Error ? error.message : "Failed to approve post"
-        );
-      } finally {
-        setIsApproving(false);
-      }
-    });
+  const openModerationDialog = (decision: ModerationDecision) => {
+    setModerationNote("");
+    setModerationDecision(decision);
   };
 
-  const handleReject = async () => {
-    if (isPending) return;
+  const handleModerate = async () => {
+    if (isPending || !moderationDecision) return;
+
+    const decision = moderationDecision;
+    const note = moderationNote.trim();
+    if (decision === "CHANGES_REQUESTED" && !note) {
+      toast.error("Please describe the changes you'd like the author to make.");
+      return;
+    }
 
-    setIsRejecting(true);
+    setIsModerating(true);
     startTransition(async () => {
       try {
-        const result = await rejectPostAction(post.id);
+        const result =
+          decision === "APPROVED"
+            ? await approvePostAction(post.id, note)
+            : decision === "REJECTED"
+              ? await rejectPostAction(post.id, note)
+              : await requestPostChangesAction(post.id, note);
         if (result.success) {
           toast.success(result.message);
+          setModerationDecision(null);
 
           // Refresh the page to show updated post status
           router.refresh();
         }
       } catch (error) {
-        console.error("Error rejecting post:", error);
+        console.error("Error moderating post:", error);
         toast.error(
-          error instanceof Error ? error.message : "Failed to reject post"
+          error instanceof Error ? error.message : "Failed to update post status"
         );
       } finally {
-        setIsRejecting(false);
+        setIsModerating(false);
       }
     });
   };
@@ -237,26 +265,25 @@ export function PostActionsDropdown({
               {isPendingApproval && (
                 <>
                   <DropdownMenuItem
-                    onClick={handleApprove}
-                    disabled={isPending || isApproving}
+                    onClick={() => openModerationDialog("APPROVED")}
+                    disabled={isPending || isModerating}
                   >
-                    {isApproving ? (
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    ) : (
-                      <Eye className="mr-2 h-4 w-4" />
-                    )}
-                    {isApproving ? "Approving..." : "Approve"}
+                    <Eye className="mr-2 h-4 w-4" />
+                    Approve
                   </DropdownMenuItem>
                   <DropdownMenuItem
-                    onClick={handleReject}
-                    disabled={isPending || isRejecting}
+                    onClick={() => openModerationDialog("CHANGES_REQUESTED")}
+                    disabled={isPending || isModerating}
                   >
-                    {isRejecting ? (
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    ) : (
-                      <EyeOff className="mr-2 h-4 w-4" />
-                    )}
-                    {isRejecting ? "Rejecting..." : "Reject"}
+                    <MessageSquare className="mr-2 h-4 w-4" />
+                    Request changes
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => openModerationDialog("REJECTED")}
+                    disabled={isPending || isModerating}
+                  >
+                    <EyeOff className="mr-2 h-4 w-4" />
+                    Reject
                   </DropdownMenuItem>
                 </>
               )}
@@ -277,7 +304,9 @@ export function PostActionsDropdown({
                     ? "Processing..."
                     : post.isPublished
                       ? "Unpublish"
-                      : "Publish"}
+                      : post.status === "SCHEDULED"
+                        ? "Publish now"
+                        : "Publish"}
                 </DropdownMenuItem>
               )}
 
@@ -314,6 +343,63 @@ export function PostActionsDropdown({
         </DropdownMenuContent>
       </DropdownMenu>
 
+      <AlertDialog
+        open={moderationDecision !== null}
+        onOpenChange={(open) => !open && !isModerating && setModerationDecision(null)}
+      >
+        {moderationDecision && (
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {MODERATION_COPY[moderationDecision].title}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {MODERATION_COPY[moderationDecision].description}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor={`moderation-note-${post.id}`}>
+                Reviewer note
+                {moderationDecision === "CHANGES_REQUESTED" ? " *" : ""}
+              </Label>
+              <Textarea
+                id={`moderation-note-${post.id}`}
+                value={moderationNote}
+                onChange={(e) => setModerationNote(e.target.value)}
+                placeholder="Visible to the author in their moderation inbox..."
+                maxLength={2000}
+                rows={4}
+                disabled={isModerating}
+              />
+            </div>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isModerating}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(e) => {
+                  e.preventDefault();
+                  handleModerate();
+                }}
+                disabled={isModerating}
+                className={
+                  moderationDecision === "REJECTED"
+                    ? "bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    : undefined
+                }
+              >
+                {isModerating ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {MODERATION_COPY[moderationDecision].pending}
+                  </>
+                ) : (
+                  MODERATION_COPY[moderationDecision].confirm
+                )}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        )}
+      </AlertDialog>
+
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
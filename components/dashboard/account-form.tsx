@@ -12,10 +12,13 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { User, Mail, Calendar, Shield } from "@/components/ui/icons";
+import { User, Mail, Calendar, Shield, ExternalLink } from "@/components/ui/icons";
+import { MAX_PROFILE_LINKS } from "@/lib/schemas";
+import Link from "next/link";
 
 interface AccountFormProps {
   user: {
@@ -23,6 +26,9 @@ interface AccountFormProps {
     email: string;
     name: string | null;
     avatar: string | null;
+    handle: string | null;
+    bio: string | null;
+    links: string[];
     type: "FREE" | "PREMIUM" | null;
     role: "USER" | "ADMIN" | null;
     oauth: "GOOGLE" | "EMAIL";
@@ -125,6 +131,75 @@ export function AccountForm({ user }: AccountFormProps) {
                 </p>
               </div>
 
+              <div className="grid gap-2">
+                <Label htmlFor="handle">Profile Handle</Label>
+                <div className="flex items-center gap-2 max-w-md">
+                  <span className="text-sm text-muted-foreground">/u/</span>
+                  <Input
+                    id="handle"
+                    name="handle"
+                    type="text"
+                    defaultValue={user.handle || ""}
+                    placeholder="mary-jane"
+                    required
+                    minLength={3}
+                    maxLength={30}
+                    pattern="[a-z0-9][a-z0-9\-]{1,28}[a-z0-9]"
+                    title="3-30 lowercase letters, numbers or hyphens, starting and ending with a letter or number"
+                    disabled={isPending || !isReady}
+                    onInput={(e) => {
+                      const target = e.target as HTMLInputElement;
+                      const sanitized = target.value.toLowerCase().replace(/[^a-z0-9-]/g, "");
+                      if (target.value !== sanitized) {
+                        target.value = sanitized;
+                      }
+                    }}
+                  />
+                </div>
+                {user.handle && (
+                  <Link
+                    href={`/u/${user.handle}`}
+                    className="text-xs text-primary hover:underline inline-flex items-center gap-1"
+                  >
+                    <ExternalLink className="h-3 w-3" />
+                    View your public profile
+                  </Link>
+                )}
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="bio">Bio</Label>
+                <Textarea
+                  id="bio"
+                  name="bio"
+                  defaultValue={user.bio || ""}
+                  placeholder="A sentence or two about what you build"
+                  maxLength={200}
+                  rows={3}
+                  className="max-w-md"
+                  disabled={isPending || !isReady}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Shown on your public profile. Up to 200 characters.
+                </p>
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="links">Links</Label>
+                <Textarea
+                  id="links"
+                  name="links"
+                  defaultValue={user.links.join("\n")}
+                  placeholder={"https://github.com/you\nhttps://your-site.dev"}
+                  rows={3}
+                  className="max-w-md font-mono text-sm"
+                  disabled={isPending || !isReady}
+                />
+                <p className="text-xs text-muted-foreground">
+                  One URL per line, up to {MAX_PROFILE_LINKS}.
+                </p>
+              </div>
+
               <div className="grid gap-2">
                 <Label htmlFor="email">Email Address</Label>
                 <div className="flex items-center gap-2">
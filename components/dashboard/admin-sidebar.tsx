@@ -12,6 +12,10 @@ import {
   IconStar,
   IconUserCircle,
   IconNews,
+  IconInbox,
+  IconHistory,
+  IconAlertTriangle,
+  IconBan,
   type Icon,
 } from "@/components/ui/icons";
 import Link from "next/link";
@@ -74,6 +78,11 @@ const navigationData: {
       url: "/stars",
       icon: IconStar,
     },
+    {
+      title: "Inbox",
+      url: "/inbox",
+      icon: IconInbox,
+    },
   ],
 
   navSecondary: [
@@ -86,7 +95,6 @@ const navigationData: {
       title: "Settings",
       url: "/settings",
       icon: IconSettings,
-      adminOnly: true, // Admin only
     },
   ],
 
@@ -95,7 +103,6 @@ const navigationData: {
       title: "Posts",
       url: "/posts",
       icon: IconEdit,
-      // adminOnly: true, // Admin only
       allowUser: true, // Allow both USER and ADMIN roles (Temporary disabled)
     },
     {
@@ -108,13 +115,11 @@ const navigationData: {
       title: "Categories",
       url: "/categories",
       icon: IconCategory,
-      adminOnly: true, // Admin only
     },
     {
       title: "Tags",
       url: "/tags",
       icon: IconTags,
-      adminOnly: true, // Admin only
     },
     {
       title: "Users",
@@ -122,6 +127,24 @@ const navigationData: {
       icon: IconUserCircle,
       adminOnly: true,
     },
+    {
+      title: "Audit Log",
+      url: "/audit",
+      icon: IconHistory,
+      adminOnly: true,
+    },
+    {
+      title: "Alerts",
+      url: "/alerts",
+      icon: IconAlertTriangle,
+      adminOnly: true,
+    },
+    {
+      title: "Blocklist",
+      url: "/blocklist",
+      icon: IconBan,
+      adminOnly: true,
+    },
   ],
 };
 
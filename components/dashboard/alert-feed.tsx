@@ -0,0 +1,123 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { updateAlertStatusAction } from "@/actions";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Check, CheckCheck } from "@/components/ui/icons";
+import type { AlertStatus, LogSeverity } from "@/lib/db/schema";
+
+const SEVERITY_VARIANTS: Record<LogSeverity, "outline" | "secondary" | "default" | "destructive"> = {
+  LOW: "outline",
+  MEDIUM: "secondary",
+  HIGH: "default",
+  CRITICAL: "destructive",
+};
+
+const STATUS_LABELS: Record<AlertStatus, string> = {
+  OPEN: "Open",
+  ACKNOWLEDGED: "Acknowledged",
+  RESOLVED: "Resolved",
+};
+
+export interface AlertFeedEntry {
+  id: string;
+  title: string;
+  ruleName: string;
+  severity: LogSeverity;
+  status: AlertStatus;
+  groupValue: string | null;
+  eventCount: number;
+  lastEvent: unknown;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  acknowledgedAt: Date | null;
+  resolvedAt: Date | null;
+}
+
+interface AlertFeedProps {
+  alerts: AlertFeedEntry[];
+}
+
+export function AlertFeed({ alerts }: AlertFeedProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  function handleStatus(id: string, status: "ACKNOWLEDGED" | "RESOLVED") {
+    startTransition(async () => {
+      const result = await updateAlertStatusAction(id, status);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(status === "ACKNOWLEDGED" ? "Alert acknowledged" : "Alert resolved");
+      router.refresh();
+    });
+  }
+
+  if (alerts.length === 0) {
+    return (
+      <p className="rounded-lg border p-6 text-center text-sm text-muted-foreground">
+        No alerts here.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y rounded-lg border">
+      {alerts.map((alert) => (
+        <li key={alert.id} className="flex flex-wrap items-start gap-3 p-4 text-sm">
+          <div className="min-w-0 flex-1 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant={SEVERITY_VARIANTS[alert.severity]}>{alert.severity}</Badge>
+              <span className="font-medium">{alert.title}</span>
+              {alert.status !== "OPEN" && (
+                <Badge variant="outline">{STATUS_LABELS[alert.status]}</Badge>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {alert.ruleName} · {alert.eventCount} event{alert.eventCount === 1 ? "" : "s"} ·
+              First seen {new Date(alert.firstSeenAt).toLocaleString()} · Last seen{" "}
+              {new Date(alert.lastSeenAt).toLocaleString()}
+              {alert.resolvedAt && ` · Resolved ${new Date(alert.resolvedAt).toLocaleString()}`}
+            </p>
+            {alert.lastEvent != null && (
+              <details className="text-xs">
+                <summary className="cursor-pointer text-muted-foreground">Last event</summary>
+                <pre className="mt-1 whitespace-pre-wrap break-all font-mono">
+                  {JSON.stringify(alert.lastEvent, null, 2)}
+                </pre>
+              </details>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {alert.status === "OPEN" && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isPending}
+                onClick={() => handleStatus(alert.id, "ACKNOWLEDGED")}
+              >
+                <Check className="h-4 w-4" />
+                Acknowledge
+              </Button>
+            )}
+            {alert.status !== "RESOLVED" && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isPending}
+                onClick={() => handleStatus(alert.id, "RESOLVED")}
+              >
+                <CheckCheck className="h-4 w-4" />
+                Resolve
+              </Button>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,480 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import {
+  deleteAlertRuleAction,
+  saveAlertRuleAction,
+  toggleAlertRuleAction,
+} from "@/actions";
+import { useCSRFForm } from "@/hooks/use-csrf";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { IconAlertTriangle } from "@/components/ui/icons";
+import type { AlertGroupBy, LogSeverity } from "@/lib/db/schema";
+import type { ThreatType } from "@/lib/security/events";
+
+const SEVERITIES: LogSeverity[] = ["LOW", "MEDIUM", "HIGH", "CRITICAL"];
+
+const THREAT_TYPES: ThreatType[] = [
+  "AUTHENTICATION",
+  "AUTHORIZATION",
+  "INPUT_VALIDATION",
+  "RATE_LIMIT",
+  "FILE_UPLOAD",
+  "DATA_ACCESS",
+  "CSRF",
+  "CSP",
+  "SUSPICIOUS_ACTIVITY",
+  "SYSTEM",
+];
+
+const GROUP_BY_LABELS: Record<AlertGroupBy, string> = {
+  NONE: "All events together",
+  IP_ADDRESS: "Per IP address",
+  USER: "Per user",
+};
+
+export interface AlertRuleEntry {
+  id: string;
+  name: string;
+  enabled: boolean;
+  action: string | null;
+  threatType: string | null;
+  entityType: string | null;
+  minSeverity: LogSeverity | null;
+  threshold: number;
+  windowSeconds: number;
+  groupBy: AlertGroupBy;
+  severity: LogSeverity;
+  notifyEmail: boolean;
+  webhookUrl: string | null;
+}
+
+export interface AlertRulePreset {
+  key: string;
+  label: string;
+  rule: Partial<
+    Pick<AlertRuleEntry, "name" | "action" | "threatType" | "entityType" | "minSeverity">
+  > &
+    Pick<AlertRuleEntry, "threshold" | "windowSeconds" | "groupBy" | "severity">;
+}
+
+interface RuleFormValues {
+  ruleId: string | null;
+  name: string;
+  action: string;
+  threatType: string;
+  entityType: string;
+  minSeverity: string;
+  threshold: string;
+  windowSeconds: string;
+  groupBy: AlertGroupBy;
+  severity: LogSeverity;
+  notifyEmail: boolean;
+  webhookUrl: string;
+}
+
+const EMPTY_FORM: RuleFormValues = {
+  ruleId: null,
+  name: "",
+  action: "",
+  threatType: "",
+  entityType: "",
+  minSeverity: "",
+  threshold: "1",
+  windowSeconds: "300",
+  groupBy: "NONE",
+  severity: "HIGH",
+  notifyEmail: true,
+  webhookUrl: "",
+};
+
+function toFormValues(
+  rule: Partial<AlertRuleEntry> & Pick<AlertRuleEntry, "threshold" | "windowSeconds" | "groupBy" | "severity">
+): RuleFormValues {
+  return {
+    ...EMPTY_FORM,
+    ruleId: rule.id ?? null,
+    name: rule.name ?? "",
+    action: rule.action ?? "",
+    threatType: rule.threatType ?? "",
+    entityType: rule.entityType ?? "",
+    minSeverity: rule.minSeverity ?? "",
+    threshold: String(rule.threshold),
+    windowSeconds: String(rule.windowSeconds),
+    groupBy: rule.groupBy,
+    severity: rule.severity,
+    notifyEmail: rule.notifyEmail ?? true,
+    webhookUrl: rule.webhookUrl ?? "",
+  };
+}
+
+function describeRule(rule: AlertRuleEntry): string {
+  const filters = [
+    rule.action && `action "${rule.action}"`,
+    rule.threatType && `threat ${rule.threatType}`,
+    rule.entityType && `entity ${rule.entityType}`,
+    rule.minSeverity && `${rule.minSeverity}+`,
+  ].filter(Boolean);
+  const matching = filters.length > 0 ? filters.join(", ") : "any event";
+  const group = rule.groupBy === "NONE" ? "" : ` ${GROUP_BY_LABELS[rule.groupBy].toLowerCase()}`;
+  return rule.threshold > 1
+    ? `${rule.threshold}+ × ${matching} within ${rule.windowSeconds}s${group}`
+    : `Each ${matching}${group}`;
+}
+
+interface AlertRulesCardProps {
+  rules: AlertRuleEntry[];
+  presets: AlertRulePreset[];
+}
+
+export function AlertRulesCard({ rules, presets }: AlertRulesCardProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const { createFormDataWithCSRF, isReady } = useCSRFForm();
+  const [values, setValues] = useState<RuleFormValues>(EMPTY_FORM);
+
+  const set = <K extends keyof RuleFormValues>(key: K, value: RuleFormValues[K]) =>
+    setValues((current) => ({ ...current, [key]: value }));
+
+  function handleSave(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!isReady) {
+      toast.error("Security verification in progress. Please wait.");
+      return;
+    }
+
+    const form = e.currentTarget;
+    startTransition(async () => {
+      const formData = createFormDataWithCSRF(form);
+      if (values.ruleId) formData.set("ruleId", values.ruleId);
+      formData.set("threatType", values.threatType);
+      formData.set("minSeverity", values.minSeverity);
+      formData.set("groupBy", values.groupBy);
+      formData.set("severity", values.severity);
+      formData.set("notifyEmail", String(values.notifyEmail));
+      const result = await saveAlertRuleAction(formData);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(values.ruleId ? "Alert rule updated" : "Alert rule created");
+      setValues(EMPTY_FORM);
+      router.refresh();
+    });
+  }
+
+  function handleToggle(id: string, enabled: boolean) {
+    startTransition(async () => {
+      const result = await toggleAlertRuleAction(id, enabled);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      router.refresh();
+    });
+  }
+
+  function handleDelete(id: string) {
+    startTransition(async () => {
+      const result = await deleteAlertRuleAction(id);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Alert rule deleted");
+      if (values.ruleId === id) setValues(EMPTY_FORM);
+      router.refresh();
+    });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <IconAlertTriangle className="h-5 w-5" />
+          Alert Rules
+        </CardTitle>
+        <CardDescription>
+          Rules run over every security and audit event. Blank filters match anything; a
+          rule fires once its threshold is reached within the window.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No alert rules yet.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex flex-wrap items-center gap-3 p-3 text-sm">
+                <Switch
+                  checked={rule.enabled}
+                  disabled={isPending}
+                  onCheckedChange={(checked) => handleToggle(rule.id, checked)}
+                  aria-label={rule.enabled ? "Disable rule" : "Enable rule"}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{rule.name}</span>
+                    <Badge variant="outline">{rule.severity}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {describeRule(rule)}
+                    {rule.notifyEmail && " · Email"}
+                    {rule.webhookUrl && " · Webhook"}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isPending}
+                  onClick={() => setValues(toFormValues(rule))}
+                >
+                  Edit
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm" disabled={isPending}>
+                      Delete
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete &quot;{rule.name}&quot;?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Its alerts are deleted with it. Disable the rule instead to keep them.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => handleDelete(rule.id)}
+                        className="bg-destructive text-white hover:bg-destructive/90"
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleSave} className="space-y-4 rounded-md border p-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="text-sm font-medium">
+              {values.ruleId ? "Edit rule" : "New rule"}
+            </span>
+            {!values.ruleId && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-muted-foreground">Start from:</span>
+                {presets.map((preset) => (
+                  <Button
+                    key={preset.key}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setValues(toFormValues(preset.rule))}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-1 sm:col-span-2">
+              <Label htmlFor="alert-rule-name">Name</Label>
+              <Input
+                id="alert-rule-name"
+                name="name"
+                maxLength={100}
+                required
+                value={values.name}
+                onChange={(e) => set("name", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="alert-rule-severity">Alert severity</Label>
+              <Select value={values.severity} onValueChange={(v) => set("severity", v as LogSeverity)}>
+                <SelectTrigger id="alert-rule-severity" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEVERITIES.map((severity) => (
+                    <SelectItem key={severity} value={severity}>
+                      {severity}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="alert-rule-group-by">Count</Label>
+              <Select value={values.groupBy} onValueChange={(v) => set("groupBy", v as AlertGroupBy)}>
+                <SelectTrigger id="alert-rule-group-by" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(GROUP_BY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="alert-rule-action">Action</Label>
+              <Input
+                id="alert-rule-action"
+                name="action"
+                placeholder="e.g. User Role Changed"
+                maxLength={100}
+                value={values.action}
+                onChange={(e) => set("action", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="alert-rule-threat-type">Threat type</Label>
+              <Select
+                value={values.threatType || "any"}
+                onValueChange={(v) => set("threatType", v === "any" ? "" : v)}
+              >
+                <SelectTrigger id="alert-rule-threat-type" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any</SelectItem>
+                  {THREAT_TYPES.map((threatType) => (
+                    <SelectItem key={threatType} value={threatType}>
+                      {threatType}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="alert-rule-entity-type">Entity type</Label>
+              <Input
+                id="alert-rule-entity-type"
+                name="entityType"
+                placeholder="e.g. user"
+                maxLength={100}
+                value={values.entityType}
+                onChange={(e) => set("entityType", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="alert-rule-min-severity">Minimum event severity</Label>
+              <Select
+                value={values.minSeverity || "any"}
+                onValueChange={(v) => set("minSeverity", v === "any" ? "" : v)}
+              >
+                <SelectTrigger id="alert-rule-min-severity" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any</SelectItem>
+                  {SEVERITIES.map((severity) => (
+                    <SelectItem key={severity} value={severity}>
+                      {severity}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="alert-rule-threshold">Events to fire</Label>
+              <Input
+                id="alert-rule-threshold"
+                name="threshold"
+                type="number"
+                min={1}
+                max={10000}
+                required
+                value={values.threshold}
+                onChange={(e) => set("threshold", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="alert-rule-window">Window (seconds)</Label>
+              <Input
+                id="alert-rule-window"
+                name="windowSeconds"
+                type="number"
+                min={10}
+                max={86400}
+                required
+                value={values.windowSeconds}
+                onChange={(e) => set("windowSeconds", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1 sm:col-span-2">
+              <Label htmlFor="alert-rule-webhook">Webhook URL</Label>
+              <Input
+                id="alert-rule-webhook"
+                name="webhookUrl"
+                type="url"
+                placeholder="https://hooks.slack.com/services/…"
+                maxLength={500}
+                value={values.webhookUrl}
+                onChange={(e) => set("webhookUrl", e.target.value)}
+              />
+            </div>
+            <label className="flex items-center gap-2 self-end pb-2 text-sm">
+              <Switch
+                checked={values.notifyEmail}
+                onCheckedChange={(checked) => set("notifyEmail", checked)}
+              />
+              Email admins
+            </label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button type="submit" size="sm" disabled={isPending || !isReady}>
+              {values.ruleId ? "Save rule" : "Create rule"}
+            </Button>
+            {(values.ruleId || values.name) && (
+              <Button type="button" variant="outline" size="sm" onClick={() => setValues(EMPTY_FORM)}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { createApiKeyAction, revokeApiKeyAction } from "@/actions";
+import { useCSRFForm } from "@/hooks/use-csrf";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Copy, KeyRound } from "@/components/ui/icons";
+import type { ApiKeySummary } from "@/lib/api-keys";
+
+interface ApiKeysCardProps {
+  apiKeys: ApiKeySummary[];
+}
+
+export function ApiKeysCard({ apiKeys }: ApiKeysCardProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const { createFormDataWithCSRF, isReady } = useCSRFForm();
+  const [scope, setScope] = useState<"READ" | "WRITE">("READ");
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  function handleCreate(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!isReady) {
+      toast.error("Security verification in progress. Please wait.");
+      return;
+    }
+
+    const form = e.currentTarget;
+    startTransition(async () => {
+      const formData = createFormDataWithCSRF(form);
+      formData.set("scope", scope);
+      const result = await createApiKeyAction(formData);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      form.reset();
+      setNewKey(result.key);
+      router.refresh();
+    });
+  }
+
+  function handleRevoke(id: string) {
+    startTransition(async () => {
+      const result = await revokeApiKeyAction(id);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("API key revoked");
+      router.refresh();
+    });
+  }
+
+  async function copyNewKey() {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    toast.success("API key copied");
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Authenticate scripts and CI jobs against the REST API with{" "}
+          <code className="text-xs">X-API-Key: &lt;key&gt;</code>. Read keys can only
+          make GET requests.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {newKey && (
+          <div className="space-y-2 rounded-md border border-yellow-500/50 bg-yellow-500/10 p-4">
+            <p className="text-sm font-medium">
+              Copy your new key now — it won&apos;t be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-muted px-2 py-1 text-xs">{newKey}</code>
+              <Button type="button" variant="outline" size="sm" onClick={copyNewKey}>
+                <Copy className="h-4 w-4" />
+                Copy
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-3">
+          <div className="grid gap-2">
+            <Label htmlFor="api-key-name">Name</Label>
+            <Input
+              id="api-key-name"
+              name="name"
+              placeholder="CI sync job"
+              maxLength={50}
+              required
+              disabled={isPending}
+              className="w-64"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Scope</Label>
+            <Select value={scope} onValueChange={(v) => setScope(v as "READ" | "WRITE")}>
+              <SelectTrigger className="w-32" disabled={isPending}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="READ">Read</SelectItem>
+                <SelectItem value="WRITE">Read &amp; write</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={isPending || !isReady}>
+            Create key
+          </Button>
+        </form>
+
+        {apiKeys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You haven&apos;t created any API keys.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {apiKeys.map((key) => (
+              <li key={key.id} className="flex flex-wrap items-center gap-3 p-3 text-sm">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{key.name}</span>
+                    <Badge variant="outline">{key.scope === "WRITE" ? "Read & write" : "Read"}</Badge>
+                    {key.revokedAt && <Badge variant="secondary">Revoked</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    <code>{key.prefix}…</code> · Created{" "}
+                    {new Date(key.createdAt).toLocaleDateString()} ·{" "}
+                    {key.lastUsedAt
+                      ? `Last used ${new Date(key.lastUsedAt).toLocaleString()}${
+                          key.lastUsedIp ? ` from ${key.lastUsedIp}` : ""
+                        }`
+                      : "Never used"}
+                  </p>
+                </div>
+                {!key.revokedAt && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="outline" size="sm" disabled={isPending}>
+                        Revoke
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Revoke &quot;{key.name}&quot;?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Requests using this key will be rejected immediately. This can&apos;t
+                          be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleRevoke(key.id)}
+                          className="bg-destructive text-white hover:bg-destructive/90"
+                        >
+                          Revoke
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
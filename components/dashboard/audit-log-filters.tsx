@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Filter, X } from "@/components/ui/icons";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const SEVERITIES = ["LOW", "MEDIUM", "HIGH", "CRITICAL"] as const;
+
+export interface AuditLogFilterValues {
+  action?: string;
+  actor?: string;
+  entityType?: string;
+  entityId?: string;
+  severity?: string;
+  ip?: string;
+  from?: string;
+  to?: string;
+}
+
+interface AuditLogFiltersProps {
+  filters: AuditLogFilterValues;
+  entityTypes: string[];
+}
+
+export function AuditLogFilters({ filters, entityTypes }: AuditLogFiltersProps) {
+  const router = useRouter();
+  const [values, setValues] = useState<AuditLogFilterValues>(filters);
+  const selectedSeverities = (values.severity ?? "").split(",").filter(Boolean);
+
+  const set = (key: keyof AuditLogFilterValues, value: string) =>
+    setValues((current) => ({ ...current, [key]: value }));
+
+  const toggleSeverity = (severity: string, checked: boolean) => {
+    const next = checked
+      ? [...selectedSeverities, severity]
+      : selectedSeverities.filter((value) => value !== severity);
+    set("severity", SEVERITIES.filter((value) => next.includes(value)).join(","));
+  };
+
+  // Applying filters starts again from the first page
+  const applyFilters = (event: React.FormEvent) => {
+    event.preventDefault();
+    const params = new URLSearchParams();
+    Object.entries(values).forEach(([key, value]) => {
+      if (value && value.trim() && value !== "all") params.set(key, value.trim());
+    });
+    router.push(params.size > 0 ? `/audit?${params}` : "/audit");
+  };
+
+  const clearFilters = () => {
+    setValues({});
+    router.push("/audit");
+  };
+
+  const hasActiveFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <form onSubmit={applyFilters} className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center gap-2">
+        <Filter className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Filters</span>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="space-y-1">
+          <Label htmlFor="audit-action">Action</Label>
+          <Input
+            id="audit-action"
+            placeholder="e.g. Rate Limit"
+            value={values.action ?? ""}
+            onChange={(e) => set("action", e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-actor">Actor</Label>
+          <Input
+            id="audit-actor"
+            placeholder="User ID or email"
+            value={values.actor ?? ""}
+            onChange={(e) => set("actor", e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-entity-type">Entity type</Label>
+          <Select
+            value={values.entityType || "all"}
+            onValueChange={(value) => set("entityType", value)}
+          >
+            <SelectTrigger id="audit-entity-type" className="w-full">
+              <SelectValue placeholder="All entities" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All entities</SelectItem>
+              {entityTypes.map((entityType) => (
+                <SelectItem key={entityType} value={entityType}>
+                  {entityType}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-entity-id">Entity ID</Label>
+          <Input
+            id="audit-entity-id"
+            value={values.entityId ?? ""}
+            onChange={(e) => set("entityId", e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-ip">IP address</Label>
+          <Input
+            id="audit-ip"
+            value={values.ip ?? ""}
+            onChange={(e) => set("ip", e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-from">From</Label>
+          <Input
+            id="audit-from"
+            type="date"
+            value={values.from?.slice(0, 10) ?? ""}
+            onChange={(e) => set("from", e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-to">To</Label>
+          <Input
+            id="audit-to"
+            type="date"
+            value={values.to?.slice(0, 10) ?? ""}
+            onChange={(e) => set("to", e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <span className="text-sm font-medium leading-none">Severity</span>
+          <div className="flex h-9 flex-wrap items-center gap-3">
+            {SEVERITIES.map((severity) => (
+              <label key={severity} className="flex items-center gap-1.5 text-xs">
+                <Checkbox
+                  checked={selectedSeverities.includes(severity)}
+                  onCheckedChange={(checked) => toggleSeverity(severity, checked === true)}
+                />
+                {severity}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button type="submit" size="sm">
+          Apply
+        </Button>
+        {hasActiveFilters && (
+          <Button type="button" variant="outline" size="sm" onClick={clearFilters}>
+            <X className="h-4 w-4 mr-1" />
+            Clear Filters
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,323 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { addBlockAction, extendBlockAction, liftBlockAction } from "@/actions";
+import { useCSRFForm } from "@/hooks/use-csrf";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { BlockType } from "@/lib/db/schema";
+import type { BlockDuration } from "@/lib/schemas";
+
+const DURATION_LABELS: Record<BlockDuration, string> = {
+  "1h": "1 hour",
+  "24h": "24 hours",
+  "7d": "7 days",
+  "30d": "30 days",
+  permanent: "Until lifted",
+};
+
+const TYPE_LABELS: Record<BlockType, string> = {
+  IP: "IP address",
+  CIDR: "IP range (CIDR)",
+  USER: "User ID",
+};
+
+const VALUE_PLACEHOLDERS: Record<BlockType, string> = {
+  IP: "203.0.113.7",
+  CIDR: "203.0.113.0/24",
+  USER: "User ID",
+};
+
+export interface BlocklistRow {
+  id: string;
+  type: BlockType;
+  value: string;
+  reason: string | null;
+  automatic: boolean;
+  offense: number;
+  expiresAt: Date | null;
+  createdAt: Date;
+  liftedAt: Date | null;
+  createdByEmail: string | null;
+  liftedByEmail: string | null;
+  userEmail: string | null;
+}
+
+interface BlocklistManagerProps {
+  entries: BlocklistRow[];
+  history: boolean;
+}
+
+function formatTime(value: Date | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+// Expired blocks are closed with liftedAt set to their expiry
+function isExpiry(entry: BlocklistRow): boolean {
+  if (!entry.expiresAt) return false;
+  return !entry.liftedAt || new Date(entry.liftedAt).getTime() >= new Date(entry.expiresAt).getTime();
+}
+
+export function BlocklistManager({ entries, history }: BlocklistManagerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const { createFormDataWithCSRF, isReady } = useCSRFForm();
+  const [type, setType] = useState<BlockType>("IP");
+  const [duration, setDuration] = useState<BlockDuration>("24h");
+
+  function handleAdd(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!isReady) {
+      toast.error("Security verification in progress. Please wait.");
+      return;
+    }
+
+    const form = e.currentTarget;
+    startTransition(async () => {
+      const formData = createFormDataWithCSRF(form);
+      formData.set("type", type);
+      formData.set("duration", duration);
+      const result = await addBlockAction(formData);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      form.reset();
+      toast.success("Block added");
+      router.refresh();
+    });
+  }
+
+  function handleExtend(id: string, extension: BlockDuration) {
+    startTransition(async () => {
+      const result = await extendBlockAction(id, extension);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(extension === "permanent" ? "Block made permanent" : "Block extended");
+      router.refresh();
+    });
+  }
+
+  function handleLift(id: string) {
+    startTransition(async () => {
+      const result = await liftBlockAction(id);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Block lifted");
+      router.refresh();
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      {!history && (
+        <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-3 rounded-lg border p-4">
+          <div className="grid gap-2">
+            <Label htmlFor="block-type">Block</Label>
+            <Select value={type} onValueChange={(v) => setType(v as BlockType)}>
+              <SelectTrigger id="block-type" className="w-40" disabled={isPending}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="block-value">Value</Label>
+            <Input
+              id="block-value"
+              name="value"
+              placeholder={VALUE_PLACEHOLDERS[type]}
+              maxLength={100}
+              required
+              disabled={isPending}
+              className="w-64"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="block-reason">Reason</Label>
+            <Input
+              id="block-reason"
+              name="reason"
+              placeholder="Optional"
+              maxLength={200}
+              disabled={isPending}
+              className="w-64"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="block-duration">For</Label>
+            <Select value={duration} onValueChange={(v) => setDuration(v as BlockDuration)}>
+              <SelectTrigger id="block-duration" className="w-36" disabled={isPending}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DURATION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={isPending || !isReady}>
+            Add block
+          </Button>
+        </form>
+      )}
+
+      <div className="rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Blocked</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead>{history ? "Ended" : "Expires"}</TableHead>
+              {!history && <TableHead className="w-48" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={history ? 5 : 6} className="h-24 text-center text-muted-foreground">
+                  {history ? "No lifted or expired blocks." : "Nothing is blocked."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              entries.map((entry) => (
+                <TableRow key={entry.id} className="align-top">
+                  <TableCell>
+                    <Badge variant="outline">{entry.type}</Badge>{" "}
+                    <span className="font-mono text-xs">{entry.value}</span>
+                    {entry.userEmail && (
+                      <span className="block text-xs text-muted-foreground">{entry.userEmail}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-xs text-xs">{entry.reason ?? "—"}</TableCell>
+                  <TableCell className="text-xs">
+                    {entry.automatic ? (
+                      <Badge variant="secondary">Automatic · offense {entry.offense}</Badge>
+                    ) : (
+                      entry.createdByEmail ?? "Admin"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">{formatTime(entry.createdAt)}</TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">
+                    {history ? (
+                      <>
+                        {formatTime(entry.liftedAt ?? entry.expiresAt)}
+                        <span className="block text-muted-foreground">
+                          {entry.liftedByEmail ? `Lifted by ${entry.liftedByEmail}` : isExpiry(entry) ? "Expired" : "Lifted"}
+                        </span>
+                      </>
+                    ) : entry.expiresAt ? (
+                      formatTime(entry.expiresAt)
+                    ) : (
+                      "Until lifted"
+                    )}
+                  </TableCell>
+                  {!history && (
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        {entry.expiresAt && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="outline" size="sm" disabled={isPending}>
+                                Extend
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {(Object.keys(DURATION_LABELS) as BlockDuration[]).map((extension) => (
+                                <DropdownMenuItem
+                                  key={extension}
+                                  onSelect={() => handleExtend(entry.id, extension)}
+                                >
+                                  {extension === "permanent"
+                                    ? "Until lifted"
+                                    : `+ ${DURATION_LABELS[extension]}`}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm" disabled={isPending}>
+                              Lift
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Lift the block on {entry.value}?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Requests are allowed again within a few seconds. Violations
+                                still count towards the next automatic ban.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleLift(entry.id)}>
+                                Lift block
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
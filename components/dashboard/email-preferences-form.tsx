@@ -0,0 +1,109 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { updateEmailPreferencesAction } from "@/actions";
+import { useCSRFForm } from "@/hooks/use-csrf";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Mail } from "@/components/ui/icons";
+import {
+  EMAIL_CATEGORIES,
+  EMAIL_CATEGORY_OPTIONS,
+  isEmailEnabled,
+  type EmailPreferences,
+} from "@/lib/mail-categories";
+
+interface EmailPreferencesFormProps {
+  preferences: EmailPreferences;
+  isAdmin: boolean;
+}
+
+export function EmailPreferencesForm({ preferences, isAdmin }: EmailPreferencesFormProps) {
+  const categories = EMAIL_CATEGORIES.filter(
+    (category) => isAdmin || !EMAIL_CATEGORY_OPTIONS[category].adminOnly
+  );
+  const [isPending, startTransition] = useTransition();
+  const { createFormDataWithCSRF, isReady } = useCSRFForm();
+  const [enabled, setEnabled] = useState(() =>
+    Object.fromEntries(
+      EMAIL_CATEGORIES.map((category) => [category, isEmailEnabled(preferences, category)])
+    ) as Record<(typeof EMAIL_CATEGORIES)[number], boolean>
+  );
+
+  function handleSubmit() {
+    if (!isReady) {
+      toast.error("Security verification in progress. Please wait.");
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        const secureFormData = createFormDataWithCSRF();
+        for (const category of categories) {
+          if (enabled[category]) secureFormData.set(category, "on");
+        }
+
+        const result = await updateEmailPreferencesAction(secureFormData);
+        if (result.success) {
+          toast.success(result.message || "Email preferences saved");
+        } else {
+          toast.error(result.error || "Failed to save preferences. Please try again.");
+        }
+      } catch (error) {
+        console.error("Error saving email preferences:", error);
+        toast.error("An unexpected error occurred. Please try again.");
+      }
+    });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email
+        </CardTitle>
+        <CardDescription>
+          Choose which emails we send you. Every email also has an unsubscribe link.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form action={handleSubmit} className="space-y-4">
+          {categories.map((category) => (
+            <div key={category} className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor={`email-${category}`}>
+                  {EMAIL_CATEGORY_OPTIONS[category].label}
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  {EMAIL_CATEGORY_OPTIONS[category].description}
+                </p>
+              </div>
+              <Switch
+                id={`email-${category}`}
+                checked={enabled[category]}
+                onCheckedChange={(checked) =>
+                  setEnabled((current) => ({ ...current, [category]: checked }))
+                }
+                disabled={isPending || !isReady}
+              />
+            </div>
+          ))}
+
+          <Button type="submit" className="mt-2" disabled={isPending || !isReady}>
+            {isPending ? "Saving..." : isReady ? "Save Preferences" : "Initializing..."}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
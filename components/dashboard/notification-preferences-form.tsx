@@ -0,0 +1,105 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { updateNotificationPreferencesAction } from "@/actions";
+import { useCSRFForm } from "@/hooks/use-csrf";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Bell } from "@/components/ui/icons";
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_OPTIONS,
+  isNotificationEnabled,
+  type NotificationPreferences,
+} from "@/lib/notification-types";
+
+interface NotificationPreferencesFormProps {
+  preferences: NotificationPreferences;
+}
+
+export function NotificationPreferencesForm({ preferences }: NotificationPreferencesFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const { createFormDataWithCSRF, isReady } = useCSRFForm();
+  const [enabled, setEnabled] = useState(() =>
+    Object.fromEntries(
+      NOTIFICATION_TYPES.map((type) => [type, isNotificationEnabled(preferences, type)])
+    ) as Record<(typeof NOTIFICATION_TYPES)[number], boolean>
+  );
+
+  function handleSubmit() {
+    if (!isReady) {
+      toast.error("Security verification in progress. Please wait.");
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        const secureFormData = createFormDataWithCSRF();
+        for (const type of NOTIFICATION_TYPES) {
+          if (enabled[type]) secureFormData.set(type, "on");
+        }
+
+        const result = await updateNotificationPreferencesAction(secureFormData);
+        if (result.success) {
+          toast.success(result.message || "Notification preferences saved");
+        } else {
+          toast.error(result.error || "Failed to save preferences. Please try again.");
+        }
+      } catch (error) {
+        console.error("Error saving notification preferences:", error);
+        toast.error("An unexpected error occurred. Please try again.");
+      }
+    });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Notifications
+        </CardTitle>
+        <CardDescription>
+          Choose which events show up in the notification bell.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form action={handleSubmit} className="space-y-4">
+          {NOTIFICATION_TYPES.map((type) => (
+            <div key={type} className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor={`notification-${type}`}>
+                  {NOTIFICATION_TYPE_OPTIONS[type].label}
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  {NOTIFICATION_TYPE_OPTIONS[type].description}
+                </p>
+              </div>
+              <Switch
+                id={`notification-${type}`}
+                checked={enabled[type]}
+                onCheckedChange={(checked) =>
+                  setEnabled((current) => ({ ...current, [type]: checked }))
+                }
+                disabled={isPending || !isReady}
+              />
+            </div>
+          ))}
+
+          <Button type="submit" className="mt-2" disabled={isPending || !isReady}>
+            {isPending ? "Saving..." : isReady ? "Save Preferences" : "Initializing..."}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
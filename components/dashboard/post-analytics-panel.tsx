@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { BarChart3, Copy, Eye, Loader2 } from "@/components/ui/icons";
+import { getPostAnalyticsAction } from "@/actions/posts";
+import type { PostAnalytics } from "@/lib/post-events";
+
+const chartConfig = {
+  views: {
+    label: "Views",
+    color: "var(--primary)",
+  },
+  copies: {
+    label: "Copies",
+    color: "var(--chart-2)",
+  },
+} satisfies ChartConfig;
+
+const formatNumber = (num: number) => new Intl.NumberFormat("en-US").format(num);
+
+function formatDay(day: string) {
+  // Days are UTC dates; format in UTC so the label doesn't shift a day
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function PostAnalyticsPanel({ postId }: { postId: string }) {
+  const [analytics, setAnalytics] = useState<PostAnalytics | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getPostAnalyticsAction(postId)
+      .then((result) => {
+        if (!cancelled) setAnalytics(result.analytics);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error loading post analytics:", error);
+        setFailed(true);
+        toast.error(
+          error instanceof Error ? error.message : "Failed to load post analytics"
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
+  const recent = useMemo(() => {
+    if (!analytics) return null;
+    return analytics.daily.reduce(
+      (sum, d) => ({ views: sum.views + d.views, copies: sum.copies + d.copies }),
+      { views: 0, copies: 0 }
+    );
+  }, [analytics]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-4 w-4" />
+          Analytics
+        </CardTitle>
+        <CardDescription>
+          Unique views and copies per day (UTC), counted once per visitor per day.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {failed ? (
+          <p className="text-sm text-muted-foreground">Analytics are unavailable right now.</p>
+        ) : !analytics || !recent ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading analytics...
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              {[
+                { label: "Views (30 days)", value: recent.views, icon: Eye },
+                { label: "Copies (30 days)", value: recent.copies, icon: Copy },
+                { label: "Views (all time)", value: analytics.totals.views, icon: Eye },
+                { label: "Copies (all time)", value: analytics.totals.copies, icon: Copy },
+              ].map(({ label, value, icon: Icon }) => (
+                <div key={label} className="rounded-lg border p-4">
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Icon className="h-3 w-3" />
+                    {label}
+                  </p>
+                  <p className="mt-1 text-2xl font-semibold tabular-nums">
+                    {formatNumber(value)}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-[220px] w-full">
+              <BarChart data={analytics.daily} margin={{ top: 5, right: 10, left: 10, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" vertical={false} />
+                <XAxis
+                  dataKey="day"
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={24}
+                  tickFormatter={formatDay}
+                  className="text-xs"
+                />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />}
+                />
+                <Bar dataKey="views" fill="var(--color-views)" radius={2} />
+                <Bar dataKey="copies" fill="var(--color-copies)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
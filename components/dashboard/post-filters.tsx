@@ -49,6 +49,8 @@ export function PostFilters({
     { value: "published", label: "Published" },
     { value: "pending", label: "Pending Review" },
     { value: "draft", label: "Draft" },
+    { value: "scheduled", label: "Scheduled" },
+    { value: "changes_requested", label: "Changes Requested" },
     { value: "rejected", label: "Rejected" },
   ];
 
@@ -0,0 +1,285 @@
+"use client";
+
+import { useEffect, useMemo, useState, useTransition } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { History, Loader2, RotateCcw } from "@/components/ui/icons";
+import {
+  getPostRevisionsAction,
+  restorePostRevisionAction,
+} from "@/actions/posts";
+import type { PostRevision } from "@/lib/revisions";
+import { diffLinesSideBySide, hasChanges, type DiffRow } from "@/lib/diff";
+import { cn } from "@/lib/utils";
+
+interface PostRevisionHistoryProps {
+  postId: string;
+  canRestore: boolean;
+  /** Shown in the restore dialog when the restore will need re-approval. */
+  restoreRequiresApproval?: boolean;
+  onRestored?: () => void;
+}
+
+const SOURCE_LABELS: Record<PostRevision["source"], string> = {
+  CREATE: "Created",
+  UPDATE: "Edited",
+  IMPORT: "Imported",
+  RESTORE: "Restored",
+};
+
+function DiffTable({ label, rows }: { label: string; rows: DiffRow[] }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-muted-foreground">{label}</h4>
+      <div className="rounded-lg border overflow-hidden">
+        <div className="max-h-96 overflow-auto">
+          <table className="w-full table-fixed text-xs font-mono">
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={index} className="align-top">
+                  {[row.left, row.right].map((cell, side) => (
+                    <td
+                      key={side}
+                      className={cn(
+                        "w-1/2 px-2 py-0.5 whitespace-pre-wrap break-words",
+                        side === 0 && "border-r",
+                        !cell && "bg-muted/40",
+                        cell?.type === "removed" &&
+                          "bg-red-50 text-red-900 dark:bg-red-950 dark:text-red-100",
+                        cell?.type === "added" &&
+                          "bg-green-50 text-green-900 dark:bg-green-950 dark:text-green-100"
+                      )}
+                    >
+                      {cell && (
+                        <>
+                          <span className="inline-block w-8 select-none text-muted-foreground">
+                            {cell.lineNumber}
+                          </span>
+                          {cell.text || " "}
+                        </>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function PostRevisionHistory({
+  postId,
+  canRestore,
+  restoreRequiresApproval = false,
+  onRestored,
+}: PostRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<PostRevision[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<PostRevision | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    let cancelled = false;
+    getPostRevisionsAction(postId)
+      .then((result) => {
+        if (cancelled) return;
+        setRevisions(result.revisions);
+        // Default to the current revision (diffed against its predecessor)
+        setSelectedId(result.revisions[0]?.id ?? null);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error loading revisions:", error);
+        setRevisions([]);
+        toast.error(
+          error instanceof Error ? error.message : "Failed to load revision history"
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
+  // Compare the selected revision against the current one; when the current
+  // revision itself is selected, show what it changed from its predecessor.
+  const comparison = useMemo(() => {
+    if (!revisions || revisions.length === 0 || !selectedId) return null;
+    const index = revisions.findIndex((r) => r.id === selectedId);
+    if (index === -1) return null;
+    const [before, after] =
+      index === 0
+        ? [revisions[1] ?? null, revisions[0]]
+        : [revisions[index], revisions[0]];
+    if (!before) return null;
+
+    return {
+      before,
+      after,
+      title: diffLinesSideBySide(before.title, after.title),
+      description: diffLinesSideBySide(before.description ?? "", after.description ?? ""),
+      content: diffLinesSideBySide(before.content, after.content),
+    };
+  }, [revisions, selectedId]);
+
+  const handleRestore = (revision: PostRevision) => {
+    startTransition(async () => {
+      try {
+        const result = await restorePostRevisionAction(postId, revision.id);
+        if (result.success) {
+          toast.success(result.message);
+          setRestoreTarget(null);
+          onRestored?.();
+        }
+      } catch (error) {
+        console.error("Error restoring revision:", error);
+        toast.error(
+          error instanceof Error ? error.message : "Failed to restore revision"
+        );
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Revision History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {revisions === null ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading revisions...
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions recorded yet.</p>
+        ) : (
+          <>
+            <ul className="divide-y rounded-lg border">
+              {revisions.map((revision, index) => (
+                <li
+                  key={revision.id}
+                  className={cn(
+                    "flex items-center justify-between gap-4 px-4 py-3",
+                    revision.id === selectedId && "bg-muted/50"
+                  )}
+                >
+                  <button
+                    type="button"
+                    className="flex flex-1 items-center gap-3 text-left text-sm"
+                    onClick={() => setSelectedId(revision.id)}
+                  >
+                    <span className="font-medium">#{revision.revisionNumber}</span>
+                    <Badge variant="outline" className="text-xs">
+                      {SOURCE_LABELS[revision.source]}
+                    </Badge>
+                    {index === 0 && (
+                      <Badge variant="secondary" className="text-xs">
+                        Current
+                      </Badge>
+                    )}
+                    <span className="text-muted-foreground">
+                      {revision.user?.name ?? "Unknown"} ·{" "}
+                      {new Date(revision.createdAt).toLocaleString()}
+                    </span>
+                  </button>
+                  {canRestore && index > 0 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={isPending}
+                      onClick={() => setRestoreTarget(revision)}
+                    >
+                      <RotateCcw className="mr-2 h-3 w-3" />
+                      Restore
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {comparison ? (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+                  <span>Revision #{comparison.before.revisionNumber}</span>
+                  <span>Revision #{comparison.after.revisionNumber}</span>
+                </div>
+                {hasChanges(comparison.title) && (
+                  <DiffTable label="Title" rows={comparison.title} />
+                )}
+                {hasChanges(comparison.description) && (
+                  <DiffTable label="Description" rows={comparison.description} />
+                )}
+                {hasChanges(comparison.content) ? (
+                  <DiffTable label="Content" rows={comparison.content} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Content is unchanged between these revisions.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                This is the first revision — there is nothing earlier to compare against.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog
+        open={!!restoreTarget}
+        onOpenChange={(open) => !open && setRestoreTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Restore revision #{restoreTarget?.revisionNumber}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The title, description and content will be replaced with this
+              revision. The current version stays in the history.
+              {restoreRequiresApproval &&
+                " The post will be resubmitted for admin approval."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                if (restoreTarget) handleRestore(restoreTarget);
+              }}
+            >
+              {isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 h-4 w-4" />
+              )}
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
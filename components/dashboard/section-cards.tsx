@@ -40,6 +40,11 @@ interface DashboardStats {
   engagement: {
     totalStars: number;
   };
+  traffic: {
+    views: number;
+    visitors: number;
+    growthPercentage: number;
+  };
   popularCategories: Array<{
     id: string;
     name: string;
@@ -91,7 +96,7 @@ export function SectionCards({
     return (
       <div className="*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid grid-cols-1 gap-4 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs sm:grid-cols-2">
         {/* Loading skeleton cards */}
-        {Array.from({ length: 4 }, (_, i) => (
+        {Array.from({ length: 6 }, (_, i) => (
           <Card key={i} className="@container/card">
             <CardHeader>
               <CardDescription>
@@ -110,6 +115,9 @@ export function SectionCards({
     );
   }
 
+  const viewsGrowth = formatGrowthPercentage(
+    dashboardStats.traffic.growthPercentage
+  );
   const postsGrowth = formatGrowthPercentage(
     dashboardStats.posts.growthPercentage
   );
@@ -125,6 +133,46 @@ export function SectionCards({
 
   return (
     <div className="grid grid-cols-1 gap-4 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs sm:grid-cols-2">
+      {/* Page View Cards */}
+      <Card className="@container/card">
+        <CardHeader>
+          <CardDescription>Page Views</CardDescription>
+          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
+            {formatNumber(dashboardStats.traffic.views)}
+          </CardTitle>
+          <CardAction>
+            <Badge variant="outline">
+              {viewsGrowth.isPositive ? (
+                <IconTrendingUp />
+              ) : (
+                <IconTrendingDown />
+              )}
+              {viewsGrowth.value}
+            </Badge>
+          </CardAction>
+        </CardHeader>
+        <CardFooter className="flex-col items-start gap-1.5 text-sm">
+          <div className="line-clamp-1 flex gap-2 font-medium text-muted-foreground">
+            Last 30 days, compared with the 30 before
+          </div>
+        </CardFooter>
+      </Card>
+
+      {/* Visitor Cards */}
+      <Card className="@container/card">
+        <CardHeader>
+          <CardDescription>Unique Visitors</CardDescription>
+          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
+            {formatNumber(dashboardStats.traffic.visitors)}
+          </CardTitle>
+        </CardHeader>
+        <CardFooter className="flex-col items-start gap-1.5 text-sm">
+          <div className="line-clamp-1 flex gap-2 font-medium text-muted-foreground">
+            Daily unique visitors, summed over 30 days
+          </div>
+        </CardFooter>
+      </Card>
+
       {/* Post Cards */}
       <Card className="@container/card">
         <CardHeader>
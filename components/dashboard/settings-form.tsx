@@ -23,6 +23,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { Slider } from "@/components/ui/slider";
@@ -41,6 +42,7 @@ import {
 import {
   Shield,
   Settings2,
+  Gauge,
   Save,
   RotateCcw,
 } from "@/components/ui/icons";
@@ -49,6 +51,12 @@ import {
   updateSettingsAction,
   resetSettingsToDefaultAction,
 } from "@/actions/settings";
+import { rateLimitPolicyOverridesSchema } from "@/lib/schemas";
+import {
+  RATE_LIMIT_POLICY_GROUPS,
+  getDefaultRateLimitPolicies,
+  resolveRateLimitPolicies,
+} from "@/lib/rate-limit-policies";
 
 // Form validation schema
 const settingsFormSchema = z.object({
@@ -59,10 +67,12 @@ const settingsFormSchema = z.object({
   postsPageSize: z.number().min(6).max(100),
   featuredPostsLimit: z.number().min(1).max(50),
   allowUserPosts: z.boolean(),
+  trendingHalfLifeHours: z.number().min(1).max(336),
 
   // Security & Rate Limiting
   maxPostsPerDay: z.number().min(1).max(1000),
   enableAuditLogging: z.boolean(),
+  rateLimitPolicies: rateLimitPolicyOverridesSchema,
 });
 
 type FormData = z.infer<typeof settingsFormSchema>;
@@ -83,9 +93,13 @@ export function SettingsForm() {
       enableAuditLogging: true,
       postsPageSize: 12,
       featuredPostsLimit: 12,
+      trendingHalfLifeHours: 48,
+      rateLimitPolicies: getDefaultRateLimitPolicies(),
     },
   });
 
+  const defaultPolicies = getDefaultRateLimitPolicies();
+
   // Load current settings
   useEffect(() => {
     async function loadSettings() {
@@ -102,6 +116,8 @@ export function SettingsForm() {
             postsPageSize: settings.postsPageSize ?? undefined,
             featuredPostsLimit: settings.featuredPostsLimit ?? undefined,
             allowUserPosts: settings.allowUserPosts ?? true,
+            trendingHalfLifeHours: settings.trendingHalfLifeHours ?? 48,
+            rateLimitPolicies: resolveRateLimitPolicies(settings.rateLimitPolicies),
           });
         }
       } catch (error) {
@@ -277,6 +293,31 @@ export function SettingsForm() {
                       </FormItem>
                     )}
                   />
+
+                  <FormField
+                    control={form.control}
+                    name="trendingHalfLifeHours"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Trending Half-Life: {field.value}h</FormLabel>
+                        <FormControl>
+                          <Slider
+                            value={[field.value]}
+                            onValueChange={(value) => field.onChange(value[0])}
+                            max={336}
+                            min={1}
+                            step={1}
+                            className="w-full"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          How quickly stars stop counting towards the trending
+                          sort (1-336 hours)
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
 
                 <div className="grid gap-4 md:grid-cols-2">
@@ -427,6 +468,109 @@ export function SettingsForm() {
                 />
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Gauge className="h-5 w-5" />
+                  Rate Limit Policies
+                </CardTitle>
+                <CardDescription>
+                  Requests allowed per window for each policy. Changes apply
+                  within 15 seconds, without a restart, and are reported to
+                  clients in the RateLimit-* response headers.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {RATE_LIMIT_POLICY_GROUPS.map((group, index) => (
+                  <div key={group.label} className="space-y-4">
+                    {index > 0 && <Separator />}
+                    <div className="space-y-1">
+                      <h4 className="text-sm font-medium">{group.label}</h4>
+                      <p className="text-sm text-muted-foreground">
+                        {group.description}
+                      </p>
+                    </div>
+
+                    {group.policies.map((policy) => {
+                      const defaults = defaultPolicies[policy.name];
+                      const current = form.watch(`rateLimitPolicies.${policy.name}`);
+                      const isDefault =
+                        current?.limit === defaults.limit &&
+                        current?.windowSeconds === defaults.windowSeconds;
+
+                      return (
+                        <div
+                          key={policy.name}
+                          className="grid gap-3 rounded-lg border p-4 md:grid-cols-[1fr_8rem_8rem_auto] md:items-start"
+                        >
+                          <div className="space-y-0.5">
+                            <p className="text-sm font-medium">{policy.label}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {policy.description}. Default {defaults.limit} per{" "}
+                              {defaults.windowSeconds}s.
+                            </p>
+                          </div>
+                          <FormField
+                            control={form.control}
+                            name={`rateLimitPolicies.${policy.name}.limit`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="text-xs">Requests</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    min={1}
+                                    max={100000}
+                                    value={Number.isNaN(field.value) ? "" : field.value ?? ""}
+                                    onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`rateLimitPolicies.${policy.name}.windowSeconds`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="text-xs">Window (seconds)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    min={1}
+                                    max={86400}
+                                    value={Number.isNaN(field.value) ? "" : field.value ?? ""}
+                                    onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="md:mt-6"
+                            disabled={isDefault}
+                            onClick={() =>
+                              form.setValue(`rateLimitPolicies.${policy.name}`, defaults, {
+                                shouldDirty: true,
+                                shouldValidate: true,
+                              })
+                            }
+                          >
+                            Use default
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
 
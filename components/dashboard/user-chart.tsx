@@ -2,6 +2,8 @@
 
 import * as React from "react";
 import { Area, AreaChart, CartesianGrid, XAxis } from "recharts";
+import { format } from "date-fns";
+import type { DateRange } from "react-day-picker";
 
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useAnalyticsChart } from "@/hooks/use-analytics";
@@ -27,16 +29,25 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
 import { Badge } from "@/components/ui/badge";
 import {
   IconTrendingUp,
   IconTrendingDown,
   IconRefresh,
+  CalendarDays,
 } from "@/components/ui/icons";
 import { Button } from "@/components/ui/button";
 
 export const description =
-  "An interactive area chart showing real analytics data";
+  "An interactive area chart showing first-party page view analytics";
+
+type TimeRange = "7d" | "30d" | "90d" | "custom";
 
 const chartConfig = {
   visitors: {
@@ -54,18 +65,27 @@ const chartConfig = {
 
 export function ChartAreaInteractive() {
   const isMobile = useIsMobile();
-  const [timeRange, setTimeRange] = React.useState<"7d" | "30d" | "90d">("30d");
-  const isDevelopment = process.env.NODE_ENV !== "production";
+  const [timeRange, setTimeRange] = React.useState<TimeRange>("30d");
+  const [selectedDays, setSelectedDays] = React.useState<DateRange | undefined>();
+
+  // Only query a custom range once both ends are picked
+  const customRange =
+    timeRange === "custom" && selectedDays?.from && selectedDays.to
+      ? {
+          from: format(selectedDays.from, "yyyy-MM-dd"),
+          to: format(selectedDays.to, "yyyy-MM-dd"),
+        }
+      : null;
 
-  // Use the analytics hook to fetch real data
   const { chartData, totalVisitors, isLoading, error, refetch } =
     useAnalyticsChart({
-      range: timeRange,
+      range: timeRange === "custom" ? "30d" : timeRange,
+      customRange,
       refreshInterval: 5 * 60 * 1000, // Refresh every 5 minutes
     });
 
   React.useEffect(() => {
-    if (isMobile && timeRange !== "7d") {
+    if (isMobile && (timeRange === "30d" || timeRange === "90d")) {
       setTimeRange("7d");
     }
   }, [isMobile, timeRange]);
@@ -145,20 +165,13 @@ export function ChartAreaInteractive() {
               {isLoading && (
                 <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
               )}
-              {isDevelopment && (
-                <Badge variant="secondary" className="text-xs">
-                  DEV
-                </Badge>
-              )}
             </CardTitle>
             <CardDescription>
               <span className="hidden @[540px]/card:block">
                 {formatNumber(totalVisitors)} unique visitors
-                {isDevelopment && " (mock data)"}
               </span>
               <span className="@[540px]/card:hidden">
                 {formatNumber(totalVisitors)} visitors
-                {isDevelopment && " (mock)"}
               </span>
             </CardDescription>
           </div>
@@ -191,7 +204,7 @@ export function ChartAreaInteractive() {
               type="single"
               value={timeRange}
               onValueChange={(value) =>
-                value && setTimeRange(value as "7d" | "30d" | "90d")
+                value && setTimeRange(value as TimeRange)
               }
               variant="outline"
               className="hidden *:data-[slot=toggle-group-item]:!px-4 @[767px]/card:flex"
@@ -199,12 +212,11 @@ export function ChartAreaInteractive() {
               <ToggleGroupItem value="90d">Last 3 months</ToggleGroupItem>
               <ToggleGroupItem value="30d">Last 30 days</ToggleGroupItem>
               <ToggleGroupItem value="7d">Last 7 days</ToggleGroupItem>
+              <ToggleGroupItem value="custom">Custom</ToggleGroupItem>
             </ToggleGroup>
             <Select
               value={timeRange}
-              onValueChange={(value) =>
-                setTimeRange(value as "7d" | "30d" | "90d")
-              }
+              onValueChange={(value) => setTimeRange(value as TimeRange)}
             >
               <SelectTrigger className="w-[140px] @[767px]/card:hidden">
                 <SelectValue />
@@ -213,8 +225,30 @@ export function ChartAreaInteractive() {
                 <SelectItem value="90d">Last 3 months</SelectItem>
                 <SelectItem value="30d">Last 30 days</SelectItem>
                 <SelectItem value="7d">Last 7 days</SelectItem>
+                <SelectItem value="custom">Custom range</SelectItem>
               </SelectContent>
             </Select>
+            {timeRange === "custom" && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm" className="gap-2">
+                    <CalendarDays className="h-4 w-4" />
+                    {selectedDays?.from && selectedDays.to
+                      ? `${format(selectedDays.from, "MMM d")} – ${format(selectedDays.to, "MMM d, yyyy")}`
+                      : "Pick dates"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="end">
+                  <Calendar
+                    mode="range"
+                    selected={selectedDays}
+                    onSelect={setSelectedDays}
+                    numberOfMonths={isMobile ? 1 : 2}
+                    disabled={{ after: new Date() }}
+                  />
+                </PopoverContent>
+              </Popover>
+            )}
           </div>
         </CardAction>
       </CardHeader>
@@ -239,10 +273,12 @@ export function ChartAreaInteractive() {
               tickLine={false}
               axisLine={false}
               tickFormatter={(value) => {
-                const date = new Date(value);
+                // Dates are already bucketed in the viewer's timezone; format as-is
+                const date = new Date(`${value}T00:00:00Z`);
                 return date.toLocaleDateString("en-US", {
                   month: "short",
                   day: "numeric",
+                  timeZone: "UTC",
                 });
               }}
               className="text-xs"
@@ -1,12 +1,15 @@
 "use client";
 
+import { CategoryFollowButton } from "@/components/category-follow-button";
 import { DirectoryFilters } from "@/components/directory-filters";
 import { InfinitePostGrid } from "@/components/infinite-scroll-grid";
 import { Container } from "@/components/ui/container";
 import { PostWithInteractions } from "@/lib/content";
 import { Button } from "@/components/ui/button";
-import { Search } from "@/components/ui/icons";
+import { Search, Users } from "@/components/ui/icons";
+import { cn } from "@/lib/utils";
 import Link from "next/link";
+import { useSearchParams } from "next/navigation";
 
 interface DirectoryClientWrapperProps {
   initialPosts: PostWithInteractions[];
@@ -18,8 +21,53 @@ interface DirectoryClientWrapperProps {
     totalCount: number;
     hasNextPage: boolean;
   };
+  categoryId?: string;
   categoryName?: string;
   categoryDescription?: string;
+  /** Whether the signed-in user follows the category in `categoryId` */
+  isFollowingCategory?: boolean;
+  isSignedIn?: boolean;
+  /** Listing only posts by followed authors (?feed=following) */
+  isFollowingFeed?: boolean;
+}
+
+// All / Following switch; keeps the kind and sort filters across tabs
+function FeedTabs({ isFollowingFeed }: { isFollowingFeed: boolean }) {
+  const searchParams = useSearchParams();
+
+  const hrefFor = (following: boolean) => {
+    const params = new URLSearchParams();
+    const kind = searchParams?.get("kind");
+    const sort = searchParams?.get("sort");
+    if (kind) params.set("kind", kind);
+    if (sort) params.set("sort", sort);
+    if (following) params.set("feed", "following");
+    const query = params.toString();
+    return query ? `/directory?${query}` : "/directory";
+  };
+
+  const tabs = [
+    { label: "All", following: false },
+    { label: "Following", following: true },
+  ];
+
+  return (
+    <div className="inline-flex items-center rounded-lg bg-muted p-1 text-sm">
+      {tabs.map((tab) => (
+        <Link
+          key={tab.label}
+          href={hrefFor(tab.following)}
+          aria-current={tab.following === isFollowingFeed ? "page" : undefined}
+          className={cn(
+            "rounded-md px-3 py-1 font-medium text-muted-foreground transition-colors hover:text-foreground",
+            tab.following === isFollowingFeed && "bg-background text-foreground shadow-sm"
+          )}
+        >
+          {tab.label}
+        </Link>
+      ))}
+    </div>
+  );
 }
 
 export function DirectoryClientWrapper({
@@ -27,20 +75,36 @@ export function DirectoryClientWrapper({
   userType,
   pageSize,
   pagination,
+  categoryId,
   categoryName,
   categoryDescription,
+  isFollowingCategory = false,
+  isSignedIn = false,
+  isFollowingFeed = false,
 }: DirectoryClientWrapperProps) {
   return (
     <Container>
       {/* Header */}
       <div className="flex flex-col md:flex-row md:items-start md:justify-between mb-8 gap-4">
         <div className="flex-1">
-          <h1 className="text-2xl font-bold mb-2">
-            {categoryName ?? "Prompt Directory"}
-          </h1>
+          <div className="flex items-center gap-3 mb-2">
+            <h1 className="text-2xl font-bold">
+              {isFollowingFeed ? "Following" : (categoryName ?? "Prompt Directory")}
+            </h1>
+            {isSignedIn && !isFollowingFeed && categoryId && categoryName && (
+              <CategoryFollowButton
+                key={categoryId}
+                categoryId={categoryId}
+                categoryName={categoryName}
+                initialFollowing={isFollowingCategory}
+              />
+            )}
+          </div>
           <p className="text-muted-foreground text-lg max-w-2xl">
-            {categoryDescription ??
-              "Find the perfect prompt for your creative and professional needs."}
+            {isFollowingFeed
+              ? "New prompts from the authors you follow."
+              : (categoryDescription ??
+                "Find the perfect prompt for your creative and professional needs.")}
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -48,6 +112,12 @@ export function DirectoryClientWrapper({
         </div>
       </div>
 
+      {(isSignedIn || isFollowingFeed) && !categoryName && (
+        <div className="mb-4">
+          <FeedTabs isFollowingFeed={isFollowingFeed} />
+        </div>
+      )}
+
       {/* Results Summary */}
       <div className="mb-6">
         <p className="text-xs text-muted-foreground">
@@ -64,6 +134,25 @@ export function DirectoryClientWrapper({
           userType={userType}
           pageSize={pageSize}
         />
+      ) : isFollowingFeed ? (
+        <div className="text-center py-16">
+          <div className="mx-auto w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+            <Users className="h-8 w-8 text-muted-foreground/50" />
+          </div>
+          <h3 className="text-lg font-semibold mb-2">
+            {isSignedIn ? "Nothing from your authors yet" : "Sign in to follow authors"}
+          </h3>
+          <p className="text-muted-foreground mb-6 max-w-md mx-auto">
+            {isSignedIn
+              ? "Follow authors from their profile pages and their new prompts will show up here."
+              : "Follow authors you like and their new prompts will show up here."}
+          </p>
+          <Button variant="outline" asChild>
+            <Link href={isSignedIn ? "/directory" : "/signin"}>
+              {isSignedIn ? "Browse all prompts" : "Sign in"}
+            </Link>
+          </Button>
+        </div>
       ) : (
         <div className="text-center py-16">
           <div className="mx-auto w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
@@ -18,6 +18,7 @@ import {
   useEffect,
   useRef,
 } from "react";
+import { POST_KINDS, POST_KIND_LABELS, postKindSlug } from "@/lib/post-kinds";
 
 type SortOption = "relevance" | "latest" | "popular" | "trending";
 
@@ -28,11 +29,18 @@ const SORT_OPTIONS: { value: SortOption; label: string }[] = [
   { value: "trending", label: "Trending" },
 ];
 
+const KIND_OPTIONS: { value: string; label: string }[] = [
+  { value: "all", label: "All Kinds" },
+  ...POST_KINDS.map((kind) => ({ value: postKindSlug(kind), label: POST_KIND_LABELS[kind] })),
+];
+
 interface DirectoryFiltersProps {
   showSort?: boolean;
+  /** Search opens /search, so listings scoped to one author hide it */
+  showSearch?: boolean;
 }
 
-export function DirectoryFilters({ showSort = true }: DirectoryFiltersProps) {
+export function DirectoryFilters({ showSort = true, showSearch = true }: DirectoryFiltersProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [isPending, startTransition] = useTransition();
@@ -41,6 +49,7 @@ export function DirectoryFilters({ showSort = true }: DirectoryFiltersProps) {
   const inputRef = useRef<HTMLInputElement>(null);
 
   const currentSort = (searchParams?.get("sort") as SortOption) ?? "latest";
+  const currentKind = searchParams?.get("kind") ?? "all";
   const [sortBy, setSortBy] = useState<SortOption>("latest");
 
   useEffect(() => {
@@ -75,6 +84,7 @@ export function DirectoryFilters({ showSort = true }: DirectoryFiltersProps) {
       const params = new URLSearchParams();
       params.set("q", trimmed);
       params.set("sort", "relevance");
+      if (currentKind !== "all") params.set("kind", currentKind);
 
       startTransition(() => {
         router.push(`/search?${params.toString()}`);
@@ -82,20 +92,19 @@ export function DirectoryFilters({ showSort = true }: DirectoryFiltersProps) {
         setSearchQuery("");
       });
     },
-    [searchQuery, router]
+    [searchQuery, router, currentKind]
   );
 
-  const handleSortChange = useCallback(
-    (value: string) => {
-      setSortBy(value as SortOption);
-
+  // Replace one query param (dropping it when it equals the default) and navigate
+  const pushParam = useCallback(
+    (key: string, value: string, defaultValue: string) => {
       if (!searchParams || !router) return;
       const params = new URLSearchParams(searchParams.toString());
 
-      if (value && value !== "latest") {
-        params.set("sort", value);
+      if (value && value !== defaultValue) {
+        params.set(key, value);
       } else {
-        params.delete("sort");
+        params.delete(key);
       }
 
       const currentPath =
@@ -109,6 +118,19 @@ export function DirectoryFilters({ showSort = true }: DirectoryFiltersProps) {
     [router, searchParams]
   );
 
+  const handleSortChange = useCallback(
+    (value: string) => {
+      setSortBy(value as SortOption);
+      pushParam("sort", value, "latest");
+    },
+    [pushParam]
+  );
+
+  const handleKindChange = useCallback(
+    (value: string) => pushParam("kind", value, "all"),
+    [pushParam]
+  );
+
   const clearSearch = useCallback(() => {
     setSearchQuery("");
     inputRef.current?.focus();
@@ -124,57 +146,75 @@ export function DirectoryFilters({ showSort = true }: DirectoryFiltersProps) {
   return (
     <div className="flex items-center gap-2">
       {/* Expandable search */}
-      <div className="flex items-center gap-2">
-        {isSearchOpen ? (
-          <form onSubmit={handleSearchSubmit} className="flex items-center gap-2 animate-in fade-in slide-in-from-right-4 duration-200">
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-4 w-4 pointer-events-none" />
-              <Input
-                ref={inputRef}
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                placeholder="Search prompts, tags, categories..."
-                className="pl-9 pr-8 h-9 w-[240px] sm:w-[300px] text-sm"
-                autoComplete="off"
-                spellCheck={false}
-              />
-              {searchQuery.length > 0 && (
-                <button
-                  type="button"
-                  onClick={clearSearch}
-                  className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 rounded-full hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
-                  aria-label="Clear search"
-                >
-                  <X className="h-3.5 w-3.5" />
-                </button>
-              )}
-            </div>
-            <Button type="submit" size="sm" disabled={isPending || !searchQuery.trim()}>
-              Search
-            </Button>
+      {showSearch && (
+        <div className="flex items-center gap-2">
+          {isSearchOpen ? (
+            <form onSubmit={handleSearchSubmit} className="flex items-center gap-2 animate-in fade-in slide-in-from-right-4 duration-200">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-4 w-4 pointer-events-none" />
+                <Input
+                  ref={inputRef}
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search prompts, tags, categories..."
+                  className="pl-9 pr-8 h-9 w-[240px] sm:w-[300px] text-sm"
+                  autoComplete="off"
+                  spellCheck={false}
+                />
+                {searchQuery.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={clearSearch}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 rounded-full hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                    aria-label="Clear search"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+              <Button type="submit" size="sm" disabled={isPending || !searchQuery.trim()}>
+                Search
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9 shrink-0"
+                onClick={toggleSearch}
+                aria-label="Close search"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </form>
+          ) : (
             <Button
-              type="button"
-              variant="ghost"
+              variant="outline"
               size="icon"
-              className="h-9 w-9 shrink-0"
+              className="h-9 w-9"
               onClick={toggleSearch}
-              aria-label="Close search"
+              aria-label="Open search"
             >
-              <X className="h-4 w-4" />
+              <Search className="h-4 w-4" />
             </Button>
-          </form>
-        ) : (
-          <Button
-            variant="outline"
-            size="icon"
-            className="h-9 w-9"
-            onClick={toggleSearch}
-            aria-label="Open search"
-          >
-            <Search className="h-4 w-4" />
-          </Button>
-        )}
-      </div>
+          )}
+        </div>
+      )}
+
+      {/* Kind filter */}
+      {!isSearchOpen && (
+        <Select value={currentKind} onValueChange={handleKindChange}>
+          <SelectTrigger className="w-auto min-w-[130px] h-9 text-sm" aria-label="Filter by kind">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {KIND_OPTIONS.map((opt) => (
+              <SelectItem key={opt.value} value={opt.value}>
+                {opt.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
 
       {/* Sort dropdown */}
       {showSort && !isSearchOpen && (
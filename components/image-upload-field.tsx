@@ -0,0 +1,131 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { ImageIcon, Loader2, X } from "@/components/ui/icons";
+import { useImageUpload } from "@/hooks/use-image-upload";
+import { UPLOAD_IMAGE_TYPES } from "@/lib/schemas";
+import type { UploadPurpose } from "@/lib/db/schema";
+import { cn } from "@/lib/utils";
+
+interface ImageUploadFieldProps {
+  id: string;
+  /** Form field name; renders a hidden input so native FormData picks it up */
+  name?: string;
+  value: string;
+  onChange: (url: string) => void;
+  purpose: UploadPurpose;
+  disabled?: boolean;
+  previewAlt?: string;
+}
+
+/** Image URL field that also accepts a dropped or chosen file and uploads it. */
+export function ImageUploadField({
+  id,
+  name,
+  value,
+  onChange,
+  purpose,
+  disabled,
+  previewAlt = "Image preview",
+}: ImageUploadFieldProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const { upload, isUploading } = useImageUpload(purpose);
+  const isDisabled = disabled || isUploading;
+
+  async function handleFile(file: File | undefined) {
+    if (!file || isDisabled) return;
+    const uploaded = await upload(file);
+    if (uploaded) onChange(uploaded.url);
+  }
+
+  return (
+    <div className="space-y-2">
+      {name && <input type="hidden" name={name} value={value} />}
+      <Input
+        id={id}
+        type="url"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="https://example.com/image.jpg"
+        disabled={isDisabled}
+      />
+
+      <div
+        role="button"
+        tabIndex={isDisabled ? -1 : 0}
+        aria-disabled={isDisabled}
+        onClick={() => !isDisabled && fileInputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (!isDisabled && (e.key === "Enter" || e.key === " ")) {
+            e.preventDefault();
+            fileInputRef.current?.click();
+          }
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!isDisabled) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          void handleFile(e.dataTransfer.files[0]);
+        }}
+        className={cn(
+          "flex cursor-pointer items-center justify-center gap-2 rounded-md border border-dashed border-input px-3 py-4 text-xs text-muted-foreground transition-colors",
+          "hover:bg-muted/50",
+          isDragging && "border-primary bg-muted/50",
+          isDisabled && "pointer-events-none opacity-60"
+        )}
+      >
+        {isUploading ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Uploading…
+          </>
+        ) : (
+          <>
+            <ImageIcon className="h-4 w-4" />
+            Drop an image here or click to upload
+          </>
+        )}
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={Object.keys(UPLOAD_IMAGE_TYPES).join(",")}
+        className="hidden"
+        onChange={(e) => {
+          void handleFile(e.target.files?.[0]);
+          e.target.value = "";
+        }}
+      />
+
+      {value && (
+        <div className="relative">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={value}
+            alt={previewAlt}
+            className="rounded-md max-h-40 w-full object-cover border border-border"
+            onError={(e) => (e.currentTarget.style.display = "none")}
+          />
+          <Button
+            type="button"
+            variant="secondary"
+            size="icon"
+            className="absolute right-2 top-2 h-7 w-7"
+            onClick={() => onChange("")}
+            disabled={isDisabled}
+            aria-label="Remove image"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ interface InfinitePostGridProps {
   hasNextPage: boolean;
   userType?: "FREE" | "PREMIUM" | null;
   pageSize: number;
+  /** Handle of the author whose posts are listed (profile pages) */
+  author?: string;
 }
 
 interface PostsResponse {
@@ -32,6 +34,7 @@ export function InfinitePostGrid({
   hasNextPage: initialHasNextPage,
   userType,
   pageSize,
+  author,
 }: InfinitePostGridProps) {
   const [posts, setPosts] = useState<PostWithInteractions[]>(initialPosts);
   const [currentPage, setCurrentPage] = useState(1);
@@ -56,13 +59,17 @@ export function InfinitePostGrid({
     const category = searchParams.get("category");
     const subcategory = searchParams.get("subcategory");
     const premium = searchParams.get("premium");
+    const kind = searchParams.get("kind");
     const sort = searchParams.get("sort");
+    const feed = searchParams.get("feed");
 
     if (q) params.set("q", q);
     if (category) params.set("category", category);
     if (subcategory) params.set("subcategory", subcategory);
     if (premium) params.set("premium", premium);
+    if (kind) params.set("kind", kind);
     if (sort) params.set("sort", sort);
+    if (feed) params.set("feed", feed);
 
     return params.toString();
   }, [searchParams]);
@@ -125,13 +132,18 @@ export function InfinitePostGrid({
       const category = searchParams?.get("category");
       const subcategory = searchParams?.get("subcategory");
       const premium = searchParams?.get("premium");
+      const kind = searchParams?.get("kind");
       const sort = searchParams?.get("sort");
+      const feed = searchParams?.get("feed");
 
       if (q && q.length > 0) params.set("q", q);
       if (category) params.set("category", category);
       if (subcategory) params.set("subcategory", subcategory);
       if (premium) params.set("premium", premium);
+      if (kind) params.set("kind", kind);
       if (sort) params.set("sortBy", sort);
+      if (feed) params.set("feed", feed);
+      if (author) params.set("author", author);
 
       const response = await fetch(`/api/v1/posts?${params.toString()}`);
 
@@ -210,7 +222,7 @@ export function InfinitePostGrid({
       setIsLoading(false);
       isLoadingRequestRef.current = false;
     }
-  }, [searchParams, pageSize]);
+  }, [searchParams, pageSize, author]);
 
   // Stable intersection observer with direct loading (no debouncing)
   useEffect(() => {
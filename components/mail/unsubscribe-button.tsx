@@ -0,0 +1,53 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { CheckCircle } from "@/components/ui/icons";
+import { unsubscribeAction } from "@/actions";
+import { toast } from "sonner";
+
+interface UnsubscribeButtonProps {
+  token: string;
+  label: string;
+}
+
+export function UnsubscribeButton({ token, label }: UnsubscribeButtonProps) {
+  const [done, setDone] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const handleUnsubscribe = () => {
+    startTransition(async () => {
+      const result = await unsubscribeAction(token);
+      if (result.success) {
+        setDone(true);
+      } else {
+        toast.error(result.error);
+      }
+    });
+  };
+
+  if (done) {
+    return (
+      <div className="space-y-4">
+        <p className="flex items-center justify-center gap-2 font-medium">
+          <CheckCircle className="h-5 w-5 text-green-600" />
+          You won&apos;t receive {label.toLowerCase()} emails anymore.
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Changed your mind? Turn them back on in{" "}
+          <Link href="/settings" className="text-primary underline underline-offset-4">
+            your settings
+          </Link>
+          .
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <Button onClick={handleUnsubscribe} disabled={isPending}>
+      {isPending ? "Unsubscribing..." : "Unsubscribe"}
+    </Button>
+  );
+}
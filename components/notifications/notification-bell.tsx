@@ -0,0 +1,141 @@
+"use client";
+
+import { useCallback, useEffect, useState, useTransition } from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck, Settings } from "@/components/ui/icons";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getNotificationsAction, markNotificationsReadAction } from "@/actions";
+import type { NotificationItem } from "@/lib/notifications";
+import { cn } from "@/lib/utils";
+
+// The bell refreshes in the background while the tab is visible
+const POLL_INTERVAL_MS = 60_000;
+
+export function NotificationBell() {
+  const [items, setItems] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [, startTransition] = useTransition();
+
+  const refresh = useCallback(() => {
+    getNotificationsAction().then((result) => {
+      if (result.success) {
+        setItems(result.notifications);
+        setUnreadCount(result.unreadCount);
+      }
+      setIsLoaded(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible") refresh();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const markRead = (ids?: string[]) => {
+    const targets = ids ?? items.filter((item) => !item.readAt).map((item) => item.id);
+    if (targets.length === 0) return;
+
+    const now = new Date();
+    setItems((current) =>
+      current.map((item) => (targets.includes(item.id) && !item.readAt ? { ...item, readAt: now } : item))
+    );
+    setUnreadCount((count) => (ids ? Math.max(0, count - targets.length) : 0));
+
+    startTransition(async () => {
+      const result = await markNotificationsReadAction(ids);
+      if (!result.success) refresh();
+    });
+  };
+
+  const badge = unreadCount > 9 ? "9+" : String(unreadCount);
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && refresh()}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-8 w-8"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-semibold leading-none text-primary-foreground">
+              {badge}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => markRead()}
+            disabled={unreadCount === 0}
+          >
+            <CheckCheck className="h-3.5 w-3.5" />
+            Mark all read
+          </Button>
+        </div>
+        <DropdownMenuSeparator />
+
+        <div className="max-h-96 overflow-y-auto">
+          {items.length === 0 ? (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+              {isLoaded ? "You're all caught up." : "Loading…"}
+            </p>
+          ) : (
+            items.map((item) => (
+              <DropdownMenuItem key={item.id} asChild className="items-start gap-2 py-2">
+                <Link href={item.url || "#"} onClick={() => !item.readAt && markRead([item.id])}>
+                  <span
+                    className={cn(
+                      "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                      item.readAt ? "bg-transparent" : "bg-primary"
+                    )}
+                    aria-hidden
+                  />
+                  <span className="flex min-w-0 flex-col gap-0.5">
+                    <span className={cn("text-sm leading-snug", !item.readAt && "font-medium")}>
+                      {item.title}
+                    </span>
+                    {item.body && (
+                      <span className="line-clamp-2 text-xs text-muted-foreground">{item.body}</span>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}
+                    </span>
+                  </span>
+                </Link>
+              </DropdownMenuItem>
+            ))
+          )}
+        </div>
+
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/settings" className="flex items-center text-xs text-muted-foreground">
+            <Settings className="mr-2 h-3.5 w-3.5" />
+            Notification settings
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
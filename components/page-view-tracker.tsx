@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { usePathname } from "next/navigation";
+import { useCSRF } from "@/hooks/use-csrf";
+import type { PageViewData } from "@/lib/schemas";
+
+/**
+ * Reports public page views to /api/v1/analytics/collect on every route change.
+ * Only the first view of a session carries document.referrer — later views
+ * are client-side navigations within the site.
+ */
+export function PageViewTracker() {
+  const pathname = usePathname();
+  const { token } = useCSRF();
+  const lastTracked = useRef<string | null>(null);
+  const isFirstView = useRef(true);
+
+  useEffect(() => {
+    if (!token || !pathname || lastTracked.current === pathname) return;
+    if (navigator.doNotTrack === "1") return;
+    lastTracked.current = pathname;
+
+    const payload: PageViewData = {
+      path: pathname,
+      referrer: isFirstView.current ? document.referrer : "",
+    };
+    isFirstView.current = false;
+
+    fetch("/api/v1/analytics/collect", {
+      method: "POST",
+      credentials: "same-origin",
+      keepalive: true,
+      headers: {
+        "Content-Type": "application/json",
+        "X-CSRF-Token": token,
+      },
+      body: JSON.stringify(payload),
+    }).catch(() => {});
+  }, [pathname, token]);
+
+  return null;
+}
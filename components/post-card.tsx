@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { PostWithInteractions } from "@/lib/content";
 import { StarButton } from "@/components/star-button";
 import { PostTextBaseCard } from "@/components/post-text-base-card";
+import { MessageSquare } from "@/components/ui/icons";
 
 interface PostCardProps {
   post: PostWithInteractions;
@@ -28,7 +29,17 @@ export function PostCard({
             className="relative"
             style={{ height: "auto", minHeight: "120px" }}
           >
-            <PostTextBaseCard title={post.title} className="min-h-[120px]" />
+            {post.previewImageUrl ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={post.previewImageUrl}
+                alt={post.title}
+                loading="lazy"
+                className="h-full min-h-[120px] w-full object-cover"
+              />
+            ) : (
+              <PostTextBaseCard title={post.title} className="min-h-[120px]" />
+            )}
           </div>
 
           <div className="p-4">
@@ -52,6 +63,15 @@ export function PostCard({
               </div>
 
               <div className="flex items-center gap-1">
+                {(post._count?.comments ?? 0) > 0 && (
+                  <span
+                    className="flex items-center gap-1 px-1 text-xs text-muted-foreground"
+                    aria-label={`${post._count.comments} comments`}
+                  >
+                    <MessageSquare className="h-3 w-3" />
+                    {post._count.comments}
+                  </span>
+                )}
                 <StarButton
                   postId={post.id}
                   initialStarred={post.isStarred}
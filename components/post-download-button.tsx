@@ -0,0 +1,48 @@
+"use client";
+
+import { useMemo } from "react";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { Download } from "@/components/ui/icons";
+import { buildPostExport, type ExportablePost } from "@/lib/post-export";
+
+interface PostDownloadButtonProps extends Omit<ButtonProps, "asChild" | "children"> {
+  post: Omit<ExportablePost, "content"> & { id: string; content?: string };
+  iconClassName?: string;
+}
+
+/** Downloads the post as its target tool's file via /api/v1/posts/[id]/download. */
+export function PostDownloadButton({
+  post,
+  iconClassName = "h-4 w-4",
+  className,
+  disabled,
+  ...props
+}: PostDownloadButtonProps) {
+  const artifact = useMemo(
+    () => buildPostExport({ ...post, content: post.content ?? "" }),
+    [post]
+  );
+  const isDisabled = disabled || !post.content;
+
+  if (isDisabled) {
+    return (
+      <Button className={className} disabled {...props}>
+        <Download className={iconClassName} />
+        Download
+      </Button>
+    );
+  }
+
+  return (
+    <Button className={className} asChild {...props}>
+      <a
+        href={`/api/v1/posts/${post.id}/download`}
+        download={artifact.filename}
+        title={`${artifact.filename} — ${artifact.hint}`}
+      >
+        <Download className={iconClassName} />
+        Download
+      </a>
+    </Button>
+  );
+}
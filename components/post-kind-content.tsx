@@ -0,0 +1,135 @@
+"use client";
+
+import { useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import type { PostKind } from "@/lib/db/schema";
+import {
+  parseFrontmatter,
+  parseMcpServers,
+  type FrontmatterValue,
+} from "@/lib/post-kinds";
+
+interface PostKindContentProps {
+  kind: PostKind;
+  content: string;
+}
+
+const EMPTY_CONTENT = "No content available for this prompt.";
+
+function formatFrontmatterValue(value: FrontmatterValue): string {
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+function PlainContent({ content }: { content: string }) {
+  return (
+    <div className="whitespace-pre-wrap text-sm leading-relaxed break-words bg-card/20">
+      {content || EMPTY_CONTENT}
+    </div>
+  );
+}
+
+function McpConfigContent({ content }: { content: string }) {
+  const { servers, pretty } = useMemo(() => {
+    const servers = parseMcpServers(content);
+    // Stored configs are validated on save; fall back to the raw text if not
+    let pretty = content;
+    if (servers) {
+      try {
+        pretty = JSON.stringify(JSON.parse(content), null, 2);
+      } catch {
+        // keep raw content
+      }
+    }
+    return { servers, pretty };
+  }, [content]);
+
+  return (
+    <div className="space-y-4">
+      {servers && (
+        <div className="space-y-2">
+          {servers.map((server) => (
+            <div key={server.name} className="rounded-md border bg-card/40 p-3 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm">{server.name}</span>
+                <Badge variant="outline" className="text-xs">
+                  {server.transport}
+                </Badge>
+              </div>
+              <code className="block text-xs text-muted-foreground break-all">
+                {server.target}
+              </code>
+              {server.env.length > 0 && (
+                <div className="flex flex-wrap gap-1 pt-1">
+                  {server.env.map((key) => (
+                    <Badge key={key} variant="secondary" className="font-mono text-[10px]">
+                      {key}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      <pre className="text-xs leading-relaxed font-mono whitespace-pre-wrap break-words">
+        {pretty}
+      </pre>
+    </div>
+  );
+}
+
+function FrontmatterContent({ content }: { content: string }) {
+  const parsed = useMemo(() => {
+    try {
+      return parseFrontmatter(content);
+    } catch {
+      return null;
+    }
+  }, [content]);
+
+  if (!parsed) return <PlainContent content={content} />;
+  const entries = Object.entries(parsed.data);
+
+  return (
+    <div className="space-y-4">
+      {entries.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 rounded-md border bg-card/40 p-3 text-xs">
+          {entries.map(([key, value]) => (
+            <div key={key} className="contents">
+              <dt className="font-mono text-muted-foreground">{key}</dt>
+              <dd className="break-words">
+                {typeof value === "boolean" ? (
+                  <Badge variant={value ? "default" : "outline"} className="text-[10px]">
+                    {String(value)}
+                  </Badge>
+                ) : (
+                  <span className="font-mono">{formatFrontmatterValue(value)}</span>
+                )}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      <PlainContent content={parsed.body} />
+    </div>
+  );
+}
+
+/**
+ * Renders post content according to its kind: MCP configs as a server
+ * summary plus formatted JSON, rules and skills with their frontmatter
+ * broken out, everything else as plain text.
+ */
+export function PostKindContent({ kind, content }: PostKindContentProps) {
+  if (!content) return <PlainContent content={content} />;
+
+  switch (kind) {
+    case "MCP_CONFIG":
+      return <McpConfigContent content={content} />;
+    case "CURSOR_RULE":
+    case "CLAUDE_SKILL":
+      return <FrontmatterContent content={content} />;
+    default:
+      return <PlainContent content={content} />;
+  }
+}
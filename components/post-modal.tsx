@@ -9,13 +9,18 @@ import {
 } from "@/components/ui/dialog";
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { toast } from "sonner";
 
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Copy, Check, Share } from "@/components/ui/icons";
+import { Copy, Check, Share, MessageSquare } from "@/components/ui/icons";
 import { PostWithInteractions } from "@/lib/content";
 import { StarButton } from "@/components/star-button";
+import { CollectionPicker } from "@/components/collections/collection-picker";
+import { usePostEvents } from "@/hooks/use-post-events";
+import { PostDownloadButton } from "@/components/post-download-button";
+import { CommentSection } from "@/components/comments/comment-section";
 interface PostModalProps {
   post: PostWithInteractions;
   userType?: "FREE" | "PREMIUM" | null;
@@ -38,9 +43,12 @@ function PostContentModal({
   const [isCopied, setIsCopied] = useState(false);
   const [isLinkCopied, setIsLinkCopied] = useState(false);
   const [showAllTags, setShowAllTags] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [commentCount, setCommentCount] = useState(post._count?.comments ?? 0);
 
 
   const [isStarred, setIsStarred] = useState(post.isStarred ?? false);
+  const { trackCopy } = usePostEvents(post.id);
 
   useEffect(() => {
     // eslint-disable-next-line react-hooks/set-state-in-effect
@@ -54,6 +62,7 @@ function PostContentModal({
     try {
       await navigator.clipboard.writeText(contentToCopy);
       setIsCopied(true);
+      trackCopy();
       toast.success("Prompt copied to clipboard!");
 
       // Reset after 10 seconds
@@ -69,6 +78,7 @@ function PostContentModal({
       document.execCommand("copy");
       document.body.removeChild(textArea);
       setIsCopied(true);
+      trackCopy();
       toast.success("Prompt copied to clipboard!");
 
       // Reset after 10 seconds
@@ -214,6 +224,13 @@ function PostContentModal({
                     </>
                   )}
                 </Button>
+                <PostDownloadButton
+                  post={post}
+                  variant="outline"
+                  size="sm"
+                  className="flex items-center gap-2 mr-auto ml-2"
+                  iconClassName="h-3 w-3"
+                />
                 <div className="flex items-center gap-2">
                   <StarButton
                     postId={post.id}
@@ -221,13 +238,18 @@ function PostContentModal({
                     variant="outline"
                     size="sm"
                   />
+                  <CollectionPicker postId={post.id} />
                 </div>
               </div>
               <div className="flex-1 min-h-0 overflow-hidden">
                 <div className="h-full px-6 pb-6 overflow-y-auto">
-                  <div className="whitespace-pre-wrap text-sm leading-relaxed break-words">
-                    {post.content || "No content available for this prompt."}
-                  </div>
+                  {showComments ? (
+                    <CommentSection postId={post.id} onCountChange={setCommentCount} />
+                  ) : (
+                    <div className="whitespace-pre-wrap text-sm leading-relaxed break-words">
+                      {post.content || "No content available for this prompt."}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -237,13 +259,30 @@ function PostContentModal({
             {/* Tags */}
             <div className="flex items-center gap-1 flex-wrap">
               <DialogDescription className="text-xs text-muted-foreground pr-30">
-                Added by {post.author.name}
+                Added by{" "}
+                {post.author.handle ? (
+                  <Link href={`/u/${post.author.handle}`} className="hover:text-foreground hover:underline">
+                    {post.author.name || `@${post.author.handle}`}
+                  </Link>
+                ) : (
+                  post.author.name
+                )}
                 <br />
                 Star this {post.category.name.toLowerCase()} prompt to save it for later.
               </DialogDescription>
             </div>
             {/* Share Buttons */}
             <div className="flex items-center gap-2">
+              <Button
+                variant={showComments ? "secondary" : "outline"}
+                size="sm"
+                onClick={() => setShowComments((shown) => !shown)}
+                aria-pressed={showComments}
+              >
+                <MessageSquare className="h-3 w-3" />
+                {showComments ? "Prompt" : "Comments"}
+                {!showComments && commentCount > 0 && ` (${commentCount})`}
+              </Button>
               <Button variant="outline" size="sm" onClick={copyPostLink}>
                 {isLinkCopied ? (
                   <>
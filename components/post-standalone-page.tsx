@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -20,22 +21,31 @@ import {
 
 import { PostWithInteractions } from "@/lib/content";
 import { StarButton } from "@/components/star-button";
+import { usePostEvents } from "@/hooks/use-post-events";
+import { PostKindContent } from "@/components/post-kind-content";
+import { PostDownloadButton } from "@/components/post-download-button";
+import { CollectionPicker } from "@/components/collections/collection-picker";
+import { POST_KIND_LABELS } from "@/lib/post-kinds";
+import { CommentSection, type InitialComments } from "@/components/comments/comment-section";
 
 interface PostStandalonePageProps {
   post: PostWithInteractions;
   relatedPosts?: PostWithInteractions[];
+  comments?: InitialComments;
   userType?: "FREE" | "PREMIUM" | null;
 }
 
 export function PostStandalonePage({
   post,
   relatedPosts = [],
+  comments,
   ...rest
 }: PostStandalonePageProps) {
   void rest; // userType reserved for future use
   const router = useRouter();
   const [isCopied, setIsCopied] = useState(false);
   const [isShared, setIsShared] = useState(false);
+  const { trackCopy } = usePostEvents(post.id);
 
   const copyToClipboard = async () => {
     const contentToCopy =
@@ -44,6 +54,7 @@ export function PostStandalonePage({
     try {
       await navigator.clipboard.writeText(contentToCopy);
       setIsCopied(true);
+      trackCopy();
       toast.success("Prompt copied to clipboard!");
 
       // Reset after 10 seconds
@@ -59,6 +70,7 @@ export function PostStandalonePage({
       document.execCommand("copy");
       document.body.removeChild(textArea);
       setIsCopied(true);
+      trackCopy();
       toast.success("Prompt copied to clipboard!");
 
       // Reset after 10 seconds
@@ -156,6 +168,9 @@ export function PostStandalonePage({
             Back
           </Button>
           <div className="flex items-center gap-2">
+            {post.kind !== "PROMPT" && (
+              <Badge className="text-xs">{POST_KIND_LABELS[post.kind]}</Badge>
+            )}
             <Badge variant="secondary" className="text-xs">
               {post.category.parent?.name || post.category.name}
             </Badge>
@@ -209,6 +224,12 @@ export function PostStandalonePage({
                     )}
                   </Button>
 
+                  <PostDownloadButton
+                    post={post}
+                    variant="outline"
+                    className="flex items-center gap-2"
+                  />
+
                   <StarButton
                     postId={post.id}
                     initialStarred={post.isStarred}
@@ -217,6 +238,8 @@ export function PostStandalonePage({
                     showLabel
                   />
 
+                  <CollectionPicker postId={post.id} size="default" showLabel />
+
                   <Button
                     onClick={sharePost}
                     variant="outline"
@@ -246,10 +269,7 @@ export function PostStandalonePage({
 
                   <div className="h-96 overflow-y-auto">
                     <div className="px-8 pb-6">
-                      <div className="whitespace-pre-wrap text-sm leading-relaxed break-words bg-card/20">
-                        {post.content ||
-                          "No content available for this prompt."}
-                      </div>
+                      <PostKindContent kind={post.kind} content={post.content ?? ""} />
                     </div>
                   </div>
                 </div>
@@ -274,7 +294,18 @@ export function PostStandalonePage({
                 <div className="pt-4 border-t">
                   <div className="flex items-center justify-between text-sm text-muted-foreground">
                     <div className="flex items-center gap-3">
-                      {post.author && <span>By {post.author.name}</span>}
+                      {post.author && (
+                        <span>
+                          By{" "}
+                          {post.author.handle ? (
+                            <Link href={`/u/${post.author.handle}`} className="hover:text-foreground hover:underline">
+                              {post.author.name || `@${post.author.handle}`}
+                            </Link>
+                          ) : (
+                            post.author.name
+                          )}
+                        </span>
+                      )}
                       <span className="text-muted-foreground/20">|</span>
                       <Clock className="h-4 w-4" />
                       {new Date(post.createdAt).toLocaleDateString()}
@@ -284,6 +315,12 @@ export function PostStandalonePage({
                 </div>
               </CardContent>
             </Card>
+
+            <Card className="mt-6">
+              <CardContent>
+                <CommentSection postId={post.id} initialComments={comments} />
+              </CardContent>
+            </Card>
           </div>
 
           {/* Related posts sidebar */}
@@ -0,0 +1,40 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+
+interface PublishAtFieldProps {
+  id: string;
+  /** Form field name; renders a hidden input so native FormData picks it up */
+  name?: string;
+  /** ISO timestamp, or "" when unscheduled */
+  value: string;
+  onChange: (iso: string) => void;
+  disabled?: boolean;
+}
+
+// datetime-local works in the browser's local time without an offset
+function toLocalInputValue(iso: string): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return "";
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000)
+    .toISOString()
+    .slice(0, 16);
+}
+
+/** Local date/time picker that reports the chosen moment as an ISO timestamp. */
+export function PublishAtField({ id, name, value, onChange, disabled }: PublishAtFieldProps) {
+  return (
+    <>
+      {name && <input type="hidden" name={name} value={value} />}
+      <Input
+        id={id}
+        type="datetime-local"
+        value={toLocalInputValue(value)}
+        min={toLocalInputValue(new Date().toISOString())}
+        onChange={(e) => onChange(e.target.value ? new Date(e.target.value).toISOString() : "")}
+        disabled={disabled}
+      />
+    </>
+  );
+}
@@ -24,6 +24,7 @@ interface SearchClientWrapperProps {
     category?: string;
     subcategory?: string;
     premium?: string;
+    kind?: string;
     page?: string;
     sort?: string;
   };
@@ -5,6 +5,7 @@ import Link from "next/link";
 import { Menu, ChevronDown, ChevronRight } from "@/components/ui/icons";
 import { Navbar } from "@/components/ui/navbar";
 import { UserProfileDropdown } from "@/components/user-profile-dropdown";
+import { NotificationBell } from "@/components/notifications/notification-bell";
 import { useAuth } from "@/hooks/use-auth";
 import { Logo } from "@/components/ui/logo";
 import { Button } from "@/components/ui/button";
@@ -230,7 +231,10 @@ export function Header({
           </div>
           <div className="flex items-center space-x-4 justify-self-end">
             {user ? (
-              <UserProfileDropdown user={user} />
+              <>
+                <NotificationBell />
+                <UserProfileDropdown user={user} />
+              </>
             ) : (
               <>
                 <Link
@@ -251,7 +255,8 @@ export function Header({
           </div>
 
           <div className="flex items-center space-x-2">
-            {/* User profile dropdown for mobile (if authenticated) */}
+            {/* Notifications and user profile dropdown for mobile (if authenticated) */}
+            {user && <NotificationBell />}
             {user && (
               <div className="hidden sm:block">
                 <UserProfileDropdown user={user} />
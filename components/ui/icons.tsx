@@ -49,6 +49,10 @@ import {
   IconX,
   IconFileText,
   IconNews,
+  IconInbox,
+  IconHistory,
+  IconAlertTriangle,
+  IconBan,
 } from "@tabler/icons-react";
 
 // Re-export Tabler icons individually so callers can `import { IconExternalLink } from "@/components/ui/icons"` without touching the Tabler package.
@@ -87,6 +91,10 @@ export {
   IconX,
   IconFileText,
   IconNews,
+  IconInbox,
+  IconHistory,
+  IconAlertTriangle,
+  IconBan,
 };
 
 export type { Icon } from "@tabler/icons-react";
@@ -27,7 +27,6 @@ interface UserProfileDropdownProps {
 export function UserProfileDropdown({ user }: UserProfileDropdownProps) {
   // Get user data from userData or fallback to email
   const userData = user.userData;
-  const userRole = userData?.role;
   const userAvatar = userData?.avatar;
   const displayName = userData?.name || user.email?.split("@")[0] || "User";
   const displayEmail = userData?.email || user.email || "";
@@ -80,14 +79,12 @@ export function UserProfileDropdown({ user }: UserProfileDropdownProps) {
                 <span>Account</span>
               </Link>
             </DropdownMenuItem>
-            {userRole === "ADMIN" && (
-              <DropdownMenuItem asChild>
-                <Link href="/settings" className="flex items-center">
-                  <Settings className="mr-2 h-4 w-4" />
-                  <span>Settings</span>
-                </Link>
-              </DropdownMenuItem>
-            )}
+            <DropdownMenuItem asChild>
+              <Link href="/settings" className="flex items-center">
+                <Settings className="mr-2 h-4 w-4" />
+                <span>Settings</span>
+              </Link>
+            </DropdownMenuItem>
         </DropdownMenuGroup>
         <DropdownMenuSeparator />
         <div className="p-2">
@@ -7,6 +7,10 @@ export const PAGE_TITLES = {
     title: "Your Stars",
     description: "Your starred prompts and saved content",
   },
+  "/inbox": {
+    title: "Moderation Inbox",
+    description: "Review decisions and notes on your submissions",
+  },
   "/account": {
     title: "Account Settings",
     description: "Manage your account information and preferences",
@@ -35,6 +39,18 @@ export const PAGE_TITLES = {
     title: "Create New Tag",
     description: "Add a new tag for content organization",
   },
+  "/audit": {
+    title: "Audit Log",
+    description: "Search, trace and export recorded activity",
+  },
+  "/alerts": {
+    title: "Security Alerts",
+    description: "Alert rules and the feed of fired alerts",
+  },
+  "/blocklist": {
+    title: "Blocklist",
+    description: "Review, extend and lift IP and user bans",
+  },
   "/settings": {
     title: "Settings",
     description: "Configure your account and application preferences",
@@ -0,0 +1,36 @@
+CREATE TYPE "public"."PostRevisionSource" AS ENUM('CREATE', 'UPDATE', 'IMPORT', 'RESTORE');--> statement-breakpoint
+CREATE TABLE "post_revisions" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid()::text NOT NULL,
+	"postId" text NOT NULL,
+	"revisionNumber" integer NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"content" text NOT NULL,
+	"source" "PostRevisionSource" NOT NULL,
+	"restoredFromId" text,
+	"userId" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "post_revisions" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "post_revisions" ADD CONSTRAINT "post_revisions_postId_posts_id_fk" FOREIGN KEY ("postId") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_revisions" ADD CONSTRAINT "post_revisions_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "post_revisions_post_id_revision_key" ON "post_revisions" USING btree ("postId","revisionNumber");--> statement-breakpoint
+CREATE INDEX "post_revisions_post_created_at_idx" ON "post_revisions" USING btree ("postId","createdAt");--> statement-breakpoint
+CREATE POLICY "post_revisions_select_author_or_admin" ON "post_revisions" AS PERMISSIVE FOR SELECT TO public USING (EXISTS (
+        SELECT 1 FROM posts
+        WHERE posts.id = "postId"
+        AND (posts."authorId" = auth.uid()::text OR current_user_is_admin())
+      ));--> statement-breakpoint
+CREATE POLICY "post_revisions_insert_author_or_admin" ON "post_revisions" AS PERMISSIVE FOR INSERT TO "authenticated" WITH CHECK (EXISTS (
+        SELECT 1 FROM posts
+        WHERE posts.id = "postId"
+        AND (posts."authorId" = auth.uid()::text OR current_user_is_admin())
+      ));--> statement-breakpoint
+CREATE POLICY "post_revisions_delete_admin" ON "post_revisions" AS PERMISSIVE FOR DELETE TO public USING (current_user_is_admin());--> statement-breakpoint
+-- Backfill: seed revision 1 for existing posts from their current state so the
+-- history list is never empty and the first edit has something to diff against.
+INSERT INTO "post_revisions" ("postId", "revisionNumber", "title", "description", "content", "source", "userId", "createdAt")
+SELECT p."id", 1, p."title", p."description", p."content", 'CREATE',
+       (SELECT u."id" FROM "users" u WHERE u."id" = p."authorId"), p."updatedAt"
+FROM "posts" p;
@@ -0,0 +1,19 @@
+ALTER TYPE "public"."PostStatus" ADD VALUE 'CHANGES_REQUESTED';--> statement-breakpoint
+CREATE TABLE "post_moderations" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid()::text NOT NULL,
+	"postId" text NOT NULL,
+	"authorId" text NOT NULL,
+	"reviewerId" text,
+	"decision" "PostStatus" NOT NULL,
+	"note" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "post_moderations" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "post_moderations" ADD CONSTRAINT "post_moderations_postId_posts_id_fk" FOREIGN KEY ("postId") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_moderations" ADD CONSTRAINT "post_moderations_reviewerId_users_id_fk" FOREIGN KEY ("reviewerId") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "post_moderations_author_created_at_idx" ON "post_moderations" USING btree ("authorId","createdAt");--> statement-breakpoint
+CREATE INDEX "post_moderations_post_created_at_idx" ON "post_moderations" USING btree ("postId","createdAt");--> statement-breakpoint
+CREATE POLICY "post_moderations_select_author_or_admin" ON "post_moderations" AS PERMISSIVE FOR SELECT TO public USING (("authorId" = auth.uid()::text OR current_user_is_admin()));--> statement-breakpoint
+CREATE POLICY "post_moderations_insert_admin" ON "post_moderations" AS PERMISSIVE FOR INSERT TO public WITH CHECK (current_user_is_admin());--> statement-breakpoint
+CREATE POLICY "post_moderations_delete_admin" ON "post_moderations" AS PERMISSIVE FOR DELETE TO public USING (current_user_is_admin());
\ No newline at end of file
@@ -0,0 +1,13 @@
+ALTER TABLE "posts" ADD COLUMN "trendingScore" double precision DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "trendingScoreAt" timestamp;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "trendingHalfLifeHours" integer DEFAULT 48 NOT NULL;--> statement-breakpoint
+CREATE INDEX "posts_published_trending_partial_idx" ON "posts" USING btree ("trendingScore","createdAt") WHERE "isPublished" = true;--> statement-breakpoint
+-- Seed trending scores with the default 48h half-life; the scheduled refresh keeps them current.
+UPDATE "posts" SET
+  "trendingScore" = coalesce((
+    SELECT sum(power(0.5, extract(epoch from (now() - b."createdAt")) / 172800))
+    FROM "bookmarks" b
+    WHERE b."postId" = "posts"."id"
+      AND b."createdAt" > now() - interval '480 hours'
+  ), 0)::double precision,
+  "trendingScoreAt" = now();
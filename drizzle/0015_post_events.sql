@@ -0,0 +1,28 @@
+CREATE TYPE "public"."PostEventType" AS ENUM('VIEW', 'COPY');--> statement-breakpoint
+CREATE TABLE "post_daily_stats" (
+	"postId" text NOT NULL,
+	"day" date NOT NULL,
+	"views" integer DEFAULT 0 NOT NULL,
+	"copies" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "post_daily_stats_postId_day_pk" PRIMARY KEY("postId","day")
+);
+--> statement-breakpoint
+ALTER TABLE "post_daily_stats" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "post_event_visitors" (
+	"postId" text NOT NULL,
+	"day" date NOT NULL,
+	"type" "PostEventType" NOT NULL,
+	"visitorHash" text NOT NULL,
+	CONSTRAINT "post_event_visitors_postId_day_type_visitorHash_pk" PRIMARY KEY("postId","day","type","visitorHash")
+);
+--> statement-breakpoint
+ALTER TABLE "post_event_visitors" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "post_daily_stats" ADD CONSTRAINT "post_daily_stats_postId_posts_id_fk" FOREIGN KEY ("postId") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_event_visitors" ADD CONSTRAINT "post_event_visitors_postId_posts_id_fk" FOREIGN KEY ("postId") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "post_daily_stats_day_idx" ON "post_daily_stats" USING btree ("day");--> statement-breakpoint
+CREATE POLICY "post_daily_stats_select_author_or_admin" ON "post_daily_stats" AS PERMISSIVE FOR SELECT TO public USING (EXISTS (
+        SELECT 1 FROM posts
+        WHERE posts.id = "postId"
+        AND (posts."authorId" = auth.uid()::text OR current_user_is_admin())
+      ));--> statement-breakpoint
+CREATE POLICY "post_event_visitors_select_admin" ON "post_event_visitors" AS PERMISSIVE FOR SELECT TO public USING (current_user_is_admin());
\ No newline at end of file
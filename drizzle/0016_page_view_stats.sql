@@ -0,0 +1,20 @@
+CREATE TABLE "page_view_stats" (
+	"bucket" timestamp NOT NULL,
+	"path" text NOT NULL,
+	"referrer" text DEFAULT '' NOT NULL,
+	"device" text NOT NULL,
+	"views" integer DEFAULT 0 NOT NULL,
+	"visitors" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "page_view_stats_bucket_path_referrer_device_pk" PRIMARY KEY("bucket","path","referrer","device")
+);
+--> statement-breakpoint
+ALTER TABLE "page_view_stats" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "page_view_visitors" (
+	"day" date NOT NULL,
+	"visitorHash" text NOT NULL,
+	CONSTRAINT "page_view_visitors_day_visitorHash_pk" PRIMARY KEY("day","visitorHash")
+);
+--> statement-breakpoint
+ALTER TABLE "page_view_visitors" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "page_view_stats_select_admin" ON "page_view_stats" AS PERMISSIVE FOR SELECT TO public USING (current_user_is_admin());--> statement-breakpoint
+CREATE POLICY "page_view_visitors_select_admin" ON "page_view_visitors" AS PERMISSIVE FOR SELECT TO public USING (current_user_is_admin());
\ No newline at end of file
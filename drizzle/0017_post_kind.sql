@@ -0,0 +1,3 @@
+CREATE TYPE "public"."PostKind" AS ENUM('PROMPT', 'CURSOR_RULE', 'MCP_CONFIG', 'CLAUDE_SKILL', 'AGENTS_MD');--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "kind" "PostKind" DEFAULT 'PROMPT' NOT NULL;--> statement-breakpoint
+CREATE INDEX "posts_kind_published_created_idx" ON "posts" USING btree ("kind","isPublished","createdAt");
\ No newline at end of file
@@ -0,0 +1,56 @@
+CREATE TABLE "collection_posts" (
+	"collectionId" text NOT NULL,
+	"postId" text NOT NULL,
+	"position" integer NOT NULL,
+	"addedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "collection_posts_collectionId_postId_pk" PRIMARY KEY("collectionId","postId")
+);
+--> statement-breakpoint
+ALTER TABLE "collection_posts" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "collection_stars" (
+	"collectionId" text NOT NULL,
+	"userId" text NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "collection_stars_collectionId_userId_pk" PRIMARY KEY("collectionId","userId")
+);
+--> statement-breakpoint
+ALTER TABLE "collection_stars" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "collections" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid()::text NOT NULL,
+	"userId" text NOT NULL,
+	"title" text NOT NULL,
+	"slug" text NOT NULL,
+	"description" text,
+	"isPublic" boolean DEFAULT false NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "collections_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+ALTER TABLE "collections" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "collection_posts" ADD CONSTRAINT "collection_posts_collectionId_collections_id_fk" FOREIGN KEY ("collectionId") REFERENCES "public"."collections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "collection_posts" ADD CONSTRAINT "collection_posts_postId_posts_id_fk" FOREIGN KEY ("postId") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "collection_stars" ADD CONSTRAINT "collection_stars_collectionId_collections_id_fk" FOREIGN KEY ("collectionId") REFERENCES "public"."collections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "collection_stars" ADD CONSTRAINT "collection_stars_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "collections" ADD CONSTRAINT "collections_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "collection_posts_collection_position_idx" ON "collection_posts" USING btree ("collectionId","position");--> statement-breakpoint
+CREATE INDEX "collection_posts_post_id_idx" ON "collection_posts" USING btree ("postId");--> statement-breakpoint
+CREATE INDEX "collection_stars_user_created_at_idx" ON "collection_stars" USING btree ("userId","createdAt");--> statement-breakpoint
+CREATE INDEX "collections_user_updated_at_idx" ON "collections" USING btree ("userId","updatedAt");--> statement-breakpoint
+CREATE INDEX "collections_public_updated_at_idx" ON "collections" USING btree ("updatedAt") WHERE "isPublic" = true;--> statement-breakpoint
+CREATE POLICY "collection_posts_select_visible" ON "collection_posts" AS PERMISSIVE FOR SELECT TO public USING (EXISTS (
+        SELECT 1 FROM collections
+        WHERE collections.id = "collectionId"
+        AND (collections."isPublic" = true OR collections."userId" = auth.uid()::text OR current_user_is_admin())
+      ));--> statement-breakpoint
+CREATE POLICY "collection_posts_write_own" ON "collection_posts" AS PERMISSIVE FOR ALL TO public USING (EXISTS (
+        SELECT 1 FROM collections
+        WHERE collections.id = "collectionId" AND collections."userId" = auth.uid()::text
+      ));--> statement-breakpoint
+CREATE POLICY "collection_stars_select_own" ON "collection_stars" AS PERMISSIVE FOR SELECT TO public USING ("userId" = auth.uid()::text);--> statement-breakpoint
+CREATE POLICY "collection_stars_insert_own" ON "collection_stars" AS PERMISSIVE FOR INSERT TO public WITH CHECK ("userId" = auth.uid()::text);--> statement-breakpoint
+CREATE POLICY "collection_stars_delete_own" ON "collection_stars" AS PERMISSIVE FOR DELETE TO public USING ("userId" = auth.uid()::text);--> statement-breakpoint
+CREATE POLICY "collections_select_public_or_own_or_admin" ON "collections" AS PERMISSIVE FOR SELECT TO public USING ("isPublic" = true OR "userId" = auth.uid()::text OR current_user_is_admin());--> statement-breakpoint
+CREATE POLICY "collections_insert_own" ON "collections" AS PERMISSIVE FOR INSERT TO "authenticated" WITH CHECK ("userId" = auth.uid()::text);--> statement-breakpoint
+CREATE POLICY "collections_update_own" ON "collections" AS PERMISSIVE FOR UPDATE TO public USING ("userId" = auth.uid()::text) WITH CHECK ("userId" = auth.uid()::text);--> statement-breakpoint
+CREATE POLICY "collections_delete_own_or_admin" ON "collections" AS PERMISSIVE FOR DELETE TO public USING (("userId" = auth.uid()::text OR current_user_is_admin()));
\ No newline at end of file
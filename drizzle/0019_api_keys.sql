@@ -0,0 +1,21 @@
+CREATE TYPE "public"."ApiKeyScope" AS ENUM('READ', 'WRITE');--> statement-breakpoint
+CREATE TABLE "api_keys" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid()::text NOT NULL,
+	"userId" text NOT NULL,
+	"name" text NOT NULL,
+	"prefix" text NOT NULL,
+	"keyHash" text NOT NULL,
+	"scope" "ApiKeyScope" DEFAULT 'READ' NOT NULL,
+	"lastUsedAt" timestamp,
+	"lastUsedIp" text,
+	"revokedAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "api_keys_keyHash_unique" UNIQUE("keyHash")
+);
+--> statement-breakpoint
+ALTER TABLE "api_keys" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "api_keys_user_created_at_idx" ON "api_keys" USING btree ("userId","createdAt");--> statement-breakpoint
+CREATE POLICY "api_keys_select_own_or_admin" ON "api_keys" AS PERMISSIVE FOR SELECT TO public USING (("userId" = auth.uid()::text OR current_user_is_admin()));--> statement-breakpoint
+CREATE POLICY "api_keys_insert_own" ON "api_keys" AS PERMISSIVE FOR INSERT TO "authenticated" WITH CHECK ("userId" = auth.uid()::text);--> statement-breakpoint
+CREATE POLICY "api_keys_update_own" ON "api_keys" AS PERMISSIVE FOR UPDATE TO public USING ("userId" = auth.uid()::text) WITH CHECK ("userId" = auth.uid()::text);
\ No newline at end of file
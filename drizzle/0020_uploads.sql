@@ -0,0 +1,31 @@
+CREATE TYPE "public"."UploadPurpose" AS ENUM('BLOG_IMAGE', 'BLOG_FEATURED_IMAGE', 'POST_PREVIEW');--> statement-breakpoint
+CREATE TABLE "upload_references" (
+	"uploadId" text NOT NULL,
+	"entityType" text NOT NULL,
+	"entityId" text NOT NULL,
+	CONSTRAINT "upload_references_uploadId_entityType_entityId_pk" PRIMARY KEY("uploadId","entityType","entityId")
+);
+--> statement-breakpoint
+ALTER TABLE "upload_references" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "uploads" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid()::text NOT NULL,
+	"userId" text NOT NULL,
+	"key" text NOT NULL,
+	"contentType" text NOT NULL,
+	"size" integer NOT NULL,
+	"purpose" "UploadPurpose" NOT NULL,
+	"uploadedAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "uploads_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+ALTER TABLE "uploads" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "previewImageUrl" text;--> statement-breakpoint
+ALTER TABLE "upload_references" ADD CONSTRAINT "upload_references_uploadId_uploads_id_fk" FOREIGN KEY ("uploadId") REFERENCES "public"."uploads"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "uploads" ADD CONSTRAINT "uploads_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "upload_references_entity_idx" ON "upload_references" USING btree ("entityType","entityId");--> statement-breakpoint
+CREATE INDEX "uploads_user_created_at_idx" ON "uploads" USING btree ("userId","createdAt");--> statement-breakpoint
+CREATE INDEX "uploads_updated_at_idx" ON "uploads" USING btree ("updatedAt");--> statement-breakpoint
+CREATE POLICY "upload_references_select_admin" ON "upload_references" AS PERMISSIVE FOR SELECT TO public USING (current_user_is_admin());--> statement-breakpoint
+CREATE POLICY "uploads_select_own_or_admin" ON "uploads" AS PERMISSIVE FOR SELECT TO public USING (("userId" = auth.uid()::text OR current_user_is_admin()));
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TYPE "public"."BlogStatus" ADD VALUE 'SCHEDULED';--> statement-breakpoint
+ALTER TYPE "public"."PostStatus" ADD VALUE 'SCHEDULED';--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "publishAt" timestamp;--> statement-breakpoint
+CREATE INDEX "posts_status_publish_at_idx" ON "posts" USING btree ("status","publishAt");
\ No newline at end of file
@@ -0,0 +1,41 @@
+CREATE TABLE "blog_post_mentions" (
+	"blogPostId" text NOT NULL,
+	"postId" text NOT NULL,
+	CONSTRAINT "blog_post_mentions_blogPostId_postId_pk" PRIMARY KEY("blogPostId","postId")
+);
+--> statement-breakpoint
+ALTER TABLE "blog_post_mentions" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "blog_post_tags" (
+	"blogPostId" text NOT NULL,
+	"tagId" text NOT NULL,
+	CONSTRAINT "blog_post_tags_blogPostId_tagId_pk" PRIMARY KEY("blogPostId","tagId")
+);
+--> statement-breakpoint
+ALTER TABLE "blog_post_tags" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "blog_series" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid()::text NOT NULL,
+	"slug" text NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "blog_series_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+ALTER TABLE "blog_series" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "blog_posts" ADD COLUMN "seriesId" text;--> statement-breakpoint
+ALTER TABLE "blog_posts" ADD COLUMN "seriesOrder" integer;--> statement-breakpoint
+ALTER TABLE "blog_post_mentions" ADD CONSTRAINT "blog_post_mentions_blogPostId_blog_posts_id_fk" FOREIGN KEY ("blogPostId") REFERENCES "public"."blog_posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "blog_post_mentions" ADD CONSTRAINT "blog_post_mentions_postId_posts_id_fk" FOREIGN KEY ("postId") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "blog_post_tags" ADD CONSTRAINT "blog_post_tags_blogPostId_blog_posts_id_fk" FOREIGN KEY ("blogPostId") REFERENCES "public"."blog_posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "blog_post_tags" ADD CONSTRAINT "blog_post_tags_tagId_tags_id_fk" FOREIGN KEY ("tagId") REFERENCES "public"."tags"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "blog_post_mentions_post_idx" ON "blog_post_mentions" USING btree ("postId");--> statement-breakpoint
+CREATE INDEX "blog_post_tags_tag_idx" ON "blog_post_tags" USING btree ("tagId");--> statement-breakpoint
+ALTER TABLE "blog_posts" ADD CONSTRAINT "blog_posts_seriesId_blog_series_id_fk" FOREIGN KEY ("seriesId") REFERENCES "public"."blog_series"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "blog_posts_series_order_idx" ON "blog_posts" USING btree ("seriesId","seriesOrder");--> statement-breakpoint
+CREATE POLICY "blog_post_mentions_select_all" ON "blog_post_mentions" AS PERMISSIVE FOR SELECT TO public USING (true);--> statement-breakpoint
+CREATE POLICY "blog_post_mentions_write_admin" ON "blog_post_mentions" AS PERMISSIVE FOR ALL TO public USING (current_user_is_admin()) WITH CHECK (current_user_is_admin());--> statement-breakpoint
+CREATE POLICY "blog_post_tags_select_all" ON "blog_post_tags" AS PERMISSIVE FOR SELECT TO public USING (true);--> statement-breakpoint
+CREATE POLICY "blog_post_tags_write_admin" ON "blog_post_tags" AS PERMISSIVE FOR ALL TO public USING (current_user_is_admin()) WITH CHECK (current_user_is_admin());--> statement-breakpoint
+CREATE POLICY "blog_series_select_all" ON "blog_series" AS PERMISSIVE FOR SELECT TO public USING (true);--> statement-breakpoint
+CREATE POLICY "blog_series_write_admin" ON "blog_series" AS PERMISSIVE FOR ALL TO public USING (current_user_is_admin()) WITH CHECK (current_user_is_admin());
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE "follows" (
+	"followerId" text NOT NULL,
+	"followingId" text NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "follows_followerId_followingId_pk" PRIMARY KEY("followerId","followingId")
+);
+--> statement-breakpoint
+ALTER TABLE "follows" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "handle" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "bio" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "links" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+-- Give existing users a handle derived from their name (or email local part), the same way lib/authors.ts does on sign-up; short or duplicate handles get an id suffix.
+WITH "base" AS (
+  SELECT "id", trim(both '-' from left(regexp_replace(lower(coalesce(nullif("name", ''), split_part("email", '@', 1))), '[^a-z0-9]+', '-', 'g'), 20)) AS "h"
+  FROM "users"
+), "ranked" AS (
+  SELECT "id", "h", row_number() OVER (PARTITION BY "h" ORDER BY "id") AS "n" FROM "base"
+)
+UPDATE "users" SET "handle" = CASE
+    WHEN length("ranked"."h") < 3 OR "ranked"."n" > 1
+    THEN trim(both '-' from "ranked"."h" || '-' || lower(left("ranked"."id", 6)))
+    ELSE "ranked"."h"
+  END
+FROM "ranked"
+WHERE "users"."id" = "ranked"."id" AND "users"."handle" IS NULL;--> statement-breakpoint
+ALTER TABLE "follows" ADD CONSTRAINT "follows_followerId_users_id_fk" FOREIGN KEY ("followerId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "follows" ADD CONSTRAINT "follows_followingId_users_id_fk" FOREIGN KEY ("followingId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "follows_following_id_idx" ON "follows" USING btree ("followingId");--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_handle_unique" UNIQUE("handle");--> statement-breakpoint
+CREATE POLICY "follows_select_own" ON "follows" AS PERMISSIVE FOR SELECT TO public USING ("followerId" = auth.uid()::text);--> statement-breakpoint
+CREATE POLICY "follows_insert_own" ON "follows" AS PERMISSIVE FOR INSERT TO public WITH CHECK ("followerId" = auth.uid()::text AND "followingId" <> auth.uid()::text);--> statement-breakpoint
+CREATE POLICY "follows_delete_own" ON "follows" AS PERMISSIVE FOR DELETE TO public USING ("followerId" = auth.uid()::text);
\ No newline at end of file
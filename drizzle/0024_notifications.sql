@@ -0,0 +1,25 @@
+CREATE TYPE "public"."NotificationType" AS ENUM('POST_APPROVED', 'POST_REJECTED', 'POST_CHANGES_REQUESTED', 'POST_STARRED', 'FOLLOWED_AUTHOR_POST');--> statement-breakpoint
+CREATE TABLE "notifications" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid()::text NOT NULL,
+	"userId" text NOT NULL,
+	"type" "NotificationType" NOT NULL,
+	"title" text NOT NULL,
+	"body" text,
+	"url" text,
+	"actorId" text,
+	"postId" text,
+	"readAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notifications" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "notificationPreferences" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_actorId_users_id_fk" FOREIGN KEY ("actorId") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_postId_posts_id_fk" FOREIGN KEY ("postId") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "notifications_user_created_at_idx" ON "notifications" USING btree ("userId","createdAt");--> statement-breakpoint
+CREATE INDEX "notifications_user_unread_idx" ON "notifications" USING btree ("userId") WHERE "readAt" IS NULL;--> statement-breakpoint
+CREATE INDEX "notifications_post_type_idx" ON "notifications" USING btree ("postId","type");--> statement-breakpoint
+CREATE POLICY "notifications_select_own" ON "notifications" AS PERMISSIVE FOR SELECT TO public USING ("userId" = auth.uid()::text);--> statement-breakpoint
+CREATE POLICY "notifications_update_own" ON "notifications" AS PERMISSIVE FOR UPDATE TO public USING ("userId" = auth.uid()::text) WITH CHECK ("userId" = auth.uid()::text);--> statement-breakpoint
+CREATE POLICY "notifications_delete_own" ON "notifications" AS PERMISSIVE FOR DELETE TO public USING ("userId" = auth.uid()::text);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "emailPreferences" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "lastDigestSentAt" timestamp;
\ No newline at end of file
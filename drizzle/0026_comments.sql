@@ -0,0 +1,28 @@
+CREATE TYPE "public"."CommentStatus" AS ENUM('VISIBLE', 'HIDDEN', 'DELETED');--> statement-breakpoint
+CREATE TABLE "comments" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid()::text NOT NULL,
+	"postId" text NOT NULL,
+	"authorId" text NOT NULL,
+	"parentId" text,
+	"depth" integer DEFAULT 0 NOT NULL,
+	"body" text NOT NULL,
+	"bodyHtml" text NOT NULL,
+	"status" "CommentStatus" DEFAULT 'VISIBLE' NOT NULL,
+	"moderatedById" text,
+	"editedAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "comments" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "comments" ADD CONSTRAINT "comments_postId_posts_id_fk" FOREIGN KEY ("postId") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comments" ADD CONSTRAINT "comments_authorId_users_id_fk" FOREIGN KEY ("authorId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comments" ADD CONSTRAINT "comments_parentId_comments_id_fk" FOREIGN KEY ("parentId") REFERENCES "public"."comments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comments" ADD CONSTRAINT "comments_moderatedById_users_id_fk" FOREIGN KEY ("moderatedById") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "comments_post_created_at_idx" ON "comments" USING btree ("postId","createdAt");--> statement-breakpoint
+CREATE INDEX "comments_parent_id_idx" ON "comments" USING btree ("parentId");--> statement-breakpoint
+CREATE INDEX "comments_author_created_at_idx" ON "comments" USING btree ("authorId","createdAt");--> statement-breakpoint
+CREATE POLICY "comments_select_visible_or_own" ON "comments" AS PERMISSIVE FOR SELECT TO public USING (status = 'VISIBLE' OR ("authorId" = auth.uid()::text OR current_user_is_admin()));--> statement-breakpoint
+CREATE POLICY "comments_insert_own" ON "comments" AS PERMISSIVE FOR INSERT TO public WITH CHECK ("authorId" = auth.uid()::text);--> statement-breakpoint
+CREATE POLICY "comments_update_own_or_admin" ON "comments" AS PERMISSIVE FOR UPDATE TO public USING (("authorId" = auth.uid()::text OR current_user_is_admin())) WITH CHECK (("authorId" = auth.uid()::text OR current_user_is_admin()));--> statement-breakpoint
+CREATE POLICY "comments_delete_admin" ON "comments" AS PERMISSIVE FOR DELETE TO public USING (current_user_is_admin());
\ No newline at end of file
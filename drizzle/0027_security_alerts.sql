@@ -0,0 +1,52 @@
+CREATE TYPE "public"."AlertGroupBy" AS ENUM('NONE', 'IP_ADDRESS', 'USER');--> statement-breakpoint
+CREATE TYPE "public"."AlertStatus" AS ENUM('OPEN', 'ACKNOWLEDGED', 'RESOLVED');--> statement-breakpoint
+CREATE TABLE "alert_rules" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid()::text NOT NULL,
+	"name" text NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"action" text,
+	"threatType" text,
+	"entityType" text,
+	"minSeverity" "LogSeverity",
+	"threshold" integer DEFAULT 1 NOT NULL,
+	"windowSeconds" integer DEFAULT 300 NOT NULL,
+	"groupBy" "AlertGroupBy" DEFAULT 'NONE' NOT NULL,
+	"severity" "LogSeverity" DEFAULT 'HIGH' NOT NULL,
+	"notifyEmail" boolean DEFAULT true NOT NULL,
+	"webhookUrl" text,
+	"createdById" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "alert_rules" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "security_alerts" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid()::text NOT NULL,
+	"ruleId" text NOT NULL,
+	"dedupKey" text NOT NULL,
+	"groupValue" text,
+	"title" text NOT NULL,
+	"severity" "LogSeverity" NOT NULL,
+	"status" "AlertStatus" DEFAULT 'OPEN' NOT NULL,
+	"eventCount" integer DEFAULT 0 NOT NULL,
+	"lastEvent" jsonb,
+	"firstSeenAt" timestamp DEFAULT now() NOT NULL,
+	"lastSeenAt" timestamp DEFAULT now() NOT NULL,
+	"acknowledgedById" text,
+	"acknowledgedAt" timestamp,
+	"resolvedById" text,
+	"resolvedAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "security_alerts" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_createdById_users_id_fk" FOREIGN KEY ("createdById") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_alerts" ADD CONSTRAINT "security_alerts_ruleId_alert_rules_id_fk" FOREIGN KEY ("ruleId") REFERENCES "public"."alert_rules"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_alerts" ADD CONSTRAINT "security_alerts_acknowledgedById_users_id_fk" FOREIGN KEY ("acknowledgedById") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_alerts" ADD CONSTRAINT "security_alerts_resolvedById_users_id_fk" FOREIGN KEY ("resolvedById") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "alert_rules_enabled_idx" ON "alert_rules" USING btree ("enabled");--> statement-breakpoint
+CREATE UNIQUE INDEX "security_alerts_unresolved_dedup_key" ON "security_alerts" USING btree ("dedupKey") WHERE "status" <> 'RESOLVED';--> statement-breakpoint
+CREATE INDEX "security_alerts_status_last_seen_idx" ON "security_alerts" USING btree ("status","lastSeenAt");--> statement-breakpoint
+CREATE INDEX "security_alerts_rule_id_idx" ON "security_alerts" USING btree ("ruleId");--> statement-breakpoint
+CREATE POLICY "alert_rules_admin_all" ON "alert_rules" AS PERMISSIVE FOR ALL TO public USING (current_user_is_admin()) WITH CHECK (current_user_is_admin());--> statement-breakpoint
+CREATE POLICY "security_alerts_admin_all" ON "security_alerts" AS PERMISSIVE FOR ALL TO public USING (current_user_is_admin()) WITH CHECK (current_user_is_admin());
\ No newline at end of file
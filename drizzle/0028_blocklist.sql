@@ -0,0 +1,22 @@
+CREATE TYPE "public"."BlockType" AS ENUM('IP', 'CIDR', 'USER');--> statement-breakpoint
+CREATE TABLE "blocklist" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid()::text NOT NULL,
+	"type" "BlockType" NOT NULL,
+	"value" text NOT NULL,
+	"reason" text,
+	"automatic" boolean DEFAULT false NOT NULL,
+	"offense" integer DEFAULT 1 NOT NULL,
+	"expiresAt" timestamp,
+	"createdById" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	"liftedAt" timestamp,
+	"liftedById" text
+);
+--> statement-breakpoint
+ALTER TABLE "blocklist" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "blocklist" ADD CONSTRAINT "blocklist_createdById_users_id_fk" FOREIGN KEY ("createdById") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "blocklist" ADD CONSTRAINT "blocklist_liftedById_users_id_fk" FOREIGN KEY ("liftedById") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "blocklist_active_type_value_key" ON "blocklist" USING btree ("type","value") WHERE "liftedAt" IS NULL;--> statement-breakpoint
+CREATE INDEX "blocklist_type_value_created_at_idx" ON "blocklist" USING btree ("type","value","createdAt");--> statement-breakpoint
+CREATE POLICY "blocklist_admin_all" ON "blocklist" AS PERMISSIVE FOR ALL TO public USING (current_user_is_admin()) WITH CHECK (current_user_is_admin());
\ No newline at end of file
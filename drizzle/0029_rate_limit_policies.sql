@@ -0,0 +1 @@
+ALTER TABLE "settings" ADD COLUMN "rateLimitPolicies" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
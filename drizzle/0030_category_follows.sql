@@ -0,0 +1,15 @@
+ALTER TYPE "public"."NotificationType" ADD VALUE 'FOLLOWED_CATEGORY_POST';--> statement-breakpoint
+CREATE TABLE "category_follows" (
+	"userId" text NOT NULL,
+	"categoryId" text NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "category_follows_userId_categoryId_pk" PRIMARY KEY("userId","categoryId")
+);
+--> statement-breakpoint
+ALTER TABLE "category_follows" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "category_follows" ADD CONSTRAINT "category_follows_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "category_follows" ADD CONSTRAINT "category_follows_categoryId_categories_id_fk" FOREIGN KEY ("categoryId") REFERENCES "public"."categories"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "category_follows_category_id_idx" ON "category_follows" USING btree ("categoryId");--> statement-breakpoint
+CREATE POLICY "category_follows_select_own" ON "category_follows" AS PERMISSIVE FOR SELECT TO public USING ("userId" = auth.uid()::text);--> statement-breakpoint
+CREATE POLICY "category_follows_insert_own" ON "category_follows" AS PERMISSIVE FOR INSERT TO public WITH CHECK ("userId" = auth.uid()::text);--> statement-breakpoint
+CREATE POLICY "category_follows_delete_own" ON "category_follows" AS PERMISSIVE FOR DELETE TO public USING ("userId" = auth.uid()::text);
\ No newline at end of file
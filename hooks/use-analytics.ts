@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 
-// Interface matching the API response
+// Interface matching the API response (see lib/analytics.ts)
 interface AnalyticsData {
   chartData: Array<{
     date: string;
@@ -10,7 +10,7 @@ interface AnalyticsData {
     mobile: number;
     total: number;
   }>;
-
+  totalViews: number;
   totalVisitors: number;
   topPages: Array<{
     page: string;
@@ -20,10 +20,22 @@ interface AnalyticsData {
     referrer: string;
     views: number;
   }>;
+  from: string;
+  to: string;
+  timezone: string;
+}
+
+export interface AnalyticsCustomRange {
+  /** Inclusive YYYY-MM-DD dates, interpreted in `timezone` */
+  from: string;
+  to: string;
 }
 
 interface UseAnalyticsOptions {
   range?: "7d" | "30d" | "90d";
+  /** Overrides `range` when set */
+  customRange?: AnalyticsCustomRange | null;
+  /** IANA timezone used to bucket days; defaults to the browser's */
   timezone?: string;
   refreshInterval?: number;
 }
@@ -35,92 +47,41 @@ interface UseAnalyticsReturn {
   refetch: () => Promise<void>;
 }
 
-// Generate mock data for development
-function generateMockData(range: string): AnalyticsData {
-  const days = range === "7d" ? 7 : range === "30d" ? 30 : 90;
-  const chartData = [];
-  let totalVisitors = 0;
-
-  // Optimize for smaller data structures
-  const maxDataPoints = Math.min(days, 30); // Limit to 30 days max for mock data
-  const stepSize = Math.ceil(days / maxDataPoints);
-
-  // Generate data for the specified range with optimization
-  for (let i = maxDataPoints - 1; i >= 0; i--) {
-    const date = new Date();
-    date.setDate(date.getDate() - i * stepSize);
-
-    // Generate realistic-looking data with some randomness
-    const baseViews = Math.floor(Math.random() * 500) + 100;
-    const desktop = Math.floor(baseViews * (0.5 + Math.random() * 0.3)); // 50-80% desktop
-    const mobile = baseViews - desktop;
-    const visitors = Math.floor(baseViews * (0.6 + Math.random() * 0.2)); // 60-80% of views
-
-    totalVisitors += visitors;
-
-    chartData.push({
-      date: date.toISOString().split("T")[0],
-      desktop,
-      mobile,
-      total: baseViews,
-    });
+function browserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
   }
-
-  // Use smaller, more efficient data structures
-  const topPages = [
-    { page: "/", views: Math.floor(totalVisitors * 0.3) },
-    { page: "/directory", views: Math.floor(totalVisitors * 0.2) },
-    { page: "/entry/prompts", views: Math.floor(totalVisitors * 0.15) },
-    { page: "/features", views: Math.floor(totalVisitors * 0.1) },
-    { page: "/about", views: Math.floor(totalVisitors * 0.05) },
-  ];
-
-  const topReferrers = [
-    { referrer: "google.com", views: Math.floor(totalVisitors * 0.4) },
-    { referrer: "direct", views: Math.floor(totalVisitors * 0.2) },
-    { referrer: "twitter.com", views: Math.floor(totalVisitors * 0.15) },
-    { referrer: "github.com", views: Math.floor(totalVisitors * 0.1) },
-    { referrer: "reddit.com", views: Math.floor(totalVisitors * 0.05) },
-  ];
-
-  return {
-    chartData,
-    totalVisitors,
-    topPages,
-    topReferrers,
-  };
 }
 
 export function useAnalytics({
   range = "7d",
-  timezone = "UTC",
+  customRange,
+  timezone,
   refreshInterval,
 }: UseAnalyticsOptions = {}): UseAnalyticsReturn {
   const [data, setData] = useState<AnalyticsData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const customFrom = customRange?.from;
+  const customTo = customRange?.to;
+
   const fetchAnalytics = useCallback(async () => {
     try {
       setIsLoading(true);
       setError(null);
 
-      // Check if we're in production
-      const isProduction = process.env.NODE_ENV === "production";
-
-      // In development, return mock data immediately
-      if (!isProduction) {
-        console.log("Development mode: Using mock analytics data");
-        const mockData = generateMockData(range);
-        setData(mockData);
-        return;
-      }
-
-      // Production: Fetch from API
       const params = new URLSearchParams({
-        range,
-        timezone,
+        timezone: timezone || browserTimeZone(),
       });
+      if (customFrom && customTo) {
+        params.set("from", customFrom);
+        params.set("to", customTo);
+      } else {
+        params.set("range", range);
+      }
 
       const response = await fetch(`/api/v1/analytics?${params}`, {
         method: "GET",
@@ -147,7 +108,7 @@ export function useAnalytics({
     } finally {
       setIsLoading(false);
     }
-  }, [range, timezone]);
+  }, [range, customFrom, customTo, timezone]);
 
   const refetch = async () => {
     await fetchAnalytics();
@@ -158,9 +119,9 @@ export function useAnalytics({
     fetchAnalytics();
   }, [fetchAnalytics]);
 
-  // Set up automatic refresh if specified (only in production)
+  // Set up automatic refresh if specified
   useEffect(() => {
-    if (!refreshInterval || process.env.NODE_ENV !== "production") return;
+    if (!refreshInterval) return;
 
     const interval = setInterval(fetchAnalytics, refreshInterval);
     return () => clearInterval(interval);
@@ -189,6 +150,7 @@ export function useAnalyticsChart(options?: UseAnalyticsOptions) {
 
   return {
     chartData,
+    totalViews: data?.totalViews || 0,
     totalVisitors: data?.totalVisitors || 0,
     isLoading,
     error,
@@ -0,0 +1,109 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import { useCSRF } from "@/hooks/use-csrf";
+import { MAX_UPLOAD_SIZE, UPLOAD_IMAGE_TYPES } from "@/lib/schemas";
+import type { UploadPurpose } from "@/lib/db/schema";
+
+interface UploadedImage {
+  url: string;
+  /** Derived from the filename; used as alt text */
+  title: string;
+}
+
+function titleFromFilename(filename: string): string {
+  const base = filename.replace(/\.[^.]+$/, "");
+  // fileUploadSchema only allows letters, digits, spaces and -_.
+  return base.replace(/[^a-zA-Z0-9\s\-_.]/g, " ").replace(/\s+/g, " ").trim().slice(0, 100) || "image";
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = (await response.json().catch(() => null)) as {
+    error?: string;
+    details?: { message: string }[];
+  } | null;
+  return data?.details?.[0]?.message ?? data?.error ?? fallback;
+}
+
+/**
+ * Uploads images straight to object storage: presign via the API, PUT the
+ * file to the returned URL, then confirm. Errors are reported with a toast
+ * and resolve to null.
+ */
+export function useImageUpload(purpose: UploadPurpose) {
+  const { token } = useCSRF();
+  const [isUploading, setIsUploading] = useState(false);
+
+  const upload = useCallback(
+    async (file: File): Promise<UploadedImage | null> => {
+      if (!(file.type in UPLOAD_IMAGE_TYPES)) {
+        toast.error("Only JPEG, PNG, WebP, GIF and AVIF images can be uploaded");
+        return null;
+      }
+      if (file.size > MAX_UPLOAD_SIZE) {
+        toast.error(`Images must be ${MAX_UPLOAD_SIZE / 1024 / 1024} MB or smaller`);
+        return null;
+      }
+      if (!token) {
+        toast.error("Security verification in progress. Please wait.");
+        return null;
+      }
+
+      setIsUploading(true);
+      try {
+        const title = titleFromFilename(file.name);
+        const presignResponse = await fetch("/api/v1/upload/presign", {
+          method: "POST",
+          credentials: "same-origin",
+          headers: { "Content-Type": "application/json", "X-CSRF-Token": token },
+          body: JSON.stringify({
+            title,
+            filename: file.name,
+            contentType: file.type,
+            size: file.size,
+            purpose,
+          }),
+        });
+        if (!presignResponse.ok) {
+          toast.error(await readError(presignResponse, "Failed to start upload"));
+          return null;
+        }
+        const { upload: presigned } = (await presignResponse.json()) as {
+          upload: { id: string; uploadUrl: string; headers: Record<string, string> };
+        };
+
+        const putResponse = await fetch(presigned.uploadUrl, {
+          method: "PUT",
+          headers: presigned.headers,
+          body: file,
+        });
+        if (!putResponse.ok) {
+          toast.error("Failed to upload image");
+          return null;
+        }
+
+        const completeResponse = await fetch(`/api/v1/upload/${presigned.id}/complete`, {
+          method: "POST",
+          credentials: "same-origin",
+          headers: { "X-CSRF-Token": token },
+        });
+        if (!completeResponse.ok) {
+          toast.error(await readError(completeResponse, "Failed to upload image"));
+          return null;
+        }
+        const { url } = (await completeResponse.json()) as { url: string };
+        return { url, title };
+      } catch (error) {
+        console.error("Image upload failed:", error);
+        toast.error("Failed to upload image");
+        return null;
+      } finally {
+        setIsUploading(false);
+      }
+    },
+    [purpose, token]
+  );
+
+  return { upload, isUploading };
+}
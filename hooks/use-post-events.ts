@@ -0,0 +1,42 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { useCSRF } from "@/hooks/use-csrf";
+import type { PostEventData } from "@/lib/schemas";
+
+/**
+ * Reports a view for `postId` once per mount and exposes `trackCopy` for the
+ * copy button. Failures are ignored — analytics must never break the page.
+ * The server dedups per visitor/day, so repeat reports are harmless.
+ */
+export function usePostEvents(postId: string) {
+  const { token } = useCSRF();
+  const viewedPostId = useRef<string | null>(null);
+
+  const trackEvent = useCallback(
+    (type: PostEventData["type"]) => {
+      if (!token) return;
+      fetch(`/api/v1/posts/${postId}/events`, {
+        method: "POST",
+        credentials: "same-origin",
+        keepalive: true,
+        headers: {
+          "Content-Type": "application/json",
+          "X-CSRF-Token": token,
+        },
+        body: JSON.stringify({ type }),
+      }).catch(() => {});
+    },
+    [postId, token]
+  );
+
+  useEffect(() => {
+    if (!token || viewedPostId.current === postId) return;
+    viewedPostId.current = postId;
+    trackEvent("view");
+  }, [postId, token, trackEvent]);
+
+  const trackCopy = useCallback(() => trackEvent("copy"), [trackEvent]);
+
+  return { trackCopy };
+}
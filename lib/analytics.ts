@@ -0,0 +1,227 @@
+import { createHash } from "node:crypto";
+import { db } from "@/lib/db";
+import { pageViewStats, pageViewVisitors } from "@/lib/db/schema";
+import { and, desc, gte, lt, ne, sql } from "drizzle-orm";
+
+export type AnalyticsRange = "7d" | "30d" | "90d";
+export type AnalyticsDevice = "desktop" | "mobile";
+
+export interface SiteAnalytics {
+  chartData: Array<{
+    date: string;
+    desktop: number;
+    mobile: number;
+    total: number;
+  }>;
+  totalViews: number;
+  totalVisitors: number;
+  topPages: Array<{ page: string; views: number }>;
+  topReferrers: Array<{ referrer: string; views: number }>;
+}
+
+export interface AnalyticsWindow {
+  /** Inclusive local start date (YYYY-MM-DD) in `timezone` */
+  from: string;
+  /** Inclusive local end date (YYYY-MM-DD) in `timezone` */
+  to: string;
+  timezone: string;
+}
+
+const RANGE_DAYS: Record<AnalyticsRange, number> = { "7d": 7, "30d": 30, "90d": 90 };
+export const MAX_CUSTOM_RANGE_DAYS = 366;
+
+const MOBILE_UA = /Mobi|Android|iPhone|iPad|iPod|Windows Phone/i;
+const BOT_UA = /bot|crawl|spider|slurp|preview|headless|lighthouse/i;
+
+// ---------------------------------------------------------------------------
+// Date helpers
+// ---------------------------------------------------------------------------
+
+export function utcDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Daily-salted so the same visitor can't be linked across days. */
+export function hashVisitor(day: string, visitorId: string): string {
+  return createHash("sha256").update(`${day}:${visitorId}`).digest("hex");
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Today's date (YYYY-MM-DD) as seen in `timezone`. */
+function localToday(timezone: string): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", { timeZone: timezone }).format(new Date());
+}
+
+function addDays(day: string, amount: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + amount);
+  return utcDay(date);
+}
+
+/** Inclusive number of days between two YYYY-MM-DD dates. */
+export function daysBetween(from: string, to: string): number {
+  const ms = new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime();
+  return Math.round(ms / 86_400_000) + 1;
+}
+
+/** The last `range` days up to and including today in `timezone`. */
+export function resolveRange(range: AnalyticsRange, timezone: string): AnalyticsWindow {
+  const to = localToday(timezone);
+  return { from: addDays(to, -(RANGE_DAYS[range] - 1)), to, timezone };
+}
+
+/** The window of the same length immediately before `window`. */
+export function previousWindow(window: AnalyticsWindow): AnalyticsWindow {
+  const length = daysBetween(window.from, window.to);
+  return {
+    from: addDays(window.from, -length),
+    to: addDays(window.from, -1),
+    timezone: window.timezone,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Ingestion
+// ---------------------------------------------------------------------------
+
+export function isBotUserAgent(userAgent: string): boolean {
+  return !userAgent || BOT_UA.test(userAgent);
+}
+
+export function deviceFromUserAgent(userAgent: string): AnalyticsDevice {
+  return MOBILE_UA.test(userAgent) ? "mobile" : "desktop";
+}
+
+/**
+ * Count one page view in the current UTC hour. The visitor counts towards
+ * `visitors` only on their first view of the UTC day.
+ */
+export async function recordPageView({
+  path,
+  referrer,
+  device,
+  visitorId,
+}: {
+  path: string;
+  referrer: string;
+  device: AnalyticsDevice;
+  visitorId: string;
+}): Promise<void> {
+  const now = new Date();
+  const day = utcDay(now);
+  const bucket = new Date(now);
+  bucket.setUTCMinutes(0, 0, 0);
+
+  await db.transaction(async (tx) => {
+    const firstVisit = await tx
+      .insert(pageViewVisitors)
+      .values({ day, visitorHash: hashVisitor(day, visitorId) })
+      .onConflictDoNothing()
+      .returning({ day: pageViewVisitors.day });
+    const visitors = firstVisit.length > 0 ? 1 : 0;
+
+    await tx
+      .insert(pageViewStats)
+      .values({ bucket, path, referrer, device, views: 1, visitors })
+      .onConflictDoUpdate({
+        target: [pageViewStats.bucket, pageViewStats.path, pageViewStats.referrer, pageViewStats.device],
+        set: {
+          views: sql`${pageViewStats.views} + 1`,
+          visitors: sql`${pageViewStats.visitors} + ${visitors}`,
+        },
+      });
+
+    // Visitor hashes are only needed for the current day
+    if (visitors) {
+      await tx.delete(pageViewVisitors).where(lt(pageViewVisitors.day, day));
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Reporting
+// ---------------------------------------------------------------------------
+
+/**
+ * Views per local day (split by device), totals, and top pages/referrers for
+ * an inclusive date window. Days are bucketed in `window.timezone`; zones
+ * with a sub-hour offset (e.g. +05:30) shift by up to an hour at the edges.
+ */
+export async function getSiteAnalytics(window: AnalyticsWindow): Promise<SiteAnalytics> {
+  const { from, to, timezone } = window;
+  // Local midnight of `from` / the day after `to`, converted to UTC buckets
+  const start = sql`((${from}::timestamp) AT TIME ZONE ${timezone}) AT TIME ZONE 'UTC'`;
+  const end = sql`((${addDays(to, 1)}::timestamp) AT TIME ZONE ${timezone}) AT TIME ZONE 'UTC'`;
+  const inWindow = and(gte(pageViewStats.bucket, start), lt(pageViewStats.bucket, end));
+  const localDay = sql<string>`to_char((${pageViewStats.bucket} AT TIME ZONE 'UTC') AT TIME ZONE ${timezone}, 'YYYY-MM-DD')`;
+
+  const [daily, [totals], topPages, topReferrers] = await Promise.all([
+    db
+      .select({
+        day: localDay,
+        device: pageViewStats.device,
+        views: sql<number>`sum(${pageViewStats.views})::int`,
+      })
+      .from(pageViewStats)
+      .where(inWindow)
+      // Positional: the select-list expression carries its own bind parameters
+      .groupBy(sql`1`, pageViewStats.device),
+    db
+      .select({
+        views: sql<number>`coalesce(sum(${pageViewStats.views}), 0)::int`,
+        visitors: sql<number>`coalesce(sum(${pageViewStats.visitors}), 0)::int`,
+      })
+      .from(pageViewStats)
+      .where(inWindow),
+    db
+      .select({
+        page: pageViewStats.path,
+        views: sql<number>`sum(${pageViewStats.views})::int`,
+      })
+      .from(pageViewStats)
+      .where(inWindow)
+      .groupBy(pageViewStats.path)
+      .orderBy(desc(sql`sum(${pageViewStats.views})`))
+      .limit(10),
+    db
+      .select({
+        referrer: pageViewStats.referrer,
+        views: sql<number>`sum(${pageViewStats.views})::int`,
+      })
+      .from(pageViewStats)
+      .where(and(inWindow, ne(pageViewStats.referrer, "")))
+      .groupBy(pageViewStats.referrer)
+      .orderBy(desc(sql`sum(${pageViewStats.views})`))
+      .limit(10),
+  ]);
+
+  const byDay = new Map<string, { desktop: number; mobile: number }>();
+  for (const row of daily) {
+    const entry = byDay.get(row.day) ?? { desktop: 0, mobile: 0 };
+    entry[row.device] += row.views;
+    byDay.set(row.day, entry);
+  }
+
+  const chartData: SiteAnalytics["chartData"] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    const entry = byDay.get(day) ?? { desktop: 0, mobile: 0 };
+    chartData.push({ date: day, ...entry, total: entry.desktop + entry.mobile });
+  }
+
+  return {
+    chartData,
+    totalViews: totals?.views ?? 0,
+    totalVisitors: totals?.visitors ?? 0,
+    topPages,
+    topReferrers,
+  };
+}
@@ -0,0 +1,135 @@
+import { createHash, randomBytes } from "node:crypto";
+import { db } from "@/lib/db";
+import { apiKeys, users, type ApiKeyScope } from "@/lib/db/schema";
+import { logAuditEvent, SecurityEvents } from "@/lib/security/audit";
+import { and, desc, eq, isNull, lt, or } from "drizzle-orm";
+
+/** Every key starts with this, so proxy.ts can tell keys from Supabase JWTs. */
+export const API_KEY_PREFIX = "pxk_";
+export const MAX_API_KEYS_PER_USER = 10;
+
+// lastUsedAt is only rewritten when older than this, to avoid a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scope: ApiKeyScope;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ApiKeyIdentity {
+  id: string;
+  userId: string;
+  scope: ApiKeyScope;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/** A fresh key; only `hash` and `prefix` are stored, `key` is shown once. */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 6), hash: hashApiKey(key) };
+}
+
+/** The key from `X-API-Key` or `Authorization: Bearer pxk_…`, if present. */
+export function getApiKeyFromHeaders(headers: Headers): string | null {
+  const headerKey = headers.get("x-api-key")?.trim();
+  if (headerKey) return headerKey;
+
+  const authHeader = headers.get("authorization");
+  const bearer = authHeader?.startsWith("Bearer ") ? authHeader.slice(7).trim() : null;
+  return bearer && isApiKey(bearer) ? bearer : null;
+}
+
+/**
+ * Resolves a raw key to its owner, or null when it is unknown, revoked or
+ * belongs to a disabled user. Refreshes the key's last-used timestamp.
+ */
+export async function verifyApiKey(
+  key: string,
+  ipAddress?: string
+): Promise<ApiKeyIdentity | null> {
+  if (!isApiKey(key)) return null;
+
+  const [row] = await db
+    .select({ id: apiKeys.id, userId: apiKeys.userId, scope: apiKeys.scope })
+    .from(apiKeys)
+    .innerJoin(users, eq(apiKeys.userId, users.id))
+    .where(
+      and(eq(apiKeys.keyHash, hashApiKey(key)), isNull(apiKeys.revokedAt), eq(users.disabled, false))
+    )
+    .limit(1);
+
+  if (!row) {
+    await SecurityEvents.authenticationFailure(undefined, ipAddress, "invalid_api_key");
+    return null;
+  }
+
+  const now = Date.now();
+  await db
+    .update(apiKeys)
+    .set({ lastUsedAt: new Date(now), lastUsedIp: ipAddress ?? null })
+    .where(
+      and(
+        eq(apiKeys.id, row.id),
+        or(
+          isNull(apiKeys.lastUsedAt),
+          lt(apiKeys.lastUsedAt, new Date(now - LAST_USED_RESOLUTION_MS))
+        )
+      )
+    );
+
+  return row;
+}
+
+/** Writes one `logs` row per key-authenticated API request. */
+export function logApiKeyUsage(
+  apiKey: ApiKeyIdentity,
+  request: { method: string; pathname: string; ipAddress?: string; userAgent?: string },
+  outcome: "allowed" | "rate_limited" | "forbidden"
+) {
+  return logAuditEvent({
+    action: "API Key Request",
+    userId: apiKey.userId,
+    entityType: "api_key",
+    entityId: apiKey.id,
+    ipAddress: request.ipAddress,
+    userAgent: request.userAgent,
+    severity: outcome === "allowed" ? "LOW" : "MEDIUM",
+    metadata: {
+      method: request.method,
+      path: request.pathname,
+      scope: apiKey.scope,
+      outcome,
+    },
+  });
+}
+
+/** The user's keys (active and revoked), newest first. */
+export async function getUserApiKeys(userId: string): Promise<ApiKeySummary[]> {
+  return db
+    .select({
+      id: apiKeys.id,
+      name: apiKeys.name,
+      prefix: apiKeys.prefix,
+      scope: apiKeys.scope,
+      lastUsedAt: apiKeys.lastUsedAt,
+      lastUsedIp: apiKeys.lastUsedIp,
+      revokedAt: apiKeys.revokedAt,
+      createdAt: apiKeys.createdAt,
+    })
+    .from(apiKeys)
+    .where(eq(apiKeys.userId, userId))
+    .orderBy(desc(apiKeys.createdAt));
+}
@@ -7,6 +7,7 @@ import { redirect } from "next/navigation";
 import { headers } from "next/headers";
 import { db } from "@/lib/db";
 import { users } from "@/lib/db/schema";
+import { ensureUserHandle } from "@/lib/authors";
 import { eq } from "drizzle-orm";
 import { getBaseUrl } from "@/lib/utils";
 import type { User } from "@supabase/supabase-js";
@@ -244,9 +245,11 @@ export const getCurrentUser = cache(async () => {
   // verified user ID on x-user-id. Reading the header skips a redundant network
   // round-trip to Supabase (~150-800ms) and only does one DB lookup.
   let verifiedUserId: string | null = null;
+  let viaApiKey = false;
   try {
     const headersList = await headers();
     verifiedUserId = headersList.get("x-user-id");
+    viaApiKey = headersList.has("x-api-key-id");
   } catch {
     // headers() is unavailable outside a request context (e.g. build-time).
   }
@@ -260,6 +263,11 @@ export const getCurrentUser = cache(async () => {
 
     if (!userData) return null;
 
+    // API keys never carry admin rights, whoever issued them
+    if (viaApiKey && userData.role === "ADMIN") {
+      userData.role = "USER";
+    }
+
     // Build a shape compatible with callers that spread the Supabase User object.
     // email is kept in sync with Supabase via upsertUserInDatabase on every login.
     // Supabase-only fields (last_sign_in_at, email_confirmed_at) are undefined here;
@@ -457,6 +465,7 @@ export async function upsertUserInDatabase(supabaseUser: {
           updatedAt: now,
         },
       });
+    await ensureUserHandle(supabaseUser.id, name, email);
   } catch (error) {
     console.error("Database upsert error:", error);
   }
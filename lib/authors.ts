@@ -0,0 +1,146 @@
+import { db } from "@/lib/db";
+import { follows, users } from "@/lib/db/schema";
+import { HANDLE_PATTERN } from "@/lib/schemas";
+import { and, eq, ne, sql } from "drizzle-orm";
+
+export interface AuthorProfile {
+  id: string;
+  handle: string;
+  name: string | null;
+  avatar: string | null;
+  bio: string | null;
+  links: string[];
+  createdAt: Date;
+  /** Approved, published posts */
+  postCount: number;
+  /** Stars received across those posts */
+  starCount: number;
+  followerCount: number;
+  followingCount: number;
+  isSelf: boolean;
+  isFollowing: boolean;
+}
+
+/**
+ * Handle derived from a display name (or the email's local part), mirroring
+ * the backfill in drizzle/0023_author_profiles.sql. May be shorter than
+ * HANDLE_PATTERN allows; generateUniqueHandle pads it.
+ */
+export function handleBase(name: string | null | undefined, email: string): string {
+  const source = name?.trim() || email.split("@")[0] || "";
+  return source
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, 20)
+    .replace(/^-+|-+$/g, "");
+}
+
+async function isHandleTaken(handle: string, exceptUserId?: string): Promise<boolean> {
+  const conditions = [eq(users.handle, handle)];
+  if (exceptUserId) conditions.push(ne(users.id, exceptUserId));
+  const [row] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(...conditions))
+    .limit(1);
+  return !!row;
+}
+
+/** True when no other user has claimed `handle`. */
+export async function isHandleAvailable(handle: string, userId: string): Promise<boolean> {
+  return !(await isHandleTaken(handle, userId));
+}
+
+async function generateUniqueHandle(name: string | null, email: string, userId: string): Promise<string> {
+  const base = handleBase(name, email);
+  if (HANDLE_PATTERN.test(base) && !(await isHandleTaken(base))) return base;
+
+  const withId = `${base}-${userId.slice(0, 6).toLowerCase()}`.replace(/^-+/, "");
+  if (HANDLE_PATTERN.test(withId) && !(await isHandleTaken(withId))) return withId;
+
+  return `${base || "user"}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Assign a handle to a user who doesn't have one yet (new sign-ups). Called
+ * after the users upsert on every sign-in, so it is a single lookup for
+ * existing users.
+ */
+export async function ensureUserHandle(userId: string, name: string | null, email: string): Promise<void> {
+  const [user] = await db
+    .select({ handle: users.handle })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (!user || user.handle) return;
+
+  const handle = await generateUniqueHandle(name, email, userId);
+  await db
+    .update(users)
+    .set({ handle })
+    .where(and(eq(users.id, userId), sql`${users.handle} IS NULL`));
+}
+
+/** Id of the (enabled) user with this handle, or null. */
+export async function getAuthorIdByHandle(handle: string): Promise<string | null> {
+  const [row] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.handle, handle.toLowerCase()), eq(users.disabled, false)))
+    .limit(1);
+  return row?.id ?? null;
+}
+
+/** Public profile for /u/[handle], or null for unknown or disabled users. */
+export async function getAuthorProfileByHandle(
+  handle: string,
+  viewerId?: string | null
+): Promise<AuthorProfile | null> {
+  const [row] = await db
+    .select({
+      id: users.id,
+      handle: users.handle,
+      name: users.name,
+      avatar: users.avatar,
+      bio: users.bio,
+      links: users.links,
+      createdAt: users.createdAt,
+      postCount: sql<number>`(
+        SELECT count(*)::int FROM posts p
+        WHERE p."authorId" = ${users.id} AND p."isPublished" = true
+      )`,
+      starCount: sql<number>`(
+        SELECT count(*)::int FROM bookmarks b
+        JOIN posts p ON p.id = b."postId"
+        WHERE p."authorId" = ${users.id} AND p."isPublished" = true
+      )`,
+      followerCount: sql<number>`(
+        SELECT count(*)::int FROM follows f WHERE f."followingId" = ${users.id}
+      )`,
+      followingCount: sql<number>`(
+        SELECT count(*)::int FROM follows f WHERE f."followerId" = ${users.id}
+      )`,
+    })
+    .from(users)
+    .where(and(eq(users.handle, handle.toLowerCase()), eq(users.disabled, false)))
+    .limit(1);
+  if (!row?.handle) return null;
+
+  const isSelf = viewerId === row.id;
+  const following =
+    viewerId && !isSelf
+      ? await db
+          .select({ followerId: follows.followerId })
+          .from(follows)
+          .where(and(eq(follows.followerId, viewerId), eq(follows.followingId, row.id)))
+          .limit(1)
+      : [];
+
+  return {
+    ...row,
+    handle: row.handle,
+    links: row.links ?? [],
+    isSelf,
+    isFollowing: following.length > 0,
+  };
+}
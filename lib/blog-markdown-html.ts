@@ -0,0 +1,188 @@
+/**
+ * Markdown ⇄ HTML for blog articles. Articles are stored as the editor's HTML;
+ * Markdown only exists at the import/export boundary. Server-only — the HTML
+ * side walks a JSDOM tree. Callers sanitize the HTML produced on import.
+ */
+
+import MarkdownIt from "markdown-it";
+import { JSDOM } from "jsdom";
+
+// Raw HTML stays enabled so MDX/JSX blocks survive until the sanitizer strips them
+const markdown = new MarkdownIt({ html: true, linkify: true });
+
+export function markdownToHtml(source: string): string {
+  return markdown.render(source);
+}
+
+// ---------------------------------------------------------------------------
+// HTML → Markdown
+// ---------------------------------------------------------------------------
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+function escapeText(text: string): string {
+  return text.replace(/([\\`*_[\]<])/g, "\\$1");
+}
+
+// Characters that would start a block construct when they open a line
+function escapeLineStart(text: string): string {
+  return text.replace(/^(\s*)([#>+-]|\d+\.)(?=\s)/gm, "$1\\$2");
+}
+
+function inlineCode(text: string): string {
+  const fence = "`".repeat((text.match(/`+/g) ?? []).reduce((max, run) => Math.max(max, run.length), 0) + 1);
+  const pad = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${fence}${pad}${text}${pad}${fence}`;
+}
+
+function linkTarget(url: string, title: string | null): string {
+  const href = /[\s()]/.test(url) ? `<${url}>` : url;
+  return title ? `${href} "${title.replace(/"/g, '\\"')}"` : href;
+}
+
+function inline(node: Node): string {
+  if (node.nodeType === TEXT_NODE) return escapeText((node.textContent ?? "").replace(/\s+/g, " "));
+  if (node.nodeType !== ELEMENT_NODE) return "";
+
+  const el = node as Element;
+  const children = () => Array.from(el.childNodes).map(inline).join("");
+
+  switch (el.tagName.toLowerCase()) {
+    case "strong":
+    case "b":
+      return `**${children()}**`;
+    case "em":
+    case "i":
+      return `_${children()}_`;
+    case "s":
+    case "del":
+      return `~~${children()}~~`;
+    case "code":
+      return inlineCode(el.textContent ?? "");
+    case "br":
+      return "\\\n";
+    case "a": {
+      const href = el.getAttribute("href");
+      return href ? `[${children()}](${linkTarget(href, el.getAttribute("title"))})` : children();
+    }
+    case "img": {
+      const src = el.getAttribute("src");
+      return src ? `![${escapeText(el.getAttribute("alt") ?? "")}](${linkTarget(src, el.getAttribute("title"))})` : "";
+    }
+    case "u":
+    case "mark":
+    case "sub":
+    case "sup":
+      return el.outerHTML;
+    default:
+      return children();
+  }
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line, i) => (i === 0 || !line ? line : prefix + line))
+    .join("\n");
+}
+
+function list(el: Element, depth: number): string {
+  const ordered = el.tagName.toLowerCase() === "ol";
+  let n = Number(el.getAttribute("start") ?? 1) || 1;
+
+  return Array.from(el.children)
+    .filter((li) => li.tagName.toLowerCase() === "li")
+    .map((li) => {
+      const marker = ordered ? `${n++}. ` : "- ";
+      const body = blocks(li, depth + 1).trim();
+      return marker + indent(body, " ".repeat(marker.length));
+    })
+    .join("\n");
+}
+
+function block(node: Node, depth: number): string | null {
+  if (node.nodeType === TEXT_NODE) {
+    const text = (node.textContent ?? "").trim();
+    return text ? escapeLineStart(escapeText(text.replace(/\s+/g, " "))) : null;
+  }
+  if (node.nodeType !== ELEMENT_NODE) return null;
+
+  const el = node as Element;
+  const tag = el.tagName.toLowerCase();
+
+  if (/^h[1-6]$/.test(tag)) {
+    return `${"#".repeat(Number(tag[1]))} ${Array.from(el.childNodes).map(inline).join("").trim()}`;
+  }
+
+  switch (tag) {
+    case "p": {
+      const text = Array.from(el.childNodes).map(inline).join("").trim();
+      return text ? escapeLineStart(text) : null;
+    }
+    case "ul":
+    case "ol":
+      return list(el, depth);
+    case "blockquote":
+      return blocks(el, depth)
+        .trim()
+        .split("\n")
+        .map((line) => (line ? `> ${line}` : ">"))
+        .join("\n");
+    case "pre": {
+      const code = el.querySelector("code");
+      const text = (code ?? el).textContent ?? "";
+      const language = code?.className.match(/language-([\w+-]+)/)?.[1] ?? "";
+      const fence = "`".repeat(Math.max(3, ...(text.match(/`{3,}/g) ?? []).map((run) => run.length + 1)));
+      return `${fence}${language}\n${text.replace(/\n$/, "")}\n${fence}`;
+    }
+    case "hr":
+      return "---";
+    case "div":
+    case "section":
+    case "article":
+    case "figure":
+    case "li":
+      return blocks(el, depth) || null;
+    case "table":
+      // GFM tables cannot hold the editor's cell markup; markdown-it reads HTML back
+      return el.outerHTML;
+    default:
+      return Array.from(el.childNodes).map(inline).join("").trim() || null;
+  }
+}
+
+function blocks(parent: Element, depth = 0): string {
+  const out: string[] = [];
+  let inlineRun = "";
+
+  const flush = () => {
+    const text = inlineRun.trim();
+    if (text) out.push(escapeLineStart(text));
+    inlineRun = "";
+  };
+
+  for (const child of Array.from(parent.childNodes)) {
+    const isInline =
+      child.nodeType === TEXT_NODE ||
+      (child.nodeType === ELEMENT_NODE &&
+        /^(a|b|strong|i|em|s|del|code|br|img|span|u|mark|sub|sup)$/i.test((child as Element).tagName));
+    if (isInline) {
+      inlineRun += inline(child);
+      continue;
+    }
+    flush();
+    const rendered = block(child, depth);
+    if (rendered) out.push(rendered);
+  }
+  flush();
+
+  // Tight lists inside list items, blank lines between everything else
+  return out.join(depth > 0 && parent.tagName.toLowerCase() === "li" ? "\n" : "\n\n");
+}
+
+/** The editor's article HTML as CommonMark (GFM strikethrough, raw HTML for the rest). */
+export function htmlToMarkdown(html: string): string {
+  const { document } = new JSDOM(`<!DOCTYPE html><body>${html}</body>`).window;
+  return blocks(document.body).replace(/\n{3,}/g, "\n\n").trim() + "\n";
+}
@@ -0,0 +1,106 @@
+/**
+ * Blog articles as Markdown files with frontmatter — the format writers draft
+ * in and the export round-trips through git. Pure so the import page can
+ * preview files client-side; HTML conversion lives in lib/blog-markdown-html.
+ */
+
+import { parseFrontmatter, type FrontmatterValue } from "@/lib/post-kinds";
+
+export const BLOG_MARKDOWN_EXTENSIONS = [".md", ".mdx", ".markdown"] as const;
+
+export function isBlogMarkdownFile(filename: string): boolean {
+  const lower = filename.toLowerCase();
+  return BLOG_MARKDOWN_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+export interface BlogMarkdownArticle {
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  featuredImageUrl: string | null;
+  status: string;
+  publishedAt: Date | null;
+  tags: string[];
+  series: string | null;
+  seriesOrder: number | null;
+}
+
+function asString(value: FrontmatterValue | undefined): string | undefined {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number") return String(value);
+  return undefined;
+}
+
+function asList(value: FrontmatterValue | undefined): string[] | undefined {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string" && value.trim()) return value.split(",").map((t) => t.trim()).filter(Boolean);
+  return undefined;
+}
+
+// MDX module syntax has no HTML equivalent; JSX tags are left for the sanitizer
+function stripMdxModuleLines(body: string): string {
+  return body.replace(/^(?:import|export)\s.*$\n?/gm, "");
+}
+
+/**
+ * Map a `.md`/`.mdx` file onto a bulk-import item (validated afterwards with
+ * `blogBulkImportItemSchema`). Frontmatter supplies title, slug, excerpt,
+ * featuredImageUrl, status, publishedAt, tags and series; without a `title`
+ * the first `# heading` is lifted out of the body. Throws with a user-facing
+ * message when the frontmatter is malformed.
+ */
+export function parseBlogMarkdownFile(text: string, filename: string): Record<string, unknown> {
+  const { data, body: rawBody } = parseFrontmatter(text);
+  let body = filename.toLowerCase().endsWith(".mdx") ? stripMdxModuleLines(rawBody) : rawBody;
+
+  let title = asString(data.title);
+  if (!title) {
+    const heading = body.match(/^#[ \t]+(.+?)[ \t#]*$/m);
+    if (heading) {
+      title = heading[1];
+      body = body.replace(heading[0], "");
+    }
+  }
+
+  const seriesOrder = data.seriesOrder ?? data.series_order;
+  return {
+    title,
+    content: body.trim(),
+    format: "markdown",
+    slug: asString(data.slug),
+    excerpt: asString(data.excerpt ?? data.description),
+    featuredImageUrl: asString(data.featuredImageUrl ?? data.image),
+    status: asString(data.status)?.toUpperCase(),
+    publishedAt: asString(data.publishedAt ?? data.date),
+    tags: asList(data.tags),
+    series: asString(data.series),
+    seriesOrder: typeof seriesOrder === "number" ? seriesOrder : undefined,
+  };
+}
+
+// Bare when parseFrontmatter reads it back verbatim, otherwise quoted with
+// whichever quote the value does not contain (its unquote does no unescaping)
+function yamlString(value: string): string {
+  if (/^[\w][\w .,/()'-]*$/.test(value) && !/^(true|false|null|-?\d)/.test(value)) return value;
+  if (!value.includes('"')) return `"${value}"`;
+  if (!value.includes("'")) return `'${value}'`;
+  return JSON.stringify(value);
+}
+
+/** Frontmatter block plus Markdown body for one article. */
+export function buildBlogMarkdownFile(article: BlogMarkdownArticle, markdownBody: string): string {
+  const lines = [`title: ${yamlString(article.title)}`, `slug: ${article.slug}`];
+  if (article.excerpt) lines.push(`excerpt: ${yamlString(article.excerpt.replace(/\s*\n\s*/g, " "))}`);
+  if (article.featuredImageUrl) lines.push(`featuredImageUrl: ${yamlString(article.featuredImageUrl)}`);
+  lines.push(`status: ${article.status}`);
+  if (article.publishedAt) lines.push(`publishedAt: ${yamlString(article.publishedAt.toISOString())}`);
+  if (article.tags.length > 0) {
+    lines.push("tags:", ...article.tags.map((tag) => `  - ${yamlString(tag)}`));
+  }
+  if (article.series) {
+    lines.push(`series: ${yamlString(article.series)}`);
+    if (article.seriesOrder != null) lines.push(`seriesOrder: ${article.seriesOrder}`);
+  }
+
+  return `---\n${lines.join("\n")}\n---\n\n${markdownBody.trim()}\n`;
+}
@@ -1,8 +1,16 @@
 "use server";
 
 import { db } from "@/lib/db";
-import { blogPosts, users } from "@/lib/db/schema";
-import { eq, desc, and, count } from "drizzle-orm";
+import {
+  blogPostMentions,
+  blogPosts,
+  blogPostTags,
+  blogSeries,
+  posts,
+  tags,
+  users,
+} from "@/lib/db/schema";
+import { eq, desc, asc, and, count, inArray, ne, sql } from "drizzle-orm";
 import { unstable_cache } from "next/cache";
 import { CACHE_TAGS, CACHE_DURATIONS } from "@/lib/cache";
 
@@ -17,13 +25,16 @@ const BLOG_SELECT_LIST = {
   excerpt:          blogPosts.excerpt,
   featuredImageUrl: blogPosts.featuredImageUrl,
   readingTime:      blogPosts.readingTime,
+  seriesId:         blogPosts.seriesId,
+  seriesOrder:      blogPosts.seriesOrder,
   status:           blogPosts.status,
   publishedAt:      blogPosts.publishedAt,
   createdAt:        blogPosts.createdAt,
   updatedAt:        blogPosts.updatedAt,
   author: {
-    id:   users.id,
-    name: users.name,
+    id:     users.id,
+    name:   users.name,
+    avatar: users.avatar,
   },
 } as const;
 
@@ -33,7 +44,33 @@ const BLOG_SELECT_FULL = {
   authorId:         blogPosts.authorId,
 } as const;
 
+export interface BlogTag {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+async function getTagsForBlogPostIds(ids: string[]): Promise<Map<string, BlogTag[]>> {
+  const map = new Map<string, BlogTag[]>();
+  if (ids.length === 0) return map;
+  const rows = await db
+    .select({ blogPostId: blogPostTags.blogPostId, id: tags.id, name: tags.name, slug: tags.slug })
+    .from(blogPostTags)
+    .innerJoin(tags, eq(blogPostTags.tagId, tags.id))
+    .where(inArray(blogPostTags.blogPostId, ids))
+    .orderBy(asc(tags.name));
+  for (const { blogPostId, ...tag } of rows) {
+    const list = map.get(blogPostId) ?? [];
+    list.push(tag);
+    map.set(blogPostId, list);
+  }
+  return map;
+}
 
+async function withTags<T extends { id: string }>(rows: T[]): Promise<(T & { tags: BlogTag[] })[]> {
+  const tagsMap = await getTagsForBlogPostIds(rows.map((r) => r.id));
+  return rows.map((r) => ({ ...r, tags: tagsMap.get(r.id) ?? [] }));
+}
 
 // ---------------------------------------------------------------------------
 // Public queries (cached)
@@ -57,7 +94,7 @@ export const getPublishedBlogPosts = unstable_cache(
         .where(eq(blogPosts.status, "PUBLISHED")),
     ]);
     return {
-      posts: rows,
+      posts: await withTags(rows),
       pagination: {
         page,
         limit,
@@ -71,6 +108,67 @@ export const getPublishedBlogPosts = unstable_cache(
   { revalidate: CACHE_DURATIONS.POSTS_LIST, tags: [CACHE_TAGS.BLOG_POSTS] }
 );
 
+/** Tag archive: the tag plus its published articles, or null for an unknown tag. */
+export const getPublishedBlogPostsByTag = unstable_cache(
+  async (tagSlug: string, page = 1, limit = 20) => {
+    const [tag] = await db
+      .select({ id: tags.id, name: tags.name, slug: tags.slug })
+      .from(tags)
+      .where(eq(tags.slug, tagSlug))
+      .limit(1);
+    if (!tag) return null;
+
+    const offset = (page - 1) * limit;
+    const where = and(eq(blogPosts.status, "PUBLISHED"), eq(blogPostTags.tagId, tag.id));
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select(BLOG_SELECT_LIST)
+        .from(blogPosts)
+        .innerJoin(blogPostTags, eq(blogPostTags.blogPostId, blogPosts.id))
+        .leftJoin(users, eq(blogPosts.authorId, users.id))
+        .where(where)
+        .orderBy(desc(blogPosts.publishedAt))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(blogPosts)
+        .innerJoin(blogPostTags, eq(blogPostTags.blogPostId, blogPosts.id))
+        .where(where),
+    ]);
+    return {
+      tag,
+      posts: await withTags(rows),
+      pagination: {
+        page,
+        limit,
+        totalCount: Number(total),
+        totalPages: Math.ceil(Number(total) / limit),
+        hasNextPage: offset + limit < Number(total),
+      },
+    };
+  },
+  ["blog-posts-by-tag"],
+  { revalidate: CACHE_DURATIONS.POSTS_LIST, tags: [CACHE_TAGS.BLOG_POSTS] }
+);
+
+/** Tags used by at least one published article, most used first. */
+export const getBlogTags = unstable_cache(
+  async () => {
+    const rows = await db
+      .select({ id: tags.id, name: tags.name, slug: tags.slug, count: sql<number>`count(*)::int` })
+      .from(blogPostTags)
+      .innerJoin(tags, eq(blogPostTags.tagId, tags.id))
+      .innerJoin(blogPosts, eq(blogPostTags.blogPostId, blogPosts.id))
+      .where(eq(blogPosts.status, "PUBLISHED"))
+      .groupBy(tags.id, tags.name, tags.slug)
+      .orderBy(desc(sql`count(*)`), asc(tags.name));
+    return rows;
+  },
+  ["blog-tags"],
+  { revalidate: CACHE_DURATIONS.STATIC_DATA, tags: [CACHE_TAGS.BLOG_POSTS, CACHE_TAGS.TAGS] }
+);
+
 export const getBlogPostBySlug = unstable_cache(
   async (slug: string) => {
     const [row] = await db
@@ -79,12 +177,95 @@ export const getBlogPostBySlug = unstable_cache(
       .leftJoin(users, eq(blogPosts.authorId, users.id))
       .where(and(eq(blogPosts.slug, slug), eq(blogPosts.status, "PUBLISHED")))
       .limit(1);
-    return row ?? null;
+    if (!row) return null;
+    const [withTagList] = await withTags([row]);
+    return withTagList;
   },
   ["blog-post-by-slug"],
   { revalidate: CACHE_DURATIONS.POST_DETAIL, tags: [CACHE_TAGS.BLOG_POST_BY_SLUG] }
 );
 
+/** A series and its published parts in reading order. */
+export const getBlogSeriesParts = unstable_cache(
+  async (seriesId: string) => {
+    const [series] = await db
+      .select({ id: blogSeries.id, slug: blogSeries.slug, title: blogSeries.title, description: blogSeries.description })
+      .from(blogSeries)
+      .where(eq(blogSeries.id, seriesId))
+      .limit(1);
+    if (!series) return null;
+
+    const parts = await db
+      .select({ id: blogPosts.id, slug: blogPosts.slug, title: blogPosts.title, seriesOrder: blogPosts.seriesOrder })
+      .from(blogPosts)
+      .where(and(eq(blogPosts.seriesId, seriesId), eq(blogPosts.status, "PUBLISHED")))
+      .orderBy(asc(blogPosts.seriesOrder), asc(blogPosts.publishedAt));
+    return { series, parts };
+  },
+  ["blog-series-parts"],
+  { revalidate: CACHE_DURATIONS.POST_DETAIL, tags: [CACHE_TAGS.BLOG_POSTS] }
+);
+
+/** Published articles sharing the most tags with this one. */
+export const getRelatedBlogPosts = unstable_cache(
+  async (blogPostId: string, limit = 3) => {
+    const ownTagIds = db
+      .select({ tagId: blogPostTags.tagId })
+      .from(blogPostTags)
+      .where(eq(blogPostTags.blogPostId, blogPostId));
+    const shared = db
+      .select({
+        blogPostId: blogPostTags.blogPostId,
+        sharedCount: sql<number>`count(*)::int`.as("sharedCount"),
+      })
+      .from(blogPostTags)
+      .where(and(inArray(blogPostTags.tagId, ownTagIds), ne(blogPostTags.blogPostId, blogPostId)))
+      .groupBy(blogPostTags.blogPostId)
+      .as("shared_tags");
+
+    return db
+      .select(BLOG_SELECT_LIST)
+      .from(shared)
+      .innerJoin(blogPosts, eq(blogPosts.id, shared.blogPostId))
+      .leftJoin(users, eq(blogPosts.authorId, users.id))
+      .where(eq(blogPosts.status, "PUBLISHED"))
+      .orderBy(desc(shared.sharedCount), desc(blogPosts.publishedAt))
+      .limit(limit);
+  },
+  ["blog-related-posts"],
+  { revalidate: CACHE_DURATIONS.POST_DETAIL, tags: [CACHE_TAGS.BLOG_POSTS] }
+);
+
+/** Published prompt posts an article links to. */
+export const getBlogPostMentionedPosts = unstable_cache(
+  async (blogPostId: string) => {
+    return db
+      .select({ id: posts.id, title: posts.title, description: posts.description, kind: posts.kind })
+      .from(blogPostMentions)
+      .innerJoin(posts, eq(blogPostMentions.postId, posts.id))
+      .where(and(eq(blogPostMentions.blogPostId, blogPostId), eq(posts.isPublished, true)))
+      .orderBy(asc(posts.title));
+  },
+  ["blog-post-mentioned-posts"],
+  { revalidate: CACHE_DURATIONS.POST_DETAIL, tags: [CACHE_TAGS.BLOG_POSTS, CACHE_TAGS.POSTS] }
+);
+
+/** Latest published articles with their full body, for the blog feeds. */
+export const getBlogPostsForFeed = unstable_cache(
+  async (limit = 50) => {
+    const rows = await db
+      .select(BLOG_SELECT_FULL)
+      .from(blogPosts)
+      .leftJoin(users, eq(blogPosts.authorId, users.id))
+      .where(eq(blogPosts.status, "PUBLISHED"))
+      .orderBy(desc(blogPosts.publishedAt))
+      .limit(limit);
+    return withTags(rows);
+  },
+  ["blog-posts-feed"],
+  { revalidate: CACHE_DURATIONS.POSTS_LIST, tags: [CACHE_TAGS.BLOG_POSTS] }
+);
+
 export async function getBlogPostForSitemap() {
   return db
     .select({ slug: blogPosts.slug, updatedAt: blogPosts.updatedAt })
@@ -123,10 +304,31 @@ export async function getAllBlogPostsAdmin(page = 1, limit = 20) {
 
 export async function getBlogPostByIdAdmin(id: string) {
   const [row] = await db
-    .select(BLOG_SELECT_FULL)
+    .select({ ...BLOG_SELECT_FULL, seriesTitle: blogSeries.title })
     .from(blogPosts)
     .leftJoin(users, eq(blogPosts.authorId, users.id))
+    .leftJoin(blogSeries, eq(blogPosts.seriesId, blogSeries.id))
     .where(eq(blogPosts.id, id))
     .limit(1);
-  return row ?? null;
+  if (!row) return null;
+  const [withTagList] = await withTags([row]);
+  return withTagList;
+}
+
+export async function getAllBlogSeries() {
+  return db
+    .select({ id: blogSeries.id, title: blogSeries.title })
+    .from(blogSeries)
+    .orderBy(asc(blogSeries.title));
+}
+
+/** Every article with its body, tags and series, for the Markdown export. */
+export async function getBlogPostsForExport() {
+  const rows = await db
+    .select({ ...BLOG_SELECT_FULL, seriesTitle: blogSeries.title })
+    .from(blogPosts)
+    .leftJoin(users, eq(blogPosts.authorId, users.id))
+    .leftJoin(blogSeries, eq(blogPosts.seriesId, blogSeries.id))
+    .orderBy(asc(blogPosts.createdAt));
+  return withTags(rows);
 }
@@ -0,0 +1,99 @@
+import { and, eq, inArray, ne, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  blogPostMentions,
+  blogPosts,
+  blogPostTags,
+  blogSeries,
+  posts,
+  tags,
+} from "@/lib/db/schema";
+import { sanitizeTagSlug } from "@/lib/security/sanitize";
+
+const UUID_PATTERN = "[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}";
+
+/** Post IDs linked from article HTML as /entry/<id> (relative or absolute). */
+export function extractMentionedPostIds(html: string): string[] {
+  const pattern = new RegExp(`<a\\b[^>]*\\shref="[^"]*/entry/(${UUID_PATTERN})[^"]*"`, "gi");
+  return [...new Set([...html.matchAll(pattern)].map((m) => m[1].toLowerCase()))];
+}
+
+/**
+ * Finds or creates the series with this title and returns its id, or null
+ * when no series is given. Series are matched by slug, so re-typing a title
+ * with different casing reuses the existing series.
+ */
+export async function resolveBlogSeries(title: string | null): Promise<string | null> {
+  if (!title) return null;
+  const slug = sanitizeTagSlug(title);
+  if (!slug) return null;
+
+  const [series] = await db
+    .insert(blogSeries)
+    .values({ title, slug })
+    .onConflictDoUpdate({ target: blogSeries.slug, set: { updatedAt: new Date() } })
+    .returning({ id: blogSeries.id });
+  if (!series) throw new Error("Failed to save series");
+  return series.id;
+}
+
+/** Part number for an article appended to the end of a series. */
+export async function nextSeriesOrder(seriesId: string, excludePostId?: string): Promise<number> {
+  const [row] = await db
+    .select({ max: sql<number | null>`max(${blogPosts.seriesOrder})` })
+    .from(blogPosts)
+    .where(
+      and(
+        eq(blogPosts.seriesId, seriesId),
+        excludePostId ? ne(blogPosts.id, excludePostId) : undefined
+      )
+    );
+  return (row?.max ?? 0) + 1;
+}
+
+/**
+ * Replaces an article's tags and post mentions. Tags are upserted into the
+ * shared tags table by slug; mentions are the /entry/<id> links found in the
+ * article content that point at existing posts.
+ */
+export async function syncBlogPostTaxonomy(
+  blogPostId: string,
+  { tagNames, html }: { tagNames: string[]; html: string }
+): Promise<void> {
+  const mentionedIds = extractMentionedPostIds(html);
+  const existingPosts = mentionedIds.length
+    ? await db.select({ id: posts.id }).from(posts).where(inArray(posts.id, mentionedIds))
+    : [];
+
+  await db.transaction(async (tx) => {
+    const tagIds: string[] = [];
+    for (const tagName of tagNames) {
+      const tagSlug = sanitizeTagSlug(tagName);
+      if (!tagSlug) continue;
+      const [row] = await tx
+        .insert(tags)
+        .values({ name: tagName, slug: tagSlug })
+        .onConflictDoUpdate({
+          target: tags.slug,
+          set: { name: tagName, updatedAt: new Date() },
+        })
+        .returning({ id: tags.id });
+      if (row) tagIds.push(row.id);
+    }
+
+    await tx.delete(blogPostTags).where(eq(blogPostTags.blogPostId, blogPostId));
+    const uniqueTagIds = [...new Set(tagIds)];
+    if (uniqueTagIds.length > 0) {
+      await tx
+        .insert(blogPostTags)
+        .values(uniqueTagIds.map((tagId) => ({ blogPostId, tagId })));
+    }
+
+    await tx.delete(blogPostMentions).where(eq(blogPostMentions.blogPostId, blogPostId));
+    if (existingPosts.length > 0) {
+      await tx
+        .insert(blogPostMentions)
+        .values(existingPosts.map((p) => ({ blogPostId, postId: p.id })));
+    }
+  });
+}
@@ -0,0 +1,205 @@
+import { db } from "@/lib/db";
+import {
+  collections,
+  collectionPosts,
+  collectionStars,
+  posts,
+  users,
+} from "@/lib/db/schema";
+import { PostQueries, type PostWithInteractions } from "@/lib/query";
+import type { ExportablePost } from "@/lib/post-export";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+
+export interface CollectionSummary {
+  id: string;
+  title: string;
+  slug: string;
+  description: string | null;
+  isPublic: boolean;
+  updatedAt: Date;
+  postCount: number;
+  starCount: number;
+}
+
+export interface CollectionDetail extends CollectionSummary {
+  owner: { id: string; name: string | null; avatar: string | null };
+  isOwner: boolean;
+  isStarred: boolean;
+  /** In collection order; posts the viewer can't see are left out */
+  posts: PostWithInteractions[];
+}
+
+export interface CollectionViewer {
+  id: string;
+  role: "USER" | "ADMIN";
+}
+
+export interface CollectionMembership {
+  id: string;
+  title: string;
+  isPublic: boolean;
+  hasPost: boolean;
+}
+
+const postCount = sql<number>`(
+  SELECT count(*)::int FROM collection_posts cp WHERE cp."collectionId" = ${collections.id}
+)`;
+const starCount = sql<number>`(
+  SELECT count(*)::int FROM collection_stars cs WHERE cs."collectionId" = ${collections.id}
+)`;
+
+const summaryFields = {
+  id: collections.id,
+  title: collections.title,
+  slug: collections.slug,
+  description: collections.description,
+  isPublic: collections.isPublic,
+  updatedAt: collections.updatedAt,
+  postCount,
+  starCount,
+};
+
+function canViewPost(
+  post: { isPublished: boolean; authorId: string },
+  viewer?: CollectionViewer | null
+): boolean {
+  return post.isPublished || post.authorId === viewer?.id || viewer?.role === "ADMIN";
+}
+
+/** The user's own collections, most recently updated first. */
+export async function getUserCollections(userId: string): Promise<CollectionSummary[]> {
+  return db
+    .select(summaryFields)
+    .from(collections)
+    .where(eq(collections.userId, userId))
+    .orderBy(desc(collections.updatedAt));
+}
+
+/** Other users' public collections the user has starred, newest star first. */
+export async function getStarredCollections(
+  userId: string
+): Promise<Array<CollectionSummary & { ownerName: string | null }>> {
+  return db
+    .select({ ...summaryFields, ownerName: users.name })
+    .from(collectionStars)
+    .innerJoin(collections, eq(collectionStars.collectionId, collections.id))
+    .leftJoin(users, eq(collections.userId, users.id))
+    .where(and(eq(collectionStars.userId, userId), eq(collections.isPublic, true)))
+    .orderBy(desc(collectionStars.createdAt));
+}
+
+/** The user's collections with whether each already contains `postId`. */
+export async function getCollectionMemberships(
+  userId: string,
+  postId: string
+): Promise<CollectionMembership[]> {
+  return db
+    .select({
+      id: collections.id,
+      title: collections.title,
+      isPublic: collections.isPublic,
+      hasPost: sql<boolean>`EXISTS (
+        SELECT 1 FROM collection_posts cp
+        WHERE cp."collectionId" = ${collections.id} AND cp."postId" = ${postId}
+      )`,
+    })
+    .from(collections)
+    .where(eq(collections.userId, userId))
+    .orderBy(desc(collections.updatedAt));
+}
+
+async function getOrderedPostIds(collectionId: string): Promise<string[]> {
+  const rows = await db
+    .select({ postId: collectionPosts.postId })
+    .from(collectionPosts)
+    .where(eq(collectionPosts.collectionId, collectionId))
+    .orderBy(asc(collectionPosts.position), asc(collectionPosts.addedAt));
+  return rows.map((r) => r.postId);
+}
+
+/**
+ * A collection with its posts in order, or null when it doesn't exist or is
+ * private and the viewer is neither its owner nor an admin.
+ */
+export async function getCollectionBySlug(
+  slug: string,
+  viewer?: CollectionViewer | null
+): Promise<CollectionDetail | null> {
+  const [row] = await db
+    .select({
+      ...summaryFields,
+      userId: collections.userId,
+      ownerName: users.name,
+      ownerAvatar: users.avatar,
+    })
+    .from(collections)
+    .leftJoin(users, eq(collections.userId, users.id))
+    .where(eq(collections.slug, slug))
+    .limit(1);
+  if (!row) return null;
+
+  const isOwner = viewer?.id === row.userId;
+  if (!row.isPublic && !isOwner && viewer?.role !== "ADMIN") return null;
+
+  const [postIds, starred] = await Promise.all([
+    getOrderedPostIds(row.id),
+    viewer
+      ? db
+          .select({ userId: collectionStars.userId })
+          .from(collectionStars)
+          .where(and(eq(collectionStars.collectionId, row.id), eq(collectionStars.userId, viewer.id)))
+          .limit(1)
+      : Promise.resolve([]),
+  ]);
+
+  const postList = await PostQueries.getByIds(postIds, viewer?.id);
+  const byId = new Map(postList.map((p) => [p.id, p]));
+  const orderedPosts = postIds.flatMap((id) => {
+    const post = byId.get(id);
+    return post && canViewPost(post, viewer) ? [post] : [];
+  });
+
+  return {
+    id: row.id,
+    title: row.title,
+    slug: row.slug,
+    description: row.description,
+    isPublic: row.isPublic,
+    updatedAt: row.updatedAt,
+    postCount: row.postCount,
+    starCount: row.starCount,
+    owner: { id: row.userId, name: row.ownerName, avatar: row.ownerAvatar },
+    isOwner,
+    isStarred: starred.length > 0,
+    posts: orderedPosts,
+  };
+}
+
+/** Full-content posts of a collection in order, for the bundle download. */
+export async function getCollectionExportPosts(
+  collectionId: string,
+  viewer?: CollectionViewer | null
+): Promise<ExportablePost[]> {
+  const postIds = await getOrderedPostIds(collectionId);
+  if (postIds.length === 0) return [];
+
+  const rows = await db
+    .select({
+      id: posts.id,
+      slug: posts.slug,
+      title: posts.title,
+      description: posts.description,
+      content: posts.content,
+      kind: posts.kind,
+      isPublished: posts.isPublished,
+      authorId: posts.authorId,
+    })
+    .from(posts)
+    .where(inArray(posts.id, postIds));
+
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  return postIds.flatMap((id) => {
+    const post = byId.get(id);
+    return post && canViewPost(post, viewer) ? [post] : [];
+  });
+}
@@ -0,0 +1,204 @@
+/**
+ * Threaded comments on posts: the Markdown subset comments are written in,
+ * spam checks, edit/delete windows, and the thread read behind
+ * components/comments/. Writes live in actions/comments.ts.
+ */
+
+import MarkdownIt from "markdown-it";
+import { db } from "@/lib/db";
+import { comments, posts, users, type CommentStatus } from "@/lib/db/schema";
+import { sanitizeBasicHtml } from "@/lib/security/sanitize";
+import { and, asc, eq, gt } from "drizzle-orm";
+
+// Authors can fix a comment shortly after posting and withdraw it for a day;
+// after that it is part of the conversation and only moderators can act on it
+export const COMMENT_EDIT_WINDOW_MS = 15 * 60 * 1000;
+export const COMMENT_DELETE_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Replies to a comment at this depth attach to its parent instead
+export const COMMENT_MAX_DEPTH = 3;
+// Upper bound on comments loaded for one post
+const THREAD_LIMIT = 500;
+
+// Paragraphs, line breaks, emphasis, links and lists — the tags
+// sanitizeBasicHtml() allows. Raw HTML is escaped, not passed through.
+const markdown = new MarkdownIt("zero", { linkify: true, breaks: true }).enable([
+  "emphasis",
+  "link",
+  "linkify",
+  "list",
+  "newline",
+  "escape",
+  "entity",
+]);
+
+/** Render a comment's Markdown source to sanitized HTML. */
+export function renderCommentBody(body: string): string {
+  return sanitizeBasicHtml(markdown.render(body)).replace(
+    /<a href=/g,
+    '<a rel="nofollow ugc noopener noreferrer" target="_blank" href='
+  );
+}
+
+// SECURITY: Patterns that mark a comment as spam, in the spirit of the name
+// checks in updateUserProfileAction
+const COMMENT_SPAM_PATTERNS = [
+  /(?:https?:\/\/\S+[\s\S]*?){4,}/i, // 4+ links
+  /\b(?:bit\.ly|tinyurl\.com|t\.me|wa\.me|goo\.gl|is\.gd|cutt\.ly)\//i, // Shorteners and messenger invites
+  /(.)\1{14,}/, // 15+ repeated characters in a row
+  /\b(viagra|cialis|casino|betting|escort|porn|payday loan|forex signals?|crypto (?:giveaway|airdrop|signals?)|binary options|buy (?:followers|likes|backlinks)|seo services|guest post|work from home|make money (?:fast|online)|earn \$?\d+ (?:per|a) (?:day|week)|whatsapp me|dm me on telegram)\b/i,
+  /\b[\w.+-]+@[\w-]+\.[\w.]+\b[\s\S]*\b[\w.+-]+@[\w-]+\.[\w.]+\b/, // Multiple email addresses
+];
+
+/** The first spam pattern `body` matches, or null. */
+export function findSpamPattern(body: string): RegExp | null {
+  return COMMENT_SPAM_PATTERNS.find((pattern) => pattern.test(body)) ?? null;
+}
+
+export function isWithinWindow(createdAt: Date, windowMs: number, now = new Date()): boolean {
+  return now.getTime() - createdAt.getTime() < windowMs;
+}
+
+/** Whether the same author already posted this exact text on the post recently. */
+export async function isDuplicateComment(
+  postId: string,
+  authorId: string,
+  body: string,
+  now = new Date()
+): Promise<boolean> {
+  const [existing] = await db
+    .select({ id: comments.id })
+    .from(comments)
+    .where(
+      and(
+        eq(comments.postId, postId),
+        eq(comments.authorId, authorId),
+        eq(comments.body, body),
+        gt(comments.createdAt, new Date(now.getTime() - COMMENT_EDIT_WINDOW_MS))
+      )
+    )
+    .limit(1);
+  return Boolean(existing);
+}
+
+export interface CommentViewer {
+  id: string;
+  role: "USER" | "ADMIN" | null;
+}
+
+export interface CommentNode {
+  id: string;
+  parentId: string | null;
+  depth: number;
+  status: CommentStatus;
+  // Markdown source, only sent to the author while they can still edit
+  body: string | null;
+  bodyHtml: string;
+  createdAt: Date;
+  editedAt: Date | null;
+  // Null for deleted comments
+  author: { id: string; name: string | null; avatar: string | null; handle: string | null } | null;
+  isPostAuthor: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  replies: CommentNode[];
+}
+
+export interface CommentThread {
+  comments: CommentNode[];
+  // Visible comments, matching the count on post cards
+  count: number;
+  // The viewer is the post's author or an admin and may hide comments
+  canModerate: boolean;
+}
+
+/**
+ * The comment tree for a post as `viewer` may see it. Hidden comments are
+ * shown to moderators and their author; to everyone else they — like
+ * deleted comments — only remain as placeholders while they have replies.
+ */
+export async function getCommentThread(
+  postId: string,
+  viewer: CommentViewer | null,
+  now = new Date()
+): Promise<CommentThread> {
+  const [post] = await db
+    .select({ authorId: posts.authorId })
+    .from(posts)
+    .where(eq(posts.id, postId))
+    .limit(1);
+  if (!post) return { comments: [], count: 0, canModerate: false };
+
+  const canModerate = Boolean(viewer && (viewer.role === "ADMIN" || viewer.id === post.authorId));
+
+  const rows = await db
+    .select({
+      id: comments.id,
+      parentId: comments.parentId,
+      depth: comments.depth,
+      status: comments.status,
+      body: comments.body,
+      bodyHtml: comments.bodyHtml,
+      createdAt: comments.createdAt,
+      editedAt: comments.editedAt,
+      authorId: comments.authorId,
+      authorName: users.name,
+      authorAvatar: users.avatar,
+      authorHandle: users.handle,
+    })
+    .from(comments)
+    .leftJoin(users, eq(comments.authorId, users.id))
+    .where(eq(comments.postId, postId))
+    .orderBy(asc(comments.createdAt))
+    .limit(THREAD_LIMIT);
+
+  const nodes = new Map<string, CommentNode>();
+  for (const row of rows) {
+    const isOwn = viewer?.id === row.authorId;
+    const revealed =
+      row.status === "VISIBLE" || (row.status === "HIDDEN" && (canModerate || isOwn));
+    const canEdit =
+      isOwn && row.status === "VISIBLE" && isWithinWindow(row.createdAt, COMMENT_EDIT_WINDOW_MS, now);
+
+    nodes.set(row.id, {
+      id: row.id,
+      parentId: row.parentId,
+      depth: row.depth,
+      status: row.status,
+      body: canEdit ? row.body : null,
+      bodyHtml: revealed ? row.bodyHtml : "",
+      createdAt: row.createdAt,
+      editedAt: row.editedAt,
+      author:
+        row.status === "DELETED"
+          ? null
+          : { id: row.authorId, name: row.authorName, avatar: row.authorAvatar, handle: row.authorHandle },
+      isPostAuthor: row.authorId === post.authorId,
+      canEdit,
+      canDelete:
+        row.status !== "DELETED" &&
+        (viewer?.role === "ADMIN" ||
+          (isOwn && isWithinWindow(row.createdAt, COMMENT_DELETE_WINDOW_MS, now))),
+      replies: [],
+    });
+  }
+
+  const roots: CommentNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) parent.replies.push(node);
+    else roots.push(node);
+  }
+
+  // Drop placeholders (nothing to show) that no longer have replies under them
+  const prune = (list: CommentNode[]): CommentNode[] =>
+    list.filter((node) => {
+      node.replies = prune(node.replies);
+      return node.bodyHtml !== "" || node.replies.length > 0;
+    });
+
+  return {
+    comments: prune(roots),
+    count: rows.filter((row) => row.status === "VISIBLE").length,
+    canModerate,
+  };
+}
@@ -2,9 +2,14 @@ import { db } from "@/lib/db";
 import {
   posts,
   categories,
+  categoryFollows,
   tags,
   postToTag,
   stars,
+  users,
+  blogPosts,
+  blogPostTags,
+  type PostKind,
 } from "@/lib/db/schema";
 import { eq, and, or, desc, asc, ilike, sql, inArray } from "drizzle-orm";
 import { Queries, MetadataQueries, getCachedPosts } from "@/lib/query";
@@ -17,11 +22,14 @@ export interface PostWithDetails {
   title: string;
   slug: string;
   description: string | null;
+  previewImageUrl: string | null;
   content?: string; // Optional — list queries exclude content for performance
+  kind: PostKind;
   isPremium: boolean;
   isFeatured: boolean;
   isPublished: boolean;
   status: string;
+  publishAt: Date | null;
   authorId: string;
   createdAt: Date;
   updatedAt: Date;
@@ -30,6 +38,8 @@ export interface PostWithDetails {
     name: string | null;
     email: string;
     avatar: string | null;
+    /** Public profile handle (/u/[handle]); absent on some list shapes */
+    handle?: string | null;
   };
   category: {
     id: string;
@@ -48,6 +58,7 @@ export interface PostWithDetails {
   }[];
   _count: {
     stars: number;
+    comments?: number;
   };
 }
 
@@ -64,6 +75,70 @@ export async function getPostsForSitemap(): Promise<{ id: string; slug: string;
   return rows;
 }
 
+export interface FeedPostFilters {
+  /** Includes posts in the category's subcategories */
+  categoryId?: string;
+  tagId?: string;
+  authorId?: string;
+}
+
+async function _getPostsForFeed(filters: FeedPostFilters, limit = 50) {
+  const conditions = [eq(posts.isPublished, true), eq(posts.status, "APPROVED")];
+  if (filters.authorId) conditions.push(eq(posts.authorId, filters.authorId));
+  if (filters.categoryId) {
+    const subIds = db.select({ id: categories.id }).from(categories).where(eq(categories.parentId, filters.categoryId));
+    const catCond = or(eq(posts.categoryId, filters.categoryId), inArray(posts.categoryId, subIds));
+    if (catCond) conditions.push(catCond);
+  }
+  if (filters.tagId) {
+    const taggedIds = db.select({ id: postToTag.A }).from(postToTag).where(eq(postToTag.B, filters.tagId));
+    conditions.push(inArray(posts.id, taggedIds));
+  }
+
+  const rows = await db
+    .select({
+      id: posts.id,
+      title: posts.title,
+      description: posts.description,
+      content: posts.content,
+      previewImageUrl: posts.previewImageUrl,
+      kind: posts.kind,
+      isPremium: posts.isPremium,
+      publishAt: posts.publishAt,
+      createdAt: posts.createdAt,
+      updatedAt: posts.updatedAt,
+      authorName: users.name,
+      categoryName: categories.name,
+    })
+    .from(posts)
+    .leftJoin(users, eq(posts.authorId, users.id))
+    .leftJoin(categories, eq(posts.categoryId, categories.id))
+    .where(and(...conditions))
+    .orderBy(desc(posts.createdAt))
+    .limit(limit);
+
+  const tagRows = rows.length
+    ? await db
+        .select({ postId: postToTag.A, name: tags.name })
+        .from(postToTag)
+        .innerJoin(tags, eq(postToTag.B, tags.id))
+        .where(inArray(postToTag.A, rows.map((r) => r.id)))
+    : [];
+
+  return rows.map((row) => ({
+    ...row,
+    tags: tagRows.filter((t) => t.postId === row.id).map((t) => t.name),
+  }));
+}
+
+/** Newest approved posts, with content, for the post feeds (/feed/*). */
+export const getPostsForFeed = createCachedFunction(
+  _getPostsForFeed,
+  "posts-feed",
+  CACHE_DURATIONS.POSTS_LIST,
+  [CACHE_TAGS.POSTS]
+);
+
 export interface TagWithCount {
   id: string;
   name: string;
@@ -409,6 +484,77 @@ export async function getTagById(id: string) {
   return { ...row, _count: { posts: countRow?.count ?? 0 } };
 }
 
+/** Whether the user follows the category (and so is notified of its new posts). */
+export async function isFollowingCategory(userId: string, categoryId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ userId: categoryFollows.userId })
+    .from(categoryFollows)
+    .where(and(eq(categoryFollows.userId, userId), eq(categoryFollows.categoryId, categoryId)))
+    .limit(1);
+  return !!row;
+}
+
+/** Category name, parent, published post count and most-used tags, for its OG card. */
+export async function getCategoryForOg(slug: string) {
+  const [category] = await db
+    .select({ id: categories.id, name: categories.name, description: categories.description, parentId: categories.parentId })
+    .from(categories)
+    .where(eq(categories.slug, slug))
+    .limit(1);
+  if (!category) return null;
+
+  const subIds = db.select({ id: categories.id }).from(categories).where(eq(categories.parentId, category.id));
+  const inCategory = and(
+    eq(posts.isPublished, true),
+    or(eq(posts.categoryId, category.id), inArray(posts.categoryId, subIds))
+  );
+
+  const [parent, [countRow], topTags] = await Promise.all([
+    category.parentId
+      ? db.select({ name: categories.name }).from(categories).where(eq(categories.id, category.parentId)).limit(1).then((r) => r[0] ?? null)
+      : null,
+    db.select({ count: sql<number>`count(*)::int` }).from(posts).where(inCategory),
+    db
+      .select({ name: tags.name })
+      .from(postToTag)
+      .innerJoin(tags, eq(postToTag.B, tags.id))
+      .innerJoin(posts, eq(postToTag.A, posts.id))
+      .where(inCategory)
+      .groupBy(tags.id, tags.name)
+      .orderBy(desc(sql`count(*)`))
+      .limit(4),
+  ]);
+
+  return {
+    name: category.name,
+    description: category.description,
+    parentName: parent?.name ?? null,
+    postCount: countRow?.count ?? 0,
+    topTags: topTags.map((t) => t.name),
+  };
+}
+
+/** Tag name with its published post and blog article counts, for its OG card. */
+export async function getTagForOg(slug: string) {
+  const [tag] = await db.select({ id: tags.id, name: tags.name }).from(tags).where(eq(tags.slug, slug)).limit(1);
+  if (!tag) return null;
+
+  const [[postRow], [articleRow]] = await Promise.all([
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(postToTag)
+      .innerJoin(posts, eq(postToTag.A, posts.id))
+      .where(and(eq(postToTag.B, tag.id), eq(posts.isPublished, true))),
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(blogPostTags)
+      .innerJoin(blogPosts, eq(blogPostTags.blogPostId, blogPosts.id))
+      .where(and(eq(blogPostTags.tagId, tag.id), eq(blogPosts.status, "PUBLISHED"))),
+  ]);
+
+  return { name: tag.name, postCount: postRow?.count ?? 0, articleCount: articleRow?.count ?? 0 };
+}
+
 export async function getPostsWithInteractions(
   userId?: string,
   includeUnpublished = false
@@ -87,7 +87,7 @@ export async function withErrorHandling<T>(
 }
 
 /** Transaction client type (same query interface as db, without $client). */
-type TxClient = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type TxClient = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 /**
  * Transaction wrapper with retry logic.
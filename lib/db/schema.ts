@@ -12,7 +12,9 @@ import {
   text,
   timestamp,
   boolean,
+  date,
   integer,
+  doublePrecision,
   jsonb,
   pgEnum,
   uniqueIndex,
@@ -32,6 +34,7 @@ const tsvectorType = customType<{ data: string }>({
 import { sql } from "drizzle-orm";
 import { relations } from "drizzle-orm";
 import { authenticatedRole } from "drizzle-orm/supabase";
+import type { RateLimitPolicyOverrides } from "@/lib/rate-limit-policies";
 
 // -----------------------------------------------------------------------------
 // Enums
@@ -45,6 +48,16 @@ export const postStatusEnum = pgEnum("PostStatus", [
   "PENDING_APPROVAL",
   "APPROVED",
   "REJECTED",
+  "CHANGES_REQUESTED",
+  "SCHEDULED",
+]);
+// What a post's content is (see lib/post-kinds.ts for per-kind validation)
+export const postKindEnum = pgEnum("PostKind", [
+  "PROMPT",
+  "CURSOR_RULE",
+  "MCP_CONFIG",
+  "CLAUDE_SKILL",
+  "AGENTS_MD",
 ]);
 export const logSeverityEnum = pgEnum("LogSeverity", [
   "LOW",
@@ -54,8 +67,22 @@ export const logSeverityEnum = pgEnum("LogSeverity", [
 ]);
 
 // Type aliases for use outside schema
-export type PostStatus = "DRAFT" | "PENDING_APPROVAL" | "APPROVED" | "REJECTED";
+export type PostStatus =
+  | "DRAFT"
+  | "PENDING_APPROVAL"
+  | "APPROVED"
+  | "REJECTED"
+  | "CHANGES_REQUESTED"
+  | "SCHEDULED";
+export type PostKind =
+  | "PROMPT"
+  | "CURSOR_RULE"
+  | "MCP_CONFIG"
+  | "CLAUDE_SKILL"
+  | "AGENTS_MD";
 export type LogSeverity = "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
+// Opt-out groups for transactional email (see lib/mail-categories.ts)
+export type EmailCategory = "MODERATION" | "WEEKLY_DIGEST" | "PENDING_SUMMARY" | "SECURITY_ALERT";
 
 // -----------------------------------------------------------------------------
 // Reusable SQL fragments for RLS policies
@@ -80,6 +107,22 @@ export const users = pgTable(
     email: text("email").notNull().unique(),
     name: text("name"),
     avatar: text("avatar"),
+    // Public profile at /u/[handle]; assigned on sign-up (see lib/authors.ts)
+    handle: text("handle").unique(),
+    bio: text("bio"),
+    links: jsonb("links").$type<string[]>().default([]).notNull(),
+    // Notification types the user switched off; missing types are on
+    notificationPreferences: jsonb("notificationPreferences")
+      .$type<Partial<Record<NotificationType, boolean>>>()
+      .default({})
+      .notNull(),
+    // Email categories the user unsubscribed from; missing categories are on
+    emailPreferences: jsonb("emailPreferences")
+      .$type<Partial<Record<EmailCategory, boolean>>>()
+      .default({})
+      .notNull(),
+    // Upper bound of the last weekly digest, so retried runs don't resend it
+    lastDigestSentAt: timestamp("lastDigestSentAt"),
     type: userTypeEnum("type").default("FREE").notNull(),
     role: userRoleEnum("role").default("USER").notNull(),
     oauth: oauthProviderEnum("oauth").notNull(),
@@ -228,25 +271,35 @@ export const posts = pgTable(
     slug: text("slug").notNull().unique(),
     description: text("description"),
     content: text("content").notNull(),
+    // Image shown on cards and the dashboard (uploaded via lib/uploads.ts)
+    previewImageUrl: text("previewImageUrl"),
+    kind: postKindEnum("kind").default("PROMPT").notNull(),
     isPremium: boolean("isPremium").default(false).notNull(),
     isFeatured: boolean("isFeatured").default(false).notNull(),
     isPublished: boolean("isPublished").default(false).notNull(),
     status: postStatusEnum("status").default("DRAFT").notNull(),
+    // When a SCHEDULED post goes live (see lib/scheduled-publishing.ts)
+    publishAt: timestamp("publishAt"),
     authorId: text("authorId").notNull(),
     categoryId: text("categoryId").notNull(),
     createdAt: timestamp("createdAt").defaultNow().notNull(),
     updatedAt: timestamp("updatedAt").defaultNow().notNull(),
     // Stored tsvector for GIN-indexed full-text search (maintained by trigger in perf-indexes.sql)
     searchVector: tsvectorType("search_vector"),
+    // Time-decayed star score for the "trending" sort, as of trendingScoreAt (see lib/trending.ts)
+    trendingScore: doublePrecision("trendingScore").default(0).notNull(),
+    trendingScoreAt: timestamp("trendingScoreAt"),
   },
   (t) => [
     // Core list/filter indexes
     index("posts_is_published_created_at_idx").on(t.isPublished, t.createdAt),
     index("posts_category_published_created_idx").on(t.categoryId, t.isPublished, t.createdAt),
+    index("posts_kind_published_created_idx").on(t.kind, t.isPublished, t.createdAt),
     index("posts_author_created_at_idx").on(t.authorId, t.createdAt),
     index("posts_is_premium_is_published_idx").on(t.isPremium, t.isPublished),
     index("posts_is_featured_is_published_idx").on(t.isFeatured, t.isPublished),
     index("posts_status_created_at_idx").on(t.status, t.createdAt),
+    index("posts_status_publish_at_idx").on(t.status, t.publishAt),
     // Author-scoped indexes (posts_author_published_status_idx supersedes the old posts_author_status_idx)
     index("posts_author_published_status_idx").on(t.authorId, t.isPublished, t.status),
     index("posts_author_status_created_idx").on(t.authorId, t.status, t.createdAt),
@@ -254,6 +307,10 @@ export const posts = pgTable(
     index("posts_published_created_partial_idx").on(t.createdAt).where(sql`"isPublished" = true`),
     // Partial index: fast slug lookups on published posts
     index("posts_slug_published_idx").on(t.slug).where(sql`"isPublished" = true`),
+    // Partial index: "trending" sort over published posts
+    index("posts_published_trending_partial_idx")
+      .on(t.trendingScore, t.createdAt)
+      .where(sql`"isPublished" = true`),
     // GIN index on stored tsvector for fast full-text search (requires pg_trgm + trigger from perf-indexes.sql)
     index("posts_search_vector_gin_idx").using("gin", t.searchVector),
     // Trigram indexes for ILIKE-based partial matching (require pg_trgm extension)
@@ -287,6 +344,112 @@ export const posts = pgTable(
   ]
 ).enableRLS();
 
+// -----------------------------------------------------------------------------
+// Post revisions (append-only history of title/description/content; readable
+// by the post's author and admins)
+// -----------------------------------------------------------------------------
+
+export const postRevisionSourceEnum = pgEnum("PostRevisionSource", [
+  "CREATE",
+  "UPDATE",
+  "IMPORT",
+  "RESTORE",
+]);
+export type PostRevisionSource = "CREATE" | "UPDATE" | "IMPORT" | "RESTORE";
+
+export const postRevisions = pgTable(
+  "post_revisions",
+  {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()::text`),
+    postId: text("postId")
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+    revisionNumber: integer("revisionNumber").notNull(),
+    title: text("title").notNull(),
+    description: text("description"),
+    content: text("content").notNull(),
+    source: postRevisionSourceEnum("source").notNull(),
+    // Revision this one was restored from (RESTORE only)
+    restoredFromId: text("restoredFromId"),
+    userId: text("userId").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (t) => [
+    uniqueIndex("post_revisions_post_id_revision_key").on(t.postId, t.revisionNumber),
+    index("post_revisions_post_created_at_idx").on(t.postId, t.createdAt),
+    pgPolicy("post_revisions_select_author_or_admin", {
+      as: "permissive",
+      for: "select",
+      to: "public",
+      using: sql`EXISTS (
+        SELECT 1 FROM posts
+        WHERE posts.id = "postId"
+        AND (posts."authorId" = auth.uid()::text OR current_user_is_admin())
+      )`,
+    }),
+    pgPolicy("post_revisions_insert_author_or_admin", {
+      as: "permissive",
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`EXISTS (
+        SELECT 1 FROM posts
+        WHERE posts.id = "postId"
+        AND (posts."authorId" = auth.uid()::text OR current_user_is_admin())
+      )`,
+    }),
+    pgPolicy("post_revisions_delete_admin", {
+      as: "permissive",
+      for: "delete",
+      to: "public",
+      using: isAdmin,
+    }),
+  ]
+).enableRLS();
+
+// -----------------------------------------------------------------------------
+// Post moderation decisions (reviewer notes on approve / reject / request
+// changes; readable by the post's author and admins, written by admins)
+// -----------------------------------------------------------------------------
+
+export const postModerations = pgTable(
+  "post_moderations",
+  {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()::text`),
+    postId: text("postId")
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+    // Post author at decision time — denormalized so the author inbox is a
+    // single indexed scan and RLS can use the shared owner check
+    authorId: text("authorId").notNull(),
+    reviewerId: text("reviewerId").references(() => users.id, { onDelete: "set null" }),
+    decision: postStatusEnum("decision").notNull(),
+    note: text("note"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (t) => [
+    index("post_moderations_author_created_at_idx").on(t.authorId, t.createdAt),
+    index("post_moderations_post_created_at_idx").on(t.postId, t.createdAt),
+    pgPolicy("post_moderations_select_author_or_admin", {
+      as: "permissive",
+      for: "select",
+      to: "public",
+      using: sql`${isOwnerOrAdmin("authorId")}`,
+    }),
+    pgPolicy("post_moderations_insert_admin", {
+      as: "permissive",
+      for: "insert",
+      to: "public",
+      withCheck: isAdmin,
+    }),
+    pgPolicy("post_moderations_delete_admin", {
+      as: "permissive",
+      for: "delete",
+      to: "public",
+      using: isAdmin,
+    }),
+  ]
+).enableRLS();
+
 // -----------------------------------------------------------------------------
 // Post <-> Tag many-to-many (_PostToTag table — legacy name kept for DB compatibility)
 // -----------------------------------------------------------------------------
@@ -371,6 +534,473 @@ export const stars = pgTable(
   ]
 ).enableRLS();
 
+// -----------------------------------------------------------------------------
+// Comments (threaded via parentId; body is the Markdown source, bodyHtml the
+// sanitized render from lib/comments.ts). Deleted and hidden comments keep
+// their row so replies stay attached.
+// -----------------------------------------------------------------------------
+
+export const commentStatusEnum = pgEnum("CommentStatus", ["VISIBLE", "HIDDEN", "DELETED"]);
+export type CommentStatus = "VISIBLE" | "HIDDEN" | "DELETED";
+
+export const comments = pgTable(
+  "comments",
+  {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()::text`),
+    postId: text("postId").notNull().references(() => posts.id, { onDelete: "cascade" }),
+    authorId: text("authorId").notNull().references(() => users.id, { onDelete: "cascade" }),
+    parentId: text("parentId").references((): AnyPgColumn => comments.id, { onDelete: "cascade" }),
+    // 0 for top-level comments; replies deeper than lib/comments.ts allows attach to the parent's parent
+    depth: integer("depth").default(0).notNull(),
+    body: text("body").notNull(),
+    bodyHtml: text("bodyHtml").notNull(),
+    status: commentStatusEnum("status").default("VISIBLE").notNull(),
+    // Set when the post author or an admin hides the comment
+    moderatedById: text("moderatedById").references(() => users.id, { onDelete: "set null" }),
+    editedAt: timestamp("editedAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+  },
+  (t) => [
+    index("comments_post_created_at_idx").on(t.postId, t.createdAt),
+    index("comments_parent_id_idx").on(t.parentId),
+    index("comments_author_created_at_idx").on(t.authorId, t.createdAt),
+    pgPolicy("comments_select_visible_or_own", {
+      as: "permissive", for: "select", to: "public",
+      using: sql`status = 'VISIBLE' OR ${isOwnerOrAdmin("authorId")}`,
+    }),
+    pgPolicy("comments_insert_own", {
+      as: "permissive", for: "insert", to: "public",
+      withCheck: sql`"authorId" = ${authUid}`,
+    }),
+    pgPolicy("comments_update_own_or_admin", {
+      as: "permissive", for: "update", to: "public",
+      using: isOwnerOrAdmin("authorId"),
+      withCheck: isOwnerOrAdmin("authorId"),
+    }),
+    pgPolicy("comments_delete_admin", {
+      as: "permissive", for: "delete", to: "public",
+      using: isAdmin,
+    }),
+  ]
+).enableRLS();
+
+// -----------------------------------------------------------------------------
+// Collections (named, ordered bundles of posts; public ones readable by anyone)
+// -----------------------------------------------------------------------------
+
+export const collections = pgTable(
+  "collections",
+  {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()::text`),
+    userId: text("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
+    title: text("title").notNull(),
+    slug: text("slug").notNull().unique(),
+    description: text("description"),
+    isPublic: boolean("isPublic").default(false).notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+  },
+  (t) => [
+    index("collections_user_updated_at_idx").on(t.userId, t.updatedAt),
+    index("collections_public_updated_at_idx").on(t.updatedAt).where(sql`"isPublic" = true`),
+    pgPolicy("collections_select_public_or_own_or_admin", {
+      as: "permissive",
+      for: "select",
+      to: "public",
+      using: sql`"isPublic" = true OR "userId" = ${authUid} OR ${isAdmin}`,
+    }),
+    pgPolicy("collections_insert_own", {
+      as: "permissive",
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`"userId" = ${authUid}`,
+    }),
+    pgPolicy("collections_update_own", {
+      as: "permissive",
+      for: "update",
+      to: "public",
+      using: sql`"userId" = ${authUid}`,
+      withCheck: sql`"userId" = ${authUid}`,
+    }),
+    pgPolicy("collections_delete_own_or_admin", {
+      as: "permissive",
+      for: "delete",
+      to: "public",
+      using: sql`${isOwnerOrAdmin("userId")}`,
+    }),
+  ]
+).enableRLS();
+
+// Membership + order (ascending position within a collection)
+export const collectionPosts = pgTable(
+  "collection_posts",
+  {
+    collectionId: text("collectionId").notNull().references(() => collections.id, { onDelete: "cascade" }),
+    postId: text("postId").notNull().references(() => posts.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    addedAt: timestamp("addedAt").defaultNow().notNull(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.collectionId, t.postId] }),
+    index("collection_posts_collection_position_idx").on(t.collectionId, t.position),
+    index("collection_posts_post_id_idx").on(t.postId),
+    pgPolicy("collection_posts_select_visible", {
+      as: "permissive",
+      for: "select",
+      to: "public",
+      using: sql`EXISTS (
+        SELECT 1 FROM collections
+        WHERE collections.id = "collectionId"
+        AND (collections."isPublic" = true OR collections."userId" = auth.uid()::text OR current_user_is_admin())
+      )`,
+    }),
+    pgPolicy("collection_posts_write_own", {
+      as: "permissive",
+      for: "all",
+      to: "public",
+      using: sql`EXISTS (
+        SELECT 1 FROM collections
+        WHERE collections.id = "collectionId" AND collections."userId" = auth.uid()::text
+      )`,
+    }),
+  ]
+).enableRLS();
+
+export const collectionStars = pgTable(
+  "collection_stars",
+  {
+    collectionId: text("collectionId").notNull().references(() => collections.id, { onDelete: "cascade" }),
+    userId: text("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.collectionId, t.userId] }),
+    index("collection_stars_user_created_at_idx").on(t.userId, t.createdAt),
+    pgPolicy("collection_stars_select_own", {
+      as: "permissive", for: "select", to: "public",
+      using: sql`"userId" = ${authUid}`,
+    }),
+    pgPolicy("collection_stars_insert_own", {
+      as: "permissive", for: "insert", to: "public",
+      withCheck: sql`"userId" = ${authUid}`,
+    }),
+    pgPolicy("collection_stars_delete_own", {
+      as: "permissive", for: "delete", to: "public",
+      using: sql`"userId" = ${authUid}`,
+    }),
+  ]
+).enableRLS();
+
+// Author follows: followers see the authors' new posts in the directory's
+// Following tab. Follower lists are private to the follower.
+export const follows = pgTable(
+  "follows",
+  {
+    followerId: text("followerId").notNull().references(() => users.id, { onDelete: "cascade" }),
+    followingId: text("followingId").notNull().references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.followerId, t.followingId] }),
+    index("follows_following_id_idx").on(t.followingId),
+    pgPolicy("follows_select_own", {
+      as: "permissive", for: "select", to: "public",
+      using: sql`"followerId" = ${authUid}`,
+    }),
+    pgPolicy("follows_insert_own", {
+      as: "permissive", for: "insert", to: "public",
+      withCheck: sql`"followerId" = ${authUid} AND "followingId" <> ${authUid}`,
+    }),
+    pgPolicy("follows_delete_own", {
+      as: "permissive", for: "delete", to: "public",
+      using: sql`"followerId" = ${authUid}`,
+    }),
+  ]
+).enableRLS();
+
+// Category follows: followers are notified when a post is published in the
+// category or one of its subcategories. Follow lists are private to the follower.
+export const categoryFollows = pgTable(
+  "category_follows",
+  {
+    userId: text("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
+    categoryId: text("categoryId").notNull().references(() => categories.id, { onDelete: "cascade" }),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.userId, t.categoryId] }),
+    index("category_follows_category_id_idx").on(t.categoryId),
+    pgPolicy("category_follows_select_own", {
+      as: "permissive", for: "select", to: "public",
+      using: sql`"userId" = ${authUid}`,
+    }),
+    pgPolicy("category_follows_insert_own", {
+      as: "permissive", for: "insert", to: "public",
+      withCheck: sql`"userId" = ${authUid}`,
+    }),
+    pgPolicy("category_follows_delete_own", {
+      as: "permissive", for: "delete", to: "public",
+      using: sql`"userId" = ${authUid}`,
+    }),
+  ]
+).enableRLS();
+
+// -----------------------------------------------------------------------------
+// In-app notifications (written server-side by lib/notifications.ts; users
+// read and mark their own). Per-type opt-outs live in users.notificationPreferences.
+// -----------------------------------------------------------------------------
+
+export const notificationTypeEnum = pgEnum("NotificationType", [
+  "POST_APPROVED",
+  "POST_REJECTED",
+  "POST_CHANGES_REQUESTED",
+  "POST_STARRED",
+  "FOLLOWED_AUTHOR_POST",
+  "FOLLOWED_CATEGORY_POST",
+]);
+export type NotificationType =
+  | "POST_APPROVED"
+  | "POST_REJECTED"
+  | "POST_CHANGES_REQUESTED"
+  | "POST_STARRED"
+  | "FOLLOWED_AUTHOR_POST"
+  | "FOLLOWED_CATEGORY_POST";
+
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()::text`),
+    userId: text("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
+    type: notificationTypeEnum("type").notNull(),
+    title: text("title").notNull(),
+    body: text("body"),
+    // In-app path the notification opens
+    url: text("url"),
+    actorId: text("actorId").references(() => users.id, { onDelete: "set null" }),
+    postId: text("postId").references(() => posts.id, { onDelete: "cascade" }),
+    readAt: timestamp("readAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (t) => [
+    index("notifications_user_created_at_idx").on(t.userId, t.createdAt),
+    index("notifications_user_unread_idx").on(t.userId).where(sql`"readAt" IS NULL`),
+    index("notifications_post_type_idx").on(t.postId, t.type),
+    pgPolicy("notifications_select_own", {
+      as: "permissive", for: "select", to: "public",
+      using: sql`"userId" = ${authUid}`,
+    }),
+    pgPolicy("notifications_update_own", {
+      as: "permissive", for: "update", to: "public",
+      using: sql`"userId" = ${authUid}`,
+      withCheck: sql`"userId" = ${authUid}`,
+    }),
+    pgPolicy("notifications_delete_own", {
+      as: "permissive", for: "delete", to: "public",
+      using: sql`"userId" = ${authUid}`,
+    }),
+  ]
+).enableRLS();
+
+// -----------------------------------------------------------------------------
+// Personal API keys (only the SHA-256 hash is stored; verified in proxy.ts via
+// lib/api-keys.ts; owners can list and revoke their own)
+// -----------------------------------------------------------------------------
+
+export const apiKeyScopeEnum = pgEnum("ApiKeyScope", ["READ", "WRITE"]);
+export type ApiKeyScope = "READ" | "WRITE";
+
+export const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()::text`),
+    userId: text("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    // First characters of the key, shown in the UI so users can tell keys apart
+    prefix: text("prefix").notNull(),
+    keyHash: text("keyHash").notNull().unique(),
+    scope: apiKeyScopeEnum("scope").default("READ").notNull(),
+    lastUsedAt: timestamp("lastUsedAt"),
+    lastUsedIp: text("lastUsedIp"),
+    revokedAt: timestamp("revokedAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (t) => [
+    index("api_keys_user_created_at_idx").on(t.userId, t.createdAt),
+    pgPolicy("api_keys_select_own_or_admin", {
+      as: "permissive", for: "select", to: "public",
+      using: isOwnerOrAdmin("userId"),
+    }),
+    pgPolicy("api_keys_insert_own", {
+      as: "permissive", for: "insert", to: authenticatedRole,
+      withCheck: sql`"userId" = ${authUid}`,
+    }),
+    pgPolicy("api_keys_update_own", {
+      as: "permissive", for: "update", to: "public",
+      using: sql`"userId" = ${authUid}`,
+      withCheck: sql`"userId" = ${authUid}`,
+    }),
+  ]
+).enableRLS();
+
+// -----------------------------------------------------------------------------
+// Uploads (images in S3-compatible storage; written server-side by
+// lib/uploads.ts, which also deletes objects no longer referenced anywhere)
+// -----------------------------------------------------------------------------
+
+export const uploadPurposeEnum = pgEnum("UploadPurpose", [
+  "BLOG_IMAGE",
+  "BLOG_FEATURED_IMAGE",
+  "POST_PREVIEW",
+]);
+export type UploadPurpose = "BLOG_IMAGE" | "BLOG_FEATURED_IMAGE" | "POST_PREVIEW";
+
+export const uploads = pgTable(
+  "uploads",
+  {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()::text`),
+    userId: text("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
+    key: text("key").notNull().unique(),
+    contentType: text("contentType").notNull(),
+    size: integer("size").notNull(),
+    purpose: uploadPurposeEnum("purpose").notNull(),
+    // Set once the object has been verified in the bucket
+    uploadedAt: timestamp("uploadedAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    // Bumped whenever the upload loses a reference; the orphan grace period
+    // is measured from here
+    updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+  },
+  (t) => [
+    index("uploads_user_created_at_idx").on(t.userId, t.createdAt),
+    index("uploads_updated_at_idx").on(t.updatedAt),
+    pgPolicy("uploads_select_own_or_admin", {
+      as: "permissive", for: "select", to: "public",
+      using: isOwnerOrAdmin("userId"),
+    }),
+  ]
+).enableRLS();
+
+export type UploadReferenceType = "blog_post" | "post";
+
+// Which blog posts / posts currently embed an upload (polymorphic, so no FK
+// on entityId — deleting the entity must clear its rows via lib/uploads.ts)
+export const uploadReferences = pgTable(
+  "upload_references",
+  {
+    uploadId: text("uploadId").notNull().references(() => uploads.id, { onDelete: "cascade" }),
+    entityType: text("entityType").$type<UploadReferenceType>().notNull(),
+    entityId: text("entityId").notNull(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.uploadId, t.entityType, t.entityId] }),
+    index("upload_references_entity_idx").on(t.entityType, t.entityId),
+    pgPolicy("upload_references_select_admin", {
+      as: "permissive", for: "select", to: "public",
+      using: isAdmin,
+    }),
+  ]
+).enableRLS();
+
+// -----------------------------------------------------------------------------
+// Post engagement (views/copies; written server-side by lib/post-events.ts)
+// -----------------------------------------------------------------------------
+
+export const postEventTypeEnum = pgEnum("PostEventType", ["VIEW", "COPY"]);
+export type PostEventType = "VIEW" | "COPY";
+
+// Aggregated daily counters per post (UTC days)
+export const postDailyStats = pgTable(
+  "post_daily_stats",
+  {
+    postId: text("postId").notNull().references(() => posts.id, { onDelete: "cascade" }),
+    day: date("day", { mode: "string" }).notNull(),
+    views: integer("views").default(0).notNull(),
+    copies: integer("copies").default(0).notNull(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.postId, t.day] }),
+    index("post_daily_stats_day_idx").on(t.day),
+    pgPolicy("post_daily_stats_select_author_or_admin", {
+      as: "permissive",
+      for: "select",
+      to: "public",
+      using: sql`EXISTS (
+        SELECT 1 FROM posts
+        WHERE posts.id = "postId"
+        AND (posts."authorId" = auth.uid()::text OR current_user_is_admin())
+      )`,
+    }),
+  ]
+).enableRLS();
+
+// Dedup keys: one row per post/event type/visitor/day. The visitor hash is
+// salted with the day so visitors can't be linked across days.
+export const postEventVisitors = pgTable(
+  "post_event_visitors",
+  {
+    postId: text("postId").notNull().references(() => posts.id, { onDelete: "cascade" }),
+    day: date("day", { mode: "string" }).notNull(),
+    type: postEventTypeEnum("type").notNull(),
+    visitorHash: text("visitorHash").notNull(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.postId, t.day, t.type, t.visitorHash] }),
+    pgPolicy("post_event_visitors_select_admin", {
+      as: "permissive",
+      for: "select",
+      to: "public",
+      using: isAdmin,
+    }),
+  ]
+).enableRLS();
+
+// -----------------------------------------------------------------------------
+// Site analytics (first-party page views; written server-side by lib/analytics.ts)
+// -----------------------------------------------------------------------------
+
+// Hourly UTC buckets so the dashboard can regroup days in any timezone
+export const pageViewStats = pgTable(
+  "page_view_stats",
+  {
+    bucket: timestamp("bucket").notNull(),
+    path: text("path").notNull(),
+    // External referrer host; "" for direct / internal navigation
+    referrer: text("referrer").default("").notNull(),
+    device: text("device").$type<"desktop" | "mobile">().notNull(),
+    views: integer("views").default(0).notNull(),
+    // Visitors first seen that UTC day on this row's bucket
+    visitors: integer("visitors").default(0).notNull(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.bucket, t.path, t.referrer, t.device] }),
+    pgPolicy("page_view_stats_select_admin", {
+      as: "permissive",
+      for: "select",
+      to: "public",
+      using: isAdmin,
+    }),
+  ]
+).enableRLS();
+
+// Daily-salted visitor hashes for unique-visitor counting (current UTC day only)
+export const pageViewVisitors = pgTable(
+  "page_view_visitors",
+  {
+    day: date("day", { mode: "string" }).notNull(),
+    visitorHash: text("visitorHash").notNull(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.day, t.visitorHash] }),
+    pgPolicy("page_view_visitors_select_admin", {
+      as: "permissive",
+      for: "select",
+      to: "public",
+      using: isAdmin,
+    }),
+  ]
+).enableRLS();
+
 
 // -----------------------------------------------------------------------------
 // Logs (admin read; authenticated can insert for audit trail)
@@ -417,6 +1047,131 @@ export const logs = pgTable(
   ]
 ).enableRLS();
 
+// -----------------------------------------------------------------------------
+// Security alerting (admin only). Rules are evaluated over the security event
+// pipeline by lib/security/alerts.ts; each firing opens an alert, deduplicated
+// per rule and group while it is unresolved.
+// -----------------------------------------------------------------------------
+
+export const alertGroupByEnum = pgEnum("AlertGroupBy", ["NONE", "IP_ADDRESS", "USER"]);
+export type AlertGroupBy = "NONE" | "IP_ADDRESS" | "USER";
+
+export const alertStatusEnum = pgEnum("AlertStatus", ["OPEN", "ACKNOWLEDGED", "RESOLVED"]);
+export type AlertStatus = "OPEN" | "ACKNOWLEDGED" | "RESOLVED";
+
+export const alertRules = pgTable(
+  "alert_rules",
+  {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()::text`),
+    name: text("name").notNull(),
+    enabled: boolean("enabled").default(true).notNull(),
+    // Event filters; unset filters match everything
+    action: text("action"),
+    threatType: text("threatType"),
+    entityType: text("entityType"),
+    minSeverity: logSeverityEnum("minSeverity"),
+    // Fire once `threshold` matching events (per group) land within the window
+    threshold: integer("threshold").default(1).notNull(),
+    windowSeconds: integer("windowSeconds").default(300).notNull(),
+    groupBy: alertGroupByEnum("groupBy").default("NONE").notNull(),
+    // Severity of the alerts this rule opens
+    severity: logSeverityEnum("severity").default("HIGH").notNull(),
+    notifyEmail: boolean("notifyEmail").default(true).notNull(),
+    webhookUrl: text("webhookUrl"),
+    createdById: text("createdById").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+  },
+  (t) => [
+    index("alert_rules_enabled_idx").on(t.enabled),
+    pgPolicy("alert_rules_admin_all", {
+      as: "permissive", for: "all", to: "public",
+      using: isAdmin,
+      withCheck: isAdmin,
+    }),
+  ]
+).enableRLS();
+
+export const securityAlerts = pgTable(
+  "security_alerts",
+  {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()::text`),
+    ruleId: text("ruleId").notNull().references(() => alertRules.id, { onDelete: "cascade" }),
+    // Rule id plus group value; at most one unresolved alert per key
+    dedupKey: text("dedupKey").notNull(),
+    groupValue: text("groupValue"),
+    title: text("title").notNull(),
+    severity: logSeverityEnum("severity").notNull(),
+    status: alertStatusEnum("status").default("OPEN").notNull(),
+    // Matching events seen while the alert was unresolved
+    eventCount: integer("eventCount").default(0).notNull(),
+    // The event that last triggered the rule
+    lastEvent: jsonb("lastEvent"),
+    firstSeenAt: timestamp("firstSeenAt").defaultNow().notNull(),
+    lastSeenAt: timestamp("lastSeenAt").defaultNow().notNull(),
+    acknowledgedById: text("acknowledgedById").references(() => users.id, { onDelete: "set null" }),
+    acknowledgedAt: timestamp("acknowledgedAt"),
+    resolvedById: text("resolvedById").references(() => users.id, { onDelete: "set null" }),
+    resolvedAt: timestamp("resolvedAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (t) => [
+    uniqueIndex("security_alerts_unresolved_dedup_key")
+      .on(t.dedupKey)
+      .where(sql`"status" <> 'RESOLVED'`),
+    index("security_alerts_status_last_seen_idx").on(t.status, t.lastSeenAt),
+    index("security_alerts_rule_id_idx").on(t.ruleId),
+    pgPolicy("security_alerts_admin_all", {
+      as: "permissive", for: "all", to: "public",
+      using: isAdmin,
+      withCheck: isAdmin,
+    }),
+  ]
+).enableRLS();
+
+// -----------------------------------------------------------------------------
+// Blocklist (admin only). Source of truth for IP, CIDR and user bans; the proxy
+// enforces them from the Redis copy kept by lib/security/blocklist.ts.
+// -----------------------------------------------------------------------------
+
+export const blockTypeEnum = pgEnum("BlockType", ["IP", "CIDR", "USER"]);
+export type BlockType = "IP" | "CIDR" | "USER";
+
+export const blocklist = pgTable(
+  "blocklist",
+  {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()::text`),
+    type: blockTypeEnum("type").notNull(),
+    // Canonical IP address, CIDR range or user id
+    value: text("value").notNull(),
+    reason: text("reason"),
+    // Set by the automatic ban on repeat violations rather than an admin
+    automatic: boolean("automatic").default(false).notNull(),
+    // How many automatic bans this value has had recently, this one included;
+    // decides the ban's length
+    offense: integer("offense").default(1).notNull(),
+    // Null blocks until lifted
+    expiresAt: timestamp("expiresAt"),
+    createdById: text("createdById").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+    // Set when an admin lifts the block, or when it's replaced after expiring
+    liftedAt: timestamp("liftedAt"),
+    liftedById: text("liftedById").references(() => users.id, { onDelete: "set null" }),
+  },
+  (t) => [
+    uniqueIndex("blocklist_active_type_value_key")
+      .on(t.type, t.value)
+      .where(sql`"liftedAt" IS NULL`),
+    index("blocklist_type_value_created_at_idx").on(t.type, t.value, t.createdAt),
+    pgPolicy("blocklist_admin_all", {
+      as: "permissive", for: "all", to: "public",
+      using: isAdmin,
+      withCheck: isAdmin,
+    }),
+  ]
+).enableRLS();
+
 // -----------------------------------------------------------------------------
 // Settings (admin only)
 // -----------------------------------------------------------------------------
@@ -436,6 +1191,12 @@ export const settings = pgTable(
     postsPageSize: integer("postsPageSize").default(12).notNull(),
     featuredPostsLimit: integer("featuredPostsLimit").default(12).notNull(),
     allowUserPosts: boolean("allowUserPosts").default(true).notNull(),
+    trendingHalfLifeHours: integer("trendingHalfLifeHours").default(48).notNull(),
+    // Only the rate-limit policies overridden from their defaults
+    rateLimitPolicies: jsonb("rateLimitPolicies")
+      .$type<RateLimitPolicyOverrides>()
+      .default({})
+      .notNull(),
   },
   (t) => [
     index("settings_updated_by_idx").on(t.updatedBy),
@@ -473,8 +1234,36 @@ export const settings = pgTable(
 // Blog posts (admin-authored articles; read all published; write admin only)
 // -----------------------------------------------------------------------------
 
-export const blogStatusEnum = pgEnum("BlogStatus", ["DRAFT", "PUBLISHED"]);
-export type BlogStatus = "DRAFT" | "PUBLISHED";
+export const blogStatusEnum = pgEnum("BlogStatus", ["DRAFT", "PUBLISHED", "SCHEDULED"]);
+export type BlogStatus = "DRAFT" | "PUBLISHED" | "SCHEDULED";
+
+// Multi-part series; parts are ordered by blogPosts.seriesOrder
+export const blogSeries = pgTable(
+  "blog_series",
+  {
+    id:          text("id").primaryKey().default(sql`gen_random_uuid()::text`),
+    slug:        text("slug").notNull().unique(),
+    title:       text("title").notNull(),
+    description: text("description"),
+    createdAt:   timestamp("createdAt").defaultNow().notNull(),
+    updatedAt:   timestamp("updatedAt").defaultNow().notNull(),
+  },
+  () => [
+    pgPolicy("blog_series_select_all", {
+      as: "permissive",
+      for: "select",
+      to: "public",
+      using: sql`true`,
+    }),
+    pgPolicy("blog_series_write_admin", {
+      as: "permissive",
+      for: "all",
+      to: "public",
+      using: isAdmin,
+      withCheck: isAdmin,
+    }),
+  ]
+).enableRLS();
 
 export const blogPosts = pgTable(
   "blog_posts",
@@ -486,8 +1275,11 @@ export const blogPosts = pgTable(
     content:          text("content").notNull().default(""),
     featuredImageUrl: text("featuredImageUrl"),
     readingTime:      integer("readingTime"),
+    seriesId:         text("seriesId").references(() => blogSeries.id, { onDelete: "set null" }),
+    seriesOrder:      integer("seriesOrder"),
     authorId:         text("authorId").notNull().references(() => users.id, { onDelete: "set null" }),
     status:           blogStatusEnum("status").default("DRAFT").notNull(),
+    // Go-live time; in the future while SCHEDULED (see lib/scheduled-publishing.ts)
     publishedAt:      timestamp("publishedAt", { withTimezone: true }),
     createdAt:        timestamp("createdAt").defaultNow().notNull(),
     updatedAt:        timestamp("updatedAt").defaultNow().notNull(),
@@ -496,6 +1288,7 @@ export const blogPosts = pgTable(
     index("blog_posts_status_published_at_idx").on(t.status, t.publishedAt),
     index("blog_posts_slug_status_idx").on(t.slug).where(sql`"status" = 'PUBLISHED'`),
     index("blog_posts_author_created_at_idx").on(t.authorId, t.createdAt),
+    index("blog_posts_series_order_idx").on(t.seriesId, t.seriesOrder),
     pgPolicy("blog_posts_select_published_or_admin", {
       as: "permissive",
       for: "select",
@@ -524,6 +1317,66 @@ export const blogPosts = pgTable(
   ]
 ).enableRLS();
 
+// Blog articles share the tags table with posts
+export const blogPostTags = pgTable(
+  "blog_post_tags",
+  {
+    blogPostId: text("blogPostId")
+      .notNull()
+      .references(() => blogPosts.id, { onDelete: "cascade" }),
+    tagId: text("tagId")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+  },
+  (t) => [
+    primaryKey({ columns: [t.blogPostId, t.tagId] }),
+    index("blog_post_tags_tag_idx").on(t.tagId),
+    pgPolicy("blog_post_tags_select_all", {
+      as: "permissive",
+      for: "select",
+      to: "public",
+      using: sql`true`,
+    }),
+    pgPolicy("blog_post_tags_write_admin", {
+      as: "permissive",
+      for: "all",
+      to: "public",
+      using: isAdmin,
+      withCheck: isAdmin,
+    }),
+  ]
+).enableRLS();
+
+// Posts an article links to (/entry/<id>), synced from its content on save
+export const blogPostMentions = pgTable(
+  "blog_post_mentions",
+  {
+    blogPostId: text("blogPostId")
+      .notNull()
+      .references(() => blogPosts.id, { onDelete: "cascade" }),
+    postId: text("postId")
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+  },
+  (t) => [
+    primaryKey({ columns: [t.blogPostId, t.postId] }),
+    index("blog_post_mentions_post_idx").on(t.postId),
+    pgPolicy("blog_post_mentions_select_all", {
+      as: "permissive",
+      for: "select",
+      to: "public",
+      using: sql`true`,
+    }),
+    pgPolicy("blog_post_mentions_write_admin", {
+      as: "permissive",
+      for: "all",
+      to: "public",
+      using: isAdmin,
+      withCheck: isAdmin,
+    }),
+  ]
+).enableRLS();
+
 // -----------------------------------------------------------------------------
 // Relation types for Drizzle relational queries (optional)
 // -----------------------------------------------------------------------------
@@ -531,6 +1384,14 @@ export const blogPosts = pgTable(
 export const usersRelations = relations(users, ({ many }) => ({
   stars: many(stars),
   posts: many(posts),
+  collections: many(collections),
+  apiKeys: many(apiKeys),
+  uploads: many(uploads),
+  following: many(follows, { relationName: "Follower" }),
+  followers: many(follows, { relationName: "Following" }),
+  categoryFollows: many(categoryFollows),
+  notifications: many(notifications, { relationName: "NotificationRecipient" }),
+  comments: many(comments, { relationName: "CommentAuthor" }),
 }));
 
 export const categoriesRelations = relations(
@@ -543,11 +1404,13 @@ export const categoriesRelations = relations(
     }),
     children: many(categories, { relationName: "CategoryParent" }),
     posts: many(posts),
+    followers: many(categoryFollows),
   })
 );
 
 export const tagsRelations = relations(tags, ({ many }) => ({
   postToTag: many(postToTag),
+  blogPostTags: many(blogPostTags),
 }));
 
 export const postsRelations = relations(posts, ({ one, many }) => ({
@@ -557,7 +1420,26 @@ export const postsRelations = relations(posts, ({ one, many }) => ({
     references: [categories.id],
   }),
   stars: many(stars),
+  comments: many(comments),
   postToTag: many(postToTag),
+  revisions: many(postRevisions),
+  moderations: many(postModerations),
+  dailyStats: many(postDailyStats),
+  collectionPosts: many(collectionPosts),
+}));
+
+export const postModerationsRelations = relations(postModerations, ({ one }) => ({
+  post: one(posts, { fields: [postModerations.postId], references: [posts.id] }),
+  reviewer: one(users, { fields: [postModerations.reviewerId], references: [users.id] }),
+}));
+
+export const postRevisionsRelations = relations(postRevisions, ({ one }) => ({
+  post: one(posts, { fields: [postRevisions.postId], references: [posts.id] }),
+  user: one(users, { fields: [postRevisions.userId], references: [users.id] }),
+}));
+
+export const postDailyStatsRelations = relations(postDailyStats, ({ one }) => ({
+  post: one(posts, { fields: [postDailyStats.postId], references: [posts.id] }),
 }));
 
 export const starsRelations = relations(stars, ({ one }) => ({
@@ -565,11 +1447,93 @@ export const starsRelations = relations(stars, ({ one }) => ({
   user: one(users, { fields: [stars.userId], references: [users.id] }),
 }));
 
+export const commentsRelations = relations(comments, ({ one, many }) => ({
+  post: one(posts, { fields: [comments.postId], references: [posts.id] }),
+  author: one(users, {
+    fields: [comments.authorId],
+    references: [users.id],
+    relationName: "CommentAuthor",
+  }),
+  moderatedBy: one(users, {
+    fields: [comments.moderatedById],
+    references: [users.id],
+    relationName: "CommentModerator",
+  }),
+  parent: one(comments, {
+    fields: [comments.parentId],
+    references: [comments.id],
+    relationName: "CommentReplies",
+  }),
+  replies: many(comments, { relationName: "CommentReplies" }),
+}));
+
+export const collectionsRelations = relations(collections, ({ one, many }) => ({
+  user: one(users, { fields: [collections.userId], references: [users.id] }),
+  posts: many(collectionPosts),
+  stars: many(collectionStars),
+}));
+
+export const collectionPostsRelations = relations(collectionPosts, ({ one }) => ({
+  collection: one(collections, { fields: [collectionPosts.collectionId], references: [collections.id] }),
+  post: one(posts, { fields: [collectionPosts.postId], references: [posts.id] }),
+}));
+
+export const collectionStarsRelations = relations(collectionStars, ({ one }) => ({
+  collection: one(collections, { fields: [collectionStars.collectionId], references: [collections.id] }),
+  user: one(users, { fields: [collectionStars.userId], references: [users.id] }),
+}));
+
+export const followsRelations = relations(follows, ({ one }) => ({
+  follower: one(users, { fields: [follows.followerId], references: [users.id], relationName: "Follower" }),
+  following: one(users, { fields: [follows.followingId], references: [users.id], relationName: "Following" }),
+}));
+
+export const categoryFollowsRelations = relations(categoryFollows, ({ one }) => ({
+  user: one(users, { fields: [categoryFollows.userId], references: [users.id] }),
+  category: one(categories, { fields: [categoryFollows.categoryId], references: [categories.id] }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, { fields: [notifications.userId], references: [users.id], relationName: "NotificationRecipient" }),
+  actor: one(users, { fields: [notifications.actorId], references: [users.id], relationName: "NotificationActor" }),
+  post: one(posts, { fields: [notifications.postId], references: [posts.id] }),
+}));
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  user: one(users, { fields: [apiKeys.userId], references: [users.id] }),
+}));
+
+export const uploadsRelations = relations(uploads, ({ one, many }) => ({
+  user: one(users, { fields: [uploads.userId], references: [users.id] }),
+  references: many(uploadReferences),
+}));
+
+export const uploadReferencesRelations = relations(uploadReferences, ({ one }) => ({
+  upload: one(uploads, { fields: [uploadReferences.uploadId], references: [uploads.id] }),
+}));
+
 export const postToTagRelations = relations(postToTag, ({ one }) => ({
   post: one(posts, { fields: [postToTag.A], references: [posts.id] }),
   tag: one(tags, { fields: [postToTag.B], references: [tags.id] }),
 }));
 
-export const blogPostsRelations = relations(blogPosts, ({ one }) => ({
+export const blogPostsRelations = relations(blogPosts, ({ one, many }) => ({
   author: one(users, { fields: [blogPosts.authorId], references: [users.id] }),
+  series: one(blogSeries, { fields: [blogPosts.seriesId], references: [blogSeries.id] }),
+  tags: many(blogPostTags),
+  mentions: many(blogPostMentions),
+}));
+
+export const blogSeriesRelations = relations(blogSeries, ({ many }) => ({
+  posts: many(blogPosts),
+}));
+
+export const blogPostTagsRelations = relations(blogPostTags, ({ one }) => ({
+  blogPost: one(blogPosts, { fields: [blogPostTags.blogPostId], references: [blogPosts.id] }),
+  tag: one(tags, { fields: [blogPostTags.tagId], references: [tags.id] }),
+}));
+
+export const blogPostMentionsRelations = relations(blogPostMentions, ({ one }) => ({
+  blogPost: one(blogPosts, { fields: [blogPostMentions.blogPostId], references: [blogPosts.id] }),
+  post: one(posts, { fields: [blogPostMentions.postId], references: [posts.id] }),
 }));
@@ -0,0 +1,124 @@
+/**
+ * Tests for the side-by-side revision diff (lib/diff.ts)
+ * Run with: npx tsx lib/diff.test.ts
+ */
+
+import { diffLinesSideBySide, hasChanges, type DiffCell, type DiffRow } from "./diff";
+
+let passedTests = 0;
+let totalTests = 0;
+
+function check(testName: string, passed: boolean, details?: string) {
+  totalTests += 1;
+  passedTests += passed ? 1 : 0;
+  console.log(`${passed ? "✅" : "❌"} ${testName}`);
+  if (!passed && details) console.log(`  ${details}`);
+}
+
+// One line per row: "-2 old | +2 new", with "·" for a gap
+const MARKS: Record<DiffCell["type"], string> = { unchanged: " ", removed: "-", added: "+" };
+
+function cell(side: DiffCell | null): string {
+  return side ? `${MARKS[side.type]}${side.lineNumber} ${side.text}` : "·";
+}
+
+function render(rows: DiffRow[]): string[] {
+  return rows.map((row) => `${cell(row.left)} | ${cell(row.right)}`);
+}
+
+function checkRows(testName: string, before: string, after: string, expected: string[]) {
+  const actual = render(diffLinesSideBySide(before, after));
+  check(
+    testName,
+    JSON.stringify(actual) === JSON.stringify(expected),
+    `Expected ${JSON.stringify(expected)}\n  Got      ${JSON.stringify(actual)}`
+  );
+}
+
+async function runTests() {
+  console.log("🧪 Testing lib/diff.ts...\n");
+
+  checkRows("identical texts are all unchanged", "a\nb", "a\nb", [" 1 a |  1 a", " 2 b |  2 b"]);
+  checkRows("empty to empty has no rows", "", "", []);
+  checkRows("adding to an empty text", "", "a\nb", ["· | +1 a", "· | +2 b"]);
+  checkRows("clearing a text", "a\nb", "", ["-1 a | ·", "-2 b | ·"]);
+
+  checkRows("a modified line is paired across", "a\nb\nc", "a\nB\nc", [
+    " 1 a |  1 a",
+    "-2 b | +2 B",
+    " 3 c |  3 c",
+  ]);
+
+  checkRows("an inserted line leaves a gap on the left", "a\nc", "a\nb\nc", [
+    " 1 a |  1 a",
+    "· | +2 b",
+    " 2 c |  3 c",
+  ]);
+
+  checkRows("a removed line leaves a gap on the right", "a\nb\nc", "a\nc", [
+    " 1 a |  1 a",
+    "-2 b | ·",
+    " 3 c |  2 c",
+  ]);
+
+  checkRows("uneven replacements pad the shorter side", "a\nx\nz", "a\n1\n2\n3\nz", [
+    " 1 a |  1 a",
+    "-2 x | +2 1",
+    "· | +3 2",
+    "· | +4 3",
+    " 3 z |  5 z",
+  ]);
+
+  checkRows("unchanged lines inside the edited region are kept", "a\nb\nc\nd", "x\nb\nc\ny", [
+    "-1 a | +1 x",
+    " 2 b |  2 b",
+    " 3 c |  3 c",
+    "-4 d | +4 y",
+  ]);
+
+  checkRows("CRLF and CR line endings compare equal to LF", "a\r\nb\rc", "a\nb\nc", [
+    " 1 a |  1 a",
+    " 2 b |  2 b",
+    " 3 c |  3 c",
+  ]);
+
+  checkRows("a trailing newline is its own empty line", "a", "a\n", [" 1 a |  1 a", "· | +2 "]);
+
+  // Large rewrites skip the LCS and show a block replacement
+  const before = Array.from({ length: 2500 }, (_, i) => `old ${i}`).join("\n");
+  const after = Array.from({ length: 2500 }, (_, i) => `new ${i}`).join("\n");
+  const large = diffLinesSideBySide(`head\n${before}\ntail`, `head\n${after}\ntail`);
+  check(
+    "large rewrites fall back to a block replacement",
+    large.length === 2502 &&
+      large[0].left?.type === "unchanged" &&
+      large[1].left?.text === "old 0" &&
+      large[1].right?.text === "new 0" &&
+      large[2501].right?.text === "tail" &&
+      large[2501].right?.lineNumber === 2502
+  );
+
+  check("hasChanges is false for identical texts", !hasChanges(diffLinesSideBySide("a\nb", "a\nb")));
+  check("hasChanges is true for an edit", hasChanges(diffLinesSideBySide("a\nb", "a\nc")));
+  check("hasChanges is true for an addition", hasChanges(diffLinesSideBySide("a", "a\nb")));
+
+  console.log();
+  console.log(`📊 Test Results: ${passedTests}/${totalTests} tests passed`);
+
+  if (passedTests === totalTests) {
+    console.log("🎉 All tests passed! The revision diff is working correctly.");
+  } else {
+    console.log("⚠️ Some tests failed. Please review the output above.");
+    process.exitCode = 1;
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
+
+export { runTests };
@@ -0,0 +1,139 @@
+/**
+ * Line-based text diff for side-by-side revision comparison.
+ * Pure and dependency-free so it can run in client components.
+ */
+
+export type DiffLineType = "unchanged" | "added" | "removed";
+
+export interface DiffCell {
+  lineNumber: number;
+  text: string;
+  type: DiffLineType;
+}
+
+/** One row of a side-by-side view; a null side is a gap opposite an add/remove. */
+export interface DiffRow {
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
+type DiffOp = { type: DiffLineType; text: string };
+
+// Above this many LCS cells the middle section is shown as a whole-block
+// replacement rather than computing a minimal diff (keeps the UI responsive).
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  return text.replace(/\r\n?/g, "\n").split("\n");
+}
+
+function diffOps(a: string[], b: string[]): DiffOp[] {
+  // Trim common prefix/suffix — most edits touch a small region
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: DiffOp[] = a.slice(0, start).map((text) => ({ type: "unchanged", text }));
+  const tail: DiffOp[] = a.slice(endA).map((text) => ({ type: "unchanged", text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...midA.map((text): DiffOp => ({ type: "removed", text })),
+      ...midB.map((text): DiffOp => ({ type: "added", text })),
+      ...tail,
+    ];
+  }
+
+  // lcs[i][j] = LCS length of midA[i..] and midB[j..], stored row-major
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const middle: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: "unchanged", text: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      middle.push({ type: "removed", text: midA[i++] });
+    } else {
+      middle.push({ type: "added", text: midB[j++] });
+    }
+  }
+  while (i < n) middle.push({ type: "removed", text: midA[i++] });
+  while (j < m) middle.push({ type: "added", text: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * Diff two texts line by line and lay the result out side by side.
+ * Runs of removed lines followed by added lines are paired on the same rows
+ * so a modified line reads across; unmatched lines get a gap on the other side.
+ */
+export function diffLinesSideBySide(before: string, after: string): DiffRow[] {
+  const ops = diffOps(splitLines(before), splitLines(after));
+  const rows: DiffRow[] = [];
+  let leftNo = 0;
+  let rightNo = 0;
+
+  let k = 0;
+  while (k < ops.length) {
+    const op = ops[k];
+    if (op.type === "unchanged") {
+      rows.push({
+        left: { lineNumber: ++leftNo, text: op.text, type: "unchanged" },
+        right: { lineNumber: ++rightNo, text: op.text, type: "unchanged" },
+      });
+      k++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].type === "removed") removed.push(ops[k++].text);
+    while (k < ops.length && ops[k].type === "added") added.push(ops[k++].text);
+
+    const span = Math.max(removed.length, added.length);
+    for (let r = 0; r < span; r++) {
+      rows.push({
+        left:
+          r < removed.length
+            ? { lineNumber: ++leftNo, text: removed[r], type: "removed" }
+            : null,
+        right:
+          r < added.length
+            ? { lineNumber: ++rightNo, text: added[r], type: "added" }
+            : null,
+      });
+    }
+  }
+
+  return rows;
+}
+
+/** True when any row differs between the two sides. */
+export function hasChanges(rows: DiffRow[]): boolean {
+  return rows.some((row) => row.left?.type !== "unchanged" || row.right?.type !== "unchanged");
+}
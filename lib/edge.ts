@@ -7,35 +7,32 @@
  *
  *  PURPOSE:
  * - Provide in-process rate limiting (in-memory, no Redis dependency)
- * - Enable security event logging without database dependencies
+ * - Record security events without importing database code directly
  * - Support middleware functionality without heavy server-side imports
  *
  *  WHAT'S INCLUDED:
  *
  * Rate Limiting Features:
  * • checkRateLimit() - Core rate limiting logic with in-memory storage
- * • rateLimits - Pre-configured rate limiters for different endpoints
- * • getRateLimitHeaders() - Generate standard rate limit response headers
+ * • rateLimits - One rate limiter per named policy (lib/rate-limit-policies.ts)
+ * • getRateLimitHeaders() - Generate standard RateLimit-* response headers
  * • getClientIdentifier() - Extract client identity from requests
  * • Rate limit statistics and management functions
  *
  * Security Event Logging:
- * • logSecurityEvent() - Log security events with console output
- * • logAuditEvent() - Log audit events for compliance
- * • SecurityEvents - Pre-defined security event helpers
+ * • logSecurityEvent(), logAuditEvent(), SecurityEvents - re-exported from
+ *   the shared event pipeline (lib/security/events.ts)
  * • Client IP and User-Agent sanitization utilities
  *
  *  RUNTIME NOTES:
  * • Runs in the Next.js Node.js proxy process (not Edge Runtime)
  * • In-memory state is shared across all requests within a single process
  * • For multi-instance deployments, use Redis-backed rate limiting instead
- * • Console-based logging (structured JSON for external processing)
+ * • Events are buffered in-process and flushed to the pipeline's sinks
  *
  *  FALLBACK STRATEGY:
  * This module serves as a fallback when full-featured modules can't be used:
  * • lib/limits.ts (Node.js + Redis) → lib/edge.ts (in-memory)
- * • lib/audit.ts (Database + monitoring) → lib/edge.ts (console logging)
- * • lib/monitor.ts (Complex monitoring) → lib/edge.ts (basic logging)
  *
  *  USAGE:
  * Import this module in middleware and lightweight server contexts:
@@ -43,6 +40,12 @@
  */
 
 import { type RateLimitData } from "@/lib/schemas";
+import {
+  RATE_LIMIT_POLICY_NAMES,
+  getRateLimitHeaders,
+  type RateLimitPolicyName,
+  type RateLimitResult,
+} from "@/lib/rate-limit-policies";
 
 // ==========================================
 // TYPE DEFINITIONS
@@ -56,36 +59,6 @@ interface RateLimitStore {
   };
 }
 
-interface RateLimitResult {
-  allowed: boolean;
-  count: number;
-  remaining: number;
-  resetTime: number;
-  blocked: boolean;
-}
-
-export interface AuditEvent {
-  action: string;
-  userId?: string;
-  entityType: string;
-  entityId?: string;
-  ipAddress?: string;
-  userAgent?: string;
-  metadata?: Record<string, string | number | boolean>;
-  severity: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
-}
-
-export interface SecurityEvent extends AuditEvent {
-  threatType:
-    | "AUTHENTICATION"
-    | "AUTHORIZATION"
-    | "INPUT_VALIDATION"
-    | "RATE_LIMIT"
-    | "FILE_UPLOAD"
-    | "DATA_ACCESS";
-  blocked: boolean;
-}
-
 // ==========================================
 // RATE LIMITING FUNCTIONALITY
 // ==========================================
@@ -108,6 +81,8 @@ function startCleanup() {
       }
     }
   }, CLEANUP_INTERVAL);
+  // Don't hold a Node process open just to sweep expired entries
+  (cleanupTimer as { unref?: () => void }).unref?.();
 }
 
 // Start cleanup on module load (only in Node.js environments)
@@ -134,6 +109,8 @@ export async function checkRateLimit(
       remaining: limit,
       resetTime: Date.now() + window,
       blocked: false,
+      limit,
+      windowMs: window,
     };
   }
 
@@ -160,6 +137,8 @@ export async function checkRateLimit(
       remaining: 0,
       resetTime: entry.resetTime,
       blocked: true,
+      limit,
+      windowMs: window,
     };
   }
 
@@ -171,6 +150,8 @@ export async function checkRateLimit(
       remaining: 0,
       resetTime: entry.resetTime,
       blocked: true,
+      limit,
+      windowMs: window,
     };
   }
 
@@ -181,6 +162,8 @@ export async function checkRateLimit(
     remaining: Math.max(0, limit - entry.count),
     resetTime: entry.resetTime,
     blocked: false,
+    limit,
+    windowMs: window,
   };
 }
 
@@ -198,90 +181,32 @@ export function createRateLimit(limit: number, windowMs: number) {
 }
 
 /**
- * Environment-aware rate limit configurations (Edge Runtime compatible)
- * Uses stricter limits in production, more lenient in development
+ * Create a rate limiter that follows a named policy. Policies live in
+ * settings, so lib/security/limits.ts (which holds the DB client) is only
+ * loaded on the first check
  */
-function createRateLimits() {
-  const isProduction = process.env.NODE_ENV === "production";
-
-  const config = isProduction
-    ? {
-        // Stricter rate limits in production
-        auth: { limit: 5, window: 15 * 60 * 1000 }, // 5 requests per 15 minutes
-        upload: { limit: 10, window: 60 * 1000 }, // 10 uploads per minute
-        createPost: { limit: 3, window: 60 * 1000 }, // 3 posts per minute
-        createTag: { limit: 15, window: 60 * 1000 }, // 15 tags per minute
-        api: { limit: 60, window: 60 * 1000 }, // 60 requests per minute
-        admin: { limit: 10, window: 60 * 1000 }, // 10 admin requests per minute
-        search: { limit: 30, window: 60 * 1000 }, // 30 searches per minute
-        interactions: { limit: 100, window: 60 * 1000 }, // 100 interactions per minute
-        csrf: { limit: 20, window: 60 * 1000 }, // 20 CSRF token fetches per minute
-      }
-    : {
-        // More lenient rate limits in development
-        auth: { limit: 10, window: 15 * 60 * 1000 }, // 10 requests per 15 minutes
-        upload: { limit: 20, window: 60 * 1000 }, // 20 uploads per minute
-        createPost: { limit: 10, window: 60 * 1000 }, // 10 posts per minute
-        createTag: { limit: 50, window: 60 * 1000 }, // 50 tags per minute
-        api: { limit: 200, window: 60 * 1000 }, // 200 requests per minute
-        admin: { limit: 100, window: 60 * 1000 }, // 100 admin requests per minute
-        search: { limit: 100, window: 60 * 1000 }, // 100 searches per minute
-        interactions: { limit: 500, window: 60 * 1000 }, // 500 interactions per minute
-        csrf: { limit: 100, window: 60 * 1000 }, // 100 CSRF token fetches per minute (dev)
-      };
-
-  return {
-    // Authentication endpoints
-    auth: createRateLimit(config.auth.limit, config.auth.window),
-
-    // File upload endpoints
-    upload: createRateLimit(config.upload.limit, config.upload.window),
-
-    // Post creation
-    createPost: createRateLimit(
-      config.createPost.limit,
-      config.createPost.window
-    ),
-
-    // Tag creation
-    createTag: createRateLimit(config.createTag.limit, config.createTag.window),
-
-    // General API endpoints
-    api: createRateLimit(config.api.limit, config.api.window),
-
-    // Admin endpoints (stricter to reduce abuse surface)
-    admin: createRateLimit(config.admin.limit, config.admin.window),
-
-    // Search endpoints
-    search: createRateLimit(config.search.limit, config.search.window),
-
-    // Bookmark/favorite actions
-    interactions: createRateLimit(
-      config.interactions.limit,
-      config.interactions.window
-    ),
-
-    // CSRF token endpoint (dedicated bucket to prevent token exhaustion)
-    csrf: createRateLimit(config.csrf.limit, config.csrf.window),
+export function createPolicyRateLimit(name: RateLimitPolicyName) {
+  return async (identifier: string): Promise<RateLimitResult> => {
+    const { getRateLimitPolicy } = await import("@/lib/security/limits");
+    const policy = await getRateLimitPolicy(name);
+    const result = await checkRateLimit({
+      identifier,
+      limit: policy.limit,
+      window: policy.windowSeconds * 1000,
+    });
+    return { ...result, policy: name };
   };
 }
 
 /**
- * Rate limit configurations that adapt to environment (Edge Runtime compatible)
+ * One in-memory rate limiter per policy; limits are edited on /settings and
+ * picked up without a restart
  */
-export const rateLimits = createRateLimits();
+export const rateLimits = Object.fromEntries(
+  RATE_LIMIT_POLICY_NAMES.map((name) => [name, createPolicyRateLimit(name)])
+) as Record<RateLimitPolicyName, (identifier: string) => Promise<RateLimitResult>>;
 
-/**
- * Get rate limit headers for HTTP responses
- */
-export function getRateLimitHeaders(result: RateLimitResult) {
-  return {
-    "X-RateLimit-Limit": String(result.count + result.remaining),
-    "X-RateLimit-Remaining": String(result.remaining),
-    "X-RateLimit-Reset": new Date(result.resetTime).toISOString(),
-    "X-RateLimit-Blocked": result.blocked ? "true" : "false",
-  };
-}
+export { getRateLimitHeaders };
 
 /**
  * Get client identifier from request (Edge Runtime compatible)
@@ -389,176 +314,14 @@ export function getRateLimitStats() {
 // SECURITY EVENT LOGGING FUNCTIONALITY
 // ==========================================
 
-/**
- * Log security event (Edge Runtime compatible)
- * Only uses console logging, no database or external services
- */
-export async function logSecurityEvent(event: SecurityEvent) {
-  const timestamp = new Date().toISOString();
-  const logData = {
-    timestamp,
-    type: "SECURITY_EVENT",
-    ...event,
-  };
-
-  // Use appropriate console level based on severity
-  switch (event.severity) {
-    case "CRITICAL":
-    case "HIGH":
-      console.error("[SECURITY]", JSON.stringify(logData));
-      break;
-    case "MEDIUM":
-      console.warn("[SECURITY]", JSON.stringify(logData));
-      break;
-    case "LOW":
-    default:
-      console.log("[SECURITY]", JSON.stringify(logData));
-      break;
-  }
-}
-
-/**
- * Log audit event (Edge Runtime compatible)
- * Only uses console logging, no database or external services
- */
-export async function logAuditEvent(event: AuditEvent) {
-  const timestamp = new Date().toISOString();
-  const logData = {
-    timestamp,
-    type: "AUDIT_EVENT",
-    ...event,
-  };
-
-  // Use appropriate console level based on severity
-  switch (event.severity) {
-    case "CRITICAL":
-    case "HIGH":
-      console.error("[AUDIT]", JSON.stringify(logData));
-      break;
-    case "MEDIUM":
-      console.warn("[AUDIT]", JSON.stringify(logData));
-      break;
-    case "LOW":
-    default:
-      console.log("[AUDIT]", JSON.stringify(logData));
-      break;
-  }
-}
-
-/**
- * Helper functions for common security events (Edge Runtime compatible)
- */
-export const SecurityEvents = {
-  authenticationFailure: (
-    userId?: string,
-    ipAddress?: string,
-    reason?: string
-  ) =>
-    logSecurityEvent({
-      action: "Authentication Failure",
-      userId,
-      entityType: "user",
-      ipAddress,
-      threatType: "AUTHENTICATION",
-      blocked: true,
-      severity: "MEDIUM",
-      metadata: { reason: reason || "unknown" },
-    }),
-
-  authorizationFailure: (
-    userId: string,
-    resource: string,
-    ipAddress?: string
-  ) =>
-    logSecurityEvent({
-      action: "Authorization Failure",
-      userId,
-      entityType: resource,
-      ipAddress,
-      threatType: "AUTHORIZATION",
-      blocked: true,
-      severity: "HIGH",
-      metadata: { attemptedResource: resource },
-    }),
-
-  rateLimitExceeded: (
-    identifier: string,
-    endpoint: string,
-    ipAddress?: string
-  ) =>
-    logSecurityEvent({
-      action: "Rate Limit Exceeded",
-      entityType: "rate_limit",
-      ipAddress,
-      threatType: "RATE_LIMIT",
-      blocked: true,
-      severity: "MEDIUM",
-      metadata: { identifier, endpoint },
-    }),
-
-  suspiciousFileUpload: (
-    userId: string,
-    filename: string,
-    fileType: string,
-    ipAddress?: string
-  ) =>
-    logSecurityEvent({
-      action: "Suspicious File Upload Blocked",
-      userId,
-      entityType: "file",
-      ipAddress,
-      threatType: "FILE_UPLOAD",
-      blocked: true,
-      severity: "HIGH",
-      metadata: { filename, fileType },
-    }),
-
-  inputValidationFailure: (
-    userId: string | undefined,
-    field: string,
-    value: string,
-    ipAddress?: string
-  ) =>
-    logSecurityEvent({
-      action: "Input Validation Failure",
-      userId,
-      entityType: "input",
-      ipAddress,
-      threatType: "INPUT_VALIDATION",
-      blocked: true,
-      severity: "MEDIUM",
-      metadata: { field, value: value.substring(0, 100) }, // Truncate for logging
-    }),
-
-  dataAccessAttempt: (
-    userId: string,
-    resource: string,
-    authorized: boolean,
-    ipAddress?: string
-  ) =>
-    logSecurityEvent({
-      action: authorized
-        ? "Authorized Data Access"
-        : "Unauthorized Data Access Attempt",
-      userId,
-      entityType: resource,
-      ipAddress,
-      threatType: "DATA_ACCESS",
-      blocked: !authorized,
-      severity: authorized ? "LOW" : "HIGH",
-      metadata: { resource },
-    }),
-
-  protectedAreaAccess: (userId: string, ipAddress?: string, area?: string) =>
-    logAuditEvent({
-      action: "Protected Area Access",
-      userId,
-      entityType: "protected_route",
-      ipAddress,
-      severity: "LOW",
-      metadata: { area: area || "unknown" },
-    }),
-};
+// One pipeline for the whole app (Edge-safe); see lib/security/events.ts
+export {
+  logSecurityEvent,
+  logAuditEvent,
+  SecurityEvents,
+  type AuditEvent,
+  type SecurityEvent,
+} from "@/lib/security/events";
 
 // ==========================================
 // UTILITY FUNCTIONS
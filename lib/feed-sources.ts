@@ -0,0 +1,121 @@
+/**
+ * Feed contents for the blog (/blog/rss.xml, atom.xml, feed.json) and for new
+ * posts (/feed/rss.xml, atom.xml, feed.json), rendered by lib/feeds.ts.
+ */
+
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { categories, tags, users } from "@/lib/db/schema";
+import { getBlogPostsForFeed } from "@/lib/blog-query";
+import { getPostsForFeed, type FeedPostFilters } from "@/lib/content";
+import { POST_KIND_LABELS } from "@/lib/post-kinds";
+import type { Feed } from "@/lib/feeds";
+
+export async function getBlogFeed(baseUrl: string): Promise<Feed> {
+  const posts = await getBlogPostsForFeed(50);
+
+  return {
+    title: "Promptexify Blog",
+    description: "Guides and insights on Cursor rules, MCP configs, Claude Code, and AI-powered development.",
+    homeUrl: `${baseUrl}/blog`,
+    links: {
+      rss: `${baseUrl}/blog/rss.xml`,
+      atom: `${baseUrl}/blog/atom.xml`,
+      json: `${baseUrl}/blog/feed.json`,
+    },
+    // unstable_cache round-trips dates through JSON
+    items: posts.map((post) => ({
+      url: `${baseUrl}/blog/${post.slug}`,
+      title: post.title,
+      summary: post.excerpt,
+      contentHtml: post.content,
+      published: new Date(post.publishedAt ?? post.createdAt),
+      updated: new Date(post.updatedAt),
+      authorName: post.author?.name ?? null,
+      categories: post.tags.map((tag) => tag.name),
+      imageUrl: post.featuredImageUrl,
+    })),
+  };
+}
+
+export interface PostFeedQuery {
+  category?: string | null;
+  tag?: string | null;
+  author?: string | null;
+}
+
+/**
+ * Feed of newly approved posts, optionally narrowed by category slug, tag slug
+ * and author id. Premium posts list their description only. Returns null when
+ * a filter names a category, tag or author that does not exist.
+ */
+export async function getPostsFeed(baseUrl: string, query: PostFeedQuery): Promise<Feed | null> {
+  const filters: FeedPostFilters = {};
+  const scope: string[] = [];
+
+  if (query.category) {
+    const [category] = await db
+      .select({ id: categories.id, name: categories.name })
+      .from(categories)
+      .where(eq(categories.slug, query.category))
+      .limit(1);
+    if (!category) return null;
+    filters.categoryId = category.id;
+    scope.push(`in ${category.name}`);
+  }
+  if (query.tag) {
+    const [tag] = await db
+      .select({ id: tags.id, name: tags.name })
+      .from(tags)
+      .where(eq(tags.slug, query.tag))
+      .limit(1);
+    if (!tag) return null;
+    filters.tagId = tag.id;
+    scope.push(`tagged #${tag.name}`);
+  }
+  if (query.author) {
+    const [author] = await db
+      .select({ id: users.id, name: users.name })
+      .from(users)
+      .where(eq(users.id, query.author))
+      .limit(1);
+    if (!author) return null;
+    filters.authorId = author.id;
+    scope.push(`by ${author.name ?? "a Promptexify author"}`);
+  }
+
+  const posts = await getPostsForFeed(filters, 50);
+
+  // Filters are carried over to the alternate-format links
+  const params = new URLSearchParams();
+  if (query.category) params.set("category", query.category);
+  if (query.tag) params.set("tag", query.tag);
+  if (query.author) params.set("author", query.author);
+  const search = params.toString() ? `?${params}` : "";
+
+  return {
+    title: ["Promptexify — New prompts", ...scope].join(" "),
+    description: "Newly approved prompts, Cursor rules, MCP configs, Claude skills and AGENTS.md files.",
+    homeUrl: `${baseUrl}/directory`,
+    links: {
+      rss: `${baseUrl}/feed/rss.xml${search}`,
+      atom: `${baseUrl}/feed/atom.xml${search}`,
+      json: `${baseUrl}/feed/feed.json${search}`,
+    },
+    items: posts.map((post) => ({
+      url: `${baseUrl}/entry/${post.id}`,
+      title: post.title,
+      summary: post.description,
+      contentText: post.isPremium ? undefined : post.content,
+      published: new Date(post.publishAt ?? post.createdAt),
+      updated: new Date(post.updatedAt),
+      authorName: post.authorName,
+      categories: [
+        POST_KIND_LABELS[post.kind],
+        ...(post.categoryName ? [post.categoryName] : []),
+        ...post.tags,
+      ],
+      imageUrl: post.previewImageUrl,
+    })),
+  };
+}
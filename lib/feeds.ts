@@ -0,0 +1,217 @@
+/**
+ * Syndication feeds — one feed model rendered as RSS 2.0, Atom 1.0 or
+ * JSON Feed 1.1, served with ETag/Last-Modified so readers can poll with
+ * conditional GETs. Data loading lives in lib/feed-sources.ts.
+ */
+
+import { createHash } from "node:crypto";
+import { NextRequest } from "next/server";
+
+export type FeedFormat = "rss" | "atom" | "json";
+
+export interface FeedItem {
+  /** Stable permalink, used as the guid/id */
+  url: string;
+  title: string;
+  summary: string | null;
+  /** Full body; omitted for premium posts */
+  contentHtml?: string;
+  contentText?: string;
+  published: Date;
+  updated: Date;
+  authorName: string | null;
+  categories: string[];
+  imageUrl: string | null;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  /** HTML page the feed mirrors */
+  homeUrl: string;
+  /** Same feed in each format; the rendered format links itself as `self` */
+  links: Record<FeedFormat, string>;
+  items: FeedItem[];
+}
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Newest `updated` across the items — the feed's own updated/Last-Modified. */
+function feedUpdated(feed: Feed): Date {
+  return feed.items.reduce(
+    (latest, item) => (item.updated > latest ? item.updated : latest),
+    new Date(0)
+  );
+}
+
+function itemHtml(item: FeedItem): string | undefined {
+  if (item.contentHtml) return item.contentHtml;
+  if (item.contentText) return `<pre>${escapeXml(item.contentText)}</pre>`;
+  return undefined;
+}
+
+function renderRss(feed: Feed): string {
+  const items = feed.items.map((item) => {
+    const html = itemHtml(item);
+    return `
+    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="true">${escapeXml(item.url)}</guid>
+      ${item.summary ? `<description>${escapeXml(item.summary)}</description>` : ""}
+      ${html ? `<content:encoded>${escapeXml(html)}</content:encoded>` : ""}
+      <pubDate>${item.published.toUTCString()}</pubDate>
+      ${item.authorName ? `<dc:creator>${escapeXml(item.authorName)}</dc:creator>` : ""}
+      ${item.categories.map((c) => `<category>${escapeXml(c)}</category>`).join("")}
+    </item>`;
+  }).join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.homeUrl)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <language>en-us</language>
+    <atom:link href="${escapeXml(feed.links.rss)}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${feedUpdated(feed).toUTCString()}</lastBuildDate>
+    ${items}
+  </channel>
+</rss>`;
+}
+
+function renderAtom(feed: Feed): string {
+  const entries = feed.items.map((item) => {
+    const content = item.contentHtml
+      ? `<content type="html">${escapeXml(item.contentHtml)}</content>`
+      : item.contentText
+        ? `<content type="text">${escapeXml(item.contentText)}</content>`
+        : "";
+    return `
+  <entry>
+    <id>${escapeXml(item.url)}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />
+    <published>${item.published.toISOString()}</published>
+    <updated>${item.updated.toISOString()}</updated>
+    ${item.authorName ? `<author><name>${escapeXml(item.authorName)}</name></author>` : ""}
+    ${item.categories.map((c) => `<category term="${escapeXml(c)}" />`).join("")}
+    ${item.summary ? `<summary type="text">${escapeXml(item.summary)}</summary>` : ""}
+    ${content}
+  </entry>`;
+  }).join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en-US">
+  <id>${escapeXml(feed.homeUrl)}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <updated>${feedUpdated(feed).toISOString()}</updated>
+  <author><name>Promptexify</name></author>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.links.atom)}" />
+  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}" />
+  ${entries}
+</feed>`;
+}
+
+function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.links.json,
+    description: feed.description,
+    language: "en-US",
+    items: feed.items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      ...(item.summary && { summary: item.summary }),
+      ...(item.contentHtml
+        ? { content_html: item.contentHtml }
+        : { content_text: item.contentText ?? item.summary ?? "" }),
+      ...(item.imageUrl && { image: item.imageUrl }),
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+      ...(item.authorName && { authors: [{ name: item.authorName }] }),
+      ...(item.categories.length > 0 && { tags: item.categories }),
+    })),
+  }, null, 2);
+}
+
+export function renderFeed(feed: Feed, format: FeedFormat): string {
+  switch (format) {
+    case "rss":
+      return renderRss(feed);
+    case "atom":
+      return renderAtom(feed);
+    case "json":
+      return renderJsonFeed(feed);
+  }
+}
+
+/** Origin the feed was requested on, for absolute links. */
+export function feedBaseUrl(request: NextRequest): string {
+  const host     = request.headers.get("host") || "promptexify.com";
+  const protocol = request.headers.get("x-forwarded-proto") || "https";
+  return `${protocol}://${host}`;
+}
+
+// If-None-Match wins over If-Modified-Since (RFC 9110 §13.2.2)
+function isNotModified(request: NextRequest, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(",")
+      .map((tag) => tag.trim().replace(/^W\//, ""))
+      .some((tag) => tag === "*" || tag === etag);
+  }
+
+  const ifModifiedSince = request.headers.get("if-modified-since");
+  if (!ifModifiedSince) return false;
+  const since = Date.parse(ifModifiedSince);
+  // HTTP dates have second precision
+  return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+}
+
+/**
+ * Render `feed` and answer the request, with a 304 when the reader's cached
+ * copy is still current. The body only changes when an item does, so the
+ * ETag is a hash of it and Last-Modified is the newest item's update time.
+ */
+export function serveFeed(
+  request: NextRequest,
+  feed: Feed,
+  format: FeedFormat,
+  maxAge = 3600
+): Response {
+  const body = renderFeed(feed, format);
+  const etag = `"${createHash("sha1").update(body).digest("base64url")}"`;
+  const lastModified = feedUpdated(feed);
+  const headers = {
+    ETag: etag,
+    "Last-Modified": lastModified.toUTCString(),
+    "Cache-Control": `public, max-age=${maxAge}, s-maxage=${maxAge}`,
+  };
+
+  if (isNotModified(request, etag, lastModified)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(body, {
+    headers: { ...headers, "Content-Type": CONTENT_TYPES[format] },
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * Email categories and per-category opt-outs. Pure so the settings form and
+ * the unsubscribe page can share it with lib/mail.ts.
+ */
+
+import type { EmailCategory } from "@/lib/db/schema";
+
+export const EMAIL_CATEGORIES = [
+  "MODERATION",
+  "WEEKLY_DIGEST",
+  "PENDING_SUMMARY",
+  "SECURITY_ALERT",
+] as const satisfies readonly EmailCategory[];
+
+export type EmailPreferences = Partial<Record<EmailCategory, boolean>>;
+
+export const EMAIL_CATEGORY_OPTIONS: Record<
+  EmailCategory,
+  { label: string; description: string; adminOnly?: boolean }
+> = {
+  MODERATION: {
+    label: "Moderation decisions",
+    description: "When one of your submissions is approved, rejected or sent back for changes.",
+  },
+  WEEKLY_DIGEST: {
+    label: "Weekly digest",
+    description: "New prompts from the categories of posts you starred, once a week.",
+  },
+  PENDING_SUMMARY: {
+    label: "Pending posts summary",
+    description: "A daily count of submissions waiting for review.",
+    adminOnly: true,
+  },
+  SECURITY_ALERT: {
+    label: "Security alerts",
+    description: "When an alert rule fires for suspicious activity or a sensitive change.",
+    adminOnly: true,
+  },
+};
+
+export function isEmailCategory(value: unknown): value is EmailCategory {
+  return EMAIL_CATEGORIES.includes(value as EmailCategory);
+}
+
+/** Categories are on unless the user unsubscribed from them. */
+export function isEmailEnabled(
+  preferences: EmailPreferences | null | undefined,
+  category: EmailCategory
+): boolean {
+  return preferences?.[category] !== false;
+}
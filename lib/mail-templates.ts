@@ -0,0 +1,255 @@
+/**
+ * Transactional email templates. Each returns the subject plus matching
+ * plain-text and HTML bodies; links must already be absolute.
+ */
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface Footer {
+  // Why the recipient gets this email, e.g. "moderation decisions"
+  reason: string;
+  unsubscribeUrl: string;
+  settingsUrl: string;
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function button(href: string, label: string): string {
+  return `<p style="margin:24px 0"><a href="${escapeHtml(href)}" style="background:#18181b;color:#fafafa;padding:10px 18px;border-radius:6px;text-decoration:none;font-weight:600">${escapeHtml(label)}</a></p>`;
+}
+
+function layout(bodyHtml: string, bodyText: string, footer: Footer): Omit<RenderedEmail, "subject"> {
+  const html = `<!doctype html>
+<html>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#18181b">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">
+<p style="margin:0 0 24px;font-weight:700;font-size:18px">Promptexify</p>
+${bodyHtml}
+<hr style="border:none;border-top:1px solid #e4e4e7;margin:32px 0 16px">
+<p style="margin:0;font-size:12px;color:#71717a">You're receiving this email because of your ${escapeHtml(footer.reason)} setting. <a href="${escapeHtml(footer.unsubscribeUrl)}" style="color:#71717a">Unsubscribe</a> or <a href="${escapeHtml(footer.settingsUrl)}" style="color:#71717a">manage email settings</a>.</p>
+</div>
+</body>
+</html>`;
+
+  const text = `${bodyText}
+
+--
+You're receiving this email because of your ${footer.reason} setting.
+Unsubscribe: ${footer.unsubscribeUrl}
+Manage email settings: ${footer.settingsUrl}
+`;
+
+  return { html, text };
+}
+
+function greeting(name: string | null): string {
+  return name ? `Hi ${name},` : "Hi,";
+}
+
+export function moderationEmail({
+  name,
+  postTitle,
+  decision,
+  note,
+  url,
+  footer,
+}: {
+  name: string | null;
+  postTitle: string;
+  decision: "APPROVED" | "REJECTED" | "CHANGES_REQUESTED";
+  note: string | null;
+  url: string;
+  footer: Footer;
+}): RenderedEmail {
+  const copy = {
+    APPROVED: {
+      subject: `Your post "${postTitle}" was approved`,
+      lead: "Good news — your post was approved and is now live.",
+      action: "View your post",
+    },
+    REJECTED: {
+      subject: `Your post "${postTitle}" was rejected`,
+      lead: "A moderator reviewed your post and decided not to publish it.",
+      action: "View your submissions",
+    },
+    CHANGES_REQUESTED: {
+      subject: `Changes requested on "${postTitle}"`,
+      lead: "A moderator reviewed your post and asked for some changes before it can be published.",
+      action: "Edit your submission",
+    },
+  }[decision];
+
+  const noteLabel = decision === "APPROVED" ? "Moderator note" : "Reason";
+  const bodyHtml = [
+    `<p>${escapeHtml(greeting(name))}</p>`,
+    `<p>${escapeHtml(copy.lead)}</p>`,
+    `<p style="font-weight:600">${escapeHtml(postTitle)}</p>`,
+    note
+      ? `<p style="margin:0 0 4px;font-size:13px;color:#71717a">${noteLabel}</p><blockquote style="margin:0;padding:8px 12px;border-left:3px solid #e4e4e7;white-space:pre-wrap">${escapeHtml(note)}</blockquote>`
+      : "",
+    button(url, copy.action),
+  ].join("\n");
+
+  const bodyText = [
+    greeting(name),
+    "",
+    copy.lead,
+    "",
+    postTitle,
+    ...(note ? ["", `${noteLabel}:`, note] : []),
+    "",
+    `${copy.action}: ${url}`,
+  ].join("\n");
+
+  return { subject: copy.subject, ...layout(bodyHtml, bodyText, footer) };
+}
+
+export interface DigestPost {
+  title: string;
+  description: string | null;
+  categoryName: string | null;
+  url: string;
+}
+
+export function weeklyDigestEmail({
+  name,
+  posts,
+  directoryUrl,
+  footer,
+}: {
+  name: string | null;
+  posts: DigestPost[];
+  directoryUrl: string;
+  footer: Footer;
+}): RenderedEmail {
+  const count = posts.length;
+  const subject = `${count} new prompt${count === 1 ? "" : "s"} in your starred categories`;
+  const lead = "Here's what was published this week in the categories of posts you starred.";
+
+  const items = posts
+    .map(
+      (post) => `<li style="margin:0 0 16px">
+<a href="${escapeHtml(post.url)}" style="color:#18181b;font-weight:600">${escapeHtml(post.title)}</a>${post.categoryName ? ` <span style="font-size:12px;color:#71717a">· ${escapeHtml(post.categoryName)}</span>` : ""}
+${post.description ? `<div style="font-size:14px;color:#52525b">${escapeHtml(post.description)}</div>` : ""}
+</li>`
+    )
+    .join("\n");
+
+  const bodyHtml = [
+    `<p>${escapeHtml(greeting(name))}</p>`,
+    `<p>${escapeHtml(lead)}</p>`,
+    `<ul style="padding-left:18px">\n${items}\n</ul>`,
+    button(directoryUrl, "Browse the directory"),
+  ].join("\n");
+
+  const bodyText = [
+    greeting(name),
+    "",
+    lead,
+    "",
+    ...posts.flatMap((post) => [
+      `* ${post.title}${post.categoryName ? ` (${post.categoryName})` : ""}`,
+      ...(post.description ? [`  ${post.description}`] : []),
+      `  ${post.url}`,
+    ]),
+    "",
+    `Browse the directory: ${directoryUrl}`,
+  ].join("\n");
+
+  return { subject, ...layout(bodyHtml, bodyText, footer) };
+}
+
+export interface PendingPost {
+  title: string;
+  authorName: string | null;
+  submittedAt: Date;
+}
+
+export function pendingSummaryEmail({
+  name,
+  pendingCount,
+  oldest,
+  queueUrl,
+  footer,
+}: {
+  name: string | null;
+  pendingCount: number;
+  oldest: PendingPost[];
+  queueUrl: string;
+  footer: Footer;
+}): RenderedEmail {
+  const subject = `${pendingCount} post${pendingCount === 1 ? "" : "s"} pending review`;
+  const lead = `${pendingCount} submission${pendingCount === 1 ? " is" : "s are"} waiting for review. The oldest:`;
+  const describe = (post: PendingPost) =>
+    `${post.title} — ${post.authorName || "Unknown author"}, submitted ${post.submittedAt.toISOString().slice(0, 10)}`;
+
+  const bodyHtml = [
+    `<p>${escapeHtml(greeting(name))}</p>`,
+    `<p>${escapeHtml(lead)}</p>`,
+    `<ul style="padding-left:18px">\n${oldest.map((post) => `<li>${escapeHtml(describe(post))}</li>`).join("\n")}\n</ul>`,
+    button(queueUrl, "Open the review queue"),
+  ].join("\n");
+
+  const bodyText = [
+    greeting(name),
+    "",
+    lead,
+    "",
+    ...oldest.map((post) => `* ${describe(post)}`),
+    "",
+    `Open the review queue: ${queueUrl}`,
+  ].join("\n");
+
+  return { subject, ...layout(bodyHtml, bodyText, footer) };
+}
+
+export function securityAlertEmail({
+  name,
+  title,
+  severity,
+  ruleName,
+  eventCount,
+  alertsUrl,
+  footer,
+}: {
+  name: string | null;
+  title: string;
+  severity: string;
+  ruleName: string;
+  eventCount: number;
+  alertsUrl: string;
+  footer: Footer;
+}): RenderedEmail {
+  const subject = `[${severity}] ${title}`;
+  const lead = `The alert rule "${ruleName}" fired after ${eventCount} matching event${eventCount === 1 ? "" : "s"}.`;
+
+  const bodyHtml = [
+    `<p>${escapeHtml(greeting(name))}</p>`,
+    `<p><strong>${escapeHtml(title)}</strong> (${escapeHtml(severity)})</p>`,
+    `<p>${escapeHtml(lead)}</p>`,
+    button(alertsUrl, "Review alerts"),
+  ].join("\n");
+
+  const bodyText = [
+    greeting(name),
+    "",
+    `${title} (${severity})`,
+    "",
+    lead,
+    "",
+    `Review alerts: ${alertsUrl}`,
+  ].join("\n");
+
+  return { subject, ...layout(bodyHtml, bodyText, footer) };
+}
@@ -0,0 +1,109 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+
+/**
+ * Pluggable delivery for transactional email.
+ *
+ * Configured from the environment — see the Email section of env.template.
+ * SMTP sends for real; the file transport writes .eml files and the console
+ * transport logs messages, so mail can be exercised locally without a server.
+ */
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  readonly name: "smtp" | "file" | "console";
+  send(message: MailMessage): Promise<void>;
+}
+
+function createSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) throw new Error("SMTP_HOST is required for the smtp mail transport");
+
+  const port = Number(process.env.SMTP_PORT) || 587;
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    // Implicit TLS on 465; other ports upgrade with STARTTLS when offered
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+}
+
+function createFileTransport(): MailTransport {
+  const directory = path.resolve(process.env.MAIL_FILE_DIR || ".mail");
+  // Builds the raw RFC 822 message without sending it anywhere
+  const builder = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    name: "file",
+    async send(message) {
+      const { message: raw } = await builder.sendMail(message);
+      await mkdir(directory, { recursive: true });
+      const recipient = message.to.replace(/[^a-z0-9@.-]/gi, "_");
+      await writeFile(path.join(directory, `${Date.now()}-${recipient}.eml`), raw as Buffer);
+    },
+  };
+}
+
+function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.log(
+        `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}\n`
+      );
+    },
+  };
+}
+
+let _transport: MailTransport | null | undefined;
+
+/**
+ * The configured transport, or null when email is disabled. MAIL_TRANSPORT
+ * picks one explicitly; otherwise SMTP is used when SMTP_HOST is set and the
+ * console transport outside production.
+ */
+export function getMailTransport(): MailTransport | null {
+  if (_transport !== undefined) return _transport;
+
+  const name =
+    process.env.MAIL_TRANSPORT ||
+    (process.env.SMTP_HOST ? "smtp" : process.env.NODE_ENV !== "production" ? "console" : "");
+
+  switch (name) {
+    case "smtp":
+      _transport = createSmtpTransport();
+      break;
+    case "file":
+      _transport = createFileTransport();
+      break;
+    case "console":
+      _transport = createConsoleTransport();
+      break;
+    case "":
+    case "none":
+      _transport = null;
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}" (expected smtp, file, console or none)`);
+  }
+  return _transport;
+}
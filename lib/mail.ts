@@ -0,0 +1,347 @@
+/**
+ * Transactional email: moderation decisions, the weekly digest, the admin
+ * pending-review summary and security alerts. Every message carries a signed unsubscribe link for
+ * its category; opt-outs live in users.emailPreferences. Senders never throw
+ * for delivery failures — email must not fail the action that triggered it.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { db } from "@/lib/db";
+import { categories, posts, stars, users, type EmailCategory } from "@/lib/db/schema";
+import { getMailTransport } from "@/lib/mail-transport";
+import {
+  moderationEmail,
+  pendingSummaryEmail,
+  securityAlertEmail,
+  weeklyDigestEmail,
+  type RenderedEmail,
+} from "@/lib/mail-templates";
+import {
+  EMAIL_CATEGORY_OPTIONS,
+  isEmailCategory,
+  isEmailEnabled,
+  type EmailPreferences,
+} from "@/lib/mail-categories";
+import { getBaseUrl } from "@/lib/utils";
+import { and, asc, desc, eq, gt, inArray, lte, ne, sql } from "drizzle-orm";
+
+const DIGEST_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const DIGEST_MAX_POSTS = 10;
+const PENDING_SUMMARY_MAX_POSTS = 5;
+
+interface Recipient {
+  id: string;
+  email: string;
+  name: string | null;
+  emailPreferences: EmailPreferences;
+}
+
+// -----------------------------------------------------------------------------
+// Unsubscribe tokens: "<userId>.<category>.<HMAC>", valid until the secret rotates
+// -----------------------------------------------------------------------------
+
+function getUnsubscribeSecret(): string | null {
+  return process.env.MAIL_UNSUBSCRIBE_SECRET || null;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+export function createUnsubscribeToken(userId: string, category: EmailCategory): string {
+  const secret = getUnsubscribeSecret();
+  if (!secret) throw new Error("MAIL_UNSUBSCRIBE_SECRET is not set");
+  const payload = `${userId}.${category}`;
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+export function verifyUnsubscribeToken(
+  token: string
+): { userId: string; category: EmailCategory } | null {
+  const secret = getUnsubscribeSecret();
+  const parts = token.split(".");
+  if (!secret || parts.length !== 3) return null;
+
+  const [userId, category, signature] = parts;
+  if (!userId || !isEmailCategory(category)) return null;
+
+  const expected = Buffer.from(sign(`${userId}.${category}`, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+  return { userId, category };
+}
+
+/** Opt the token's user out of its category; returns the category, or null for a bad token. */
+export async function unsubscribeWithToken(token: string): Promise<EmailCategory | null> {
+  const verified = verifyUnsubscribeToken(token);
+  if (!verified) return null;
+
+  await db
+    .update(users)
+    .set({
+      emailPreferences: sql`${users.emailPreferences} || jsonb_build_object(${verified.category}::text, false)`,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, verified.userId));
+  return verified.category;
+}
+
+// -----------------------------------------------------------------------------
+// Delivery
+// -----------------------------------------------------------------------------
+
+/** Whether a transport and the unsubscribe secret are both configured. */
+export function isMailConfigured(): boolean {
+  return getMailTransport() !== null && getUnsubscribeSecret() !== null;
+}
+
+async function sendToRecipient(
+  recipient: Recipient,
+  category: EmailCategory,
+  render: (footer: { reason: string; unsubscribeUrl: string; settingsUrl: string }) => RenderedEmail
+): Promise<boolean> {
+  const transport = getMailTransport();
+  if (!transport || !getUnsubscribeSecret()) return false;
+  if (!isEmailEnabled(recipient.emailPreferences, category)) return false;
+
+  const baseUrl = getBaseUrl();
+  const token = createUnsubscribeToken(recipient.id, category);
+  const unsubscribeUrl = `${baseUrl}/unsubscribe?token=${encodeURIComponent(token)}`;
+  const email = render({
+    reason: EMAIL_CATEGORY_OPTIONS[category].label.toLowerCase(),
+    unsubscribeUrl,
+    settingsUrl: `${baseUrl}/settings`,
+  });
+
+  await transport.send({
+    from: process.env.MAIL_FROM || "Promptexify <no-reply@promptexify.com>",
+    to: recipient.email,
+    ...email,
+    headers: {
+      // RFC 8058 one-click unsubscribe for mail clients
+      "List-Unsubscribe": `<${baseUrl}/api/v1/mail/unsubscribe?token=${encodeURIComponent(token)}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  });
+  return true;
+}
+
+const recipientColumns = {
+  id: users.id,
+  email: users.email,
+  name: users.name,
+  emailPreferences: users.emailPreferences,
+};
+
+// -----------------------------------------------------------------------------
+// Senders
+// -----------------------------------------------------------------------------
+
+/** Email an author how their submission was moderated. */
+export async function mailPostModerated({
+  postId,
+  postTitle,
+  authorId,
+  reviewerId,
+  decision,
+  note,
+}: {
+  postId: string;
+  postTitle: string;
+  authorId: string;
+  reviewerId: string;
+  decision: "APPROVED" | "REJECTED" | "CHANGES_REQUESTED";
+  note: string | null;
+}): Promise<void> {
+  if (authorId === reviewerId || !isMailConfigured()) return;
+
+  try {
+    const [author] = await db
+      .select(recipientColumns)
+      .from(users)
+      .where(and(eq(users.id, authorId), eq(users.disabled, false)))
+      .limit(1);
+    if (!author) return;
+
+    const path = {
+      APPROVED: `/entry/${postId}`,
+      REJECTED: "/inbox",
+      CHANGES_REQUESTED: `/posts/edit/${postId}`,
+    }[decision];
+
+    await sendToRecipient(author, "MODERATION", (footer) =>
+      moderationEmail({
+        name: author.name,
+        postTitle,
+        decision,
+        note,
+        url: `${getBaseUrl()}${path}`,
+        footer,
+      })
+    );
+  } catch (error) {
+    console.error("Error sending moderation email:", error);
+  }
+}
+
+/**
+ * Send each subscriber the prompts published since their last digest (at most
+ * a week back) in the categories of posts they starred. Users with nothing
+ * new are skipped without moving their cursor.
+ */
+export async function sendWeeklyDigests(now = new Date()): Promise<{ sent: number; failed: number }> {
+  const result = { sent: 0, failed: 0 };
+  if (!isMailConfigured()) return result;
+
+  const subscribers = await db
+    .selectDistinct({ ...recipientColumns, lastDigestSentAt: users.lastDigestSentAt })
+    .from(users)
+    .innerJoin(stars, eq(stars.userId, users.id))
+    .where(eq(users.disabled, false));
+
+  const baseUrl = getBaseUrl();
+  const windowStart = new Date(now.getTime() - DIGEST_WINDOW_MS);
+
+  for (const subscriber of subscribers) {
+    if (!isEmailEnabled(subscriber.emailPreferences, "WEEKLY_DIGEST")) continue;
+
+    try {
+      const since =
+        subscriber.lastDigestSentAt && subscriber.lastDigestSentAt > windowStart
+          ? subscriber.lastDigestSentAt
+          : windowStart;
+
+      const starredCategoryIds = db
+        .selectDistinct({ id: posts.categoryId })
+        .from(stars)
+        .innerJoin(posts, eq(stars.postId, posts.id))
+        .where(eq(stars.userId, subscriber.id));
+
+      const newPosts = await db
+        .select({
+          id: posts.id,
+          title: posts.title,
+          description: posts.description,
+          categoryName: categories.name,
+        })
+        .from(posts)
+        .leftJoin(categories, eq(posts.categoryId, categories.id))
+        .where(
+          and(
+            eq(posts.isPublished, true),
+            eq(posts.status, "APPROVED"),
+            gt(posts.createdAt, since),
+            lte(posts.createdAt, now),
+            ne(posts.authorId, subscriber.id),
+            inArray(posts.categoryId, starredCategoryIds)
+          )
+        )
+        .orderBy(desc(posts.trendingScore), desc(posts.createdAt))
+        .limit(DIGEST_MAX_POSTS);
+      if (newPosts.length === 0) continue;
+
+      const sent = await sendToRecipient(subscriber, "WEEKLY_DIGEST", (footer) =>
+        weeklyDigestEmail({
+          name: subscriber.name,
+          posts: newPosts.map((post) => ({
+            title: post.title,
+            description: post.description,
+            categoryName: post.categoryName,
+            url: `${baseUrl}/entry/${post.id}`,
+          })),
+          directoryUrl: `${baseUrl}/directory`,
+          footer,
+        })
+      );
+      if (sent) {
+        await db.update(users).set({ lastDigestSentAt: now }).where(eq(users.id, subscriber.id));
+        result.sent += 1;
+      }
+    } catch (error) {
+      result.failed += 1;
+      console.error(`Error sending weekly digest to user ${subscriber.id}:`, error);
+    }
+  }
+
+  return result;
+}
+
+/** Email every admin how many submissions are waiting for review, if any. */
+export async function sendPendingPostsSummary(): Promise<{ pendingCount: number; sent: number }> {
+  if (!isMailConfigured()) return { pendingCount: 0, sent: 0 };
+
+  const [{ count: pendingCount }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(posts)
+    .where(eq(posts.status, "PENDING_APPROVAL"));
+  if (pendingCount === 0) return { pendingCount, sent: 0 };
+
+  const oldest = await db
+    .select({ title: posts.title, authorName: users.name, submittedAt: posts.createdAt })
+    .from(posts)
+    .leftJoin(users, eq(posts.authorId, users.id))
+    .where(eq(posts.status, "PENDING_APPROVAL"))
+    .orderBy(asc(posts.createdAt))
+    .limit(PENDING_SUMMARY_MAX_POSTS);
+
+  const admins = await db
+    .select(recipientColumns)
+    .from(users)
+    .where(and(eq(users.role, "ADMIN"), eq(users.disabled, false)));
+
+  let sent = 0;
+  for (const admin of admins) {
+    try {
+      const delivered = await sendToRecipient(admin, "PENDING_SUMMARY", (footer) =>
+        pendingSummaryEmail({
+          name: admin.name,
+          pendingCount,
+          oldest,
+          queueUrl: `${getBaseUrl()}/posts?status=pending`,
+          footer,
+        })
+      );
+      if (delivered) sent += 1;
+    } catch (error) {
+      console.error(`Error sending pending summary to admin ${admin.id}:`, error);
+    }
+  }
+
+  return { pendingCount, sent };
+}
+
+/** Email every admin about a newly opened security alert. */
+export async function mailSecurityAlert(alert: {
+  title: string;
+  severity: string;
+  ruleName: string;
+  eventCount: number;
+}): Promise<number> {
+  if (!isMailConfigured()) return 0;
+
+  const admins = await db
+    .select(recipientColumns)
+    .from(users)
+    .where(and(eq(users.role, "ADMIN"), eq(users.disabled, false)));
+
+  let sent = 0;
+  for (const admin of admins) {
+    try {
+      const delivered = await sendToRecipient(admin, "SECURITY_ALERT", (footer) =>
+        securityAlertEmail({
+          name: admin.name,
+          ...alert,
+          alertsUrl: `${getBaseUrl()}/alerts`,
+          footer,
+        })
+      );
+      if (delivered) sent += 1;
+    } catch (error) {
+      console.error(`Error sending security alert to admin ${admin.id}:`, error);
+    }
+  }
+
+  return sent;
+}
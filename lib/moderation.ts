@@ -0,0 +1,71 @@
+import { db } from "@/lib/db";
+import { postModerations, posts, users } from "@/lib/db/schema";
+import type { PostStatus } from "@/lib/db/schema";
+import { count, desc, eq } from "drizzle-orm";
+
+export interface ModerationInboxItem {
+  id: string;
+  decision: PostStatus;
+  note: string | null;
+  createdAt: Date;
+  post: {
+    id: string;
+    title: string;
+    // Current status — may have moved on since the decision (e.g. resubmitted)
+    status: PostStatus;
+  };
+  reviewer: {
+    id: string;
+    name: string | null;
+  } | null;
+}
+
+/**
+ * Moderation decisions on an author's posts, newest first.
+ * Callers are responsible for passing the signed-in user's own id.
+ */
+export async function getModerationInbox(
+  authorId: string,
+  { page = 1, limit = 20 }: { page?: number; limit?: number } = {}
+): Promise<{ items: ModerationInboxItem[]; totalCount: number }> {
+  const safePage = Math.max(1, page);
+  const safeLimit = Math.max(1, Math.min(100, limit));
+
+  const [rows, [totals]] = await Promise.all([
+    db
+      .select({
+        id: postModerations.id,
+        decision: postModerations.decision,
+        note: postModerations.note,
+        createdAt: postModerations.createdAt,
+        postId: posts.id,
+        postTitle: posts.title,
+        postStatus: posts.status,
+        reviewerId: users.id,
+        reviewerName: users.name,
+      })
+      .from(postModerations)
+      .innerJoin(posts, eq(postModerations.postId, posts.id))
+      .leftJoin(users, eq(postModerations.reviewerId, users.id))
+      .where(eq(postModerations.authorId, authorId))
+      .orderBy(desc(postModerations.createdAt))
+      .limit(safeLimit)
+      .offset((safePage - 1) * safeLimit),
+    db
+      .select({ total: count() })
+      .from(postModerations)
+      .where(eq(postModerations.authorId, authorId)),
+  ]);
+
+  return {
+    items: rows.map((r) => ({
+      id: r.id,
+      decision: r.decision,
+      note: r.note,
+      createdAt: r.createdAt,
+      post: { id: r.postId, title: r.postTitle, status: r.postStatus },
+      reviewer: r.reviewerId ? { id: r.reviewerId, name: r.reviewerName } : null,
+    })),
+    totalCount: totals?.total ?? 0,
+  };
+}
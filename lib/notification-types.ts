@@ -0,0 +1,55 @@
+/**
+ * Notification types and per-type preferences. Pure so the bell dropdown and
+ * the settings form can share it with lib/notifications.ts.
+ */
+
+import type { NotificationType } from "@/lib/db/schema";
+
+export const NOTIFICATION_TYPES = [
+  "POST_APPROVED",
+  "POST_REJECTED",
+  "POST_CHANGES_REQUESTED",
+  "POST_STARRED",
+  "FOLLOWED_AUTHOR_POST",
+  "FOLLOWED_CATEGORY_POST",
+] as const satisfies readonly NotificationType[];
+
+export type NotificationPreferences = Partial<Record<NotificationType, boolean>>;
+
+export const NOTIFICATION_TYPE_OPTIONS: Record<
+  NotificationType,
+  { label: string; description: string }
+> = {
+  POST_APPROVED: {
+    label: "Post approved",
+    description: "A moderator approved and published one of your posts.",
+  },
+  POST_REJECTED: {
+    label: "Post rejected",
+    description: "A moderator rejected one of your submissions.",
+  },
+  POST_CHANGES_REQUESTED: {
+    label: "Changes requested",
+    description: "A moderator sent one of your submissions back with a note.",
+  },
+  POST_STARRED: {
+    label: "Stars on your posts",
+    description: "Someone starred one of your posts.",
+  },
+  FOLLOWED_AUTHOR_POST: {
+    label: "New posts from authors you follow",
+    description: "An author you follow published a new post.",
+  },
+  FOLLOWED_CATEGORY_POST: {
+    label: "New posts in categories you follow",
+    description: "A new post was published in a category you follow.",
+  },
+};
+
+/** Types are on unless the user switched them off. */
+export function isNotificationEnabled(
+  preferences: NotificationPreferences | null | undefined,
+  type: NotificationType
+): boolean {
+  return preferences?.[type] !== false;
+}
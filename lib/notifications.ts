@@ -0,0 +1,287 @@
+/**
+ * In-app notifications: producers called from the moderation, star and
+ * publish paths, plus the reads behind the header bell. Producers never
+ * throw — a failed notification must not fail the action that triggered it.
+ */
+
+import { db } from "@/lib/db";
+import {
+  categories,
+  categoryFollows,
+  follows,
+  notifications,
+  posts,
+  users,
+  type NotificationType,
+} from "@/lib/db/schema";
+import { isNotificationEnabled } from "@/lib/notification-types";
+import { and, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+
+export interface NotificationItem {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  url: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+  actor: { name: string | null; avatar: string | null } | null;
+}
+
+type NewNotification = typeof notifications.$inferInsert;
+
+// Followers are notified in batches so one popular author can't build a
+// single huge INSERT
+const FAN_OUT_BATCH_SIZE = 500;
+
+function quoted(title: string): string {
+  return `"${title.length > 80 ? `${title.slice(0, 79)}…` : title}"`;
+}
+
+/** Insert `rows`, dropping those whose recipient is disabled or opted out of the type. */
+async function deliver(rows: NewNotification[]): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  const recipientIds = [...new Set(rows.map((row) => row.userId))];
+  const recipients = await db
+    .select({ id: users.id, preferences: users.notificationPreferences })
+    .from(users)
+    .where(and(inArray(users.id, recipientIds), eq(users.disabled, false)));
+  const preferences = new Map(recipients.map((r) => [r.id, r.preferences]));
+
+  const deliverable = rows.filter(
+    (row) => preferences.has(row.userId) && isNotificationEnabled(preferences.get(row.userId), row.type)
+  );
+  for (let i = 0; i < deliverable.length; i += FAN_OUT_BATCH_SIZE) {
+    await db.insert(notifications).values(deliverable.slice(i, i + FAN_OUT_BATCH_SIZE));
+  }
+  return deliverable.length;
+}
+
+const MODERATION_TYPES = {
+  APPROVED: "POST_APPROVED",
+  REJECTED: "POST_REJECTED",
+  CHANGES_REQUESTED: "POST_CHANGES_REQUESTED",
+} as const satisfies Record<string, NotificationType>;
+
+/** Tell an author how their submission was moderated. */
+export async function notifyPostModerated({
+  postId,
+  postTitle,
+  authorId,
+  reviewerId,
+  decision,
+  note,
+}: {
+  postId: string;
+  postTitle: string;
+  authorId: string;
+  reviewerId: string;
+  decision: keyof typeof MODERATION_TYPES;
+  note: string | null;
+}): Promise<void> {
+  if (authorId === reviewerId) return;
+
+  const titles: Record<keyof typeof MODERATION_TYPES, string> = {
+    APPROVED: `Your post ${quoted(postTitle)} was approved`,
+    REJECTED: `Your post ${quoted(postTitle)} was rejected`,
+    CHANGES_REQUESTED: `Changes requested on ${quoted(postTitle)}`,
+  };
+
+  try {
+    await deliver([
+      {
+        userId: authorId,
+        type: MODERATION_TYPES[decision],
+        title: titles[decision],
+        body: note,
+        url: decision === "APPROVED" ? `/entry/${postId}` : "/inbox",
+        actorId: reviewerId,
+        postId,
+      },
+    ]);
+  } catch (error) {
+    console.error("Error creating moderation notification:", error);
+  }
+}
+
+/**
+ * Tell an author someone starred their post. Only the first star from each
+ * user on a post notifies, so unstar/star toggling doesn't repeat it.
+ */
+export async function notifyPostStarred({
+  postId,
+  actorId,
+}: {
+  postId: string;
+  actorId: string;
+}): Promise<void> {
+  try {
+    const [post] = await db
+      .select({ title: posts.title, authorId: posts.authorId })
+      .from(posts)
+      .where(eq(posts.id, postId))
+      .limit(1);
+    if (!post || post.authorId === actorId) return;
+
+    const [existing] = await db
+      .select({ id: notifications.id })
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.postId, postId),
+          eq(notifications.type, "POST_STARRED"),
+          eq(notifications.actorId, actorId)
+        )
+      )
+      .limit(1);
+    if (existing) return;
+
+    const [actor] = await db
+      .select({ name: users.name })
+      .from(users)
+      .where(eq(users.id, actorId))
+      .limit(1);
+
+    await deliver([
+      {
+        userId: post.authorId,
+        type: "POST_STARRED",
+        title: `${actor?.name || "Someone"} starred ${quoted(post.title)}`,
+        url: `/entry/${postId}`,
+        actorId,
+        postId,
+      },
+    ]);
+  } catch (error) {
+    console.error("Error creating star notification:", error);
+  }
+}
+
+/**
+ * Tell an author's followers, and followers of the post's category (or its
+ * parent category), about a newly published post. Someone following both
+ * gets the author notification only. Runs once per post: publishing again
+ * after an unpublish doesn't notify a second time.
+ */
+export async function notifyFollowersOfNewPost(postId: string): Promise<void> {
+  try {
+    const [post] = await db
+      .select({
+        title: posts.title,
+        description: posts.description,
+        authorId: posts.authorId,
+        isPublished: posts.isPublished,
+        authorName: users.name,
+        categoryId: posts.categoryId,
+        categoryName: categories.name,
+        parentCategoryId: categories.parentId,
+      })
+      .from(posts)
+      .leftJoin(users, eq(posts.authorId, users.id))
+      .leftJoin(categories, eq(posts.categoryId, categories.id))
+      .where(eq(posts.id, postId))
+      .limit(1);
+    if (!post?.isPublished) return;
+
+    const [alreadySent] = await db
+      .select({ id: notifications.id })
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.postId, postId),
+          inArray(notifications.type, ["FOLLOWED_AUTHOR_POST", "FOLLOWED_CATEGORY_POST"])
+        )
+      )
+      .limit(1);
+    if (alreadySent) return;
+
+    const authorFollowers = await db
+      .select({ id: follows.followerId })
+      .from(follows)
+      .where(eq(follows.followingId, post.authorId));
+
+    const categoryIds = [post.categoryId, post.parentCategoryId].filter((id): id is string => !!id);
+    const categoryFollowers = await db
+      .selectDistinct({ id: categoryFollows.userId })
+      .from(categoryFollows)
+      .where(inArray(categoryFollows.categoryId, categoryIds));
+
+    const notified = new Set([post.authorId, ...authorFollowers.map((follower) => follower.id)]);
+    const rows: NewNotification[] = authorFollowers.map((follower) => ({
+      userId: follower.id,
+      type: "FOLLOWED_AUTHOR_POST" as const,
+      title: `${post.authorName || "An author you follow"} published ${quoted(post.title)}`,
+      body: post.description,
+      url: `/entry/${postId}`,
+      actorId: post.authorId,
+      postId,
+    }));
+    for (const follower of categoryFollowers) {
+      if (notified.has(follower.id)) continue;
+      rows.push({
+        userId: follower.id,
+        type: "FOLLOWED_CATEGORY_POST",
+        title: `New in ${post.categoryName || "a category you follow"}: ${quoted(post.title)}`,
+        body: post.description,
+        url: `/entry/${postId}`,
+        actorId: post.authorId,
+        postId,
+      });
+    }
+
+    await deliver(rows);
+  } catch (error) {
+    console.error("Error creating follower notifications:", error);
+  }
+}
+
+/** The user's most recent notifications, newest first. */
+export async function getNotifications(userId: string, limit = 20): Promise<NotificationItem[]> {
+  const rows = await db
+    .select({
+      id: notifications.id,
+      type: notifications.type,
+      title: notifications.title,
+      body: notifications.body,
+      url: notifications.url,
+      readAt: notifications.readAt,
+      createdAt: notifications.createdAt,
+      actorName: users.name,
+      actorAvatar: users.avatar,
+      actorId: notifications.actorId,
+    })
+    .from(notifications)
+    .leftJoin(users, eq(notifications.actorId, users.id))
+    .where(eq(notifications.userId, userId))
+    .orderBy(desc(notifications.createdAt))
+    .limit(limit);
+
+  return rows.map(({ actorName, actorAvatar, actorId, ...row }) => ({
+    ...row,
+    actor: actorId ? { name: actorName, avatar: actorAvatar } : null,
+  }));
+}
+
+export async function getUnreadNotificationCount(userId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  return row?.count ?? 0;
+}
+
+/** Mark the given notifications (or all of them) read; returns how many changed. */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+  if (ids && ids.length === 0) return 0;
+
+  const conditions = [eq(notifications.userId, userId), isNull(notifications.readAt)];
+  if (ids) conditions.push(inArray(notifications.id, ids));
+
+  const updated = await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(and(...conditions))
+    .returning({ id: notifications.id });
+  return updated.length;
+}
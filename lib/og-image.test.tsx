@@ -0,0 +1,177 @@
+/**
+ * Snapshot tests for the Open Graph cards (lib/og-image.tsx): each fixture is
+ * rendered to PNG and compared byte-for-byte with lib/__snapshots__/og-image.
+ * Run with: npx tsx lib/og-image.test.tsx
+ * Update snapshots after an intentional design change with:
+ *   UPDATE_SNAPSHOTS=1 npx tsx lib/og-image.test.tsx
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  blogOgCard,
+  categoryOgCard,
+  postOgCard,
+  renderOgImage,
+  siteOgCard,
+  tagOgCard,
+  type OgCardData,
+  type OgPostInput,
+} from "./og-image";
+
+const SNAPSHOT_DIR = path.resolve(__dirname, "__snapshots__/og-image");
+const UPDATE = process.env.UPDATE_SNAPSHOTS === "1";
+
+// 1×1 PNG so the avatar path renders without network access
+const AVATAR =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+const basePost: OgPostInput = {
+  title: "TypeScript strict-mode Cursor rule",
+  description: "Keeps generated code inside strict mode and bans any.",
+  content: [
+    "---",
+    "description: TypeScript conventions",
+    "globs: src/**/*.ts",
+    "alwaysApply: false",
+    "---",
+    "",
+    "- Always enable `strict` in tsconfig.json",
+    "- Never use `any`; prefer `unknown` and narrow",
+    "- Export types next to the functions that use them",
+  ].join("\n"),
+  kind: "CURSOR_RULE",
+  isPremium: false,
+  createdAt: "2026-03-14T09:30:00.000Z",
+  category: { name: "TypeScript", parent: { name: "Languages" } },
+  tags: [{ name: "typescript" }, { name: "strict" }, { name: "linting" }],
+  author: { name: "Ada Lovelace", avatar: AVATAR },
+  _count: { stars: 42 },
+};
+
+const FIXTURES: Record<string, OgCardData> = {
+  "post": postOgCard(basePost),
+  "post-premium": postOgCard({
+    ...basePost,
+    title: "Production-grade MCP server for Postgres with read replicas",
+    kind: "MCP_CONFIG",
+    isPremium: true,
+    author: { name: "Grace Hopper", avatar: null },
+    _count: { stars: 1 },
+  }),
+  "blog": blogOgCard({
+    title: "Writing Cursor rules that survive a refactor",
+    excerpt: "How we scope globs, keep rules short, and test them against real diffs.",
+    readingTime: 7,
+    publishedAt: "2026-05-02T00:00:00.000Z",
+    tags: [{ name: "cursor" }, { name: "rules" }],
+    author: { name: "Promptexify Team", avatar: null },
+  }),
+  "category": categoryOgCard({
+    name: "Claude Code",
+    description: "Skills, hooks and AGENTS.md files for Claude Code.",
+    parentName: "Agents",
+    postCount: 128,
+    topTags: ["skills", "hooks", "agents"],
+  }),
+  "tag": tagOgCard({ name: "mcp", postCount: 57, articleCount: 3 }),
+  "site": siteOgCard(
+    "Promptexify — Cursor Rules, MCP & Claude Code Prompts",
+    "The largest directory of Cursor rules, MCP configs, Claude Code skills, and AI coding prompts."
+  ),
+};
+
+let passedTests = 0;
+let totalTests = 0;
+
+function check(testName: string, passed: boolean, details?: string) {
+  totalTests += 1;
+  passedTests += passed ? 1 : 0;
+  console.log(`${passed ? "✅" : "❌"} ${testName}`);
+  if (!passed && details) console.log(`  ${details}`);
+}
+
+async function runTests() {
+  console.log("🖼️  Open Graph card tests\n");
+
+  // --- Mappers ---------------------------------------------------------------
+  console.log("🧩 Mappers:");
+  const post = FIXTURES.post;
+  check("post badge is the kind label", post.badge === "Cursor Rule");
+  check("post category includes its parent", post.category === "Languages / TypeScript");
+  check(
+    "post snippet drops the frontmatter block",
+    !!post.snippet && post.snippet.startsWith("- Always enable") && !post.snippet.includes("globs:")
+  );
+  check("post stats lead with the star count", post.stats[0] === "42 stars");
+  check("premium post has no content snippet", FIXTURES["post-premium"].snippet === null);
+  check("premium post is labelled", FIXTURES["post-premium"].stats.includes("Premium"));
+  check("singular star count", FIXTURES["post-premium"].stats[0] === "1 star");
+  check(
+    "tag card counts posts and articles",
+    FIXTURES.tag.stats.join("|") === "57 posts|3 articles"
+  );
+  check(
+    "tag card omits an empty article count",
+    tagOgCard({ name: "x", postCount: 2, articleCount: 0 }).stats.join("|") === "2 posts"
+  );
+  check(
+    "blog card shows date and reading time",
+    FIXTURES.blog.stats.join("|") === "May 2, 2026|7 min read"
+  );
+  check(
+    "post without an author name has no author block",
+    postOgCard({ ...basePost, author: { name: null, avatar: AVATAR } }).author === null
+  );
+  console.log();
+
+  // --- Rendered snapshots ----------------------------------------------------
+  console.log("📸 Snapshots:");
+  if (UPDATE) mkdirSync(SNAPSHOT_DIR, { recursive: true });
+
+  for (const [name, data] of Object.entries(FIXTURES)) {
+    const image = await renderOgImage(data);
+    const png = Buffer.from(await image.arrayBuffer());
+    const file = path.join(SNAPSHOT_DIR, `${name}.png`);
+
+    if (UPDATE) {
+      writeFileSync(file, png);
+      check(`${name} snapshot written`, true);
+      continue;
+    }
+    if (!existsSync(file)) {
+      check(`${name} matches its snapshot`, false, `Missing ${file}; run with UPDATE_SNAPSHOTS=1`);
+      continue;
+    }
+
+    const matches = readFileSync(file).equals(png);
+    let details: string | undefined;
+    if (!matches) {
+      const actual = path.join(tmpdir(), `og-${name}.actual.png`);
+      writeFileSync(actual, png);
+      details = `Rendered image differs; see ${actual}`;
+    }
+    check(`${name} matches its snapshot`, matches, details);
+  }
+
+  console.log();
+  console.log(`📊 Test Results: ${passedTests}/${totalTests} tests passed`);
+
+  if (passedTests === totalTests) {
+    console.log("🎉 All tests passed! The OG cards match their snapshots.");
+  } else {
+    console.log("⚠️ Some tests failed. Please review the output above.");
+    process.exitCode = 1;
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
+
+export { runTests };
@@ -0,0 +1,432 @@
+/**
+ * Shared Open Graph card — one 1200×630 template for posts, blog articles,
+ * categories, tags and the site default. The `*OgCard` mappers are pure so
+ * lib/og-image.test.tsx can snapshot the rendered PNGs from fixtures.
+ */
+
+import { ImageResponse } from "next/og";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { PostKind } from "@/lib/db/schema";
+import { parseFrontmatter, POST_KIND_LABELS } from "@/lib/post-kinds";
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+export type OgVariant = "post" | "blog" | "category" | "tag" | "site";
+
+export interface OgCardData {
+  variant: OgVariant;
+  /** Pill in the top-right corner (post kind, "Blog", "Category", …) */
+  badge: string;
+  title: string;
+  subtitle: string | null;
+  /** Monospace excerpt of a post's content; null for premium posts */
+  snippet: string | null;
+  category: string | null;
+  tags: string[];
+  author: { name: string; avatarUrl: string | null } | null;
+  /** Footer facts, e.g. "12 stars", "5 min read", a date */
+  stats: string[];
+}
+
+const ACCENTS: Record<OgVariant, { solid: string; text: string; tint: string }> = {
+  post: { solid: "#3b82f6", text: "#60a5fa", tint: "59, 130, 246" },
+  blog: { solid: "#8b5cf6", text: "#a78bfa", tint: "139, 92, 246" },
+  category: { solid: "#10b981", text: "#34d399", tint: "16, 185, 129" },
+  tag: { solid: "#f59e0b", text: "#fbbf24", tint: "245, 158, 11" },
+  site: { solid: "#3b82f6", text: "#60a5fa", tint: "59, 130, 246" },
+};
+
+function truncate(text: string, max: number): string {
+  const clean = text.trim();
+  return clean.length > max ? clean.slice(0, max - 1).trimEnd() + "…" : clean;
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+// First lines of the prompt body, without a rule/skill frontmatter block
+function contentSnippet(content: string): string | null {
+  let body = content;
+  try {
+    body = parseFrontmatter(content).body;
+  } catch {
+    // malformed frontmatter — show the raw text
+  }
+  const lines = body.replace(/\n{3,}/g, "\n\n").trim().split("\n").slice(0, 6);
+  const snippet = truncate(lines.map((line) => truncate(line, 80)).join("\n"), 320);
+  return snippet || null;
+}
+
+// ---------------------------------------------------------------------------
+// Mappers
+// ---------------------------------------------------------------------------
+
+export interface OgPostInput {
+  title: string;
+  description: string | null;
+  content?: string;
+  kind: PostKind;
+  isPremium: boolean;
+  createdAt: Date | string;
+  category: { name: string; parent: { name: string } | null } | null;
+  tags: { name: string }[];
+  author: { name: string | null; avatar: string | null } | null;
+  _count: { stars: number };
+}
+
+export function postOgCard(post: OgPostInput): OgCardData {
+  const category = post.category
+    ? post.category.parent
+      ? `${post.category.parent.name} / ${post.category.name}`
+      : post.category.name
+    : null;
+
+  return {
+    variant: "post",
+    badge: POST_KIND_LABELS[post.kind],
+    title: post.title,
+    subtitle: post.description ? truncate(post.description, 140) : null,
+    snippet: !post.isPremium && post.content ? contentSnippet(post.content) : null,
+    category,
+    tags: post.tags.slice(0, 4).map((t) => t.name),
+    author: post.author?.name ? { name: post.author.name, avatarUrl: post.author.avatar } : null,
+    stats: [
+      plural(post._count.stars, "star"),
+      ...(post.isPremium ? ["Premium"] : []),
+      formatDate(post.createdAt),
+    ],
+  };
+}
+
+export interface OgBlogInput {
+  title: string;
+  excerpt: string | null;
+  readingTime: number | null;
+  publishedAt: Date | string | null;
+  tags: { name: string }[];
+  author: { name: string | null; avatar?: string | null } | null;
+}
+
+export function blogOgCard(article: OgBlogInput): OgCardData {
+  return {
+    variant: "blog",
+    badge: "Blog",
+    title: article.title,
+    subtitle: article.excerpt ? truncate(article.excerpt, 160) : null,
+    snippet: null,
+    category: null,
+    tags: article.tags.slice(0, 4).map((t) => t.name),
+    author: article.author?.name
+      ? { name: article.author.name, avatarUrl: article.author.avatar ?? null }
+      : null,
+    stats: [
+      ...(article.publishedAt ? [formatDate(article.publishedAt)] : []),
+      ...(article.readingTime ? [`${article.readingTime} min read`] : []),
+    ],
+  };
+}
+
+export interface OgCategoryInput {
+  name: string;
+  description: string | null;
+  parentName: string | null;
+  postCount: number;
+  topTags: string[];
+}
+
+export function categoryOgCard(category: OgCategoryInput): OgCardData {
+  return {
+    variant: "category",
+    badge: "Category",
+    title: category.name,
+    subtitle: category.description ? truncate(category.description, 160) : null,
+    snippet: null,
+    category: category.parentName,
+    tags: category.topTags.slice(0, 4),
+    author: null,
+    stats: [plural(category.postCount, "post")],
+  };
+}
+
+export interface OgTagInput {
+  name: string;
+  postCount: number;
+  articleCount: number;
+}
+
+export function tagOgCard(tag: OgTagInput): OgCardData {
+  return {
+    variant: "tag",
+    badge: "Tag",
+    title: `#${tag.name}`,
+    subtitle: null,
+    snippet: null,
+    category: null,
+    tags: [],
+    author: null,
+    stats: [
+      plural(tag.postCount, "post"),
+      ...(tag.articleCount > 0 ? [plural(tag.articleCount, "article")] : []),
+    ],
+  };
+}
+
+export function siteOgCard(title: string, description: string): OgCardData {
+  return {
+    variant: "site",
+    badge: "Directory",
+    title,
+    subtitle: description,
+    snippet: null,
+    category: null,
+    tags: ["Cursor Rules", "Claude Code", "MCP Configs", "AI Prompts"],
+    author: null,
+    stats: [],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Template
+// ---------------------------------------------------------------------------
+
+function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]?.toUpperCase() ?? "")
+    .join("");
+}
+
+export function OgCard({ data }: { data: OgCardData }) {
+  const accent = ACCENTS[data.variant];
+  const titleSize = data.title.length > 60 ? 44 : data.snippet ? 48 : 56;
+
+  return (
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        padding: "56px 70px",
+        background: "linear-gradient(135deg, #0f172a 0%, #1e293b 50%, #0f172a 100%)",
+        fontFamily: "GeistMono",
+      }}
+    >
+      {/* Header: brand, category and badge */}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+          <div
+            style={{
+              width: "36px",
+              height: "36px",
+              background: "linear-gradient(135deg, #3b82f6, #8b5cf6)",
+              borderRadius: "8px",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+            }}
+          >
+            <span style={{ color: "white", fontSize: "20px", fontWeight: 700 }}>P</span>
+          </div>
+          <span style={{ fontSize: 22, fontWeight: 400, color: "#94a3b8", letterSpacing: "-0.02em" }}>
+            promptexify.com
+          </span>
+          {data.category && (
+            <span style={{ fontSize: 20, fontWeight: 400, color: "#64748b", marginLeft: "8px" }}>
+              / {truncate(data.category, 40)}
+            </span>
+          )}
+        </div>
+        <div
+          style={{
+            display: "flex",
+            background: `rgba(${accent.tint}, 0.15)`,
+            border: `1px solid rgba(${accent.tint}, 0.35)`,
+            borderRadius: "9999px",
+            padding: "6px 18px",
+            color: accent.text,
+            fontSize: 18,
+            fontWeight: 400,
+          }}
+        >
+          {data.badge}
+        </div>
+      </div>
+
+      {/* Title, subtitle, snippet and tag chips */}
+      <div style={{ display: "flex", flexDirection: "column", gap: "18px", maxWidth: "92%" }}>
+        <div
+          style={{
+            fontSize: titleSize,
+            fontWeight: 700,
+            color: "#f8fafc",
+            lineHeight: 1.15,
+            letterSpacing: "-0.03em",
+            wordBreak: "break-word",
+          }}
+        >
+          {truncate(data.title, 110)}
+        </div>
+        {data.subtitle && !data.snippet && (
+          <div style={{ display: "flex", fontSize: 22, fontWeight: 400, color: "#94a3b8", lineHeight: 1.4 }}>
+            {data.subtitle}
+          </div>
+        )}
+        {data.snippet && (
+          <div
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              background: "rgba(15, 23, 42, 0.8)",
+              border: "1px solid rgba(148, 163, 184, 0.2)",
+              borderLeft: `4px solid ${accent.solid}`,
+              borderRadius: "8px",
+              padding: "14px 20px",
+              maxHeight: "168px",
+              overflow: "hidden",
+            }}
+          >
+            {data.snippet.split("\n").map((line, i) => (
+              <div key={i} style={{ display: "flex", fontSize: 17, color: "#cbd5e1", lineHeight: 1.45, minHeight: "24px" }}>
+                {line}
+              </div>
+            ))}
+          </div>
+        )}
+        {data.tags.length > 0 && (
+          <div style={{ display: "flex", gap: "10px", flexWrap: "wrap" }}>
+            {data.tags.map((tag) => (
+              <div
+                key={tag}
+                style={{
+                  display: "flex",
+                  background: "rgba(148, 163, 184, 0.1)",
+                  border: "1px solid rgba(148, 163, 184, 0.2)",
+                  borderRadius: "6px",
+                  padding: "4px 12px",
+                  color: "#94a3b8",
+                  fontSize: 16,
+                  fontWeight: 400,
+                }}
+              >
+                #{truncate(tag, 24)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Footer: author and stats */}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-end", width: "100%" }}>
+        <div style={{ display: "flex", alignItems: "center", gap: "16px" }}>
+          {data.author && (
+            <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+              {data.author.avatarUrl ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={data.author.avatarUrl}
+                  alt=""
+                  width={40}
+                  height={40}
+                  style={{ borderRadius: "9999px", border: `2px solid ${accent.solid}` }}
+                />
+              ) : (
+                <div
+                  style={{
+                    width: "40px",
+                    height: "40px",
+                    borderRadius: "9999px",
+                    background: `rgba(${accent.tint}, 0.25)`,
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "center",
+                    color: accent.text,
+                    fontSize: 16,
+                    fontWeight: 700,
+                  }}
+                >
+                  {initials(data.author.name)}
+                </div>
+              )}
+              <span style={{ fontSize: 20, fontWeight: 400, color: "#cbd5e1" }}>{truncate(data.author.name, 32)}</span>
+            </div>
+          )}
+          {data.stats.map((stat) => (
+            <div key={stat} style={{ display: "flex", fontSize: 17, fontWeight: 400, color: "#64748b" }}>
+              {stat}
+            </div>
+          ))}
+        </div>
+        <div style={{ display: "flex", fontSize: 42, color: accent.solid }}>→</div>
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+const FONT_DIR = join(process.cwd(), "node_modules/geist/dist/fonts/geist-mono");
+let fontsPromise: Promise<[Buffer, Buffer]> | null = null;
+
+function loadFonts() {
+  fontsPromise ??= Promise.all([
+    readFile(join(FONT_DIR, "GeistMono-Bold.ttf")),
+    readFile(join(FONT_DIR, "GeistMono-Regular.ttf")),
+  ]);
+  return fontsPromise;
+}
+
+// Satori decodes PNG, JPEG and GIF only
+const AVATAR_TYPES = ["image/png", "image/jpeg", "image/gif"];
+
+/**
+ * Inline a remote avatar as a data URI so a slow or broken avatar host falls
+ * back to initials instead of failing the whole image.
+ */
+async function inlineAvatar(url: string | null): Promise<string | null> {
+  if (!url) return null;
+  if (url.startsWith("data:image/")) return url;
+  if (!/^https:\/\//.test(url)) return null;
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(2000) });
+    const type = res.headers.get("content-type")?.split(";")[0]?.trim() ?? "";
+    if (!res.ok || !AVATAR_TYPES.includes(type)) return null;
+    const bytes = Buffer.from(await res.arrayBuffer());
+    if (bytes.length > 512 * 1024) return null;
+    return `data:${type};base64,${bytes.toString("base64")}`;
+  } catch {
+    return null;
+  }
+}
+
+export async function renderOgImage(data: OgCardData): Promise<ImageResponse> {
+  const [[bold, regular], avatarUrl] = await Promise.all([
+    loadFonts(),
+    inlineAvatar(data.author?.avatarUrl ?? null),
+  ]);
+  const card = data.author ? { ...data, author: { ...data.author, avatarUrl } } : data;
+
+  return new ImageResponse(<OgCard data={card} />, {
+    ...OG_IMAGE_SIZE,
+    fonts: [
+      { name: "GeistMono", data: bold, style: "normal", weight: 700 },
+      { name: "GeistMono", data: regular, style: "normal", weight: 400 },
+    ],
+  });
+}
@@ -0,0 +1,290 @@
+/**
+ * Drift tests for the OpenAPI document (lib/openapi.ts) against the routes
+ * under app/api/v1 and the zod schemas they validate with.
+ * Run with: npx tsx lib/openapi.test.ts
+ */
+
+import { readFileSync, readdirSync, statSync } from "node:fs";
+import path from "node:path";
+import type { ZodTypeAny } from "zod";
+import * as schemas from "./schemas";
+import {
+  API_OPERATIONS,
+  buildOpenApiDocument,
+  routeToPath,
+  zodToJsonSchema,
+  type JsonSchema,
+} from "./openapi";
+
+const API_DIR = path.resolve(__dirname, "../app/api/v1");
+
+// Routes deliberately left out of the public contract
+const UNDOCUMENTED_ROUTES = new Set([
+  "admin/audit-logs",
+  "admin/audit-logs/export",
+  "admin/blog/export",
+  "admin/check-expired-subscriptions",
+  "admin/cleanup-uploads",
+  "admin/csrf-health",
+  "admin/debug/posts-api",
+  "admin/diagnose-subscriptions",
+  "admin/pending-summary",
+  "admin/publish-scheduled",
+  "admin/redis-status",
+  "admin/refresh-trending",
+  "admin/security/dashboard",
+  "admin/security/events",
+  "admin/security/stats",
+  "admin/send-digests",
+  "analytics",
+  "analytics/collect",
+  "csrf",
+  "mail/unsubscribe",
+  "security/csp-debug",
+  "security/csp-report",
+  "settings/caches",
+]);
+
+const HTTP_METHODS = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE"];
+
+let passedTests = 0;
+let totalTests = 0;
+
+function check(testName: string, passed: boolean, details?: string) {
+  totalTests += 1;
+  passedTests += passed ? 1 : 0;
+  console.log(`${passed ? "✅" : "❌"} ${testName}`);
+  if (!passed && details) console.log(`  ${details}`);
+}
+
+function sameSet(a: string[], b: string[]) {
+  return a.length === b.length && [...a].sort().join() === [...b].sort().join();
+}
+
+function findRoutes(dir: string, prefix = ""): string[] {
+  return readdirSync(dir).flatMap((entry) => {
+    const full = path.join(dir, entry);
+    if (statSync(full).isDirectory()) {
+      return findRoutes(full, prefix ? `${prefix}/${entry}` : entry);
+    }
+    return entry === "route.ts" ? [prefix] : [];
+  });
+}
+
+/** Exported handlers of a route file, minus 405 "Method not allowed" stubs. */
+function readHandlers(route: string): Map<string, string> {
+  const source = readFileSync(path.join(API_DIR, route, "route.ts"), "utf8");
+  const exportPattern = /export async function (\w+)\s*\(/g;
+  const starts = [...source.matchAll(exportPattern)];
+  const handlers = new Map<string, string>();
+
+  starts.forEach((match, i) => {
+    const name = match[1];
+    if (!HTTP_METHODS.includes(name)) return;
+    const body = source.slice(match.index, starts[i + 1]?.index ?? source.length);
+    if (/status:\s*405/.test(body)) return;
+    handlers.set(name, body);
+  });
+
+  // Shared handler bodies (e.g. GET and HEAD both calling one function) are
+  // checked against the whole file
+  for (const [name, body] of handlers) {
+    if (!/\.(safe)?[pP]arse\(/.test(body)) handlers.set(name, source);
+  }
+  return handlers;
+}
+
+/** lib/schemas exports a handler validates with (`xSchema.parse(…)` / `.safeParse(…)`). */
+function validatorsUsed(body: string): string[] {
+  const names = [...body.matchAll(/\b(\w+Schema)\.(?:safeParse|parse)\(/g)].map((m) => m[1]);
+  return [...new Set(names)].filter((name) => name in schemas);
+}
+
+function schemaExportName(schema: ZodTypeAny): string | undefined {
+  return Object.entries(schemas).find(([, value]) => value === schema)?.[0];
+}
+
+/** A value that satisfies `schema` (the subset of JSON Schema zodToJsonSchema emits). */
+function sampleFor(schema: JsonSchema): unknown {
+  if ("default" in schema) return schema.default;
+  if ("const" in schema) return schema.const;
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  if (Array.isArray(schema.anyOf)) return sampleFor(schema.anyOf[0] as JsonSchema);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object": {
+      const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, value]) => [key, sampleFor(value)])
+      );
+    }
+    case "array": {
+      const count = typeof schema.minItems === "number" ? schema.minItems : 0;
+      return Array.from({ length: count }, () => sampleFor(schema.items as JsonSchema));
+    }
+    case "integer":
+    case "number":
+      return typeof schema.minimum === "number" ? schema.minimum : 1;
+    case "boolean":
+      return true;
+    case "string": {
+      if (schema.format === "uuid") return "3f1c2b9e-8d4a-4c5b-9a6e-1f2d3c4b5a69";
+      if (schema.format === "email") return "user@example.com";
+      if (schema.format === "date-time") return new Date(0).toISOString();
+      const minLength = typeof schema.minLength === "number" ? schema.minLength : 0;
+      const value = "sample".padEnd(minLength, "x");
+      return typeof schema.maxLength === "number" ? value.slice(0, schema.maxLength) : value;
+    }
+    default:
+      return null;
+  }
+}
+
+async function runTests() {
+  console.log("🧪 Running OpenAPI drift tests...\n");
+
+  const document = buildOpenApiDocument();
+  const paths = document.paths as Record<string, Record<string, JsonSchema>>;
+  const components = (document.components as { schemas: Record<string, JsonSchema> }).schemas;
+
+  // --- Document structure ---------------------------------------------------
+  console.log("📄 Document:");
+  check("declares OpenAPI 3.1", document.openapi === "3.1.0");
+
+  const operationIds = API_OPERATIONS.map((op) => op.operationId);
+  check("operationIds are unique", new Set(operationIds).size === operationIds.length);
+
+  const refs = [...JSON.stringify(document).matchAll(/"\$ref":"#\/components\/schemas\/(\w+)"/g)];
+  const missingRefs = refs.map((m) => m[1]).filter((name) => !components[name]);
+  check("every $ref resolves", missingRefs.length === 0, `Missing: ${missingRefs.join(", ")}`);
+
+  for (const [pathName, operations] of Object.entries(paths)) {
+    const templateParams = [...pathName.matchAll(/\{(\w+)\}/g)].map((m) => m[1]);
+    for (const [method, operation] of Object.entries(operations)) {
+      const declared = ((operation.parameters ?? []) as JsonSchema[])
+        .filter((p) => p.in === "path")
+        .map((p) => String(p.name));
+      check(
+        `${method.toUpperCase()} ${pathName} declares its path parameters`,
+        sameSet(templateParams, declared),
+        `Template: ${templateParams.join(", ")}; declared: ${declared.join(", ")}`
+      );
+    }
+  }
+  console.log();
+
+  // --- Routes on disk vs. documented routes -----------------------------------
+  console.log("🗂️  Routes:");
+  const routesOnDisk = findRoutes(API_DIR);
+  const documentedRoutes = new Set(API_OPERATIONS.map((op) => op.route));
+
+  const unaccounted = routesOnDisk.filter(
+    (route) => !documentedRoutes.has(route) && !UNDOCUMENTED_ROUTES.has(route)
+  );
+  check(
+    "every route is documented or explicitly excluded",
+    unaccounted.length === 0,
+    `Add to API_OPERATIONS (lib/openapi.ts) or UNDOCUMENTED_ROUTES: ${unaccounted.join(", ")}`
+  );
+
+  const missing = [...documentedRoutes].filter((route) => !routesOnDisk.includes(route));
+  check("every documented route exists", missing.length === 0, `Missing: ${missing.join(", ")}`);
+  console.log();
+
+  // --- Methods and validation schemas per route -------------------------------
+  console.log("🔍 Handlers:");
+  for (const route of [...documentedRoutes].filter((r) => routesOnDisk.includes(r))) {
+    const handlers = readHandlers(route);
+    const documented = API_OPERATIONS.filter((op) => op.route === route);
+
+    check(
+      `${routeToPath(route)} documents exactly its implemented methods`,
+      sameSet(
+        [...handlers.keys()],
+        documented.map((op) => op.method.toUpperCase())
+      ),
+      `Implemented: ${[...handlers.keys()].join(", ")}; documented: ${documented
+        .map((op) => op.method.toUpperCase())
+        .join(", ")}`
+    );
+
+    for (const op of documented) {
+      const body = handlers.get(op.method.toUpperCase());
+      if (!body) continue;
+      const used = validatorsUsed(body);
+      const published = [op.query, op.body]
+        .filter((s): s is ZodTypeAny => Boolean(s))
+        .map((s) => schemaExportName(s) ?? "(not exported from lib/schemas)");
+      check(
+        `${op.method.toUpperCase()} ${routeToPath(route)} publishes the schemas it validates with`,
+        sameSet(used, published),
+        `Route validates with: [${used.join(", ")}]; spec uses: [${published.join(", ")}]`
+      );
+    }
+  }
+  console.log();
+
+  // --- Published schemas accept what they describe ----------------------------
+  console.log("🔁 Round trip:");
+  for (const op of API_OPERATIONS) {
+    const label = `${op.method.toUpperCase()} ${routeToPath(op.route)}`;
+
+    if (op.body) {
+      const json = zodToJsonSchema(op.body);
+      const sample = sampleFor(json) as Record<string, unknown>;
+      const result = op.body.safeParse(sample);
+      check(
+        `${label} body accepts a sample built from the spec`,
+        result.success,
+        `Sample ${JSON.stringify(sample)}: ${result.success ? "" : result.error.message}`
+      );
+
+      for (const field of (json.required ?? []) as string[]) {
+        const withoutField = { ...sample };
+        delete withoutField[field];
+        check(
+          `${label} body rejects a missing required "${field}"`,
+          !op.body.safeParse(withoutField).success
+        );
+      }
+    }
+
+    if (op.query) {
+      for (const [name, value] of Object.entries(op.query.shape as Record<string, ZodTypeAny>)) {
+        const json = zodToJsonSchema(value);
+        // Query strings only carry strings
+        const values = Array.isArray(json.enum) ? json.enum : [sampleFor(json)];
+        const rejected = values.filter((v) => {
+          const parsed = op.query!.safeParse({ [name]: String(v) });
+          return !parsed.success || parsed.data[name] === undefined;
+        });
+        check(
+          `${label} query "${name}" accepts its documented values`,
+          rejected.length === 0,
+          `Dropped or rejected: ${rejected.join(", ")}`
+        );
+      }
+    }
+  }
+
+  console.log();
+  console.log(`📊 Test Results: ${passedTests}/${totalTests} tests passed`);
+
+  if (passedTests === totalTests) {
+    console.log("🎉 All tests passed! The OpenAPI document matches the routes.");
+  } else {
+    console.log("⚠️ Some tests failed. Please review the output above.");
+    process.exitCode = 1;
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
+
+export { runTests };
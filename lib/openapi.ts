@@ -0,0 +1,617 @@
+/**
+ * OpenAPI 3.1 document for the public /api/v1 routes, served at
+ * /api/v1/openapi.json.
+ *
+ * Request parameters and bodies are generated from the same zod schemas the
+ * routes validate with (lib/schemas.ts); response shapes are described here.
+ * lib/openapi.test.ts fails when the two drift apart.
+ */
+
+import { z, ZodFirstPartyTypeKind, type ZodTypeAny } from "zod";
+import {
+  createTagSchema,
+  postEventSchema,
+  postListQuerySchema,
+  tagListQuerySchema,
+  uploadRequestSchema,
+} from "@/lib/schemas";
+import { POST_KINDS } from "@/lib/post-kinds";
+
+export type JsonSchema = { [key: string]: unknown };
+
+export type HttpMethod = "get" | "head" | "post" | "put" | "patch" | "delete";
+
+export interface ApiResponse {
+  description: string;
+  /** JSON body, by name in RESPONSE_SCHEMAS */
+  schema?: keyof typeof RESPONSE_SCHEMAS;
+  /** Media type of a file download body */
+  download?: string;
+}
+
+export interface ApiOperation {
+  method: HttpMethod;
+  /** Route directory under app/api/v1, e.g. "posts/[id]" */
+  route: string;
+  operationId: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  /** "optional" routes work anonymously but personalize for signed-in users */
+  auth: "none" | "optional" | "required";
+  pathParams?: Record<string, string>;
+  query?: z.AnyZodObject;
+  body?: ZodTypeAny;
+  responses: Record<number, ApiResponse>;
+}
+
+// ---------------------------------------------------------------------------
+// zod → JSON Schema (2020-12, as used by OpenAPI 3.1)
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts a zod schema to the JSON Schema of the input it accepts.
+ * Transforms and refinements are invisible to JSON Schema, so only their
+ * input side is described. Throws on zod types with no mapping so new
+ * schema features can't silently produce an empty spec.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const json = convert(schema);
+  const description = schema.description;
+  return description && !json.description ? { ...json, description } : json;
+}
+
+function convert(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def;
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const json: JsonSchema = { type: "string" };
+      for (const check of (schema as z.ZodString)._def.checks) {
+        switch (check.kind) {
+          case "min": json.minLength = check.value; break;
+          case "max": json.maxLength = check.value; break;
+          case "length": json.minLength = json.maxLength = check.value; break;
+          case "email": json.format = "email"; break;
+          case "url": json.format = "uri"; break;
+          case "uuid": json.format = "uuid"; break;
+          case "datetime": json.format = "date-time"; break;
+          case "regex": json.pattern = check.regex.source; break;
+        }
+      }
+      return json;
+    }
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const json: JsonSchema = { type: "number" };
+      for (const check of (schema as z.ZodNumber)._def.checks) {
+        if (check.kind === "int") json.type = "integer";
+        if (check.kind === "min") json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        if (check.kind === "max") json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+      return json;
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" };
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: "string", format: "date-time" };
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: "null" };
+    case ZodFirstPartyTypeKind.ZodAny:
+    case ZodFirstPartyTypeKind.ZodUnknown:
+      return {};
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: [...def.values] };
+    case ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { enum: Object.values(def.values) };
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const json: JsonSchema = { type: "array", items: zodToJsonSchema(def.type) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      if (def.exactLength) json.minItems = json.maxItems = def.exactLength.value;
+      return json;
+    }
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, ZodTypeAny>;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = zodToJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      const json: JsonSchema = { type: "object", properties };
+      if (required.length > 0) json.required = required;
+      if (def.unknownKeys === "strict") json.additionalProperties = false;
+      return json;
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: "object", additionalProperties: zodToJsonSchema(def.valueType) };
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { anyOf: [...def.options].map((o: ZodTypeAny) => zodToJsonSchema(o)) };
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodNullable: {
+      const inner = zodToJsonSchema(def.innerType);
+      return typeof inner.type === "string"
+        ? { ...inner, type: [inner.type, "null"] }
+        : { anyOf: [inner, { type: "null" }] };
+    }
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return zodToJsonSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return zodToJsonSchema(def.type);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema(def.in);
+    default:
+      throw new Error(`zodToJsonSchema: unsupported zod type ${def.typeName}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Response shapes (documentation only — routes don't validate their output)
+// ---------------------------------------------------------------------------
+
+const errorSchema = z.object({ error: z.string() });
+
+const postKindSchema = z.enum(POST_KINDS);
+
+const postListItemSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  slug: z.string(),
+  description: z.string().nullable(),
+  previewImageUrl: z.string().url().nullable(),
+  kind: postKindSchema,
+  isPremium: z.boolean(),
+  isPublished: z.boolean(),
+  isFeatured: z.boolean(),
+  status: z.string(),
+  publishAt: z.string().datetime().nullable(),
+  authorId: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  author: z.object({
+    id: z.string(),
+    name: z.string().nullable(),
+    avatar: z.string().nullable(),
+    handle: z.string().nullable().optional(),
+  }),
+  category: z.object({
+    id: z.string(),
+    name: z.string(),
+    slug: z.string(),
+    parent: z.object({ id: z.string(), name: z.string(), slug: z.string() }).nullable(),
+  }),
+  tags: z.array(z.object({ id: z.string(), name: z.string(), slug: z.string() })),
+  _count: z.object({ stars: z.number().int(), comments: z.number().int().optional() }),
+  isStarred: z.boolean().optional(),
+});
+
+const paginationSchema = z.object({
+  totalCount: z.number().int(),
+  totalPages: z.number().int(),
+  currentPage: z.number().int(),
+  pageSize: z.number().int(),
+  hasNextPage: z.boolean(),
+  hasPreviousPage: z.boolean(),
+});
+
+const categorySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  slug: z.string(),
+  description: z.string().nullable(),
+  parentId: z.string().nullable(),
+});
+
+const tagSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  slug: z.string(),
+  createdAt: z.string().datetime(),
+});
+
+const RESPONSE_SCHEMAS = {
+  Error: errorSchema,
+  PostList: z.object({ posts: z.array(postListItemSchema), pagination: paginationSchema }),
+  Post: postListItemSchema.extend({ content: z.string(), isStarred: z.boolean() }),
+  PostStatus: z.object({ isStarred: z.boolean() }),
+  PostEventResult: z.object({ success: z.literal(true), recorded: z.boolean() }),
+  Tag: tagSchema,
+  TagList: z.array(tagSchema.extend({ _count: z.object({ posts: z.number().int() }).optional() })),
+  Category: categorySchema.extend({
+    parent: categorySchema.nullable(),
+    children: z.array(categorySchema),
+    _count: z.object({ posts: z.number().int() }),
+  }),
+  CategoryList: z.array(categorySchema),
+  UserProfile: z.object({
+    id: z.string(),
+    name: z.string().nullable(),
+    email: z.string().email(),
+    avatar: z.string().nullable(),
+    role: z.enum(["USER", "ADMIN"]),
+    type: z.enum(["FREE", "PREMIUM"]),
+    createdAt: z.string().datetime(),
+  }),
+  ContentSettings: z.object({
+    success: z.literal(true),
+    maxTagsPerPost: z.number().int(),
+    allowUserPosts: z.boolean(),
+    requireApproval: z.boolean(),
+  }),
+  PresignedUpload: z.object({
+    success: z.literal(true),
+    upload: z.object({
+      id: z.string().uuid(),
+      uploadUrl: z.string().url(),
+      headers: z.record(z.string()),
+      url: z.string().url(),
+    }),
+  }),
+  CompletedUpload: z.object({ success: z.literal(true), url: z.string().url() }),
+  OpenApiDocument: z.object({ openapi: z.string() }).passthrough(),
+} satisfies Record<string, ZodTypeAny>;
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+const notFound = { description: "Not found, or not visible to the caller", schema: "Error" } as const;
+const unauthorized = { description: "Authentication required", schema: "Error" } as const;
+const rateLimited = {
+  description: "Rate limit exceeded; the RateLimit-* headers say when to retry",
+  schema: "Error",
+} as const;
+
+export const API_OPERATIONS: ApiOperation[] = [
+  {
+    method: "get",
+    route: "posts",
+    operationId: "listPosts",
+    summary: "List or search published posts",
+    description:
+      "Searches when `q` is non-empty; otherwise pages through posts in `sortBy` order. " +
+      "`author` and `feed=following` narrow the listing and are not combined with search.",
+    tag: "Posts",
+    auth: "optional",
+    query: postListQuerySchema,
+    responses: {
+      200: { description: "A page of posts", schema: "PostList" },
+      401: unauthorized,
+      404: notFound,
+      429: rateLimited,
+    },
+  },
+  {
+    method: "get",
+    route: "posts/[id]",
+    operationId: "getPost",
+    summary: "Get a post with its content",
+    description: "Unpublished posts are only visible to their author and admins.",
+    tag: "Posts",
+    auth: "optional",
+    pathParams: { id: "Post ID" },
+    responses: { 200: { description: "The post", schema: "Post" }, 404: notFound },
+  },
+  {
+    method: "head",
+    route: "posts/[id]",
+    operationId: "headPost",
+    summary: "Check that a published post exists",
+    tag: "Posts",
+    auth: "none",
+    pathParams: { id: "Post ID" },
+    responses: { 200: { description: "The post exists and is published" }, 404: notFound },
+  },
+  {
+    method: "get",
+    route: "posts/[id]/status",
+    operationId: "getPostStatus",
+    summary: "Whether the caller has starred a post",
+    tag: "Posts",
+    auth: "optional",
+    pathParams: { id: "Post ID" },
+    responses: { 200: { description: "Star status", schema: "PostStatus" }, 404: notFound },
+  },
+  {
+    method: "post",
+    route: "posts/[id]/events",
+    operationId: "recordPostEvent",
+    summary: "Record a view or copy of a post",
+    description: "Counted at most once per visitor, post and UTC day.",
+    tag: "Posts",
+    auth: "optional",
+    pathParams: { id: "Post ID" },
+    body: postEventSchema,
+    responses: {
+      200: { description: "Whether the event was counted", schema: "PostEventResult" },
+      400: { description: "Invalid event", schema: "Error" },
+      404: notFound,
+      429: rateLimited,
+    },
+  },
+  {
+    method: "get",
+    route: "posts/[id]/download",
+    operationId: "downloadPost",
+    summary: "Download a post as its target tool's file",
+    description:
+      "Cursor rules as `.mdc`, MCP configs as `mcp.json`, Claude skills as a zipped skill folder, AGENTS.md and prompts as Markdown.",
+    tag: "Posts",
+    auth: "optional",
+    pathParams: { id: "Post ID" },
+    responses: { 200: { description: "The file", download: "application/octet-stream" }, 404: notFound },
+  },
+  {
+    method: "get",
+    route: "collections/[slug]/download",
+    operationId: "downloadCollection",
+    summary: "Download every post in a collection as one zip",
+    description: "Private collections are only visible to their owner and admins.",
+    tag: "Collections",
+    auth: "optional",
+    pathParams: { slug: "Collection slug" },
+    responses: { 200: { description: "The bundle", download: "application/zip" }, 404: notFound },
+  },
+  {
+    method: "get",
+    route: "tags",
+    operationId: "listTags",
+    summary: "List tags",
+    tag: "Tags",
+    auth: "required",
+    query: tagListQuerySchema,
+    responses: {
+      200: { description: "Tags (with post counts unless filtered by `q`)", schema: "TagList" },
+      401: unauthorized,
+      429: rateLimited,
+    },
+  },
+  {
+    method: "post",
+    route: "tags",
+    operationId: "createTag",
+    summary: "Create a tag",
+    description: "The slug is derived from the name when omitted.",
+    tag: "Tags",
+    auth: "required",
+    body: createTagSchema,
+    responses: {
+      201: { description: "The created tag", schema: "Tag" },
+      400: { description: "Invalid input", schema: "Error" },
+      401: unauthorized,
+      409: { description: "A tag with this name or slug already exists", schema: "Error" },
+      429: rateLimited,
+    },
+  },
+  {
+    method: "get",
+    route: "tags/[id]",
+    operationId: "getTag",
+    summary: "Get a tag",
+    tag: "Tags",
+    auth: "required",
+    pathParams: { id: "Tag ID" },
+    responses: { 200: { description: "The tag", schema: "Tag" }, 401: unauthorized, 404: notFound },
+  },
+  {
+    method: "get",
+    route: "categories",
+    operationId: "listCategories",
+    summary: "List categories",
+    tag: "Categories",
+    auth: "required",
+    responses: { 200: { description: "All categories", schema: "CategoryList" }, 401: unauthorized },
+  },
+  {
+    method: "get",
+    route: "categories/[id]",
+    operationId: "getCategory",
+    summary: "Get a category with its parent, children and post count",
+    tag: "Categories",
+    auth: "required",
+    pathParams: { id: "Category ID" },
+    responses: {
+      200: { description: "The category", schema: "Category" },
+      401: unauthorized,
+      404: notFound,
+    },
+  },
+  {
+    method: "get",
+    route: "user/profile",
+    operationId: "getUserProfile",
+    summary: "The caller's profile",
+    tag: "User",
+    auth: "required",
+    responses: {
+      200: { description: "The profile", schema: "UserProfile" },
+      401: unauthorized,
+      404: notFound,
+    },
+  },
+  {
+    method: "get",
+    route: "settings/content",
+    operationId: "getContentSettings",
+    summary: "Content limits that apply to post submission",
+    tag: "Settings",
+    auth: "required",
+    responses: {
+      200: { description: "Content settings", schema: "ContentSettings" },
+      401: unauthorized,
+    },
+  },
+  {
+    method: "post",
+    route: "upload/presign",
+    operationId: "presignUpload",
+    summary: "Start an image upload",
+    description:
+      "Returns a presigned URL to `PUT` the file to, with the headers to send. The declared type and size are signed into the URL. Blog images are admin-only.",
+    tag: "Uploads",
+    auth: "required",
+    body: uploadRequestSchema,
+    responses: {
+      200: { description: "Where and how to upload the file", schema: "PresignedUpload" },
+      400: { description: "Invalid or disallowed file", schema: "Error" },
+      401: unauthorized,
+      403: { description: "Not allowed to upload for this purpose", schema: "Error" },
+      429: rateLimited,
+      503: { description: "Storage is not configured", schema: "Error" },
+    },
+  },
+  {
+    method: "post",
+    route: "upload/[id]/complete",
+    operationId: "completeUpload",
+    summary: "Finish an image upload",
+    description:
+      "Verifies the object was stored with the declared type and size. Images no article or post references are deleted after 24 hours.",
+    tag: "Uploads",
+    auth: "required",
+    pathParams: { id: "Upload ID from presignUpload" },
+    responses: {
+      200: { description: "The image's public URL", schema: "CompletedUpload" },
+      400: { description: "The file is missing or doesn't match the request", schema: "Error" },
+      401: unauthorized,
+      404: notFound,
+      429: rateLimited,
+      503: { description: "Storage is not configured", schema: "Error" },
+    },
+  },
+  {
+    method: "get",
+    route: "openapi.json",
+    operationId: "getOpenApiDocument",
+    summary: "This document",
+    tag: "Meta",
+    auth: "none",
+    responses: { 200: { description: "OpenAPI 3.1 document", schema: "OpenApiDocument" } },
+  },
+];
+
+/** "posts/[id]" → "/posts/{id}" */
+export function routeToPath(route: string): string {
+  return `/${route.replace(/\[(\w+)\]/g, "{$1}")}`;
+}
+
+const AUTH_REQUIRED = [{ cookieAuth: [] }, { bearerAuth: [] }, { apiKeyAuth: [] }];
+
+function buildOperation(op: ApiOperation): JsonSchema {
+  const parameters: JsonSchema[] = [];
+
+  for (const [, key] of op.route.matchAll(/\[(\w+)\]/g)) {
+    parameters.push({
+      name: key,
+      in: "path",
+      required: true,
+      description: op.pathParams?.[key],
+      schema: { type: "string" },
+    });
+  }
+
+  if (op.query) {
+    for (const [name, value] of Object.entries(op.query.shape as Record<string, ZodTypeAny>)) {
+      const schema = zodToJsonSchema(value);
+      const { description, ...rest } = schema;
+      parameters.push({
+        name,
+        in: "query",
+        required: !value.isOptional(),
+        ...(description ? { description } : {}),
+        schema: rest,
+      });
+    }
+  }
+
+  if (op.method !== "get" && op.method !== "head") {
+    parameters.push({
+      name: "x-csrf-token",
+      in: "header",
+      required: false,
+      description: "Required for cookie-authenticated requests; not needed with a bearer token or API key",
+      schema: { type: "string" },
+    });
+  }
+
+  const responses: JsonSchema = {};
+  for (const [status, response] of Object.entries(op.responses)) {
+    const content = response.schema
+      ? { "application/json": { schema: { $ref: `#/components/schemas/${response.schema}` } } }
+      : response.download
+        ? { [response.download]: { schema: { type: "string", contentMediaType: response.download } } }
+        : undefined;
+    responses[status] = { description: response.description, ...(content ? { content } : {}) };
+  }
+
+  return {
+    operationId: op.operationId,
+    summary: op.summary,
+    ...(op.description ? { description: op.description } : {}),
+    tags: [op.tag],
+    ...(op.auth === "required" ? { security: AUTH_REQUIRED } : {}),
+    ...(op.auth === "optional" ? { security: [...AUTH_REQUIRED, {}] } : {}),
+    ...(op.auth === "none" ? { security: [] } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(op.body
+      ? {
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: zodToJsonSchema(op.body) } },
+          },
+        }
+      : {}),
+    responses,
+  };
+}
+
+export function buildOpenApiDocument(): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const op of API_OPERATIONS) {
+    const path = routeToPath(op.route);
+    paths[path] = { ...paths[path], [op.method]: buildOperation(op) };
+  }
+
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [name, schema] of Object.entries(RESPONSE_SCHEMAS)) {
+    schemas[name] = zodToJsonSchema(schema);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Promptexify API",
+      version: "1",
+      description:
+        "Read and manage prompts, rules and configs. Authenticate with a browser session, a Supabase access token, or a personal API key created under Account.",
+    },
+    servers: [{ url: "/api/v1" }],
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        cookieAuth: {
+          type: "apiKey",
+          in: "cookie",
+          name: "sb-access-token",
+          description: "Supabase session cookie set by the web sign-in flow",
+        },
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+        apiKeyAuth: {
+          type: "apiKey",
+          in: "header",
+          name: "X-API-Key",
+          description: "Personal API key (`pxk_…`); also accepted as `Authorization: Bearer pxk_…`. Read keys are limited to GET and HEAD, and no key grants admin access.",
+        },
+      },
+    },
+  };
+}
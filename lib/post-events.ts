@@ -0,0 +1,109 @@
+import { db } from "@/lib/db";
+import { hashVisitor, utcDay } from "@/lib/analytics";
+import {
+  postDailyStats,
+  postEventVisitors,
+  type PostEventType,
+} from "@/lib/db/schema";
+import { and, asc, eq, gte, lt, sql } from "drizzle-orm";
+
+export interface PostDailyStat {
+  day: string;
+  views: number;
+  copies: number;
+}
+
+export interface PostAnalytics {
+  totals: { views: number; copies: number };
+  daily: PostDailyStat[];
+}
+
+/**
+ * Record a view or copy, counted at most once per visitor, post and UTC day.
+ * Returns false when the visitor was already counted today.
+ */
+export async function recordPostEvent({
+  postId,
+  type,
+  visitorId,
+}: {
+  postId: string;
+  type: PostEventType;
+  visitorId: string;
+}): Promise<boolean> {
+  const day = utcDay();
+  const visitorHash = hashVisitor(day, visitorId);
+
+  return db.transaction(async (tx) => {
+    const inserted = await tx
+      .insert(postEventVisitors)
+      .values({ postId, day, type, visitorHash })
+      .onConflictDoNothing()
+      .returning({ postId: postEventVisitors.postId });
+    if (inserted.length === 0) return false;
+
+    const views = type === "VIEW" ? 1 : 0;
+    const copies = type === "COPY" ? 1 : 0;
+    await tx
+      .insert(postDailyStats)
+      .values({ postId, day, views, copies })
+      .onConflictDoUpdate({
+        target: [postDailyStats.postId, postDailyStats.day],
+        set: {
+          views: sql`${postDailyStats.views} + ${views}`,
+          copies: sql`${postDailyStats.copies} + ${copies}`,
+        },
+      });
+
+    // Dedup keys are only needed for the current day
+    await tx
+      .delete(postEventVisitors)
+      .where(and(eq(postEventVisitors.postId, postId), lt(postEventVisitors.day, day)));
+
+    return true;
+  });
+}
+
+/**
+ * Daily views/copies for the last `days` UTC days (oldest first, gaps filled
+ * with zeros) plus all-time totals. Callers enforce author/admin access.
+ */
+export async function getPostAnalytics(postId: string, days = 30): Promise<PostAnalytics> {
+  const start = new Date();
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+  const startDay = utcDay(start);
+
+  const [rows, [totals]] = await Promise.all([
+    db
+      .select({
+        day: postDailyStats.day,
+        views: postDailyStats.views,
+        copies: postDailyStats.copies,
+      })
+      .from(postDailyStats)
+      .where(and(eq(postDailyStats.postId, postId), gte(postDailyStats.day, startDay)))
+      .orderBy(asc(postDailyStats.day)),
+    db
+      .select({
+        views: sql<number>`coalesce(sum(${postDailyStats.views}), 0)::int`,
+        copies: sql<number>`coalesce(sum(${postDailyStats.copies}), 0)::int`,
+      })
+      .from(postDailyStats)
+      .where(eq(postDailyStats.postId, postId)),
+  ]);
+
+  const byDay = new Map(rows.map((r) => [r.day, r]));
+  const daily: PostDailyStat[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = new Date(start);
+    date.setUTCDate(start.getUTCDate() + i);
+    const day = utcDay(date);
+    const row = byDay.get(day);
+    daily.push({ day, views: row?.views ?? 0, copies: row?.copies ?? 0 });
+  }
+
+  return {
+    totals: { views: totals?.views ?? 0, copies: totals?.copies ?? 0 },
+    daily,
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Tests for per-kind download artifacts and collection bundles (lib/post-export.ts)
+ * Run with: npx tsx lib/post-export.test.ts
+ */
+
+import { buildCollectionBundle, buildPostExport, type ExportablePost } from "./post-export";
+
+let passedTests = 0;
+let totalTests = 0;
+
+function check(testName: string, passed: boolean, details?: string) {
+  totalTests += 1;
+  passedTests += passed ? 1 : 0;
+  console.log(`${passed ? "✅" : "❌"} ${testName}`);
+  if (!passed && details) console.log(`  ${details}`);
+}
+
+function checkEqual(testName: string, actual: unknown, expected: unknown) {
+  check(
+    testName,
+    JSON.stringify(actual) === JSON.stringify(expected),
+    `Expected ${JSON.stringify(expected)}\n  Got      ${JSON.stringify(actual)}`
+  );
+}
+
+function post(overrides: Partial<ExportablePost>): ExportablePost {
+  return {
+    slug: "my-post",
+    title: "My Post",
+    description: null,
+    content: "Hello",
+    kind: "PROMPT",
+    ...overrides,
+  };
+}
+
+async function runTests() {
+  console.log("🧪 Testing lib/post-export.ts...\n");
+
+  // Prompts and AGENTS.md
+  const prompt = buildPostExport(post({ content: "  Summarize this.\n\n" }));
+  checkEqual("prompts download as trimmed Markdown", prompt, {
+    filename: "my-post.md",
+    contentType: "text/markdown; charset=utf-8",
+    files: [{ path: "my-post.md", content: "Summarize this.\n" }],
+    archive: false,
+    hint: "Prompt as a Markdown file",
+  });
+
+  const agents = buildPostExport(post({ kind: "AGENTS_MD", content: "# Agents\n" }));
+  checkEqual("AGENTS.md keeps its fixed name", [agents.filename, agents.files[0]?.path], [
+    "AGENTS.md",
+    "AGENTS.md",
+  ]);
+
+  // Cursor rules
+  const rule = buildPostExport(
+    post({
+      kind: "CURSOR_RULE",
+      content: '---\ndescription: Strict TS\nglobs: ["src/**/*.ts", "lib/*.ts"]\nalwaysApply: true\n---\nUse strict.',
+    })
+  );
+  checkEqual("rules are written to .cursor/rules", [rule.filename, rule.files[0]?.path, rule.archive], [
+    "my-post.mdc",
+    ".cursor/rules/my-post.mdc",
+    false,
+  ]);
+  checkEqual(
+    "rule globs become a comma-separated list",
+    rule.files[0]?.content,
+    "---\ndescription: Strict TS\nglobs: src/**/*.ts,lib/*.ts\nalwaysApply: true\n---\n\nUse strict.\n"
+  );
+
+  const bareRule = buildPostExport(
+    post({ kind: "CURSOR_RULE", description: "true: or false", content: "Use strict." })
+  );
+  checkEqual(
+    "rules without frontmatter fall back to the post description, quoted when needed",
+    bareRule.files[0]?.content,
+    '---\ndescription: "true: or false"\nglobs: \nalwaysApply: false\n---\n\nUse strict.\n'
+  );
+
+  const brokenRule = buildPostExport(post({ kind: "CURSOR_RULE", content: "---\nunclosed" }));
+  check(
+    "malformed rule frontmatter is shipped as the body",
+    brokenRule.files[0]?.content.endsWith("\n---\n\n---\nunclosed\n") === true,
+    JSON.stringify(brokenRule.files[0]?.content)
+  );
+
+  // MCP configs
+  const mcp = buildPostExport(
+    post({
+      kind: "MCP_CONFIG",
+      content: '{"mcpServers":{"fs":{"command":"npx"}},"extra":true}',
+    })
+  );
+  checkEqual("MCP configs keep only mcpServers, pretty-printed", mcp.files, [
+    { path: "mcp.json", content: '{\n  "mcpServers": {\n    "fs": {\n      "command": "npx"\n    }\n  }\n}\n' },
+  ]);
+  checkEqual(
+    "invalid MCP JSON is emitted as-is",
+    buildPostExport(post({ kind: "MCP_CONFIG", content: " {broken " })).files[0]?.content,
+    "{broken\n"
+  );
+
+  // Claude skills
+  const skill = buildPostExport(
+    post({
+      kind: "CLAUDE_SKILL",
+      content: "---\nname: pdf-tools\ndescription: Fill PDF forms\n---\n\nUse pdftk.",
+    })
+  );
+  checkEqual("skills are zipped as a folder named after the skill", skill, {
+    filename: "pdf-tools.zip",
+    contentType: "application/zip",
+    files: [
+      {
+        path: "pdf-tools/SKILL.md",
+        content: "---\nname: pdf-tools\ndescription: Fill PDF forms\n---\n\nUse pdftk.\n",
+      },
+    ],
+    archive: true,
+    hint: "Unzip into .claude/skills/",
+  });
+
+  const unnamedSkill = buildPostExport(
+    post({ kind: "CLAUDE_SKILL", slug: "fallback-skill", title: "Fallback", content: "Do things." })
+  );
+  checkEqual(
+    "skills without a valid name use the slug and title",
+    unnamedSkill.files[0],
+    {
+      path: "fallback-skill/SKILL.md",
+      content: "---\nname: fallback-skill\ndescription: Fallback\n---\n\nDo things.\n",
+    }
+  );
+
+  // Collection bundles
+  const bundle = buildCollectionBundle({ title: "Starter Kit", description: "Everything to begin" }, [
+    post({ slug: "intro", title: "Intro" }),
+    post({ kind: "MCP_CONFIG", slug: "fs", title: "FS", content: '{"mcpServers":{"fs":{"command":"a"}}}' }),
+    post({
+      kind: "MCP_CONFIG",
+      slug: "fs-and-web",
+      title: "FS and Web",
+      content: '{"mcpServers":{"fs":{"command":"b"},"web":{"url":"https://example.com"}}}',
+    }),
+    post({ kind: "AGENTS_MD", slug: "agents-one", title: "Agents One", content: "one" }),
+    post({ kind: "AGENTS_MD", slug: "agents-two", title: "Agents Two", content: "two" }),
+    post({ kind: "CLAUDE_SKILL", slug: "pdf", title: "PDF", content: "---\nname: pdf\ndescription: d\n---\nx" }),
+  ]);
+
+  checkEqual("bundle files are laid out per kind", bundle.map((file) => file.path), [
+    "README.md",
+    "prompts/intro.md",
+    "AGENTS.md",
+    "agents-two/AGENTS.md",
+    ".claude/skills/pdf/SKILL.md",
+    "mcp.json",
+  ]);
+  checkEqual(
+    "MCP servers are merged, first definition wins",
+    JSON.parse(bundle.find((file) => file.path === "mcp.json")?.content ?? "{}"),
+    { mcpServers: { fs: { command: "a" }, web: { url: "https://example.com" } } }
+  );
+  checkEqual(
+    "the README lists posts in collection order",
+    bundle[0]?.content,
+    [
+      "# Starter Kit",
+      "",
+      "Everything to begin",
+      "",
+      "1. **Intro** (prompts/intro.md)",
+      "2. **FS** (mcp.json)",
+      "3. **FS and Web** (mcp.json)",
+      "4. **Agents One** (AGENTS.md)",
+      "5. **Agents Two** (agents-two/AGENTS.md)",
+      "6. **PDF** (.claude/skills/pdf/SKILL.md)",
+      "",
+    ].join("\n")
+  );
+
+  checkEqual(
+    "an empty collection is just the README",
+    buildCollectionBundle({ title: "Empty", description: null }, []),
+    [{ path: "README.md", content: "# Empty\n\n" }]
+  );
+
+  console.log();
+  console.log(`📊 Test Results: ${passedTests}/${totalTests} tests passed`);
+
+  if (passedTests === totalTests) {
+    console.log("🎉 All tests passed! Post exports are working correctly.");
+  } else {
+    console.log("⚠️ Some tests failed. Please review the output above.");
+    process.exitCode = 1;
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
+
+export { runTests };
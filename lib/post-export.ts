@@ -0,0 +1,227 @@
+/**
+ * Per-kind download artifacts — the file a post becomes in the target tool
+ * (Cursor rule, MCP config fragment, Claude skill folder, AGENTS.md).
+ * Pure so the download button can describe the artifact client-side.
+ */
+
+import type { PostKind } from "@/lib/db/schema";
+import { parseFrontmatter, type FrontmatterValue } from "@/lib/post-kinds";
+
+export interface ExportablePost {
+  slug: string;
+  title: string;
+  description: string | null;
+  content: string;
+  kind: PostKind;
+}
+
+export interface PostExportFile {
+  path: string;
+  content: string;
+}
+
+export interface PostExport {
+  /** Download file name */
+  filename: string;
+  contentType: string;
+  /** Files to emit; served as a zip when `archive` is set */
+  files: PostExportFile[];
+  archive: boolean;
+  /** Where the artifact belongs, shown next to the download button */
+  hint: string;
+}
+
+const SKILL_NAME = /^[a-z0-9-]{1,64}$/;
+
+function safeParseFrontmatter(content: string): {
+  data: Record<string, FrontmatterValue>;
+  body: string;
+} {
+  try {
+    return parseFrontmatter(content);
+  } catch {
+    return { data: {}, body: content };
+  }
+}
+
+// Plain YAML scalars stay bare; anything YAML could misread is double-quoted
+function yamlString(value: string): string {
+  return /^[\w][\w .,/()'-]*$/.test(value) && !/^(true|false|null|\d)/.test(value)
+    ? value
+    : JSON.stringify(value);
+}
+
+function withFrontmatter(lines: string[], body: string): string {
+  return `---\n${lines.join("\n")}\n---\n\n${body.trim()}\n`;
+}
+
+function cursorRule(post: ExportablePost): PostExport {
+  const { data, body } = safeParseFrontmatter(post.content);
+  const description =
+    typeof data.description === "string" && data.description
+      ? data.description
+      : post.description ?? post.title;
+  // Cursor reads globs as a bare comma-separated list
+  const globs = Array.isArray(data.globs)
+    ? data.globs.join(",")
+    : typeof data.globs === "string"
+      ? data.globs
+      : "";
+  const alwaysApply = data.alwaysApply === true;
+  const path = `.cursor/rules/${post.slug}.mdc`;
+
+  return {
+    filename: `${post.slug}.mdc`,
+    contentType: "text/markdown; charset=utf-8",
+    files: [
+      {
+        path,
+        content: withFrontmatter(
+          [
+            `description: ${yamlString(description)}`,
+            `globs: ${globs}`,
+            `alwaysApply: ${alwaysApply}`,
+          ],
+          body
+        ),
+      },
+    ],
+    archive: false,
+    hint: `Save to ${path}`,
+  };
+}
+
+function mcpConfig(post: ExportablePost): PostExport {
+  let content = post.content.trim() + "\n";
+  try {
+    const parsed = JSON.parse(post.content) as { mcpServers?: unknown };
+    content = JSON.stringify({ mcpServers: parsed.mcpServers ?? {} }, null, 2) + "\n";
+  } catch {
+    // Stored configs are validated on save; emit the raw text otherwise
+  }
+
+  return {
+    filename: "mcp.json",
+    contentType: "application/json; charset=utf-8",
+    files: [{ path: "mcp.json", content }],
+    archive: false,
+    hint: "Merge into your client's mcp.json",
+  };
+}
+
+function claudeSkill(post: ExportablePost): PostExport {
+  const { data, body } = safeParseFrontmatter(post.content);
+  const name =
+    typeof data.name === "string" && SKILL_NAME.test(data.name)
+      ? data.name
+      : post.slug.slice(0, 64);
+  const description =
+    typeof data.description === "string" && data.description
+      ? data.description
+      : post.description ?? post.title;
+
+  return {
+    filename: `${name}.zip`,
+    contentType: "application/zip",
+    files: [
+      {
+        path: `${name}/SKILL.md`,
+        content: withFrontmatter(
+          [`name: ${name}`, `description: ${yamlString(description)}`],
+          body
+        ),
+      },
+    ],
+    archive: true,
+    hint: "Unzip into .claude/skills/",
+  };
+}
+
+/** The artifact a post downloads as, by kind. */
+export function buildPostExport(post: ExportablePost): PostExport {
+  switch (post.kind) {
+    case "CURSOR_RULE":
+      return cursorRule(post);
+    case "MCP_CONFIG":
+      return mcpConfig(post);
+    case "CLAUDE_SKILL":
+      return claudeSkill(post);
+    case "AGENTS_MD":
+      return {
+        filename: "AGENTS.md",
+        contentType: "text/markdown; charset=utf-8",
+        files: [{ path: "AGENTS.md", content: post.content.trim() + "\n" }],
+        archive: false,
+        hint: "Save as AGENTS.md in your repository root",
+      };
+    default:
+      return {
+        filename: `${post.slug}.md`,
+        contentType: "text/markdown; charset=utf-8",
+        files: [{ path: `${post.slug}.md`, content: post.content.trim() + "\n" }],
+        archive: false,
+        hint: "Prompt as a Markdown file",
+      };
+  }
+}
+
+// Where each kind's files sit inside a collection bundle
+const BUNDLE_DIRS: Record<PostKind, string> = {
+  PROMPT: "prompts/",
+  CURSOR_RULE: "",
+  MCP_CONFIG: "",
+  CLAUDE_SKILL: ".claude/skills/",
+  AGENTS_MD: "",
+};
+
+/**
+ * All posts of a collection as one file tree: rules, skills and prompts side
+ * by side, MCP servers merged into a single mcp.json, plus a README listing
+ * the posts in collection order.
+ */
+export function buildCollectionBundle(
+  collection: { title: string; description: string | null },
+  posts: ExportablePost[]
+): PostExportFile[] {
+  const files = new Map<string, string>();
+  const mcpServers: Record<string, unknown> = {};
+  const readme = [`# ${collection.title}`, ""];
+  if (collection.description) readme.push(collection.description, "");
+
+  posts.forEach((post, index) => {
+    const artifact = buildPostExport(post);
+    const paths: string[] = [];
+
+    for (const file of artifact.files) {
+      if (post.kind === "MCP_CONFIG") {
+        try {
+          const parsed = JSON.parse(file.content) as { mcpServers?: Record<string, unknown> };
+          for (const [name, server] of Object.entries(parsed.mcpServers ?? {})) {
+            // First definition of a server name wins
+            if (!(name in mcpServers)) mcpServers[name] = server;
+          }
+          paths.push("mcp.json");
+          continue;
+        } catch {
+          // fall through and ship the raw file
+        }
+      }
+
+      let path = BUNDLE_DIRS[post.kind] + file.path;
+      if (files.has(path)) path = `${post.slug}/${path}`;
+      files.set(path, file.content);
+      paths.push(path);
+    }
+
+    readme.push(`${index + 1}. **${post.title}** (${paths.join(", ")})`);
+  });
+
+  if (Object.keys(mcpServers).length > 0) {
+    files.set("mcp.json", JSON.stringify({ mcpServers }, null, 2) + "\n");
+  }
+
+  return [
+    { path: "README.md", content: readme.join("\n") + "\n" },
+    ...Array.from(files, ([path, content]) => ({ path, content })),
+  ];
+}
@@ -0,0 +1,230 @@
+/**
+ * Tests for frontmatter parsing and per-kind content validation (lib/post-kinds.ts)
+ * Run with: npx tsx lib/post-kinds.test.ts
+ */
+
+import { parseFrontmatter, parseMcpServers, parsePostKind, validatePostContent } from "./post-kinds";
+
+let passedTests = 0;
+let totalTests = 0;
+
+function check(testName: string, passed: boolean, details?: string) {
+  totalTests += 1;
+  passedTests += passed ? 1 : 0;
+  console.log(`${passed ? "✅" : "❌"} ${testName}`);
+  if (!passed && details) console.log(`  ${details}`);
+}
+
+function checkEqual(testName: string, actual: unknown, expected: unknown) {
+  check(
+    testName,
+    JSON.stringify(actual) === JSON.stringify(expected),
+    `Expected ${JSON.stringify(expected)}\n  Got      ${JSON.stringify(actual)}`
+  );
+}
+
+function thrownMessage(fn: () => unknown): string | null {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+const RULE = `---
+description: Use strict TypeScript
+globs: ["src/**/*.ts", 'lib/*.ts']
+alwaysApply: false
+---
+Always enable strict mode.`;
+
+const SKILL = `---
+name: pdf-tools
+description: Fill and merge PDF forms
+---
+
+Use pdftk for merges.`;
+
+const MCP = JSON.stringify({
+  mcpServers: {
+    github: { command: "npx", args: ["-y", "@modelcontextprotocol/server-github"], env: { GITHUB_TOKEN: "" } },
+    docs: { url: "https://example.com/mcp" },
+  },
+});
+
+async function runTests() {
+  console.log("🧪 Testing lib/post-kinds.ts...\n");
+
+  // parsePostKind
+  checkEqual("parsePostKind accepts enum values", parsePostKind("MCP_CONFIG"), "MCP_CONFIG");
+  checkEqual("parsePostKind accepts slugs", parsePostKind(" cursor-rule "), "CURSOR_RULE");
+  checkEqual("parsePostKind rejects unknown kinds", parsePostKind("snippet"), null);
+  checkEqual("parsePostKind rejects empty values", parsePostKind(""), null);
+
+  // parseFrontmatter
+  checkEqual("content without frontmatter is all body", parseFrontmatter("Hello\n---\nworld"), {
+    data: {},
+    body: "Hello\n---\nworld",
+  });
+
+  checkEqual("scalars, inline lists and booleans are typed", parseFrontmatter(RULE), {
+    data: {
+      description: "Use strict TypeScript",
+      globs: ["src/**/*.ts", "lib/*.ts"],
+      alwaysApply: false,
+    },
+    body: "Always enable strict mode.",
+  });
+
+  checkEqual(
+    "block lists, numbers, quotes and comments",
+    parseFrontmatter('---\n# note\nversion: 2\ntitle: "a: b"\ntags:\n  - one\n  - "two"\nempty:\n---\nBody').data,
+    { version: 2, title: "a: b", tags: ["one", "two"], empty: "" }
+  );
+
+  checkEqual(
+    "the body starts after the closing line",
+    parseFrontmatter(SKILL).body,
+    "\nUse pdftk for merges."
+  );
+
+  checkEqual(
+    "CRLF line endings are normalized",
+    parseFrontmatter("---\r\nname: x\r\n---\r\nBody\r\n"),
+    { data: { name: "x" }, body: "Body\n" }
+  );
+
+  checkEqual(
+    "an unclosed block throws",
+    thrownMessage(() => parseFrontmatter("---\nname: x\nBody")),
+    "Frontmatter is missing its closing ---"
+  );
+
+  checkEqual(
+    "a line that isn't key: value throws",
+    thrownMessage(() => parseFrontmatter("---\nnot valid\n---\nBody")),
+    'Invalid frontmatter line: "not valid"'
+  );
+
+  // parseMcpServers
+  checkEqual("MCP servers are described by transport", parseMcpServers(MCP), [
+    {
+      name: "github",
+      transport: "stdio",
+      target: "npx -y @modelcontextprotocol/server-github",
+      env: ["GITHUB_TOKEN"],
+    },
+    { name: "docs", transport: "remote", target: "https://example.com/mcp", env: [] },
+  ]);
+  checkEqual("parseMcpServers returns null for invalid configs", parseMcpServers("{}"), null);
+
+  // validatePostContent: CURSOR_RULE
+  checkEqual("a valid rule passes", validatePostContent("CURSOR_RULE", RULE), null);
+  checkEqual("a rule without frontmatter passes", validatePostContent("CURSOR_RULE", "Be concise."), null);
+  checkEqual(
+    "rule description must be text",
+    validatePostContent("CURSOR_RULE", "---\ndescription: 42\n---\nBody"),
+    "Rule description must be text"
+  );
+  checkEqual(
+    "rule globs must be patterns",
+    validatePostContent("CURSOR_RULE", "---\nglobs: true\n---\nBody"),
+    "Rule globs must be a pattern or a list of patterns"
+  );
+  checkEqual(
+    "rule alwaysApply must be a boolean",
+    validatePostContent("CURSOR_RULE", "---\nalwaysApply: yes\n---\nBody"),
+    "Rule alwaysApply must be true or false"
+  );
+  checkEqual(
+    "rule body cannot be empty",
+    validatePostContent("CURSOR_RULE", "---\ndescription: x\n---\n  \n"),
+    "Rule body cannot be empty"
+  );
+  checkEqual(
+    "malformed frontmatter is reported, not thrown",
+    validatePostContent("CURSOR_RULE", "---\ndescription: x\nBody"),
+    "Frontmatter is missing its closing ---"
+  );
+
+  // validatePostContent: CLAUDE_SKILL
+  checkEqual("a valid skill passes", validatePostContent("CLAUDE_SKILL", SKILL), null);
+  checkEqual(
+    "skill name must be lowercase",
+    validatePostContent("CLAUDE_SKILL", "---\nname: PDF Tools\ndescription: x\n---\nBody"),
+    "Skill frontmatter needs a name (lowercase letters, numbers and hyphens, max 64)"
+  );
+  checkEqual(
+    "skill name is required",
+    validatePostContent("CLAUDE_SKILL", "Body only"),
+    "Skill frontmatter needs a name (lowercase letters, numbers and hyphens, max 64)"
+  );
+  checkEqual(
+    "skill description is required",
+    validatePostContent("CLAUDE_SKILL", "---\nname: pdf\n---\nBody"),
+    "Skill frontmatter needs a description"
+  );
+  checkEqual(
+    "skill description is capped at 1,024 characters",
+    validatePostContent("CLAUDE_SKILL", `---\nname: pdf\ndescription: ${"a".repeat(1025)}\n---\nBody`),
+    "Skill description must be 1,024 characters or less"
+  );
+  checkEqual(
+    "skill instructions cannot be empty",
+    validatePostContent("CLAUDE_SKILL", "---\nname: pdf\ndescription: x\n---\n"),
+    "Skill instructions cannot be empty"
+  );
+
+  // validatePostContent: MCP_CONFIG
+  checkEqual("a valid MCP config passes", validatePostContent("MCP_CONFIG", MCP), null);
+  checkEqual(
+    "MCP config must be JSON",
+    validatePostContent("MCP_CONFIG", "{mcpServers:"),
+    "MCP config must be valid JSON"
+  );
+  checkEqual(
+    "MCP config needs an mcpServers object",
+    validatePostContent("MCP_CONFIG", '{"servers": {}}'),
+    'MCP config must contain an "mcpServers" object'
+  );
+  checkEqual(
+    "MCP config needs at least one server",
+    validatePostContent("MCP_CONFIG", '{"mcpServers": {}}'),
+    'MCP config must define at least one server in "mcpServers"'
+  );
+  checkEqual(
+    "MCP servers must be objects",
+    validatePostContent("MCP_CONFIG", '{"mcpServers": {"a": "npx"}}'),
+    'MCP server "a" must be an object'
+  );
+  checkEqual(
+    "MCP servers need a command or a url",
+    validatePostContent("MCP_CONFIG", '{"mcpServers": {"a": {"args": []}}}'),
+    'MCP server "a" needs a "command" or a "url"'
+  );
+
+  // Other kinds
+  checkEqual("prompts are not validated further", validatePostContent("PROMPT", "---\nbroken"), null);
+  checkEqual("AGENTS.md is not validated further", validatePostContent("AGENTS_MD", ""), null);
+
+  console.log();
+  console.log(`📊 Test Results: ${passedTests}/${totalTests} tests passed`);
+
+  if (passedTests === totalTests) {
+    console.log("🎉 All tests passed! Post kind parsing and validation are working correctly.");
+  } else {
+    console.log("⚠️ Some tests failed. Please review the output above.");
+    process.exitCode = 1;
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
+
+export { runTests };
@@ -0,0 +1,226 @@
+/**
+ * Post kinds — what a post's content is and how it is validated and rendered.
+ * Pure and dependency-free so it can run in client components and zod schemas.
+ */
+
+import type { PostKind } from "@/lib/db/schema";
+
+export const POST_KINDS = [
+  "PROMPT",
+  "CURSOR_RULE",
+  "MCP_CONFIG",
+  "CLAUDE_SKILL",
+  "AGENTS_MD",
+] as const satisfies readonly PostKind[];
+
+export const POST_KIND_LABELS: Record<PostKind, string> = {
+  PROMPT: "Prompt",
+  CURSOR_RULE: "Cursor Rule",
+  MCP_CONFIG: "MCP Config",
+  CLAUDE_SKILL: "Claude Skill",
+  AGENTS_MD: "AGENTS.md",
+};
+
+/** URL form of a kind, e.g. CURSOR_RULE → "cursor-rule" (used by ?kind=). */
+export function postKindSlug(kind: PostKind): string {
+  return kind.toLowerCase().replace(/_/g, "-");
+}
+
+/** Accepts either the enum value ("MCP_CONFIG") or its slug ("mcp-config"). */
+export function parsePostKind(value: string | null | undefined): PostKind | null {
+  if (!value) return null;
+  const normalized = value.trim().toUpperCase().replace(/-/g, "_");
+  return (POST_KINDS as readonly string[]).includes(normalized)
+    ? (normalized as PostKind)
+    : null;
+}
+
+// ---------------------------------------------------------------------------
+// Frontmatter
+// ---------------------------------------------------------------------------
+
+export type FrontmatterValue = string | number | boolean | string[];
+
+export interface ParsedFrontmatter {
+  data: Record<string, FrontmatterValue>;
+  body: string;
+}
+
+const FRONTMATTER_KEY = /^([A-Za-z_][\w-]*):(?:\s+(.*))?$/;
+const LIST_ITEM = /^\s+-\s+(.*)$/;
+
+function unquote(value: string): string {
+  const match = value.match(/^(["'])(.*)\1$/);
+  return match ? match[2] ?? "" : value;
+}
+
+function parseScalar(raw: string): FrontmatterValue {
+  const value = raw.trim();
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (value.startsWith("[") && value.endsWith("]")) {
+    return value
+      .slice(1, -1)
+      .split(",")
+      .map((item) => unquote(item.trim()))
+      .filter(Boolean);
+  }
+  return unquote(value);
+}
+
+/**
+ * Split a leading `---` block of flat `key: value` pairs (the subset used by
+ * Cursor rules and Claude skills: scalars, `[a, b]` and `- item` lists) from
+ * the body. Content without frontmatter yields empty data and the full body.
+ * Throws with a user-facing message when the block is malformed.
+ */
+export function parseFrontmatter(content: string): ParsedFrontmatter {
+  const text = content.replace(/\r\n?/g, "\n");
+  if (!text.startsWith("---\n")) return { data: {}, body: text };
+
+  const end = text.indexOf("\n---", 3);
+  if (end === -1) throw new Error("Frontmatter is missing its closing ---");
+  const lines = text.slice(4, end).split("\n");
+  const body = text.slice(end + 4).replace(/^[ \t]*\n/, "");
+
+  const data: Record<string, FrontmatterValue> = {};
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? "";
+    if (!line.trim() || line.trimStart().startsWith("#")) continue;
+
+    const match = line.match(FRONTMATTER_KEY);
+    if (!match) throw new Error(`Invalid frontmatter line: "${line.trim()}"`);
+    const key = match[1] ?? "";
+    const rawValue = match[2]?.trim() ?? "";
+
+    if (rawValue) {
+      data[key] = parseScalar(rawValue);
+      continue;
+    }
+
+    // `key:` followed by an indented `- item` list
+    const items: string[] = [];
+    while (i + 1 < lines.length) {
+      const item = (lines[i + 1] ?? "").match(LIST_ITEM);
+      if (!item) break;
+      items.push(unquote((item[1] ?? "").trim()));
+      i++;
+    }
+    data[key] = items.length > 0 ? items : "";
+  }
+
+  return { data, body };
+}
+
+// ---------------------------------------------------------------------------
+// MCP configs
+// ---------------------------------------------------------------------------
+
+export interface McpServerEntry {
+  name: string;
+  transport: "stdio" | "remote";
+  /** `command args…` for stdio servers, the URL for remote ones */
+  target: string;
+  env: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function describeMcpServers(content: string): McpServerEntry[] | string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return "MCP config must be valid JSON";
+  }
+  if (!isPlainObject(parsed) || !isPlainObject(parsed.mcpServers)) {
+    return 'MCP config must contain an "mcpServers" object';
+  }
+
+  const entries = Object.entries(parsed.mcpServers);
+  if (entries.length === 0) return 'MCP config must define at least one server in "mcpServers"';
+
+  const servers: McpServerEntry[] = [];
+  for (const [name, server] of entries) {
+    if (!isPlainObject(server)) return `MCP server "${name}" must be an object`;
+    const env = isPlainObject(server.env) ? Object.keys(server.env) : [];
+    if (typeof server.command === "string" && server.command) {
+      const args = Array.isArray(server.args) ? server.args.map(String) : [];
+      servers.push({ name, transport: "stdio", target: [server.command, ...args].join(" "), env });
+    } else if (typeof server.url === "string" && server.url) {
+      servers.push({ name, transport: "remote", target: server.url, env });
+    } else {
+      return `MCP server "${name}" needs a "command" or a "url"`;
+    }
+  }
+  return servers;
+}
+
+/** Servers declared by an MCP config, or null when it doesn't parse. */
+export function parseMcpServers(content: string): McpServerEntry[] | null {
+  const result = describeMcpServers(content);
+  return typeof result === "string" ? null : result;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const SKILL_NAME = /^[a-z0-9-]{1,64}$/;
+
+function validateRule(content: string): string | null {
+  const { data, body } = parseFrontmatter(content);
+  if (data.description !== undefined && typeof data.description !== "string") {
+    return "Rule description must be text";
+  }
+  const { globs } = data;
+  if (globs !== undefined && typeof globs !== "string" && !Array.isArray(globs)) {
+    return "Rule globs must be a pattern or a list of patterns";
+  }
+  if (data.alwaysApply !== undefined && typeof data.alwaysApply !== "boolean") {
+    return "Rule alwaysApply must be true or false";
+  }
+  if (!body.trim()) return "Rule body cannot be empty";
+  return null;
+}
+
+function validateSkill(content: string): string | null {
+  const { data, body } = parseFrontmatter(content);
+  if (typeof data.name !== "string" || !SKILL_NAME.test(data.name)) {
+    return "Skill frontmatter needs a name (lowercase letters, numbers and hyphens, max 64)";
+  }
+  if (typeof data.description !== "string" || !data.description.trim()) {
+    return "Skill frontmatter needs a description";
+  }
+  if (data.description.length > 1024) {
+    return "Skill description must be 1,024 characters or less";
+  }
+  if (!body.trim()) return "Skill instructions cannot be empty";
+  return null;
+}
+
+/**
+ * Kind-specific content checks, run after the generic length checks.
+ * Returns a user-facing error message, or null when the content is valid.
+ */
+export function validatePostContent(kind: PostKind, content: string): string | null {
+  try {
+    switch (kind) {
+      case "CURSOR_RULE":
+        return validateRule(content);
+      case "CLAUDE_SKILL":
+        return validateSkill(content);
+      case "MCP_CONFIG": {
+        const result = describeMcpServers(content);
+        return typeof result === "string" ? result : null;
+      }
+      default:
+        return null;
+    }
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid content";
+  }
+}
@@ -11,6 +11,9 @@ import {
   tags,
   postToTag,
   stars,
+  comments,
+  follows,
+  type PostKind,
 } from "@/lib/db/schema";
 import {
   createCachedFunction,
@@ -67,17 +70,20 @@ export interface PostListResult {
   title: string;
   slug: string;
   description: string | null;
+  previewImageUrl: string | null;
+  kind: PostKind;
   isPremium: boolean;
   isPublished: boolean;
   isFeatured: boolean;
   status: string;
+  publishAt: Date | null;
   authorId: string;
   createdAt: Date;
   updatedAt: Date;
   author: PostListAuthor;
   category: PostListCategory;
   tags: PostListTag[];
-  _count: { stars: number };
+  _count: { stars: number; comments: number };
 }
 
 export interface PostFullResult extends PostListResult {
@@ -117,9 +123,12 @@ type PostGetPaginatedParams = PaginationParams & {
   includeUnpublished?: boolean;
   categoryId?: string;
   authorId?: string;
+  /** Only posts by authors this user follows */
+  followedBy?: string;
+  kind?: PostKind;
   isPremium?: boolean;
   isFeatured?: boolean;
-  status?: "published" | "pending" | "draft" | "rejected";
+  status?: "published" | "pending" | "draft" | "rejected" | "changes_requested" | "scheduled";
   userId?: string;
   /** Skip tags, star counts, and isStarred queries (saves 3 round-trips when that data isn't needed). */
   skipRelated?: boolean;
@@ -166,6 +175,19 @@ async function getStarCounts(postIds: string[]): Promise<Map<string, number>> {
   return map;
 }
 
+// Visible comments per post (see lib/comments.ts)
+async function getCommentCounts(postIds: string[]): Promise<Map<string, number>> {
+  if (postIds.length === 0) return new Map();
+  const rows = await db
+    .select({ postId: comments.postId, count: sql<number>`count(*)::int` })
+    .from(comments)
+    .where(and(inArray(comments.postId, postIds), eq(comments.status, "VISIBLE")))
+    .groupBy(comments.postId);
+  const map = new Map<string, number>();
+  for (const r of rows) map.set(r.postId, r.count);
+  return map;
+}
+
 // Alias for parent category join (same table twice)
 const parentCategory = aliasedTable(categories, "parent_category");
 
@@ -183,6 +205,8 @@ export class PostQueries {
       includeUnpublished = false,
       categoryId,
       authorId,
+      followedBy,
+      kind,
       isPremium,
       isFeatured,
       status,
@@ -195,12 +219,19 @@ export class PostQueries {
     const conditions: (SQL | undefined)[] = [];
     if (!includeUnpublished) conditions.push(eq(posts.isPublished, true));
     if (authorId) conditions.push(eq(posts.authorId, authorId));
+    if (followedBy) {
+      const followedIds = db.select({ id: follows.followingId }).from(follows).where(eq(follows.followerId, followedBy));
+      conditions.push(inArray(posts.authorId, followedIds));
+    }
+    if (kind) conditions.push(eq(posts.kind, kind));
     if (isPremium !== undefined) conditions.push(eq(posts.isPremium, isPremium));
     if (isFeatured !== undefined) conditions.push(eq(posts.isFeatured, isFeatured));
     if (status === "published") conditions.push(eq(posts.isPublished, true));
     else if (status === "pending") conditions.push(eq(posts.status, "PENDING_APPROVAL"));
     else if (status === "draft") conditions.push(eq(posts.status, "DRAFT"));
     else if (status === "rejected") conditions.push(eq(posts.status, "REJECTED"));
+    else if (status === "changes_requested") conditions.push(eq(posts.status, "CHANGES_REQUESTED"));
+    else if (status === "scheduled") conditions.push(eq(posts.status, "SCHEDULED"));
     if (categoryId) {
       const subIds = db.select({ id: categories.id }).from(categories).where(eq(categories.parentId, categoryId));
       const catCond = or(eq(posts.categoryId, categoryId), inArray(posts.categoryId, subIds));
@@ -208,9 +239,10 @@ export class PostQueries {
     }
     const whereClause = and(...conditions);
 
-    // Only build and join the star-count aggregate when sorting by popularity/trending.
+    // Only build and join the star-count aggregate when sorting by popularity.
     // For "latest" (the default), this avoids a full GROUP BY on the entire stars table.
-    const needsStarSort = sortBy === "popular" || sortBy === "trending";
+    // "trending" reads the precomputed time-decayed score instead (see lib/trending.ts).
+    const needsStarSort = sortBy === "popular";
     const starCounts = needsStarSort
       ? db
           .select({ postId: stars.postId, cnt: sql<number>`count(*)::int`.as("cnt") })
@@ -220,7 +252,9 @@ export class PostQueries {
       : null;
     const orderByClause = needsStarSort && starCounts
       ? [desc(sql`coalesce(${starCounts.cnt}, 0)`), desc(posts.createdAt)]
-      : [desc(posts.createdAt)];
+      : sortBy === "trending"
+        ? [desc(posts.trendingScore), desc(posts.createdAt)]
+        : [desc(posts.createdAt)];
 
     const endTimer = DatabaseMetrics.startQuery();
     try {
@@ -229,10 +263,13 @@ export class PostQueries {
         title: posts.title,
         slug: posts.slug,
         description: posts.description,
+        previewImageUrl: posts.previewImageUrl,
+        kind: posts.kind,
         isPremium: posts.isPremium,
         isFeatured: posts.isFeatured,
         isPublished: posts.isPublished,
         status: posts.status,
+        publishAt: posts.publishAt,
         authorId: posts.authorId,
         categoryId: posts.categoryId,
         createdAt: posts.createdAt,
@@ -240,6 +277,7 @@ export class PostQueries {
         authorUserId: users.id,
         authorName: users.name,
         authorAvatar: users.avatar,
+        authorHandle: users.handle,
         authorEmail: users.email,
         catId: categories.id,
         catName: categories.name,
@@ -279,12 +317,14 @@ export class PostQueries {
       // caller doesn't need them (e.g. management tables). Saves 3 round-trips.
       let tagsMap = new Map<string, PostListTag[]>();
       let counts = new Map<string, number>();
+      let commentCounts = new Map<string, number>();
       let starSet = new Set<string>();
 
       if (!skipRelated) {
-        [tagsMap, counts] = await Promise.all([
+        [tagsMap, counts, commentCounts] = await Promise.all([
           getTagsForPostIds(postIds),
           getStarCounts(postIds),
+          getCommentCounts(postIds),
         ]);
 
         if (userId && postIds.length > 0) {
@@ -299,10 +339,13 @@ export class PostQueries {
           title: r.title,
           slug: r.slug,
           description: r.description,
+          previewImageUrl: r.previewImageUrl,
+          kind: r.kind,
           isPremium: r.isPremium ?? false,
           isPublished: r.isPublished ?? false,
           isFeatured: r.isFeatured ?? false,
           status: r.status ?? "DRAFT",
+          publishAt: r.publishAt,
           authorId: r.authorId,
           createdAt: r.createdAt!,
           updatedAt: r.updatedAt!,
@@ -310,6 +353,7 @@ export class PostQueries {
             id: r.authorUserId ?? "",
             name: r.authorName,
             avatar: r.authorAvatar,
+            handle: r.authorHandle,
             email: r.authorEmail ?? "",
           },
           category: {
@@ -321,7 +365,7 @@ export class PostQueries {
               : null,
           },
           tags: tagsMap.get(r.postId) ?? [],
-          _count: { stars: counts.get(r.postId) ?? 0 },
+          _count: { stars: counts.get(r.postId) ?? 0, comments: commentCounts.get(r.postId) ?? 0 },
           isStarred: userId ? starSet.has(r.postId) : false,
         };
       });
@@ -348,11 +392,12 @@ export class PostQueries {
     params: PaginationParams & {
       userId?: string;
       categoryId?: string;
+      kind?: PostKind;
       isPremium?: boolean;
       sortBy?: "relevance" | "latest" | "popular" | "trending";
     }
   ): Promise<PaginatedResult<PostWithInteractions>> {
-    const { page = 1, limit = 12, userId, categoryId, isPremium, sortBy = "relevance" } = params;
+    const { page = 1, limit = 12, userId, categoryId, kind, isPremium, sortBy = "relevance" } = params;
     const skip = (page - 1) * limit;
 
     const trimmed = typeof query === "string" ? query.trim() : "";
@@ -433,6 +478,7 @@ export class PostQueries {
     const searchWhere = and(
       eq(posts.isPublished, true),
       combinedSearch,
+      kind ? eq(posts.kind, kind) : undefined,
       isPremium !== undefined ? eq(posts.isPremium, isPremium) : undefined
     );
 
@@ -442,9 +488,9 @@ export class PostQueries {
       whereClause = and(searchWhere, or(eq(posts.categoryId, categoryId), inArray(posts.categoryId, subIds)));
     }
 
-    // Only build the star-count aggregate for popularity sorts; skip for "latest"/"relevance"
+    // Only build the star-count aggregate for the popularity sort; skip for the others
     // to avoid a full GROUP BY on the stars table when it's not needed for ordering.
-    const needsStarSort = sortBy === "popular" || sortBy === "trending";
+    const needsStarSort = sortBy === "popular";
     const starCounts = needsStarSort
       ? db
           .select({ postId: stars.postId, cnt: sql<number>`count(*)::int`.as("cnt") })
@@ -457,9 +503,11 @@ export class PostQueries {
     const orderByClause =
       needsStarSort && starCounts
         ? [desc(sql`coalesce(${starCounts.cnt}, 0)`), desc(posts.createdAt)]
-        : sortBy === "latest"
-          ? [desc(posts.createdAt)]
-          : [desc(rankExpr), desc(posts.createdAt)]; // "relevance" (default)
+        : sortBy === "trending"
+          ? [desc(posts.trendingScore), desc(posts.createdAt)]
+          : sortBy === "latest"
+            ? [desc(posts.createdAt)]
+            : [desc(rankExpr), desc(posts.createdAt)]; // "relevance" (default)
 
     const endTimer = DatabaseMetrics.startQuery();
     try {
@@ -468,10 +516,13 @@ export class PostQueries {
         title: posts.title,
         slug: posts.slug,
         description: posts.description,
+        previewImageUrl: posts.previewImageUrl,
+        kind: posts.kind,
         isPremium: posts.isPremium,
         isFeatured: posts.isFeatured,
         isPublished: posts.isPublished,
         status: posts.status,
+        publishAt: posts.publishAt,
         authorId: posts.authorId,
         categoryId: posts.categoryId,
         createdAt: posts.createdAt,
@@ -479,6 +530,7 @@ export class PostQueries {
         authorUserId: users.id,
         authorName: users.name,
         authorAvatar: users.avatar,
+        authorHandle: users.handle,
         authorEmail: users.email,
         catId: categories.id,
         catName: categories.name,
@@ -513,9 +565,10 @@ export class PostQueries {
       const totalCount = Number(countResult[0]?.count ?? 0);
 
       const postIds = rows.map((r) => r.postId);
-      const [tagsMap, counts] = await Promise.all([
+      const [tagsMap, counts, commentCounts] = await Promise.all([
         getTagsForPostIds(postIds),
         getStarCounts(postIds),
+        getCommentCounts(postIds),
       ]);
 
       let starSet = new Set<string>();
@@ -530,14 +583,17 @@ export class PostQueries {
           title: r.title,
           slug: r.slug,
           description: r.description,
+          previewImageUrl: r.previewImageUrl,
+          kind: r.kind,
           isPremium: r.isPremium ?? false,
           isPublished: r.isPublished ?? false,
           isFeatured: r.isFeatured ?? false,
           status: r.status ?? "DRAFT",
+          publishAt: r.publishAt,
           authorId: r.authorId,
           createdAt: r.createdAt!,
           updatedAt: r.updatedAt!,
-          author: { id: r.authorUserId ?? "", name: r.authorName, avatar: r.authorAvatar, email: r.authorEmail ?? "" },
+          author: { id: r.authorUserId ?? "", name: r.authorName, avatar: r.authorAvatar, handle: r.authorHandle, email: r.authorEmail ?? "" },
           category: {
             id: r.catId ?? "",
             name: r.catName ?? "",
@@ -545,7 +601,7 @@ export class PostQueries {
             parent: r.parentId ? { id: r.parentId, name: r.parentName ?? "", slug: r.parentSlug ?? "" } : null,
           },
           tags: tagsMap.get(r.postId) ?? [],
-          _count: { stars: counts.get(r.postId) ?? 0 },
+          _count: { stars: counts.get(r.postId) ?? 0, comments: commentCounts.get(r.postId) ?? 0 },
           isStarred: userId ? starSet.has(r.postId) : false,
         };
       });
@@ -604,10 +660,13 @@ export class PostQueries {
           title: posts.title,
           slug: posts.slug,
           description: posts.description,
+          previewImageUrl: posts.previewImageUrl,
+          kind: posts.kind,
           isPremium: posts.isPremium,
           isFeatured: posts.isFeatured,
           isPublished: posts.isPublished,
           status: posts.status,
+          publishAt: posts.publishAt,
           authorId: posts.authorId,
           categoryId: posts.categoryId,
           createdAt: posts.createdAt,
@@ -615,6 +674,7 @@ export class PostQueries {
           authorUserId: users.id,
           authorName: users.name,
           authorAvatar: users.avatar,
+          authorHandle: users.handle,
           authorEmail: users.email,
           catId: categories.id,
           catName: categories.name,
@@ -639,9 +699,10 @@ export class PostQueries {
         .limit(limit);
 
       const postIds = rows.map((r) => r.postId);
-      const [tagsMap, counts] = await Promise.all([
+      const [tagsMap, counts, commentCounts] = await Promise.all([
         getTagsForPostIds(postIds),
         getStarCounts(postIds),
+        getCommentCounts(postIds),
       ]);
 
       let starSet = new Set<string>();
@@ -656,14 +717,17 @@ export class PostQueries {
           title: r.title,
           slug: r.slug,
           description: r.description,
+          previewImageUrl: r.previewImageUrl,
+          kind: r.kind,
           isPremium: r.isPremium ?? false,
           isPublished: r.isPublished ?? false,
           isFeatured: r.isFeatured ?? false,
           status: r.status ?? "DRAFT",
+          publishAt: r.publishAt,
           authorId: r.authorId,
           createdAt: r.createdAt!,
           updatedAt: r.updatedAt!,
-          author: { id: r.authorUserId ?? "", name: r.authorName, avatar: r.authorAvatar, email: r.authorEmail ?? "" },
+          author: { id: r.authorUserId ?? "", name: r.authorName, avatar: r.authorAvatar, handle: r.authorHandle, email: r.authorEmail ?? "" },
           category: {
             id: r.catId ?? "",
             name: r.catName ?? "",
@@ -671,7 +735,7 @@ export class PostQueries {
             parent: r.parentId ? { id: r.parentId, name: r.parentName ?? "", slug: r.parentSlug ?? "" } : null,
           },
           tags: tagsMap.get(r.postId) ?? [],
-          _count: { stars: counts.get(r.postId) ?? 0 },
+          _count: { stars: counts.get(r.postId) ?? 0, comments: commentCounts.get(r.postId) ?? 0 },
           isStarred: userId ? starSet.has(r.postId) : false,
         };
       });
@@ -697,9 +761,10 @@ export class PostQueries {
       const parentCat =
         (row as { parent_category?: { id: string; name: string; slug: string } | null })
           .parent_category ?? null;
-      const [tagsList, counts, starRow] = await Promise.all([
+      const [tagsList, counts, commentCounts, starRow] = await Promise.all([
         getTagsForPostIds([p.id]),
         getStarCounts([p.id]),
+        getCommentCounts([p.id]),
         userId
           ? db.select({ id: stars.id }).from(stars).where(and(eq(stars.postId, p.id), eq(stars.userId, userId))).limit(1)
           : Promise.resolve([] as { id: string }[]),
@@ -710,11 +775,14 @@ export class PostQueries {
         title: p.title,
         slug: p.slug,
         description: p.description,
+        previewImageUrl: p.previewImageUrl,
         content: p.content,
+        kind: p.kind,
         isPremium: p.isPremium ?? false,
         isFeatured: p.isFeatured ?? false,
         isPublished: p.isPublished ?? false,
         status: p.status ?? "DRAFT",
+        publishAt: p.publishAt,
         authorId: p.authorId,
         createdAt: p.createdAt!,
         updatedAt: p.updatedAt!,
@@ -733,7 +801,7 @@ export class PostQueries {
             : null,
         },
         tags: tagsList.get(p.id) ?? [],
-        _count: { stars: counts.get(p.id) ?? 0 },
+        _count: { stars: counts.get(p.id) ?? 0, comments: commentCounts.get(p.id) ?? 0 },
         isStarred,
       } as PostFullWithInteractions;
     } finally {
@@ -758,9 +826,10 @@ export class PostQueries {
       const parentCat =
         (row as { parent_category?: { id: string; name: string; slug: string } | null })
           .parent_category ?? null;
-      const [tagsList, counts, starRow] = await Promise.all([
+      const [tagsList, counts, commentCounts, starRow] = await Promise.all([
         getTagsForPostIds([p.id]),
         getStarCounts([p.id]),
+        getCommentCounts([p.id]),
         userId
           ? db.select({ id: stars.id }).from(stars).where(and(eq(stars.postId, p.id), eq(stars.userId, userId))).limit(1)
           : Promise.resolve([] as { id: string }[]),
@@ -771,11 +840,14 @@ export class PostQueries {
         title: p.title,
         slug: p.slug,
         description: p.description,
+        previewImageUrl: p.previewImageUrl,
         content: p.content,
+        kind: p.kind,
         isPremium: p.isPremium ?? false,
         isFeatured: p.isFeatured ?? false,
         isPublished: p.isPublished ?? false,
         status: p.status ?? "DRAFT",
+        publishAt: p.publishAt,
         authorId: p.authorId,
         createdAt: p.createdAt!,
         updatedAt: p.updatedAt!,
@@ -794,7 +866,7 @@ export class PostQueries {
             : null,
         },
         tags: tagsList.get(p.id) ?? [],
-        _count: { stars: counts.get(p.id) ?? 0 },
+        _count: { stars: counts.get(p.id) ?? 0, comments: commentCounts.get(p.id) ?? 0 },
         isStarred,
       } as PostFullWithInteractions;
     } finally {
@@ -816,10 +888,13 @@ export class PostQueries {
           title: posts.title,
           slug: posts.slug,
           description: posts.description,
+          previewImageUrl: posts.previewImageUrl,
+          kind: posts.kind,
           isPremium: posts.isPremium,
           isFeatured: posts.isFeatured,
           isPublished: posts.isPublished,
           status: posts.status,
+          publishAt: posts.publishAt,
           authorId: posts.authorId,
           categoryId: posts.categoryId,
           createdAt: posts.createdAt,
@@ -827,6 +902,7 @@ export class PostQueries {
           authorUserId: users.id,
           authorName: users.name,
           authorAvatar: users.avatar,
+          authorHandle: users.handle,
           authorEmail: users.email,
           catId: categories.id,
           catName: categories.name,
@@ -842,9 +918,10 @@ export class PostQueries {
         .where(inArray(posts.id, ids));
 
       const postIds = rows.map((r) => r.postId);
-      const [tagsMap, counts] = await Promise.all([
+      const [tagsMap, counts, commentCounts] = await Promise.all([
         getTagsForPostIds(postIds),
         getStarCounts(postIds),
+        getCommentCounts(postIds),
       ]);
 
       let starSet = new Set<string>();
@@ -861,14 +938,17 @@ export class PostQueries {
         title: r.title,
         slug: r.slug,
         description: r.description,
+        previewImageUrl: r.previewImageUrl,
+        kind: r.kind,
         isPremium: r.isPremium ?? false,
         isPublished: r.isPublished ?? false,
         isFeatured: r.isFeatured ?? false,
         status: r.status ?? "DRAFT",
+        publishAt: r.publishAt,
         authorId: r.authorId,
         createdAt: r.createdAt!,
         updatedAt: r.updatedAt!,
-        author: { id: r.authorUserId ?? "", name: r.authorName, avatar: r.authorAvatar, email: r.authorEmail ?? "" },
+        author: { id: r.authorUserId ?? "", name: r.authorName, avatar: r.authorAvatar, handle: r.authorHandle, email: r.authorEmail ?? "" },
         category: {
           id: r.catId ?? "",
           name: r.catName ?? "",
@@ -876,7 +956,7 @@ export class PostQueries {
           parent: r.parentId ? { id: r.parentId, name: r.parentName ?? "", slug: r.parentSlug ?? "" } : null,
         },
         tags: tagsMap.get(r.postId) ?? [],
-        _count: { stars: counts.get(r.postId) ?? 0 },
+        _count: { stars: counts.get(r.postId) ?? 0, comments: commentCounts.get(r.postId) ?? 0 },
         isStarred: userId ? starSet.has(r.postId) : undefined,
       }));
     } finally {
@@ -910,6 +990,7 @@ export class PostQueries {
     draft: number;
     pending: number;
     rejected: number;
+    changesRequested: number;
     premium: number;
     featured: number;
   }> {
@@ -941,6 +1022,7 @@ export class PostQueries {
         draft = 0,
         pending = 0,
         rejected = 0,
+        changesRequested = 0,
         premium = 0,
         featured = 0;
       for (const r of rows) {
@@ -950,10 +1032,11 @@ export class PostQueries {
         if (r.status === "DRAFT") draft += c;
         if (r.status === "PENDING_APPROVAL") pending += c;
         if (r.status === "REJECTED") rejected += c;
+        if (r.status === "CHANGES_REQUESTED") changesRequested += c;
         if (r.isPremium && r.isPublished) premium += c;
         if (r.isFeatured && r.isPublished) featured += c;
       }
-      return { total, published, draft, pending, rejected, premium, featured };
+      return { total, published, draft, pending, rejected, changesRequested, premium, featured };
     } finally {
       endTimer();
     }
@@ -1078,7 +1161,7 @@ const memoizedGetPaginated = memoize(
 const memoizedSearch = memoize(
   (
     query: string,
-    params: PaginationParams & { userId?: string; categoryId?: string; isPremium?: boolean }
+    params: PaginationParams & { userId?: string; categoryId?: string; kind?: PostKind; isPremium?: boolean }
   ) => PostQueries.search(query, params),
   (query, params) => `posts-search-${query}-${JSON.stringify(params)}`
 );
@@ -1150,7 +1233,7 @@ export const Queries = {
       params.userId ? PostQueries.getPaginated(params) : getCachedPosts(params),
     search: (
       query: string,
-      params: PaginationParams & { userId?: string; categoryId?: string; isPremium?: boolean }
+      params: PaginationParams & { userId?: string; categoryId?: string; kind?: PostKind; isPremium?: boolean }
     ) => (params.userId ? PostQueries.search(query, params) : getCachedPostSearch(query, params)),
     getById: PostQueries.getById,
     getBySlug: PostQueries.getBySlug,
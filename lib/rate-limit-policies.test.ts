@@ -0,0 +1,250 @@
+/**
+ * Tests for rate-limit policy defaults, overrides and headers (lib/rate-limit-policies.ts)
+ * Run with: npx tsx lib/rate-limit-policies.test.ts
+ */
+
+import {
+  RATE_LIMIT_POLICY_GROUPS,
+  RATE_LIMIT_POLICY_NAMES,
+  diffRateLimitPolicies,
+  getApiKeyRateLimit,
+  getDefaultRateLimitPolicies,
+  getRateLimitHeaders,
+  resolveRateLimitPolicies,
+  type RateLimitResult,
+} from "./rate-limit-policies";
+import { checkRateLimit } from "./edge";
+import { rateLimitPolicyOverridesSchema } from "./schemas";
+import { getRateLimitConfig } from "./security/sanitize";
+
+let passedTests = 0;
+let totalTests = 0;
+
+function check(testName: string, passed: boolean, details?: string) {
+  totalTests += 1;
+  passedTests += passed ? 1 : 0;
+  console.log(`${passed ? "✅" : "❌"} ${testName}`);
+  if (!passed && details) console.log(`  ${details}`);
+}
+
+function checkEqual(testName: string, actual: unknown, expected: unknown) {
+  check(
+    testName,
+    JSON.stringify(actual) === JSON.stringify(expected),
+    `Expected ${JSON.stringify(expected)}\n  Got      ${JSON.stringify(actual)}`
+  );
+}
+
+function withNodeEnv<T>(nodeEnv: string, fn: () => T): T {
+  const env = process.env as Record<string, string | undefined>;
+  const previous = env.NODE_ENV;
+  env.NODE_ENV = nodeEnv;
+  try {
+    return fn();
+  } finally {
+    env.NODE_ENV = previous;
+  }
+}
+
+async function runTests() {
+  console.log("🧪 Testing lib/rate-limit-policies.ts...\n");
+
+  // Defaults
+  const production = withNodeEnv("production", getDefaultRateLimitPolicies);
+  const development = withNodeEnv("development", getDefaultRateLimitPolicies);
+
+  checkEqual("production auth allows 5 per 15 minutes", production.auth, { limit: 5, windowSeconds: 900 });
+  checkEqual("development auth allows 20 per 15 minutes", development.auth, { limit: 20, windowSeconds: 900 });
+  check(
+    "every policy has a default in both environments",
+    RATE_LIMIT_POLICY_NAMES.every((name) => production[name] && development[name])
+  );
+  const stricter = RATE_LIMIT_POLICY_NAMES.filter((name) => development[name].limit < production[name].limit);
+  check("development is never stricter than production", stricter.length === 0, `Stricter: ${stricter.join(", ")}`);
+  check(
+    "API key writes are limited more tightly than reads",
+    production.apiKeyWrite.limit < production.apiKeyRead.limit
+  );
+
+  const grouped = RATE_LIMIT_POLICY_GROUPS.flatMap((group) => group.policies.map((policy) => policy.name));
+  checkEqual("the settings form lists every policy once", [...grouped].sort(), [...RATE_LIMIT_POLICY_NAMES].sort());
+
+  // Resolution
+  withNodeEnv("production", () => {
+    checkEqual("no overrides resolves to the defaults", resolveRateLimitPolicies(null), production);
+    checkEqual("undefined overrides resolve to the defaults", resolveRateLimitPolicies(undefined), production);
+
+    const resolved = resolveRateLimitPolicies({ search: { limit: 90, windowSeconds: 30 } });
+    checkEqual("an override replaces its policy", resolved.search, { limit: 90, windowSeconds: 30 });
+    check(
+      "other policies keep their defaults",
+      RATE_LIMIT_POLICY_NAMES.filter((name) => name !== "search").every(
+        (name) => JSON.stringify(resolved[name]) === JSON.stringify(production[name])
+      )
+    );
+  });
+
+  // Diffing
+  withNodeEnv("production", () => {
+    checkEqual("the defaults diff to nothing", diffRateLimitPolicies(production), {});
+    checkEqual(
+      "only changed policies are kept",
+      diffRateLimitPolicies({
+        ...production,
+        auth: { limit: 10, windowSeconds: 900 },
+        upload: { limit: 10, windowSeconds: 120 },
+      }),
+      { auth: { limit: 10, windowSeconds: 900 }, upload: { limit: 10, windowSeconds: 120 } }
+    );
+    checkEqual(
+      "extra fields are not stored",
+      diffRateLimitPolicies({ csrf: { limit: 1, windowSeconds: 1, extra: true } as never }),
+      { csrf: { limit: 1, windowSeconds: 1 } }
+    );
+    const overrides = { comment: { limit: 7, windowSeconds: 60 } };
+    checkEqual(
+      "diffing resolved overrides round-trips",
+      diffRateLimitPolicies(resolveRateLimitPolicies(overrides)),
+      overrides
+    );
+  });
+
+  // Stored overrides
+  check(
+    "valid overrides parse",
+    rateLimitPolicyOverridesSchema.safeParse({ api: { limit: 100, windowSeconds: 60 } }).success
+  );
+  check(
+    "unknown policy names are rejected",
+    !rateLimitPolicyOverridesSchema.safeParse({ unknown: { limit: 100, windowSeconds: 60 } }).success
+  );
+  const invalidPolicies = [
+    { limit: 0, windowSeconds: 60 },
+    { limit: 1.5, windowSeconds: 60 },
+    { limit: 100001, windowSeconds: 60 },
+    { limit: 10, windowSeconds: 0 },
+    { limit: 10, windowSeconds: 86401 },
+    { limit: "10", windowSeconds: 60 },
+  ];
+  const accepted = invalidPolicies.filter(
+    (policy) => rateLimitPolicyOverridesSchema.safeParse({ api: policy }).success
+  );
+  check("out-of-range policies are rejected", accepted.length === 0, `Accepted ${JSON.stringify(accepted)}`);
+
+  // Legacy config
+  checkEqual(
+    "getRateLimitConfig reports windows in milliseconds",
+    withNodeEnv("production", getRateLimitConfig).auth,
+    { limit: 5, window: 15 * 60 * 1000 }
+  );
+
+  // API key tiers
+  const read = getApiKeyRateLimit("key-1", false);
+  const write = getApiKeyRateLimit("key-1", true);
+  checkEqual("API key reads use the read policy", read.policy, "apiKeyRead");
+  checkEqual("API key writes use the write policy", write.policy, "apiKeyWrite");
+  check("reads and writes are counted in separate buckets", read.identifier !== write.identifier);
+  check(
+    "each key has its own buckets",
+    getApiKeyRateLimit("key-2", false).identifier !== read.identifier
+  );
+
+  const tiers = withNodeEnv("production", getDefaultRateLimitPolicies);
+  // Counts requests in the in-memory limiter the proxy uses
+  const spend = async (bucket: ReturnType<typeof getApiKeyRateLimit>, times: number) => {
+    let last: RateLimitResult | null = null;
+    for (let i = 0; i < times; i++) {
+      last = await checkRateLimit({
+        identifier: bucket.identifier,
+        limit: tiers[bucket.policy].limit,
+        window: tiers[bucket.policy].windowSeconds * 1000,
+      });
+    }
+    return last;
+  };
+  await spend(read, tiers.apiKeyWrite.limit);
+  const firstWrite = await spend(write, 1);
+  check(
+    "reads don't use up the write budget",
+    firstWrite?.allowed === true && firstWrite.remaining === tiers.apiKeyWrite.limit - 1,
+    JSON.stringify(firstWrite)
+  );
+  await spend(write, tiers.apiKeyWrite.limit);
+  const readAfterWrites = await spend(read, 1);
+  check(
+    "exhausted writes don't block reads",
+    readAfterWrites?.allowed === true &&
+      readAfterWrites.remaining === tiers.apiKeyRead.limit - tiers.apiKeyWrite.limit - 1,
+    JSON.stringify(readAfterWrites)
+  );
+  const blockedWrite = await spend(write, 1);
+  check("the write budget is still enforced", blockedWrite?.allowed === false);
+
+  // Headers
+  const now = Date.now();
+  const headers = getRateLimitHeaders({
+    allowed: true,
+    count: 3,
+    remaining: 7,
+    resetTime: now + 30_500,
+    blocked: false,
+    limit: 10,
+    windowMs: 60_000,
+    policy: "search",
+  });
+  checkEqual(
+    "standard headers describe the named policy",
+    [headers["RateLimit-Limit"], headers["RateLimit-Remaining"], headers["RateLimit-Policy"]],
+    ["10", "7", '10;w=60;name="search"']
+  );
+  check(
+    "RateLimit-Reset is whole seconds from now",
+    ["30", "31"].includes(headers["RateLimit-Reset"] ?? ""),
+    `Got ${headers["RateLimit-Reset"]}`
+  );
+  checkEqual(
+    "legacy headers are kept",
+    [headers["X-RateLimit-Limit"], headers["X-RateLimit-Remaining"], headers["X-RateLimit-Blocked"]],
+    ["10", "7", "false"]
+  );
+  checkEqual(
+    "X-RateLimit-Reset is an ISO timestamp",
+    headers["X-RateLimit-Reset"],
+    new Date(now + 30_500).toISOString()
+  );
+
+  const expired = getRateLimitHeaders({
+    allowed: false,
+    count: 11,
+    remaining: 0,
+    resetTime: now - 5_000,
+    blocked: true,
+    limit: 10,
+    windowMs: 1_500,
+  });
+  checkEqual(
+    "a past reset clamps to zero and unnamed policies omit the name",
+    [expired["RateLimit-Reset"], expired["RateLimit-Policy"], expired["X-RateLimit-Blocked"]],
+    ["0", "10;w=2", "true"]
+  );
+
+  console.log();
+  console.log(`📊 Test Results: ${passedTests}/${totalTests} tests passed`);
+
+  if (passedTests === totalTests) {
+    console.log("🎉 All tests passed! Rate-limit policies are working correctly.");
+  } else {
+    console.log("⚠️ Some tests failed. Please review the output above.");
+    process.exitCode = 1;
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
+
+export { runTests };
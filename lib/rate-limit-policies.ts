@@ -0,0 +1,181 @@
+/**
+ * Named rate-limit policies and their defaults. Pure so the settings form can
+ * share them with the limiters in lib/edge.ts and lib/security/limits.ts.
+ *
+ * Admins override individual policies on /settings; only the overridden
+ * policies are stored, so the environment defaults below still apply to the
+ * rest.
+ */
+
+export const RATE_LIMIT_POLICY_NAMES = [
+  "auth",
+  "upload",
+  "admin",
+  "csrf",
+  "search",
+  "interactions",
+  "comment",
+  "createPost",
+  "createTag",
+  "api",
+  "apiAuthenticated",
+  "apiKeyRead",
+  "apiKeyWrite",
+] as const;
+
+export type RateLimitPolicyName = (typeof RATE_LIMIT_POLICY_NAMES)[number];
+
+export interface RateLimitPolicy {
+  limit: number;
+  windowSeconds: number;
+}
+
+export type RateLimitPolicies = Record<RateLimitPolicyName, RateLimitPolicy>;
+
+export type RateLimitPolicyOverrides = Partial<RateLimitPolicies>;
+
+export const RATE_LIMIT_POLICY_GROUPS: {
+  label: string;
+  description: string;
+  policies: { name: RateLimitPolicyName; label: string; description: string }[];
+}[] = [
+  {
+    label: "Route groups",
+    description: "Per client IP, or per user for signed-in actions.",
+    policies: [
+      { name: "auth", label: "Sign-in and sign-up", description: "Auth actions and /api/v1/auth" },
+      { name: "upload", label: "Uploads", description: "/api/v1/upload" },
+      { name: "admin", label: "Admin API", description: "/api/v1/admin" },
+      { name: "csrf", label: "CSRF tokens", description: "/api/v1/csrf" },
+      { name: "search", label: "Search", description: "Post listing and search" },
+      { name: "interactions", label: "Interactions", description: "Post events and page views" },
+      { name: "comment", label: "Comments", description: "New comments and edits, per user" },
+      { name: "createPost", label: "Post creation", description: "New posts" },
+      { name: "createTag", label: "Tag creation", description: "New tags" },
+    ],
+  },
+  {
+    label: "Auth state",
+    description: "Every other API request, by whether the caller is signed in.",
+    policies: [
+      { name: "api", label: "Anonymous", description: "Per client IP" },
+      { name: "apiAuthenticated", label: "Signed in", description: "Per user, cookie or bearer token" },
+    ],
+  },
+  {
+    label: "API key tiers",
+    description: "Per personal API key, split so writes can't starve reads.",
+    policies: [
+      { name: "apiKeyRead", label: "Reads", description: "GET and HEAD requests" },
+      { name: "apiKeyWrite", label: "Writes", description: "POST, PUT, PATCH and DELETE requests" },
+    ],
+  },
+];
+
+const MINUTE = 60;
+
+const PRODUCTION_POLICIES: RateLimitPolicies = {
+  auth: { limit: 5, windowSeconds: 15 * MINUTE },
+  upload: { limit: 10, windowSeconds: MINUTE },
+  admin: { limit: 10, windowSeconds: MINUTE },
+  csrf: { limit: 20, windowSeconds: MINUTE },
+  search: { limit: 30, windowSeconds: MINUTE },
+  interactions: { limit: 100, windowSeconds: MINUTE },
+  comment: { limit: 5, windowSeconds: MINUTE },
+  createPost: { limit: 3, windowSeconds: MINUTE },
+  createTag: { limit: 15, windowSeconds: MINUTE },
+  api: { limit: 60, windowSeconds: MINUTE },
+  apiAuthenticated: { limit: 120, windowSeconds: MINUTE },
+  apiKeyRead: { limit: 120, windowSeconds: MINUTE },
+  apiKeyWrite: { limit: 30, windowSeconds: MINUTE },
+};
+
+// More lenient outside production
+const DEVELOPMENT_POLICIES: RateLimitPolicies = {
+  auth: { limit: 20, windowSeconds: 15 * MINUTE },
+  upload: { limit: 50, windowSeconds: MINUTE },
+  admin: { limit: 100, windowSeconds: MINUTE },
+  csrf: { limit: 100, windowSeconds: MINUTE },
+  search: { limit: 200, windowSeconds: MINUTE },
+  interactions: { limit: 1000, windowSeconds: MINUTE },
+  comment: { limit: 50, windowSeconds: MINUTE },
+  createPost: { limit: 20, windowSeconds: MINUTE },
+  createTag: { limit: 100, windowSeconds: MINUTE },
+  api: { limit: 500, windowSeconds: MINUTE },
+  apiAuthenticated: { limit: 1000, windowSeconds: MINUTE },
+  apiKeyRead: { limit: 1000, windowSeconds: MINUTE },
+  apiKeyWrite: { limit: 200, windowSeconds: MINUTE },
+};
+
+export function getDefaultRateLimitPolicies(): RateLimitPolicies {
+  return process.env.NODE_ENV === "production" ? PRODUCTION_POLICIES : DEVELOPMENT_POLICIES;
+}
+
+/** The defaults with stored overrides applied. */
+export function resolveRateLimitPolicies(
+  overrides: RateLimitPolicyOverrides | null | undefined
+): RateLimitPolicies {
+  return { ...getDefaultRateLimitPolicies(), ...overrides };
+}
+
+/** Only the policies that differ from the defaults, for storage. */
+export function diffRateLimitPolicies(policies: RateLimitPolicyOverrides): RateLimitPolicyOverrides {
+  const defaults = getDefaultRateLimitPolicies();
+  const overrides: RateLimitPolicyOverrides = {};
+  for (const name of RATE_LIMIT_POLICY_NAMES) {
+    const policy = policies[name];
+    if (
+      policy &&
+      (policy.limit !== defaults[name].limit || policy.windowSeconds !== defaults[name].windowSeconds)
+    ) {
+      overrides[name] = { limit: policy.limit, windowSeconds: policy.windowSeconds };
+    }
+  }
+  return overrides;
+}
+
+/**
+ * The policy and bucket for an API key request. Reads and writes count in
+ * separate per-key buckets, so each tier only spends its own budget.
+ */
+export function getApiKeyRateLimit(
+  keyId: string,
+  isWrite: boolean
+): { policy: "apiKeyRead" | "apiKeyWrite"; identifier: string } {
+  return isWrite
+    ? { policy: "apiKeyWrite", identifier: `apikey:write:${keyId}` }
+    : { policy: "apiKeyRead", identifier: `apikey:read:${keyId}` };
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  count: number;
+  remaining: number;
+  resetTime: number;
+  blocked: boolean;
+  limit: number;
+  windowMs: number;
+  policy?: RateLimitPolicyName;
+}
+
+/**
+ * Rate limit headers for HTTP responses: the standard RateLimit-* fields
+ * (IETF httpapi draft; Reset is seconds from now) plus the older X-RateLimit-*
+ * ones existing clients read.
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((result.resetTime - Date.now()) / 1000));
+  const windowSeconds = Math.ceil(result.windowMs / 1000);
+  return {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(resetSeconds),
+    "RateLimit-Policy": result.policy
+      ? `${result.limit};w=${windowSeconds};name="${result.policy}"`
+      : `${result.limit};w=${windowSeconds}`,
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": new Date(result.resetTime).toISOString(),
+    "X-RateLimit-Blocked": result.blocked ? "true" : "false",
+  };
+}
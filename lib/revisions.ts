@@ -0,0 +1,107 @@
+import { db, type TxClient } from "@/lib/db";
+import { postRevisions, users } from "@/lib/db/schema";
+import type { PostRevisionSource } from "@/lib/db/schema";
+import { and, desc, eq, sql } from "drizzle-orm";
+
+export interface PostRevisionSnapshot {
+  title: string;
+  description: string | null;
+  content: string;
+}
+
+export interface PostRevision extends PostRevisionSnapshot {
+  id: string;
+  postId: string;
+  revisionNumber: number;
+  source: PostRevisionSource;
+  restoredFromId: string | null;
+  createdAt: Date;
+  user: {
+    id: string;
+    name: string | null;
+  } | null;
+}
+
+/**
+ * Append a revision for a post. Call inside the same transaction that writes
+ * the post so history never drifts from the row it describes. The revision
+ * number is allocated from the current max for the post; the unique index on
+ * (postId, revisionNumber) rejects concurrent writers that race for the same
+ * number, which rolls back the surrounding transaction.
+ */
+export async function recordPostRevision(
+  tx: TxClient,
+  input: PostRevisionSnapshot & {
+    postId: string;
+    userId: string | null;
+    source: PostRevisionSource;
+    restoredFromId?: string | null;
+  }
+): Promise<void> {
+  await tx.insert(postRevisions).values({
+    postId: input.postId,
+    revisionNumber: sql`(
+      SELECT COALESCE(MAX(${postRevisions.revisionNumber}), 0) + 1
+      FROM ${postRevisions}
+      WHERE ${postRevisions.postId} = ${input.postId}
+    )`,
+    title: input.title,
+    description: input.description,
+    content: input.content,
+    source: input.source,
+    restoredFromId: input.restoredFromId ?? null,
+    userId: input.userId,
+  });
+}
+
+const REVISION_SELECT = {
+  id: postRevisions.id,
+  postId: postRevisions.postId,
+  revisionNumber: postRevisions.revisionNumber,
+  title: postRevisions.title,
+  description: postRevisions.description,
+  content: postRevisions.content,
+  source: postRevisions.source,
+  restoredFromId: postRevisions.restoredFromId,
+  createdAt: postRevisions.createdAt,
+  userId: users.id,
+  userName: users.name,
+} as const;
+
+function selectRevisions() {
+  return db
+    .select(REVISION_SELECT)
+    .from(postRevisions)
+    .leftJoin(users, eq(postRevisions.userId, users.id));
+}
+
+type RevisionRow = Awaited<ReturnType<typeof selectRevisions>>[number];
+
+function toRevision(row: RevisionRow): PostRevision {
+  const { userId, userName, ...rest } = row;
+  return {
+    ...rest,
+    user: userId ? { id: userId, name: userName } : null,
+  };
+}
+
+/** All revisions of a post, newest first. Callers are responsible for access checks. */
+export async function getPostRevisions(postId: string): Promise<PostRevision[]> {
+  const rows = await selectRevisions()
+    .where(eq(postRevisions.postId, postId))
+    .orderBy(desc(postRevisions.revisionNumber));
+  return rows.map(toRevision);
+}
+
+/** A single revision, scoped to its post so ids from other posts are rejected. */
+export async function getPostRevision(
+  postId: string,
+  revisionId: string
+): Promise<PostRevision | null> {
+  const [row] = await selectRevisions()
+    .where(
+      and(eq(postRevisions.postId, postId), eq(postRevisions.id, revisionId))
+    )
+    .limit(1);
+  return row ? toRevision(row) : null;
+}
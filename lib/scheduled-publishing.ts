@@ -0,0 +1,63 @@
+import { and, eq, lte } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { db } from "@/lib/db";
+import { blogPosts, posts } from "@/lib/db/schema";
+import { revalidateCache, CACHE_TAGS } from "@/lib/cache";
+import { notifyFollowersOfNewPost } from "@/lib/notifications";
+
+/**
+ * Flips every SCHEDULED blog article and post whose publish time has passed
+ * to live, then invalidates the caches that list them. Blog articles keep
+ * their scheduled time as publishedAt; posts become APPROVED like a manual
+ * publish would make them, and their authors' followers are notified.
+ */
+export async function publishDueContent(
+  now = new Date()
+): Promise<{ blogPostCount: number; postCount: number }> {
+  const publishedBlogPosts = await db
+    .update(blogPosts)
+    .set({ status: "PUBLISHED", updatedAt: now })
+    .where(and(eq(blogPosts.status, "SCHEDULED"), lte(blogPosts.publishedAt, now)))
+    .returning({ id: blogPosts.id });
+
+  const publishedPosts = await db
+    .update(posts)
+    .set({ status: "APPROVED", isPublished: true, updatedAt: now })
+    .where(and(eq(posts.status, "SCHEDULED"), lte(posts.publishAt, now)))
+    .returning({ id: posts.id });
+
+  if (publishedBlogPosts.length > 0) {
+    await revalidateCache([
+      CACHE_TAGS.BLOG_POSTS,
+      CACHE_TAGS.BLOG_POST_BY_SLUG,
+      CACHE_TAGS.BLOG_POST_BY_ID,
+      CACHE_TAGS.ANALYTICS,
+    ]);
+    revalidatePath("/blog");
+    revalidatePath("/blog/[slug]", "page");
+  }
+
+  for (const post of publishedPosts) {
+    await notifyFollowersOfNewPost(post.id);
+  }
+
+  if (publishedPosts.length > 0) {
+    await revalidateCache([
+      CACHE_TAGS.POSTS,
+      CACHE_TAGS.POST_BY_ID,
+      CACHE_TAGS.POST_BY_SLUG,
+      CACHE_TAGS.CATEGORIES,
+      CACHE_TAGS.TAGS,
+      CACHE_TAGS.SEARCH_RESULTS,
+      CACHE_TAGS.USER_POSTS,
+      CACHE_TAGS.ANALYTICS,
+    ]);
+    revalidatePath("/");
+    revalidatePath("/directory");
+  }
+
+  return {
+    blogPostCount: publishedBlogPosts.length,
+    postCount: publishedPosts.length,
+  };
+}
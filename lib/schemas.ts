@@ -1,4 +1,13 @@
 import { z } from "zod";
+import {
+  POST_KINDS,
+  parsePostKind,
+  postKindSlug,
+  validatePostContent,
+} from "@/lib/post-kinds";
+import { isPublicHostname, normalizeCidr, normalizeIp } from "@/lib/security/ip";
+import { RATE_LIMIT_POLICY_NAMES } from "@/lib/rate-limit-policies";
+import type { PostKind } from "@/lib/db/schema";
 
 // Authentication schemas - Updated for Magic Link only
 export const magicLinkSchema = z.object({
@@ -23,8 +32,106 @@ export const starSchema = z.object({
   postId: z.string().uuid("Invalid post ID"),
 });
 
+// Engagement event reported by the post modal / standalone page
+export const postEventSchema = z.object({
+  type: z.enum(["view", "copy"]),
+});
+
+// Page view reported by the public-site tracker (lib/analytics.ts)
+export const pageViewSchema = z.object({
+  path: z
+    .string()
+    .max(512)
+    .regex(/^\/[^?#\s]*$/, "Invalid path"),
+  referrer: z.string().max(2048).optional().default(""),
+});
+
+// Lenient integer query param: non-numbers fall back, out-of-range values clamp
+function clampedIntParam(min: number, max: number, fallback: number) {
+  return z
+    .preprocess((v) => {
+      const n = parseInt(String(v ?? ""), 10);
+      return Number.isNaN(n) ? fallback : Math.max(min, Math.min(max, n));
+    }, z.number().int().min(min).max(max))
+    .default(fallback);
+}
+
+const postKindQueryValues = POST_KINDS.flatMap((k) => [k, postKindSlug(k)]) as [
+  string,
+  ...string[],
+];
+
+// GET /api/v1/posts query string. Never fails: unknown filter values are
+// ignored so stale links keep working.
+export const postListQuerySchema = z.object({
+  page: clampedIntParam(1, 100, 1),
+  limit: clampedIntParam(1, 50, 12),
+  q: z.string().trim().catch("").default("").describe("Full-text search query"),
+  category: z.string().catch("").default("").describe("Category slug"),
+  subcategory: z.string().catch("").default("").describe("Subcategory slug (wins over category)"),
+  premium: z
+    .enum(["premium", "free", "true", "false"])
+    .optional()
+    .catch(undefined)
+    .describe("Only premium (premium/true) or free (free/false) posts"),
+  kind: z
+    .enum(postKindQueryValues)
+    .optional()
+    .catch(undefined)
+    .transform((v) => (v && parsePostKind(v)) || undefined)
+    .describe("Post kind, as the enum value or its slug"),
+  sortBy: z
+    .enum(["latest", "popular", "trending", "relevance"])
+    .default("latest")
+    .catch("latest"),
+  author: z.string().trim().catch("").default("").describe("Author handle"),
+  feed: z
+    .enum(["following"])
+    .optional()
+    .catch(undefined)
+    .describe("following: only posts by authors the signed-in user follows"),
+});
+
+// markNotificationsReadAction ids; omitted means "mark all read"
+export const markNotificationsReadSchema = z
+  .array(z.string().min(1).max(100))
+  .max(100, "Too many notifications")
+  .optional();
+
+// GET /api/v1/tags query string
+export const tagListQuerySchema = z.object({
+  q: z.string().trim().optional().describe("Case-insensitive name filter (max 20 results)"),
+});
+
+// Post kind — accepts the enum value ("MCP_CONFIG") or its slug ("mcp-config");
+// omitted means a plain prompt.
+const postKindSchema = z
+  .string()
+  .optional()
+  .transform((v, ctx): PostKind => {
+    if (!v) return "PROMPT";
+    const kind = parsePostKind(v);
+    if (!kind) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid post kind" });
+      return z.NEVER;
+    }
+    return kind;
+  });
+
+// Kind-specific content rules (MCP configs must be JSON, skills need
+// frontmatter, …) — see validatePostContent in lib/post-kinds.ts.
+function refineContentForKind(
+  data: { kind: PostKind; content: string },
+  ctx: z.RefinementCtx
+) {
+  const message = validatePostContent(data.kind, data.content);
+  if (message) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["content"], message });
+  }
+}
+
 // Enhanced post schemas with comprehensive validation and security measures
-export const createPostSchema = z.object({
+const createPostBaseSchema = z.object({
   title: z
     .string()
     .min(1, "Title is required")
@@ -71,6 +178,7 @@ export const createPostSchema = z.object({
       (val) => val.length >= 10,
       "Content must be at least 10 characters after trimming"
     ),
+  kind: postKindSchema,
   categoryId: z.string().uuid("Invalid category ID"),
   tagIds: z
     .array(z.string().uuid("Invalid tag ID"))
@@ -81,9 +189,13 @@ export const createPostSchema = z.object({
   isPublished: z.boolean().default(false),
 });
 
-export const updatePostSchema = createPostSchema.extend({
-  id: z.string().uuid("Invalid post ID"),
-});
+export const createPostSchema = createPostBaseSchema.superRefine(refineContentForKind);
+
+export const updatePostSchema = createPostBaseSchema
+  .extend({
+    id: z.string().uuid("Invalid post ID"),
+  })
+  .superRefine(refineContentForKind);
 
 // Enhanced tag schemas with strict validation for security
 export const createTagSchema = z.object({
@@ -195,6 +307,41 @@ export const fileUploadSchema = z.object({
     .refine((val) => val.length > 0, "Title cannot be empty after trimming"),
 });
 
+// Images accepted by the presigned upload endpoints, with the extension each
+// is stored under. SVG is excluded — it can carry script.
+export const UPLOAD_IMAGE_TYPES = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/avif": "avif",
+} as const;
+export type UploadImageType = keyof typeof UPLOAD_IMAGE_TYPES;
+
+export const MAX_UPLOAD_SIZE = 5 * 1024 * 1024; // 5 MB
+
+export const uploadRequestSchema = fileUploadSchema.extend({
+  filename: z
+    .string()
+    .min(1, "Filename is required")
+    .max(200, "Filename must be 200 characters or less"),
+  contentType: z.enum(
+    Object.keys(UPLOAD_IMAGE_TYPES) as [UploadImageType, ...UploadImageType[]],
+    { errorMap: () => ({ message: "Only JPEG, PNG, WebP, GIF and AVIF images can be uploaded" }) }
+  ),
+  size: z
+    .number()
+    .int()
+    .positive("File is empty")
+    .max(MAX_UPLOAD_SIZE, `Images must be ${MAX_UPLOAD_SIZE / 1024 / 1024} MB or smaller`),
+  purpose: z.enum(["BLOG_IMAGE", "BLOG_FEATURED_IMAGE", "POST_PREVIEW"]),
+});
+
+// Public profile handle (/u/[handle]): 3-30 lowercase letters, digits and
+// hyphens, starting and ending alphanumeric
+export const HANDLE_PATTERN = /^[a-z0-9][a-z0-9-]{1,28}[a-z0-9]$/;
+export const MAX_PROFILE_LINKS = 5;
+
 // User profile schemas with enhanced security
 export const updateUserProfileSchema = z.object({
   name: z
@@ -240,6 +387,26 @@ export const updateUserProfileSchema = z.object({
     .transform((val) => val.trim())
     .optional()
     .nullable(),
+  handle: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(
+      HANDLE_PATTERN,
+      "Handle must be 3-30 lowercase letters, numbers or hyphens, starting and ending with a letter or number"
+    )
+    .optional(),
+  links: z
+    .array(
+      z
+        .string()
+        .trim()
+        .url("Each link must be a valid URL")
+        .max(200, "Links must be 200 characters or less")
+        .refine((val) => /^https?:\/\//i.test(val), "Links must start with http:// or https://")
+    )
+    .max(MAX_PROFILE_LINKS, `You can add at most ${MAX_PROFILE_LINKS} links`)
+    .optional(),
   avatar: z.string().url("Invalid avatar URL").optional().nullable(),
 });
 
@@ -297,6 +464,25 @@ export const rateLimitSchema = z.object({
   window: z.number().int().min(1000, "Window must be at least 1000ms"),
 });
 
+export const rateLimitPolicySchema = z.object({
+  limit: z
+    .number({ invalid_type_error: "Limit must be a number" })
+    .int("Limit must be a whole number")
+    .min(1, "Limit must be at least 1")
+    .max(100000, "Limit must be at most 100000"),
+  windowSeconds: z
+    .number({ invalid_type_error: "Window must be a number" })
+    .int("Window must be a whole number of seconds")
+    .min(1, "Window must be at least 1 second")
+    .max(86400, "Window must be at most 24 hours"),
+});
+
+// Keyed by policy name; unknown names are rejected
+export const rateLimitPolicyOverridesSchema = z.record(
+  z.enum(RATE_LIMIT_POLICY_NAMES),
+  rateLimitPolicySchema
+);
+
 // FormData schemas for post server actions.
 // All FormData values arrive as strings; these schemas coerce them
 // to the correct types so actions never need manual string-handling.
@@ -312,6 +498,14 @@ function hasControlChars(v: string): boolean {
   return false;
 }
 
+// ISO timestamp from the "publish at" picker; empty means publish manually
+const publishAtSchema = z
+  .string()
+  .optional()
+  .transform((v) => (v ? new Date(v) : null))
+  .refine((v) => !v || !Number.isNaN(v.getTime()), "Invalid publish date")
+  .refine((v) => !v || v.getTime() > Date.now(), "Publish date must be in the future");
+
 const postFormBaseSchema = z.object({
   title: z
     .string()
@@ -341,11 +535,16 @@ const postFormBaseSchema = z.object({
     .optional()
     .transform((v) => v || null)
     .refine((v) => !v || !hasControlChars(v), "Description contains invalid characters"),
+  previewImageUrl: z
+    .union([z.string().url("Invalid preview image URL"), z.literal("")])
+    .optional()
+    .transform((v) => v || null),
   content: z
     .string()
     .trim()
     .min(10, "Content must be at least 10 characters")
     .max(50000, "Content must be 50,000 characters or less"),
+  kind: postKindSchema,
   category: z
     .string()
     .min(1, "Category is required")
@@ -364,12 +563,16 @@ const postFormBaseSchema = z.object({
   // Checkboxes send "on" when checked, absent when unchecked
   isPublished: z.string().optional().transform((v) => v === "on"),
   isPremium: z.string().optional().transform((v) => v === "on"),
+  // Admin only: a future date schedules the post instead of publishing it
+  publishAt: publishAtSchema,
 });
 
-export const createPostFormSchema = postFormBaseSchema;
-export const updatePostFormSchema = postFormBaseSchema.extend({
-  id: z.string().uuid("Invalid post ID"),
-});
+export const createPostFormSchema = postFormBaseSchema.superRefine(refineContentForKind);
+export const updatePostFormSchema = postFormBaseSchema
+  .extend({
+    id: z.string().uuid("Invalid post ID"),
+  })
+  .superRefine(refineContentForKind);
 
 export type CreatePostFormData = z.infer<typeof createPostFormSchema>;
 export type UpdatePostFormData = z.infer<typeof updatePostFormSchema>;
@@ -403,6 +606,7 @@ export const postBulkImportItemSchema = z.preprocess(
     .trim()
     .optional()
     .default(""),
+  kind: postKindSchema,
   category: z
     .string()
     .min(1, "category is required")
@@ -425,7 +629,7 @@ export const postBulkImportItemSchema = z.preprocess(
     .max(20, "maximum 20 tags allowed")
     .optional()
     .default([]),
-}));
+}).superRefine(refineContentForKind));
 
 export type PostBulkImportItem = z.infer<typeof postBulkImportItemSchema>;
 
@@ -446,6 +650,7 @@ export const postImportSchema = z.preprocess(
     .min(10, "content must be at least 10 characters")
     .max(50000, "content must be 50,000 characters or less")
     .trim(),
+  kind: postKindSchema,
   description: z
     .string()
     .max(500, "description must be 500 characters or less")
@@ -468,6 +673,226 @@ export const postImportSchema = z.preprocess(
 
 export type PostImportData = z.infer<typeof postImportSchema>;
 
+// Reviewer note attached to approve / reject / request-changes decisions.
+// Empty strings collapse to null so "no note" is stored consistently.
+export const moderationNoteSchema = z
+  .string()
+  .trim()
+  .max(2000, "Note must be 2,000 characters or less")
+  .optional()
+  .nullable()
+  .transform((v) => v || null)
+  .refine((v) => !v || !hasControlChars(v), "Note contains invalid characters");
+
+// ---------------------------------------------------------------------------
+// Collection schemas
+// ---------------------------------------------------------------------------
+
+export const collectionFormSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Title is required")
+    .max(100, "Title must be 100 characters or less")
+    .refine((v) => !hasControlChars(v), "Title contains invalid characters"),
+  description: z
+    .string()
+    .max(500, "Description must be 500 characters or less")
+    .trim()
+    .optional()
+    .transform((v) => v || null)
+    .refine((v) => !v || !hasControlChars(v), "Description contains invalid characters"),
+  // Checkbox/switch sends "on" when checked, absent when unchecked
+  isPublic: z.string().optional().transform((v) => v === "on"),
+});
+
+export const updateCollectionFormSchema = collectionFormSchema.extend({
+  id: z.string().uuid("Invalid collection ID"),
+});
+
+export const collectionPostSchema = z.object({
+  collectionId: z.string().uuid("Invalid collection ID"),
+  postId: z.string().uuid("Invalid post ID"),
+});
+
+export const collectionOrderSchema = z.object({
+  collectionId: z.string().uuid("Invalid collection ID"),
+  postIds: z.array(z.string().uuid("Invalid post ID")).max(500, "Too many posts"),
+});
+
+export type CollectionPostData = z.infer<typeof collectionPostSchema>;
+export type CollectionOrderData = z.infer<typeof collectionOrderSchema>;
+
+// ---------------------------------------------------------------------------
+// Comment schemas
+// ---------------------------------------------------------------------------
+
+export const COMMENT_MAX_LENGTH = 2000;
+
+const commentBodySchema = z
+  .string()
+  .trim()
+  .min(1, "Comment cannot be empty")
+  .max(COMMENT_MAX_LENGTH, `Comment must be ${COMMENT_MAX_LENGTH.toLocaleString("en-US")} characters or less`)
+  .refine((v) => !hasControlChars(v), "Comment contains invalid characters");
+
+export const createCommentSchema = z.object({
+  postId: z.string().uuid("Invalid post ID"),
+  parentId: z.string().uuid("Invalid comment ID").optional().nullable(),
+  body: commentBodySchema,
+});
+
+export const updateCommentSchema = z.object({
+  commentId: z.string().uuid("Invalid comment ID"),
+  body: commentBodySchema,
+});
+
+// ---------------------------------------------------------------------------
+// API key schemas
+// ---------------------------------------------------------------------------
+
+export const apiKeyFormSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(50, "Name must be 50 characters or less")
+    .refine((v) => !hasControlChars(v), "Name contains invalid characters"),
+  scope: z.enum(["READ", "WRITE"], { errorMap: () => ({ message: "Invalid scope" }) }),
+});
+
+// ---------------------------------------------------------------------------
+// Alert rule schemas
+// ---------------------------------------------------------------------------
+
+const alertSeverities = ["LOW", "MEDIUM", "HIGH", "CRITICAL"] as const;
+
+// Blank filter fields mean "match anything"
+const optionalFilterSchema = z
+  .string()
+  .trim()
+  .max(100, "Filters must be 100 characters or less")
+  .refine((v) => !hasControlChars(v), "Filter contains invalid characters")
+  .optional()
+  .transform((v) => v || null);
+
+export const alertRuleFormSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must be 100 characters or less")
+    .refine((v) => !hasControlChars(v), "Name contains invalid characters"),
+  action: optionalFilterSchema,
+  threatType: optionalFilterSchema,
+  entityType: optionalFilterSchema,
+  minSeverity: z
+    .enum([...alertSeverities, ""], { errorMap: () => ({ message: "Invalid minimum severity" }) })
+    .optional()
+    .transform((v) => v || null),
+  threshold: z.coerce
+    .number()
+    .int("Threshold must be a whole number")
+    .min(1, "Threshold must be at least 1")
+    .max(10000, "Threshold must be 10,000 or less"),
+  windowSeconds: z.coerce
+    .number()
+    .int("Window must be a whole number of seconds")
+    .min(10, "Window must be at least 10 seconds")
+    .max(86400, "Window must be 24 hours or less"),
+  groupBy: z.enum(["NONE", "IP_ADDRESS", "USER"], { errorMap: () => ({ message: "Invalid grouping" }) }),
+  severity: z.enum(alertSeverities, { errorMap: () => ({ message: "Invalid severity" }) }),
+  notifyEmail: z.boolean(),
+  webhookUrl: z
+    .string()
+    .trim()
+    .max(500, "Webhook URL must be 500 characters or less")
+    .optional()
+    .transform((v) => v || null)
+    .refine((v) => !v || /^https:\/\/[^\s]+$/.test(v), "Webhook URL must start with https://")
+    .refine((v) => {
+      if (!v) return true;
+      try {
+        new URL(v);
+        return true;
+      } catch {
+        return false;
+      }
+    }, "Webhook URL is invalid")
+    .refine((v) => {
+      if (!v) return true;
+      try {
+        return isPublicHostname(new URL(v).hostname);
+      } catch {
+        return true; // Reported by the check above
+      }
+    }, "Webhook URL must point to a public host, not a private or local address"),
+});
+
+// ---------------------------------------------------------------------------
+// Blocklist schemas
+// ---------------------------------------------------------------------------
+
+// Block lengths offered to admins; null blocks until lifted
+export const BLOCK_DURATIONS = {
+  "1h": 60 * 60 * 1000,
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+  permanent: null,
+} as const;
+
+export type BlockDuration = keyof typeof BLOCK_DURATIONS;
+
+const blockDurationSchema = z.enum(["1h", "24h", "7d", "30d", "permanent"], {
+  errorMap: () => ({ message: "Invalid duration" }),
+});
+
+// The value is returned in canonical form, so the same address or range can
+// only be blocked once
+export const blockFormSchema = z
+  .object({
+    type: z.enum(["IP", "CIDR", "USER"], { errorMap: () => ({ message: "Invalid block type" }) }),
+    value: z.string().trim().min(1, "Value is required").max(100, "Value must be 100 characters or less"),
+    reason: z
+      .string()
+      .trim()
+      .max(200, "Reason must be 200 characters or less")
+      .refine((v) => !hasControlChars(v), "Reason contains invalid characters")
+      .optional()
+      .transform((v) => v || null),
+    duration: blockDurationSchema,
+  })
+  .transform((data, ctx) => {
+    const value =
+      data.type === "IP"
+        ? normalizeIp(data.value)
+        : data.type === "CIDR"
+          ? normalizeCidr(data.value)
+          : z.string().uuid().safeParse(data.value).success
+            ? data.value
+            : null;
+    if (!value) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["value"],
+        message:
+          data.type === "IP"
+            ? "Enter a valid IPv4 or IPv6 address"
+            : data.type === "CIDR"
+              ? "Enter a valid CIDR range, e.g. 203.0.113.0/24"
+              : "Enter a valid user ID",
+      });
+      return z.NEVER;
+    }
+    return { ...data, value };
+  });
+
+export const blockExtensionSchema = z.object({
+  blockId: z.string().uuid("Invalid block ID"),
+  duration: blockDurationSchema,
+});
+
 // ---------------------------------------------------------------------------
 // Blog schemas
 // ---------------------------------------------------------------------------
@@ -482,18 +907,42 @@ const blogSlugSchema = z
   .refine((v) => !v || (!v.startsWith("-") && !v.endsWith("-")), "Slug cannot start or end with hyphens")
   .refine((v) => !v || !v.includes("--"), "Slug cannot contain consecutive hyphens");
 
-export const createBlogPostFormSchema = z.object({
+const blogPostFormBaseSchema = z.object({
   title:            z.string().trim().min(1, "Title is required").max(200, "Title must be 200 characters or less"),
   slug:             blogSlugSchema,
   excerpt:          z.string().max(500, "Excerpt must be 500 characters or less").trim().optional().transform((v) => v || null),
   content:          z.string().min(1, "Content is required").max(200000, "Content must be 200,000 characters or less"),
   featuredImageUrl: z.union([z.string().url("Invalid image URL"), z.literal("")]).optional().transform((v) => v === "" || !v ? null : v),
-  status:           z.enum(["DRAFT", "PUBLISHED"]).default("DRAFT"),
+  status:           z.enum(["DRAFT", "PUBLISHED", "SCHEDULED"]).default("DRAFT"),
+  publishAt:        publishAtSchema,
+  // Comma-separated tag names, shared with prompt posts
+  tags:             z.string().max(2000, "Tags value is too long").optional().transform((v) => (v ? v.split(",").map((t) => t.trim()).filter(Boolean) : [])).refine((v) => v.length <= 20, "Too many tags"),
+  // Series title; an unknown title creates the series
+  series:           z.string().trim().max(200, "Series title must be 200 characters or less").optional().transform((v) => v || null),
+  // Part number within the series; empty appends to the end
+  seriesOrder:      z.string().optional().transform((v) => (v ? Number(v) : null)).refine((v) => v === null || (Number.isInteger(v) && v >= 1 && v <= 1000), "Series part must be a whole number from 1 to 1000"),
 });
 
-export const updateBlogPostFormSchema = createBlogPostFormSchema.extend({
-  id: z.string().min(1, "ID is required"),
-});
+function refineBlogSchedule(
+  data: { status: string; publishAt: Date | null },
+  ctx: z.RefinementCtx
+) {
+  if (data.status === "SCHEDULED" && !data.publishAt) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["publishAt"],
+      message: "Choose when the article should be published",
+    });
+  }
+}
+
+export const createBlogPostFormSchema = blogPostFormBaseSchema.superRefine(refineBlogSchedule);
+
+export const updateBlogPostFormSchema = blogPostFormBaseSchema
+  .extend({
+    id: z.string().min(1, "ID is required"),
+  })
+  .superRefine(refineBlogSchedule);
 
 export const blogBulkImportItemSchema = z.object({
   title:            z.string().min(1, "title is required").max(200).trim(),
@@ -502,6 +951,12 @@ export const blogBulkImportItemSchema = z.object({
   slug:             z.string().max(200).regex(/^[a-z0-9-]*$/, "slug must be lowercase letters, numbers, hyphens").optional(),
   featuredImageUrl: z.union([z.string().url("invalid URL"), z.literal("")]).optional(),
   status:           z.enum(["DRAFT", "PUBLISHED"]).default("DRAFT"),
+  // Markdown items come from .md/.mdx files and are rendered to HTML on import
+  format:           z.enum(["html", "markdown"]).default("html"),
+  publishedAt:      z.string().refine((v) => !Number.isNaN(Date.parse(v)), "publishedAt must be a date").optional(),
+  tags:             z.array(z.string().trim().min(1).max(50)).max(20, "at most 20 tags").optional(),
+  series:           z.string().max(200).trim().optional(),
+  seriesOrder:      z.number().int().min(1).max(1000).optional(),
 });
 
 export type CreateBlogPostFormData = z.infer<typeof createBlogPostFormSchema>;
@@ -513,6 +968,8 @@ export type MagicLinkData = z.infer<typeof magicLinkSchema>;
 export type SignInData = z.infer<typeof signInSchema>;
 export type SignUpData = z.infer<typeof signUpSchema>;
 export type StarData = z.infer<typeof starSchema>;
+export type PostEventData = z.infer<typeof postEventSchema>;
+export type PageViewData = z.input<typeof pageViewSchema>;
 export type CreatePostData = z.infer<typeof createPostSchema>;
 export type UpdatePostData = z.infer<typeof updatePostSchema>;
 export type CreateTagData = z.infer<typeof createTagSchema>;
@@ -520,6 +977,7 @@ export type UpdateTagData = z.infer<typeof updateTagSchema>;
 export type CreateCategoryData = z.infer<typeof createCategorySchema>;
 export type UpdateCategoryData = z.infer<typeof updateCategorySchema>;
 export type FileUploadData = z.infer<typeof fileUploadSchema>;
+export type UploadRequestData = z.infer<typeof uploadRequestSchema>;
 export type UpdateUserProfileData = z.infer<typeof updateUserProfileSchema>;
 export type SearchData = z.infer<typeof searchSchema>;
 export type ApiResponseData = z.infer<typeof apiResponseSchema>;
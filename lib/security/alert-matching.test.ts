@@ -0,0 +1,153 @@
+/**
+ * Tests for alert rule matching and event windows (lib/security/alert-matching.ts)
+ * Run with: npx tsx lib/security/alert-matching.test.ts
+ */
+
+import type { RecordedEvent } from "./events";
+import {
+  alertDedupKey,
+  alertGroupValue,
+  clearAlertWindows,
+  countInWindow,
+  matchesAlertRule,
+} from "./alert-matching";
+
+let passedTests = 0;
+let totalTests = 0;
+
+function check(testName: string, passed: boolean, details?: string) {
+  totalTests += 1;
+  passedTests += passed ? 1 : 0;
+  console.log(`${passed ? "✅" : "❌"} ${testName}`);
+  if (!passed && details) console.log(`  ${details}`);
+}
+
+function checkEqual(testName: string, actual: unknown, expected: unknown) {
+  check(
+    testName,
+    JSON.stringify(actual) === JSON.stringify(expected),
+    `Expected ${JSON.stringify(expected)}\n  Got      ${JSON.stringify(actual)}`
+  );
+}
+
+const NO_FILTERS = { action: null, threatType: null, entityType: null, minSeverity: null };
+
+const csrfEvent: RecordedEvent = {
+  kind: "security",
+  action: "CSRF Validation Failed",
+  entityType: "request",
+  threatType: "CSRF",
+  blocked: true,
+  severity: "MEDIUM",
+  ipAddress: "203.0.113.7",
+  userId: "user-1",
+  timestamp: "2024-05-17T12:00:00.000Z",
+};
+
+const SECOND = 1000;
+
+async function runTests() {
+  console.log("🧪 Testing lib/security/alert-matching.ts...\n");
+
+  // matchesAlertRule
+  check("a rule without filters matches every event", matchesAlertRule(NO_FILTERS, csrfEvent));
+  check(
+    "actions match case-insensitively",
+    matchesAlertRule({ ...NO_FILTERS, action: "csrf validation failed" }, csrfEvent)
+  );
+  check("a different action does not match", !matchesAlertRule({ ...NO_FILTERS, action: "Login" }, csrfEvent));
+  check("threat types must match", !matchesAlertRule({ ...NO_FILTERS, threatType: "XSS" }, csrfEvent));
+  check(
+    "audit events never match a threat type filter",
+    !matchesAlertRule({ ...NO_FILTERS, threatType: "CSRF" }, { ...csrfEvent, kind: "audit", threatType: undefined })
+  );
+  check("entity types must match", !matchesAlertRule({ ...NO_FILTERS, entityType: "post" }, csrfEvent));
+  check(
+    "events at the minimum severity match",
+    matchesAlertRule({ ...NO_FILTERS, minSeverity: "MEDIUM" }, csrfEvent)
+  );
+  check(
+    "events above the minimum severity match",
+    matchesAlertRule({ ...NO_FILTERS, minSeverity: "LOW" }, csrfEvent)
+  );
+  check(
+    "events below the minimum severity do not match",
+    !matchesAlertRule({ ...NO_FILTERS, minSeverity: "HIGH" }, csrfEvent)
+  );
+  check(
+    "every set filter must pass",
+    matchesAlertRule(
+      { action: "CSRF Validation Failed", threatType: "CSRF", entityType: "request", minSeverity: "LOW" },
+      csrfEvent
+    ) &&
+      !matchesAlertRule(
+        { action: "CSRF Validation Failed", threatType: "CSRF", entityType: "post", minSeverity: "LOW" },
+        csrfEvent
+      )
+  );
+
+  // alertGroupValue and alertDedupKey
+  checkEqual("events group by IP address", alertGroupValue("IP_ADDRESS", csrfEvent), "203.0.113.7");
+  checkEqual(
+    "events with an unknown IP can't trip a per-IP rule",
+    alertGroupValue("IP_ADDRESS", { ...csrfEvent, ipAddress: "unknown" }),
+    undefined
+  );
+  checkEqual("events group by user", alertGroupValue("USER", csrfEvent), "user-1");
+  checkEqual(
+    "anonymous events can't trip a per-user rule",
+    alertGroupValue("USER", { ...csrfEvent, userId: undefined }),
+    undefined
+  );
+  checkEqual("ungrouped rules count every event together", alertGroupValue("NONE", csrfEvent), null);
+  checkEqual("grouped keys include the group", alertDedupKey("rule-1", "203.0.113.7"), "rule-1:203.0.113.7");
+  checkEqual("ungrouped keys are the rule id", alertDedupKey("rule-1", null), "rule-1");
+
+  // countInWindow
+  clearAlertWindows();
+  checkEqual(
+    "counts below the threshold return null",
+    [countInWindow("a", 0, 60, 3), countInWindow("a", 10 * SECOND, 60, 3)],
+    [null, null]
+  );
+  checkEqual("reaching the threshold returns the count", countInWindow("a", 20 * SECOND, 60, 3), 3);
+  checkEqual("firing empties the window", countInWindow("a", 21 * SECOND, 60, 3), null);
+
+  clearAlertWindows();
+  countInWindow("b", 0, 60, 3);
+  countInWindow("b", 30 * SECOND, 60, 3);
+  checkEqual("events older than the window are dropped", countInWindow("b", 60 * SECOND, 60, 3), null);
+  checkEqual("events inside the window still count", countInWindow("b", 61 * SECOND, 60, 3), 3);
+
+  clearAlertWindows();
+  countInWindow("c:1", 0, 60, 2);
+  checkEqual("windows are kept per key", countInWindow("c:2", SECOND, 60, 2), null);
+  checkEqual("a key's own events reach the threshold", countInWindow("c:1", 2 * SECOND, 60, 2), 2);
+
+  checkEqual("a threshold of one fires on every event", countInWindow("d", 0, 60, 1), 1);
+
+  clearAlertWindows();
+  countInWindow("e", 0, 60, 2);
+  clearAlertWindows();
+  checkEqual("clearing drops partially filled windows", countInWindow("e", SECOND, 60, 2), null);
+
+  console.log();
+  console.log(`📊 Test Results: ${passedTests}/${totalTests} tests passed`);
+
+  if (passedTests === totalTests) {
+    console.log("🎉 All tests passed! Alert rule matching is working correctly.");
+  } else {
+    console.log("⚠️ Some tests failed. Please review the output above.");
+    process.exitCode = 1;
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
+
+export { runTests };
@@ -0,0 +1,71 @@
+/**
+ * Alert rule matching and in-memory event windows, split from
+ * lib/security/alerts.ts so they stay free of database and mail imports.
+ */
+
+import type { AlertGroupBy, alertRules } from "@/lib/db/schema";
+import { isAtLeastSeverity, type RecordedEvent } from "@/lib/security/events";
+
+// Upper bound on timestamps kept per rule and group
+const MAX_WINDOW_EVENTS = 10_000;
+
+type RuleFilters = Pick<
+  typeof alertRules.$inferSelect,
+  "action" | "threatType" | "entityType" | "minSeverity"
+>;
+
+/** Whether `event` passes every filter the rule sets. */
+export function matchesAlertRule(rule: RuleFilters, event: RecordedEvent): boolean {
+  if (rule.action && rule.action.toLowerCase() !== event.action.toLowerCase()) return false;
+  if (rule.threatType && rule.threatType !== event.threatType) return false;
+  if (rule.entityType && rule.entityType !== event.entityType) return false;
+  if (rule.minSeverity && !isAtLeastSeverity(event.severity, rule.minSeverity)) return false;
+  return true;
+}
+
+/**
+ * The value a rule counts `event` under, or undefined when the event has none
+ * (events without an IP can't trip a per-IP rule).
+ */
+export function alertGroupValue(groupBy: AlertGroupBy, event: RecordedEvent): string | null | undefined {
+  switch (groupBy) {
+    case "IP_ADDRESS":
+      return event.ipAddress && event.ipAddress !== "unknown" ? event.ipAddress : undefined;
+    case "USER":
+      return event.userId || undefined;
+    default:
+      return null;
+  }
+}
+
+export function alertDedupKey(ruleId: string, groupValue: string | null): string {
+  return groupValue ? `${ruleId}:${groupValue}` : ruleId;
+}
+
+const windows = new Map<string, number[]>();
+
+/**
+ * Count an event at `at` in the window for `key`. Returns how many events the
+ * window held if that reached `threshold` (and empties it), otherwise null.
+ */
+export function countInWindow(
+  key: string,
+  at: number,
+  windowSeconds: number,
+  threshold: number
+): number | null {
+  const since = at - windowSeconds * 1000;
+  const timestamps = (windows.get(key) ?? []).filter((timestamp) => timestamp > since);
+  timestamps.push(at);
+
+  if (timestamps.length >= threshold) {
+    windows.delete(key);
+    return timestamps.length;
+  }
+  windows.set(key, timestamps.slice(-MAX_WINDOW_EVENTS));
+  return null;
+}
+
+export function clearAlertWindows(): void {
+  windows.clear();
+}
@@ -0,0 +1,327 @@
+/**
+ * Security alerting: admin-configured rules evaluated over the security event
+ * pipeline (lib/security/events.ts) through the "alerts" sink.
+ *
+ * A rule matches events by action, threat type, entity type and minimum
+ * severity, and fires when `threshold` matches land within its window —
+ * counted per IP address or user when the rule groups by one. Firing opens an
+ * alert in the dashboard feed and notifies admins by email and the rule's
+ * webhook (Slack-compatible). While an alert is unresolved, further firings
+ * for the same rule and group only bump its count, so nothing is re-sent.
+ *
+ * Windows are counted in memory, per server instance (lib/security/alert-matching.ts).
+ */
+
+import { lookup } from "node:dns/promises";
+import { db } from "@/lib/db";
+import {
+  alertRules,
+  securityAlerts,
+  type AlertStatus,
+  type LogSeverity,
+} from "@/lib/db/schema";
+import type { EventSink, RecordedEvent } from "@/lib/security/events";
+import {
+  alertDedupKey,
+  alertGroupValue,
+  clearAlertWindows,
+  countInWindow,
+  matchesAlertRule,
+} from "@/lib/security/alert-matching";
+import { mailSecurityAlert } from "@/lib/mail";
+import { getBaseUrl } from "@/lib/utils";
+import { isPublicHostname, isPublicIp, parseIp } from "@/lib/security/ip";
+import { and, desc, eq, inArray, ne, sql } from "drizzle-orm";
+
+export type AlertRule = typeof alertRules.$inferSelect;
+export type SecurityAlert = typeof securityAlerts.$inferSelect;
+
+export const ALERT_STATUSES: AlertStatus[] = ["OPEN", "ACKNOWLEDGED", "RESOLVED"];
+export const ALERT_FEED_PAGE_SIZE = 50;
+
+// Rules are re-read at most this often; saving a rule invalidates the cache
+const RULES_CACHE_TTL_MS = 30_000;
+
+/** Starting points offered when creating a rule. */
+export const ALERT_RULE_PRESETS = [
+  {
+    key: "csrf-burst",
+    label: "CSRF failures from one IP",
+    rule: {
+      name: "More than 20 CSRF failures from one IP in 5 minutes",
+      threatType: "CSRF",
+      threshold: 21,
+      windowSeconds: 300,
+      groupBy: "IP_ADDRESS",
+      severity: "HIGH",
+    },
+  },
+  {
+    key: "critical-event",
+    label: "Any CRITICAL event",
+    rule: {
+      name: "Critical security event",
+      minSeverity: "CRITICAL",
+      threshold: 1,
+      windowSeconds: 60,
+      groupBy: "NONE",
+      severity: "CRITICAL",
+    },
+  },
+  {
+    key: "role-change",
+    label: "Admin role change",
+    rule: {
+      name: "User role changed",
+      action: "User Role Changed",
+      threshold: 1,
+      windowSeconds: 60,
+      groupBy: "NONE",
+      severity: "HIGH",
+    },
+  },
+] as const satisfies readonly {
+  key: string;
+  label: string;
+  rule: Partial<Pick<AlertRule, "name" | "action" | "threatType" | "entityType" | "minSeverity">> &
+    Pick<AlertRule, "threshold" | "windowSeconds" | "groupBy" | "severity">;
+}[];
+
+// -----------------------------------------------------------------------------
+// Rules cache
+// -----------------------------------------------------------------------------
+
+let cachedRules: { rules: AlertRule[]; loadedAt: number } | null = null;
+
+async function getEnabledRules(): Promise<AlertRule[]> {
+  if (cachedRules && Date.now() - cachedRules.loadedAt < RULES_CACHE_TTL_MS) {
+    return cachedRules.rules;
+  }
+  const rules = await db.select().from(alertRules).where(eq(alertRules.enabled, true));
+  cachedRules = { rules, loadedAt: Date.now() };
+  return rules;
+}
+
+/** Drop cached rules and their windows so the next event sees saved changes. */
+export function invalidateAlertRules(): void {
+  cachedRules = null;
+  clearAlertWindows();
+}
+
+// -----------------------------------------------------------------------------
+// Firing and delivery
+// -----------------------------------------------------------------------------
+
+function describeWindow(seconds: number): string {
+  if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+}
+
+function alertTitle(rule: AlertRule, event: RecordedEvent, count: number, groupValue: string | null): string {
+  const source = groupValue
+    ? ` ${rule.groupBy === "IP_ADDRESS" ? "from" : "by user"} ${groupValue}`
+    : "";
+  return rule.threshold > 1
+    ? `${rule.name}: ${count} events${source} in ${describeWindow(rule.windowSeconds)}`
+    : `${rule.name}: ${event.action}${source}`;
+}
+
+const SLACK_SEVERITY_EMOJI: Record<LogSeverity, string> = {
+  LOW: ":information_source:",
+  MEDIUM: ":warning:",
+  HIGH: ":rotating_light:",
+  CRITICAL: ":fire:",
+};
+
+// Rules are validated on save, but a public name can later resolve to a
+// private address, so the target is checked again before every delivery
+async function assertPublicWebhookTarget(url: string): Promise<void> {
+  const { hostname } = new URL(url);
+  if (!isPublicHostname(hostname)) {
+    throw new Error("Alert webhook must point to a public host");
+  }
+  const addresses = await lookup(hostname.replace(/^\[(.*)\]$/, "$1"), { all: true });
+  for (const { address } of addresses) {
+    const ip = parseIp(address);
+    if (!ip || !isPublicIp(ip)) {
+      throw new Error(`Alert webhook host resolves to a non-public address (${address})`);
+    }
+  }
+}
+
+/**
+ * POST an alert to a webhook. `text` makes the payload a valid Slack (or
+ * Mattermost/Discord-compatible) incoming-webhook message; other receivers
+ * can read the structured `alert` object.
+ */
+export async function deliverAlertWebhook(url: string, alert: SecurityAlert): Promise<void> {
+  await assertPublicWebhookTarget(url);
+  const alertsUrl = `${getBaseUrl()}/alerts`;
+  const response = await fetch(url, {
+    method: "POST",
+    // A redirect could point at an internal host
+    redirect: "manual",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      text: `${SLACK_SEVERITY_EMOJI[alert.severity]} *[${alert.severity}]* ${alert.title}\n<${alertsUrl}|Review alerts>`,
+      alert: {
+        id: alert.id,
+        ruleId: alert.ruleId,
+        title: alert.title,
+        severity: alert.severity,
+        status: alert.status,
+        groupValue: alert.groupValue,
+        eventCount: alert.eventCount,
+        firstSeenAt: alert.firstSeenAt.toISOString(),
+        url: alertsUrl,
+      },
+    }),
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    throw new Error(`Alert webhook responded with ${response.status}`);
+  }
+}
+
+async function deliverAlert(rule: AlertRule, alert: SecurityAlert): Promise<void> {
+  const deliveries: Promise<unknown>[] = [];
+  if (rule.webhookUrl) deliveries.push(deliverAlertWebhook(rule.webhookUrl, alert));
+  if (rule.notifyEmail) {
+    deliveries.push(
+      mailSecurityAlert({
+        title: alert.title,
+        severity: alert.severity,
+        ruleName: rule.name,
+        eventCount: alert.eventCount,
+      })
+    );
+  }
+
+  const results = await Promise.allSettled(deliveries);
+  for (const result of results) {
+    if (result.status === "rejected") {
+      console.error(`Failed to deliver alert ${alert.id}:`, result.reason);
+    }
+  }
+}
+
+/**
+ * Record a firing of `rule`: bump the unresolved alert for its group if there
+ * is one, otherwise open (and deliver) a new alert. Returns the new alert, or
+ * null when the firing was folded into an existing one.
+ */
+async function fireAlert(
+  rule: AlertRule,
+  event: RecordedEvent,
+  count: number,
+  groupValue: string | null
+): Promise<SecurityAlert | null> {
+  const dedupKey = alertDedupKey(rule.id, groupValue);
+  const now = new Date();
+
+  const [existing] = await db
+    .update(securityAlerts)
+    .set({
+      eventCount: sql`${securityAlerts.eventCount} + ${count}`,
+      lastEvent: event,
+      lastSeenAt: now,
+    })
+    .where(and(eq(securityAlerts.dedupKey, dedupKey), ne(securityAlerts.status, "RESOLVED")))
+    .returning({ id: securityAlerts.id });
+  if (existing) return null;
+
+  // A concurrent firing may have opened it first; the unique index keeps one
+  const [created] = await db
+    .insert(securityAlerts)
+    .values({
+      ruleId: rule.id,
+      dedupKey,
+      groupValue,
+      title: alertTitle(rule, event, count, groupValue),
+      severity: rule.severity,
+      eventCount: count,
+      lastEvent: event,
+      firstSeenAt: now,
+      lastSeenAt: now,
+    })
+    .onConflictDoNothing()
+    .returning();
+  if (!created) return null;
+
+  await deliverAlert(rule, created);
+  return created;
+}
+
+/** Run every enabled rule over a batch of events. */
+export async function evaluateAlertRules(events: RecordedEvent[]): Promise<void> {
+  const rules = await getEnabledRules();
+  if (rules.length === 0) return;
+
+  for (const event of events) {
+    const at = new Date(event.timestamp).getTime();
+    for (const rule of rules) {
+      if (!matchesAlertRule(rule, event)) continue;
+
+      const groupValue = alertGroupValue(rule.groupBy, event);
+      if (groupValue === undefined) continue;
+
+      const count = countInWindow(
+        alertDedupKey(rule.id, groupValue),
+        at,
+        rule.windowSeconds,
+        rule.threshold
+      );
+      if (count === null) continue;
+
+      try {
+        await fireAlert(rule, event, count, groupValue);
+      } catch (error) {
+        console.error(`Failed to fire alert rule ${rule.id}:`, error);
+      }
+    }
+  }
+}
+
+export const alertSink: EventSink = {
+  name: "alerts",
+  write: evaluateAlertRules,
+};
+
+// -----------------------------------------------------------------------------
+// Reads
+// -----------------------------------------------------------------------------
+
+export interface AlertFeedItem extends SecurityAlert {
+  ruleName: string;
+}
+
+/** Alerts for the dashboard feed, most recently active first. */
+export async function getAlertFeed(
+  statuses: AlertStatus[] = ["OPEN", "ACKNOWLEDGED"],
+  limit = ALERT_FEED_PAGE_SIZE
+): Promise<AlertFeedItem[]> {
+  const rows = await db
+    .select({ alert: securityAlerts, ruleName: alertRules.name })
+    .from(securityAlerts)
+    .innerJoin(alertRules, eq(securityAlerts.ruleId, alertRules.id))
+    .where(inArray(securityAlerts.status, statuses))
+    .orderBy(desc(securityAlerts.lastSeenAt))
+    .limit(limit);
+  return rows.map(({ alert, ruleName }) => ({ ...alert, ruleName }));
+}
+
+export async function getAlertCounts(): Promise<Record<AlertStatus, number>> {
+  const rows = await db
+    .select({ status: securityAlerts.status, count: sql<number>`count(*)::int` })
+    .from(securityAlerts)
+    .groupBy(securityAlerts.status);
+
+  const counts: Record<AlertStatus, number> = { OPEN: 0, ACKNOWLEDGED: 0, RESOLVED: 0 };
+  for (const row of rows) counts[row.status] = row.count;
+  return counts;
+}
+
+export function getAlertRules(): Promise<AlertRule[]> {
+  return db.select().from(alertRules).orderBy(desc(alertRules.createdAt));
+}
@@ -0,0 +1,305 @@
+/**
+ * Audit log explorer: filtered, cursor-paginated reads of the `logs` table,
+ * per-entity timelines, and CSV/NDJSON exports for compliance requests.
+ * Writes go through lib/security/audit.ts.
+ */
+
+import { db } from "@/lib/db";
+import { logs, users, type LogSeverity } from "@/lib/db/schema";
+import { and, asc, desc, eq, gte, ilike, inArray, lt, sql, type SQL } from "drizzle-orm";
+
+export const AUDIT_LOG_SEVERITIES: LogSeverity[] = ["LOW", "MEDIUM", "HIGH", "CRITICAL"];
+export const AUDIT_LOG_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+// Exports read in batches and stop here; narrow the filters for more
+export const AUDIT_EXPORT_MAX_ROWS = 100_000;
+const EXPORT_BATCH_SIZE = 1000;
+
+export interface AuditLogFilters {
+  // Case-insensitive substring of the action
+  action?: string;
+  // User ID or email address
+  actor?: string;
+  entityType?: string;
+  entityId?: string;
+  severity?: LogSeverity[];
+  ipAddress?: string;
+  from?: Date;
+  // Exclusive
+  to?: Date;
+}
+
+export type AuditLogOrder = "asc" | "desc";
+
+export interface AuditLogEntry {
+  id: string;
+  createdAt: Date;
+  action: string;
+  severity: LogSeverity;
+  entityType: string;
+  entityId: string | null;
+  userId: string | null;
+  actorEmail: string | null;
+  actorName: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  metadata: unknown;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  nextCursor: string | null;
+}
+
+export type AuditExportFormat = "csv" | "ndjson";
+
+type SearchParamsLike = URLSearchParams | Record<string, string | string[] | undefined>;
+
+function readParam(params: SearchParamsLike, key: string): string | undefined {
+  const raw = params instanceof URLSearchParams ? params.get(key) : params[key];
+  const value = (Array.isArray(raw) ? raw[0] : raw)?.trim();
+  return value && value.length <= 200 ? value : undefined;
+}
+
+// Accepts a date (YYYY-MM-DD) or a full ISO timestamp. A bare `to` date
+// covers that whole day.
+function readDate(value: string | undefined, endOfDay: boolean): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return undefined;
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
+
+/** Filters from the explorer's query string; unknown or invalid values are ignored. */
+export function parseAuditLogFilters(params: SearchParamsLike): AuditLogFilters {
+  const severity = (readParam(params, "severity") ?? "")
+    .split(",")
+    .map((value) => value.trim().toUpperCase())
+    .filter((value): value is LogSeverity => AUDIT_LOG_SEVERITIES.includes(value as LogSeverity));
+
+  return {
+    action: readParam(params, "action"),
+    actor: readParam(params, "actor"),
+    entityType: readParam(params, "entityType"),
+    entityId: readParam(params, "entityId"),
+    severity: severity.length > 0 ? severity : undefined,
+    ipAddress: readParam(params, "ip"),
+    from: readDate(readParam(params, "from"), false),
+    to: readDate(readParam(params, "to"), true),
+  };
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function buildConditions(filters: AuditLogFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (filters.action) conditions.push(ilike(logs.action, `%${escapeLike(filters.action)}%`));
+  if (filters.actor) {
+    conditions.push(
+      filters.actor.includes("@")
+        ? sql`lower(${users.email}) = lower(${filters.actor})`
+        : eq(logs.userId, filters.actor)
+    );
+  }
+  if (filters.entityType) conditions.push(eq(logs.entityType, filters.entityType));
+  if (filters.entityId) conditions.push(eq(logs.entityId, filters.entityId));
+  if (filters.severity?.length) conditions.push(inArray(logs.severity, filters.severity));
+  if (filters.ipAddress) conditions.push(eq(logs.ipAddress, filters.ipAddress));
+  if (filters.from) conditions.push(gte(logs.createdAt, filters.from));
+  if (filters.to) conditions.push(lt(logs.createdAt, filters.to));
+  return conditions;
+}
+
+// Cursors carry the row's timestamp as Postgres text, which keeps the
+// microseconds a JS Date would drop, plus the id to break ties
+function encodeCursor(createdAt: string, id: string): string {
+  return Buffer.from(JSON.stringify([createdAt, id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [string, string] | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      Array.isArray(value) &&
+      value.length === 2 &&
+      typeof value[0] === "string" &&
+      typeof value[1] === "string" &&
+      !Number.isNaN(new Date(value[0]).getTime())
+    ) {
+      return [value[0], value[1]];
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+/**
+ * One page of log entries matching `filters`, newest first unless `order` is
+ * "asc". Pass the returned `nextCursor` back to continue.
+ */
+export async function searchAuditLogs(
+  filters: AuditLogFilters,
+  {
+    cursor,
+    limit = AUDIT_LOG_PAGE_SIZE,
+    order = "desc",
+  }: { cursor?: string | null; limit?: number; order?: AuditLogOrder } = {}
+): Promise<AuditLogPage> {
+  const pageSize = Math.min(Math.max(1, Math.floor(limit) || AUDIT_LOG_PAGE_SIZE), MAX_PAGE_SIZE);
+  const conditions = buildConditions(filters);
+
+  const position = cursor ? decodeCursor(cursor) : null;
+  if (position) {
+    const [createdAt, id] = position;
+    conditions.push(
+      order === "asc"
+        ? sql`(${logs.createdAt}, ${logs.id}) > (${createdAt}::timestamp, ${id})`
+        : sql`(${logs.createdAt}, ${logs.id}) < (${createdAt}::timestamp, ${id})`
+    );
+  }
+
+  const direction = order === "asc" ? asc : desc;
+  const rows = await db
+    .select({
+      id: logs.id,
+      createdAt: logs.createdAt,
+      cursorKey: sql<string>`${logs.createdAt}::text`,
+      action: logs.action,
+      severity: logs.severity,
+      entityType: logs.entityType,
+      entityId: logs.entityId,
+      userId: logs.userId,
+      actorEmail: users.email,
+      actorName: users.name,
+      ipAddress: logs.ipAddress,
+      userAgent: logs.userAgent,
+      metadata: logs.metadata,
+    })
+    .from(logs)
+    .leftJoin(users, eq(logs.userId, users.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(direction(logs.createdAt), direction(logs.id))
+    .limit(pageSize + 1);
+
+  const hasMore = rows.length > pageSize;
+  const page = hasMore ? rows.slice(0, pageSize) : rows;
+  const last = page[page.length - 1];
+
+  return {
+    entries: page.map(({ cursorKey, ...entry }) => {
+      void cursorKey;
+      return entry;
+    }),
+    nextCursor: hasMore && last ? encodeCursor(last.cursorKey, last.id) : null,
+  };
+}
+
+/** Everything logged against one entity, oldest first. */
+export function getEntityTimeline(
+  entityType: string,
+  entityId: string,
+  options: { cursor?: string | null; limit?: number } = {}
+): Promise<AuditLogPage> {
+  return searchAuditLogs({ entityType, entityId }, { ...options, order: "asc" });
+}
+
+// -----------------------------------------------------------------------------
+// Export
+// -----------------------------------------------------------------------------
+
+const CSV_COLUMNS: (keyof AuditLogEntry)[] = [
+  "createdAt",
+  "action",
+  "severity",
+  "entityType",
+  "entityId",
+  "userId",
+  "actorEmail",
+  "actorName",
+  "ipAddress",
+  "userAgent",
+  "metadata",
+];
+
+function csvField(value: unknown): string {
+  let text =
+    value === null || value === undefined
+      ? ""
+      : value instanceof Date
+        ? value.toISOString()
+        : typeof value === "object"
+          ? JSON.stringify(value)
+          : String(value);
+  // SECURITY: Keep spreadsheet apps from evaluating logged input as a formula
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatAuditLogEntry(entry: AuditLogEntry, format: AuditExportFormat): string {
+  if (format === "ndjson") {
+    return `${JSON.stringify({ ...entry, createdAt: entry.createdAt.toISOString() })}\n`;
+  }
+  return `${CSV_COLUMNS.map((column) => csvField(entry[column])).join(",")}\r\n`;
+}
+
+/**
+ * Every entry matching `filters` (up to AUDIT_EXPORT_MAX_ROWS), oldest first,
+ * streamed in batches so large exports don't sit in memory.
+ */
+export function exportAuditLogs(
+  filters: AuditLogFilters,
+  format: AuditExportFormat
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cursor: string | null = null;
+  let exported = 0;
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!started) {
+          started = true;
+          if (format === "csv") controller.enqueue(encoder.encode(`${CSV_COLUMNS.join(",")}\r\n`));
+        }
+
+        const page = await searchAuditLogs(filters, {
+          cursor,
+          limit: Math.min(EXPORT_BATCH_SIZE, AUDIT_EXPORT_MAX_ROWS - exported),
+          order: "asc",
+        });
+        if (page.entries.length > 0) {
+          controller.enqueue(
+            encoder.encode(page.entries.map((entry) => formatAuditLogEntry(entry, format)).join(""))
+          );
+        }
+        exported += page.entries.length;
+        cursor = page.nextCursor;
+        if (!cursor || exported >= AUDIT_EXPORT_MAX_ROWS) controller.close();
+      } catch (error) {
+        console.error("Failed to export audit logs:", error);
+        controller.error(error);
+      }
+    },
+  });
+}
+
+/** Distinct entity types, for the explorer's filter. */
+export async function getAuditEntityTypes(): Promise<string[]> {
+  try {
+    const rows = await db
+      .selectDistinct({ entityType: logs.entityType })
+      .from(logs)
+      .orderBy(asc(logs.entityType));
+    return rows.map((row) => row.entityType);
+  } catch (error) {
+    console.error("Failed to fetch audit entity types:", error);
+    return [];
+  }
+}
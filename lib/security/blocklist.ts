@@ -0,0 +1,496 @@
+/**
+ * IP, CIDR range and user blocklist, enforced by proxy.ts before any route
+ * work.
+ *
+ * Blocks live in the `blocklist` table and are mirrored into a Redis hash, so
+ * each process checks an in-memory snapshot of that hash — refreshed every
+ * BLOCKLIST_REFRESH_MS — instead of querying per request. Without Redis the
+ * snapshot is read from the database.
+ *
+ * Repeat offenders are banned automatically: rate-limit and CSRF violations
+ * are counted per IP (per user for API-key requests), and reaching
+ * AUTO_BAN_THRESHOLD within the window bans the offender for a duration that
+ * grows with each automatic ban in the last 30 days.
+ */
+
+import { db } from "@/lib/db";
+import { blocklist, users, type BlockType } from "@/lib/db/schema";
+import { getRedisClient } from "@/lib/security/limits";
+import { logSecurityEvent } from "@/lib/security/events";
+import { formatIp, isIpInRange, normalizeIp, parseCidr, parseIp, type IpRange } from "@/lib/security/ip";
+import { aliasedTable, and, count, desc, eq, gt, gte, isNotNull, isNull, lte, not, or, sql, type SQL } from "drizzle-orm";
+
+export type Block = typeof blocklist.$inferSelect;
+
+export interface BlockSubject {
+  type: "IP" | "USER";
+  value: string;
+}
+
+/** A block as the proxy checks it */
+export interface ActiveBlock {
+  id: string;
+  type: BlockType;
+  value: string;
+  reason: string | null;
+  // Epoch milliseconds; null until lifted
+  expiresAt: number | null;
+}
+
+const REDIS_ENTRIES_KEY = "blocklist:entries";
+// Present while the Redis hash mirrors the database; expires so a drifted
+// copy heals itself
+const REDIS_SYNCED_KEY = "blocklist:synced";
+const REDIS_RESYNC_MS = 24 * 60 * 60 * 1000;
+
+export const BLOCKLIST_REFRESH_MS = 10_000;
+
+export const AUTO_BAN_THRESHOLD = 10;
+export const VIOLATION_WINDOW_MS = 10 * 60 * 1000;
+// Ban lengths for the 1st, 2nd, ... automatic ban within OFFENSE_LOOKBACK_MS
+export const AUTO_BAN_DURATIONS_MS = [
+  15 * 60 * 1000,
+  60 * 60 * 1000,
+  6 * 60 * 60 * 1000,
+  24 * 60 * 60 * 1000,
+  7 * 24 * 60 * 60 * 1000,
+];
+const OFFENSE_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Never banned automatically
+const LOCAL_IPS = ["127.0.0.1", "::1", "unknown"];
+
+// -----------------------------------------------------------------------------
+// Snapshot
+// -----------------------------------------------------------------------------
+
+interface Snapshot {
+  exact: Map<string, ActiveBlock>;
+  ranges: { range: IpRange; block: ActiveBlock }[];
+  loadedAt: number;
+}
+
+let snapshot: Snapshot | null = null;
+let loading: Promise<Snapshot> | null = null;
+
+function entryKey(type: BlockType, value: string): string {
+  return `${type}:${value}`;
+}
+
+function toActiveBlock(row: Pick<Block, "id" | "type" | "value" | "reason" | "expiresAt">): ActiveBlock {
+  return {
+    id: row.id,
+    type: row.type,
+    value: row.value,
+    reason: row.reason,
+    expiresAt: row.expiresAt ? row.expiresAt.getTime() : null,
+  };
+}
+
+function isExpired(block: ActiveBlock, now = Date.now()): boolean {
+  return block.expiresAt !== null && block.expiresAt <= now;
+}
+
+async function readActiveBlocksFromDatabase(): Promise<ActiveBlock[]> {
+  const rows = await db
+    .select({
+      id: blocklist.id,
+      type: blocklist.type,
+      value: blocklist.value,
+      reason: blocklist.reason,
+      expiresAt: blocklist.expiresAt,
+    })
+    .from(blocklist)
+    .where(
+      and(
+        isNull(blocklist.liftedAt),
+        or(isNull(blocklist.expiresAt), gt(blocklist.expiresAt, new Date()))
+      )
+    );
+  return rows.map(toActiveBlock);
+}
+
+async function readActiveBlocks(): Promise<ActiveBlock[]> {
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      if (await redis.exists(REDIS_SYNCED_KEY)) {
+        const raw: Record<string, string> = await redis.hgetall(REDIS_ENTRIES_KEY);
+        return Object.values(raw).map((value) => JSON.parse(value) as ActiveBlock);
+      }
+
+      const blocks = await readActiveBlocksFromDatabase();
+      const multi = redis.multi().del(REDIS_ENTRIES_KEY);
+      if (blocks.length > 0) {
+        multi.hset(
+          REDIS_ENTRIES_KEY,
+          Object.fromEntries(blocks.map((block) => [entryKey(block.type, block.value), JSON.stringify(block)]))
+        );
+      }
+      await multi.set(REDIS_SYNCED_KEY, "1", "PX", REDIS_RESYNC_MS).exec();
+      return blocks;
+    } catch (error) {
+      console.error("Redis blocklist read failed, falling back to the database:", error);
+    }
+  }
+  return readActiveBlocksFromDatabase();
+}
+
+function buildSnapshot(blocks: ActiveBlock[]): Snapshot {
+  const next: Snapshot = { exact: new Map(), ranges: [], loadedAt: Date.now() };
+  for (const block of blocks) addToSnapshot(next, block);
+  return next;
+}
+
+function addToSnapshot(target: Snapshot, block: ActiveBlock) {
+  if (isExpired(block)) return;
+  if (block.type === "CIDR") {
+    const range = parseCidr(block.value);
+    if (range) target.ranges.push({ range, block });
+  } else {
+    target.exact.set(entryKey(block.type, block.value), block);
+  }
+}
+
+function removeFromSnapshot(target: Snapshot, block: Pick<ActiveBlock, "type" | "value">) {
+  if (block.type === "CIDR") {
+    target.ranges = target.ranges.filter((entry) => entry.block.value !== block.value);
+  } else {
+    target.exact.delete(entryKey(block.type, block.value));
+  }
+}
+
+// A failed refresh keeps serving the last snapshot rather than blocking
+// everything or nothing
+async function getSnapshot(): Promise<Snapshot> {
+  if (snapshot && Date.now() - snapshot.loadedAt < BLOCKLIST_REFRESH_MS) return snapshot;
+  if (!loading) {
+    loading = readActiveBlocks()
+      .then((blocks) => (snapshot = buildSnapshot(blocks)))
+      .catch((error) => {
+        console.error("Failed to load blocklist:", error);
+        snapshot = snapshot ? { ...snapshot, loadedAt: Date.now() } : buildSnapshot([]);
+        return snapshot;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  return loading;
+}
+
+// Keep Redis and this process's snapshot in step with a database change
+async function publish(block: ActiveBlock, active: boolean): Promise<void> {
+  if (snapshot) {
+    removeFromSnapshot(snapshot, block);
+    if (active) addToSnapshot(snapshot, block);
+  }
+
+  const redis = await getRedisClient();
+  if (!redis) return;
+  try {
+    const key = entryKey(block.type, block.value);
+    if (active) await redis.hset(REDIS_ENTRIES_KEY, key, JSON.stringify(block));
+    else await redis.hdel(REDIS_ENTRIES_KEY, key);
+  } catch (error) {
+    // The next resync from the database repairs the copy
+    console.error("Failed to update Redis blocklist:", error);
+    await redis.del(REDIS_SYNCED_KEY).catch(() => {});
+  }
+}
+
+/**
+ * The block that applies to a request from `ipAddress` (directly or through a
+ * CIDR range) or signed in as `userId`, if any.
+ */
+export async function findActiveBlock({
+  ipAddress,
+  userId,
+}: {
+  ipAddress?: string | null;
+  userId?: string | null;
+}): Promise<ActiveBlock | null> {
+  const current = await getSnapshot();
+  const now = Date.now();
+  const active = (block: ActiveBlock | undefined) => (block && !isExpired(block, now) ? block : null);
+
+  if (userId) {
+    const block = active(current.exact.get(entryKey("USER", userId)));
+    if (block) return block;
+  }
+
+  const bytes = ipAddress ? parseIp(ipAddress) : null;
+  if (bytes) {
+    const block = active(current.exact.get(entryKey("IP", formatIp(bytes))));
+    if (block) return block;
+    for (const entry of current.ranges) {
+      if (isIpInRange(bytes, entry.range) && active(entry.block)) return entry.block;
+    }
+  }
+  return null;
+}
+
+// -----------------------------------------------------------------------------
+// Writes
+// -----------------------------------------------------------------------------
+
+/**
+ * Block `value`, or update the existing block for it. `value` must already be
+ * in canonical form (see lib/security/ip.ts).
+ */
+export async function createBlock({
+  type,
+  value,
+  reason,
+  expiresAt,
+  createdById,
+  automatic = false,
+  offense = 1,
+}: {
+  type: BlockType;
+  value: string;
+  reason: string | null;
+  expiresAt: Date | null;
+  createdById?: string | null;
+  automatic?: boolean;
+  offense?: number;
+}): Promise<Block> {
+  const now = new Date();
+  const block = await db.transaction(async (tx) => {
+    // An expired block is closed so the value can be blocked again
+    await tx
+      .update(blocklist)
+      .set({ liftedAt: sql`${blocklist.expiresAt}`, updatedAt: now })
+      .where(
+        and(
+          eq(blocklist.type, type),
+          eq(blocklist.value, value),
+          isNull(blocklist.liftedAt),
+          isNotNull(blocklist.expiresAt),
+          lte(blocklist.expiresAt, now)
+        )
+      );
+
+    const [updated] = await tx
+      .update(blocklist)
+      .set({ reason, expiresAt, automatic, offense, updatedAt: now })
+      .where(and(eq(blocklist.type, type), eq(blocklist.value, value), isNull(blocklist.liftedAt)))
+      .returning();
+    if (updated) return updated;
+
+    const [created] = await tx
+      .insert(blocklist)
+      .values({ type, value, reason, expiresAt, automatic, offense, createdById })
+      .returning();
+    return created;
+  });
+
+  await publish(toActiveBlock(block), true);
+  return block;
+}
+
+/**
+ * Push an active block's end back by `durationMs` from its current expiry (or
+ * from now, once that has passed); null keeps it until lifted.
+ */
+export async function extendBlock(id: string, durationMs: number | null): Promise<Block | null> {
+  const [current] = await db
+    .select({ expiresAt: blocklist.expiresAt })
+    .from(blocklist)
+    .where(and(eq(blocklist.id, id), isNull(blocklist.liftedAt)))
+    .limit(1);
+  if (!current) return null;
+
+  const from = Math.max(Date.now(), current.expiresAt?.getTime() ?? 0);
+  const [block] = await db
+    .update(blocklist)
+    .set({
+      expiresAt: durationMs === null ? null : new Date(from + durationMs),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(blocklist.id, id), isNull(blocklist.liftedAt)))
+    .returning();
+  if (!block) return null;
+
+  await publish(toActiveBlock(block), true);
+  return block;
+}
+
+export async function liftBlock(id: string, liftedById: string | null): Promise<Block | null> {
+  const now = new Date();
+  const [block] = await db
+    .update(blocklist)
+    .set({ liftedAt: now, liftedById, updatedAt: now })
+    .where(and(eq(blocklist.id, id), isNull(blocklist.liftedAt)))
+    .returning();
+  if (!block) return null;
+
+  await publish(toActiveBlock(block), false);
+  return block;
+}
+
+// -----------------------------------------------------------------------------
+// Automatic bans
+// -----------------------------------------------------------------------------
+
+const violationCounts = new Map<string, { count: number; resetTime: number }>();
+
+async function countViolation(subject: BlockSubject): Promise<number> {
+  const key = `blocklist:violations:${subject.type}:${subject.value}`;
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      const total = await redis.incr(key);
+      if (total === 1) await redis.pexpire(key, VIOLATION_WINDOW_MS);
+      if (total >= AUTO_BAN_THRESHOLD) await redis.del(key);
+      return total;
+    } catch (error) {
+      console.error("Redis violation count failed, falling back to memory:", error);
+    }
+  }
+
+  const now = Date.now();
+  for (const [entry, data] of violationCounts) {
+    if (now > data.resetTime) violationCounts.delete(entry);
+  }
+  const entry = violationCounts.get(key) ?? { count: 0, resetTime: now + VIOLATION_WINDOW_MS };
+  entry.count += 1;
+  if (entry.count >= AUTO_BAN_THRESHOLD) violationCounts.delete(key);
+  else violationCounts.set(key, entry);
+  return entry.count;
+}
+
+async function isAdminUser(userId: string): Promise<boolean> {
+  const [user] = await db
+    .select({ role: users.role })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  return user?.role === "ADMIN";
+}
+
+/**
+ * Count a violation (a rate-limited or CSRF-rejected request) against an IP
+ * or user, banning it once AUTO_BAN_THRESHOLD land within the window. Admins,
+ * and requests made from an admin's session (`sessionUserId`), are never
+ * banned. Never throws — enforcement must not fail the request that
+ * triggered it.
+ */
+export async function recordViolation(
+  subject: BlockSubject,
+  violation: string,
+  sessionUserId?: string | null
+): Promise<void> {
+  try {
+    if (subject.type === "IP") {
+      const ip = normalizeIp(subject.value);
+      if (!ip || LOCAL_IPS.includes(ip)) return;
+      subject = { type: "IP", value: ip };
+    }
+
+    const total = await countViolation(subject);
+    if (total < AUTO_BAN_THRESHOLD) return;
+    const actorId = subject.type === "USER" ? subject.value : sessionUserId;
+    if (actorId && (await isAdminUser(actorId))) return;
+    if (
+      await findActiveBlock(
+        subject.type === "IP" ? { ipAddress: subject.value } : { userId: subject.value }
+      )
+    ) {
+      return;
+    }
+
+    const [{ previous }] = await db
+      .select({ previous: count() })
+      .from(blocklist)
+      .where(
+        and(
+          eq(blocklist.type, subject.type),
+          eq(blocklist.value, subject.value),
+          eq(blocklist.automatic, true),
+          gte(blocklist.createdAt, new Date(Date.now() - OFFENSE_LOOKBACK_MS))
+        )
+      );
+    const offense = previous + 1;
+    const duration = AUTO_BAN_DURATIONS_MS[Math.min(offense, AUTO_BAN_DURATIONS_MS.length) - 1];
+
+    const block = await createBlock({
+      type: subject.type,
+      value: subject.value,
+      reason: `Automatic: ${total} ${violation} violations`,
+      expiresAt: new Date(Date.now() + duration),
+      automatic: true,
+      offense,
+    });
+
+    await logSecurityEvent({
+      action: "Automatic Ban",
+      userId: subject.type === "USER" ? subject.value : undefined,
+      entityType: "blocklist",
+      entityId: block.id,
+      ipAddress: subject.type === "IP" ? subject.value : undefined,
+      threatType: "SUSPICIOUS_ACTIVITY",
+      blocked: true,
+      severity: "HIGH",
+      metadata: {
+        type: subject.type,
+        value: subject.value,
+        violation,
+        offense,
+        expiresAt: block.expiresAt?.toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Failed to record blocklist violation:", error);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Reads
+// -----------------------------------------------------------------------------
+
+export interface BlocklistEntry extends Block {
+  createdByEmail: string | null;
+  liftedByEmail: string | null;
+  // For USER blocks
+  userEmail: string | null;
+}
+
+/**
+ * Active blocks, or with `history` recently lifted and expired ones, newest
+ * first.
+ */
+export async function getBlocklist({
+  history = false,
+  limit = 100,
+}: { history?: boolean; limit?: number } = {}): Promise<BlocklistEntry[]> {
+  const creators = aliasedTable(users, "creators");
+  const lifters = aliasedTable(users, "lifters");
+  const blockedUsers = aliasedTable(users, "blocked_users");
+  const now = new Date();
+
+  const active = and(
+    isNull(blocklist.liftedAt),
+    or(isNull(blocklist.expiresAt), gt(blocklist.expiresAt, now))
+  ) as SQL;
+
+  const rows = await db
+    .select({
+      block: blocklist,
+      createdByEmail: creators.email,
+      liftedByEmail: lifters.email,
+      userEmail: blockedUsers.email,
+    })
+    .from(blocklist)
+    .leftJoin(creators, eq(blocklist.createdById, creators.id))
+    .leftJoin(lifters, eq(blocklist.liftedById, lifters.id))
+    .leftJoin(
+      blockedUsers,
+      and(eq(blocklist.type, "USER"), eq(blocklist.value, blockedUsers.id))
+    )
+    .where(history ? not(active) : active)
+    .orderBy(desc(blocklist.createdAt))
+    .limit(limit);
+
+  return rows.map(({ block, ...rest }) => ({ ...block, ...rest }));
+}
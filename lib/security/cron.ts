@@ -0,0 +1,15 @@
+import type { NextRequest } from "next/server";
+import { timingSafeEqual } from "node:crypto";
+
+/**
+ * Whether a scheduled-job request (e.g. Vercel Cron) carries
+ * `Authorization: Bearer $CRON_SECRET`. Always false when the secret is unset.
+ */
+export function hasValidCronSecret(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const header = request.headers.get("authorization") ?? "";
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(header);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -531,6 +531,7 @@ export class SecurityHeaders {
       ...(domains.cdn.cloudfront ? [domains.cdn.cloudfront] : []),
       ...(domains.cdn.cloudflare ? [domains.cdn.cloudflare] : []),
       ...(domains.cdn.custom ? [domains.cdn.custom] : []),
+      ...domains.storage,
       // Specific services that serve images
       domains.supabase, // Supabase storage (specific URL if available)
       "https://*.supabase.co", // Fallback for Supabase
@@ -577,7 +578,12 @@ export class SecurityHeaders {
         cloudfront: process.env.NEXT_PUBLIC_CLOUDFRONT_URL,
         cloudflare: process.env.NEXT_PUBLIC_CLOUDFLARE_URL,
         custom: process.env.NEXT_PUBLIC_CDN_URL,
-      }
+      },
+      // Upload storage (lib/storage.ts): presigned PUTs go to the endpoint,
+      // images are served from the public URL — e.g. a local MinIO
+      storage: [process.env.S3_ENDPOINT, process.env.S3_PUBLIC_URL]
+        .filter((url): url is string => !!url)
+        .map((url) => new URL(url).origin),
     };
   }
 
@@ -593,6 +599,7 @@ export class SecurityHeaders {
       ...(domains.cdn.cloudfront ? [domains.cdn.cloudfront] : []),
       ...(domains.cdn.cloudflare ? [domains.cdn.cloudflare] : []),
       ...(domains.cdn.custom ? [domains.cdn.custom] : []),
+      ...domains.storage,
       // Supabase API (use specific URL if available)
       domains.supabase,
       domains.supabase.replace('https://', 'wss://'), // Supabase realtime
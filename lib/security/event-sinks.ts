@@ -0,0 +1,78 @@
+/**
+ * Node-only sinks for the security event pipeline (lib/security/events.ts),
+ * which loads them outside the Edge Runtime.
+ */
+
+import { db } from "@/lib/db";
+import { logs } from "@/lib/db/schema";
+import { getRedisClient } from "@/lib/security/limits";
+import { alertSink } from "@/lib/security/alerts";
+import type { EventSink, RecordedEvent } from "@/lib/security/events";
+
+// Approximate cap on the Redis stream's length (XADD MAXLEN ~)
+const REDIS_STREAM_MAX_LENGTH = 10_000;
+
+// Security events keep their threat type and outcome in metadata so the
+// dashboard can tell them apart from audit entries
+function toLogRow(event: RecordedEvent): typeof logs.$inferInsert {
+  const metadata =
+    event.kind === "security"
+      ? { ...event.metadata, threatType: event.threatType, blocked: event.blocked }
+      : event.metadata;
+
+  return {
+    action: event.action,
+    userId: event.userId,
+    entityType: event.entityType,
+    entityId: event.entityId,
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent,
+    metadata: metadata ?? undefined,
+    severity: event.severity,
+    createdAt: new Date(event.timestamp),
+  };
+}
+
+export const databaseSink: EventSink = {
+  name: "database",
+  async write(events) {
+    const rows = events.map(toLogRow);
+    try {
+      await db.insert(logs).values(rows);
+    } catch (batchError) {
+      // One bad row (e.g. a userId that no longer exists) rejects the whole
+      // insert; retry row by row so the rest are still stored
+      console.error("Batch insert of security events failed, retrying per row:", batchError);
+      for (const row of rows) {
+        try {
+          await db.insert(logs).values(row);
+        } catch (error) {
+          console.error("Failed to store security event:", row.action, error);
+        }
+      }
+    }
+  },
+};
+
+export function createRedisStreamSink(stream: string): EventSink {
+  return {
+    name: "redis",
+    async write(events) {
+      const redis = await getRedisClient();
+      if (!redis) return;
+
+      const pipeline = redis.pipeline();
+      for (const event of events) {
+        pipeline.xadd(stream, "MAXLEN", "~", REDIS_STREAM_MAX_LENGTH, "*", "event", JSON.stringify(event));
+      }
+      await pipeline.exec();
+    },
+  };
+}
+
+export function getServerEventSinks(): EventSink[] {
+  const sinks = [databaseSink, alertSink];
+  const stream = process.env.SECURITY_EVENTS_REDIS_STREAM;
+  if (stream) sinks.push(createRedisStreamSink(stream));
+  return sinks;
+}
@@ -0,0 +1,423 @@
+/**
+ * Security & Audit Event Pipeline
+ *
+ * The one place security and audit events are recorded — middleware, server
+ * actions and route handlers all call logSecurityEvent()/logAuditEvent() (or
+ * the SecurityEvents helpers). Audit events and HIGH/CRITICAL security events
+ * are written before the call returns; the rest are buffered and written in
+ * batches. Every registered sink receives them:
+ *
+ * • stdout   - structured JSON lines (always on)
+ * • webhook  - POSTs batches to SECURITY_WEBHOOK_URL
+ * • database - the `logs` table read by the audit log and security dashboard
+ * • redis    - XADD to the SECURITY_EVENTS_REDIS_STREAM stream
+ * • alerts   - evaluates the admin alert rules (lib/security/alerts.ts)
+ *
+ * Edge-safe: this module has no Node-only imports. The database, Redis and
+ * alert sinks live in lib/security/event-sinks.ts and are only loaded outside
+ * the Edge Runtime.
+ */
+
+import type { LogSeverity } from "@/lib/db/schema";
+
+// ==========================================
+// TYPE DEFINITIONS
+// ==========================================
+
+export type EventSeverity = LogSeverity;
+
+export type ThreatType =
+  | "AUTHENTICATION"
+  | "AUTHORIZATION"
+  | "INPUT_VALIDATION"
+  | "RATE_LIMIT"
+  | "FILE_UPLOAD"
+  | "DATA_ACCESS"
+  | "CSRF"
+  | "CSP"
+  | "SUSPICIOUS_ACTIVITY"
+  | "SYSTEM";
+
+export interface AuditEvent {
+  action: string;
+  userId?: string;
+  entityType: string;
+  entityId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: Record<string, unknown>;
+  severity: EventSeverity;
+}
+
+export interface SecurityEvent extends AuditEvent {
+  threatType: ThreatType;
+  blocked: boolean;
+}
+
+/** An event as sinks receive it */
+export interface RecordedEvent extends AuditEvent {
+  kind: "audit" | "security";
+  threatType?: ThreatType;
+  blocked?: boolean;
+  timestamp: string;
+}
+
+export interface EventSink {
+  name: string;
+  write(events: RecordedEvent[]): Promise<void> | void;
+}
+
+const SEVERITY_RANK: Record<EventSeverity, number> = {
+  LOW: 0,
+  MEDIUM: 1,
+  HIGH: 2,
+  CRITICAL: 3,
+};
+
+export function isAtLeastSeverity(severity: EventSeverity, minimum: EventSeverity): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[minimum];
+}
+
+function isEdgeRuntime(): boolean {
+  return (
+    typeof process === "undefined" ||
+    process.env.NEXT_RUNTIME === "edge" ||
+    "EdgeRuntime" in globalThis
+  );
+}
+
+// ==========================================
+// BUILT-IN SINKS
+// ==========================================
+
+export const stdoutSink: EventSink = {
+  name: "stdout",
+  write(events) {
+    for (const event of events) {
+      const line = JSON.stringify(event);
+      const prefix = event.kind === "security" ? "[SECURITY]" : "[AUDIT]";
+      if (isAtLeastSeverity(event.severity, "HIGH")) console.error(prefix, line);
+      else if (event.severity === "MEDIUM") console.warn(prefix, line);
+      else console.log(prefix, line);
+    }
+  },
+};
+
+/** POSTs `{ events }` batches to `url`, skipping events below `minSeverity`. */
+export function createWebhookSink(url: string, minSeverity: EventSeverity = "HIGH"): EventSink {
+  return {
+    name: "webhook",
+    async write(events) {
+      const selected = events.filter((event) => isAtLeastSeverity(event.severity, minSeverity));
+      if (selected.length === 0) return;
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ events: selected }),
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) {
+        throw new Error(`Security webhook responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+// ==========================================
+// PIPELINE
+// ==========================================
+
+// Recent events kept in memory for the live security dashboard
+const RECENT_EVENTS_LIMIT = 1000;
+// Flush when this many events are waiting, or after FLUSH_DELAY_MS
+const FLUSH_BATCH_SIZE = 50;
+const FLUSH_DELAY_MS = 2000;
+// Oldest events are dropped past this if they arrive faster than sinks flush
+const MAX_BUFFERED_EVENTS = 1000;
+
+const sinks = new Map<string, EventSink>();
+let defaultSinksLoaded: Promise<void> | null = null;
+let buffer: RecordedEvent[] = [];
+let recentEvents: RecordedEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Add a sink, replacing any registered under the same name. */
+export function registerEventSink(sink: EventSink): void {
+  sinks.set(sink.name, sink);
+}
+
+export function unregisterEventSink(name: string): void {
+  sinks.delete(name);
+}
+
+// Defaults never replace a sink registered under the same name
+function loadDefaultSinks(): Promise<void> {
+  if (!defaultSinksLoaded) {
+    defaultSinksLoaded = (async () => {
+      const defaults: EventSink[] = [stdoutSink];
+
+      const webhookUrl = process.env.SECURITY_WEBHOOK_URL;
+      if (webhookUrl) {
+        const minSeverity = process.env.SECURITY_WEBHOOK_MIN_SEVERITY?.toUpperCase();
+        defaults.push(
+          createWebhookSink(
+            webhookUrl,
+            minSeverity && minSeverity in SEVERITY_RANK ? (minSeverity as EventSeverity) : "HIGH"
+          )
+        );
+      }
+
+      if (!isEdgeRuntime()) {
+        try {
+          const { getServerEventSinks } = await import("@/lib/security/event-sinks");
+          defaults.push(...getServerEventSinks());
+        } catch (error) {
+          console.error("Failed to load server event sinks:", error);
+        }
+      }
+
+      for (const sink of defaults) {
+        if (!sinks.has(sink.name)) registerEventSink(sink);
+      }
+    })();
+  }
+  return defaultSinksLoaded;
+}
+
+/**
+ * Write every buffered event to the sinks. A failing sink is logged and
+ * doesn't affect the others.
+ */
+export async function flushSecurityEvents(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  await loadDefaultSinks();
+
+  const batch = buffer;
+  buffer = [];
+  if (batch.length === 0) return;
+
+  const targets = [...sinks.values()];
+  const results = await Promise.allSettled(targets.map(async (sink) => sink.write(batch)));
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(`Security event sink "${targets[index].name}" failed:`, result.reason);
+    }
+  });
+}
+
+function scheduleFlush() {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    void flushSecurityEvents();
+  }, FLUSH_DELAY_MS);
+  // Don't hold a Node process open just to flush
+  (flushTimer as { unref?: () => void }).unref?.();
+}
+
+async function record(event: RecordedEvent): Promise<void> {
+  try {
+    recentEvents.unshift(event);
+    if (recentEvents.length > RECENT_EVENTS_LIMIT) {
+      recentEvents = recentEvents.slice(0, RECENT_EVENTS_LIMIT);
+    }
+
+    buffer.push(event);
+    if (buffer.length > MAX_BUFFERED_EVENTS) {
+      buffer = buffer.slice(-MAX_BUFFERED_EVENTS);
+    }
+
+    // Audit entries and serious events are written before the caller moves
+    // on, since buffered events are lost if the process exits first
+    if (
+      buffer.length >= FLUSH_BATCH_SIZE ||
+      event.kind === "audit" ||
+      isAtLeastSeverity(event.severity, "HIGH")
+    ) {
+      await flushSecurityEvents();
+    } else {
+      scheduleFlush();
+    }
+  } catch (error) {
+    console.error("Failed to record security event:", error);
+    // Don't throw - logging failures shouldn't break the main flow
+  }
+}
+
+function normalize(event: AuditEvent): AuditEvent {
+  return {
+    ...event,
+    userAgent: event.userAgent?.substring(0, 200),
+  };
+}
+
+/**
+ * Record a security event (a blocked or suspicious request)
+ */
+export function logSecurityEvent(event: SecurityEvent): Promise<void> {
+  return record({ ...normalize(event), kind: "security", timestamp: new Date().toISOString() });
+}
+
+/**
+ * Record an audit event (a sensitive operation)
+ */
+export function logAuditEvent(event: AuditEvent): Promise<void> {
+  return record({ ...normalize(event), kind: "audit", timestamp: new Date().toISOString() });
+}
+
+/**
+ * Events recorded by this process, newest first
+ */
+export function getRecentEvents(limit = 50): RecordedEvent[] {
+  return recentEvents.slice(0, limit);
+}
+
+export function clearRecentEvents(): void {
+  recentEvents = [];
+}
+
+// ==========================================
+// COMMON EVENTS
+// ==========================================
+
+/**
+ * Helper functions for common security events
+ */
+export const SecurityEvents = {
+  authenticationFailure: (
+    userId?: string,
+    ipAddress?: string,
+    reason?: string
+  ) =>
+    logSecurityEvent({
+      action: "Authentication Failure",
+      userId,
+      entityType: "user",
+      ipAddress,
+      threatType: "AUTHENTICATION",
+      blocked: true,
+      severity: "MEDIUM",
+      metadata: { reason: reason || "unknown" },
+    }),
+
+  authorizationFailure: (
+    userId: string,
+    resource: string,
+    ipAddress?: string
+  ) =>
+    logSecurityEvent({
+      action: "Authorization Failure",
+      userId,
+      entityType: resource,
+      ipAddress,
+      threatType: "AUTHORIZATION",
+      blocked: true,
+      severity: "HIGH",
+      metadata: { attemptedResource: resource },
+    }),
+
+  rateLimitExceeded: (
+    identifier: string,
+    endpoint: string,
+    ipAddress?: string
+  ) =>
+    logSecurityEvent({
+      action: "Rate Limit Exceeded",
+      entityType: "rate_limit",
+      ipAddress,
+      threatType: "RATE_LIMIT",
+      blocked: true,
+      severity: "MEDIUM",
+      metadata: { identifier, endpoint },
+    }),
+
+  csrfFailure: (
+    ipAddress: string | undefined,
+    path: string,
+    reason: "missing" | "invalid"
+  ) =>
+    logSecurityEvent({
+      action: reason === "missing" ? "CSRF Token Missing" : "CSRF Validation Failed",
+      entityType: "request",
+      ipAddress,
+      threatType: "CSRF",
+      blocked: true,
+      severity: "MEDIUM",
+      metadata: { path },
+    }),
+
+  suspiciousFileUpload: (
+    userId: string,
+    filename: string,
+    fileType: string,
+    ipAddress?: string
+  ) =>
+    logSecurityEvent({
+      action: "Suspicious File Upload Blocked",
+      userId,
+      entityType: "file",
+      ipAddress,
+      threatType: "FILE_UPLOAD",
+      blocked: true,
+      severity: "HIGH",
+      metadata: { filename, fileType },
+    }),
+
+  inputValidationFailure: (
+    userId: string | undefined,
+    field: string,
+    value: string,
+    ipAddress?: string
+  ) =>
+    logSecurityEvent({
+      action: "Input Validation Failure",
+      userId,
+      entityType: "input",
+      ipAddress,
+      threatType: "INPUT_VALIDATION",
+      blocked: true,
+      severity: "MEDIUM",
+      metadata: { field, value: value.substring(0, 100) }, // Truncate for logging
+    }),
+
+  dataAccessAttempt: (
+    userId: string,
+    resource: string,
+    authorized: boolean,
+    ipAddress?: string
+  ) =>
+    logSecurityEvent({
+      action: authorized
+        ? "Authorized Data Access"
+        : "Unauthorized Data Access Attempt",
+      userId,
+      entityType: resource,
+      ipAddress,
+      threatType: "DATA_ACCESS",
+      blocked: !authorized,
+      severity: authorized ? "LOW" : "HIGH",
+      metadata: { resource },
+    }),
+
+  protectedAreaAccess: async (userId: string, ipAddress?: string, area?: string) => {
+    // Ignore in development for localhost IPs
+    const isLocal =
+      !ipAddress ||
+      ipAddress === "127.0.0.1" ||
+      ipAddress === "::1" ||
+      ipAddress === "0:0:0:0:0:0:0:1";
+    if (process.env.NODE_ENV !== "production" && isLocal) return;
+    return logAuditEvent({
+      action: "Protected Area Access",
+      userId,
+      entityType: "protected_route",
+      ipAddress,
+      severity: "LOW",
+      metadata: { area: area || "unknown" },
+    });
+  },
+};
@@ -0,0 +1,187 @@
+/**
+ * Tests for IP address and CIDR range helpers (lib/security/ip.ts)
+ * Run with: npx tsx lib/security/ip.test.ts
+ */
+
+import {
+  formatIp,
+  isIpInRange,
+  isPublicHostname,
+  isPublicIp,
+  normalizeCidr,
+  normalizeIp,
+  parseCidr,
+  parseIp,
+} from "./ip";
+
+let passedTests = 0;
+let totalTests = 0;
+
+function check(testName: string, passed: boolean, details?: string) {
+  totalTests += 1;
+  passedTests += passed ? 1 : 0;
+  console.log(`${passed ? "✅" : "❌"} ${testName}`);
+  if (!passed && details) console.log(`  ${details}`);
+}
+
+function checkEqual(testName: string, actual: unknown, expected: unknown) {
+  check(
+    testName,
+    JSON.stringify(actual) === JSON.stringify(expected),
+    `Expected ${JSON.stringify(expected)}\n  Got      ${JSON.stringify(actual)}`
+  );
+}
+
+function inRange(ip: string, cidr: string): boolean {
+  const bytes = parseIp(ip);
+  const range = parseCidr(cidr);
+  if (!bytes || !range) throw new Error(`Bad fixture: ${ip} in ${cidr}`);
+  return isIpInRange(bytes, range);
+}
+
+function isPublic(ip: string): boolean {
+  const bytes = parseIp(ip);
+  if (!bytes) throw new Error(`Bad fixture: ${ip}`);
+  return isPublicIp(bytes);
+}
+
+async function runTests() {
+  console.log("🧪 Testing lib/security/ip.ts...\n");
+
+  // Parsing
+  checkEqual("IPv4 parses to four bytes", parseIp(" 192.168.1.20 "), [192, 168, 1, 20]);
+  checkEqual(
+    "IPv6 parses to sixteen bytes",
+    parseIp("2001:db8::1"),
+    [0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1]
+  );
+  checkEqual("IPv4-mapped IPv6 is treated as IPv4", parseIp("::ffff:10.0.0.1"), [10, 0, 0, 1]);
+  checkEqual("hex IPv4-mapped IPv6 is treated as IPv4", parseIp("::ffff:a00:1"), [10, 0, 0, 1]);
+  checkEqual("an IPv6 zone id is ignored", normalizeIp("fe80::1%eth0"), "fe80::1");
+
+  const invalid = [
+    "",
+    "256.1.1.1",
+    "1.2.3",
+    "1.2.3.4.5",
+    "01234.1.1.1",
+    "1.2.3.x",
+    "1::2::3",
+    "1:2:3:4:5:6:7:8:9",
+    "1:2:3:4:5:6:7:8::",
+    "12345::",
+    "::ffff:300.0.0.1",
+    "example.com",
+  ];
+  const accepted = invalid.filter((value) => parseIp(value) !== null);
+  check("malformed addresses are rejected", accepted.length === 0, `Accepted ${JSON.stringify(accepted)}`);
+
+  // Formatting
+  checkEqual("IPv6 is lowercased and compressed", normalizeIp("2001:0DB8:0000:0000:0000:0000:0000:0001"), "2001:db8::1");
+  checkEqual("the longest zero run is compressed", normalizeIp("1:0:0:2:0:0:0:3"), "1:0:0:2::3");
+  checkEqual("the first of equal zero runs is compressed", normalizeIp("1:0:0:2:3:0:0:4"), "1::2:3:0:0:4");
+  checkEqual("a single zero hextet is not compressed", normalizeIp("1:0:2:3:4:5:6:7"), "1:0:2:3:4:5:6:7");
+  checkEqual("the unspecified address", normalizeIp("0:0:0:0:0:0:0:0"), "::");
+  checkEqual("loopback", normalizeIp("::1"), "::1");
+  checkEqual("formatIp writes IPv4 dotted", formatIp([127, 0, 0, 1]), "127.0.0.1");
+  checkEqual("normalizeIp returns null for invalid input", normalizeIp("nope"), null);
+
+  // CIDR parsing
+  checkEqual("host bits are cleared", parseCidr("10.1.2.3/8"), { bytes: [10, 0, 0, 0], prefix: 8 });
+  checkEqual("prefixes inside a byte are masked", normalizeCidr("172.31.255.255/12"), "172.16.0.0/12");
+  checkEqual("IPv6 ranges are normalized", normalizeCidr("2001:DB8:ffff::1/32"), "2001:db8::/32");
+  checkEqual("mapped IPv4 ranges move onto 32 bits", normalizeCidr("::ffff:192.168.0.0/112"), "192.168.0.0/16");
+  checkEqual("/0 covers everything", normalizeCidr("1.2.3.4/0"), "0.0.0.0/0");
+  checkEqual("/32 is a single host", normalizeCidr("1.2.3.4/32"), "1.2.3.4/32");
+
+  const invalidCidrs = [
+    "10.0.0.0",
+    "10.0.0.0/33",
+    "::/129",
+    "10.0.0.0/-1",
+    "10.0.0.0/8/8",
+    "10.0.0.0/x",
+    "nope/8",
+    "::ffff:1.2.3.4/95",
+  ];
+  const acceptedCidrs = invalidCidrs.filter((value) => parseCidr(value) !== null);
+  check("malformed ranges are rejected", acceptedCidrs.length === 0, `Accepted ${JSON.stringify(acceptedCidrs)}`);
+
+  // Matching
+  check("an address inside an IPv4 range matches", inRange("10.200.3.4", "10.0.0.0/8"));
+  check("an address outside an IPv4 range does not", !inRange("11.0.0.1", "10.0.0.0/8"));
+  check("range edges match", inRange("172.16.0.0", "172.16.0.0/12") && inRange("172.31.255.255", "172.16.0.0/12"));
+  check("just past the range does not match", !inRange("172.32.0.0", "172.16.0.0/12"));
+  check("IPv6 ranges match", inRange("2001:db8:1234::5", "2001:db8::/32") && !inRange("2001:db9::1", "2001:db8::/32"));
+  check("IPv4 never matches an IPv6 range", !inRange("10.0.0.1", "::/0"));
+  check("mapped IPv4 matches an IPv4 range", inRange("::ffff:10.0.0.1", "10.0.0.0/8"));
+  check("/0 matches every address of its family", inRange("8.8.8.8", "0.0.0.0/0"));
+
+  // Public addresses
+  const privateIps = [
+    "0.0.0.0",
+    "10.0.0.1",
+    "100.64.0.1",
+    "127.0.0.1",
+    "169.254.169.254",
+    "172.16.5.5",
+    "192.168.1.1",
+    "198.18.0.1",
+    "224.0.0.1",
+    "255.255.255.255",
+    "::",
+    "::1",
+    "::ffff:127.0.0.1",
+    "64:ff9b::a00:1",
+    "fd00::1",
+    "fe80::1",
+    "ff02::1",
+  ];
+  const leaked = privateIps.filter(isPublic);
+  check("private, loopback and link-local addresses are not public", leaked.length === 0, `Public: ${JSON.stringify(leaked)}`);
+
+  const publicIps = ["8.8.8.8", "1.1.1.1", "172.32.0.1", "100.128.0.1", "2606:4700::1111"];
+  const blocked = publicIps.filter((ip) => !isPublic(ip));
+  check("public addresses are public", blocked.length === 0, `Not public: ${JSON.stringify(blocked)}`);
+
+  // Public hostnames
+  const localHosts = [
+    "localhost",
+    "intranet",
+    "api.localhost",
+    "printer.local",
+    "metadata.google.internal",
+    "router.home.arpa",
+    "127.0.0.1",
+    "[::1]",
+    "[::ffff:169.254.169.254]",
+    "10.0.0.1",
+    "Printer.LOCAL.",
+  ];
+  const allowed = localHosts.filter(isPublicHostname);
+  check("local and intranet hostnames are rejected", allowed.length === 0, `Allowed: ${JSON.stringify(allowed)}`);
+
+  const publicHosts = ["hooks.slack.com", "example.com.", "8.8.8.8", "[2606:4700::1111]", "local.example.com"];
+  const rejected = publicHosts.filter((host) => !isPublicHostname(host));
+  check("public hostnames are allowed", rejected.length === 0, `Rejected: ${JSON.stringify(rejected)}`);
+
+  console.log();
+  console.log(`📊 Test Results: ${passedTests}/${totalTests} tests passed`);
+
+  if (passedTests === totalTests) {
+    console.log("🎉 All tests passed! The IP helpers are working correctly.");
+  } else {
+    console.log("⚠️ Some tests failed. Please review the output above.");
+    process.exitCode = 1;
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
+
+export { runTests };
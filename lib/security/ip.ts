@@ -0,0 +1,172 @@
+/**
+ * IPv4/IPv6 address and CIDR range helpers for the blocklist and for vetting
+ * outbound webhook targets. Pure, so the form validation can share them with
+ * the proxy.
+ *
+ * Addresses are handled as byte arrays (4 bytes for IPv4, 16 for IPv6);
+ * IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are treated as IPv4.
+ */
+
+function parseIpv4(value: string): number[] | null {
+  const parts = value.split(".");
+  if (parts.length !== 4) return null;
+  const bytes = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return bytes.every((byte) => byte >= 0 && byte <= 255) ? bytes : null;
+}
+
+function parseIpv6(value: string): number[] | null {
+  let text = value.toLowerCase();
+
+  // A trailing dotted IPv4 part becomes two hextets
+  const lastColon = text.lastIndexOf(":");
+  if (text.includes(".")) {
+    const ipv4 = parseIpv4(text.slice(lastColon + 1));
+    if (!ipv4) return null;
+    text = `${text.slice(0, lastColon + 1)}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const hextets = [...head, ...Array<string>(missing).fill("0"), ...tail];
+  if (!hextets.every((hextet) => /^[0-9a-f]{1,4}$/.test(hextet))) return null;
+  return hextets.flatMap((hextet) => {
+    const number = parseInt(hextet, 16);
+    return [number >> 8, number & 0xff];
+  });
+}
+
+/** Bytes of an IPv4 or IPv6 address, or null if `value` isn't one. */
+export function parseIp(value: string): number[] | null {
+  const text = value.trim().replace(/%.*$/, ""); // Drop an IPv6 zone id
+  if (!text) return null;
+  if (!text.includes(":")) return parseIpv4(text);
+
+  const bytes = parseIpv6(text);
+  if (!bytes) return null;
+  const isMappedIpv4 =
+    bytes.slice(0, 10).every((byte) => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+  return isMappedIpv4 ? bytes.slice(12) : bytes;
+}
+
+/** Canonical text for address bytes; IPv6 is compressed per RFC 5952. */
+export function formatIp(bytes: number[]): string {
+  if (bytes.length === 4) return bytes.join(".");
+
+  const hextets: number[] = [];
+  for (let i = 0; i < 16; i += 2) hextets.push((bytes[i] << 8) | bytes[i + 1]);
+
+  // Longest run of two or more zero hextets becomes "::"
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; ) {
+    if (hextets[i] !== 0) {
+      i += 1;
+      continue;
+    }
+    let j = i;
+    while (j < 8 && hextets[j] === 0) j += 1;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = hextets.map((hextet) => hextet.toString(16));
+  if (bestStart === -1) return hex.join(":");
+  return `${hex.slice(0, bestStart).join(":")}::${hex.slice(bestStart + bestLength).join(":")}`;
+}
+
+/** Canonical form of an address, or null if `value` isn't one. */
+export function normalizeIp(value: string): string | null {
+  const bytes = parseIp(value);
+  return bytes ? formatIp(bytes) : null;
+}
+
+export interface IpRange {
+  bytes: number[];
+  prefix: number;
+}
+
+/** A CIDR range ("10.0.0.0/8", "2001:db8::/32") with its host bits cleared. */
+export function parseCidr(value: string): IpRange | null {
+  const [address, prefixText, ...rest] = value.trim().split("/");
+  if (rest.length > 0 || prefixText === undefined || !/^\d{1,3}$/.test(prefixText)) return null;
+
+  const bytes = parseIp(address);
+  if (!bytes) return null;
+  // A mapped IPv4 range is written against 128 bits; shift it onto 32
+  const prefix = Number(prefixText) - (address.includes(":") && bytes.length === 4 ? 96 : 0);
+  if (prefix < 0 || prefix > bytes.length * 8) return null;
+
+  return {
+    bytes: bytes.map((byte, index) => {
+      const bits = Math.min(8, Math.max(0, prefix - index * 8));
+      return byte & ((0xff << (8 - bits)) & 0xff);
+    }),
+    prefix,
+  };
+}
+
+/** Canonical form of a CIDR range, or null if `value` isn't one. */
+export function normalizeCidr(value: string): string | null {
+  const range = parseCidr(value);
+  return range ? `${formatIp(range.bytes)}/${range.prefix}` : null;
+}
+
+export function isIpInRange(ip: number[], range: IpRange): boolean {
+  if (ip.length !== range.bytes.length) return false;
+  for (let index = 0; index * 8 < range.prefix; index++) {
+    const bits = Math.min(8, range.prefix - index * 8);
+    const mask = (0xff << (8 - bits)) & 0xff;
+    if ((ip[index] & mask) !== range.bytes[index]) return false;
+  }
+  return true;
+}
+
+// Loopback, private, link-local (incl. cloud metadata), CGNAT, multicast and
+// reserved ranges — never valid targets for server-side requests
+const NON_PUBLIC_RANGES: IpRange[] = [
+  "0.0.0.0/8",
+  "10.0.0.0/8",
+  "100.64.0.0/10",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "172.16.0.0/12",
+  "192.0.0.0/24",
+  "192.168.0.0/16",
+  "198.18.0.0/15",
+  "224.0.0.0/4",
+  "240.0.0.0/4",
+  "::/128",
+  "::1/128",
+  "64:ff9b::/96",
+  "fc00::/7",
+  "fe80::/10",
+  "ff00::/8",
+].flatMap((cidr) => {
+  const range = parseCidr(cidr);
+  return range ? [range] : [];
+});
+
+export function isPublicIp(ip: number[]): boolean {
+  return !NON_PUBLIC_RANGES.some((range) => isIpInRange(ip, range));
+}
+
+/**
+ * Whether a URL hostname may be the target of a server-side request: public
+ * IP literals, and names that aren't local or single-label intranet names.
+ * Names can still resolve to private addresses, so check those too.
+ */
+export function isPublicHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1").replace(/\.$/, "");
+  const ip = parseIp(host);
+  if (ip) return isPublicIp(ip);
+  if (!host.includes(".")) return false;
+  return ![".localhost", ".local", ".internal", ".home.arpa"].some((suffix) => host.endsWith(suffix));
+}
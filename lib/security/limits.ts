@@ -1,5 +1,17 @@
-import { type RateLimitData } from "@/lib/schemas";
-import { getRateLimitConfig } from "@/lib/security/sanitize";
+import { desc } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { settings } from "@/lib/db/schema";
+import { type RateLimitData, rateLimitPolicyOverridesSchema } from "@/lib/schemas";
+import {
+  RATE_LIMIT_POLICY_NAMES,
+  getDefaultRateLimitPolicies,
+  getRateLimitHeaders,
+  resolveRateLimitPolicies,
+  type RateLimitPolicies,
+  type RateLimitPolicy,
+  type RateLimitPolicyName,
+  type RateLimitResult,
+} from "@/lib/rate-limit-policies";
 
 interface RateLimitStore {
   [key: string]: {
@@ -55,7 +67,7 @@ let _redisClientInitialized = false;
  * Returns null in Edge Runtime to avoid Node.js API usage.
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function getRedisClient(): Promise<any> {
+export async function getRedisClient(): Promise<any> {
   // Skip Redis in Edge Runtime
   if (isEdgeRuntime()) {
     return null;
@@ -95,14 +107,6 @@ async function getRedisClient(): Promise<any> {
   }
 }
 
-interface RateLimitResult {
-  allowed: boolean;
-  count: number;
-  remaining: number;
-  resetTime: number;
-  blocked: boolean;
-}
-
 /**
  * Rate limiting function that tracks requests per identifier
  * @param config - Rate limit configuration
@@ -121,6 +125,8 @@ export async function checkRateLimit(
       remaining: limit,
       resetTime: Date.now() + window,
       blocked: false,
+      limit,
+      windowMs: window,
     };
   }
 
@@ -138,6 +144,8 @@ export async function checkRateLimit(
         remaining: limit,
         resetTime: Date.now() + window,
         blocked: false,
+        limit,
+        windowMs: window,
       };
     }
   }
@@ -161,6 +169,8 @@ export async function checkRateLimit(
         remaining: blocked ? 0 : Math.max(0, limit - count),
         resetTime,
         blocked,
+        limit,
+        windowMs: window,
       };
     } catch (error) {
       // Fail open to in-memory fallback on Redis errors to avoid 500s
@@ -190,6 +200,8 @@ export async function checkRateLimit(
       remaining: 0,
       resetTime: entry.resetTime,
       blocked: true,
+      limit,
+      windowMs: window,
     };
   }
   if (entry.count >= limit) {
@@ -200,6 +212,8 @@ export async function checkRateLimit(
       remaining: 0,
       resetTime: entry.resetTime,
       blocked: true,
+      limit,
+      windowMs: window,
     };
   }
   entry.count += 1;
@@ -209,6 +223,8 @@ export async function checkRateLimit(
     remaining: Math.max(0, limit - entry.count),
     resetTime: entry.resetTime,
     blocked: false,
+    limit,
+    windowMs: window,
   };
 }
 
@@ -225,48 +241,80 @@ export function createRateLimit(limit: number, windowMs: number) {
   };
 }
 
-/**
- * Environment-aware rate limit configurations
- * Uses stricter limits in production, more lenient in development
- */
-function createRateLimits() {
-  const config = getRateLimitConfig();
+// ---------------------------------------------------------------------------
+// Policies
+// ---------------------------------------------------------------------------
 
-  return {
-    auth: createRateLimit(config.auth.limit, config.auth.window),
-    upload: createRateLimit(config.upload.limit, config.upload.window),
-    createPost: createRateLimit(
-      config.createPost.limit,
-      config.createPost.window
-    ),
-    createTag: createRateLimit(config.createTag.limit, config.createTag.window),
-    api: createRateLimit(config.api.limit, config.api.window),
-    admin: createRateLimit(config.admin.limit, config.admin.window),
-    search: createRateLimit(config.search.limit, config.search.window),
-    interactions: createRateLimit(
-      config.interactions.limit,
-      config.interactions.window
-    ),
-  };
+// Settings are re-read this often, so a policy edited on /settings reaches
+// every instance (and the proxy) without a restart
+const POLICY_REFRESH_MS = 15 * 1000;
+
+let policies: RateLimitPolicies = getDefaultRateLimitPolicies();
+let policiesLoadedAt = 0;
+let policiesLoading: Promise<void> | null = null;
+
+async function loadPolicies(): Promise<void> {
+  try {
+    const [row] = await db
+      .select({ rateLimitPolicies: settings.rateLimitPolicies })
+      .from(settings)
+      .orderBy(desc(settings.updatedAt))
+      .limit(1);
+    const parsed = rateLimitPolicyOverridesSchema.safeParse(row?.rateLimitPolicies ?? {});
+    if (!parsed.success) {
+      console.error("Ignoring invalid rate-limit policies in settings:", parsed.error.errors);
+    }
+    policies = resolveRateLimitPolicies(parsed.success ? parsed.data : {});
+  } catch (error) {
+    // Keep the last known policies and retry after the next interval
+    console.error("Failed to load rate-limit policies:", error);
+  } finally {
+    policiesLoadedAt = Date.now();
+    policiesLoading = null;
+  }
 }
 
-/**
- * Rate limit configurations that adapt to environment
- */
-export const rateLimits = createRateLimits();
+/** The current limit and window for a named policy. */
+export async function getRateLimitPolicy(name: RateLimitPolicyName): Promise<RateLimitPolicy> {
+  if (Date.now() - policiesLoadedAt > POLICY_REFRESH_MS) {
+    policiesLoading ??= loadPolicies();
+    await policiesLoading;
+  }
+  return policies[name];
+}
+
+/** Drops the cached policies so the next check re-reads settings. */
+export function invalidateRateLimitPolicies() {
+  policiesLoadedAt = 0;
+}
 
 /**
- * Get rate limit headers for HTTP responses
+ * Create a rate limiter that follows a named policy, so limit changes apply
+ * to the next request
  */
-export function getRateLimitHeaders(result: RateLimitResult) {
-  return {
-    "X-RateLimit-Limit": String(result.count + result.remaining),
-    "X-RateLimit-Remaining": String(result.remaining),
-    "X-RateLimit-Reset": new Date(result.resetTime).toISOString(),
-    "X-RateLimit-Blocked": result.blocked ? "true" : "false",
+export function createPolicyRateLimit(name: RateLimitPolicyName) {
+  return async (identifier: string): Promise<RateLimitResult> => {
+    const policy = await getRateLimitPolicy(name);
+    const result = await checkRateLimit({
+      identifier,
+      limit: policy.limit,
+      window: policy.windowSeconds * 1000,
+    });
+    return { ...result, policy: name };
   };
 }
 
+/**
+ * One rate limiter per policy. API key limiters are split by method, each with
+ * its own per-key identifier (getApiKeyRateLimit), so a write-heavy script
+ * can't starve its own reads
+ */
+export const rateLimits = Object.fromEntries(
+  RATE_LIMIT_POLICY_NAMES.map((name) => [name, createPolicyRateLimit(name)])
+) as Record<RateLimitPolicyName, (identifier: string) => Promise<RateLimitResult>>;
+
+export { getRateLimitHeaders, type RateLimitResult };
+
 /**
  * Get client identifier from request
  */
@@ -1,37 +1,18 @@
-// Console log level union for security monitoring
-// Note: LocalSeverityLevel type removed as not currently used
-// type LocalSeverityLevel =
-//   | "error"
-//   | "warn" 
-//   | "log"
-//   | "info"
-//   | "debug";
-
-// Note: Severity level map removed as not currently used
-// const severityLevelMap: Record<SecurityEvent["severity"], LocalSeverityLevel> = {
-//   low: "info",
-//   medium: "warn",
-//   high: "error",
-//   critical: "error",
-// };
-
-function isEdgeRuntime(): boolean {
-  return (
-    typeof process === "undefined" ||
-    process.env.NEXT_RUNTIME === "edge" ||
-    "EdgeRuntime" in globalThis
-  );
-}
+/**
+ * Security Monitor
+ * Typed security event helpers on top of the shared event pipeline
+ * (lib/security/events.ts), plus pattern detection over the events this
+ * process recorded recently for the security dashboard.
+ */
 
-export interface SecurityEvent {
-  type: SecurityEventType;
-  timestamp: string;
-  ip?: string;
-  userAgent?: string;
-  userId?: string;
-  details: Record<string, unknown>;
-  severity: "low" | "medium" | "high" | "critical";
-}
+import {
+  getRecentEvents,
+  clearRecentEvents,
+  logSecurityEvent,
+  type EventSeverity,
+  type RecordedEvent,
+  type ThreatType,
+} from "@/lib/security/events";
 
 export enum SecurityEventType {
   CSRF_VALIDATION_FAILED = "csrf_validation_failed",
@@ -51,157 +32,59 @@ export enum SecurityEventType {
   INTERNAL_SERVER_ERROR = "internal_server_error",
 }
 
-export class SecurityMonitor {
-  private static readonly MAX_EVENTS_IN_MEMORY = 1000;
-  private static recentEvents: SecurityEvent[] = [];
+// How each event type is recorded in the pipeline (and the `logs` table)
+const EVENT_TYPES: Record<SecurityEventType, { action: string; threatType: ThreatType; blocked: boolean }> = {
+  [SecurityEventType.CSRF_VALIDATION_FAILED]: { action: "CSRF Validation Failed", threatType: "CSRF", blocked: true },
+  [SecurityEventType.CSRF_TOKEN_MISSING]: { action: "CSRF Token Missing", threatType: "CSRF", blocked: true },
+  [SecurityEventType.CSP_VIOLATION]: { action: "CSP Violation", threatType: "CSP", blocked: true },
+  [SecurityEventType.SUSPICIOUS_REQUEST]: { action: "Suspicious Request", threatType: "SUSPICIOUS_ACTIVITY", blocked: true },
+  [SecurityEventType.RATE_LIMIT_EXCEEDED]: { action: "Rate Limit Exceeded", threatType: "RATE_LIMIT", blocked: true },
+  [SecurityEventType.UNAUTHORIZED_ACCESS]: { action: "Unauthorized Access", threatType: "AUTHORIZATION", blocked: true },
+  [SecurityEventType.FORM_TAMPERING]: { action: "Form Tampering", threatType: "INPUT_VALIDATION", blocked: true },
+  [SecurityEventType.INVALID_SESSION]: { action: "Invalid Session", threatType: "AUTHENTICATION", blocked: true },
+  [SecurityEventType.SECURITY_HEADER_MISSING]: { action: "Security Header Missing", threatType: "SYSTEM", blocked: false },
+  [SecurityEventType.FAILED_LOGIN]: { action: "Failed Login", threatType: "AUTHENTICATION", blocked: true },
+  [SecurityEventType.MALICIOUS_PAYLOAD]: { action: "Malicious Payload", threatType: "INPUT_VALIDATION", blocked: true },
+  [SecurityEventType.FILE_UPLOAD_ABUSE]: { action: "File Upload Abuse", threatType: "FILE_UPLOAD", blocked: true },
+  [SecurityEventType.SEARCH_ABUSE]: { action: "Search Abuse", threatType: "SUSPICIOUS_ACTIVITY", blocked: true },
+  [SecurityEventType.SUSPICIOUS_SEARCH_PATTERN]: { action: "Suspicious Search Pattern", threatType: "SUSPICIOUS_ACTIVITY", blocked: true },
+  [SecurityEventType.INTERNAL_SERVER_ERROR]: { action: "Internal Server Error", threatType: "SYSTEM", blocked: false },
+};
+
+export type SecurityEvent = RecordedEvent;
 
+export class SecurityMonitor {
   /**
    * Log a security event
    */
   static async logSecurityEvent(
     type: SecurityEventType,
     details: Record<string, unknown> = {},
-    severity: SecurityEvent["severity"] = "medium",
+    severity: "low" | "medium" | "high" | "critical" = "medium",
     userId?: string
   ): Promise<void> {
-    try {
-      const event: SecurityEvent = {
-        type,
-        timestamp: new Date().toISOString(),
-        ip: this.getClientIP(new Headers()),
-        userAgent: this.sanitizeUserAgent(
-          typeof navigator !== "undefined" ? navigator.userAgent : null
-        ),
-        userId,
-        details,
-        severity,
-      };
-
-      // Add to recent events for monitoring
-      this.addToRecentEvents(event);
-
-      // Log to console with structured format
-      this.logToConsole(event);
-
-      // Skip external monitoring in Edge Runtime
-      if (!isEdgeRuntime()) {
-        // In production, this would integrate with your monitoring service
-        // Examples: DataDog, New Relic, etc.
-        if (process.env.NODE_ENV === "production") {
-          await this.sendToMonitoringService(event);
-        }
-      }
-    } catch (error) {
-      console.error("Failed to log security event:", error);
-    }
-  }
-
-  /**
-   * Get client IP from headers
-   */
-  private static getClientIP(headersList: Headers): string | undefined {
-    // Check common proxy headers
-    const forwardedFor = headersList.get("x-forwarded-for");
-    if (forwardedFor) {
-      return forwardedFor.split(",")[0]?.trim();
-    }
-
-    const realIP = headersList.get("x-real-ip");
-    if (realIP) {
-      return realIP.trim();
-    }
-
-    return headersList.get("x-client-ip") || "unknown";
-  }
-
-  /**
-   * Sanitize user agent for logging
-   */
-  private static sanitizeUserAgent(
-    userAgent: string | null
-  ): string | undefined {
-    if (!userAgent) return undefined;
-
-    // Remove potentially sensitive information while keeping useful data
-    return userAgent
-      .replace(/\b\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}\b/g, "[IP]") // Remove IPs
-      .slice(0, 200); // Truncate to reasonable length
-  }
-
-  /**
-   * Add event to recent events queue
-   */
-  private static addToRecentEvents(event: SecurityEvent): void {
-    this.recentEvents.unshift(event);
-    if (this.recentEvents.length > this.MAX_EVENTS_IN_MEMORY) {
-      this.recentEvents = this.recentEvents.slice(0, this.MAX_EVENTS_IN_MEMORY);
-    }
-  }
-
-  /**
-   * Log structured security event to console
-   */
-  private static logToConsole(event: SecurityEvent): void {
-    const logLevel = this.getLogLevel(event.severity);
-
-    console[logLevel](`[SECURITY] ${event.type}`, {
-      timestamp: event.timestamp,
-      severity: event.severity,
-      ip: event.ip,
-      userId: event.userId,
-      details: event.details,
+    const { action, threatType, blocked } = EVENT_TYPES[type];
+    await logSecurityEvent({
+      action,
+      userId,
+      entityType: "security",
+      threatType,
+      blocked,
+      severity: severity.toUpperCase() as EventSeverity,
+      metadata: details,
     });
   }
 
-  /**
-   * Get appropriate console log level based on severity
-   */
-  private static getLogLevel(
-    severity: SecurityEvent["severity"]
-  ): "log" | "warn" | "error" {
-    switch (severity) {
-      case "low":
-        return "log";
-      case "medium":
-        return "warn";
-      case "high":
-      case "critical":
-        return "error";
-      default:
-        return "log";
-    }
-  }
-
-  /**
-   * Send event to external monitoring service
-   */
-  private static async sendToMonitoringService(
-    event: SecurityEvent
-  ): Promise<void> {
-    // This is where you'd integrate with your monitoring service
-    // Example implementations:
-
-    // Custom webhook
-    // await fetch(process.env.SECURITY_WEBHOOK_URL, {
-    //   method: 'POST',
-    //   headers: { 'Content-Type': 'application/json' },
-    //   body: JSON.stringify(event),
-    // });
-
-    // For now, just log that we would send to monitoring
-    if (process.env.NODE_ENV === "development") {
-      console.log(
-        "[SECURITY-MONITOR] Would send to monitoring service:",
-        event.type
-      );
-    }
-  }
-
   /**
    * Get recent security events (for debugging/dashboard)
    */
   static getRecentEvents(limit = 50): SecurityEvent[] {
-    return this.recentEvents.slice(0, limit);
+    return this.securityEvents().slice(0, limit);
+  }
+
+  // Audit entries share the pipeline's recent-events buffer; leave them out
+  private static securityEvents(): SecurityEvent[] {
+    return getRecentEvents(Number.MAX_SAFE_INTEGER).filter((event) => event.kind === "security");
   }
 
   /**
@@ -213,20 +96,21 @@ export class SecurityMonitor {
     eventsBySeverity: Record<string, number>;
     recentActivity: SecurityEvent[];
   } {
+    const events = this.securityEvents();
     const eventsByType: Record<string, number> = {};
     const eventsBySeverity: Record<string, number> = {};
 
-    this.recentEvents.forEach((event) => {
-      eventsByType[event.type] = (eventsByType[event.type] || 0) + 1;
+    events.forEach((event) => {
+      eventsByType[event.action] = (eventsByType[event.action] || 0) + 1;
       eventsBySeverity[event.severity] =
         (eventsBySeverity[event.severity] || 0) + 1;
     });
 
     return {
-      totalEvents: this.recentEvents.length,
+      totalEvents: events.length,
       eventsByType,
       eventsBySeverity,
-      recentActivity: this.recentEvents.slice(0, 10),
+      recentActivity: events.slice(0, 10),
     };
   }
 
@@ -234,7 +118,7 @@ export class SecurityMonitor {
    * Clear recent events (for testing/debugging)
    */
   static clearEvents(): void {
-    this.recentEvents = [];
+    clearRecentEvents();
   }
 
   /**
@@ -245,20 +129,21 @@ export class SecurityMonitor {
     patterns: string[];
     recommendations: string[];
   } {
+    const events = this.securityEvents();
     const patterns: string[] = [];
     const recommendations: string[] = [];
 
     // Check for high frequency of CSRF failures from same IP
-    const csrfFailures = this.recentEvents
+    const csrfFailures = events
       .filter(
-        (event) => event.type === SecurityEventType.CSRF_VALIDATION_FAILED
+        (event) => event.action === EVENT_TYPES[SecurityEventType.CSRF_VALIDATION_FAILED].action
       )
       .slice(0, 20); // Last 20 events
 
     const csrfFailuresByIP: Record<string, number> = {};
     csrfFailures.forEach((event) => {
-      if (event.ip) {
-        csrfFailuresByIP[event.ip] = (csrfFailuresByIP[event.ip] || 0) + 1;
+      if (event.ipAddress) {
+        csrfFailuresByIP[event.ipAddress] = (csrfFailuresByIP[event.ipAddress] || 0) + 1;
       }
     });
 
@@ -272,12 +157,12 @@ export class SecurityMonitor {
     });
 
     // Check for rapid-fire security events
-    const recentEvents = this.recentEvents.slice(0, 10);
+    const recentEvents = events.slice(0, 10);
     if (recentEvents.length >= 10) {
       const timeSpan =
         new Date(recentEvents[0].timestamp).getTime() -
         new Date(recentEvents[recentEvents.length - 1].timestamp).getTime();
-      const eventsPerMinute = (recentEvents.length / timeSpan) * 60000;
+      const eventsPerMinute = (recentEvents.length / Math.max(timeSpan, 1)) * 60000;
 
       if (eventsPerMinute > 10) {
         patterns.push(
@@ -290,14 +175,14 @@ export class SecurityMonitor {
     }
 
     // Check for multiple failed logins from same IP
-    const failedLogins = this.recentEvents
-      .filter((event) => event.type === SecurityEventType.FAILED_LOGIN)
+    const failedLogins = events
+      .filter((event) => event.threatType === "AUTHENTICATION")
       .slice(0, 20);
 
     const failedLoginsByIP: Record<string, number> = {};
     failedLogins.forEach((event) => {
-      if (event.ip) {
-        failedLoginsByIP[event.ip] = (failedLoginsByIP[event.ip] || 0) + 1;
+      if (event.ipAddress) {
+        failedLoginsByIP[event.ipAddress] = (failedLoginsByIP[event.ipAddress] || 0) + 1;
       }
     });
 
@@ -323,30 +208,31 @@ export class SecurityMonitor {
   static getSecurityRecommendations(): string[] {
     const recommendations: string[] = [];
     const stats = this.getSecurityStats();
+    const countOf = (type: SecurityEventType) => stats.eventsByType[EVENT_TYPES[type].action] || 0;
 
     // High error rate
-    if (stats.eventsBySeverity.error > 10) {
+    if ((stats.eventsBySeverity.HIGH || 0) + (stats.eventsBySeverity.CRITICAL || 0) > 10) {
       recommendations.push(
         "High number of security errors detected. Review system logs and investigate potential issues."
       );
     }
 
     // Multiple unauthorized access attempts
-    if (stats.eventsByType[SecurityEventType.UNAUTHORIZED_ACCESS] > 5) {
+    if (countOf(SecurityEventType.UNAUTHORIZED_ACCESS) > 5) {
       recommendations.push(
         "Multiple unauthorized access attempts detected. Consider implementing additional security measures."
       );
     }
 
     // Rate limiting issues
-    if (stats.eventsByType[SecurityEventType.RATE_LIMIT_EXCEEDED] > 3) {
+    if (countOf(SecurityEventType.RATE_LIMIT_EXCEEDED) > 3) {
       recommendations.push(
         "Rate limiting frequently exceeded. Consider adjusting rate limits or investigating potential abuse."
       );
     }
 
     // CSRF issues
-    if (stats.eventsByType[SecurityEventType.CSRF_VALIDATION_FAILED] > 2) {
+    if (countOf(SecurityEventType.CSRF_VALIDATION_FAILED) > 2) {
       recommendations.push(
         "CSRF validation failures detected. Ensure all forms include proper CSRF tokens."
       );
@@ -355,52 +241,6 @@ export class SecurityMonitor {
     return recommendations;
   }
 
-  /**
-   * Export security events for external analysis
-   */
-  static exportSecurityEvents(
-    format: "json" | "csv" = "json"
-  ): string {
-    const events = this.recentEvents;
-
-    if (format === "csv") {
-      const headers = [
-        "timestamp",
-        "type",
-        "severity",
-        "ip",
-        "userId",
-        "details",
-      ];
-      const csvRows = [
-        headers.join(","),
-        ...events.map((event) =>
-          [
-            event.timestamp,
-            event.type,
-            event.severity,
-            event.ip || "",
-            event.userId || "",
-            JSON.stringify(event.details),
-          ].join(",")
-        ),
-      ];
-      return csvRows.join("\n");
-    }
-
-    return JSON.stringify(events, null, 2);
-  }
-
-  /**
-   * Clean up old events (keep only last 24 hours)
-   */
-  static cleanupOldEvents(): void {
-    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-    this.recentEvents = this.recentEvents.filter(
-      (event) => new Date(event.timestamp) > oneDayAgo
-    );
-  }
-
   /**
    * Get security event summary for dashboard
    */
@@ -412,7 +252,6 @@ export class SecurityMonitor {
     topThreats: Array<{ type: string; count: number }>;
   } {
     const stats = this.getSecurityStats();
-    const recentEvents = this.recentEvents.slice(0, 5);
 
     // Get top threats
     const topThreats = Object.entries(stats.eventsByType)
@@ -422,9 +261,9 @@ export class SecurityMonitor {
 
     return {
       totalEvents: stats.totalEvents,
-      criticalEvents: stats.eventsBySeverity.critical || 0,
-      highSeverityEvents: stats.eventsBySeverity.high || 0,
-      recentActivity: recentEvents,
+      criticalEvents: stats.eventsBySeverity.CRITICAL || 0,
+      highSeverityEvents: stats.eventsBySeverity.HIGH || 0,
+      recentActivity: stats.recentActivity.slice(0, 5),
       topThreats,
     };
   }
@@ -5,6 +5,11 @@
 
 import DOMPurify from "dompurify";
 import { JSDOM } from "jsdom";
+import {
+  RATE_LIMIT_POLICY_NAMES,
+  getDefaultRateLimitPolicies,
+  type RateLimitPolicyName,
+} from "@/lib/rate-limit-policies";
 
 // HTML entity mapping for basic sanitization
 const HTML_ENTITIES: Record<string, string> = {
@@ -777,34 +782,19 @@ export function safeJsonLd(obj: unknown): string {
 
 
 /**
- * Get rate limit configurations based on environment
+ * Get rate limit configurations based on environment: each policy's default
+ * from lib/rate-limit-policies.ts, with the window in milliseconds. Limits
+ * actually enforced, including overrides saved on /settings, come from
+ * getRateLimitPolicy() in lib/security/limits.ts.
  */
-export function getRateLimitConfig() {
-  if (isProduction()) {
-    // Stricter rate limits in production
-    return {
-      auth: { limit: 5, window: 15 * 60 * 1000 }, // 5 requests per 15 minutes
-      upload: { limit: 10, window: 60 * 1000 }, // 10 uploads per minute
-      createPost: { limit: 3, window: 60 * 1000 }, // 3 posts per minute
-      createTag: { limit: 15, window: 60 * 1000 }, // 15 tags per minute
-      api: { limit: 60, window: 60 * 1000 }, // 60 requests per minute
-      admin: { limit: 10, window: 60 * 1000 }, // 10 admin requests per minute
-      search: { limit: 30, window: 60 * 1000 }, // 30 searches per minute
-      interactions: { limit: 100, window: 60 * 1000 }, // 100 interactions per minute
-    };
-  } else {
-    // More lenient rate limits in development
-    return {
-      auth: { limit: 20, window: 15 * 60 * 1000 }, // 20 requests per 15 minutes
-      upload: { limit: 50, window: 60 * 1000 }, // 50 uploads per minute
-      createPost: { limit: 20, window: 60 * 1000 }, // 20 posts per minute
-      createTag: { limit: 100, window: 60 * 1000 }, // 100 tags per minute
-      api: { limit: 500, window: 60 * 1000 }, // 500 requests per minute
-      admin: { limit: 100, window: 60 * 1000 }, // 100 admin requests per minute
-      search: { limit: 200, window: 60 * 1000 }, // 200 searches per minute
-      interactions: { limit: 1000, window: 60 * 1000 }, // 1000 interactions per minute
-    };
-  }
+export function getRateLimitConfig(): Record<RateLimitPolicyName, { limit: number; window: number }> {
+  const policies = getDefaultRateLimitPolicies();
+  return Object.fromEntries(
+    RATE_LIMIT_POLICY_NAMES.map((name) => [
+      name,
+      { limit: policies[name].limit, window: policies[name].windowSeconds * 1000 },
+    ])
+  ) as Record<RateLimitPolicyName, { limit: number; window: number }>;
 }
 
 /**
@@ -53,6 +53,28 @@ export async function getAllowUserPosts(): Promise<boolean> {
   return _getAllowUserPosts();
 }
 
+// ---------------------------------------------------------------------------
+// requireApproval
+// ---------------------------------------------------------------------------
+
+const _getRequireApproval = unstable_cache(
+  async () => {
+    const [row] = await db
+      .select({ requireApproval: settings.requireApproval })
+      .from(settings)
+      .orderBy(desc(settings.updatedAt))
+      .limit(1);
+    return row?.requireApproval ?? true;
+  },
+  ["settings-require-approval"],
+  { revalidate: SETTINGS_REVALIDATE, tags: [CACHE_TAGS.POSTS] }
+);
+
+/** Whether changes by regular users must be re-approved by an admin. */
+export async function getRequireApproval(): Promise<boolean> {
+  return _getRequireApproval();
+}
+
 // ---------------------------------------------------------------------------
 // postsPageSize
 // ---------------------------------------------------------------------------
@@ -97,6 +119,28 @@ export async function getFeaturedPostsLimit(): Promise<number> {
   return _getFeaturedPostsLimit();
 }
 
+// ---------------------------------------------------------------------------
+// trendingHalfLifeHours
+// ---------------------------------------------------------------------------
+
+const _getTrendingHalfLifeHours = unstable_cache(
+  async () => {
+    const [row] = await db
+      .select({ trendingHalfLifeHours: settings.trendingHalfLifeHours })
+      .from(settings)
+      .orderBy(desc(settings.updatedAt))
+      .limit(1);
+    return row?.trendingHalfLifeHours ?? 48;
+  },
+  ["settings-trending-half-life-hours"],
+  { revalidate: SETTINGS_REVALIDATE, tags: [CACHE_TAGS.POSTS] }
+);
+
+/** Half-life (hours) used to decay stars for the "trending" sort. Falls back to 48. */
+export async function getTrendingHalfLifeHours(): Promise<number> {
+  return _getTrendingHalfLifeHours();
+}
+
 /** Call this after settings are saved so the next request re-reads from DB. */
 export async function clearContentFlagsCache() {
   await revalidateCache(CACHE_TAGS.POSTS);
@@ -0,0 +1,161 @@
+import {
+  DeleteObjectsCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+/**
+ * S3-compatible object storage (AWS S3, DigitalOcean Spaces, MinIO, …).
+ *
+ * Configured from the environment — see the Storage section of env.template.
+ * Point S3_ENDPOINT at a local stand-in such as MinIO to develop without AWS.
+ */
+
+// How long a presigned PUT URL stays valid
+const PRESIGNED_UPLOAD_TTL_SECONDS = 5 * 60;
+
+interface StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  forcePathStyle: boolean;
+  publicUrl: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+function getStorageConfig(): StorageConfig | null {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) return null;
+
+  const region = process.env.S3_REGION || "us-east-1";
+  const endpoint = process.env.S3_ENDPOINT || undefined;
+  const forcePathStyle = process.env.S3_FORCE_PATH_STYLE === "true";
+
+  // Public base URL objects are served from: a CDN, the custom endpoint, or AWS
+  const publicUrl = (
+    process.env.S3_PUBLIC_URL ||
+    (endpoint
+      ? forcePathStyle
+        ? `${endpoint}/${bucket}`
+        : `${new URL(endpoint).protocol}//${bucket}.${new URL(endpoint).host}`
+      : `https://${bucket}.s3.${region}.amazonaws.com`)
+  ).replace(/\/+$/, "");
+
+  return {
+    bucket,
+    region,
+    endpoint,
+    forcePathStyle,
+    publicUrl,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+  };
+}
+
+let _client: { config: StorageConfig; s3: S3Client } | null = null;
+
+function getStorage() {
+  if (_client) return _client;
+
+  const config = getStorageConfig();
+  if (!config) throw new Error("Storage is not configured");
+
+  const s3 = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    credentials:
+      config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    // Checksums would be baked into presigned URLs, which browsers can't send
+    requestChecksumCalculation: "WHEN_REQUIRED",
+  });
+
+  _client = { config, s3 };
+  return _client;
+}
+
+/** Whether S3_BUCKET is set; upload UI and endpoints are disabled otherwise. */
+export function isStorageConfigured(): boolean {
+  return getStorageConfig() !== null;
+}
+
+/** Public URL an object is served from. */
+export function getPublicUrl(key: string): string {
+  return `${getStorage().config.publicUrl}/${key}`;
+}
+
+/** The object key behind a public URL, or null if the URL isn't ours. */
+export function getKeyFromPublicUrl(url: string): string | null {
+  const config = getStorageConfig();
+  if (!config) return null;
+  const prefix = `${config.publicUrl}/`;
+  return url.startsWith(prefix) ? decodeURIComponent(url.slice(prefix.length)) : null;
+}
+
+/**
+ * Presigned PUT URL for one object. Content-Type and Content-Length are
+ * signed, so the browser must upload exactly the declared type and size.
+ */
+export async function createPresignedUpload(params: {
+  key: string;
+  contentType: string;
+  size: number;
+}): Promise<{ url: string; headers: Record<string, string> }> {
+  const { config, s3 } = getStorage();
+  const command = new PutObjectCommand({
+    Bucket: config.bucket,
+    Key: params.key,
+    ContentType: params.contentType,
+    ContentLength: params.size,
+    CacheControl: "public, max-age=31536000, immutable",
+  });
+
+  const url = await getSignedUrl(s3, command, {
+    expiresIn: PRESIGNED_UPLOAD_TTL_SECONDS,
+    signableHeaders: new Set(["content-type", "content-length", "cache-control"]),
+  });
+
+  return {
+    url,
+    headers: {
+      "Content-Type": params.contentType,
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  };
+}
+
+/** Type and size of a stored object, or null if it doesn't exist. */
+export async function headObject(
+  key: string
+): Promise<{ contentType: string | undefined; size: number } | null> {
+  const { config, s3 } = getStorage();
+  try {
+    const head = await s3.send(new HeadObjectCommand({ Bucket: config.bucket, Key: key }));
+    return { contentType: head.ContentType, size: head.ContentLength ?? 0 };
+  } catch (error) {
+    if ((error as { name?: string }).name === "NotFound") return null;
+    throw error;
+  }
+}
+
+/** Deletes objects in batches of 1000 (the S3 limit). Missing keys are ignored. */
+export async function deleteObjects(keys: string[]): Promise<void> {
+  const { config, s3 } = getStorage();
+  for (let i = 0; i < keys.length; i += 1000) {
+    const batch = keys.slice(i, i + 1000);
+    const result = await s3.send(
+      new DeleteObjectsCommand({
+        Bucket: config.bucket,
+        Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true },
+      })
+    );
+    if (result.Errors?.length) {
+      throw new Error(`Failed to delete ${result.Errors.length} object(s) from storage`);
+    }
+  }
+}
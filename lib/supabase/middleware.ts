@@ -83,12 +83,16 @@ export async function updateSession(
   const protectedPrefixes = [
     "/dashboard",
     "/stars",
+    "/inbox",
     "/account",
     "/settings",
     "/posts",
     "/categories",
     "/tags",
     "/users",
+    "/audit",
+    "/alerts",
+    "/blocklist",
   ];
   const isProtected = protectedPrefixes.some((p) =>
     request.nextUrl.pathname.startsWith(p)
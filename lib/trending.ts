@@ -0,0 +1,89 @@
+import { db } from "@/lib/db";
+import { posts } from "@/lib/db/schema";
+import { getTrendingHalfLifeHours } from "@/lib/settings";
+import { and, eq, gt, or, sql, type SQL } from "drizzle-orm";
+
+/**
+ * Trending score: every star contributes 0.5^(age / halfLife), summed per post.
+ *
+ * Scores are stored "as of" posts.trendingScoreAt. Because every term decays by
+ * the same factor as time passes, ordering by the stored score stays correct
+ * between refreshes — only stars added since the last refresh are missing,
+ * and star toggles patch those in per post via refreshPostTrendingScore().
+ */
+
+// Stars older than this many half-lives contribute < 0.1% and are skipped
+const WINDOW_HALF_LIVES = 10;
+
+function decayedStarSum(referenceTime: SQL, halfLifeHours: number) {
+  const halfLifeSeconds = halfLifeHours * 3600;
+  return sql`coalesce((
+    select sum(power(0.5, extract(epoch from (${referenceTime} - b."createdAt")) / ${halfLifeSeconds}))
+    from bookmarks b
+    where b."postId" = "posts"."id"
+      and b."createdAt" > ${referenceTime} - make_interval(secs => ${halfLifeSeconds * WINDOW_HALF_LIVES})
+  ), 0)::double precision`;
+}
+
+/**
+ * Recompute published posts' trending scores as of now. Intended to run on a
+ * schedule (see /api/v1/admin/refresh-trending) and after the half-life changes.
+ *
+ * Scheduled runs skip posts whose score can't have changed: a zero score with
+ * no stars since the last refresh stays zero. A new half-life widens or
+ * narrows the star window, so it recomputes every published post.
+ */
+export async function refreshTrendingScores(
+  halfLifeHours?: number
+): Promise<{ updatedCount: number }> {
+  // Callers that just saved a new half-life pass it in to skip the cached setting
+  const halfLifeChanged = halfLifeHours !== undefined;
+  halfLifeHours ??= await getTrendingHalfLifeHours();
+
+  const updated = await db
+    .update(posts)
+    .set({
+      trendingScore: decayedStarSum(sql`now()`, halfLifeHours),
+      trendingScoreAt: sql`now()`,
+    })
+    .where(
+      halfLifeChanged
+        ? eq(posts.isPublished, true)
+        : and(
+            eq(posts.isPublished, true),
+            or(
+              gt(posts.trendingScore, 0),
+              sql`exists (
+                select 1 from bookmarks b
+                where b."postId" = "posts"."id"
+                  and ("posts"."trendingScoreAt" is null or b."createdAt" > "posts"."trendingScoreAt")
+              )`
+            )
+          )
+    )
+    .returning({ id: posts.id });
+
+  return { updatedCount: updated.length };
+}
+
+/**
+ * Recompute one post's score against the same reference time as the last
+ * refresh, so it stays comparable with every other post until the next refresh.
+ * Posts skipped by recent refreshes keep an older trendingScoreAt, so the
+ * latest one is used rather than the post's own.
+ */
+export async function refreshPostTrendingScore(postId: string): Promise<void> {
+  const halfLifeHours = await getTrendingHalfLifeHours();
+  const referenceTime = sql`coalesce(
+    (select max(p."trendingScoreAt") from posts p),
+    now()
+  )`;
+
+  await db
+    .update(posts)
+    .set({
+      trendingScore: decayedStarSum(referenceTime, halfLifeHours),
+      trendingScoreAt: referenceTime,
+    })
+    .where(eq(posts.id, postId));
+}
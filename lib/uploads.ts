@@ -0,0 +1,206 @@
+import { randomUUID } from "node:crypto";
+import { and, eq, inArray, isNotNull, lt, notExists, notInArray, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  uploadReferences,
+  uploads,
+  type UploadPurpose,
+  type UploadReferenceType,
+} from "@/lib/db/schema";
+import {
+  createPresignedUpload,
+  deleteObjects,
+  getKeyFromPublicUrl,
+  getPublicUrl,
+  headObject,
+} from "@/lib/storage";
+import { UPLOAD_IMAGE_TYPES, type UploadRequestData } from "@/lib/schemas";
+
+// Unreferenced uploads are kept this long before cleanup deletes them, so an
+// image dropped into an unsaved draft survives until the draft is saved
+export const ORPHAN_GRACE_HOURS = 24;
+
+const CLEANUP_BATCH_SIZE = 500;
+
+const KEY_FOLDERS: Record<UploadPurpose, string> = {
+  BLOG_IMAGE: "blog/images",
+  BLOG_FEATURED_IMAGE: "blog/featured",
+  POST_PREVIEW: "posts/previews",
+};
+
+/** Purposes regular users may upload for; the blog is admin-only. */
+export function canUploadFor(purpose: UploadPurpose, role: string): boolean {
+  return role === "ADMIN" || purpose === "POST_PREVIEW";
+}
+
+/**
+ * Records a pending upload and returns a presigned PUT URL for it. The key is
+ * generated server-side; the client's filename is never used in it.
+ */
+export async function createUpload(userId: string, data: UploadRequestData) {
+  const key = `${KEY_FOLDERS[data.purpose]}/${userId}/${randomUUID()}.${
+    UPLOAD_IMAGE_TYPES[data.contentType]
+  }`;
+
+  const [created] = await db
+    .insert(uploads)
+    .values({
+      userId,
+      key,
+      contentType: data.contentType,
+      size: data.size,
+      purpose: data.purpose,
+    })
+    .returning({ id: uploads.id });
+  if (!created) throw new Error("Failed to record upload");
+
+  const presigned = await createPresignedUpload({
+    key,
+    contentType: data.contentType,
+    size: data.size,
+  });
+
+  return {
+    id: created.id,
+    uploadUrl: presigned.url,
+    headers: presigned.headers,
+    url: getPublicUrl(key),
+  };
+}
+
+/**
+ * Confirms the browser's PUT landed: the object must exist with the type and
+ * size that were presigned. Anything else is deleted along with its record.
+ */
+export async function completeUpload(
+  userId: string,
+  uploadId: string
+): Promise<
+  { success: true; url: string } | { success: false; error: string; status: 400 | 404 }
+> {
+  const [upload] = await db
+    .select()
+    .from(uploads)
+    .where(and(eq(uploads.id, uploadId), eq(uploads.userId, userId)))
+    .limit(1);
+  if (!upload) return { success: false, error: "Upload not found", status: 404 };
+  if (upload.uploadedAt) return { success: true, url: getPublicUrl(upload.key) };
+
+  const object = await headObject(upload.key);
+  if (!object) return { success: false, error: "File has not been uploaded", status: 400 };
+
+  if (object.size !== upload.size || object.contentType !== upload.contentType) {
+    await deleteObjects([upload.key]);
+    await db.delete(uploads).where(eq(uploads.id, upload.id));
+    return { success: false, error: "Uploaded file does not match the request", status: 400 };
+  }
+
+  await db.update(uploads).set({ uploadedAt: new Date() }).where(eq(uploads.id, upload.id));
+  return { success: true, url: getPublicUrl(upload.key) };
+}
+
+/** Storage keys of our own images embedded in HTML and/or given as URLs. */
+function collectUploadKeys(html: string | null, urls: (string | null)[]): string[] {
+  const sources = [...(html ?? "").matchAll(/<img\b[^>]*\ssrc="([^"]+)"/gi)].map((m) =>
+    m[1].replace(/&amp;/g, "&")
+  );
+  const keys = [...sources, ...urls]
+    .filter((url): url is string => !!url)
+    .map((url) => getKeyFromPublicUrl(url))
+    .filter((key): key is string => !!key);
+  return [...new Set(keys)];
+}
+
+/**
+ * Points an entity's upload references at exactly the images it now uses.
+ * Call after saving a blog post or post; uploads that lose their last
+ * reference become orphans and are removed by cleanupOrphanedUploads().
+ */
+export async function syncUploadReferences(
+  entityType: UploadReferenceType,
+  entityId: string,
+  content: { html?: string | null; urls?: (string | null)[] }
+): Promise<void> {
+  const keys = collectUploadKeys(content.html ?? null, content.urls ?? []);
+  const used = keys.length
+    ? await db
+        .select({ id: uploads.id })
+        .from(uploads)
+        .where(and(inArray(uploads.key, keys), isNotNull(uploads.uploadedAt)))
+    : [];
+  const usedIds = used.map((u) => u.id);
+
+  await db.transaction(async (tx) => {
+    const released = await tx
+      .delete(uploadReferences)
+      .where(
+        and(
+          eq(uploadReferences.entityType, entityType),
+          eq(uploadReferences.entityId, entityId),
+          usedIds.length ? notInArray(uploadReferences.uploadId, usedIds) : undefined
+        )
+      )
+      .returning({ uploadId: uploadReferences.uploadId });
+
+    if (released.length) {
+      await tx
+        .update(uploads)
+        .set({ updatedAt: new Date() })
+        .where(inArray(uploads.id, released.map((r) => r.uploadId)));
+    }
+
+    if (usedIds.length) {
+      await tx
+        .insert(uploadReferences)
+        .values(usedIds.map((uploadId) => ({ uploadId, entityType, entityId })))
+        .onConflictDoNothing();
+    }
+  });
+}
+
+/** Drops every reference held by a deleted entity. */
+export async function clearUploadReferences(
+  entityType: UploadReferenceType,
+  entityId: string
+): Promise<void> {
+  await syncUploadReferences(entityType, entityId, {});
+}
+
+/**
+ * Deletes uploads with no references that have been unreferenced for longer
+ * than the grace period — abandoned presigns, images removed from articles,
+ * and images of deleted entities — from storage first, then the database.
+ */
+export async function cleanupOrphanedUploads(
+  graceHours = ORPHAN_GRACE_HOURS
+): Promise<{ deletedCount: number }> {
+  const cutoff = new Date(Date.now() - graceHours * 60 * 60 * 1000);
+  let deletedCount = 0;
+
+  while (true) {
+    const orphans = await db
+      .select({ id: uploads.id, key: uploads.key })
+      .from(uploads)
+      .where(
+        and(
+          lt(uploads.updatedAt, cutoff),
+          notExists(
+            db
+              .select({ one: sql`1` })
+              .from(uploadReferences)
+              .where(eq(uploadReferences.uploadId, uploads.id))
+          )
+        )
+      )
+      .limit(CLEANUP_BATCH_SIZE);
+    if (orphans.length === 0) break;
+
+    await deleteObjects(orphans.map((o) => o.key));
+    await db.delete(uploads).where(inArray(uploads.id, orphans.map((o) => o.id)));
+    deletedCount += orphans.length;
+
+    if (orphans.length < CLEANUP_BATCH_SIZE) break;
+  }
+
+  return { deletedCount };
+}
@@ -0,0 +1,142 @@
+/**
+ * Tests for the ZIP writer (lib/zip.ts)
+ * Run with: npx tsx lib/zip.test.ts
+ */
+
+import { inflateRawSync } from "node:zlib";
+import { createZip } from "./zip";
+
+let passedTests = 0;
+let totalTests = 0;
+
+function check(testName: string, passed: boolean, details?: string) {
+  totalTests += 1;
+  passedTests += passed ? 1 : 0;
+  console.log(`${passed ? "✅" : "❌"} ${testName}`);
+  if (!passed && details) console.log(`  ${details}`);
+}
+
+function checkEqual(testName: string, actual: unknown, expected: unknown) {
+  check(
+    testName,
+    JSON.stringify(actual) === JSON.stringify(expected),
+    `Expected ${JSON.stringify(expected)}\n  Got      ${JSON.stringify(actual)}`
+  );
+}
+
+interface ReadEntry {
+  path: string;
+  data: Buffer;
+  crc: number;
+  flags: number;
+  time: number;
+  date: number;
+}
+
+// Walks the archive from its end record, the way unzip does
+function readZip(zip: Buffer): { entries: ReadEntry[]; localEntries: number } {
+  const end = zip.length - 22;
+  if (zip.readUInt32LE(end) !== 0x06054b50) throw new Error("Missing end of central directory");
+  const count = zip.readUInt16LE(end + 10);
+  let cursor = zip.readUInt32LE(end + 16);
+  if (cursor + zip.readUInt32LE(end + 12) !== end) throw new Error("Central directory size mismatch");
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (zip.readUInt32LE(cursor) !== 0x02014b50) throw new Error(`Bad central header ${i}`);
+    const compressedSize = zip.readUInt32LE(cursor + 20);
+    const size = zip.readUInt32LE(cursor + 24);
+    const nameLength = zip.readUInt16LE(cursor + 28);
+    const offset = zip.readUInt32LE(cursor + 42);
+    const path = zip.toString("utf8", cursor + 46, cursor + 46 + nameLength);
+
+    if (zip.readUInt32LE(offset) !== 0x04034b50) throw new Error(`Bad local header for ${path}`);
+    const localNameLength = zip.readUInt16LE(offset + 26);
+    const dataStart = offset + 30 + localNameLength + zip.readUInt16LE(offset + 28);
+    const data = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+    if (data.length !== size) throw new Error(`Size mismatch for ${path}`);
+
+    entries.push({
+      path,
+      data,
+      crc: zip.readUInt32LE(cursor + 16),
+      flags: zip.readUInt16LE(cursor + 8),
+      time: zip.readUInt16LE(cursor + 12),
+      date: zip.readUInt16LE(cursor + 14),
+    });
+    cursor += 46 + nameLength;
+  }
+
+  let localEntries = 0;
+  for (let i = 0; i + 4 <= end; i++) if (zip.readUInt32LE(i) === 0x04034b50) localEntries++;
+  return { entries, localEntries };
+}
+
+async function runTests() {
+  console.log("🧪 Testing lib/zip.ts...\n");
+
+  const modified = new Date(2024, 4, 17, 13, 45, 30);
+  const zip = createZip(
+    [
+      { path: "skill/SKILL.md", content: "---\nname: skill\n---\n\nHello\n" },
+      { path: "data/blob.bin", content: Buffer.from([0, 1, 2, 255]) },
+      { path: "notes/ünïcode ✓.md", content: "héllo wörld ".repeat(200) },
+    ],
+    modified
+  );
+  const { entries, localEntries } = readZip(zip);
+
+  checkEqual("entries are listed in order", entries.map((e) => e.path), [
+    "skill/SKILL.md",
+    "data/blob.bin",
+    "notes/ünïcode ✓.md",
+  ]);
+  check("every entry has a local header", localEntries === 3, `Found ${localEntries}`);
+  checkEqual("string content round-trips", entries[0]?.data.toString("utf8"), "---\nname: skill\n---\n\nHello\n");
+  check("binary content round-trips", entries[1]?.data.equals(Buffer.from([0, 1, 2, 255])) === true);
+  check("repetitive content is compressed", zip.length < "héllo wörld ".repeat(200).length);
+  check("names are flagged as UTF-8", entries.every((e) => (e.flags & 0x0800) !== 0));
+
+  // CRC-32 of "123456789" is the standard check value 0xCBF43926
+  const checkValue = readZip(createZip([{ path: "a.txt", content: "123456789" }], modified));
+  check(
+    "CRC-32 matches the standard check value",
+    checkValue.entries[0]?.crc === 0xcbf43926,
+    `Got 0x${checkValue.entries[0]?.crc.toString(16)}`
+  );
+
+  checkEqual(
+    "timestamps use the MS-DOS format",
+    { time: entries[0]?.time, date: entries[0]?.date },
+    { time: (13 << 11) | (45 << 5) | 15, date: (44 << 9) | (5 << 5) | 17 }
+  );
+
+  const empty = createZip([]);
+  check(
+    "an empty archive is only the end record",
+    empty.length === 22 && empty.readUInt32LE(0) === 0x06054b50 && readZip(empty).entries.length === 0
+  );
+
+  const emptyFile = readZip(createZip([{ path: "empty.txt", content: "" }]));
+  check("empty files round-trip", emptyFile.entries[0]?.data.length === 0 && emptyFile.entries[0]?.crc === 0);
+
+  console.log();
+  console.log(`📊 Test Results: ${passedTests}/${totalTests} tests passed`);
+
+  if (passedTests === totalTests) {
+    console.log("🎉 All tests passed! The ZIP writer is working correctly.");
+  } else {
+    console.log("⚠️ Some tests failed. Please review the output above.");
+    process.exitCode = 1;
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
+
+export { runTests };
@@ -10,6 +10,12 @@ import {
   getClientIP,
   sanitizeUserAgent,
 } from "@/lib/edge";
+import { getApiKeyRateLimit } from "@/lib/rate-limit-policies";
+import type { ApiKeyIdentity } from "@/lib/api-keys";
+import { findActiveBlock, recordViolation, type ActiveBlock } from "@/lib/security/blocklist";
+
+const MUTATING_METHODS = ["POST", "PUT", "DELETE", "PATCH"];
+const PAGE_VIEW_BEACON_PATH = "/api/v1/analytics/collect";
 
 export async function proxy(request: NextRequest) {
   try {
@@ -17,6 +23,22 @@ export async function proxy(request: NextRequest) {
     const isDevelopment = process.env.NODE_ENV === 'development';
     const nonce = CSPNonce.generate(); // Always generate nonce for consistency
 
+    // Get client IP for blocking, logging and rate limiting
+    const clientIp = getClientIP(request);
+
+    // ------------------------------------------------------------------
+    // BLOCKLIST
+    //
+    // Blocked IPs and CIDR ranges are turned away before any session or
+    // route work; blocked users once their identity is resolved below.
+    // Checks read an in-process snapshot of the list (lib/security/blocklist),
+    // which is imported statically because every request needs it.
+    // ------------------------------------------------------------------
+    const ipBlock = await findActiveBlock({ ipAddress: clientIp });
+    if (ipBlock) {
+      return blockedResponse(request, ipBlock);
+    }
+
     // Handle Supabase session — getUser() validates the JWT with Supabase servers.
     const { response, userId: verifiedUserId } = await updateSession(request);
 
@@ -31,7 +53,7 @@ export async function proxy(request: NextRequest) {
     // ------------------------------------------------------------------
     // USER IDENTITY RESOLUTION
     //
-    // Two authentication paths — exactly one wins per request:
+    // Three authentication paths — at most one wins per request:
     //
     //  A) Cookie session (web browser)
     //     updateSession() already validated the Supabase JWT via the cookie
@@ -43,22 +65,61 @@ export async function proxy(request: NextRequest) {
     //     automatic cookie attachment is the root cause of CSRF, and native
     //     clients never exhibit that behaviour.
     //
+    //  C) Personal API key (scripts / CI)
+    //     `X-API-Key: pxk_…` or `Authorization: Bearer pxk_…`. Keys are looked
+    //     up by hash in lib/api-keys.ts, CSRF-exempt like bearer tokens, rate
+    //     limited per key, and every request is written to `logs`. READ keys
+    //     may only use safe methods, and no key reaches admin routes or
+    //     carries admin rights (x-api-key-id caps the role in getCurrentUser).
+    //
     // Always delete x-user-id first so a client can never forge it.
     // ------------------------------------------------------------------
     requestHeaders.delete("x-user-id");
+    requestHeaders.delete("x-api-key-id");
 
     // Path A — cookie session (browser)
     if (verifiedUserId) {
       requestHeaders.set("x-user-id", verifiedUserId);
     }
 
+    const isApiRequest = request.nextUrl.pathname.startsWith("/api/");
+
+    // Path C — Personal API key (scripts / CI)
+    // lib/api-keys (hashing, usage logging) is only loaded when a request
+    // actually carries a key. The DB client itself is already loaded: the
+    // blocklist check above runs on every request.
+    let apiKey: ApiKeyIdentity | null = null;
+    let invalidApiKey = false;
+    let apiKeyLib: typeof import("@/lib/api-keys") | null = null;
+
+    if (!verifiedUserId && isApiRequest) {
+      const authHeader = request.headers.get("authorization");
+      const mayCarryKey =
+        request.headers.has("x-api-key") || authHeader?.startsWith("Bearer pxk_");
+
+      if (mayCarryKey) {
+        apiKeyLib = await import("@/lib/api-keys");
+        const rawKey = apiKeyLib.getApiKeyFromHeaders(request.headers);
+        try {
+          apiKey = rawKey ? await apiKeyLib.verifyApiKey(rawKey, clientIp) : null;
+        } catch (error) {
+          console.error("API key verification failed:", error);
+        }
+        if (apiKey) {
+          requestHeaders.set("x-user-id", apiKey.userId);
+          requestHeaders.set("x-api-key-id", apiKey.id);
+        } else {
+          invalidApiKey = true;
+        }
+      }
+    }
+
     // Path B — Bearer token (iOS / API)
     // Only evaluated when the cookie session produced no userId (avoids
     // a redundant Supabase network call for normal browser requests).
     let bearerUserId: string | null = null;
-    const isApiRequest = request.nextUrl.pathname.startsWith("/api/");
 
-    if (!verifiedUserId && isApiRequest) {
+    if (!verifiedUserId && isApiRequest && !apiKeyLib) {
       const authHeader = request.headers.get("authorization");
       const rawBearer =
         authHeader?.startsWith("Bearer ") ? authHeader.slice(7).trim() : null;
@@ -92,6 +153,14 @@ export async function proxy(request: NextRequest) {
       }
     }
 
+    const resolvedUserId = requestHeaders.get("x-user-id");
+    if (resolvedUserId) {
+      const userBlock = await findActiveBlock({ userId: resolvedUserId });
+      if (userBlock) {
+        return blockedResponse(request, userBlock);
+      }
+    }
+
     // Set nonce in headers for Server Components to access
     requestHeaders.set("x-nonce", nonce);
 
@@ -144,18 +213,16 @@ export async function proxy(request: NextRequest) {
       response.headers.set(key, value);
     });
 
-    // Get client IP for logging and rate limiting
-    const clientIp = getClientIP(request);
-
     // ------------------------------------------------------------------
     // CSRF VALIDATION
     //
     // Applies only to cookie-authenticated (browser) requests.
-    // Bearer-authenticated (iOS / API) requests are exempt — bearer tokens
-    // cannot be forged by a malicious cross-origin page, so the double-submit
-    // pattern adds no security value for them.
+    // Bearer- and API-key-authenticated requests are exempt — neither can be
+    // forged by a malicious cross-origin page, so the double-submit pattern
+    // adds no security value for them. Requests with a bad API key skip it
+    // too; they are rejected with 401 below.
     // ------------------------------------------------------------------
-    if (["POST", "PUT", "DELETE", "PATCH"].includes(request.method)) {
+    if (MUTATING_METHODS.includes(request.method)) {
       const pathname = request.nextUrl.pathname;
 
       // Endpoints that never need CSRF (no cookies involved, or system calls)
@@ -164,17 +231,23 @@ export async function proxy(request: NextRequest) {
         "/auth/callback",      // OAuth redirect — no session cookie yet
         "/api/v1/auth/",       // Supabase-managed auth flows
         "/api/v1/security/csp-report", // Browser-initiated CSP violation reports
+        "/api/v1/mail/unsubscribe", // RFC 8058 one-click from mail clients; HMAC-signed token
       ];
 
       const pathSkipsCsrf = skipCSRFPaths.some((p) => pathname.startsWith(p));
-      // Bearer-authenticated requests are also exempt (see explanation above)
+      // Bearer- and API-key requests are also exempt (see explanation above)
       const shouldValidateCSRF =
-        !pathSkipsCsrf && !bearerUserId && pathname.startsWith("/api/");
+        !pathSkipsCsrf &&
+        !bearerUserId &&
+        !apiKeyLib &&
+        pathname.startsWith("/api/");
 
       if (shouldValidateCSRF) {
         const csrfToken = CSRFProtection.getTokenFromHeaders(request);
 
         if (!csrfToken) {
+          await SecurityEvents.csrfFailure(clientIp, pathname, "missing");
+          await recordViolation({ type: "IP", value: clientIp }, "CSRF", resolvedUserId);
           return NextResponse.json(
             { error: "CSRF token required", code: "CSRF_TOKEN_MISSING" },
             { status: 403, headers: securityHeaders }
@@ -191,6 +264,8 @@ export async function proxy(request: NextRequest) {
           csrfCookieToken
         );
         if (!isValid) {
+          await SecurityEvents.csrfFailure(clientIp, pathname, "invalid");
+          await recordViolation({ type: "IP", value: clientIp }, "CSRF", resolvedUserId);
           return NextResponse.json(
             { error: "Invalid CSRF token", code: "CSRF_TOKEN_INVALID" },
             { status: 403, headers: securityHeaders }
@@ -221,14 +296,29 @@ export async function proxy(request: NextRequest) {
 
     // ------------------
     // PATH-BASED API RATE LIMITS (one bucket per request to avoid double-counting)
+    //
+    // The page-view beacon fires on every navigation, so it is limited only by
+    // its route, under the "interactions" policy; counting it here too would
+    // turn fast browsing (or a shared NAT) into violations and auto-bans.
     // ------------------
-    if (request.nextUrl.pathname.startsWith("/api/")) {
+    if (
+      request.nextUrl.pathname.startsWith("/api/") &&
+      request.nextUrl.pathname !== PAGE_VIEW_BEACON_PATH
+    ) {
       const pathname = request.nextUrl.pathname;
       const clientId = getClientIdentifier(request as unknown as Request);
 
-      // Apply the strictest applicable limit per path to reduce abuse
+      // Apply the strictest applicable limit per path to reduce abuse.
+      // API keys get their own per-key buckets (Redis-backed when available).
       let rateLimitResult;
-      if (pathname.startsWith("/api/v1/upload/")) {
+      if (apiKey) {
+        const { rateLimits: keyRateLimits } = await import("@/lib/security/limits");
+        const { policy, identifier } = getApiKeyRateLimit(
+          apiKey.id,
+          MUTATING_METHODS.includes(request.method)
+        );
+        rateLimitResult = await keyRateLimits[policy](identifier);
+      } else if (pathname.startsWith("/api/v1/upload/")) {
         rateLimitResult = await rateLimits.upload(clientId);
       } else if (pathname.startsWith("/api/v1/admin/")) {
         rateLimitResult = await rateLimits.admin(clientId);
@@ -236,6 +326,9 @@ export async function proxy(request: NextRequest) {
         rateLimitResult = await rateLimits.auth(clientId);
       } else if (pathname === "/api/v1/csrf") {
         rateLimitResult = await rateLimits.csrf(clientId);
+      } else if (resolvedUserId) {
+        // Signed-in callers get their own per-user budget
+        rateLimitResult = await rateLimits.apiAuthenticated(`user:${resolvedUserId}`);
       } else {
         rateLimitResult = await rateLimits.api(clientId);
       }
@@ -252,11 +345,16 @@ export async function proxy(request: NextRequest) {
         console.warn(
           `[RATE_LIMIT] Exceeded for ${clientId} on ${pathname} - IP: ${clientIp}`
         );
-        await SecurityEvents.rateLimitExceeded(
-          clientId,
-          pathname,
-          request.headers.get("user-agent") ?? undefined
+        await SecurityEvents.rateLimitExceeded(clientId, pathname, clientIp);
+        // Repeat offenders are banned: API keys by their owner, others by IP
+        await recordViolation(
+          apiKey ? { type: "USER", value: apiKey.userId } : { type: "IP", value: clientIp },
+          "rate limit",
+          resolvedUserId
         );
+        if (apiKey && apiKeyLib) {
+          await apiKeyLib.logApiKeyUsage(apiKey, apiKeyRequestInfo(request, clientIp), "rate_limited");
+        }
 
         return NextResponse.json(
           {
@@ -280,6 +378,37 @@ export async function proxy(request: NextRequest) {
       }
     }
 
+    // ------------------------------------------------------------------
+    // API KEY RESPONSE
+    // ------------------------------------------------------------------
+    if (invalidApiKey) {
+      // Key guessing counts towards an automatic ban like other violations
+      await recordViolation({ type: "IP", value: clientIp }, "invalid API key");
+      return NextResponse.json(
+        { error: "Invalid or revoked API key", code: "API_KEY_INVALID" },
+        { status: 401, headers: securityHeaders }
+      );
+    }
+
+    if (apiKey && apiKeyLib) {
+      const requestInfo = apiKeyRequestInfo(request, clientIp);
+      if (apiKey.scope === "READ" && MUTATING_METHODS.includes(request.method)) {
+        await apiKeyLib.logApiKeyUsage(apiKey, requestInfo, "forbidden");
+        return NextResponse.json(
+          { error: "This API key is read-only", code: "API_KEY_SCOPE" },
+          { status: 403, headers: securityHeaders }
+        );
+      }
+      if (request.nextUrl.pathname.startsWith("/api/v1/admin/")) {
+        await apiKeyLib.logApiKeyUsage(apiKey, requestInfo, "forbidden");
+        return NextResponse.json(
+          { error: "API keys cannot be used for admin routes", code: "API_KEY_SCOPE" },
+          { status: 403, headers: securityHeaders }
+        );
+      }
+      await apiKeyLib.logApiKeyUsage(apiKey, requestInfo, "allowed");
+    }
+
     // Update request with modified headers
     return NextResponse.next({
       request: {
@@ -303,6 +432,36 @@ export async function proxy(request: NextRequest) {
   }
 }
 
+function blockedResponse(request: NextRequest, block: ActiveBlock) {
+  const headers: Record<string, string> = {
+    "X-Content-Type-Options": "nosniff",
+    "X-Frame-Options": "DENY",
+  };
+  const retryAfterSec =
+    block.expiresAt !== null ? Math.max(1, Math.ceil((block.expiresAt - Date.now()) / 1000)) : null;
+  if (retryAfterSec !== null) headers["Retry-After"] = String(retryAfterSec);
+
+  if (request.nextUrl.pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      { error: "Access blocked", code: "ACCESS_BLOCKED", retryAfter: retryAfterSec },
+      { status: 403, headers }
+    );
+  }
+  return new NextResponse("Access blocked", {
+    status: 403,
+    headers: { ...headers, "Content-Type": "text/plain; charset=utf-8" },
+  });
+}
+
+function apiKeyRequestInfo(request: NextRequest, clientIp: string) {
+  return {
+    method: request.method,
+    pathname: request.nextUrl.pathname,
+    ipAddress: clientIp,
+    userAgent: sanitizeUserAgent(request.headers.get("user-agent")),
+  };
+}
+
 export const config = {
   matcher: [
     /*